@@ -41,10 +41,41 @@ describe('useEditorEventApi', () => {
     handleEditorEvent('event.data.cut-selection' as NodeEventTypes, {});
     handleEditorEvent('event.data.paste-selection' as NodeEventTypes, {});
     handleEditorEvent('event.data.move-selection' as NodeEventTypes, {});
+    handleEditorEvent('event.data.extract-selection' as NodeEventTypes, {});
     handleEditorEvent('event.data.delete-selection' as NodeEventTypes, {});
     handleEditorEvent('event.data.paste-selection--keyboard' as NodeEventTypes, {});
     handleEditorEvent('event.data.paste-selection--menu' as NodeEventTypes, {});
     handleEditorEvent('event.operation.undo' as NodeEventTypes, {});
     handleEditorEvent('event.operation.redo' as NodeEventTypes, {});
   });
+  it('copies the shared LG templates of the extracted actions with their parameters.', async () => {
+    const addLgTemplates = jest.fn(() => Promise.resolve());
+    const greet = { name: 'Greet', parameters: ['name'], body: '- Hi ${name}' };
+    const data = {
+      $kind: 'Microsoft.AdaptiveDialog',
+      triggers: [
+        { actions: [{ $kind: 'Microsoft.SendActivity', $designer: { id: 'send0' }, activity: '${Greet(user.name)}' }] },
+      ],
+    };
+    const { handleEditorEvent } = renderHook(() =>
+      useEditorEventApi(
+        {
+          path: 'main',
+          data,
+          nodeContext: defaultRendererContextValue,
+          selectionContext: { ...defaultSelectionContextValue, selectedIds: ['triggers[0].actions[0]'] },
+        },
+        {
+          ...ShellApiStub,
+          createDialog: () => Promise.resolve('extracted'),
+          getDialog: () => ({ triggers: [{ actions: [] }] }),
+          getLgTemplates: () => [greet],
+          addLgTemplates,
+        }
+      )
+    ).result.current;
+
+    await handleEditorEvent(NodeEventTypes.ExtractSelection, {});
+    expect(addLgTemplates).toBeCalledWith('extracted', [greet]);
+  });
 });
@@ -12,11 +12,13 @@ describe('<NodeMenu />', () => {
 
   beforeEach(() => {
     onEvent = (...args) => {
-      clickResults.onDelete.push(args);
+      if (args[0] === NodeEventTypes.Delete) clickResults.onDelete.push(args);
+      if (args[0] === NodeEventTypes.ExtractSelection) clickResults.onExtract.push(args);
     };
     id = 'nodeMenu';
     clickResults = {
       onDelete: [],
+      onExtract: [],
     };
 
     renderResult = render(<NodeMenu id={id} onEvent={onEvent} />);
@@ -29,7 +31,7 @@ describe('<NodeMenu />', () => {
 
     fireEvent.click(menuButton);
 
-    const matcher = itemName || /(Delete)/;
+    const matcher = itemName || /(Delete|Extract to dialog)/;
     return findAllByText(document.body, matcher) as Promise<HTMLElement[]>;
   }
 
@@ -40,9 +42,16 @@ describe('<NodeMenu />', () => {
     expect(clickResults.onDelete).toEqual([[NodeEventTypes.Delete, { id: 'nodeMenu' }]]);
   });
 
+  it('can be extracted to a dialog', async () => {
+    const [extractItem] = await getMenuItems('Extract to dialog');
+
+    fireEvent.click(extractItem);
+    expect(clickResults.onExtract).toEqual([[NodeEventTypes.ExtractSelection, { id: 'nodeMenu' }]]);
+  });
+
   it('renders menu with available actions', async () => {
     const menuItems = await getMenuItems();
 
-    expect(menuItems).toHaveLength(1);
+    expect(menuItems).toHaveLength(2);
   });
 });
@@ -6,6 +6,7 @@ import { ShellApi } from '@bfc/shared';
 const fn = () => ({} as any);
 const fnList = () => [] as any[];
 const fnPromise = () => Promise.resolve({} as any);
+const fnListPromise = () => Promise.resolve([] as any[]);
 
 export const ShellApiStub: ShellApi = {
   getDialog: fn,
@@ -20,6 +21,7 @@ export const ShellApiStub: ShellApi = {
   getLgTemplates: fnList,
   copyLgTemplate: fnPromise,
   addLgTemplate: fnPromise,
+  addLgTemplates: fnPromise,
   updateLgTemplate: fnPromise,
   removeLgTemplate: fnPromise,
   removeLgTemplates: fnPromise,
@@ -43,12 +45,13 @@ export const ShellApiStub: ShellApi = {
   announce: fn,
   displayManifestModal: fn,
   constructAction: fnPromise,
-  constructActions: fnPromise,
+  constructActions: fnListPromise,
   copyAction: fnPromise,
-  copyActions: fnPromise,
+  copyActions: fnListPromise,
   deleteAction: fnPromise,
   deleteActions: fnPromise,
   actionsContainLuIntent: fn,
+  getActionsMemoryPaths: () => ({ read: [], written: [] }),
   updateQnaContent: fnPromise,
   renameRegExIntent: fnPromise,
   updateIntentTrigger: fnPromise,
@@ -56,6 +59,7 @@ export const ShellApiStub: ShellApi = {
   updateDialogSchema: fnPromise,
   createTrigger: fnPromise,
   updateFlowZoomRate: fnPromise,
+  registerCommands: fn,
 };
 
 describe('ShellApiStub', () => {
@@ -0,0 +1,54 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { LgTemplate } from '@bfc/shared';
+
+import {
+  getBeginDialogOptions,
+  getReferredLgTemplates,
+  getResultAssignments,
+} from '../../../src/adaptive-flow-editor/utils/extractActions';
+
+const getTemplate = (name: string, body: string) => ({ name, body, parameters: [] } as LgTemplate);
+
+describe('getReferredLgTemplates', () => {
+  const templates = [
+    getTemplate('SendActivity_abc', '- ${Greeting()}, ${user.name}'),
+    getTemplate('SendActivity_abc_text', '- hi'),
+    getTemplate('Greeting', '- ${Hello()}'),
+    getTemplate('Hello', '- hello'),
+    getTemplate('Unused', '- unused'),
+  ];
+
+  it('returns the templates the responses refer to in turn without the ones of the actions', () => {
+    const actions = [{ $kind: 'Microsoft.SendActivity', $designer: { id: 'abc' }, activity: '${SendActivity_abc()}' }];
+    expect(getReferredLgTemplates(actions, templates).map(({ name }) => name)).toEqual(['Greeting', 'Hello']);
+  });
+
+  it('returns no templates for actions without responses', () => {
+    const actions = [{ $kind: 'Microsoft.EndDialog', $designer: { id: 'def' } }];
+    expect(getReferredLgTemplates(actions, templates)).toEqual([]);
+  });
+});
+
+describe('getBeginDialogOptions', () => {
+  it('passes the properties of the dialog scope', () => {
+    expect(getBeginDialogOptions(['dialog.orderId', 'dialog.address.city', 'user.name', 'this.value'])).toEqual({
+      orderId: '=dialog.orderId',
+      address: '=dialog.address',
+    });
+  });
+
+  it('has no options without properties of the dialog scope', () => {
+    expect(getBeginDialogOptions(['user.name', 'conversation.topic'])).toBeUndefined();
+  });
+});
+
+describe('getResultAssignments', () => {
+  it('assigns the properties of the dialog scope from the result of the new dialog', () => {
+    expect(getResultAssignments(['dialog.orderId', 'dialog.address.city', 'dialog.address.zip', 'user.name'])).toEqual([
+      { property: 'dialog.orderId', value: '=turn.extractedDialogResult.orderId' },
+      { property: 'dialog.address', value: '=turn.extractedDialogResult.address' },
+    ]);
+  });
+});
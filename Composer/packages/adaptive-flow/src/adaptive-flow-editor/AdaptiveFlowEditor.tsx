@@ -73,6 +73,7 @@ const VisualDesigner: React.FC<VisualDesignerProps> = ({ onFocus, onBlur, schema
     hosted,
     schemas,
     flowZoomRate,
+    dialogDiff,
   } = shellData;
 
   const { updateFlowZoomRate } = shellApi;
@@ -97,6 +98,15 @@ const VisualDesigner: React.FC<VisualDesignerProps> = ({ onFocus, onBlur, schema
     schemas?.default,
   ]);
 
+  // removed actions are not in the flow anymore, they are only listed
+  const diffKinds = useMemo(
+    () =>
+      (dialogDiff ?? [])
+        .filter(({ kind }) => kind !== 'removed')
+        .reduce((result, { path, kind }) => ({ ...result, [path]: kind }), {}),
+    [dialogDiff]
+  );
+
   const nodeContext: NodeRendererContextValue = {
     focusedId,
     focusedEvent,
@@ -104,6 +114,7 @@ const VisualDesigner: React.FC<VisualDesignerProps> = ({ onFocus, onBlur, schema
     clipboardActions: clipboardActions || [],
     dialogFactory: new DialogFactory(schema),
     customSchemas: customActionSchema ? [customActionSchema] : [],
+    diffKinds,
   };
 
   const customFlowSchema: FlowUISchema = nodeContext.customSchemas.reduce((result, s) => {
@@ -19,6 +19,7 @@ export const ScreenReaderMessage = {
   ActionsCopied: formatMessage('Actions copied'),
   ActionsCut: formatMessage('Actions cut'),
   ActionsMoved: formatMessage('Actions moved'),
+  ActionsExtracted: formatMessage('Actions extracted to a new dialog'),
   ActionUndo: formatMessage('Undo'),
   ActionRedo: formatMessage('Redo'),
 };
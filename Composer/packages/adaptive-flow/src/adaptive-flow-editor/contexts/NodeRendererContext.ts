@@ -2,7 +2,7 @@
 // Licensed under the MIT License.
 
 import React from 'react';
-import { DialogFactory, JSONSchema7 } from '@bfc/shared';
+import { DialogDiffKind, DialogFactory, JSONSchema7 } from '@bfc/shared';
 
 export interface NodeRendererContextValue {
   focusedId?: string;
@@ -11,6 +11,8 @@ export interface NodeRendererContextValue {
   clipboardActions: any[];
   dialogFactory: DialogFactory;
   customSchemas: JSONSchema7[];
+  /** How the nodes differ from the compared revision of the dialog, by node id. */
+  diffKinds?: { [id: string]: DialogDiffKind };
 }
 
 export const defaultRendererContextValue = {
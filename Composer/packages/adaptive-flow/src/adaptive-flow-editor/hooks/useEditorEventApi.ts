@@ -16,6 +16,12 @@ import { AttrNames } from '../constants/ElementAttributes';
 import { NodeRendererContextValue } from '../contexts/NodeRendererContext';
 import { SelectionContextData } from '../contexts/SelectionContext';
 import { calculateRangeSelection } from '../utils/calculateRangeSelection';
+import {
+  extractedDialogResult,
+  getBeginDialogOptions,
+  getReferredLgTemplates,
+  getResultAssignments,
+} from '../utils/extractActions';
 
 import { useDialogEditApi } from './useDialogEditApi';
 
@@ -28,7 +34,15 @@ export const useEditorEventApi = (
   },
   shellApi: ShellApi
 ) => {
-  const { actionsContainLuIntent, getDialog, saveDialog, createDialog } = shellApi;
+  const {
+    actionsContainLuIntent,
+    getActionsMemoryPaths,
+    getDialog,
+    saveDialog,
+    createDialog,
+    getLgTemplates,
+    addLgTemplates,
+  } = shellApi;
   const {
     insertAction,
     insertActions,
@@ -77,6 +91,73 @@ export const useEditorEventApi = (
     actionPaths.forEach((x) => trackActionChange(x));
   };
 
+  // Moves the actions to a new dialog and puts a BeginDialog of it in their place. An extraction also copies the
+  // LG templates shared with other responses, passes the dialog memory the actions read as options and assigns the
+  // dialog memory they set from the result of the new dialog.
+  const moveActionsToNewDialog = async (actionIds: string[], isExtraction: boolean) => {
+    // Create target dialog
+    const newDialogId = await createDialog();
+    if (!newDialogId) return;
+    let newDialogData = getDialog(newDialogId);
+
+    // Using copy->paste->delete pattern is safer than using cut->paste
+    const actionsToBeMoved = await copySelectedActions(path, data, actionIds);
+    let options: Record<string, string> | undefined;
+    let assignments: { property: string; value: string }[] = [];
+    if (isExtraction) {
+      const { read, written } = getActionsMemoryPaths(actionsToBeMoved);
+      options = getBeginDialogOptions(read);
+      assignments = getResultAssignments(written);
+    }
+
+    // the new dialog returns its dialog memory when the caller assigns properties from it
+    const endActions = assignments.length ? [dialogFactory.create(SDKKinds.EndDialog, { value: '=dialog' })] : [];
+    newDialogData = await insertActions(newDialogId, newDialogData, `${'triggers'}[0].${'actions'}`, 0, [
+      ...actionsToBeMoved,
+      ...endActions,
+    ]);
+    if (actionsContainLuIntent(actionsToBeMoved)) {
+      // auto assign recognizer type to lu
+      newDialogData = updateRecognizer(path, newDialogData, `${newDialogId}.lu`);
+    }
+    saveDialog(newDialogId, newDialogData);
+
+    if (isExtraction) {
+      const referredTemplates = getReferredLgTemplates(
+        DialogUtils.queryNodes(data, actionIds) as MicrosoftIDialog[],
+        getLgTemplates(path)
+      );
+      if (referredTemplates.length) {
+        await addLgTemplates(newDialogId, referredTemplates);
+      }
+    }
+
+    // Delete moved actions
+    const deleteResult = await deleteSelectedActions(path, data, actionIds);
+
+    // Insert a BeginDialog as placeholder
+    const placeholderPosition = DialogUtils.parseNodePath(actionIds[0]);
+    if (!placeholderPosition) return;
+
+    const placeholderAction = dialogFactory.create(SDKKinds.BeginDialog, {
+      dialog: newDialogId,
+      ...(options ? { options } : {}),
+      ...(assignments.length ? { resultProperty: extractedDialogResult } : {}),
+    });
+    const resultActions = assignments.length ? [dialogFactory.create(SDKKinds.SetProperties, { assignments })] : [];
+    const insertResult = await insertActions(
+      path,
+      deleteResult,
+      placeholderPosition.arrayPath,
+      placeholderPosition.arrayIndex,
+      [placeholderAction, ...resultActions]
+    );
+    onChange(insertResult, undefined, async () => {
+      await onFocusSteps([]);
+      announce(isExtraction ? ScreenReaderMessage.ActionsExtracted : ScreenReaderMessage.ActionsMoved);
+    });
+  };
+
   const handleEditorEvent = (eventName: NodeEventTypes, eventData: any = {}): any => {
     let handler;
     switch (eventName) {
@@ -232,45 +313,18 @@ export const useEditorEventApi = (
           const actionIds = getClipboardTargetsFromContext();
           if (!Array.isArray(actionIds) || !actionIds.length) return;
 
-          // Create target dialog
-          const newDialogId = await createDialog();
-          if (!newDialogId) return;
-          let newDialogData = getDialog(newDialogId);
-
-          // Using copy->paste->delete pattern is safer than using cut->paste
-          const actionsToBeMoved = await copySelectedActions(path, data, actionIds);
-          newDialogData = await insertActions(
-            newDialogId,
-            newDialogData,
-            `${'triggers'}[0].${'actions'}`,
-            0,
-            actionsToBeMoved
-          );
-          if (actionsContainLuIntent(actionsToBeMoved)) {
-            // auto assign recognizer type to lu
-            newDialogData = updateRecognizer(path, newDialogData, `${newDialogId}.lu`);
-          }
-          saveDialog(newDialogId, newDialogData);
-
-          // Delete moved actions
-          const deleteResult = await deleteSelectedActions(path, data, actionIds);
-
-          // Insert a BeginDialog as placeholder
-          const placeholderPosition = DialogUtils.parseNodePath(actionIds[0]);
-          if (!placeholderPosition) return;
+          await moveActionsToNewDialog(actionIds, false);
+        };
+        break;
+      case NodeEventTypes.ExtractSelection:
+        handler = async (e: { id?: string }) => {
+          const selectedActionIds = getClipboardTargetsFromContext();
+          // the menu of an action out of the selection extracts that action only
+          const actionIds = e.id && !selectedActionIds.includes(e.id) ? [e.id] : selectedActionIds;
+          if (!actionIds.length) return;
 
-          const placeholderAction = dialogFactory.create(SDKKinds.BeginDialog, { dialog: newDialogId });
-          const insertResult = await insertAction(
-            path,
-            deleteResult,
-            placeholderPosition.arrayPath,
-            placeholderPosition.arrayIndex,
-            placeholderAction
-          );
-          onChange(insertResult, undefined, async () => {
-            await onFocusSteps([]);
-            announce(ScreenReaderMessage.ActionsMoved);
-          });
+          trackActionListChange(actionIds);
+          await moveActionsToNewDialog(actionIds, true);
         };
         break;
       case NodeEventTypes.DeleteSelection:
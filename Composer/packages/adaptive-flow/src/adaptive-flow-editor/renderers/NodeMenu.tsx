@@ -36,6 +36,14 @@ export const NodeMenu: React.FC<NodeMenuProps> = ({ colors = { color: 'black' },
       },
       onClick: () => onEvent(NodeEventTypes.Delete, { id }),
     },
+    {
+      key: 'extract',
+      name: formatMessage('Extract to dialog'),
+      iconProps: {
+        iconName: 'OpenInNewWindow',
+      },
+      onClick: () => onEvent(NodeEventTypes.ExtractSelection, { id }),
+    },
   ];
   const { selectedIds } = useContext(SelectionContext);
   const nodeSelected = selectedIds.includes(`${id}${MenuTypes.NodeMenu}`);
@@ -68,7 +76,7 @@ export const NodeMenu: React.FC<NodeMenuProps> = ({ colors = { color: 'black' },
           }}
           label={moreLabel}
           menuItems={menuItems}
-          menuWidth={100}
+          menuWidth={150}
           nodeSelected={nodeSelected}
         />
       </TooltipHost>
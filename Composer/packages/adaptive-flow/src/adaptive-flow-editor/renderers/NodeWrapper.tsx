@@ -4,7 +4,7 @@
 /** @jsx jsx */
 import { jsx, css } from '@emotion/core';
 import { FC, useContext, useCallback, useEffect } from 'react';
-import { generateActionTitle, PromptTab } from '@bfc/shared';
+import { DialogDiffKind, generateActionTitle, PromptTab } from '@bfc/shared';
 import { useShellApi } from '@bfc/extension-client';
 
 import { AttrNames } from '../constants/ElementAttributes';
@@ -24,6 +24,21 @@ const nodeBorderSelectedStyle = css`
 const nodeBorderDoubleSelectedStyle = css`
   box-shadow: 0px 0px 0px 2px #0078d4, 0px 0px 0px 6px rgba(0, 120, 212, 0.3);
 `;
+// highlights the actions that differ from the compared revision of the dialog
+const nodeDiffColors: { [kind in DialogDiffKind]?: string } = {
+  added: '#107c10',
+  changed: '#ca5010',
+  moved: '#8764b8',
+};
+
+const nodeDiffStyle = (kind?: DialogDiffKind) =>
+  kind &&
+  nodeDiffColors[kind] &&
+  css`
+    outline: 2px dashed ${nodeDiffColors[kind]};
+    outline-offset: 2px;
+  `;
+
 export interface NodeWrapperProps {
   id: string;
   tab?: PromptTab;
@@ -33,7 +48,7 @@ export interface NodeWrapperProps {
 
 export const ActionNodeWrapper: FC<NodeWrapperProps> = ({ id, tab, data, onEvent, children }): JSX.Element => {
   const selectableId = tab ? `${id}${tab}` : id;
-  const { focusedId, focusedEvent, focusedTab } = useContext(NodeRendererContext);
+  const { focusedId, focusedEvent, focusedTab, diffKinds } = useContext(NodeRendererContext);
   const { selectedIds, getNodeIndex } = useContext(SelectionContext);
   const nodeFocused = focusedId === id || focusedEvent === id;
   const nodeDoubleSelected = tab && nodeFocused && tab === focusedTab;
@@ -81,6 +96,7 @@ export const ActionNodeWrapper: FC<NodeWrapperProps> = ({ id, tab, data, onEvent
         ${nodeSelected && nodeBorderSelectedStyle};
         ${nodeFocused && nodeBorderSelectedStyle};
         ${nodeDoubleSelected && nodeBorderDoubleSelectedStyle};
+        ${nodeDiffStyle(diffKinds?.[id])};
         &:hover {
           ${!nodeFocused && nodeBorderHoveredStyle}
         }
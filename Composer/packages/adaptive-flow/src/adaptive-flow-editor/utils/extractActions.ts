@@ -0,0 +1,66 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { extractLgTemplateRefs, LgTemplate, MicrosoftIDialog, walkAdaptiveActionList } from '@bfc/shared';
+
+/**
+ * The LG templates the responses of the actions refer to without owning them, e.g. a ${Greeting()} shared by
+ * several responses, and the ones those refer to in turn. The templates named after one of the actions are
+ * copied with the actions.
+ */
+export const getReferredLgTemplates = (actions: MicrosoftIDialog[], lgTemplates: LgTemplate[]): LgTemplate[] => {
+  const actionIds: string[] = [];
+  walkAdaptiveActionList(actions, (action) => {
+    if (typeof action === 'object' && action.$designer?.id) actionIds.push(action.$designer.id);
+  });
+
+  const referred = new Map<string, LgTemplate>();
+  const visit = (text: string) => {
+    extractLgTemplateRefs(text).forEach(({ name }) => {
+      const template = lgTemplates.find((item) => item.name === name);
+      if (!template || referred.has(name)) return;
+      referred.set(name, template);
+      visit(template.body);
+    });
+  };
+  visit(JSON.stringify(actions));
+
+  return Array.from(referred.values()).filter(({ name }) => !actionIds.some((id) => name.includes(id)));
+};
+
+// the properties of the dialog scope among the memory paths, e.g. address for dialog.address.city
+const getDialogProperties = (memoryPaths: string[]): string[] => {
+  const properties = memoryPaths
+    .filter((path) => path.startsWith('dialog.'))
+    .map((path) => path.split('.')[1])
+    .filter((property) => !!property);
+  return Array.from(new Set(properties));
+};
+
+/**
+ * The options of the BeginDialog that replaces the extracted actions. The user and conversation scopes are shared
+ * with the new dialog, the properties of the dialog scope the actions read are passed to it and read as
+ * dialog.<property> again.
+ */
+export const getBeginDialogOptions = (readPaths: string[]): Record<string, string> | undefined => {
+  const properties = getDialogProperties(readPaths);
+  if (!properties.length) return undefined;
+
+  return properties.reduce((options, property) => {
+    options[property] = `=dialog.${property}`;
+    return options;
+  }, {} as Record<string, string>);
+};
+
+// where the BeginDialog puts the result of the new dialog
+export const extractedDialogResult = 'turn.extractedDialogResult';
+
+/**
+ * The properties of the dialog scope the extracted actions set are returned by the new dialog, which ends with its
+ * dialog scope as result, and are assigned again after the BeginDialog that replaces the actions.
+ */
+export const getResultAssignments = (writtenPaths: string[]): { property: string; value: string }[] =>
+  getDialogProperties(writtenPaths).map((property) => ({
+    property: `dialog.${property}`,
+    value: `=${extractedDialogResult}.${property}`,
+  }));
@@ -14,6 +14,7 @@ export enum NodeEventTypes {
   CutSelection = 'event.data.cut-selection',
   PasteSelection = 'event.data.paste-selection',
   MoveSelection = 'event.data.move-selection',
+  ExtractSelection = 'event.data.extract-selection',
   DeleteSelection = 'event.data.delete-selection',
   DisableSelection = 'event.data.disable-selection',
   EnableSelection = 'event.data.enable-selection',
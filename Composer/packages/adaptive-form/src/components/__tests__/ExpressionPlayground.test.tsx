@@ -0,0 +1,39 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import React from 'react';
+import { render } from '@botframework-composer/test-utils';
+
+import { ExpressionPlayground } from '../expressions/ExpressionPlayground';
+
+jest.mock('@bfc/extension-client', () => ({
+  useShellApi: () => ({
+    userSettings: {},
+  }),
+}));
+
+jest.mock('@bfc/code-editor', () => ({
+  JsonEditor: ({ value }) => <div data-testid="SampleMemory">{JSON.stringify(value)}</div>,
+}));
+
+describe('<ExpressionPlayground />', () => {
+  it('shows the result, the sub-expressions and the functions of the expression', () => {
+    const { getByText } = render(<ExpressionPlayground expression="=add(1, 2) > 2" id="condition" />);
+
+    expect(getByText('(add(1, 2) > 2) = true')).toBeInTheDocument();
+    expect(getByText('add(1, 2) = 3')).toBeInTheDocument();
+    expect(getByText('add Return the result from adding two numbers.')).toBeInTheDocument();
+  });
+
+  it('adds the memory paths of the expression to the sample memory', () => {
+    const { getByTestId } = render(<ExpressionPlayground expression="user.age > 18" id="condition" />);
+
+    expect(getByTestId('SampleMemory')).toHaveTextContent('{"user":{"age":null}}');
+  });
+
+  it('shows the syntax errors', () => {
+    const { getByTestId } = render(<ExpressionPlayground expression="=count(" id="condition" />);
+
+    expect(getByTestId('FieldErrorMessage')).toHaveTextContent('syntax error');
+  });
+});
@@ -0,0 +1,122 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import React, { useEffect, useMemo, useState } from 'react';
+import formatMessage from 'format-message';
+import { buildInFunctionsMap } from '@bfc/built-in-functions';
+import { JsonEditor } from '@bfc/code-editor';
+import { useShellApi } from '@bfc/extension-client';
+import { evaluateExpression, ExpressionEvaluationNode } from '@bfc/indexers';
+import { NeutralColors, SharedColors } from '@uifabric/fluent-theme';
+import { Label } from 'office-ui-fabric-react/lib/Label';
+import cloneDeep from 'lodash/cloneDeep';
+import has from 'lodash/has';
+import set from 'lodash/set';
+
+import { ErrorMessage } from '../ErrorMessage';
+
+const styles = {
+  container: css`
+    margin-top: 4px;
+    padding: 8px;
+    border: 1px solid ${NeutralColors.gray30};
+
+    label: ExpressionPlayground;
+  `,
+  node: css`
+    font-family: Consolas, monospace;
+    font-size: 12px;
+    line-height: 20px;
+    word-break: break-all;
+  `,
+  value: css`
+    color: ${NeutralColors.gray130};
+  `,
+  error: css`
+    color: ${SharedColors.red10};
+  `,
+  function: css`
+    font-size: 12px;
+    margin-bottom: 4px;
+  `,
+};
+
+const toText = (value: unknown) => (value === undefined ? 'undefined' : JSON.stringify(value));
+
+const EvaluationNode: React.FC<{ node: ExpressionEvaluationNode; depth: number }> = ({ node, depth }) => (
+  <React.Fragment>
+    <div css={styles.node} style={{ paddingLeft: depth * 16 }}>
+      {node.expression}{' '}
+      {node.error ? (
+        <span css={styles.error}>{node.error}</span>
+      ) : (
+        <span css={styles.value}>= {toText(node.value)}</span>
+      )}
+    </div>
+    {node.children.map((child, index) => (
+      <EvaluationNode key={index} depth={depth + 1} node={child} />
+    ))}
+  </React.Fragment>
+);
+
+type ExpressionPlaygroundProps = {
+  id: string;
+  expression: string;
+};
+
+/**
+ * Evaluates the expression against a sample memory, with the values of its sub-expressions and the functions it calls.
+ */
+export const ExpressionPlayground: React.FC<ExpressionPlaygroundProps> = (props) => {
+  const { id, expression } = props;
+  const { userSettings } = useShellApi();
+  const [memory, setMemory] = useState<Record<string, unknown>>({});
+
+  const evaluation = useMemo(() => evaluateExpression(expression, memory), [expression, memory]);
+
+  // adds the memory paths the expression reads to the sample memory, e.g. user.orders => { user: { orders: null } }
+  useEffect(() => {
+    const missing = evaluation.references.filter((path) => !has(memory, path));
+    if (missing.length) {
+      setMemory(missing.reduce((result, path) => set(result, path, null), cloneDeep(memory)));
+    }
+  }, [evaluation.references]);
+
+  return (
+    <div css={styles.container} data-testid="ExpressionPlayground">
+      <Label>{formatMessage('Sample memory')}</Label>
+      <JsonEditor
+        editorSettings={userSettings.codeEditor}
+        height={120}
+        id={`${id}-memory`}
+        value={memory}
+        onChange={(data) => setMemory(data && typeof data === 'object' ? data : {})}
+      />
+      <Label>{formatMessage('Result')}</Label>
+      {evaluation.error ? (
+        <ErrorMessage error={evaluation.error} />
+      ) : (
+        <div css={styles.node}>{toText(evaluation.value)}</div>
+      )}
+      {evaluation.tree && (
+        <React.Fragment>
+          <Label>{formatMessage('Sub-expressions')}</Label>
+          <EvaluationNode depth={0} node={evaluation.tree} />
+        </React.Fragment>
+      )}
+      {evaluation.functions.length > 0 && (
+        <React.Fragment>
+          <Label>{formatMessage('Functions')}</Label>
+          {evaluation.functions.map((name) => (
+            <div key={name} css={styles.function}>
+              <strong>{name}</strong>{' '}
+              {buildInFunctionsMap.get(name)?.Introduction ?? formatMessage('Not a built-in function.')}
+            </div>
+          ))}
+        </React.Fragment>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,26 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { FieldProps, useFormConfig } from '@bfc/extension-client';
-import React from 'react';
+import { FieldProps, JSONSchema7, useFormConfig } from '@bfc/extension-client';
+import formatMessage from 'format-message';
+import React, { useState } from 'react';
 import omit from 'lodash/omit';
 
 import { resolveFieldWidget } from '../../../utils';
+import { Link } from '../../Link';
+import { ExpressionPlayground } from '../../expressions/ExpressionPlayground';
+
+const linkStyles = { root: { fontSize: 12, marginTop: 4 } };
+
+// the values of string properties are expressions only with a leading =, e.g. =concat(user.name, '!')
+const isTestableExpression = (schema: JSONSchema7, value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '' && (value.startsWith('=') || schema.type !== 'string');
 
 const ExpressionField: React.FC<FieldProps> = (props) => {
-  const { schema, uiOptions, value } = props;
+  const { id, schema, uiOptions, value } = props;
 
   const formUIOptions = useFormConfig();
+  const [playgroundVisible, setPlaygroundVisible] = useState(false);
 
   const newSchema = omit({ ...schema }, '$role');
 
@@ -22,7 +32,24 @@ const ExpressionField: React.FC<FieldProps> = (props) => {
     expression: true,
   });
 
-  return <Field {...props} {...customProps} expression schema={newSchema} uiOptions={uiOptions} />;
+  const testable = isTestableExpression(newSchema, value);
+
+  return (
+    <React.Fragment>
+      <Field {...props} {...customProps} expression schema={newSchema} uiOptions={uiOptions} />
+      {testable && (
+        <Link
+          as="button"
+          data-testid="ExpressionPlaygroundToggle"
+          styles={linkStyles}
+          onClick={() => setPlaygroundVisible(!playgroundVisible)}
+        >
+          {playgroundVisible ? formatMessage('Hide expression test') : formatMessage('Test expression')}
+        </Link>
+      )}
+      {testable && playgroundVisible && <ExpressionPlayground expression={value} id={id} />}
+    </React.Fragment>
+  );
 };
 
 export { ExpressionField };
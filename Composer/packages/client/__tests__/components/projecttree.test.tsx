@@ -62,4 +62,25 @@ describe('<ProjectTree/>', () => {
     fireEvent.click(node);
     expect(mockFileSelect).toHaveBeenCalledTimes(1);
   });
+
+  it('should select several triggers with ctrl click for a bulk edit', async () => {
+    const mockFileSelect = jest.fn(() => null);
+    const mockBulkDelete = jest.fn();
+    const component = renderWithRecoil(
+      <ProjectTree onBulkDelete={mockBulkDelete} onSelect={mockFileSelect} />,
+      initRecoilState
+    );
+
+    fireEvent.click(await component.findByTestId('EchoBot-1_Greeting'), { ctrlKey: true });
+    fireEvent.click(await component.findByTestId('EchoBot-1_more errors'), { ctrlKey: true });
+    expect(mockFileSelect).not.toHaveBeenCalled();
+    await component.findByText('2 selected');
+
+    fireEvent.click(await component.findByTestId('ProjectTreeSelectionBar-Delete'));
+    expect(mockBulkDelete).toHaveBeenCalledWith(projectId, [
+      expect.objectContaining({ dialogId: SAMPLE_DIALOG.id, trigger: 1 }),
+      expect.objectContaining({ dialogId: SAMPLE_DIALOG.id, trigger: 3 }),
+    ]);
+    expect(component.queryByTestId('ProjectTreeSelectionBar')).toBeNull();
+  });
 });
@@ -48,4 +48,23 @@ describe('Bot Language', () => {
     });
     expect(deleteLanguages).toBeCalledWith({ languages: ['fr-fr'], projectId: 'test' });
   });
+
+  it('should export the translations of a language', () => {
+    const exportTranslations = jest.fn();
+    const initRecoilState = ({ set }) => {
+      set(currentProjectIdState, state.projectId);
+      set(settingsState(state.projectId), state.settings);
+      set(dispatcherState, {
+        exportTranslations,
+      });
+    };
+    const { getByTestId } = renderWithRecoilAndCustomDispatchers(
+      <BotLanguage projectId={state.projectId} />,
+      initRecoilState
+    );
+    act(() => {
+      fireEvent.click(getByTestId('exportTranslations'));
+    });
+    expect(exportTranslations).toBeCalledWith('test', 'fr-fr');
+  });
 });
@@ -0,0 +1,23 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { mergeChanges } from '../../../../src/pages/design/DebugPanel/TabExtensions/SourceControl/SourceControlPane';
+import { ChangeType } from '../../../../src/recoilModel/persistence/types';
+
+describe('mergeChanges', () => {
+  it('adds the saved files missing from the git status by their path', () => {
+    const changes = mergeChanges(
+      [{ path: 'skills/weather/language-generation/en-us/main.en-us.lg', status: 'modified' }],
+      [
+        { id: 'main.en-us.lg', type: ChangeType.UPDATE, path: 'language-generation/en-us/main.en-us.lg' },
+        { id: 'help.dialog', type: ChangeType.CREATE },
+      ]
+    );
+
+    expect(changes).toEqual([
+      { path: 'skills/weather/language-generation/en-us/main.en-us.lg', status: 'modified' },
+      { path: 'language-generation/en-us/main.en-us.lg', status: 'modified' },
+      { path: 'help.dialog', status: 'added' },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import React from 'react';
+import { LgFile } from '@bfc/shared';
+import { waitFor } from '@botframework-composer/test-utils';
+
+import { renderWithRecoil } from '../../testUtils';
+import { createMemory, TemplatePlayground } from '../../../src/pages/language-generation/template-playground';
+
+const mockEvaluateTemplate = jest.fn();
+
+jest.mock('../../../src/recoilModel/parsers/lgWorker', () => {
+  return {
+    evaluateTemplate: (...args) => mockEvaluateTemplate(...args),
+  };
+});
+
+jest.mock('@bfc/code-editor', () => {
+  return {
+    JsonEditor: () => <div></div>,
+  };
+});
+
+const file = {
+  id: 'a.en-us',
+  content: '# Greeting\n- Hi ${user.name}\n- Hello ${user.name}',
+  allTemplates: [{ name: 'Greeting', body: '- Hi ${user.name}\n- Hello ${user.name}' }],
+} as LgFile;
+
+describe('<TemplatePlayground />', () => {
+  it('creates the memory of the memory paths', () => {
+    expect(createMemory(['turn.activity', 'turn.activity.text', 'user.name', 'this.value', 'settings.foo'])).toEqual({
+      turn: { activity: { text: null } },
+      user: { name: null },
+    });
+  });
+
+  it('shows the variations and the activity of the template', async () => {
+    mockEvaluateTemplate.mockResolvedValue({
+      variations: ['Hi Bob', 'Hello Bob'],
+      activity: { text: 'Hi Bob', speak: 'Hi', attachments: [], suggestedActions: ['Yes', 'No'] },
+      errors: [],
+    });
+
+    const { findByText, getByText } = renderWithRecoil(
+      <TemplatePlayground
+        file={file}
+        lgFiles={[file]}
+        memoryVariables={['user.name']}
+        projectId="test"
+        templateName="Greeting"
+        onTemplateChange={jest.fn()}
+      />
+    );
+
+    await findByText('2 variations');
+    getByText('Hello Bob');
+    getByText('Suggested actions: Yes | No');
+    await waitFor(() =>
+      expect(mockEvaluateTemplate).toHaveBeenLastCalledWith('test', file, 'Greeting', { user: { name: null } }, [file])
+    );
+  });
+
+  it('shows the evaluation errors', async () => {
+    mockEvaluateTemplate.mockResolvedValue({ variations: [], errors: ["No such template 'Greeting'."] });
+
+    const { findByText } = renderWithRecoil(
+      <TemplatePlayground
+        file={file}
+        lgFiles={[file]}
+        projectId="test"
+        templateName="Greeting"
+        onTemplateChange={jest.fn()}
+      />
+    );
+
+    await findByText("No such template 'Greeting'.");
+  });
+});
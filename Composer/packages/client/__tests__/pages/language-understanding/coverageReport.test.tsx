@@ -0,0 +1,73 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import React from 'react';
+import { fireEvent } from '@botframework-composer/test-utils';
+import { utteranceCoverageIndexer } from '@bfc/indexers';
+
+import CoverageReport from '../../../src/pages/language-understanding/coverage-report';
+import { renderWithRecoil } from '../../testUtils';
+import { localeState, utteranceCoverageState } from '../../../src/recoilModel';
+
+const projectId = 'test';
+
+const luFiles = [
+  {
+    id: 'a.en-us',
+    content: '',
+    diagnostics: [],
+    intents: [
+      { Name: 'Greeting', Body: '- hello\n- hi there\n- good morning\n- hey\n- howdy' },
+      { Name: 'Help', Body: '- help me\n- hello' },
+    ],
+  },
+  {
+    id: 'a.fr-fr',
+    content: '',
+    diagnostics: [],
+    intents: [{ Name: 'Salutation', Body: '- bonjour' }],
+  },
+];
+
+const initRecoilState = ({ set }) => {
+  set(localeState(projectId), 'en-us');
+  set(utteranceCoverageState(projectId), utteranceCoverageIndexer.index({ luFiles, setting: {} } as any));
+};
+
+describe('<CoverageReport />', () => {
+  it('lists the intents and the conflicts of the current locale', () => {
+    const { getByTestId, getByText, queryByText } = renderWithRecoil(
+      <CoverageReport projectId={projectId} />,
+      initRecoilState
+    );
+
+    getByTestId('intent-coverage-list');
+    getByText('Greeting');
+    getByText('Too few utterances, Conflicting utterances');
+    getByText('1 conflicting utterance');
+    getByText('Duplicate');
+    expect(queryByText('Salutation')).toBeNull();
+  });
+
+  it('sorts the intents by the clicked column', () => {
+    const { getAllByText, getAllByRole } = renderWithRecoil(<CoverageReport projectId={projectId} />, initRecoilState);
+
+    const intentRows = () =>
+      getAllByRole('row')
+        .map((row) => row.textContent)
+        .filter((text) => /^a(Greeting|Help)/.test(text ?? ''));
+    expect(intentRows()[0]).toContain('Help');
+
+    fireEvent.click(getAllByText('Utterances')[0]);
+    expect(intentRows()[0]).toContain('Greeting');
+  });
+
+  it('waits for the report to be indexed', () => {
+    const { getByText, queryByTestId } = renderWithRecoil(<CoverageReport projectId={projectId} />, ({ set }) =>
+      set(localeState(projectId), 'en-us')
+    );
+
+    getByText('Analyzing the utterances...');
+    expect(queryByTestId('intent-coverage-list')).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import React from 'react';
+import { fireEvent, waitFor } from '@botframework-composer/test-utils';
+import { LuTestSetReport } from '@bfc/shared';
+
+import LuTests from '../../../src/pages/language-understanding/lu-tests';
+import httpClient from '../../../src/utils/httpUtil';
+import { renderWithRecoil } from '../../testUtils';
+
+jest.mock('../../../src/utils/httpUtil');
+
+const projectId = 'test';
+
+const report: LuTestSetReport = {
+  id: 'tests/order.en-us.lutest',
+  dialog: 'order',
+  locale: 'en-us',
+  utteranceCount: 2,
+  recognizer: 'regex',
+  passed: 1,
+  failed: 1,
+  accuracy: 0.5,
+  results: [
+    {
+      text: 'add a coke',
+      expectedIntent: 'AddItem',
+      predictedIntent: 'AddItem',
+      score: 1,
+      expectedEntities: [],
+      missingEntities: [],
+      passed: true,
+    },
+    {
+      text: 'drop it',
+      expectedIntent: 'Cancel',
+      predictedIntent: 'None',
+      score: 1,
+      expectedEntities: [],
+      missingEntities: [],
+      passed: false,
+    },
+  ],
+  intents: [
+    {
+      intent: 'AddItem',
+      support: 1,
+      truePositives: 1,
+      falsePositives: 0,
+      falseNegatives: 0,
+      precision: 1,
+      recall: 1,
+      f1: 1,
+    },
+  ],
+  confusionMatrix: {
+    intents: ['AddItem', 'Cancel', 'None'],
+    counts: [
+      [1, 0, 0],
+      [0, 0, 1],
+      [0, 0, 0],
+    ],
+  },
+};
+
+describe('<LuTests />', () => {
+  it('runs the LU test sets and shows their reports', async () => {
+    (httpClient.get as jest.Mock).mockResolvedValueOnce({
+      data: [{ id: report.id, dialog: 'order', locale: 'en-us', utteranceCount: 2 }],
+    });
+    (httpClient.post as jest.Mock).mockResolvedValueOnce({ data: [report] });
+
+    const { getByTestId, findByText, getByText } = renderWithRecoil(<LuTests projectId={projectId} />);
+
+    await findByText(/1 test set, 2 utterances/);
+    fireEvent.click(getByTestId('lu-tests-run'));
+
+    await waitFor(() => expect(httpClient.post).toHaveBeenCalledWith('/projects/test/luTests/run', {}));
+    await findByText('tests/order.en-us.lutest: 1 of 2 passed, accuracy 50%, Regex recognizer');
+    getByText('drop it');
+    expect(getByTestId('lu-test-confusion-matrix').querySelectorAll('tbody tr')).toHaveLength(3);
+  });
+
+  it('shows the error of the test sets', async () => {
+    (httpClient.get as jest.Mock).mockResolvedValueOnce({
+      data: [{ id: report.id, dialog: 'order', locale: 'en-us', utteranceCount: 0 }],
+    });
+    (httpClient.post as jest.Mock).mockResolvedValueOnce({
+      data: [{ ...report, error: 'The dialog has no LU file order.en-us.', results: [] }],
+    });
+
+    const { getByTestId, findByText } = renderWithRecoil(<LuTests projectId={projectId} />);
+
+    await findByText(/1 test set/);
+    fireEvent.click(getByTestId('lu-tests-run'));
+
+    await findByText('The dialog has no LU file order.en-us.');
+  });
+});
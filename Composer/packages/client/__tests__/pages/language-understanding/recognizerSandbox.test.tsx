@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import React from 'react';
+import { fireEvent, waitFor } from '@botframework-composer/test-utils';
+
+import RecognizerSandbox from '../../../src/pages/language-understanding/recognizer-sandbox';
+import httpClient from '../../../src/utils/httpUtil';
+import { renderWithRecoil } from '../../testUtils';
+import { localeState } from '../../../src/recoilModel';
+
+jest.mock('../../../src/utils/httpUtil');
+
+const projectId = 'test';
+
+const initRecoilState = ({ set }) => {
+  set(localeState(projectId), 'en-us');
+};
+
+describe('<RecognizerSandbox />', () => {
+  it('shows the intents and the entities recognized by the models of the dialogs', async () => {
+    (httpClient.post as jest.Mock).mockResolvedValueOnce({
+      data: {
+        utterance: 'cancel my order',
+        locale: 'en-us',
+        results: [
+          {
+            id: 'main.en-us',
+            recognizer: 'regex',
+            intents: [{ intent: 'Cancel', score: 1 }],
+            entities: [{ type: 'item', text: 'order', value: 'order', start: 10, end: 15 }],
+          },
+          {
+            id: 'order.en-us',
+            recognizer: 'orchestrator',
+            intents: [],
+            entities: [],
+            error: 'The Orchestrator model is not downloaded.',
+          },
+        ],
+      },
+    });
+
+    const { getByPlaceholderText, getByTestId, findByText, getByText } = renderWithRecoil(
+      <RecognizerSandbox projectId={projectId} />,
+      initRecoilState
+    );
+
+    fireEvent.change(getByPlaceholderText('Type an utterance, e.g. cancel my order'), {
+      target: { value: 'cancel my order' },
+    });
+    fireEvent.click(getByTestId('recognizer-sandbox-recognize'));
+
+    await waitFor(() =>
+      expect(httpClient.post).toHaveBeenCalledWith('/projects/test/recognize', {
+        utterance: 'cancel my order',
+        locale: 'en-us',
+      })
+    );
+    await findByText('Cancel (1.00)');
+    getByText('item: order');
+    getByText('The Orchestrator model is not downloaded.');
+  });
+
+  it('shows the error of the request', async () => {
+    (httpClient.post as jest.Mock).mockRejectedValueOnce({ message: 'No such bot project opened' });
+
+    const { getByPlaceholderText, getByTestId, findByText } = renderWithRecoil(
+      <RecognizerSandbox projectId={projectId} />,
+      initRecoilState
+    );
+
+    fireEvent.change(getByPlaceholderText('Type an utterance, e.g. cancel my order'), {
+      target: { value: 'hello' },
+    });
+    fireEvent.click(getByTestId('recognizer-sandbox-recognize'));
+
+    await findByText('No such bot project opened');
+  });
+});
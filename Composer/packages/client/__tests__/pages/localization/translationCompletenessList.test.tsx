@@ -0,0 +1,48 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import * as React from 'react';
+import { fireEvent, render } from '@botframework-composer/test-utils';
+import { TranslationCompleteness } from '@bfc/shared';
+
+import {
+  TranslationCompletenessList,
+  TranslationItemList,
+} from '../../../src/pages/localization/TranslationCompletenessList';
+
+const completeness: TranslationCompleteness = {
+  id: 'main',
+  locale: 'fr-fr',
+  total: 4,
+  translated: 1,
+  items: [
+    { type: 'lg', name: 'Greeting', status: 'translated' },
+    { type: 'lg', name: 'Farewell', status: 'untranslated' },
+    { type: 'lu', name: 'BookFlight', status: 'outdated' },
+    { type: 'qna', name: 'Who are you?', status: 'missing' },
+  ],
+};
+
+describe('<TranslationCompletenessList/>', () => {
+  it('should render the completeness of the dialogs', () => {
+    const onDialogClick = jest.fn();
+    const { container, getByText } = render(
+      <TranslationCompletenessList completeness={[completeness]} onDialogClick={onDialogClick} />
+    );
+
+    expect(container).toHaveTextContent('main');
+    expect(container).toHaveTextContent('25%');
+    fireEvent.doubleClick(getByText('main'));
+    expect(onDialogClick).toBeCalledWith(completeness, expect.anything(), expect.anything());
+  });
+
+  it('should render the items that are not translated', () => {
+    const onItemClick = jest.fn();
+    const { container } = render(<TranslationItemList items={completeness.items} onItemClick={onItemClick} />);
+
+    expect(container).not.toHaveTextContent('Greeting');
+    expect(container).toHaveTextContent('Farewell');
+    expect(container).toHaveTextContent('Out of date');
+    expect(container).toHaveTextContent('Missing');
+  });
+});
@@ -0,0 +1,129 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import * as React from 'react';
+import { fireEvent, render } from '@botframework-composer/test-utils';
+import { DialogInfo, ProjectSearchMatch } from '@bfc/shared';
+
+import { SearchResultList } from '../../../src/pages/search/SearchResultList';
+import { getSearchMatchUrl, groupSearchMatches } from '../../../src/pages/search/searchResults';
+
+const propertyMatch: ProjectSearchMatch = {
+  id: 'main.dialog#triggers[0].actions[0].condition#0#user.profile.name',
+  fileType: 'dialog',
+  fileName: 'main.dialog',
+  dialogId: 'main',
+  triggerIndex: 0,
+  triggerName: 'Microsoft.OnIntent',
+  actionPath: 'triggers[0].actions[0]',
+  actionName: 'Check the name',
+  propertyPath: 'triggers[0].actions[0].condition',
+  text: 'user.profile.name == null',
+  start: 0,
+  end: 17,
+  replacement: 'user.name',
+};
+
+const responseMatch: ProjectSearchMatch = {
+  id: 'main.en-us.lg#3#7#user.profile.name',
+  fileType: 'lg',
+  fileName: 'main.en-us.lg',
+  dialogId: 'main',
+  locale: 'en-us',
+  name: 'Welcome',
+  line: 3,
+  text: '- Hi ${user.profile.name}',
+  start: 7,
+  end: 24,
+  replacement: 'user.name',
+};
+
+const qnaMatch: ProjectSearchMatch = {
+  id: 'faq.source.en-us.qna#5#0#name',
+  fileType: 'qna',
+  fileName: 'faq.source.en-us.qna',
+  dialogId: 'faq.source',
+  locale: 'en-us',
+  name: 'What is your name?',
+  line: 5,
+  text: 'My name is Bot.',
+  start: 3,
+  end: 7,
+};
+
+const dialogs = [
+  { id: 'main', displayName: 'MainDialog', isRoot: true, triggers: [{ displayName: 'Greeting' }] },
+] as DialogInfo[];
+
+describe('groupSearchMatches', () => {
+  it('groups the matches by dialog, trigger and action', () => {
+    const groups = groupSearchMatches([propertyMatch, responseMatch], dialogs);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ key: 'main', type: 'dialog', title: 'MainDialog', matches: [] });
+    expect(groups[0].groups.map(({ type, title }) => ({ type, title }))).toEqual([
+      { type: 'trigger', title: 'Greeting' },
+      { type: 'item', title: 'Welcome' },
+    ]);
+    expect(groups[0].groups[0].groups[0]).toMatchObject({ type: 'action', title: 'Check the name' });
+    expect(groups[0].groups[0].groups[0].matches).toEqual([propertyMatch]);
+  });
+});
+
+describe('getSearchMatchUrl', () => {
+  it('links the matches to the form of the action or the line of the file', () => {
+    expect(getSearchMatchUrl('1234', '1234', propertyMatch, 'main')).toBe(
+      '/bot/1234/dialogs/main?selected=triggers[0]&focused=triggers[0].actions[0]'
+    );
+    expect(getSearchMatchUrl('1234', '5678', responseMatch, 'main')).toBe(
+      '/bot/1234/skill/5678/language-generation/main/edit#L=3'
+    );
+    expect(getSearchMatchUrl('1234', '1234', qnaMatch, 'main')).toBe('/bot/1234/knowledge-base/main/edit?C=faq#L=5');
+  });
+});
+
+describe('<SearchResultList/>', () => {
+  it('shows the matches and navigates to them', () => {
+    const onMatchClick = jest.fn();
+    const groups = groupSearchMatches([propertyMatch, responseMatch, qnaMatch], dialogs);
+    const { container, getByText } = render(
+      <SearchResultList
+        excludedIds={[]}
+        groups={groups}
+        showReplacement={false}
+        onMatchClick={onMatchClick}
+        onMatchToggle={jest.fn()}
+      />
+    );
+
+    expect(container).toHaveTextContent('MainDialog');
+    expect(container).toHaveTextContent('Dialog · 2 results');
+    expect(container).toHaveTextContent('Property · condition');
+    expect(container).toHaveTextContent('Bot response · main.en-us.lg:3');
+    expect(container).toHaveTextContent('faq.source');
+
+    fireEvent.click(getByText('name'));
+    expect(onMatchClick).toBeCalledWith(qnaMatch);
+  });
+
+  it('previews the replacements of the selected matches', () => {
+    const onMatchToggle = jest.fn();
+    const { container, getAllByRole } = render(
+      <SearchResultList
+        showReplacement
+        excludedIds={[responseMatch.id]}
+        groups={groupSearchMatches([propertyMatch, responseMatch], dialogs)}
+        onMatchClick={jest.fn()}
+        onMatchToggle={onMatchToggle}
+      />
+    );
+
+    expect(container.querySelectorAll('del')).toHaveLength(2);
+    expect(container.querySelector('ins')).toHaveTextContent('user.name');
+
+    const checkboxes = getAllByRole('checkbox');
+    expect(checkboxes.map((checkbox) => (checkbox as HTMLInputElement).checked)).toEqual([true, false]);
+    fireEvent.click(checkboxes[1]);
+    expect(onMatchToggle).toBeCalledWith(responseMatch, true);
+  });
+});
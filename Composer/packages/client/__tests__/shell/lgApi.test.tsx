@@ -30,13 +30,14 @@ const state = {
 // const resolvers = { lgFileResolver: jest.fn((id) => state.lgFiles.find((file) => file.id === id)) };
 
 describe('use lgApi hooks', () => {
-  let removeLgTemplatesMock, initRecoilState, copyLgTemplateMock, updateLgTemplateMock;
+  let removeLgTemplatesMock, initRecoilState, copyLgTemplateMock, updateLgTemplateMock, createLgTemplatesMock;
   let result: HookResult<any>;
 
   beforeEach(() => {
     updateLgTemplateMock = jest.fn();
     copyLgTemplateMock = jest.fn();
     removeLgTemplatesMock = jest.fn();
+    createLgTemplatesMock = jest.fn();
 
     initRecoilState = ({ set }) => {
       set(currentProjectIdState, state.projectId);
@@ -47,6 +48,7 @@ describe('use lgApi hooks', () => {
         updateLgTemplate: updateLgTemplateMock,
         copyLgTemplate: copyLgTemplateMock,
         removeLgTemplates: removeLgTemplatesMock,
+        createLgTemplates: createLgTemplatesMock,
       }));
     };
 
@@ -86,6 +88,19 @@ describe('use lgApi hooks', () => {
     expect(updateLgTemplateMock).toBeCalledWith(arg);
   });
 
+  it('should call create lg templates action with the parameters of the templates', () => {
+    const templates = [{ name: 'Greet', parameters: ['name'], body: '- Hi ${name}' }];
+    result.current.addLgTemplates('test.en-us', templates);
+
+    expect(createLgTemplatesMock).toBeCalledTimes(1);
+    const arg = {
+      id: 'test.en-us',
+      templates,
+      projectId: state.projectId,
+    };
+    expect(createLgTemplatesMock).toBeCalledWith(arg);
+  });
+
   it('should call copy lg template action', () => {
     result.current.copyLgTemplate('test.en-us', 'from', 'to');
 
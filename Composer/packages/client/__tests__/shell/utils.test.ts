@@ -0,0 +1,42 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { getActionsMemoryPaths } from '../../src/shell/utils';
+
+describe('getActionsMemoryPaths', () => {
+  it('finds the memory paths read before the actions set them', () => {
+    const actions = [
+      {
+        $kind: 'Microsoft.SendActivity',
+        $designer: { id: 'a' },
+        activity: '- Hi ${user.name}, your order is ${$orderId}.',
+      },
+      { $kind: 'Microsoft.SetProperty', $designer: { id: 'b' }, property: 'dialog.total', value: '=dialog.total + 1' },
+      { $kind: 'Microsoft.TextInput', $designer: { id: 'c' }, property: 'dialog.address.city', prompt: '- City?' },
+      {
+        $kind: 'Microsoft.SendActivity',
+        $designer: { id: 'd' },
+        activity: '- ${dialog.total} to ${dialog.address.city}',
+      },
+    ];
+
+    expect(getActionsMemoryPaths(actions)).toEqual({
+      read: ['user.name', 'dialog.orderId', 'dialog.total'],
+      written: ['dialog.total', 'dialog.address.city'],
+    });
+  });
+
+  it('reads the memory paths set in a branch', () => {
+    const actions = [
+      {
+        $kind: 'Microsoft.IfCondition',
+        $designer: { id: 'a' },
+        condition: '=turn.ready',
+        actions: [{ $kind: 'Microsoft.SetProperty', $designer: { id: 'b' }, property: 'dialog.status', value: 'done' }],
+      },
+      { $kind: 'Microsoft.SendActivity', $designer: { id: 'c' }, activity: '- ${dialog.status}' },
+    ];
+
+    expect(getActionsMemoryPaths(actions)).toEqual({ read: ['dialog.status'], written: ['dialog.status'] });
+  });
+});
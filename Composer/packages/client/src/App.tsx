@@ -8,6 +8,7 @@ import { useRecoilValue } from 'recoil';
 import { Header } from './components/Header';
 import { Announcement } from './components/AppComponents/Announcement';
 import { MainContainer } from './components/AppComponents/MainContainer';
+import { CommandPalette } from './components/CommandPalette';
 import { dispatcherState, userSettingsState } from './recoilModel';
 import { loadLocale } from './utils/fileUtil';
 import { useInitializeLogger } from './telemetry/useInitializeLogger';
@@ -38,6 +39,7 @@ export const App: React.FC = () => {
       <Announcement />
       <Header />
       <MainContainer />
+      <CommandPalette />
     </Fragment>
   );
 };
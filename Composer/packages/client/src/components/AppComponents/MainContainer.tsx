@@ -3,8 +3,11 @@
 /** @jsx jsx */
 import { jsx, css } from '@emotion/core';
 import { Router } from '@reach/router';
+import { useRecoilValue } from 'recoil';
 
 import { NotificationContainer } from '../Notifications/NotificationContainer';
+import { FileConflictModal } from '../FileConflictModal';
+import { localBotsWithoutErrorsSelector } from '../../recoilModel';
 
 import { SideBar } from './SideBar';
 import { RightPanel } from './RightPanel';
@@ -16,6 +19,8 @@ const main = css`
 `;
 
 export const MainContainer = () => {
+  const botProjects = useRecoilValue(localBotsWithoutErrorsSelector);
+
   return (
     <div css={main}>
       <Router primary={false}>
@@ -24,6 +29,9 @@ export const MainContainer = () => {
       <RightPanel />
       <Assistant />
       <NotificationContainer />
+      {botProjects.map((projectId) => (
+        <FileConflictModal key={projectId} projectId={projectId} />
+      ))}
     </div>
   );
 };
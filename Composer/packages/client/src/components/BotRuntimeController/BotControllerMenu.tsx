@@ -8,9 +8,14 @@ import { Callout, DirectionalHint } from 'office-ui-fabric-react/lib/Callout';
 import { DetailsList, DetailsListLayoutMode, IColumn } from 'office-ui-fabric-react/lib/DetailsList';
 import { IContextualMenuProps } from 'office-ui-fabric-react/lib/ContextualMenu';
 import { SelectionMode } from 'office-ui-fabric-react/lib/Utilities';
+import { Toggle } from 'office-ui-fabric-react/lib/Toggle';
 import { FontWeights } from '@uifabric/styling';
 import { FontSizes } from '@uifabric/fluent-theme/lib/fluent';
 import formatMessage from 'format-message';
+import { useRecoilValue } from 'recoil';
+import { PseudoLocale } from '@bfc/shared';
+
+import { dispatcherState, pseudoLocalizationEnabledState } from '../../recoilModel';
 
 import { BotRuntimeOperations } from './BotRuntimeOperations';
 import { BotStatusIndicator } from './BotStatusIndicator';
@@ -99,6 +104,8 @@ const tableColumns: IColumn[] = [
 
 const BotControllerMenu = React.forwardRef<HTMLDivElement, IContextualMenuProps>((props, ref) => {
   const { items, target, onDismiss, hidden } = props;
+  const pseudoLocalizationEnabled = useRecoilValue(pseudoLocalizationEnabledState);
+  const { setPseudoLocalizationEnabled } = useRecoilValue(dispatcherState);
   return (
     <Callout
       hideOverflow
@@ -123,6 +130,16 @@ const BotControllerMenu = React.forwardRef<HTMLDivElement, IContextualMenuProps>
         <div css={styles.header}>
           <div css={styles.title}>{formatMessage('Local bot runtime manager')}</div>
           <p>{formatMessage('Start and stop local bot runtimes individually.')}</p>
+          <Toggle
+            inlineLabel
+            checked={pseudoLocalizationEnabled}
+            data-testid="pseudo-localization-toggle"
+            label={formatMessage('Respond in the pseudo-locale {locale}', { locale: PseudoLocale })}
+            title={formatMessage(
+              'Bot responses are accented, padded and put in brackets to find truncated, hard-coded and concatenated texts. Restart the bots to apply.'
+            )}
+            onChange={(_, checked) => setPseudoLocalizationEnabled(!!checked)}
+          />
         </div>
         <div css={styles.container}>
           <DetailsList
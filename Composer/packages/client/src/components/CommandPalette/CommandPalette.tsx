@@ -0,0 +1,166 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import React, { useEffect, useMemo, useState } from 'react';
+import formatMessage from 'format-message';
+import { FontSizes, NeutralColors } from '@uifabric/fluent-theme';
+import { Modal } from 'office-ui-fabric-react/lib/Modal';
+import { SearchBox } from 'office-ui-fabric-react/lib/SearchBox';
+
+import { useBotOperations } from '../BotRuntimeController/useBotOperations';
+
+import { CommandPaletteItem, filterCommands } from './filterCommands';
+import { useCommandPaletteItems } from './useCommandPaletteItems';
+
+// -------------------- Styles -------------------- //
+
+const modalStyles = {
+  main: {
+    width: '600px',
+    maxWidth: '80%',
+    position: 'absolute' as const,
+    top: '80px',
+  },
+};
+
+const list = css`
+  max-height: 400px;
+  overflow-y: auto;
+  padding: 4px 0;
+`;
+
+const option = (isSelected: boolean) => css`
+  display: flex;
+  align-items: baseline;
+  padding: 6px 12px;
+  cursor: pointer;
+  background: ${isSelected ? NeutralColors.gray30 : 'transparent'};
+`;
+
+const title = css`
+  flex: 1;
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+  font-size: ${FontSizes.size14};
+`;
+
+const details = css`
+  margin-left: 12px;
+  white-space: nowrap;
+  color: ${NeutralColors.gray130};
+  font-size: ${FontSizes.size12};
+`;
+
+const empty = css`
+  padding: 12px;
+  color: ${NeutralColors.gray130};
+  font-size: ${FontSizes.size14};
+`;
+
+// -------------------- CommandPaletteModal -------------------- //
+
+const MAX_VISIBLE_ITEMS = 50;
+
+type CommandPaletteModalProps = {
+  botOperations: ReturnType<typeof useBotOperations>;
+  onDismiss: () => void;
+};
+
+const CommandPaletteModal: React.FC<CommandPaletteModalProps> = ({ botOperations, onDismiss }) => {
+  const items = useCommandPaletteItems(botOperations);
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const visibleItems = useMemo(() => filterCommands(items, query).slice(0, MAX_VISIBLE_ITEMS), [items, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  const runItem = (item: CommandPaletteItem) => {
+    onDismiss();
+    item.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setSelectedIndex((index) => (index + step + visibleItems.length) % Math.max(visibleItems.length, 1));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const item = visibleItems[selectedIndex];
+      if (item) runItem(item);
+    }
+  };
+
+  return (
+    <Modal isOpen styles={modalStyles} titleAriaLabel={formatMessage('Command palette')} onDismiss={onDismiss}>
+      <SearchBox
+        autoFocus
+        underlined
+        aria-activedescendant={visibleItems[selectedIndex] ? `command-palette-${selectedIndex}` : undefined}
+        aria-controls="command-palette-list"
+        data-testid="CommandPaletteSearch"
+        placeholder={formatMessage('Jump to a dialog, trigger, response, intent or setting, or run a command')}
+        value={query}
+        onChange={(_e, newValue) => setQuery(newValue ?? '')}
+        onKeyDown={handleKeyDown}
+      />
+      <div aria-label={formatMessage('Commands')} css={list} id="command-palette-list" role="listbox">
+        {visibleItems.map((item, index) => (
+          <div
+            key={item.key}
+            aria-selected={index === selectedIndex}
+            css={option(index === selectedIndex)}
+            data-testid="CommandPaletteItem"
+            id={`command-palette-${index}`}
+            role="option"
+            tabIndex={-1}
+            onClick={() => runItem(item)}
+            onKeyDown={(event) => event.key === 'Enter' && runItem(item)}
+            onMouseMove={() => setSelectedIndex(index)}
+          >
+            <span css={title}>{item.title}</span>
+            <span css={details}>{item.description ? `${item.category} · ${item.description}` : item.category}</span>
+          </div>
+        ))}
+        {visibleItems.length === 0 && <div css={empty}>{formatMessage('No matching commands')}</div>}
+      </div>
+    </Modal>
+  );
+};
+
+// -------------------- CommandPalette -------------------- //
+
+const isPaletteShortcut = (event: KeyboardEvent) =>
+  (event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === 'p';
+
+/**
+ * Opens with Ctrl+Shift+P (Cmd+Shift+P on a Mac) anywhere in Composer.
+ */
+export const CommandPalette: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  // the bot operations keep track of the started skills to start the root bot after them
+  const botOperations = useBotOperations();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isPaletteShortcut(event)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setIsOpen(true);
+    };
+
+    // the capture phase gets the shortcut before the code editors do
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  if (!isOpen) return null;
+
+  return <CommandPaletteModal botOperations={botOperations} onDismiss={() => setIsOpen(false)} />;
+};
@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import React from 'react';
+import { act, fireEvent } from '@botframework-composer/test-utils';
+
+import { renderWithRecoil } from '../../../../__tests__/testUtils';
+import { SAMPLE_DIALOG } from '../../../../__tests__/mocks/sampleDialog';
+import {
+  botDisplayNameState,
+  botProjectFileState,
+  botProjectIdsState,
+  contributedCommandsState,
+  currentProjectIdState,
+  dialogsSelectorFamily,
+  projectMetaDataState,
+  schemasState,
+} from '../../../recoilModel';
+import { CommandPalette } from '../CommandPalette';
+
+const projectId = '12345.6789';
+const refresh = jest.fn();
+
+const initRecoilState = ({ set }) => {
+  set(currentProjectIdState, projectId);
+  set(botProjectIdsState, [projectId]);
+  set(botDisplayNameState(projectId), 'EchoBot');
+  set(dialogsSelectorFamily(projectId), [SAMPLE_DIALOG]);
+  set(schemasState(projectId), { sdk: { content: {} } });
+  set(projectMetaDataState(projectId), { isRootBot: true, isRemote: false });
+  set(botProjectFileState(projectId), { foo: 'bar' });
+  set(contributedCommandsState, [
+    { id: 'sample.refresh', title: 'Refresh samples', category: 'Samples', run: refresh },
+  ]);
+};
+
+const openPalette = () => {
+  act(() => {
+    fireEvent.keyDown(window, { key: 'P', ctrlKey: true, shiftKey: true });
+  });
+};
+
+describe('<CommandPalette />', () => {
+  it('opens with Ctrl+Shift+P', async () => {
+    const { findByTestId, queryByTestId } = renderWithRecoil(<CommandPalette />, initRecoilState);
+    expect(queryByTestId('CommandPaletteSearch')).toBeNull();
+
+    openPalette();
+
+    expect(await findByTestId('CommandPaletteSearch')).toBeTruthy();
+  });
+
+  it('finds the triggers of the bot', async () => {
+    const { findByTestId, findAllByTestId } = renderWithRecoil(<CommandPalette />, initRecoilState);
+    openPalette();
+
+    fireEvent.change(await findByTestId('CommandPaletteSearch'), { target: { value: 'more errors' } });
+
+    const items = await findAllByTestId('CommandPaletteItem');
+    expect(items).toHaveLength(1);
+    expect(items[0].textContent).toContain('Trigger · EchoBot > EchoBot-1');
+  });
+
+  it('runs the commands contributed by extensions', async () => {
+    const { findByTestId, findByText, queryByTestId } = renderWithRecoil(<CommandPalette />, initRecoilState);
+    openPalette();
+
+    fireEvent.change(await findByTestId('CommandPaletteSearch'), { target: { value: 'refresh' } });
+    fireEvent.click(await findByText('Refresh samples'));
+
+    expect(refresh).toHaveBeenCalled();
+    expect(queryByTestId('CommandPaletteSearch')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CommandPaletteItem, filterCommands } from '../filterCommands';
+
+const getItem = (title: string, category: string, description?: string, keywords?: string[]): CommandPaletteItem => ({
+  key: title,
+  title,
+  category,
+  description,
+  keywords,
+  run: jest.fn(),
+});
+
+const items = [
+  getItem('Start bot', 'Action', undefined, ['run']),
+  getItem('Add trigger', 'Action', 'EchoBot'),
+  getItem('Greeting', 'Bot response', 'EchoBot > main'),
+  getItem('BookFlight', 'Intent', 'EchoBot > flights'),
+  getItem('Start over', 'Trigger', 'EchoBot > main'),
+];
+
+describe('filterCommands', () => {
+  it('keeps all items without a query', () => {
+    expect(filterCommands(items, '  ')).toEqual(items);
+  });
+
+  it('finds the items by all words of the query', () => {
+    expect(filterCommands(items, 'echobot main').map(({ title }) => title)).toEqual(['Greeting', 'Start over']);
+  });
+
+  it('finds the items by their keywords and category', () => {
+    expect(filterCommands(items, 'run').map(({ title }) => title)).toEqual(['Start bot']);
+    expect(filterCommands(items, 'intent').map(({ title }) => title)).toEqual(['BookFlight']);
+  });
+
+  it('ranks the items matching at the start of their title first', () => {
+    expect(filterCommands(items, 'over').map(({ title }) => title)).toEqual(['Start over']);
+    expect(filterCommands(items, 'start').map(({ title }) => title)).toEqual(['Start bot', 'Start over']);
+    expect(filterCommands(items, 'bo').map(({ title }) => title)).toEqual([
+      'BookFlight',
+      'Start bot',
+      'Add trigger',
+      'Greeting',
+      'Start over',
+    ]);
+  });
+});
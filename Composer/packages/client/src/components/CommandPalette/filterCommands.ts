@@ -0,0 +1,37 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export type CommandPaletteItem = {
+  key: string;
+  title: string;
+  category: string;
+  description?: string;
+  keywords?: string[];
+  run: () => void | Promise<void>;
+};
+
+const getScore = (item: CommandPaletteItem, words: string[]) => {
+  const title = item.title.toLowerCase();
+  const text = [item.title, item.category, item.description ?? '', ...(item.keywords ?? [])].join(' ').toLowerCase();
+  if (!words.every((word) => text.includes(word))) return 0;
+
+  // the words found in the title count, the ones at its start most
+  const inTitle = words.filter((word) => title.includes(word)).length;
+  const atStart = title.startsWith(words[0]) ? words.length : 0;
+  return 1 + inTitle + atStart;
+};
+
+/**
+ * The items with all words of the query in their title, category, description or keywords. The items matching in
+ * their title come first, otherwise the items keep their order.
+ */
+export const filterCommands = (items: CommandPaletteItem[], query: string): CommandPaletteItem[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return items;
+
+  return items
+    .map((item, index) => ({ item, index, score: getScore(item, words) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
+};
@@ -0,0 +1,137 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { useMemo } from 'react';
+import formatMessage from 'format-message';
+import { useRecoilValue, useSetRecoilState } from 'recoil';
+
+import {
+  contributedCommandsState,
+  currentProjectIdState,
+  designPageLocationState,
+  dialogsSelectorFamily,
+  dispatcherState,
+  localBotsDataSelector,
+  navigationTargetsSelector,
+  rootBotProjectIdSelector,
+  triggerModalInfoState,
+} from '../../recoilModel';
+import { createBotSettingUrl, navigateTo } from '../../utils/navigation';
+
+import { CommandPaletteItem } from './filterCommands';
+
+type BotOperations = {
+  startAllBots: () => Promise<void>;
+  stopAllBots: () => Promise<void>;
+};
+
+/**
+ * The built-in actions, the commands contributed by extensions and the navigation targets of the open bots.
+ * The bot operations come from the palette, which stays mounted until the started bots are all running.
+ */
+export const useCommandPaletteItems = ({ startAllBots, stopAllBots }: BotOperations): CommandPaletteItem[] => {
+  const rootBotProjectId = useRecoilValue(rootBotProjectIdSelector);
+  const currentProjectId = useRecoilValue(currentProjectIdState);
+  const projectId = currentProjectId || rootBotProjectId || '';
+  const { dialogId } = useRecoilValue(designPageLocationState(projectId));
+  const dialogs = useRecoilValue(dialogsSelectorFamily(projectId));
+  const localBots = useRecoilValue(localBotsDataSelector);
+  const contributedCommands = useRecoilValue(contributedCommandsState);
+  const navigationTargets = useRecoilValue(navigationTargetsSelector);
+  const setTriggerModalInfo = useSetRecoilState(triggerModalInfoState);
+  const { navTo, addLanguageDialogBegin } = useRecoilValue(dispatcherState);
+
+  const actions = useMemo(() => {
+    if (!rootBotProjectId) return [];
+
+    const category = formatMessage('Action');
+    const dialog = dialogs.find(({ id }) => id === dialogId) ?? dialogs.find(({ isRoot }) => isRoot);
+    const items: CommandPaletteItem[] = [
+      {
+        key: 'action:startBots',
+        title: formatMessage('Start bot'),
+        category,
+        keywords: [formatMessage('run'), formatMessage('test')],
+        run: startAllBots,
+      },
+      {
+        key: 'action:stopBots',
+        title: formatMessage('Stop bot'),
+        category,
+        run: stopAllBots,
+      },
+      {
+        key: 'action:addLanguage',
+        title: formatMessage('Add language'),
+        category,
+        keywords: [formatMessage('locale')],
+        run: () => {
+          // the modal is part of the language settings of the bot
+          navigateTo(createBotSettingUrl(rootBotProjectId, rootBotProjectId, '#Language'));
+          addLanguageDialogBegin(rootBotProjectId, () => {});
+        },
+      },
+    ];
+
+    if (dialog) {
+      items.push({
+        key: 'action:addTrigger',
+        title: formatMessage('Add trigger'),
+        category,
+        description: dialog.displayName,
+        run: async () => {
+          // the modal is part of the design page
+          await navTo(projectId, dialog.id);
+          setTriggerModalInfo({ projectId, dialogId: dialog.id });
+        },
+      });
+    }
+
+    localBots.forEach((bot) => {
+      (bot.setting?.publishTargets ?? []).forEach((target) => {
+        items.push({
+          key: `action:publish:${bot.projectId}:${target.name}`,
+          title: formatMessage('Publish to {targetName}', { targetName: target.name }),
+          category,
+          description: bot.name,
+          run: () => {
+            // the publish page opens the publish dialog for the bot and the target of the url
+            navigateTo(`/bot/${rootBotProjectId}/publish/${encodeURIComponent(target.name)}?bot=${bot.projectId}`);
+          },
+        });
+      });
+    });
+
+    return items;
+  }, [rootBotProjectId, projectId, dialogId, dialogs, localBots, startAllBots, stopAllBots]);
+
+  const extensionCommands = useMemo(
+    () =>
+      contributedCommands.map(({ id, title, category, keywords, run }) => ({
+        key: `extension:${id}`,
+        title,
+        category: category ?? formatMessage('Extension'),
+        keywords,
+        run,
+      })),
+    [contributedCommands]
+  );
+
+  const navigationItems = useMemo(
+    () =>
+      navigationTargets.map(({ key, title, category, description, url }) => ({
+        key,
+        title,
+        category,
+        description,
+        run: () => navigateTo(url),
+      })),
+    [navigationTargets]
+  );
+
+  return useMemo(() => [...actions, ...extensionCommands, ...navigationItems], [
+    actions,
+    extensionCommands,
+    navigationItems,
+  ]);
+};
@@ -0,0 +1,97 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx } from '@emotion/core';
+import { useEffect, useState } from 'react';
+import { useRecoilValue } from 'recoil';
+import formatMessage from 'format-message';
+import { PrimaryButton } from 'office-ui-fabric-react/lib/Button';
+import { ChoiceGroup } from 'office-ui-fabric-react/lib/ChoiceGroup';
+import { DialogFooter } from 'office-ui-fabric-react/lib/Dialog';
+import { DialogWrapper, DialogTypes } from '@bfc/ui-shared';
+import { NeutralColors } from '@uifabric/fluent-theme';
+
+import { dispatcherState, fileConflictState } from '../recoilModel';
+import { ConflictResolutions } from '../recoilModel/persistence/types';
+
+const preview = (value: any) => {
+  if (value === undefined) return formatMessage('(removed)');
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+const previewStyle = {
+  margin: '4px 0 0',
+  padding: '4px 8px',
+  maxHeight: '120px',
+  overflow: 'auto',
+  background: NeutralColors.gray20,
+  fontSize: '12px',
+};
+
+export const FileConflictModal: React.FC<{ projectId: string }> = ({ projectId }) => {
+  const conflict = useRecoilValue(fileConflictState(projectId));
+  const { resolveFileConflict } = useRecoilValue(dispatcherState);
+  const [resolutions, setResolutions] = useState<ConflictResolutions>({});
+
+  useEffect(() => {
+    setResolutions({});
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const onSave = () => {
+    resolveFileConflict(projectId, resolutions);
+  };
+
+  return (
+    <DialogWrapper
+      isOpen
+      dialogType={DialogTypes.CreateFlow}
+      subText={formatMessage(
+        '{id} was changed outside of Composer while you were editing it. The other changes were merged with yours, choose which version to keep where both changed the same part.',
+        { id: conflict.id }
+      )}
+      title={formatMessage('Resolve conflicting changes')}
+      onDismiss={onSave}
+    >
+      <div data-testid="file-conflicts">
+        {conflict.conflicts.map(({ path, mine, theirs }) => (
+          <ChoiceGroup
+            key={path}
+            label={path || formatMessage('Whole file')}
+            options={[
+              {
+                key: 'mine',
+                text: formatMessage('Keep my change'),
+                onRenderLabel: (option, render) => (
+                  <div>
+                    {render?.(option)}
+                    <pre css={previewStyle}>{preview(mine)}</pre>
+                  </div>
+                ),
+              },
+              {
+                key: 'theirs',
+                text: formatMessage('Keep the saved change'),
+                onRenderLabel: (option, render) => (
+                  <div>
+                    {render?.(option)}
+                    <pre css={previewStyle}>{preview(theirs)}</pre>
+                  </div>
+                ),
+              },
+            ]}
+            selectedKey={resolutions[path] ?? 'mine'}
+            onChange={(_, option) =>
+              option && setResolutions({ ...resolutions, [path]: option.key as 'mine' | 'theirs' })
+            }
+          />
+        ))}
+      </div>
+      <DialogFooter>
+        <PrimaryButton data-testid="resolve-file-conflict" text={formatMessage('Save')} onClick={onSave} />
+      </DialogFooter>
+    </DialogWrapper>
+  );
+};
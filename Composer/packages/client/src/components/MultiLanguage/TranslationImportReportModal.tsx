@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx } from '@emotion/core';
+import React from 'react';
+import formatMessage from 'format-message';
+import { PrimaryButton } from 'office-ui-fabric-react/lib/Button';
+import { ScrollablePane, IScrollablePaneStyles } from 'office-ui-fabric-react/lib/ScrollablePane';
+import { Stack, StackItem } from 'office-ui-fabric-react/lib/Stack';
+import { Label } from 'office-ui-fabric-react/lib/Label';
+import { DialogWrapper, DialogTypes } from '@bfc/ui-shared';
+import { TranslationImportReport } from '@bfc/shared';
+
+import { MultiLanguagesDialog } from '../../constants';
+
+import { classNames } from './styles';
+
+export interface ITranslationImportReportModalProps {
+  report: TranslationImportReport | null;
+  onDismiss: () => void;
+}
+
+const TranslationImportReportModal: React.FC<ITranslationImportReportModalProps> = (props) => {
+  const { report, onDismiss } = props;
+
+  const scrollablePaneStyles: Partial<IScrollablePaneStyles> = { root: classNames.pane };
+
+  const renderUnits = (label: string, units: string[], testId: string) =>
+    units.length > 0 && (
+      <StackItem data-testid={testId}>
+        <Label>{label}</Label>
+        <ScrollablePane styles={scrollablePaneStyles}>
+          {units.map((unit) => (
+            <div key={unit} className={classNames.checkboxItem}>
+              {unit}
+            </div>
+          ))}
+        </ScrollablePane>
+      </StackItem>
+    );
+
+  return (
+    <DialogWrapper
+      isOpen={!!report}
+      onDismiss={onDismiss}
+      {...MultiLanguagesDialog.IMPORT_REPORT_DIALOG}
+      dialogType={DialogTypes.CreateFlow}
+    >
+      {report && (
+        <Stack tokens={{ childrenGap: '1rem' }}>
+          <StackItem>
+            {formatMessage('{count, plural, =1 {1 unit was} other {# units were}} translated to {locale}.', {
+              count: report.translated,
+              locale: report.locale,
+            })}
+          </StackItem>
+          {renderUnits(formatMessage('Untranslated'), report.untranslated, 'untranslatedUnits')}
+          {renderUnits(formatMessage('Stale, the source changed since the export'), report.stale, 'staleUnits')}
+          {renderUnits(
+            formatMessage('Not imported, the translation changes the expressions or entity labels'),
+            report.invalid,
+            'invalidUnits'
+          )}
+          <StackItem>
+            <PrimaryButton className={classNames.confirmBtn} text={formatMessage('Done')} onClick={onDismiss} />
+          </StackItem>
+        </Stack>
+      )}
+    </DialogWrapper>
+  );
+};
+
+export { TranslationImportReportModal };
@@ -5,4 +5,5 @@
 
 export * from './AddLanguageModal';
 export * from './DeleteLanguageModal';
+export * from './TranslationImportReportModal';
 export * from './utils';
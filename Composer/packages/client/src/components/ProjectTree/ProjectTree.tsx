@@ -2,7 +2,7 @@
 // Licensed under the MIT License.
 
 /** @jsx jsx */
-import React, { useCallback, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
 import { NeutralColors } from '@uifabric/fluent-theme';
 import { jsx, css } from '@emotion/core';
 import { FocusZone, FocusZoneDirection } from 'office-ui-fabric-react/lib/FocusZone';
@@ -35,6 +35,7 @@ import { ProjectTreeHeader, ProjectTreeHeaderMenuItem } from './ProjectTreeHeade
 import { isChildTriggerLinkSelected, doesLinkMatch } from './helpers';
 import { ProjectHeader } from './ProjectHeader';
 import { ProjectTreeOptions, TreeLink, TreeMenuItem } from './types';
+import { SelectionBar, SELECTION_BAR_HEIGHT } from './SelectionBar';
 
 // -------------------- Styles -------------------- //
 
@@ -70,6 +71,10 @@ const tree = css`
   label: tree;
 `;
 
+const treeWithSelectionBar = css`
+  height: calc(100% - ${45 + SELECTION_BAR_HEIGHT}px);
+`;
+
 const headerCSS = (label: string, isActive?: boolean) => css`
   margin-top: -6px;
   width: 100%;
@@ -102,6 +107,9 @@ function getTriggerName(trigger: ITrigger): string {
   return trigger.displayName || getFriendlyName({ $kind: trigger.type });
 }
 
+// the bot a link belongs to
+const getLinkBotId = (link: Partial<TreeLink>) => link.skillId ?? link.projectId;
+
 type Props = {
   navLinks?: TreeLink[];
   headerMenu?: ProjectTreeHeaderMenuItem[];
@@ -116,6 +124,10 @@ type Props = {
   onDialogCreateTrigger?: (projectId: string, dialogId: string) => void;
   onDialogDeleteTrigger?: (projectId: string, dialogId: string, index: number) => void;
   onErrorClick?: (projectId: string, skillId: string, diagnostic: Diagnostic) => void;
+  onBulkDelete?: (projectId: string, links: TreeLink[]) => void;
+  onBulkDuplicate?: (projectId: string, links: TreeLink[]) => void;
+  onBulkMoveTriggers?: (projectId: string, links: TreeLink[], toDialogId: string) => void;
+  onBulkExtractTriggers?: (projectId: string, links: TreeLink[]) => void;
   selectedLink?: Partial<TreeLink>;
   options?: ProjectTreeOptions;
   headerAriaLabel?: string;
@@ -138,6 +150,10 @@ export const ProjectTree: React.FC<Props> = ({
   onBotRemoveSkill = () => {},
   onDialogCreateTrigger = () => {},
   onErrorClick = () => {},
+  onBulkDelete = () => {},
+  onBulkDuplicate = () => {},
+  onBulkMoveTriggers = () => {},
+  onBulkExtractTriggers = () => {},
   selectedLink,
   options = {
     showDelete: true,
@@ -150,6 +166,7 @@ export const ProjectTree: React.FC<Props> = ({
     showCommonLinks: false,
     showRemote: true,
     showTriggers: true,
+    allowMultiSelect: true,
   },
   headerAriaLabel = '',
   headerPlaceholder = '',
@@ -170,6 +187,11 @@ export const ProjectTree: React.FC<Props> = ({
   const [filter, setFilter] = useState('');
 
   const [isMenuOpen, setMenuOpen] = useState<boolean>(false);
+  // the dialogs and triggers selected with ctrl or shift for a bulk edit, all of the same bot
+  const [multiSelection, setMultiSelection] = useState<TreeLink[]>([]);
+  const selectionAnchor = useRef<TreeLink>();
+  // the dialog and trigger links in the order of the tree, for the shift selection of a range
+  const selectableLinks = useRef<TreeLink[]>([]);
   const formDialogComposerFeatureEnabled = useFeatureFlag('FORM_DIALOG');
 
   const notificationMap: { [projectId: string]: { [dialogId: string]: Diagnostic[] } } = {};
@@ -189,10 +211,16 @@ export const ProjectTree: React.FC<Props> = ({
   const projectCollection: TreeDataPerProject[] = useRecoilValue(projectTreeSelectorFamily);
   const jsonSchemaFilesByProjectId = useRecoilValue(jsonSchemaFilesByProjectIdSelector);
 
+  // the trigger indexes of the selection are stale once the dialogs change
+  useEffect(() => {
+    setMultiSelection([]);
+  }, [projectCollection]);
+
   // TODO Refactor to make sure tree is not generated until a new trigger/dialog is added. #5462
   const createSubtree = useCallback(() => {
+    selectableLinks.current = [];
     return projectCollection.map(createBotSubtree);
-  }, [projectCollection, selectedLink, leftSplitWidth, filter]);
+  }, [projectCollection, selectedLink, leftSplitWidth, filter, multiSelection]);
 
   if (rootProjectId == null) {
     // this should only happen before a project is loaded in, so it won't last very long
@@ -210,13 +238,83 @@ export const ProjectTree: React.FC<Props> = ({
     );
   };
 
-  const handleOnSelect = (link: TreeLink) => {
+  const indexOfLink = (link: Partial<TreeLink>) =>
+    selectableLinks.current.findIndex((item) => doesLinkMatch(item, link));
+
+  const isLinkActive = (link: TreeLink) =>
+    multiSelection.length
+      ? multiSelection.some((item) => doesLinkMatch(item, link))
+      : doesLinkMatch(link, selectedLink);
+
+  const updateMultiSelection = (link: TreeLink, isRange: boolean) => {
+    const botId = getLinkBotId(link);
+    // a new selection starts with the dialog or trigger opened in the editor
+    const selection = (multiSelection.length
+      ? multiSelection
+      : selectableLinks.current.filter((item) => doesLinkMatch(item, selectedLink))
+    ).filter((item) => getLinkBotId(item) === botId);
+
+    if (isRange) {
+      const anchor =
+        selectionAnchor.current && getLinkBotId(selectionAnchor.current) === botId
+          ? selectionAnchor.current
+          : selection[0] ?? link;
+      const from = Math.max(indexOfLink(anchor), 0);
+      const to = indexOfLink(link);
+      setMultiSelection(
+        selectableLinks.current
+          .slice(Math.min(from, to), Math.max(from, to) + 1)
+          .filter((item) => getLinkBotId(item) === botId)
+      );
+    } else {
+      selectionAnchor.current = link;
+      setMultiSelection(
+        selection.some((item) => doesLinkMatch(item, link))
+          ? selection.filter((item) => !doesLinkMatch(item, link))
+          : [...selection, link]
+      );
+    }
+  };
+
+  const handleOnSelect = (link: TreeLink, event?: React.MouseEvent | React.KeyboardEvent) => {
+    if (options.allowMultiSelect && (event?.ctrlKey || event?.metaKey || event?.shiftKey) && indexOfLink(link) >= 0) {
+      updateMultiSelection(link, !!event?.shiftKey);
+      return;
+    }
+    selectionAnchor.current = link;
+    setMultiSelection([]);
+
     // Skip state change when link not changed.
     if (isEqual(link, selectedLink)) return;
 
     onSelect?.(link);
   };
 
+  const runBulkEdit = (edit: (projectId: string, links: TreeLink[]) => void) => {
+    const links = multiSelection;
+    setMultiSelection([]);
+    edit(getLinkBotId(links[0]) ?? rootProjectId, links);
+  };
+
+  const renderSelectionBar = () => {
+    const botId = getLinkBotId(multiSelection[0]);
+    const bot = projectCollection.find((item) => item.projectId === botId);
+
+    return (
+      <SelectionBar
+        dialogs={bot?.sortedDialogs ?? []}
+        selection={multiSelection}
+        onClear={() => setMultiSelection([])}
+        onDelete={() => runBulkEdit(onBulkDelete)}
+        onDuplicate={() => runBulkEdit(onBulkDuplicate)}
+        onExtractTriggers={() => runBulkEdit(onBulkExtractTriggers)}
+        onMoveTriggers={(toDialogId) =>
+          runBulkEdit((projectId, links) => onBulkMoveTriggers(projectId, links, toDialogId))
+        }
+      />
+    );
+  };
+
   const renderDialogHeader = (skillId: string, dialog: DialogInfo, depth: number, isPvaSchema: boolean) => {
     const diagnostics: Diagnostic[] = notificationMap[rootProjectId][dialog.id];
     const dialogLink: TreeLink = {
@@ -282,13 +380,13 @@ export const ProjectTree: React.FC<Props> = ({
         <span
           key={dialog.id}
           ref={dialog.isRoot ? addMainDialogRef : null}
-          css={headerCSS('dialog-header', doesLinkMatch(dialogLink, selectedLink))}
+          css={headerCSS('dialog-header', isLinkActive(dialogLink))}
           data-testid={`DialogHeader-${dialog.displayName}`}
         >
           <TreeItem
             hasChildren
             icon={isFormDialog ? icons.FORM_DIALOG : icons.DIALOG}
-            isActive={doesLinkMatch(dialogLink, selectedLink)}
+            isActive={isLinkActive(dialogLink)}
             isChildSelected={isChildTriggerLinkSelected(dialogLink, selectedLink)}
             isMenuOpen={isMenuOpen}
             link={dialogLink}
@@ -357,6 +455,7 @@ export const ProjectTree: React.FC<Props> = ({
       parentLink: dialogLink,
       isRemote: false,
     };
+    selectableLinks.current.push(link);
 
     return (
       <TreeItem
@@ -364,7 +463,7 @@ export const ProjectTree: React.FC<Props> = ({
         dialogName={dialog.displayName}
         extraSpace={INDENT_PER_LEVEL}
         icon={icons.TRIGGER}
-        isActive={doesLinkMatch(link, selectedLink)}
+        isActive={isLinkActive(link)}
         isMenuOpen={isMenuOpen}
         link={link}
         marginLeft={depth * INDENT_PER_LEVEL}
@@ -657,6 +756,7 @@ export const ProjectTree: React.FC<Props> = ({
       ...importedLuLinks,
       ...filteredDialogs.map((dialog: DialogInfo) => {
         const { summaryElement, dialogLink } = renderDialogHeader(projectId, dialog, 0, bot.isPvaSchema);
+        selectableLinks.current.push(dialogLink);
         const key = 'dialog-' + dialog.id;
 
         let lgImports, luImports;
@@ -674,7 +774,7 @@ export const ProjectTree: React.FC<Props> = ({
               key={key}
               defaultState={getPageElement(key)}
               depth={startDepth}
-              isActive={doesLinkMatch(dialogLink, selectedLink)}
+              isActive={isLinkActive(dialogLink)}
               summary={summaryElement}
               onToggle={(newState) => setPageElement(key, newState)}
             >
@@ -687,7 +787,7 @@ export const ProjectTree: React.FC<Props> = ({
               key={key}
               defaultState={getPageElement(key)}
               depth={startDepth}
-              isActive={doesLinkMatch(dialogLink, selectedLink)}
+              isActive={isLinkActive(dialogLink)}
               summary={summaryElement}
               onToggle={(newState) => setPageElement(key, newState)}
             >
@@ -700,7 +800,7 @@ export const ProjectTree: React.FC<Props> = ({
               key={key}
               defaultState={getPageElement(key)}
               depth={startDepth}
-              isActive={doesLinkMatch(dialogLink, selectedLink)}
+              isActive={isLinkActive(dialogLink)}
               summary={summaryElement}
               onToggle={(newState) => setPageElement(key, newState)}
             >
@@ -792,7 +892,17 @@ export const ProjectTree: React.FC<Props> = ({
         placeholder={headerPlaceholder}
         onFilter={onFilter}
       />
-      <FocusZone isCircularNavigation css={focusStyle} direction={FocusZoneDirection.vertical}>
+      {multiSelection.length > 0 && renderSelectionBar()}
+      <FocusZone
+        isCircularNavigation
+        css={focusStyle}
+        direction={FocusZoneDirection.vertical}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape' && multiSelection.length) {
+            setMultiSelection([]);
+          }
+        }}
+      >
         <div
           aria-label={formatMessage(
             `{
@@ -810,7 +920,7 @@ export const ProjectTree: React.FC<Props> = ({
           )}
           aria-live={'polite'}
         />
-        <div css={tree}>{projectTree}</div>
+        <div css={[tree, multiSelection.length > 0 && treeWithSelectionBar]}>{projectTree}</div>
       </FocusZone>
     </div>
   );
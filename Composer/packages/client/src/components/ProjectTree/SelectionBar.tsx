@@ -0,0 +1,116 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import React from 'react';
+import formatMessage from 'format-message';
+import { FontSizes, NeutralColors } from '@uifabric/fluent-theme';
+import { IconButton } from 'office-ui-fabric-react/lib/Button';
+import { DialogInfo } from '@bfc/shared';
+
+import { TreeLink } from './types';
+
+// -------------------- Styles -------------------- //
+
+export const SELECTION_BAR_HEIGHT = 40;
+
+const bar = css`
+  display: flex;
+  align-items: center;
+  height: ${SELECTION_BAR_HEIGHT}px;
+  box-sizing: border-box;
+  padding-left: 12px;
+  border-bottom: 1px solid ${NeutralColors.gray30};
+  background: ${NeutralColors.gray10};
+  label: selection-bar;
+`;
+
+const count = css`
+  flex: 1;
+  font-size: ${FontSizes.size12};
+`;
+
+// -------------------- SelectionBar -------------------- //
+
+type SelectionBarProps = {
+  selection: TreeLink[];
+  // the dialogs of the bot of the selection, the triggers can be moved to
+  dialogs: DialogInfo[];
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onMoveTriggers: (toDialogId: string) => void;
+  onExtractTriggers: () => void;
+  onClear: () => void;
+};
+
+export const SelectionBar: React.FC<SelectionBarProps> = ({
+  selection,
+  dialogs,
+  onDelete,
+  onDuplicate,
+  onMoveTriggers,
+  onExtractTriggers,
+  onClear,
+}) => {
+  const onlyTriggers = selection.every((link) => link.trigger != null);
+  const hasRootDialog = selection.some((link) => link.trigger == null && link.isRoot);
+  const moveTargets = dialogs.filter(
+    (dialog) => !selection.every((link) => link.dialogId === dialog.id) && !dialog.isFormDialog
+  );
+
+  return (
+    <div
+      aria-label={formatMessage('Selected dialogs and triggers')}
+      css={bar}
+      data-testid="ProjectTreeSelectionBar"
+      role="toolbar"
+    >
+      <span css={count}>{formatMessage('{count} selected', { count: selection.length })}</span>
+      <IconButton
+        ariaLabel={formatMessage('Delete')}
+        data-testid="ProjectTreeSelectionBar-Delete"
+        disabled={hasRootDialog}
+        iconProps={{ iconName: 'Delete' }}
+        title={hasRootDialog ? formatMessage('The main dialog cannot be deleted') : formatMessage('Delete')}
+        onClick={onDelete}
+      />
+      <IconButton
+        ariaLabel={formatMessage('Duplicate')}
+        data-testid="ProjectTreeSelectionBar-Duplicate"
+        iconProps={{ iconName: 'Copy' }}
+        title={formatMessage('Duplicate')}
+        onClick={onDuplicate}
+      />
+      <IconButton
+        ariaLabel={formatMessage('Move to dialog')}
+        data-testid="ProjectTreeSelectionBar-Move"
+        disabled={!onlyTriggers || !moveTargets.length}
+        iconProps={{ iconName: 'MoveToFolder' }}
+        menuIconProps={{ iconName: '' }}
+        menuProps={{
+          items: moveTargets.map((dialog) => ({
+            key: dialog.id,
+            text: dialog.displayName,
+            onClick: () => onMoveTriggers(dialog.id),
+          })),
+        }}
+        title={formatMessage('Move to dialog')}
+      />
+      <IconButton
+        ariaLabel={formatMessage('Extract to new dialog')}
+        data-testid="ProjectTreeSelectionBar-Extract"
+        disabled={!onlyTriggers}
+        iconProps={{ iconName: 'OpenInNewWindow' }}
+        title={formatMessage('Extract to new dialog')}
+        onClick={onExtractTriggers}
+      />
+      <IconButton
+        ariaLabel={formatMessage('Clear selection')}
+        iconProps={{ iconName: 'Cancel' }}
+        title={formatMessage('Clear selection')}
+        onClick={onClear}
+      />
+    </div>
+  );
+};
@@ -232,7 +232,7 @@ type ITreeItemProps = {
   isActive?: boolean;
   isChildSelected?: boolean;
   isSubItemActive?: boolean;
-  onSelect?: (link: TreeLink) => void;
+  onSelect?: (link: TreeLink, event?: React.MouseEvent | React.KeyboardEvent) => void;
   icon?: string;
   dialogName?: string;
   textWidth?: number;
@@ -521,12 +521,12 @@ export const TreeItem: React.FC<ITreeItemProps> = ({
       data-testid={a11yLabel}
       role={role}
       tabIndex={0}
-      onClick={() => {
-        onSelect?.(link);
+      onClick={(e) => {
+        onSelect?.(link, e);
       }}
       onKeyDown={(e) => {
         if (e.key === 'Enter') {
-          onSelect?.(link);
+          onSelect?.(link, e);
         }
       }}
     >
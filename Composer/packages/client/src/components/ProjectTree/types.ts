@@ -35,4 +35,5 @@ export type ProjectTreeOptions = {
   showCommonLinks?: boolean;
   showRemote?: boolean;
   showTriggers?: boolean;
+  allowMultiSelect?: boolean;
 };
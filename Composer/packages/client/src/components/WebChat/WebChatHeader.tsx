@@ -38,6 +38,7 @@ export type WebChatHeaderProps = {
   conversationId: string;
   onRestartConversation: (conversationId: string, requireNewUserId: boolean) => Promise<any>;
   onSaveTranscript: (conversationId: string) => Promise<any>;
+  onSaveAsTest: (conversationId: string) => Promise<any>;
   openBotInEmulator: () => void;
 };
 
@@ -46,6 +47,7 @@ export const WebChatHeader: React.FC<WebChatHeaderProps> = ({
   currentRestartOption,
   onRestartConversation,
   onSaveTranscript,
+  onSaveAsTest,
   openBotInEmulator,
   onSetRestartOption,
 }) => {
@@ -104,6 +106,14 @@ export const WebChatHeader: React.FC<WebChatHeaderProps> = ({
         title="Save chat transcripts"
         onClick={() => onSaveTranscript(conversationId)}
       />
+      <ActionButton
+        ariaDescription="Save conversation as a regression test in the bot project"
+        ariaLabel="save-regression-test"
+        data-testid="save-regression-test"
+        iconProps={{ iconName: 'TestBeaker' }}
+        title="Save as regression test"
+        onClick={() => onSaveAsTest(conversationId)}
+      />
       <ActionButton
         ariaDescription="Open the bot in Emulator"
         data-testid="open-emulator"
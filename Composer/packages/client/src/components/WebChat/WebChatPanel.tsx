@@ -13,7 +13,7 @@ import formatMessage from 'format-message';
 
 import TelemetryClient from '../../telemetry/TelemetryClient';
 import { BotStatus } from '../../constants';
-import { dispatcherState } from '../../recoilModel';
+import { dispatcherState, locationState } from '../../recoilModel';
 
 import { ConversationService, ChatData, BotSecrets } from './utils/conversationService';
 import { WebChatHeader } from './WebChatHeader';
@@ -49,6 +49,7 @@ export const WebChatPanel: React.FC<WebChatPanelProps> = ({
     setActiveTabInDebugPanel,
   } = useRecoilValue(dispatcherState);
   const { projectId, botUrl, secrets, botName, activeLocale, botStatus } = botData;
+  const location = useRecoilValue(locationState(projectId));
   const [chats, setChatData] = useState<Record<string, ChatData>>({});
   const [currentConversation, setCurrentConversation] = useState<string>('');
   const conversationService = useMemo(() => new ConversationService(directlineHostUrl), [directlineHostUrl]);
@@ -220,6 +221,26 @@ export const WebChatPanel: React.FC<WebChatPanelProps> = ({
     }
   };
 
+  const onSaveAsTestClick = async (conversationId: string) => {
+    // saved transcripts are picked up by the conversation test runner and replayed against the bot
+    const fileSavePath = `${location}/tests/${botName}-${Date.now()}.transcript`;
+    const error = await conversationService.saveTranscriptToDisk(conversationId, fileSavePath);
+    if (error) {
+      const err: ConversationNetworkErrorItem = {
+        error: {
+          message: formatMessage('An error occurred saving the conversation as a regression test'),
+        },
+        request: { route: error.route, method: 'POST', payload: { fileSavePath } },
+        response: { payload: error.message, statusCode: error.status },
+        timestamp: Date.now(),
+        trafficType: 'networkError',
+      };
+      appendWebChatTraffic(projectId, err);
+      return;
+    }
+    TelemetryClient.track('SaveAsRegressionTestClicked');
+  };
+
   return (
     <div ref={webChatPanelRef} style={{ height: 'calc(100% - 38px)' }}>
       <WebChatHeader
@@ -230,6 +251,7 @@ export const WebChatPanel: React.FC<WebChatPanelProps> = ({
           TelemetryClient.track('EmulatorButtonClicked', { isRoot: true, projectId, location: 'WebChatPane' });
         }}
         onRestartConversation={onRestartConversationClick}
+        onSaveAsTest={onSaveAsTestClick}
         onSaveTranscript={onSaveTranscriptClick}
         onSetRestartOption={onSetRestartOption}
       />
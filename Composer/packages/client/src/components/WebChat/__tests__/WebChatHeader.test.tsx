@@ -11,6 +11,7 @@ describe('<WebChatHeader />', () => {
   const mockOnSetRestartOption = jest.fn();
   const mockOnRestartConversation = jest.fn();
   const mockOnSaveTranscript = jest.fn();
+  const mockOnSaveAsTest = jest.fn();
 
   const props: WebChatHeaderProps = {
     currentRestartOption: RestartOption.NewUserID,
@@ -18,6 +19,7 @@ describe('<WebChatHeader />', () => {
     conversationId: '123-abc-conv',
     onRestartConversation: mockOnRestartConversation,
     onSaveTranscript: mockOnSaveTranscript,
+    onSaveAsTest: mockOnSaveAsTest,
     openBotInEmulator: jest.fn(),
   };
 
@@ -25,6 +27,7 @@ describe('<WebChatHeader />', () => {
     mockOnSetRestartOption.mockClear();
     mockOnRestartConversation.mockClear();
     mockOnSaveTranscript.mockClear();
+    mockOnSaveAsTest.mockClear();
   });
 
   it('should render webchat header correctly and restart conversation with same user id', async () => {
@@ -38,6 +41,7 @@ describe('<WebChatHeader />', () => {
       conversationId: '123-abc-conv',
       onRestartConversation: mockOnRestartConversation,
       onSaveTranscript: mockOnSaveTranscript,
+      onSaveAsTest: jest.fn(),
       openBotInEmulator: jest.fn(),
     };
 
@@ -61,6 +65,7 @@ describe('<WebChatHeader />', () => {
       conversationId: '123-abc-conv',
       onRestartConversation: mockOnRestartConversation,
       onSaveTranscript: mockOnSaveTranscript,
+      onSaveAsTest: jest.fn(),
       openBotInEmulator: jest.fn(),
     };
 
@@ -82,4 +87,14 @@ describe('<WebChatHeader />', () => {
       expect(mockOnSaveTranscript).toHaveBeenLastCalledWith('123-abc-conv');
     });
   });
+
+  it('should save the conversation as a regression test', async () => {
+    const { findByTestId } = render(<WebChatHeader {...props} />);
+
+    const saveAsTest = await findByTestId('save-regression-test');
+    act(() => {
+      fireEvent.click(saveAsTest);
+      expect(mockOnSaveAsTest).toHaveBeenLastCalledWith('123-abc-conv');
+    });
+  });
 });
@@ -20,6 +20,7 @@ const mocks = {
   publishToTarget: jest.fn(),
   setBotStatus: jest.fn(),
   stopBot: jest.fn(),
+  updatePseudoLocaleFiles: jest.fn(),
 };
 
 const initRecoilState = ({ set }) => {
@@ -36,6 +37,7 @@ const initRecoilState = ({ set }) => {
     publishToTarget: mocks.publishToTarget,
     setBotStatus: mocks.setBotStatus,
     stopPublishBot: mocks.stopBot,
+    updatePseudoLocaleFiles: mocks.updatePseudoLocaleFiles,
   });
 };
 
@@ -46,6 +48,7 @@ describe('useBotOperations', () => {
     mocks.publishToTarget.mockReset();
     mocks.setBotStatus.mockReset();
     mocks.stopBot.mockReset();
+    mocks.updatePseudoLocaleFiles.mockReset();
   });
 
   it('should start a single bot', async () => {
@@ -62,6 +65,7 @@ describe('useBotOperations', () => {
       result.current.startSingleBot(state.skillId);
     });
     expect(mocks.resetBotRuntimeError).toHaveBeenLastCalledWith(state.skillId);
+    expect(mocks.updatePseudoLocaleFiles).toHaveBeenLastCalledWith(state.skillId);
     expect(mocks.publishToTarget).toHaveBeenLastCalledWith(
       state.skillId,
       defaultPublishConfig,
@@ -232,6 +232,12 @@ export const DialogCreationCopy = {
       subText: formatMessage(`Specify a name and description for your new dialog.`),
     };
   },
+  get EXTRACT_DIALOG() {
+    return {
+      title: formatMessage('Extract to a new dialog'),
+      subText: formatMessage(`Specify a name for the new dialog.`),
+    };
+  },
   get SELECT_LOCATION() {
     return {
       title: formatMessage('Select a Bot'),
@@ -308,6 +314,14 @@ export const MultiLanguagesDialog = {
       ),
     };
   },
+  get IMPORT_REPORT_DIALOG() {
+    return {
+      title: formatMessage('Translations imported'),
+      subText: formatMessage(
+        'The translations were written to the content of the language. Untranslated and stale units keep their previous content.'
+      ),
+    };
+  },
 };
 
 export const addSkillDialog = {
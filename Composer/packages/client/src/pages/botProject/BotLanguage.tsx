@@ -2,7 +2,7 @@
 // Licensed under the MIT License.
 
 /** @jsx jsx */
-import React, { Fragment, useMemo } from 'react';
+import React, { Fragment, useMemo, useRef } from 'react';
 import { jsx, css } from '@emotion/core';
 import { useRecoilValue } from 'recoil';
 import { ActionButton } from 'office-ui-fabric-react/lib/Button';
@@ -14,8 +14,8 @@ import { NeutralColors, SharedColors } from '@uifabric/fluent-theme';
 import { dispatcherState, settingsState } from '../../recoilModel';
 import { CollapsableWrapper } from '../../components/CollapsableWrapper';
 import { languageListTemplates } from '../../components/MultiLanguage';
-import { localeState, showAddLanguageModalState } from '../../recoilModel/atoms';
-import { AddLanguageModal } from '../../components/MultiLanguage';
+import { localeState, showAddLanguageModalState, translationImportReportState } from '../../recoilModel/atoms';
+import { AddLanguageModal, TranslationImportReportModal } from '../../components/MultiLanguage';
 import { mergePropertiesManagedByRootBot } from '../../recoilModel/dispatchers/utils/project';
 import { rootBotProjectIdSelector } from '../../recoilModel/selectors/project';
 
@@ -91,7 +91,14 @@ const languageTextStyle = css`
 const languageButtonContainer = css`
   display: flex;
   justify-content: space-between;
-  width: 240px;
+  width: 360px;
+`;
+
+const manageButtonContainer = css`
+  display: flex;
+  & > .ms-Button + .ms-Button {
+    margin-left: 24px;
+  }
 `;
 
 // -------------------- BotLanguage -------------------- //
@@ -108,6 +115,8 @@ export const BotLanguage: React.FC<BotLanguageProps> = (props) => {
   const mergedSettings = mergePropertiesManagedByRootBot(projectId, rootBotProjectId, settings);
   const locale = useRecoilValue(localeState(projectId));
   const showAddLanguageModal = useRecoilValue(showAddLanguageModalState(projectId));
+  const translationImportReport = useRecoilValue(translationImportReportState(projectId));
+  const importInputRef = useRef<HTMLInputElement>(null);
   const {
     addLanguageDialogBegin,
     setSettings,
@@ -115,6 +124,9 @@ export const BotLanguage: React.FC<BotLanguageProps> = (props) => {
     setLocale,
     addLanguageDialogCancel,
     addLanguages,
+    exportTranslations,
+    importTranslations,
+    clearTranslationImportReport,
   } = useRecoilValue(dispatcherState);
 
   const languageListOptions = useMemo(() => {
@@ -146,6 +158,15 @@ export const BotLanguage: React.FC<BotLanguageProps> = (props) => {
     setSettings(projectId, updatedSetting);
   };
 
+  const onImportTranslations = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // the same file can be imported again after fixing it
+    event.target.value = '';
+    if (file) {
+      importTranslations(projectId, await file.text());
+    }
+  };
+
   const index = languageListOptions.findIndex((l) => l.key === defaultLanguage);
   const dl = languageListOptions.splice(index, 1)[0];
   languageListOptions.unshift(dl);
@@ -179,6 +200,13 @@ export const BotLanguage: React.FC<BotLanguageProps> = (props) => {
                       >
                         {formatMessage('Set it as default language')}
                       </ActionButton>
+                      <ActionButton
+                        data-testid={'exportTranslations'}
+                        styles={languageButton}
+                        onClick={() => exportTranslations(projectId, l.key)}
+                      >
+                        {formatMessage('Export for translation')}
+                      </ActionButton>
                       <ActionButton
                         data-testid={'remove'}
                         styles={languageButton}
@@ -192,9 +220,27 @@ export const BotLanguage: React.FC<BotLanguageProps> = (props) => {
               </div>
             ))}
           </div>
-          <ActionButton styles={manageBotLanguage} onClick={() => addLanguageDialogBegin(projectId, () => {})}>
-            {formatMessage('Manage bot languages')}
-          </ActionButton>
+          <div css={manageButtonContainer}>
+            <ActionButton styles={manageBotLanguage} onClick={() => addLanguageDialogBegin(projectId, () => {})}>
+              {formatMessage('Manage bot languages')}
+            </ActionButton>
+            <ActionButton
+              data-testid={'importTranslations'}
+              disabled={languages.length < 2}
+              styles={manageBotLanguage}
+              onClick={() => importInputRef.current?.click()}
+            >
+              {formatMessage('Import translations')}
+            </ActionButton>
+            <input
+              ref={importInputRef}
+              accept=".xlf,.xliff"
+              data-testid={'importTranslationsInput'}
+              style={{ display: 'none' }}
+              type="file"
+              onChange={onImportTranslations}
+            />
+          </div>
         </div>
       </CollapsableWrapper>
       <AddLanguageModal
@@ -205,6 +251,10 @@ export const BotLanguage: React.FC<BotLanguageProps> = (props) => {
         onDismiss={() => addLanguageDialogCancel(projectId)}
         onSubmit={onAddLangModalSubmit}
       />
+      <TranslationImportReportModal
+        report={translationImportReport}
+        onDismiss={() => clearTranslationImportReport(projectId)}
+      />
     </Fragment>
   );
 };
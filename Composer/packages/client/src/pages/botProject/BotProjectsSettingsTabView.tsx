@@ -60,7 +60,8 @@ export const BotProjectSettingsTabView: React.FC<RouteComponentProps<{
     if (scrollToSectionId) {
       const htmlIdTagName = scrollToSectionId.replace('#', '');
       for (const key in PivotItemKey) {
-        if (idsInTab[key].includes(htmlIdTagName)) {
+        // the hash names either a tab or a section in it
+        if (key === htmlIdTagName || idsInTab[key].includes(htmlIdTagName)) {
           setSelectedKey(key as PivotItemKey);
         }
       }
@@ -3,7 +3,7 @@
 
 /** @jsx jsx */
 import { jsx } from '@emotion/core';
-import React, { useMemo, useCallback, useEffect } from 'react';
+import React, { useMemo, useCallback, useEffect, useState } from 'react';
 import formatMessage from 'format-message';
 import get from 'lodash/get';
 import { getEditorAPI, registerEditorAPI } from '@bfc/shared';
@@ -21,6 +21,7 @@ import { undoStatusSelectorFamily } from '../../recoilModel/selectors/undo';
 import TelemetryClient from '../../telemetry/TelemetryClient';
 
 import implementedDebugExtensions from './DebugPanel/TabExtensions';
+import { UndoHistoryPanel } from './UndoHistoryPanel';
 
 type CommandBarProps = { projectId: string };
 
@@ -30,6 +31,7 @@ const CommandBar: React.FC<CommandBarProps> = React.memo(({ projectId }) => {
   const { undo, redo, clearUndo } = useRecoilValue(undoFunctionState(projectId));
   const visualEditorSelection = useRecoilValue(visualEditorSelectionState);
   const [canUndo, canRedo] = useRecoilValue(undoStatusSelectorFamily(projectId));
+  const [showHistory, setShowHistory] = useState(false);
 
   const { onboardingAddCoachMarkRef } = useRecoilValue(dispatcherState);
 
@@ -144,6 +146,19 @@ const CommandBar: React.FC<CommandBarProps> = React.memo(({ projectId }) => {
           ],
         },
       },
+      {
+        type: 'action',
+        text: formatMessage('History'),
+        align: 'left',
+        dataTestid: 'UndoHistory',
+        buttonProps: {
+          iconProps: { iconName: 'History' },
+          onClick: () => {
+            setShowHistory(true);
+            TelemetryClient.track('ToolbarButtonClicked', { name: 'history' });
+          },
+        },
+      },
       {
         type: 'dropdown',
         text: formatMessage('Disable'),
@@ -194,6 +209,7 @@ const CommandBar: React.FC<CommandBarProps> = React.memo(({ projectId }) => {
         data-testid="CoachmarkRef-AddNew"
       />
       <Toolbar toolbarItems={toolbarItems} />
+      <UndoHistoryPanel isOpen={showHistory} projectId={projectId} onDismiss={() => setShowHistory(false)} />
     </div>
   );
 });
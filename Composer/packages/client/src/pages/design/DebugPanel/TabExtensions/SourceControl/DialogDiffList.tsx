@@ -0,0 +1,91 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx } from '@emotion/core';
+import { useRecoilValue } from 'recoil';
+import formatMessage from 'format-message';
+import { ActionButton, IconButton } from 'office-ui-fabric-react/lib/Button';
+import { NeutralColors } from '@uifabric/fluent-theme';
+import { DialogDiffItem, DialogDiffKind } from '@bfc/shared';
+
+import {
+  dialogDiffSelectorFamily,
+  dialogDiffState,
+  dispatcherState,
+  rootBotProjectIdSelector,
+} from '../../../../../recoilModel';
+
+const kindLabels: { [kind in DialogDiffKind]: () => string } = {
+  added: () => formatMessage('Added'),
+  removed: () => formatMessage('Removed'),
+  moved: () => formatMessage('Moved'),
+  changed: () => formatMessage('Changed'),
+};
+
+// same colors as the highlights of the visual editor
+const kindColors: { [kind in DialogDiffKind]: string } = {
+  added: '#107c10',
+  removed: '#a4262c',
+  moved: '#8764b8',
+  changed: '#ca5010',
+};
+
+const describe = ({ kind, $kind, path, previousPath, properties }: DialogDiffItem) => {
+  const location = kind === 'moved' ? formatMessage('{from} to {to}', { from: previousPath, to: path }) : path;
+  return properties?.length ? `${$kind} ${location} (${properties.join(', ')})` : `${$kind} ${location}`;
+};
+
+export const DialogDiffList: React.FC<{ projectId: string }> = ({ projectId }) => {
+  const diff = useRecoilValue(dialogDiffState(projectId));
+  const changes = useRecoilValue(dialogDiffSelectorFamily({ projectId, dialogId: diff?.dialogId ?? '' }));
+  const rootBotId = useRecoilValue(rootBotProjectIdSelector);
+  const { clearDialogDiff, selectAndFocus } = useRecoilValue(dispatcherState);
+
+  if (!diff || !changes) {
+    return null;
+  }
+
+  const onSelect = ({ path }: DialogDiffItem) => {
+    const trigger = path.match(/^triggers\[\d+\]/)?.[0] ?? '';
+    const skillId = projectId === rootBotId ? null : projectId;
+    selectAndFocus(projectId, skillId, diff.dialogId, trigger, path === trigger ? '' : path);
+  };
+
+  return (
+    <div data-testid="dialog-diff-list">
+      <div css={{ display: 'flex', alignItems: 'center', fontWeight: 600, margin: '12px 0 6px' }}>
+        {formatMessage('{path} compared with {revision}', { path: diff.path, revision: diff.revision })}
+        <IconButton
+          ariaLabel={formatMessage('Close comparison')}
+          iconProps={{ iconName: 'Cancel' }}
+          styles={{ root: { height: '20px' } }}
+          onClick={() => clearDialogDiff(projectId)}
+        />
+      </div>
+      {changes.length ? (
+        <ul css={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {changes.map((item) => (
+            <li key={`${item.kind}-${item.designId}`} css={{ lineHeight: '20px' }}>
+              <span css={{ display: 'inline-block', width: '70px', color: kindColors[item.kind] }}>
+                {kindLabels[item.kind]()}
+              </span>
+              {item.kind === 'removed' ? (
+                describe(item)
+              ) : (
+                <ActionButton
+                  styles={{ root: { height: '20px', padding: 0 }, label: { margin: 0 } }}
+                  onClick={() => onSelect(item)}
+                >
+                  {describe(item)}
+                </ActionButton>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div css={{ color: NeutralColors.gray130 }}>{formatMessage('No triggers or actions changed.')}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx } from '@emotion/core';
+import { useEffect, useMemo, useState } from 'react';
+import { useRecoilValue } from 'recoil';
+import formatMessage from 'format-message';
+import { ActionButton, DefaultButton, PrimaryButton } from 'office-ui-fabric-react/lib/Button';
+import { Dropdown, IDropdownOption } from 'office-ui-fabric-react/lib/Dropdown';
+import { TextField } from 'office-ui-fabric-react/lib/TextField';
+import { NeutralColors } from '@uifabric/fluent-theme';
+import { GitFileChange, GitFileStatus } from '@botframework-composer/types';
+
+import { dispatcherState, gitCommitsState, gitStatusState, uncommittedChangesState } from '../../../../../recoilModel';
+import { ChangeType, FileChangeSummary } from '../../../../../recoilModel/persistence/types';
+import { getDefaultFontSettings } from '../../../../../recoilModel/utils/fontUtil';
+
+import { DialogDiffList } from './DialogDiffList';
+
+const DEFAULT_FONT_SETTINGS = getDefaultFontSettings();
+
+const changeStatus: Record<ChangeType, GitFileStatus> = {
+  [ChangeType.CREATE]: 'added',
+  [ChangeType.UPDATE]: 'modified',
+  [ChangeType.DELETE]: 'deleted',
+};
+
+const statusLabel = (status: GitFileStatus) => {
+  switch (status) {
+    case 'added':
+    case 'untracked':
+      return 'A';
+    case 'deleted':
+      return 'D';
+    case 'renamed':
+      return 'R';
+    default:
+      return 'M';
+  }
+};
+
+// recognizer files are .dialog files too but have no triggers to compare
+const canCompare = ({ path, status }: GitFileChange) =>
+  status !== 'deleted' && path.endsWith('.dialog') && !/\.(lu|qna)\.dialog$/.test(path);
+
+/**
+ * Adds the files written in this session that the last git status does not know about yet, the
+ * status is only refreshed once the writes are on disk.
+ */
+export const mergeChanges = (changes: GitFileChange[], sessionChanges: FileChangeSummary[]): GitFileChange[] => {
+  // the file names are only unique within a folder, nested skills can have files of the same names
+  const knownPaths = changes.map(({ path }) => path);
+  const pending = sessionChanges
+    .map(({ id, type, path = id }) => ({ path, status: changeStatus[type] }))
+    .filter(({ path }) => !knownPaths.includes(path));
+  return [...changes, ...pending];
+};
+
+const sectionTitle = {
+  fontWeight: 600,
+  margin: '12px 0 6px',
+} as const;
+
+export const SourceControlPane: React.FC<{ projectId: string }> = ({ projectId }) => {
+  const status = useRecoilValue(gitStatusState(projectId));
+  const commits = useRecoilValue(gitCommitsState(projectId));
+  const sessionChanges = useRecoilValue(uncommittedChangesState(projectId));
+  const {
+    fetchGitStatus,
+    fetchGitCommits,
+    initGitRepository,
+    commitGitChanges,
+    checkoutGitBranch,
+    compareDialog,
+  } = useRecoilValue(dispatcherState);
+  const [message, setMessage] = useState('');
+  const [newBranch, setNewBranch] = useState('');
+
+  useEffect(() => {
+    if (projectId) {
+      fetchGitStatus(projectId);
+      fetchGitCommits(projectId);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (projectId && status.enabled) {
+      fetchGitStatus(projectId);
+    }
+  }, [sessionChanges]);
+
+  const changes = useMemo(() => mergeChanges(status.changes, sessionChanges), [status.changes, sessionChanges]);
+
+  const branchOptions: IDropdownOption[] = status.branches.map((branch) => ({ key: branch, text: branch }));
+
+  const onCommit = async () => {
+    await commitGitChanges(projectId, message);
+    setMessage('');
+  };
+
+  const onCreateBranch = async () => {
+    await checkoutGitBranch(projectId, newBranch, true);
+    setNewBranch('');
+  };
+
+  if (!status.enabled) {
+    return (
+      <div css={{ padding: '15px 24px' }} data-testid="source-control-disabled">
+        <p>{formatMessage('The history of this bot project is not tracked yet.')}</p>
+        <PrimaryButton
+          data-testid="init-git-repository"
+          text={formatMessage('Initialize Git repository')}
+          onClick={() => initGitRepository(projectId)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      css={{
+        height: 'calc(100% - 25px)',
+        padding: '0 24px 15px',
+        overflowY: 'auto',
+        fontSize: DEFAULT_FONT_SETTINGS.fontSize,
+        color: NeutralColors.black,
+      }}
+      data-testid="source-control-pane"
+    >
+      <div css={{ display: 'flex', alignItems: 'flex-end', marginTop: '12px' }}>
+        <Dropdown
+          label={formatMessage('Branch')}
+          options={branchOptions}
+          selectedKey={status.branch}
+          styles={{ root: { width: '200px', marginRight: '12px' } }}
+          onChange={(_, option) =>
+            option && option.key !== status.branch && checkoutGitBranch(projectId, `${option.key}`)
+          }
+        />
+        <TextField
+          ariaLabel={formatMessage('New branch name')}
+          placeholder={formatMessage('New branch name')}
+          styles={{ root: { width: '200px', marginRight: '8px' } }}
+          value={newBranch}
+          onChange={(_, value) => setNewBranch(value ?? '')}
+        />
+        <DefaultButton disabled={!newBranch.trim()} text={formatMessage('Create branch')} onClick={onCreateBranch} />
+      </div>
+
+      <div css={sectionTitle}>{formatMessage('Changes')}</div>
+      {changes.length ? (
+        <ul css={{ listStyle: 'none', margin: 0, padding: 0 }} data-testid="source-control-changes">
+          {changes.map((change) => (
+            <li key={change.path} css={{ lineHeight: '20px' }}>
+              <span css={{ display: 'inline-block', width: '20px', color: NeutralColors.gray130 }}>
+                {statusLabel(change.status)}
+              </span>
+              {change.path}
+              {canCompare(change) && (
+                <ActionButton
+                  styles={{ root: { height: '20px', marginLeft: '8px' } }}
+                  onClick={() => compareDialog(projectId, change)}
+                >
+                  {formatMessage('Compare')}
+                </ActionButton>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div css={{ color: NeutralColors.gray130 }}>{formatMessage('No changes since the last commit.')}</div>
+      )}
+
+      <DialogDiffList projectId={projectId} />
+
+      <div css={{ display: 'flex', alignItems: 'center', marginTop: '8px' }}>
+        <TextField
+          ariaLabel={formatMessage('Commit message')}
+          placeholder={formatMessage('Commit message')}
+          styles={{ root: { flex: 1, marginRight: '8px' } }}
+          value={message}
+          onChange={(_, value) => setMessage(value ?? '')}
+        />
+        <PrimaryButton
+          data-testid="git-commit"
+          disabled={!message.trim() || !changes.length}
+          text={formatMessage('Commit')}
+          onClick={onCommit}
+        />
+      </div>
+
+      <div css={sectionTitle}>{formatMessage('History')}</div>
+      <ul css={{ listStyle: 'none', margin: 0, padding: 0 }} data-testid="source-control-history">
+        {commits.map(({ hash, author, date, message: commitMessage }) => (
+          <li key={hash} css={{ lineHeight: '20px' }}>
+            <span css={{ fontFamily: DEFAULT_FONT_SETTINGS.fontFamily, marginRight: '8px' }}>{hash.slice(0, 7)}</span>
+            {commitMessage}
+            <span css={{ color: NeutralColors.gray130, marginLeft: '8px' }}>
+              {formatMessage('{author}, {date}', { author, date: new Date(date).toLocaleString() })}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
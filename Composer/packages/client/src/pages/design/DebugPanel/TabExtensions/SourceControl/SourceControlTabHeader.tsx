@@ -0,0 +1,38 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx } from '@emotion/core';
+import formatMessage from 'format-message';
+import { useRecoilValue } from 'recoil';
+
+import { botDisplayNameState, gitStatusState, rootBotProjectIdSelector } from '../../../../../recoilModel';
+import { DebugPanelTabHeaderProps } from '../types';
+
+export const SourceControlTabHeader: React.FC<DebugPanelTabHeaderProps> = () => {
+  const rootBotId = useRecoilValue(rootBotProjectIdSelector) ?? '';
+  const { changes } = useRecoilValue(gitStatusState(rootBotId));
+  const botName = useRecoilValue(botDisplayNameState(rootBotId));
+
+  return (
+    <div
+      css={{
+        display: 'flex',
+        flexDirection: 'row',
+        alignItems: 'center',
+      }}
+      data-testid="Tab-SourceControl"
+    >
+      <div
+        css={{
+          marginRight: '4px',
+        }}
+      >
+        {/* the skills have their own history, the count is the one of the root bot */}
+        {changes.length
+          ? formatMessage('Source control ({count} in {botName})', { count: changes.length, botName })
+          : formatMessage('Source control')}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,16 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import formatMessage from 'format-message';
+
+import { TabExtensionConfig, SourceControlTabKey } from '../types';
+
+import { SourceControlTabContent } from './SourceControlTabContent';
+import { SourceControlTabHeader } from './SourceControlTabHeader';
+
+export const SourceControlTabConfig: TabExtensionConfig = {
+  key: SourceControlTabKey,
+  description: () => formatMessage('Source control tab which shows the history of the bot project.'),
+  HeaderWidget: SourceControlTabHeader,
+  ContentWidget: SourceControlTabContent,
+};
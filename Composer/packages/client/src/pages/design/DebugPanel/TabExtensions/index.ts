@@ -5,11 +5,13 @@ import { TabExtensionConfig } from './types';
 import { DiagnosticsTabConfig } from './DiagnosticsTab';
 import { WebChatLogTabConfig } from './WebChatLog/config';
 import { RuntimeOutputTabConfig } from './RuntimeOutputLog';
+import { SourceControlTabConfig } from './SourceControl';
 
 const implementedDebugExtensions: TabExtensionConfig[] = [
   DiagnosticsTabConfig,
   WebChatLogTabConfig,
   RuntimeOutputTabConfig,
+  SourceControlTabConfig,
 ];
 
 export default implementedDebugExtensions;
@@ -6,8 +6,13 @@ import { FC } from 'react';
 export const DiagnosticsTabKey = 'Diagnostics';
 export const WebChatInspectorTabKey = 'WebChatInspector';
 export const RuntimeLogTabKey = 'RuntimeLog';
+export const SourceControlTabKey = 'SourceControl';
 
-export type DebugDrawerKeys = typeof DiagnosticsTabKey | typeof WebChatInspectorTabKey | typeof RuntimeLogTabKey;
+export type DebugDrawerKeys =
+  | typeof DiagnosticsTabKey
+  | typeof WebChatInspectorTabKey
+  | typeof RuntimeLogTabKey
+  | typeof SourceControlTabKey;
 
 export type DebugPanelTabHeaderProps = {
   isActive: boolean;
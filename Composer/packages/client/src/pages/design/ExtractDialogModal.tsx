@@ -0,0 +1,113 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+import React, { useCallback } from 'react';
+import formatMessage from 'format-message';
+import { PrimaryButton, DefaultButton } from 'office-ui-fabric-react/lib/Button';
+import { DialogFooter } from 'office-ui-fabric-react/lib/Dialog';
+import { Stack, StackItem } from 'office-ui-fabric-react/lib/Stack';
+import { TextField } from 'office-ui-fabric-react/lib/TextField';
+import { useRecoilValue } from 'recoil';
+import { DialogUtils } from '@bfc/shared';
+import { DialogWrapper, DialogTypes } from '@bfc/ui-shared';
+
+import { DialogCreationCopy } from '../../constants';
+import { FieldConfig, useForm } from '../../hooks/useForm';
+import { botDisplayNameState, dialogsSelectorFamily } from '../../recoilModel';
+
+import { name, styles as wizardStyles } from './styles';
+
+interface ExtractDialogFormData {
+  name: string;
+}
+
+interface ExtractDialogModalProps {
+  onSubmit: (dialogName: string) => void;
+  onDismiss: () => void;
+  isOpen: boolean;
+  projectId: string;
+}
+
+/**
+ * Asks for the name of the new dialog the selected triggers or actions are extracted to.
+ */
+export const ExtractDialogModal: React.FC<ExtractDialogModalProps> = (props) => {
+  const { onSubmit, onDismiss, isOpen, projectId } = props;
+
+  const dialogs = useRecoilValue(dialogsSelectorFamily(projectId));
+  const botName = useRecoilValue(botDisplayNameState(projectId));
+
+  const formConfig: FieldConfig<ExtractDialogFormData> = {
+    name: {
+      required: true,
+      validate: (value) => {
+        try {
+          DialogUtils.validateDialogName(value);
+        } catch (error) {
+          return error.message;
+        }
+
+        if (dialogs.some((dialog) => dialog.id.toLowerCase() === value.toLowerCase())) {
+          return formatMessage('Duplicate dialog name');
+        }
+
+        if (botName.toLowerCase() === value.toLowerCase()) {
+          return formatMessage('Duplicate root dialog name');
+        }
+      },
+      defaultValue: '',
+    },
+  };
+
+  const { formData, formErrors, hasErrors, updateField } = useForm(formConfig);
+
+  const handleSubmit = useCallback(
+    (e) => {
+      e.preventDefault();
+      if (hasErrors || !formData.name) {
+        return;
+      }
+
+      onSubmit(formData.name);
+    },
+    [hasErrors, formData]
+  );
+
+  return (
+    <DialogWrapper
+      isOpen={isOpen}
+      onDismiss={onDismiss}
+      {...DialogCreationCopy.EXTRACT_DIALOG}
+      dialogType={DialogTypes.DesignFlow}
+    >
+      <form onSubmit={handleSubmit}>
+        <input style={{ display: 'none' }} type="submit" />
+        <Stack styles={wizardStyles.stackinput} tokens={{ childrenGap: '2rem' }}>
+          <StackItem grow={0} styles={wizardStyles.halfstack}>
+            <TextField
+              autoFocus
+              required
+              data-testid="ExtractDialogName"
+              errorMessage={formErrors.name}
+              label={formatMessage('Name')}
+              styles={name}
+              value={formData.name}
+              onChange={(_e, val) => updateField('name', val)}
+            />
+          </StackItem>
+        </Stack>
+
+        <DialogFooter>
+          <DefaultButton text={formatMessage('Cancel')} onClick={onDismiss} />
+          <PrimaryButton
+            data-testid="SubmitExtractDialogBtn"
+            disabled={hasErrors || formData.name === ''}
+            text={formatMessage('OK')}
+            onClick={handleSubmit}
+          />
+        </DialogFooter>
+      </form>
+    </DialogWrapper>
+  );
+};
+
+export default ExtractDialogModal;
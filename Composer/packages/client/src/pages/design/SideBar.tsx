@@ -8,7 +8,7 @@ import { Diagnostic } from '@bfc/shared';
 import { useRecoilValue } from 'recoil';
 import { OpenConfirmModal, dialogStyle } from '@bfc/ui-shared';
 import { useSetRecoilState } from 'recoil';
-import React from 'react';
+import React, { useState } from 'react';
 
 import { DialogDeleting, removeSkillDialog } from '../../constants';
 import { createSelectedPath, deleteTrigger as DialogdeleteTrigger } from '../../utils/dialogUtil';
@@ -34,7 +34,9 @@ import { useBotOperations } from '../../components/BotRuntimeController/useBotOp
 import { exportSkillModalInfoState } from '../../recoilModel/atoms/appState';
 import TelemetryClient from '../../telemetry/TelemetryClient';
 import { TreeLink } from '../../components/ProjectTree/types';
+import { BulkEditItem } from '../../recoilModel/types';
 
+import { ExtractDialogModal } from './ExtractDialogModal';
 import { deleteDialogContent, removeSkillDialogContentStyle, removeSkillDialogStyle } from './styles';
 
 function onRenderContent(subTitle, style) {
@@ -59,6 +61,9 @@ function getAllRef(targetId, dialogs) {
   return refs;
 }
 
+const toBulkEditItems = (links: TreeLink[]): BulkEditItem[] =>
+  links.map(({ dialogId = '', trigger }) => ({ dialogId, triggerIndex: trigger }));
+
 const parseTriggerId = (triggerId: string | undefined): number | undefined => {
   if (triggerId == null) return undefined;
   const indexString = triggerId.match(/\d+/)?.[0];
@@ -90,7 +95,12 @@ const SideBar: React.FC<SideBarProps> = React.memo(({ projectId }) => {
     removeSkillFromBotProject,
     updateZoomRate,
     deleteTrigger,
+    deleteTreeItems,
+    duplicateTreeItems,
+    moveTriggersToDialog,
+    extractTriggersToDialog,
   } = useRecoilValue(dispatcherState);
+  const [extractingTriggers, setExtractingTriggers] = useState<{ projectId: string; links: TreeLink[] } | null>(null);
   const skillUsedInBotsMap = useRecoilValue(skillUsedInBotsSelector);
   const selected = decodeDesignerPathToArrayPath(
     dialogs.find((x) => x.id === dialogId)?.content,
@@ -223,6 +233,46 @@ const SideBar: React.FC<SideBarProps> = React.memo(({ projectId }) => {
     }
   }
 
+  // the trigger indexes of the open dialog change with a bulk edit, it is opened again without a selected trigger
+  async function leaveEditedDialog(targetProjectId: string, links: TreeLink[], removesDialogs = false) {
+    const editedLinks = links.filter((link) => link.dialogId === dialogId);
+    if (targetProjectId !== projectId || !editedLinks.length) return;
+
+    const isRemoved = removesDialogs && editedLinks.some((link) => link.trigger == null);
+    const rootDialogId = dialogs.find((dialog) => dialog.isRoot)?.id ?? null;
+    await navTo(projectId, isRemoved ? rootDialogId : dialogId);
+  }
+
+  async function handleBulkDelete(projectId: string, links: TreeLink[]) {
+    const result = await OpenConfirmModal(
+      formatMessage(
+        'This will delete {count, plural, =1 {the selected item} other {the # selected items}} and their contents. Do you wish to continue?',
+        { count: links.length }
+      ),
+      '',
+      { confirmBtnText: formatMessage('Yes'), cancelBtnText: formatMessage('Cancel') }
+    );
+    if (!result) return;
+
+    await leaveEditedDialog(projectId, links, true);
+    await deleteTreeItems(projectId, toBulkEditItems(links));
+  }
+
+  async function handleBulkMoveTriggers(projectId: string, links: TreeLink[], toDialogId: string) {
+    await leaveEditedDialog(projectId, links);
+    await moveTriggersToDialog(projectId, toBulkEditItems(links), toDialogId);
+  }
+
+  async function handleExtractTriggersSubmit(dialogName: string) {
+    if (!extractingTriggers) return;
+    const { projectId, links } = extractingTriggers;
+    setExtractingTriggers(null);
+
+    await leaveEditedDialog(projectId, links);
+    await extractTriggersToDialog(projectId, toBulkEditItems(links), dialogName);
+    navTo(projectId, dialogName);
+  }
+
   const handleCreateDialog = (projectId: string) => {
     createDialogBegin([], onCreateDialogComplete(projectId), projectId);
     setDialogModalInfo(projectId);
@@ -268,30 +318,44 @@ const SideBar: React.FC<SideBarProps> = React.memo(({ projectId }) => {
   const selectedTrigger = currentDialog?.triggers.find((t) => t.id === selected);
 
   return (
-    <ProjectTree
-      headerAriaLabel={formatMessage('Filter by dialog or trigger name')}
-      headerMenu={projectTreeHeaderMenuItems}
-      headerPlaceholder={formatMessage('Filter by dialog or trigger name')}
-      selectedLink={{
-        projectId: rootProjectId,
-        skillId: rootProjectId === projectId ? undefined : projectId,
-        dialogId,
-        trigger: parseTriggerId(selectedTrigger?.id),
-      }}
-      onBotCreateDialog={handleCreateDialog}
-      onBotDeleteDialog={handleDeleteDialog}
-      onBotEditManifest={handleDisplayManifestModal}
-      onBotExportZip={exportToZip}
-      onBotRemoveSkill={handleRemoveSkill}
-      onBotStart={startSingleBot}
-      onBotStop={stopSingleBot}
-      onDialogCreateTrigger={(projectId, dialogId) => {
-        setTriggerModalInfo({ projectId, dialogId });
-      }}
-      onDialogDeleteTrigger={handleDeleteTrigger}
-      onErrorClick={handleErrorClick}
-      onSelect={handleSelect}
-    />
+    <React.Fragment>
+      <ProjectTree
+        headerAriaLabel={formatMessage('Filter by dialog or trigger name')}
+        headerMenu={projectTreeHeaderMenuItems}
+        headerPlaceholder={formatMessage('Filter by dialog or trigger name')}
+        selectedLink={{
+          projectId: rootProjectId,
+          skillId: rootProjectId === projectId ? undefined : projectId,
+          dialogId,
+          trigger: parseTriggerId(selectedTrigger?.id),
+        }}
+        onBotCreateDialog={handleCreateDialog}
+        onBotDeleteDialog={handleDeleteDialog}
+        onBotEditManifest={handleDisplayManifestModal}
+        onBotExportZip={exportToZip}
+        onBotRemoveSkill={handleRemoveSkill}
+        onBotStart={startSingleBot}
+        onBotStop={stopSingleBot}
+        onBulkDelete={handleBulkDelete}
+        onBulkDuplicate={(projectId, links) => duplicateTreeItems(projectId, toBulkEditItems(links))}
+        onBulkExtractTriggers={(projectId, links) => setExtractingTriggers({ projectId, links })}
+        onBulkMoveTriggers={handleBulkMoveTriggers}
+        onDialogCreateTrigger={(projectId, dialogId) => {
+          setTriggerModalInfo({ projectId, dialogId });
+        }}
+        onDialogDeleteTrigger={handleDeleteTrigger}
+        onErrorClick={handleErrorClick}
+        onSelect={handleSelect}
+      />
+      {extractingTriggers && (
+        <ExtractDialogModal
+          isOpen
+          projectId={extractingTriggers.projectId}
+          onDismiss={() => setExtractingTriggers(null)}
+          onSubmit={handleExtractTriggersSubmit}
+        />
+      )}
+    </React.Fragment>
   );
 });
 
@@ -0,0 +1,146 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { css, jsx } from '@emotion/core';
+import React, { useState } from 'react';
+import formatMessage from 'format-message';
+import { DefaultButton, IconButton } from 'office-ui-fabric-react/lib/Button';
+import { Panel, PanelType } from 'office-ui-fabric-react/lib/Panel';
+import { TextField } from 'office-ui-fabric-react/lib/TextField';
+import { FontWeights } from 'office-ui-fabric-react/lib/Styling';
+import { FontSizes, NeutralColors, SharedColors } from '@uifabric/fluent-theme';
+import { useRecoilValue } from 'recoil';
+
+import { undoFunctionState, undoRecordsState } from '../../recoilModel/undo/history';
+
+const styles = {
+  checkpointForm: css`
+    display: flex;
+    align-items: flex-end;
+    margin-bottom: 16px;
+    & > div:first-of-type {
+      flex: 1;
+      margin-right: 8px;
+    }
+  `,
+  list: css`
+    list-style: none;
+    margin: 0;
+    padding: 0;
+  `,
+  item: css`
+    display: flex;
+    align-items: center;
+    border-left: 3px solid transparent;
+    padding: 6px 8px;
+    &:hover {
+      background: ${NeutralColors.gray20};
+    }
+  `,
+  present: css`
+    background: ${NeutralColors.gray30};
+    border-left-color: ${SharedColors.cyanBlue10};
+  `,
+  undone: css`
+    color: ${NeutralColors.gray110};
+  `,
+  text: css`
+    flex: 1;
+    cursor: pointer;
+    font-size: ${FontSizes.size14};
+  `,
+  time: css`
+    font-size: ${FontSizes.size12};
+    color: ${NeutralColors.gray130};
+  `,
+  checkpoint: css`
+    font-size: ${FontSizes.size12};
+    font-weight: ${FontWeights.semibold};
+    color: ${SharedColors.cyanBlue10};
+  `,
+};
+
+type UndoHistoryPanelProps = {
+  isOpen: boolean;
+  projectId: string;
+  onDismiss: () => void;
+};
+
+/**
+ * Lists the changes of the undo history, newest first, to go back or forward to any of them and to name checkpoints.
+ */
+export const UndoHistoryPanel: React.FC<UndoHistoryPanelProps> = ({ isOpen, projectId, onDismiss }) => {
+  const { records, present } = useRecoilValue(undoRecordsState(projectId));
+  const { jumpTo, setCheckpoint } = useRecoilValue(undoFunctionState(projectId));
+  const [checkpointName, setCheckpointName] = useState('');
+
+  const onCreateCheckpoint = () => {
+    if (!checkpointName.trim() || present < 0) return;
+    setCheckpoint(present, checkpointName);
+    setCheckpointName('');
+  };
+
+  return (
+    <Panel
+      isLightDismiss
+      closeButtonAriaLabel={formatMessage('Close')}
+      headerText={formatMessage('History')}
+      isBlocking={false}
+      isOpen={isOpen}
+      type={PanelType.smallFixedFar}
+      onDismiss={onDismiss}
+    >
+      <div css={styles.checkpointForm}>
+        <TextField
+          label={formatMessage('Checkpoint')}
+          placeholder={formatMessage('Name the current state')}
+          value={checkpointName}
+          onChange={(_e, value) => setCheckpointName(value ?? '')}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') onCreateCheckpoint();
+          }}
+        />
+        <DefaultButton
+          data-testid="undo-history-checkpoint"
+          disabled={!checkpointName.trim()}
+          text={formatMessage('Create')}
+          onClick={onCreateCheckpoint}
+        />
+      </div>
+      <ul aria-label={formatMessage('Changes')} css={styles.list} data-testid="undo-history-list">
+        {records
+          .map((record, index) => ({ record, index }))
+          .reverse()
+          .map(({ record, index }) => (
+            <li
+              key={record.id}
+              aria-current={index === present}
+              css={[styles.item, index === present && styles.present, index > present && styles.undone]}
+            >
+              <div
+                css={styles.text}
+                role="button"
+                tabIndex={0}
+                onClick={() => jumpTo(index)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') jumpTo(index);
+                }}
+              >
+                {record.checkpoint && <div css={styles.checkpoint}>{record.checkpoint}</div>}
+                <div>{record.description || formatMessage('Start of the history')}</div>
+                <div css={styles.time}>{new Date(record.timestamp).toLocaleTimeString()}</div>
+              </div>
+              {record.checkpoint && (
+                <IconButton
+                  ariaLabel={formatMessage('Remove checkpoint')}
+                  iconProps={{ iconName: 'Cancel' }}
+                  onClick={() => setCheckpoint(index, '')}
+                />
+              )}
+            </li>
+          ))}
+      </ul>
+    </Panel>
+  );
+};
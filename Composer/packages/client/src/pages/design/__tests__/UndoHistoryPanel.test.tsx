@@ -0,0 +1,66 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { fireEvent } from '@botframework-composer/test-utils';
+import * as React from 'react';
+
+import { renderWithRecoil } from '../../../../__tests__/testUtils/renderWithRecoil';
+import { undoFunctionState, undoRecordsState } from '../../../recoilModel/undo/history';
+import { UndoHistoryPanel } from '../UndoHistoryPanel';
+
+const projectId = 'test';
+
+describe('<UndoHistoryPanel />', () => {
+  const jumpTo = jest.fn();
+  const setCheckpoint = jest.fn();
+
+  const initRecoilState = ({ set }) => {
+    set(undoFunctionState(projectId), {
+      undo: jest.fn(),
+      redo: jest.fn(),
+      commitChanges: jest.fn(),
+      clearUndo: jest.fn(),
+      jumpTo,
+      setCheckpoint,
+    });
+    set(undoRecordsState(projectId), {
+      present: 1,
+      records: [
+        { id: '1', description: '', timestamp: 0 },
+        { id: '2', description: 'Added dialog Help', timestamp: 0, checkpoint: 'Help' },
+        { id: '3', description: 'Deleted dialog Help', timestamp: 0 },
+      ],
+    });
+  };
+
+  beforeEach(() => {
+    jumpTo.mockClear();
+    setCheckpoint.mockClear();
+  });
+
+  it('lists the changes newest first and goes to the clicked one', () => {
+    const { getByTestId, getByText } = renderWithRecoil(
+      <UndoHistoryPanel isOpen projectId={projectId} onDismiss={jest.fn()} />,
+      initRecoilState
+    );
+
+    const items = getByTestId('undo-history-list').querySelectorAll('li');
+    expect(Array.from(items).map((item) => item.getAttribute('aria-current'))).toEqual(['false', 'true', 'false']);
+    getByText('Start of the history');
+    getByText('Help');
+
+    fireEvent.click(getByText('Deleted dialog Help'));
+    expect(jumpTo).toHaveBeenCalledWith(2);
+  });
+
+  it('names the present change as a checkpoint', () => {
+    const { getByPlaceholderText, getByTestId } = renderWithRecoil(
+      <UndoHistoryPanel isOpen projectId={projectId} onDismiss={jest.fn()} />,
+      initRecoilState
+    );
+
+    fireEvent.change(getByPlaceholderText('Name the current state'), { target: { value: 'Before cleanup' } });
+    fireEvent.click(getByTestId('undo-history-checkpoint'));
+    expect(setCheckpoint).toHaveBeenCalledWith(1, 'Before cleanup');
+  });
+});
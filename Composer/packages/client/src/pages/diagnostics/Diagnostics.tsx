@@ -7,10 +7,11 @@ import { useState } from 'react';
 import { RouteComponentProps } from '@reach/router';
 import formatMessage from 'format-message';
 import { useRecoilValue, useSetRecoilState } from 'recoil';
+import { IToolbarItem } from '@bfc/ui-shared';
 
 import { Page } from '../../components/Page';
 import { diagnosticNavLinksSelector } from '../../recoilModel/selectors/diagnosticsPageSelector';
-import { exportSkillModalInfoState } from '../../recoilModel';
+import { dispatcherState, exportSkillModalInfoState } from '../../recoilModel';
 import { navigateTo } from '../../utils/navigation';
 
 import { DiagnosticsTable } from './DiagnosticsTable';
@@ -21,8 +22,39 @@ const Diagnostics: React.FC<RouteComponentProps<{ projectId: string; skillId: st
   const [showType, setShowType] = useState('');
   const setExportSkillModalInfo = useSetRecoilState(exportSkillModalInfoState);
   const navLinks = useRecoilValue(diagnosticNavLinksSelector);
+  const { exportDiagnostics } = useRecoilValue(dispatcherState);
   const projectId = (props.skillId ?? props.projectId) as string;
 
+  const toolbarItems: IToolbarItem[] = [
+    {
+      type: 'dropdown',
+      text: formatMessage('Export'),
+      align: 'left',
+      dataTestid: 'ExportDiagnostics',
+      buttonProps: {
+        iconProps: { iconName: 'Download' },
+      },
+      menuProps: {
+        items: [
+          {
+            key: 'export.sarif',
+            text: formatMessage('SARIF log'),
+            onClick: () => {
+              exportDiagnostics(projectId, 'sarif');
+            },
+          },
+          {
+            key: 'export.junit',
+            text: formatMessage('JUnit XML report'),
+            onClick: () => {
+              exportDiagnostics(projectId, 'junit');
+            },
+          },
+        ],
+      },
+    },
+  ];
+
   const handleItemClick = (item: IDiagnosticInfo) => {
     navigateTo(item.getUrl());
     if (item.location === 'manifest.json') {
@@ -42,7 +74,7 @@ const Diagnostics: React.FC<RouteComponentProps<{ projectId: string; skillId: st
       navRegionName={formatMessage('Diagnostics Pane')}
       pageMode={'diagnostics'}
       title={formatMessage('Diagnostics')}
-      toolbarItems={[]}
+      toolbarItems={toolbarItems}
       onRenderHeaderContent={onRenderHeaderContent}
     >
       <DiagnosticsTable projectId={projectId} showType={showType} onItemClick={handleItemClick} />
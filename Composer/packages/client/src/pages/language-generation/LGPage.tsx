@@ -3,11 +3,12 @@
 
 /** @jsx jsx */
 import { jsx } from '@emotion/core';
-import React, { Fragment, useCallback, Suspense, useEffect } from 'react';
+import React, { Fragment, useCallback, Suspense, useEffect, useState } from 'react';
 import formatMessage from 'format-message';
 import { ActionButton } from 'office-ui-fabric-react/lib/Button';
 import { RouteComponentProps, Router } from '@reach/router';
 import { useRecoilValue } from 'recoil';
+import { IToolbarItem } from '@bfc/ui-shared';
 
 import { LoadingSpinner } from '../../components/LoadingSpinner';
 import { navigateTo } from '../../utils/navigation';
@@ -31,6 +32,7 @@ const LGPage: React.FC<RouteComponentProps<{
   const path = props.location?.pathname ?? '';
 
   const edit = /\/edit(\/)?$/.test(path);
+  const [playgroundVisible, setPlaygroundVisible] = useState(false);
 
   const baseURL = skillId == null ? `/bot/${projectId}/` : `/bot/${projectId}/skill/${skillId}/`;
 
@@ -55,6 +57,21 @@ const LGPage: React.FC<RouteComponentProps<{
     [dialogId, projectId, edit, lgFileId, baseURL]
   );
 
+  const toolbarItems: IToolbarItem[] = edit
+    ? [
+        {
+          type: 'action',
+          text: playgroundVisible ? formatMessage('Hide template test') : formatMessage('Test template'),
+          buttonProps: {
+            iconProps: { iconName: 'TestBeaker' },
+            onClick: () => setPlaygroundVisible(!playgroundVisible),
+          },
+          align: 'left',
+          dataTestid: 'TestTemplate',
+        },
+      ]
+    : [];
+
   const onRenderHeaderContent = () => {
     return (
       <ActionButton data-testid="showcode" onClick={onToggleEditMode}>
@@ -77,7 +94,7 @@ const LGPage: React.FC<RouteComponentProps<{
       projectId={projectId}
       skillId={skillId}
       title={formatMessage('Bot Responses')}
-      toolbarItems={[]}
+      toolbarItems={toolbarItems}
       onRenderHeaderContent={onRenderHeaderContent}
     >
       <Suspense fallback={<LoadingSpinner />}>
@@ -88,6 +105,7 @@ const LGPage: React.FC<RouteComponentProps<{
             lgFileId={lgFileId}
             path="/edit/*"
             projectId={projectId}
+            showPlayground={playgroundVisible}
             skillId={skillId}
           />
           <TableView
@@ -7,12 +7,12 @@ import { EditorDidMount, LgCodeEditor } from '@bfc/code-editor';
 import { LgFile } from '@bfc/extension-client';
 import { filterTemplateDiagnostics } from '@bfc/indexers';
 import { CodeEditorSettings } from '@bfc/shared';
-import { jsx } from '@emotion/core';
+import { jsx, css } from '@emotion/core';
 import { RouteComponentProps } from '@reach/router';
 import debounce from 'lodash/debounce';
 import get from 'lodash/get';
 import querystring from 'query-string';
-import React, { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useRecoilValue } from 'recoil';
 
 import { dispatcherState, userSettingsState } from '../../recoilModel';
@@ -23,18 +23,32 @@ import TelemetryClient from '../../telemetry/TelemetryClient';
 import { navigateTo } from '../../utils/navigation';
 import { DiffCodeEditor } from '../language-understanding/diff-editor';
 
+import { TemplatePlayground } from './template-playground';
+
 const lspServerPath = '/lg-language-server';
 
+const editorContainer = css`
+  display: flex;
+  height: 100%;
+`;
+
+const editorContent = css`
+  flex: 1;
+  min-width: 0;
+  height: 100%;
+`;
+
 interface CodeEditorProps extends RouteComponentProps<{}> {
   dialogId: string;
   projectId: string;
   skillId?: string;
   lgFileId?: string;
   file?: LgFile;
+  showPlayground?: boolean;
 }
 
 const CodeEditor: React.FC<CodeEditorProps> = (props) => {
-  const { dialogId, projectId, skillId, lgFileId, file } = props;
+  const { dialogId, projectId, skillId, lgFileId, file, showPlayground } = props;
   const actualProjectId = skillId ?? projectId;
 
   const userSettings = useRecoilValue(userSettingsState);
@@ -48,6 +62,7 @@ const CodeEditor: React.FC<CodeEditorProps> = (props) => {
   const {
     updateLgTemplate: updateLgTemplateDispatcher,
     updateLgFile: updateLgFileDispatcher,
+    renameLgTemplateInProject,
     updateUserSettings,
     setLocale,
   } = useRecoilValue(dispatcherState);
@@ -60,6 +75,7 @@ const CodeEditor: React.FC<CodeEditorProps> = (props) => {
   const [errorMsg, setErrorMsg] = useState('');
   const [lgEditor, setLgEditor] = useState<any>(null);
   const [memoryVariables, setMemoryVariables] = useState<string[] | undefined>();
+  const [playgroundTemplateName, setPlaygroundTemplateName] = useState<string | undefined>();
 
   const search = props.location?.search ?? '';
   const searchTemplateName = querystring.parse(search).t;
@@ -104,6 +120,28 @@ const CodeEditor: React.FC<CodeEditorProps> = (props) => {
     };
   }, [projectId]);
 
+  useEffect(() => {
+    setPlaygroundTemplateName(template?.name);
+  }, [template?.name]);
+
+  useEffect(() => {
+    if (!lgEditor || inlineMode) return;
+
+    // test the template under the cursor in the playground
+    const disposable = lgEditor.onDidChangeCursorPosition(({ position }) => {
+      const cursorTemplate = file?.templates.find(
+        ({ range }) => range && range.start.line <= position.lineNumber && position.lineNumber <= range.end.line
+      );
+      if (cursorTemplate) {
+        setPlaygroundTemplateName(cursorTemplate.name);
+      }
+    });
+
+    return () => {
+      disposable.dispose();
+    };
+  }, [lgEditor, file, inlineMode]);
+
   useEffect(() => {
     if (lgEditor) {
       window.requestAnimationFrame(() => {
@@ -213,6 +251,7 @@ const CodeEditor: React.FC<CodeEditorProps> = (props) => {
         onChange={onChange}
         onChangeSettings={handleSettingsChange}
         onNavigateToLgPage={navigateToLgPage}
+        onRenameTemplate={renameLgTemplateInProject}
       />
     );
   }, [lgOption, userSettings.codeEditor]);
@@ -235,20 +274,32 @@ const CodeEditor: React.FC<CodeEditorProps> = (props) => {
   );
 
   return (
-    <Fragment>
-      {locale === defaultLanguage ? (
-        currentLanguageFileEditor
-      ) : (
-        <DiffCodeEditor
-          defaultLanguage={defaultLanguage}
-          languages={languages}
-          left={currentLanguageFileEditor}
-          locale={locale}
-          right={defaultLanguageFileEditor}
-          onLanguageChange={(locale) => setLocale(locale, actualProjectId)}
-        ></DiffCodeEditor>
+    <div css={editorContainer}>
+      <div css={editorContent}>
+        {locale === defaultLanguage ? (
+          currentLanguageFileEditor
+        ) : (
+          <DiffCodeEditor
+            defaultLanguage={defaultLanguage}
+            languages={languages}
+            left={currentLanguageFileEditor}
+            locale={locale}
+            right={defaultLanguageFileEditor}
+            onLanguageChange={(locale) => setLocale(locale, actualProjectId)}
+          ></DiffCodeEditor>
+        )}
+      </div>
+      {showPlayground && (
+        <TemplatePlayground
+          file={file}
+          lgFiles={lgFiles}
+          memoryVariables={memoryVariables}
+          projectId={actualProjectId}
+          templateName={playgroundTemplateName}
+          onTemplateChange={setPlaygroundTemplateName}
+        />
       )}
-    </Fragment>
+    </div>
   );
 };
 
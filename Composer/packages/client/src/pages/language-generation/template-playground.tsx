@@ -0,0 +1,180 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import React, { useEffect, useMemo, useState } from 'react';
+import formatMessage from 'format-message';
+import { JsonEditor } from '@bfc/code-editor';
+import { LgFile, LgTemplateEvaluation } from '@bfc/shared';
+import { NeutralColors } from '@uifabric/fluent-theme';
+import { Dropdown, IDropdownOption } from 'office-ui-fabric-react/lib/Dropdown';
+import { Label } from 'office-ui-fabric-react/lib/Label';
+import { MessageBar, MessageBarType } from 'office-ui-fabric-react/lib/MessageBar';
+import has from 'lodash/has';
+import set from 'lodash/set';
+import { useRecoilValue } from 'recoil';
+
+import { userSettingsState } from '../../recoilModel';
+import lgWorker from '../../recoilModel/parsers/lgWorker';
+
+const memoryScopes = ['user', 'conversation', 'dialog', 'turn'];
+
+const playground = css`
+  width: 400px;
+  flex-shrink: 0;
+  height: 100%;
+  overflow-y: auto;
+  padding: 0 12px;
+  box-sizing: border-box;
+  border-left: 1px solid ${NeutralColors.gray30};
+`;
+
+const section = css`
+  margin-bottom: 12px;
+`;
+
+const output = css`
+  margin: 0 0 4px;
+  padding: 4px 8px;
+  white-space: pre-wrap;
+  word-break: break-word;
+  font-family: Consolas, monospace;
+  font-size: 12px;
+  background: ${NeutralColors.gray10};
+`;
+
+/**
+ * Memory with the paths of the user, conversation, dialog and turn scopes, e.g. user.name => { user: { name: null } }.
+ */
+export const createMemory = (memoryVariables: string[]) =>
+  memoryVariables
+    .filter((path) => memoryScopes.includes(path.split('.')[0]))
+    .sort()
+    .reduce((memory: Record<string, unknown>, path) => {
+      if (!has(memory, path)) {
+        set(memory, path, null);
+      }
+      return memory;
+    }, {});
+
+const toText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+
+interface TemplatePlaygroundProps {
+  projectId: string;
+  file?: LgFile;
+  lgFiles: LgFile[];
+  templateName?: string;
+  memoryVariables?: string[];
+  onTemplateChange: (templateName: string) => void;
+}
+
+export const TemplatePlayground: React.FC<TemplatePlaygroundProps> = (props) => {
+  const { projectId, file, lgFiles, templateName, memoryVariables, onTemplateChange } = props;
+  const userSettings = useRecoilValue(userSettingsState);
+  const [memory, setMemory] = useState<Record<string, unknown>>({});
+  const [evaluation, setEvaluation] = useState<LgTemplateEvaluation | undefined>();
+
+  useEffect(() => {
+    setMemory(createMemory(memoryVariables ?? []));
+  }, [memoryVariables]);
+
+  useEffect(() => {
+    if (!file || !templateName) {
+      setEvaluation(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = (await lgWorker.evaluateTemplate(
+          projectId,
+          file,
+          templateName,
+          memory,
+          lgFiles
+        )) as LgTemplateEvaluation;
+        if (!cancelled) setEvaluation(result);
+      } catch (error) {
+        if (!cancelled) setEvaluation({ variations: [], errors: [String(error?.message ?? error)] });
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [projectId, file, lgFiles, templateName, memory]);
+
+  const templateOptions: IDropdownOption[] = useMemo(
+    () => (file?.allTemplates ?? []).map(({ name }) => ({ key: name, text: name })),
+    [file?.allTemplates]
+  );
+
+  const activity = evaluation?.activity;
+
+  return (
+    <div aria-label={formatMessage('Test template')} css={playground} data-testid="TemplatePlayground" role="region">
+      <Dropdown
+        label={formatMessage('Template')}
+        options={templateOptions}
+        placeholder={formatMessage('Select a template')}
+        selectedKey={templateName ?? null}
+        onChange={(_e, option) => option && onTemplateChange(option.key as string)}
+      />
+      <div css={section}>
+        <Label>{formatMessage('Memory')}</Label>
+        <JsonEditor
+          editorSettings={userSettings.codeEditor}
+          height={240}
+          id="lg-playground-memory"
+          value={memory}
+          onChange={(data) => setMemory(data && typeof data === 'object' ? data : {})}
+        />
+      </div>
+      {evaluation && (
+        <React.Fragment>
+          {evaluation.errors.map((error) => (
+            <MessageBar key={error} isMultiline css={section} messageBarType={MessageBarType.error}>
+              {error}
+            </MessageBar>
+          ))}
+          {activity && (
+            <div css={section} data-testid="TemplatePlaygroundActivity">
+              <Label>{formatMessage('Activity')}</Label>
+              {activity.text !== undefined && <pre css={output}>{toText(activity.text)}</pre>}
+              {activity.speak !== undefined && (
+                <pre css={output}>{formatMessage('Speak: {speak}', { speak: toText(activity.speak) })}</pre>
+              )}
+              {activity.suggestedActions.length > 0 && (
+                <pre css={output}>
+                  {formatMessage('Suggested actions: {actions}', {
+                    actions: activity.suggestedActions.map(toText).join(' | '),
+                  })}
+                </pre>
+              )}
+              {activity.attachments.map((attachment, index) => (
+                <pre key={index} css={output}>
+                  {toText(attachment)}
+                </pre>
+              ))}
+            </div>
+          )}
+          <div css={section} data-testid="TemplatePlaygroundVariations">
+            <Label>
+              {formatMessage('{count, plural, =1 {1 variation} other {# variations}}', {
+                count: evaluation.variations.length,
+              })}
+            </Label>
+            {evaluation.variations.map((variation, index) => (
+              <pre key={index} css={output}>
+                {toText(variation)}
+              </pre>
+            ))}
+          </div>
+        </React.Fragment>
+      )}
+    </div>
+  );
+};
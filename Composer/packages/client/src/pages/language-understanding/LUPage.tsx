@@ -7,6 +7,7 @@ import formatMessage from 'format-message';
 import { ActionButton } from 'office-ui-fabric-react/lib/Button';
 import { RouteComponentProps, Router } from '@reach/router';
 import { useRecoilValue } from 'recoil';
+import { IToolbarItem } from '@bfc/ui-shared';
 
 import { navigateTo, buildURL } from '../../utils/navigation';
 import { LoadingSpinner } from '../../components/LoadingSpinner';
@@ -14,6 +15,9 @@ import { Page } from '../../components/Page';
 import { localeState, luFilesSelectorFamily } from '../../recoilModel';
 
 import TableView from './table-view';
+import CoverageReport from './coverage-report';
+import RecognizerSandbox from './recognizer-sandbox';
+import LuTests from './lu-tests';
 
 const CodeEditor = React.lazy(() => import('./code-editor'));
 
@@ -30,6 +34,9 @@ const LUPage: React.FC<RouteComponentProps<{
 
   const path = props.location?.pathname ?? '';
   const edit = /\/edit(\/)?$/.test(path);
+  const coverage = /\/coverage(\/)?$/.test(path);
+  const recognize = /\/recognize(\/)?$/.test(path);
+  const tests = /\/tests(\/)?$/.test(path);
   const isRoot = dialogId === 'all';
 
   const activeFile = luFileId
@@ -37,10 +44,11 @@ const LUPage: React.FC<RouteComponentProps<{
     : luFiles.find(({ id }) => id === dialogId || id === `${dialogId}.${locale}`);
 
   useEffect(() => {
-    if (!activeFile && luFiles.length) {
+    // the coverage report, the recognizer sandbox and the LU tests are about all the dialogs, including at the root
+    if (!activeFile && luFiles.length && !coverage && !recognize && !tests) {
       navigateTo(buildURL('language-understanding', { projectId, skillId }));
     }
-  }, [dialogId, luFiles, projectId, luFileId]);
+  }, [dialogId, luFiles, projectId, luFileId, coverage, recognize, tests]);
 
   const onToggleEditMode = useCallback(() => {
     let url = buildURL('language-understanding', { projectId, skillId, dialogId });
@@ -49,8 +57,46 @@ const LUPage: React.FC<RouteComponentProps<{
     navigateTo(url);
   }, [dialogId, projectId, luFileId, edit]);
 
+  const onToggleView = (view: string, visible: boolean) => {
+    const url = buildURL('language-understanding', { projectId, skillId, dialogId });
+    navigateTo(visible ? url : `${url}/${view}`);
+  };
+
+  const toolbarItems: IToolbarItem[] = [
+    {
+      type: 'action',
+      text: coverage ? formatMessage('Hide utterance coverage') : formatMessage('Utterance coverage'),
+      buttonProps: {
+        iconProps: { iconName: 'BarChartVertical' },
+        onClick: () => onToggleView('coverage', coverage),
+      },
+      align: 'left',
+      dataTestid: 'UtteranceCoverage',
+    },
+    {
+      type: 'action',
+      text: recognize ? formatMessage('Hide utterance test') : formatMessage('Test utterances'),
+      buttonProps: {
+        iconProps: { iconName: 'TestBeaker' },
+        onClick: () => onToggleView('recognize', recognize),
+      },
+      align: 'left',
+      dataTestid: 'RecognizerSandbox',
+    },
+    {
+      type: 'action',
+      text: tests ? formatMessage('Hide LU tests') : formatMessage('LU tests'),
+      buttonProps: {
+        iconProps: { iconName: 'TestPlan' },
+        onClick: () => onToggleView('tests', tests),
+      },
+      align: 'left',
+      dataTestid: 'LuTests',
+    },
+  ];
+
   const onRenderHeaderContent = () => {
-    if (!isRoot) {
+    if (!isRoot && !coverage && !recognize && !tests) {
       return (
         <ActionButton data-testid="showcode" onClick={onToggleEditMode}>
           {edit ? formatMessage('Hide code') : formatMessage('Show code')}
@@ -73,7 +119,7 @@ const LUPage: React.FC<RouteComponentProps<{
       projectId={projectId}
       skillId={skillId}
       title={formatMessage('User Input')}
-      toolbarItems={[]}
+      toolbarItems={toolbarItems}
       onRenderHeaderContent={onRenderHeaderContent}
     >
       <Suspense fallback={<LoadingSpinner />}>
@@ -86,6 +132,9 @@ const LUPage: React.FC<RouteComponentProps<{
             projectId={projectId}
             skillId={skillId}
           />
+          <CoverageReport path="/coverage" projectId={projectId} skillId={skillId} />
+          <RecognizerSandbox path="/recognize" projectId={projectId} skillId={skillId} />
+          <LuTests path="/tests" projectId={projectId} skillId={skillId} />
           <TableView
             dialogId={dialogId}
             file={activeFile}
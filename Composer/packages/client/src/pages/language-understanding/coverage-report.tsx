@@ -0,0 +1,229 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/* eslint-disable react/display-name */
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import React, { useMemo, useState } from 'react';
+import formatMessage from 'format-message';
+import { DetailsList, DetailsListLayoutMode, IColumn, SelectionMode } from 'office-ui-fabric-react/lib/DetailsList';
+import { Link } from 'office-ui-fabric-react/lib/Link';
+import { ScrollablePane, ScrollbarVisibility } from 'office-ui-fabric-react/lib/ScrollablePane';
+import { FontSizes } from '@uifabric/fluent-theme';
+import { FontWeights } from 'office-ui-fabric-react/lib/Styling';
+import { RouteComponentProps } from '@reach/router';
+import { useRecoilValue } from 'recoil';
+import { IntentCoverage, UtteranceConflict } from '@bfc/shared';
+
+import { getBaseName, getExtension } from '../../utils/fileUtil';
+import { navigateTo } from '../../utils/navigation';
+import { localeState, utteranceCoverageState } from '../../recoilModel';
+
+import { tableCell } from './styles';
+
+const sectionTitle = css`
+  font-size: ${FontSizes.size16};
+  font-weight: ${FontWeights.semibold};
+  margin: 16px 0 0 16px;
+`;
+
+type Sort = { key: string; descending: boolean };
+
+type ConflictItem = {
+  type: UtteranceConflict['type'];
+  similarity: number;
+  text: string;
+  intent: string;
+  otherText: string;
+  otherIntent: string;
+};
+
+const sortItems = <T extends {}>(items: T[], { key, descending }: Sort): T[] =>
+  [...items].sort((a, b) => {
+    const x = a[key];
+    const y = b[key];
+    const order = typeof x === 'string' ? x.localeCompare(y) : Number(x) - Number(y);
+    return descending ? -order : order;
+  });
+
+const getIssues = ({ tooFewUtterances, unbalanced, conflicts }: IntentCoverage) =>
+  [
+    tooFewUtterances && formatMessage('Too few utterances'),
+    unbalanced && formatMessage('Unbalanced'),
+    conflicts > 0 && formatMessage('Conflicting utterances'),
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+type SortableListProps<T> = { columns: IColumn[]; items: T[]; initialSort: Sort; testId: string };
+
+const SortableList = <T extends {}>(props: SortableListProps<T>) => {
+  const { columns, items, initialSort, testId } = props;
+  const [sort, setSort] = useState<Sort>(initialSort);
+
+  const sortedItems = useMemo(() => sortItems(items, sort), [items, sort]);
+
+  return (
+    <div data-testid={testId}>
+      <DetailsList
+        columns={columns.map((column) => ({
+          ...column,
+          isSorted: column.key === sort.key,
+          isSortedDescending: column.key === sort.key && sort.descending,
+        }))}
+        items={sortedItems}
+        layoutMode={DetailsListLayoutMode.justified}
+        selectionMode={SelectionMode.none}
+        onColumnHeaderClick={(_e, column) => {
+          if (!column) return;
+          setSort({ key: column.key, descending: column.key === sort.key ? !sort.descending : false });
+        }}
+      />
+    </div>
+  );
+};
+
+interface CoverageReportProps extends RouteComponentProps<{}> {
+  projectId: string;
+  skillId?: string;
+}
+
+const CoverageReport: React.FC<CoverageReportProps> = (props) => {
+  const { projectId, skillId } = props;
+  const actualProjectId = skillId ?? projectId;
+  const baseURL = skillId == null ? `/bot/${projectId}/` : `/bot/${projectId}/skill/${skillId}/`;
+
+  const locale = useRecoilValue(localeState(actualProjectId));
+  const report = useRecoilValue(utteranceCoverageState(actualProjectId));
+
+  const intents = useMemo(() => (report?.intents ?? []).filter(({ id }) => getExtension(id) === locale), [
+    report,
+    locale,
+  ]);
+
+  const conflicts: ConflictItem[] = useMemo(
+    () =>
+      (report?.conflicts ?? [])
+        .filter(({ utterance }) => getExtension(utterance.id) === locale)
+        .map(({ type, similarity, utterance, other }) => ({
+          type,
+          similarity,
+          text: utterance.text,
+          intent: `${getBaseName(utterance.id)}/${utterance.intent}`,
+          otherText: other.text,
+          otherIntent: `${getBaseName(other.id)}/${other.intent}`,
+        })),
+    [report, locale]
+  );
+
+  const intentColumns: IColumn[] = [
+    {
+      key: 'id',
+      name: formatMessage('Dialog'),
+      fieldName: 'id',
+      minWidth: 100,
+      maxWidth: 200,
+      isResizable: true,
+      onRender: (item: IntentCoverage) => (
+        <div data-is-focusable css={tableCell}>
+          <Link onClick={() => navigateTo(`${baseURL}language-understanding/${getBaseName(item.id)}`)}>
+            {getBaseName(item.id)}
+          </Link>
+        </div>
+      ),
+    },
+    {
+      key: 'intent',
+      name: formatMessage('Intent'),
+      fieldName: 'intent',
+      minWidth: 100,
+      maxWidth: 200,
+      isResizable: true,
+    },
+    {
+      key: 'utterances',
+      name: formatMessage('Utterances'),
+      fieldName: 'utterances',
+      minWidth: 80,
+      maxWidth: 100,
+      isResizable: true,
+    },
+    { key: 'conflicts', name: formatMessage('Conflicts'), fieldName: 'conflicts', minWidth: 80, maxWidth: 100 },
+    {
+      key: 'issues',
+      name: formatMessage('Issues'),
+      minWidth: 150,
+      isResizable: true,
+      onRender: (item: IntentCoverage) => <span>{getIssues(item)}</span>,
+    },
+  ];
+
+  const conflictColumns: IColumn[] = [
+    {
+      key: 'type',
+      name: formatMessage('Type'),
+      fieldName: 'type',
+      minWidth: 80,
+      maxWidth: 100,
+      onRender: (item: ConflictItem) => (
+        <span>{item.type === 'duplicate' ? formatMessage('Duplicate') : formatMessage('Similar')}</span>
+      ),
+    },
+    { key: 'text', name: formatMessage('Utterance'), fieldName: 'text', minWidth: 150, isResizable: true },
+    { key: 'intent', name: formatMessage('Intent'), fieldName: 'intent', minWidth: 100, isResizable: true },
+    {
+      key: 'otherText',
+      name: formatMessage('Conflicting utterance'),
+      fieldName: 'otherText',
+      minWidth: 150,
+      isResizable: true,
+    },
+    { key: 'otherIntent', name: formatMessage('Other intent'), fieldName: 'otherIntent', minWidth: 100 },
+    {
+      key: 'similarity',
+      name: formatMessage('Similarity'),
+      fieldName: 'similarity',
+      minWidth: 80,
+      maxWidth: 100,
+      onRender: (item: ConflictItem) => <span>{`${Math.round(item.similarity * 100)}%`}</span>,
+    },
+  ];
+
+  if (!report) {
+    return (
+      <div css={sectionTitle} data-testid="coverage-report">
+        {formatMessage('Analyzing the utterances...')}
+      </div>
+    );
+  }
+
+  return (
+    <div data-testid="coverage-report">
+      <ScrollablePane scrollbarVisibility={ScrollbarVisibility.auto}>
+        <div css={sectionTitle}>{formatMessage('Intents')}</div>
+        <SortableList
+          columns={intentColumns}
+          initialSort={{ key: 'utterances', descending: false }}
+          items={intents}
+          testId="intent-coverage-list"
+        />
+        <div css={sectionTitle}>
+          {formatMessage(
+            '{count, plural, =0 {No conflicting utterances} =1 {1 conflicting utterance} other {# conflicting utterances}}',
+            {
+              count: conflicts.length,
+            }
+          )}
+        </div>
+        <SortableList
+          columns={conflictColumns}
+          initialSort={{ key: 'similarity', descending: true }}
+          items={conflicts}
+          testId="utterance-conflict-list"
+        />
+      </ScrollablePane>
+    </div>
+  );
+};
+
+export default CoverageReport;
@@ -0,0 +1,292 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/* eslint-disable react/display-name */
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import React, { useEffect, useState } from 'react';
+import formatMessage from 'format-message';
+import { DefaultButton, PrimaryButton } from 'office-ui-fabric-react/lib/Button';
+import { DetailsList, DetailsListLayoutMode, IColumn, SelectionMode } from 'office-ui-fabric-react/lib/DetailsList';
+import { MessageBar, MessageBarType } from 'office-ui-fabric-react/lib/MessageBar';
+import { ScrollablePane, ScrollbarVisibility } from 'office-ui-fabric-react/lib/ScrollablePane';
+import { Spinner, SpinnerSize } from 'office-ui-fabric-react/lib/Spinner';
+import { FontSizes, NeutralColors, SharedColors } from '@uifabric/fluent-theme';
+import { FontWeights } from 'office-ui-fabric-react/lib/Styling';
+import { RouteComponentProps } from '@reach/router';
+import { useRecoilValue } from 'recoil';
+import { LuIntentMetrics, LuTestCaseResult, LuTestSetFile, LuTestSetReport } from '@bfc/shared';
+
+import httpClient from '../../utils/httpUtil';
+import { dispatcherState } from '../../recoilModel';
+
+const styles = {
+  toolbar: css`
+    display: flex;
+    align-items: center;
+    padding: 16px;
+    & > * {
+      margin-right: 8px;
+    }
+  `,
+  description: css`
+    padding: 0 16px;
+    font-size: 12px;
+    color: ${NeutralColors.gray130};
+  `,
+  title: css`
+    font-size: ${FontSizes.size16};
+    font-weight: ${FontWeights.semibold};
+    margin: 24px 0 0 16px;
+  `,
+  subtitle: css`
+    font-size: ${FontSizes.size14};
+    font-weight: ${FontWeights.semibold};
+    margin: 16px 0 0 16px;
+  `,
+  summary: css`
+    margin: 4px 16px;
+    font-size: ${FontSizes.size12};
+  `,
+  error: css`
+    color: ${SharedColors.red10};
+  `,
+  matrix: css`
+    margin: 8px 16px;
+    border-collapse: collapse;
+    font-size: ${FontSizes.size12};
+    th,
+    td {
+      border: 1px solid ${NeutralColors.gray40};
+      padding: 4px 8px;
+      text-align: right;
+    }
+    th:first-of-type {
+      text-align: left;
+    }
+  `,
+  hit: css`
+    background: ${NeutralColors.gray30};
+    font-weight: ${FontWeights.semibold};
+  `,
+  miss: css`
+    color: ${SharedColors.red10};
+  `,
+};
+
+const formatRatio = (value: number) => value.toFixed(2);
+
+const formatEntities = (entities: LuTestCaseResult['missingEntities']) =>
+  entities.map(({ type, text }) => `${type}: ${text}`).join(', ');
+
+const ConfusionMatrix: React.FC<{ report: LuTestSetReport }> = ({ report }) => {
+  const { intents, counts } = report.confusionMatrix;
+  return (
+    <table css={styles.matrix} data-testid="lu-test-confusion-matrix">
+      <thead>
+        <tr>
+          <th>{formatMessage('Expected \\ Predicted')}</th>
+          {intents.map((intent) => (
+            <th key={intent}>{intent}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {intents.map((intent, row) => (
+          <tr key={intent}>
+            <th>{intent}</th>
+            {counts[row].map((count, column) => (
+              <td key={intents[column]} css={row === column ? styles.hit : count ? styles.miss : undefined}>
+                {count}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const TestSetReport: React.FC<{ report: LuTestSetReport }> = ({ report }) => {
+  const failures = report.results.filter(({ passed }) => !passed);
+  const metricsColumns: IColumn[] = [
+    { key: 'intent', name: formatMessage('Intent'), fieldName: 'intent', minWidth: 120, isResizable: true },
+    { key: 'support', name: formatMessage('Utterances'), fieldName: 'support', minWidth: 80, maxWidth: 100 },
+    {
+      key: 'precision',
+      name: formatMessage('Precision'),
+      minWidth: 80,
+      maxWidth: 100,
+      onRender: (item: LuIntentMetrics) => <span>{formatRatio(item.precision)}</span>,
+    },
+    {
+      key: 'recall',
+      name: formatMessage('Recall'),
+      minWidth: 80,
+      maxWidth: 100,
+      onRender: (item: LuIntentMetrics) => <span>{formatRatio(item.recall)}</span>,
+    },
+    {
+      key: 'f1',
+      name: formatMessage('F1'),
+      minWidth: 80,
+      maxWidth: 100,
+      onRender: (item: LuIntentMetrics) => <span>{formatRatio(item.f1)}</span>,
+    },
+  ];
+
+  const failureColumns: IColumn[] = [
+    { key: 'text', name: formatMessage('Utterance'), fieldName: 'text', minWidth: 200, isResizable: true },
+    {
+      key: 'expectedIntent',
+      name: formatMessage('Expected intent'),
+      fieldName: 'expectedIntent',
+      minWidth: 120,
+      isResizable: true,
+    },
+    {
+      key: 'predictedIntent',
+      name: formatMessage('Predicted intent'),
+      minWidth: 120,
+      isResizable: true,
+      onRender: (item: LuTestCaseResult) => <span>{`${item.predictedIntent} (${formatRatio(item.score)})`}</span>,
+    },
+    {
+      key: 'missingEntities',
+      name: formatMessage('Missing entities'),
+      minWidth: 150,
+      isResizable: true,
+      onRender: (item: LuTestCaseResult) => <span>{formatEntities(item.missingEntities)}</span>,
+    },
+  ];
+
+  return (
+    <div data-testid="lu-test-report">
+      <div css={styles.title}>{`${report.dialog} (${report.locale})`}</div>
+      <div css={styles.summary}>
+        {report.error ? (
+          <span css={styles.error}>{report.error}</span>
+        ) : (
+          formatMessage(
+            '{id}: {passed} of {total} passed, accuracy {accuracy}%, {recognizer, select, orchestrator {Orchestrator} other {Regex}} recognizer',
+            {
+              id: report.id,
+              passed: report.passed,
+              total: report.results.length,
+              accuracy: Math.round(report.accuracy * 100),
+              recognizer: report.recognizer,
+            }
+          )
+        )}
+      </div>
+      {!report.error && report.results.length > 0 && (
+        <React.Fragment>
+          <div css={styles.subtitle}>{formatMessage('Intents')}</div>
+          <DetailsList
+            columns={metricsColumns}
+            items={report.intents}
+            layoutMode={DetailsListLayoutMode.justified}
+            selectionMode={SelectionMode.none}
+          />
+          <div css={styles.subtitle}>{formatMessage('Confusion matrix')}</div>
+          <ConfusionMatrix report={report} />
+          {failures.length > 0 && (
+            <React.Fragment>
+              <div css={styles.subtitle}>{formatMessage('Failed utterances')}</div>
+              <DetailsList
+                columns={failureColumns}
+                items={failures}
+                layoutMode={DetailsListLayoutMode.justified}
+                selectionMode={SelectionMode.none}
+              />
+            </React.Fragment>
+          )}
+        </React.Fragment>
+      )}
+    </div>
+  );
+};
+
+interface LuTestsProps extends RouteComponentProps<{}> {
+  projectId: string;
+  skillId?: string;
+}
+
+/**
+ * Runs the .lutest test sets of the project against the LU models recognized locally
+ * and shows the precision and recall of every intent with the confusion matrix.
+ */
+const LuTests: React.FC<LuTestsProps> = (props) => {
+  const { projectId, skillId } = props;
+  const actualProjectId = skillId ?? projectId;
+
+  const { exportLuTestReports } = useRecoilValue(dispatcherState);
+  const [testSets, setTestSets] = useState<LuTestSetFile[]>([]);
+  const [reports, setReports] = useState<LuTestSetReport[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    httpClient
+      .get(`/projects/${actualProjectId}/luTests`)
+      .then(({ data }) => setTestSets(data))
+      .catch((err) => setError(err.response?.data?.message ?? err.message));
+  }, [actualProjectId]);
+
+  const onRun = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data } = await httpClient.post(`/projects/${actualProjectId}/luTests/run`, {});
+      setReports(data);
+    } catch (err) {
+      setReports([]);
+      setError(err.response?.data?.message ?? err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div data-testid="lu-tests">
+      <ScrollablePane scrollbarVisibility={ScrollbarVisibility.auto}>
+        <div css={styles.toolbar}>
+          <PrimaryButton
+            data-testid="lu-tests-run"
+            disabled={!testSets.length || loading}
+            text={formatMessage('Run tests')}
+            onClick={onRun}
+          />
+          <DefaultButton
+            disabled={!reports.length || loading}
+            text={formatMessage('Export JSON')}
+            onClick={() => exportLuTestReports(actualProjectId, 'json', reports)}
+          />
+          <DefaultButton
+            disabled={!reports.length || loading}
+            text={formatMessage('Export CSV')}
+            onClick={() => exportLuTestReports(actualProjectId, 'csv', reports)}
+          />
+        </div>
+        <div css={styles.description}>
+          {testSets.length
+            ? formatMessage(
+                '{count, plural, =1 {1 test set} other {# test sets}}, {utterances, plural, =1 {1 utterance} other {# utterances}}. The utterances are recognized locally with the Orchestrator snapshot of the dialog when its model is downloaded, the Regex recognizer otherwise.',
+                {
+                  count: testSets.length,
+                  utterances: testSets.reduce((total, { utteranceCount }) => total + utteranceCount, 0),
+                }
+              )
+            : formatMessage(
+                'No LU test sets. Add .lutest files named after the LU files they test, e.g. order.en-us.lutest, to the bot project folder.'
+              )}
+        </div>
+        {loading && <Spinner size={SpinnerSize.medium} />}
+        {error && <MessageBar messageBarType={MessageBarType.error}>{error}</MessageBar>}
+        {!loading && reports.map((report) => <TestSetReport key={report.id} report={report} />)}
+      </ScrollablePane>
+    </div>
+  );
+};
+
+export default LuTests;
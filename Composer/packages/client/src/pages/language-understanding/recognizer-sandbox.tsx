@@ -0,0 +1,186 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/* eslint-disable react/display-name */
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import React, { useState } from 'react';
+import formatMessage from 'format-message';
+import { DetailsList, DetailsListLayoutMode, IColumn, SelectionMode } from 'office-ui-fabric-react/lib/DetailsList';
+import { Link } from 'office-ui-fabric-react/lib/Link';
+import { MessageBar, MessageBarType } from 'office-ui-fabric-react/lib/MessageBar';
+import { PrimaryButton } from 'office-ui-fabric-react/lib/Button';
+import { ScrollablePane, ScrollbarVisibility } from 'office-ui-fabric-react/lib/ScrollablePane';
+import { Spinner, SpinnerSize } from 'office-ui-fabric-react/lib/Spinner';
+import { TextField } from 'office-ui-fabric-react/lib/TextField';
+import { NeutralColors, SharedColors } from '@uifabric/fluent-theme';
+import { RouteComponentProps } from '@reach/router';
+import { useRecoilValue } from 'recoil';
+import { RecognizerSandboxResponse, RecognizerSandboxResult } from '@bfc/shared';
+
+import httpClient from '../../utils/httpUtil';
+import { getBaseName } from '../../utils/fileUtil';
+import { navigateTo } from '../../utils/navigation';
+import { localeState } from '../../recoilModel';
+
+import { tableCell } from './styles';
+
+const styles = {
+  form: css`
+    display: flex;
+    align-items: flex-end;
+    padding: 16px;
+    & > div:first-of-type {
+      flex: 1;
+      margin-right: 8px;
+    }
+  `,
+  description: css`
+    padding: 0 16px;
+    font-size: 12px;
+    color: ${NeutralColors.gray130};
+  `,
+  error: css`
+    color: ${SharedColors.red10};
+  `,
+};
+
+// orchestrator scores all the intents, the first ones are enough to see which intent wins and by how much
+const MaxIntents = 3;
+
+const formatScore = (score: number) => score.toFixed(2);
+
+interface RecognizerSandboxProps extends RouteComponentProps<{}> {
+  projectId: string;
+  skillId?: string;
+}
+
+/**
+ * Recognizes typed utterances with the cross-trained models of the dialogs, on the server and without any cloud service.
+ */
+const RecognizerSandbox: React.FC<RecognizerSandboxProps> = (props) => {
+  const { projectId, skillId } = props;
+  const actualProjectId = skillId ?? projectId;
+  const baseURL = skillId == null ? `/bot/${projectId}/` : `/bot/${projectId}/skill/${skillId}/`;
+
+  const locale = useRecoilValue(localeState(actualProjectId));
+  const [utterance, setUtterance] = useState('');
+  const [response, setResponse] = useState<RecognizerSandboxResponse>();
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const onRecognize = async () => {
+    if (!utterance.trim() || loading) return;
+    setLoading(true);
+    setError('');
+    try {
+      const { data } = await httpClient.post(`/projects/${actualProjectId}/recognize`, { utterance, locale });
+      setResponse(data);
+    } catch (err) {
+      setResponse(undefined);
+      setError(err.response?.data?.message ?? err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const columns: IColumn[] = [
+    {
+      key: 'id',
+      name: formatMessage('Dialog'),
+      fieldName: 'id',
+      minWidth: 100,
+      maxWidth: 200,
+      isResizable: true,
+      onRender: (item: RecognizerSandboxResult) => (
+        <div data-is-focusable css={tableCell}>
+          <Link onClick={() => navigateTo(`${baseURL}language-understanding/${getBaseName(item.id)}`)}>
+            {getBaseName(item.id)}
+          </Link>
+        </div>
+      ),
+    },
+    {
+      key: 'recognizer',
+      name: formatMessage('Recognizer'),
+      fieldName: 'recognizer',
+      minWidth: 100,
+      maxWidth: 120,
+      onRender: (item: RecognizerSandboxResult) => (
+        <span>{item.recognizer === 'orchestrator' ? formatMessage('Orchestrator') : formatMessage('Regex')}</span>
+      ),
+    },
+    {
+      key: 'intents',
+      name: formatMessage('Top intents'),
+      minWidth: 200,
+      isResizable: true,
+      onRender: (item: RecognizerSandboxResult) =>
+        item.error ? (
+          <span css={styles.error}>{item.error}</span>
+        ) : (
+          <span>
+            {item.intents
+              .slice(0, MaxIntents)
+              .map(({ intent, score }) => `${intent} (${formatScore(score)})`)
+              .join(', ')}
+          </span>
+        ),
+    },
+    {
+      key: 'entities',
+      name: formatMessage('Entities'),
+      minWidth: 200,
+      isResizable: true,
+      onRender: (item: RecognizerSandboxResult) => (
+        <span>
+          {item.entities
+            .map(({ type, text, value }) => (value === text ? `${type}: ${text}` : `${type}: ${text} (${value})`))
+            .join(', ')}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <div data-testid="recognizer-sandbox">
+      <ScrollablePane scrollbarVisibility={ScrollbarVisibility.auto}>
+        <div css={styles.form}>
+          <TextField
+            label={formatMessage('Utterance')}
+            placeholder={formatMessage('Type an utterance, e.g. cancel my order')}
+            value={utterance}
+            onChange={(_e, value) => setUtterance(value ?? '')}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') onRecognize();
+            }}
+          />
+          <PrimaryButton
+            data-testid="recognizer-sandbox-recognize"
+            disabled={!utterance.trim() || loading}
+            text={formatMessage('Recognize')}
+            onClick={onRecognize}
+          />
+        </div>
+        <div css={styles.description}>
+          {formatMessage(
+            'The models of the {locale} dialogs are cross-trained and recognized locally, with the Regex recognizer and the Orchestrator snapshots when the Orchestrator model is downloaded. LUIS and other cloud services are not called.',
+            { locale }
+          )}
+        </div>
+        {loading && <Spinner size={SpinnerSize.medium} />}
+        {error && <MessageBar messageBarType={MessageBarType.error}>{error}</MessageBar>}
+        {response && !loading && (
+          <DetailsList
+            columns={columns}
+            items={response.results}
+            layoutMode={DetailsListLayoutMode.justified}
+            selectionMode={SelectionMode.none}
+          />
+        )}
+      </ScrollablePane>
+    </div>
+  );
+};
+
+export default RecognizerSandbox;
@@ -0,0 +1,137 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import { useState } from 'react';
+import { RouteComponentProps } from '@reach/router';
+import formatMessage from 'format-message';
+import { useRecoilValue } from 'recoil';
+import { Dropdown } from 'office-ui-fabric-react/lib/Dropdown';
+import { IToolbarItem } from '@bfc/ui-shared';
+import { TranslationCompleteness, TranslationItem } from '@bfc/shared';
+
+import { Page } from '../../components/Page';
+import { dispatcherState, settingsState } from '../../recoilModel';
+import {
+  localizationNavLinksSelector,
+  translationCompletenessSelectorFamily,
+} from '../../recoilModel/selectors/translation';
+import { navigateTo } from '../../utils/navigation';
+import { dropdownStyles } from '../diagnostics/DiagnosticFilter';
+
+import { TranslationCompletenessList, TranslationItemList, getPercentage } from './TranslationCompletenessList';
+
+// -------------------- Styles -------------------- //
+
+const emptyMessage = css`
+  padding: 20px;
+`;
+
+const itemsTitle = css`
+  font-size: 16px;
+  font-weight: 600;
+  margin: 24px 0 0 12px;
+`;
+
+// -------------------- LocalizationPage -------------------- //
+
+const editorPages = {
+  lg: 'language-generation',
+  lu: 'language-understanding',
+  qna: 'knowledge-base',
+};
+
+const LocalizationPage: React.FC<RouteComponentProps<{ projectId: string; skillId: string }>> = (props) => {
+  const rootProjectId = props.projectId as string;
+  const projectId = (props.skillId ?? props.projectId) as string;
+  const navLinks = useRecoilValue(localizationNavLinksSelector);
+  const { languages = [], defaultLanguage } = useRecoilValue(settingsState(projectId));
+  const completeness = useRecoilValue(translationCompletenessSelectorFamily(projectId));
+  const { setLocale, exportTranslations } = useRecoilValue(dispatcherState);
+  const [selectedLocale, setSelectedLocale] = useState('');
+  const [selectedDialogId, setSelectedDialogId] = useState('');
+
+  const locales = languages.filter((language) => language !== defaultLanguage);
+  const locale = locales.includes(selectedLocale) ? selectedLocale : locales[0];
+  const localeCompleteness = completeness.filter((item) => item.locale === locale);
+  const selectedDialog = localeCompleteness.find(({ id }) => id === selectedDialogId);
+
+  const toolbarItems: IToolbarItem[] = [
+    {
+      type: 'action',
+      text: formatMessage('Export for translation'),
+      buttonProps: {
+        iconProps: { iconName: 'Download' },
+        onClick: () => exportTranslations(projectId, locale),
+      },
+      align: 'left',
+      dataTestid: 'ExportTranslations',
+      disabled: !locale,
+    },
+  ];
+
+  const handleItemClick = (item: TranslationItem) => {
+    if (!selectedDialog) return;
+    // the editors show the files of the current locale
+    setLocale(locale, projectId);
+    const linkBase = rootProjectId === projectId ? `/bot/${projectId}` : `/bot/${rootProjectId}/skill/${projectId}`;
+    navigateTo(`${linkBase}/${editorPages[item.type]}/${selectedDialog.id}/edit`);
+  };
+
+  const onRenderHeaderContent = () => {
+    if (!locale) return null;
+    return (
+      <Dropdown
+        ariaLabel={formatMessage('Language')}
+        data-testid="localization-locale-dropdown"
+        options={locales.map((item) => ({ key: item, text: item }))}
+        selectedKey={locale}
+        styles={dropdownStyles}
+        onChange={(event, option) => {
+          if (option) setSelectedLocale(option.key as string);
+        }}
+      />
+    );
+  };
+
+  return (
+    <Page
+      data-testid="LocalizationPage"
+      mainRegionName={formatMessage('Translation completeness')}
+      navLinks={navLinks}
+      navRegionName={formatMessage('Localization Pane')}
+      pageMode={'localization'}
+      title={formatMessage('Localization')}
+      toolbarItems={toolbarItems}
+      onRenderHeaderContent={onRenderHeaderContent}
+    >
+      {locale ? (
+        <div role="main">
+          <TranslationCompletenessList
+            completeness={localeCompleteness}
+            onDialogClick={(item: TranslationCompleteness) => setSelectedDialogId(item.id)}
+          />
+          {selectedDialog && (
+            <div aria-label={formatMessage('Items to translate')} role="region">
+              <div css={itemsTitle}>
+                {formatMessage('{dialog} is {percentage}% translated to {locale}', {
+                  dialog: selectedDialog.id,
+                  percentage: getPercentage(selectedDialog),
+                  locale,
+                })}
+              </div>
+              <TranslationItemList items={selectedDialog.items} onItemClick={handleItemClick} />
+            </div>
+          )}
+        </div>
+      ) : (
+        <div css={emptyMessage}>
+          {formatMessage('This bot has only one language. Add languages in the project settings to translate it.')}
+        </div>
+      )}
+    </Page>
+  );
+};
+
+export default LocalizationPage;
@@ -0,0 +1,196 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import {
+  DetailsList,
+  DetailsListLayoutMode,
+  SelectionMode,
+  IColumn,
+  CheckboxVisibility,
+} from 'office-ui-fabric-react/lib/DetailsList';
+import { ProgressIndicator } from 'office-ui-fabric-react/lib/ProgressIndicator';
+import formatMessage from 'format-message';
+import { TranslationCompleteness, TranslationItem, TranslationStatus } from '@bfc/shared';
+
+// -------------------- Styles -------------------- //
+
+const detailList = css`
+  overflow-x: hidden;
+`;
+
+const progress = css`
+  display: flex;
+  align-items: center;
+  & > div:first-of-type {
+    flex-grow: 1;
+    margin-right: 8px;
+  }
+`;
+
+// -------------------- TranslationCompletenessList -------------------- //
+
+export const getPercentage = ({ total, translated }: TranslationCompleteness) =>
+  total === 0 ? 100 : Math.floor((translated / total) * 100);
+
+const countStatus = (items: TranslationItem[], status: TranslationStatus) =>
+  items.filter((item) => item.status === status).length;
+
+const statusLabels = {
+  get missing() {
+    return formatMessage('Missing');
+  },
+  get untranslated() {
+    return formatMessage('Not translated');
+  },
+  get outdated() {
+    return formatMessage('Out of date');
+  },
+  get translated() {
+    return formatMessage('Translated');
+  },
+};
+
+const typeLabels = {
+  get lg() {
+    return formatMessage('Bot responses');
+  },
+  get lu() {
+    return formatMessage('User input');
+  },
+  get qna() {
+    return formatMessage('QnA');
+  },
+};
+
+const countColumn = (status: TranslationStatus): IColumn => ({
+  key: status,
+  name: statusLabels[status],
+  fieldName: status,
+  minWidth: 70,
+  maxWidth: 100,
+  isResizable: true,
+  data: 'number',
+  onRender: (item: TranslationCompleteness) => countStatus(item.items, status),
+  isPadded: true,
+});
+
+export interface ITranslationCompletenessListProps {
+  completeness: TranslationCompleteness[];
+  onDialogClick: (item: TranslationCompleteness) => void;
+}
+
+export const TranslationCompletenessList: React.FC<ITranslationCompletenessListProps> = ({
+  completeness,
+  onDialogClick,
+}) => {
+  const dialogColumns: IColumn[] = [
+    {
+      key: 'id',
+      name: formatMessage('Dialog'),
+      fieldName: 'id',
+      minWidth: 100,
+      maxWidth: 200,
+      isRowHeader: true,
+      isResizable: true,
+      data: 'string',
+      isPadded: true,
+    },
+    {
+      key: 'completeness',
+      name: formatMessage('Completeness'),
+      fieldName: 'translated',
+      minWidth: 150,
+      maxWidth: 300,
+      isResizable: true,
+      onRender: (item: TranslationCompleteness) => {
+        const percentage = getPercentage(item);
+        return (
+          <div css={progress}>
+            <ProgressIndicator
+              ariaValueText={formatMessage('{percentage}% translated', { percentage })}
+              percentComplete={percentage / 100}
+            />
+            <span>{`${percentage}%`}</span>
+          </div>
+        );
+      },
+      isPadded: true,
+    },
+    countColumn('missing'),
+    countColumn('untranslated'),
+    countColumn('outdated'),
+  ];
+
+  return (
+    <DetailsList
+      isHeaderVisible
+      checkboxVisibility={CheckboxVisibility.hidden}
+      columns={dialogColumns}
+      css={detailList}
+      getKey={(item: TranslationCompleteness) => item.id}
+      items={completeness}
+      layoutMode={DetailsListLayoutMode.justified}
+      selectionMode={SelectionMode.none}
+      setKey="none"
+      onActiveItemChanged={onDialogClick}
+      onItemInvoked={onDialogClick}
+    />
+  );
+};
+
+export interface ITranslationItemListProps {
+  items: TranslationItem[];
+  onItemClick: (item: TranslationItem) => void;
+}
+
+export const TranslationItemList: React.FC<ITranslationItemListProps> = ({ items, onItemClick }) => {
+  const itemColumns: IColumn[] = [
+    {
+      key: 'type',
+      name: formatMessage('Type'),
+      fieldName: 'type',
+      minWidth: 100,
+      maxWidth: 150,
+      isResizable: true,
+      onRender: (item: TranslationItem) => typeLabels[item.type],
+      isPadded: true,
+    },
+    {
+      key: 'name',
+      name: formatMessage('Name'),
+      fieldName: 'name',
+      minWidth: 150,
+      maxWidth: 350,
+      isRowHeader: true,
+      isResizable: true,
+      data: 'string',
+      isPadded: true,
+    },
+    {
+      key: 'status',
+      name: formatMessage('Status'),
+      fieldName: 'status',
+      minWidth: 100,
+      maxWidth: 150,
+      isResizable: true,
+      onRender: (item: TranslationItem) => statusLabels[item.status],
+      isPadded: true,
+    },
+  ];
+
+  return (
+    <DetailsList
+      isHeaderVisible
+      checkboxVisibility={CheckboxVisibility.hidden}
+      columns={itemColumns}
+      css={detailList}
+      items={items.filter(({ status }) => status !== 'translated')}
+      layoutMode={DetailsListLayoutMode.justified}
+      selectionMode={SelectionMode.none}
+      setKey="none"
+      onItemInvoked={onItemClick}
+    />
+  );
+};
@@ -25,6 +25,7 @@ import {
 } from '../../utils/auth';
 // import { vaultScopes } from '../../constants';
 import { useLocation } from '../../utils/hooks';
+import { navigateTo } from '../../utils/navigation';
 import { AuthClient } from '../../utils/authClient';
 import TelemetryClient from '../../telemetry/TelemetryClient';
 import { ApiStatus, PublishStatusPollingUpdater, pollingUpdaterList } from '../../utils/publishStatusPollingUpdater';
@@ -244,6 +245,27 @@ const Publish: React.FC<RouteComponentProps<{ projectId: string; targetName?: st
     }
   }, [location]);
 
+  // open the publish dialog for the bot and the target of the url, e.g. when started from the command palette
+  useEffect(() => {
+    const targetName = props.targetName && decodeURIComponent(props.targetName);
+    const botId = new URLSearchParams(location.search).get('bot') ?? projectId;
+    const bot = currentBotList.find(({ id }) => id === botId);
+    if (!targetName || targetName === 'all' || !bot) return;
+
+    if (botPropertyData[bot.id]?.publishTargets?.some(({ name }) => name === targetName)) {
+      setCurrentBotList(
+        currentBotList.map((item) => (item.id === bot.id ? { ...item, publishTarget: targetName } : item))
+      );
+      setCheckedSkillIds([bot.id]);
+      if (isShowAuthDialog(false)) {
+        setShowAuthDialog(true);
+      } else {
+        setPublishDialogVisiblity(true);
+      }
+    }
+    navigateTo(`/bot/${projectId}/publish/all`, { replace: true });
+  }, [props.targetName, currentBotList.length]);
+
   const isPublishingToAzure = (target?: PublishTarget) => {
     return target?.type === 'azurePublish' || target?.type === 'azureFunctionsPublish';
   };
@@ -0,0 +1,309 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import { useMemo, useState } from 'react';
+import { RouteComponentProps } from '@reach/router';
+import formatMessage from 'format-message';
+import { useRecoilValue } from 'recoil';
+import isEqual from 'lodash/isEqual';
+import { Checkbox } from 'office-ui-fabric-react/lib/Checkbox';
+import { DefaultButton, PrimaryButton } from 'office-ui-fabric-react/lib/Button';
+import { Dropdown, IDropdownOption } from 'office-ui-fabric-react/lib/Dropdown';
+import { MessageBar, MessageBarType } from 'office-ui-fabric-react/lib/MessageBar';
+import { Spinner, SpinnerSize } from 'office-ui-fabric-react/lib/Spinner';
+import { TextField } from 'office-ui-fabric-react/lib/TextField';
+import { Toggle } from 'office-ui-fabric-react/lib/Toggle';
+import { NeutralColors } from '@uifabric/fluent-theme';
+import { OpenConfirmModal } from '@bfc/ui-shared';
+import { ProjectSearchFileType, ProjectSearchMatch, ProjectSearchQuery } from '@bfc/shared';
+
+import { Page } from '../../components/Page';
+import {
+  dialogsSelectorFamily,
+  dispatcherState,
+  localeState,
+  projectSearchState,
+  searchNavLinksSelector,
+  settingsState,
+} from '../../recoilModel';
+import { navigateTo } from '../../utils/navigation';
+
+import { SearchResultList } from './SearchResultList';
+import { getSearchMatchUrl, groupSearchMatches } from './searchResults';
+
+// -------------------- Styles -------------------- //
+
+const form = css`
+  padding: 0 12px 12px;
+  border-bottom: 1px solid ${NeutralColors.gray30};
+`;
+
+const row = css`
+  display: flex;
+  align-items: flex-end;
+  margin-top: 8px;
+  & > div:first-of-type {
+    flex: 1;
+    margin-right: 8px;
+  }
+`;
+
+const options = css`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  margin-top: 12px;
+  & > * {
+    margin-right: 16px;
+  }
+`;
+
+const dropdown = { root: { width: 200 } };
+
+const summary = css`
+  padding: 12px;
+  color: ${NeutralColors.gray130};
+`;
+
+// -------------------- SearchPanel -------------------- //
+
+const fileTypeOptions = (): IDropdownOption[] => [
+  { key: 'dialog', text: formatMessage('Dialogs') },
+  { key: 'lg', text: formatMessage('Bot responses') },
+  { key: 'lu', text: formatMessage('User input') },
+  { key: 'qna', text: formatMessage('QnA') },
+];
+
+const toggleKey = <T extends string>(keys: T[] = [], option?: IDropdownOption): T[] => {
+  if (!option) return keys;
+  const key = option.key as T;
+  return option.selected ? [...keys, key] : keys.filter((item) => item !== key);
+};
+
+type SearchPanelProps = {
+  rootProjectId: string;
+  projectId: string;
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ rootProjectId, projectId }) => {
+  const search = useRecoilValue(projectSearchState(projectId));
+  const { languages = [] } = useRecoilValue(settingsState(projectId));
+  const currentLocale = useRecoilValue(localeState(projectId));
+  const dialogs = useRecoilValue(dialogsSelectorFamily(projectId));
+  const { searchProject, replaceInProject, setLocale } = useRecoilValue(dispatcherState);
+
+  const [query, setQuery] = useState<ProjectSearchQuery>(search?.query ?? { pattern: '' });
+  const [showReplace, setShowReplace] = useState(search?.replacement !== undefined);
+  const [replacement, setReplacement] = useState(search?.replacement ?? '');
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [replacedMessage, setReplacedMessage] = useState('');
+
+  const matches = search?.result.matches ?? [];
+  const groups = useMemo(() => groupSearchMatches(search?.result.matches ?? [], dialogs), [search, dialogs]);
+  const selectedMatches = matches.filter(({ id }) => !excludedIds.includes(id));
+  // the replace applies the replacement previewed by the last search, the form has to be searched again once changed
+  const isPreviewed = showReplace && !!search && search.replacement === replacement && isEqual(search.query, query);
+
+  const updateQuery = (changes: Partial<ProjectSearchQuery>) => setQuery((current) => ({ ...current, ...changes }));
+
+  const runSearch = async () => {
+    if (!query.pattern || isSearching) return;
+    setIsSearching(true);
+    setExcludedIds([]);
+    setReplacedMessage('');
+    await searchProject(projectId, query, showReplace ? replacement : undefined);
+    setIsSearching(false);
+  };
+
+  const runReplace = async () => {
+    const fileCount = new Set(selectedMatches.map(({ fileName }) => fileName)).size;
+    const confirmed = await OpenConfirmModal(
+      formatMessage('Replace'),
+      formatMessage(
+        'Replace {count, plural, =1 {1 match} other {# matches}} in {fileCount, plural, =1 {1 file} other {# files}} with "{replacement}"? Undo reverts the whole replace.',
+        { count: selectedMatches.length, fileCount, replacement }
+      )
+    );
+    if (!confirmed) return;
+
+    setIsSearching(true);
+    const replaced = await replaceInProject(
+      projectId,
+      selectedMatches.map(({ id }) => id)
+    );
+    setExcludedIds([]);
+    setReplacedMessage(
+      formatMessage('{count, plural, =1 {Replaced 1 match.} other {Replaced # matches.}}', { count: replaced })
+    );
+    setIsSearching(false);
+  };
+
+  const handleMatchClick = (match: ProjectSearchMatch) => {
+    // the editors show the files of the current locale
+    if (match.locale && match.locale !== currentLocale) {
+      setLocale(match.locale, projectId);
+    }
+    const rootDialogId = dialogs.find(({ isRoot }) => isRoot)?.id ?? 'all';
+    navigateTo(getSearchMatchUrl(rootProjectId, projectId, match, rootDialogId));
+  };
+
+  const handleMatchToggle = (match: ProjectSearchMatch, checked: boolean) => {
+    setExcludedIds((ids) => (checked ? ids.filter((id) => id !== match.id) : [...ids, match.id]));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter') runSearch();
+  };
+
+  const fileCount = new Set(matches.map(({ fileName }) => fileName)).size;
+
+  return (
+    <div role="main">
+      <div css={form}>
+        <div css={row}>
+          <TextField
+            ariaLabel={formatMessage('Search')}
+            data-testid="ProjectSearchPattern"
+            placeholder={formatMessage('Search dialogs, bot responses, user input and QnA')}
+            value={query.pattern}
+            onChange={(_e, value) => updateQuery({ pattern: value ?? '' })}
+            onKeyDown={handleKeyDown}
+          />
+          <PrimaryButton
+            data-testid="ProjectSearchButton"
+            disabled={!query.pattern || isSearching}
+            text={formatMessage('Search')}
+            onClick={runSearch}
+          />
+        </div>
+        {showReplace && (
+          <div css={row}>
+            <TextField
+              ariaLabel={formatMessage('Replace')}
+              data-testid="ProjectSearchReplacement"
+              placeholder={formatMessage('Replace with')}
+              value={replacement}
+              onChange={(_e, value) => setReplacement(value ?? '')}
+              onKeyDown={handleKeyDown}
+            />
+            <DefaultButton
+              data-testid="ProjectReplaceButton"
+              disabled={!query.pattern || isSearching || (isPreviewed && !selectedMatches.length)}
+              text={
+                isPreviewed
+                  ? formatMessage('Replace ({count})', { count: selectedMatches.length })
+                  : formatMessage('Preview')
+              }
+              onClick={isPreviewed ? runReplace : runSearch}
+            />
+          </div>
+        )}
+        <div css={options}>
+          <Toggle
+            inlineLabel
+            checked={showReplace}
+            label={formatMessage('Replace')}
+            onChange={(_e, checked) => setShowReplace(!!checked)}
+          />
+          <Checkbox
+            checked={!!query.matchCase}
+            label={formatMessage('Match case')}
+            onChange={(_e, checked) => updateQuery({ matchCase: !!checked })}
+          />
+          <Checkbox
+            checked={!!query.wholeWord}
+            label={formatMessage('Whole word')}
+            onChange={(_e, checked) => updateQuery({ wholeWord: !!checked })}
+          />
+          <Checkbox
+            checked={!!query.isRegex}
+            label={formatMessage('Regular expression')}
+            onChange={(_e, checked) => updateQuery({ isRegex: !!checked })}
+          />
+          <Dropdown
+            multiSelect
+            ariaLabel={formatMessage('Files')}
+            options={fileTypeOptions()}
+            placeholder={formatMessage('All files')}
+            selectedKeys={query.fileTypes ?? []}
+            styles={dropdown}
+            onChange={(_e, option) =>
+              updateQuery({ fileTypes: toggleKey<ProjectSearchFileType>(query.fileTypes, option) })
+            }
+          />
+          <Dropdown
+            multiSelect
+            ariaLabel={formatMessage('Languages')}
+            options={languages.map((language) => ({ key: language, text: language }))}
+            placeholder={formatMessage('All languages')}
+            selectedKeys={query.locales ?? []}
+            styles={dropdown}
+            onChange={(_e, option) => updateQuery({ locales: toggleKey(query.locales, option) })}
+          />
+        </div>
+      </div>
+      {replacedMessage && (
+        <MessageBar messageBarType={MessageBarType.success} onDismiss={() => setReplacedMessage('')}>
+          {replacedMessage}
+        </MessageBar>
+      )}
+      {search?.result.truncated && (
+        <MessageBar messageBarType={MessageBarType.warning}>
+          {formatMessage('Only the first {count} results are shown. Narrow the search to see the others.', {
+            count: matches.length,
+          })}
+        </MessageBar>
+      )}
+      {isSearching ? (
+        <Spinner label={formatMessage('Searching...')} size={SpinnerSize.medium} styles={{ root: { padding: 20 } }} />
+      ) : (
+        search && (
+          <div>
+            <div css={summary} data-testid="ProjectSearchSummary">
+              {matches.length
+                ? formatMessage(
+                    '{count, plural, =1 {1 result} other {# results}} in {fileCount, plural, =1 {1 file} other {# files}}',
+                    { count: matches.length, fileCount }
+                  )
+                : formatMessage('No results')}
+            </div>
+            <SearchResultList
+              excludedIds={excludedIds}
+              groups={groups}
+              showReplacement={isPreviewed}
+              onMatchClick={handleMatchClick}
+              onMatchToggle={handleMatchToggle}
+            />
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+// -------------------- SearchPage -------------------- //
+
+const SearchPage: React.FC<RouteComponentProps<{ projectId: string; skillId: string }>> = (props) => {
+  const rootProjectId = props.projectId as string;
+  const projectId = (props.skillId ?? props.projectId) as string;
+  const navLinks = useRecoilValue(searchNavLinksSelector);
+
+  return (
+    <Page
+      data-testid="SearchPage"
+      mainRegionName={formatMessage('Search')}
+      navLinks={navLinks}
+      navRegionName={formatMessage('Search Pane')}
+      pageMode={'search'}
+      title={formatMessage('Search')}
+      toolbarItems={[]}
+    >
+      <SearchPanel key={projectId} projectId={projectId} rootProjectId={rootProjectId} />
+    </Page>
+  );
+};
+
+export default SearchPage;
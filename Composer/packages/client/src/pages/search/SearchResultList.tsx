@@ -0,0 +1,209 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** @jsx jsx */
+import { jsx, css } from '@emotion/core';
+import { useState } from 'react';
+import formatMessage from 'format-message';
+import { Checkbox } from 'office-ui-fabric-react/lib/Checkbox';
+import { IconButton } from 'office-ui-fabric-react/lib/Button';
+import { Link } from 'office-ui-fabric-react/lib/Link';
+import { FontSizes, NeutralColors, SharedColors } from '@uifabric/fluent-theme';
+import { ProjectSearchMatch } from '@bfc/shared';
+
+import { SearchMatchGroup } from './searchResults';
+
+// -------------------- Styles -------------------- //
+
+const groupHeader = (depth: number) => css`
+  display: flex;
+  align-items: center;
+  padding-left: ${depth * 20}px;
+  font-size: ${FontSizes.size14};
+  font-weight: ${depth === 0 ? 600 : 400};
+`;
+
+const groupType = css`
+  margin-left: 8px;
+  color: ${NeutralColors.gray130};
+  font-size: ${FontSizes.size12};
+`;
+
+const matchRow = (depth: number) => css`
+  display: flex;
+  align-items: center;
+  padding: 2px 0 2px ${depth * 20 + 32}px;
+  font-size: ${FontSizes.size14};
+`;
+
+const matchText = css`
+  flex: 1;
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+  text-align: left;
+`;
+
+const matchDetails = css`
+  margin: 0 16px 0 12px;
+  white-space: nowrap;
+  color: ${NeutralColors.gray130};
+  font-size: ${FontSizes.size12};
+`;
+
+const found = css`
+  background: ${SharedColors.yellow10};
+  color: ${NeutralColors.gray160};
+`;
+
+const removed = css`
+  background: ${SharedColors.red10};
+  color: ${NeutralColors.white};
+  text-decoration: line-through;
+`;
+
+const inserted = css`
+  background: ${SharedColors.green10};
+  color: ${NeutralColors.white};
+  text-decoration: none;
+`;
+
+// -------------------- SearchResultList -------------------- //
+
+// characters of the text shown around a match
+const ContextLength = 40;
+
+const groupTypeLabels = {
+  get dialog() {
+    return formatMessage('Dialog');
+  },
+  get trigger() {
+    return formatMessage('Trigger');
+  },
+  get action() {
+    return formatMessage('Action');
+  },
+};
+
+const fileTypeLabels = {
+  get dialog() {
+    return formatMessage('Property');
+  },
+  get lg() {
+    return formatMessage('Bot response');
+  },
+  get lu() {
+    return formatMessage('User input');
+  },
+  get qna() {
+    return formatMessage('QnA');
+  },
+};
+
+const countMatches = (group: SearchMatchGroup): number =>
+  group.groups.reduce((count, child) => count + countMatches(child), group.matches.length);
+
+const getMatchLocation = (match: ProjectSearchMatch) => {
+  const { fileType, fileName, line, actionPath, triggerIndex, propertyPath = '' } = match;
+  if (fileType !== 'dialog') return `${fileName}:${line}`;
+
+  // the property of the action or the trigger
+  const itemPath = actionPath ?? (triggerIndex !== undefined ? `triggers[${triggerIndex}]` : '');
+  return itemPath && propertyPath.startsWith(`${itemPath}.`)
+    ? propertyPath.substring(itemPath.length + 1)
+    : propertyPath;
+};
+
+const MatchText: React.FC<{ match: ProjectSearchMatch; showReplacement: boolean }> = ({ match, showReplacement }) => {
+  const { text, start, end, replacement } = match;
+  const before = text.substring(Math.max(0, start - ContextLength), start);
+  const after = text.substring(end, end + ContextLength * 2);
+  return (
+    <span>
+      {start > ContextLength && '…'}
+      {before}
+      {showReplacement && replacement !== undefined ? (
+        <span>
+          <del css={removed}>{text.substring(start, end)}</del>
+          <ins css={inserted}>{replacement}</ins>
+        </span>
+      ) : (
+        <mark css={found}>{text.substring(start, end)}</mark>
+      )}
+      {after}
+    </span>
+  );
+};
+
+type SearchResultListProps = {
+  groups: SearchMatchGroup[];
+  showReplacement: boolean;
+  /** Ids of the matches left out of the replace. */
+  excludedIds: string[];
+  onMatchClick: (match: ProjectSearchMatch) => void;
+  onMatchToggle: (match: ProjectSearchMatch, checked: boolean) => void;
+};
+
+/**
+ * The matches by dialog, trigger and action, with the replacements of a replace preview.
+ */
+export const SearchResultList: React.FC<SearchResultListProps> = ({
+  groups,
+  showReplacement,
+  excludedIds,
+  onMatchClick,
+  onMatchToggle,
+}) => {
+  const [collapsedKeys, setCollapsedKeys] = useState<string[]>([]);
+
+  const toggleGroup = (key: string) => {
+    setCollapsedKeys((keys) => (keys.includes(key) ? keys.filter((item) => item !== key) : [...keys, key]));
+  };
+
+  const renderMatch = (match: ProjectSearchMatch, depth: number) => (
+    <div key={match.id} css={matchRow(depth)} data-testid="SearchMatch">
+      {showReplacement && (
+        <Checkbox
+          ariaLabel={formatMessage('Replace this match')}
+          checked={!excludedIds.includes(match.id)}
+          styles={{ root: { marginRight: 8 } }}
+          onChange={(_e, checked) => onMatchToggle(match, !!checked)}
+        />
+      )}
+      <Link css={matchText} onClick={() => onMatchClick(match)}>
+        <MatchText match={match} showReplacement={showReplacement} />
+      </Link>
+      <span css={matchDetails}>{`${fileTypeLabels[match.fileType]} · ${getMatchLocation(match)}`}</span>
+    </div>
+  );
+
+  const renderGroup = (group: SearchMatchGroup, depth: number) => {
+    const isCollapsed = collapsedKeys.includes(group.key);
+    const count = formatMessage('{count, plural, =1 {1 result} other {# results}}', { count: countMatches(group) });
+    return (
+      <div key={group.key} role="group">
+        <div css={groupHeader(depth)}>
+          <IconButton
+            ariaLabel={isCollapsed ? formatMessage('Expand') : formatMessage('Collapse')}
+            iconProps={{ iconName: isCollapsed ? 'ChevronRight' : 'ChevronDown' }}
+            onClick={() => toggleGroup(group.key)}
+          />
+          <span>{group.title}</span>
+          <span css={groupType}>{group.type === 'item' ? count : `${groupTypeLabels[group.type]} · ${count}`}</span>
+        </div>
+        {!isCollapsed && (
+          <div>
+            {group.matches.map((match) => renderMatch(match, depth))}
+            {group.groups.map((child) => renderGroup(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div aria-label={formatMessage('Search results')} data-testid="SearchResultList" role="region">
+      {groups.map((group) => renderGroup(group, 0))}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { conceptLabels, DialogInfo, ProjectSearchMatch } from '@bfc/shared';
+
+import { convertPathToUrl } from '../../utils/navigation';
+
+export type SearchMatchGroup = {
+  key: string;
+  type: 'dialog' | 'trigger' | 'action' | 'item';
+  title: string;
+  matches: ProjectSearchMatch[];
+  groups: SearchMatchGroup[];
+};
+
+const getGroup = (groups: SearchMatchGroup[], key: string, type: SearchMatchGroup['type'], title: string) => {
+  let group = groups.find((item) => item.key === key);
+  if (!group) {
+    group = { key, type, title, matches: [], groups: [] };
+    groups.push(group);
+  }
+  return group;
+};
+
+/**
+ * Groups the matches by dialog, trigger and action. The responses and the utterances are in the action using the
+ * template and the trigger handling the intent, or else in a group of their template, intent or question.
+ */
+export const groupSearchMatches = (matches: ProjectSearchMatch[], dialogs: DialogInfo[]): SearchMatchGroup[] => {
+  const groups: SearchMatchGroup[] = [];
+  matches.forEach((match) => {
+    const { dialogId, triggerIndex, triggerName, actionPath, actionName, name } = match;
+    const dialog = dialogs.find(({ id }) => id === dialogId);
+    let group = getGroup(groups, dialogId, 'dialog', dialog?.displayName ?? dialogId);
+
+    if (triggerIndex !== undefined) {
+      const title = dialog?.triggers[triggerIndex]?.displayName || triggerName || `triggers[${triggerIndex}]`;
+      group = getGroup(group.groups, `${dialogId}.triggers[${triggerIndex}]`, 'trigger', title);
+    }
+    if (actionPath) {
+      const title = (actionName && conceptLabels()[actionName]?.title) || actionName || actionPath;
+      group = getGroup(group.groups, `${dialogId}.${actionPath}`, 'action', title);
+    } else if (triggerIndex === undefined && name) {
+      group = getGroup(group.groups, `${match.fileType}:${dialogId}:${name}`, 'item', name);
+    }
+    group.matches.push(match);
+  });
+  return groups;
+};
+
+/**
+ * Where a match is edited: the property in the form of its action or trigger, or the line in the code editor of
+ * its LG, LU or QnA file. The imported knowledge bases are containers of the root dialog on the QnA page.
+ */
+export const getSearchMatchUrl = (
+  rootProjectId: string,
+  projectId: string,
+  match: ProjectSearchMatch,
+  rootDialogId: string
+): string => {
+  const { fileType, dialogId, triggerIndex, actionPath, line } = match;
+  if (fileType === 'dialog') {
+    const path = actionPath ?? (triggerIndex !== undefined ? `triggers[${triggerIndex}]` : undefined);
+    return convertPathToUrl(rootProjectId, projectId, dialogId, path && `${dialogId}.${path}`);
+  }
+
+  const baseUrl = rootProjectId === projectId ? `/bot/${projectId}/` : `/bot/${rootProjectId}/skill/${projectId}/`;
+  const hash = `#L=${line ?? 0}`;
+  if (fileType === 'lg') return `${baseUrl}language-generation/${dialogId}/edit${hash}`;
+  if (fileType === 'lu') return `${baseUrl}language-understanding/${dialogId}/edit${hash}`;
+
+  const containerId = dialogId.endsWith('.source') ? dialogId.slice(0, -'.source'.length) : undefined;
+  return containerId
+    ? `${baseUrl}knowledge-base/${rootDialogId}/edit?C=${containerId}${hash}`
+    : `${baseUrl}knowledge-base/${dialogId}/edit${hash}`;
+};
@@ -29,6 +29,8 @@ import {
 } from './atoms';
 import { localBotsWithoutErrorsSelector, formDialogSchemasSelectorFamily } from './selectors';
 import { Recognizer } from './Recognizers';
+import { FileWatcher } from './FileWatcher';
+import { UtteranceCoverage } from './UtteranceCoverage';
 import { recognizersSelectorFamily } from './selectors/recognizers';
 import { lgFilesSelectorFamily } from './selectors/lg';
 
@@ -113,7 +115,9 @@ export const DispatcherWrapper = ({ children }) => {
 
   useRecoilTransactionObserver_UNSTABLE(async ({ snapshot, previousSnapshot }) => {
     const botsForFilePersistence = await snapshot.getPromise(localBotsWithoutErrorsSelector);
-    const { setProjectError } = await snapshot.getPromise(dispatcherState);
+    const { setProjectError, setUncommittedChanges, setFileConflict, loadFileContent } = await snapshot.getPromise(
+      dispatcherState
+    );
     for (const projectId of botsForFilePersistence) {
       const assets = await getBotAssets(projectId, snapshot);
       const previousAssets = await getBotAssets(projectId, previousSnapshot);
@@ -123,6 +127,17 @@ export const DispatcherWrapper = ({ children }) => {
         if (filePersistence.isErrorHandlerEmpty()) {
           filePersistence.registerErrorHandler(setProjectError);
         }
+        if (filePersistence.isChangeHandlerEmpty()) {
+          filePersistence.registerChangeHandler((changes) => setUncommittedChanges(projectId, changes));
+        }
+        if (filePersistence.isConflictHandlerEmpty()) {
+          filePersistence.registerConflictHandler(
+            (conflict) => new Promise((onResolve) => setFileConflict({ ...conflict, onResolve }))
+          );
+        }
+        if (filePersistence.isMergeHandlerEmpty()) {
+          filePersistence.registerMergeHandler((id, content) => loadFileContent(projectId, id, content));
+        }
         filePersistence.notify(assets, previousAssets);
       }
     }
@@ -134,6 +149,8 @@ export const DispatcherWrapper = ({ children }) => {
         <Fragment key={projectId}>
           <UndoRoot projectId={projectId} />
           <Recognizer projectId={projectId} />
+          <FileWatcher projectId={projectId} />
+          <UtteranceCoverage projectId={projectId} />
         </Fragment>
       ))}
       <InitDispatcher onLoad={setLoaded} />
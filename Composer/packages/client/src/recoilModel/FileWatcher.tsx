@@ -0,0 +1,56 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import React, { useEffect } from 'react';
+import { CallbackInterface, useRecoilCallback } from 'recoil';
+import { ProjectFileChange } from '@botframework-composer/types';
+
+import httpClient from '../utils/httpUtil';
+
+import { dispatcherState } from './atoms';
+import { ConsoleMsgLevel, logMessage } from './dispatchers/shared';
+
+type FileWatcherProps = {
+  projectId: string;
+};
+
+/**
+ * Loads the bot files changed by other editors, like VS Code, while the project is open.
+ */
+export const FileWatcher = React.memo(({ projectId }: FileWatcherProps) => {
+  const onChange = useRecoilCallback(({ snapshot }: CallbackInterface) => async (changes: ProjectFileChange[]) => {
+    const { applyFileChanges } = await snapshot.getPromise(dispatcherState);
+    await applyFileChanges(projectId, changes);
+  });
+
+  const onError = useRecoilCallback((callbackHelpers: CallbackInterface) => (err: Error) => {
+    // the project can still be edited, the changes made by other editors are only loaded when it is reopened
+    logMessage(callbackHelpers, `Failed to watch the files of ${projectId}: ${err.message}`, ConsoleMsgLevel.Warn);
+  });
+
+  useEffect(() => {
+    let socket: WebSocket | undefined;
+    let unmounted = false;
+
+    const watch = async () => {
+      try {
+        const response = await httpClient.post(`/projects/${projectId}/watch`);
+        const { port, path } = response.data;
+        if (unmounted) return;
+
+        socket = new WebSocket(`ws://localhost:${port}${path}`);
+        socket.onmessage = (event) => onChange(JSON.parse(event.data));
+      } catch (err) {
+        onError(err);
+      }
+    };
+    watch();
+
+    return () => {
+      unmounted = true;
+      socket?.close();
+    };
+  }, [projectId]);
+
+  return null;
+});
@@ -0,0 +1,54 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import React, { useEffect } from 'react';
+import { CallbackInterface, useRecoilCallback, useRecoilValue, useSetRecoilState } from 'recoil';
+import { UtteranceCoverageReport } from '@bfc/shared';
+
+import { settingsState, utteranceCoverageState } from './atoms';
+import { luFilesSelectorFamily } from './selectors/lu';
+import luWorker from './parsers/luWorker';
+import { logMessage } from './dispatchers/shared';
+
+// the LU files change at every keystroke in the editor, the report is indexed once the editing pauses
+const indexDelay = 500;
+
+type UtteranceCoverageProps = {
+  projectId: string;
+};
+
+/**
+ * Indexes the utterance coverage report of the project in the LU worker, off the UI thread.
+ */
+export const UtteranceCoverage = React.memo(({ projectId }: UtteranceCoverageProps) => {
+  const luFiles = useRecoilValue(luFilesSelectorFamily(projectId));
+  const settings = useRecoilValue(settingsState(projectId));
+  const setReport = useSetRecoilState(utteranceCoverageState(projectId));
+
+  const onError = useRecoilCallback((callbackHelpers: CallbackInterface) => (err: Error) => {
+    // the report is indexed again at the next change of the LU files
+    logMessage(callbackHelpers, `Failed to index the utterance coverage of ${projectId}: ${err.message}`);
+  });
+
+  useEffect(() => {
+    //if the lu file still in the loading stage, do nothing
+    if (luFiles.some((item) => item.isContentUnparsed)) return;
+
+    let outdated = false;
+    const timer = setTimeout(async () => {
+      try {
+        const report = (await luWorker.indexUtteranceCoverage(luFiles, settings)) as UtteranceCoverageReport;
+        if (!outdated) setReport(report);
+      } catch (error) {
+        onError(error);
+      }
+    }, indexDelay);
+
+    return () => {
+      outdated = true;
+      clearTimeout(timer);
+    };
+  }, [luFiles, settings]);
+
+  return null;
+});
@@ -2,7 +2,15 @@
 // Licensed under the MIT License.
 
 import { atom, atomFamily } from 'recoil';
-import { FormDialogSchemaTemplate, FeatureFlagMap, BotTemplate, UserSettings, ExtensionSettings } from '@bfc/shared';
+import {
+  FormDialogSchemaTemplate,
+  FeatureFlagMap,
+  BotTemplate,
+  UserSettings,
+  ExtensionSettings,
+  LintRule,
+  ShellCommand,
+} from '@bfc/shared';
 import { ExtensionMetadata } from '@bfc/extension-client';
 
 import {
@@ -43,6 +51,8 @@ export type PageMode =
   | 'botProjectsSettings'
   | 'forms'
   | 'diagnostics'
+  | 'localization'
+  | 'search'
   | 'settings'
   | 'projects'
   | 'home'
@@ -223,6 +233,11 @@ export const extensionSettingsState = atom<ExtensionSettings>({
   default: {},
 });
 
+export const extensionLintRulesState = atom<LintRule[]>({
+  key: getFullyQualifiedKey('extensionLintRules'),
+  default: [],
+});
+
 export const botProjectIdsState = atom<string[]>({
   key: getFullyQualifiedKey('botProjectIdsState'),
   default: [],
@@ -344,3 +359,15 @@ export const isWebChatPanelVisibleState = atom<boolean>({
   key: getFullyQualifiedKey('isWebChatPanelVisible'),
   default: false,
 });
+
+// the local bots respond in the pseudo-locale generated from their default language, and Web Chat uses it
+export const pseudoLocalizationEnabledState = atom<boolean>({
+  key: getFullyQualifiedKey('pseudoLocalizationEnabled'),
+  default: false,
+});
+
+// the commands the extensions added to the command palette
+export const contributedCommandsState = atom<ShellCommand[]>({
+  key: getFullyQualifiedKey('contributedCommands'),
+  default: [],
+});
@@ -17,12 +17,22 @@ import {
   QnAFile,
   SkillManifestFile,
   RecognizerFile,
+  TranslationImportReport,
+  UtteranceCoverageReport,
 } from '@bfc/shared';
-import { ConversationTrafficItem } from '@botframework-composer/types';
+import { ConversationTrafficItem, GitCommit, GitStatus } from '@botframework-composer/types';
 import { atomFamily } from 'recoil';
 
-import { BotRuntimeError, DesignPageLocation, WebChatInspectionData } from '../../recoilModel/types';
+import {
+  BotRuntimeError,
+  DesignPageLocation,
+  DialogDiffData,
+  FileConflictData,
+  ProjectSearchData,
+  WebChatInspectionData,
+} from '../../recoilModel/types';
 import FilePersistence from '../persistence/FilePersistence';
+import { FileChangeSummary } from '../persistence/types';
 
 import { BotStatus } from './../../constants';
 import { PublishType } from './../../recoilModel/types';
@@ -313,6 +323,11 @@ export const showAddLanguageModalState = atomFamily<boolean, string>({
   default: false,
 });
 
+export const translationImportReportState = atomFamily<TranslationImportReport | null, string>({
+  key: getFullyQualifiedKey('translationImportReport'),
+  default: null,
+});
+
 export const showDelLanguageModalState = atomFamily<boolean, string>({
   key: getFullyQualifiedKey('showDelLanguageModal'),
   default: false,
@@ -449,3 +464,39 @@ export const botRuntimeLogState = atomFamily<string, string>({
   key: getFullyQualifiedKey('botRuntimeLogState'),
   default: '',
 });
+
+export const gitStatusState = atomFamily<GitStatus, string>({
+  key: getFullyQualifiedKey('gitStatus'),
+  default: { enabled: false, branches: [], changes: [] },
+});
+
+export const gitCommitsState = atomFamily<GitCommit[], string>({
+  key: getFullyQualifiedKey('gitCommits'),
+  default: [],
+});
+
+export const uncommittedChangesState = atomFamily<FileChangeSummary[], string>({
+  key: getFullyQualifiedKey('uncommittedChanges'),
+  default: [],
+});
+
+export const dialogDiffState = atomFamily<DialogDiffData | null, string>({
+  key: getFullyQualifiedKey('dialogDiff'),
+  default: null,
+});
+
+export const fileConflictState = atomFamily<FileConflictData | null, string>({
+  key: getFullyQualifiedKey('fileConflict'),
+  default: null,
+});
+
+export const projectSearchState = atomFamily<ProjectSearchData | null, string>({
+  key: getFullyQualifiedKey('projectSearch'),
+  default: null,
+});
+
+// the utterance conflicts are costly to find, the report is indexed by the LU worker when the LU files change
+export const utteranceCoverageState = atomFamily<UtteranceCoverageReport | null, string>({
+  key: getFullyQualifiedKey('utteranceCoverage'),
+  default: null,
+});
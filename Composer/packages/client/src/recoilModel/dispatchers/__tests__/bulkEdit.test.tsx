@@ -0,0 +1,237 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { useRecoilValue } from 'recoil';
+import { LgFile, LuFile } from '@bfc/shared';
+import { act, HookResult } from '@botframework-composer/test-utils/lib/hooks';
+
+import { bulkEditDispatcher } from '../bulkEdit';
+import { dialogsDispatcher } from '../dialogs';
+import { lgDispatcher } from '../lg';
+import { luDispatcher } from '../lu';
+import { qnaDispatcher } from '../qna';
+import { renderRecoilHook } from '../../../../__tests__/testUtils';
+import { dispatcherState, localeState, schemasState, settingsState } from '../../atoms';
+import {
+  dialogsSelectorFamily,
+  lgFilesSelectorFamily,
+  luFilesSelectorFamily,
+  qnaFilesSelectorFamily,
+} from '../../selectors';
+import { Dispatcher } from '..';
+
+const projectId = '2345.89012';
+const luFeatures = {};
+
+jest.mock('@bfc/indexers', () => {
+  return {
+    dialogIndexer: {
+      parse: (id: string, content) => ({
+        id,
+        content,
+      }),
+    },
+    validateDialog: () => [],
+    autofixReferInDialog: (_, content) => content,
+  };
+});
+
+jest.mock('../../parsers/lgWorker', () => {
+  const lgUtil = jest.requireActual('@bfc/indexers/lib/utils/lgUtil');
+  const filterParseResult = (lgFile: LgFile) => {
+    const cloned = { ...lgFile };
+    delete cloned.parseResult;
+    return cloned;
+  };
+  return {
+    parse: (projectId, id, content, lgFiles) => filterParseResult(lgUtil.parse(id, content, lgFiles)),
+    addTemplates: (projectId, lgFile, templates) => filterParseResult(lgUtil.addTemplates(lgFile, templates)),
+    removeTemplates: (projectId, lgFile, templateNames) =>
+      filterParseResult(lgUtil.removeTemplates(lgFile, templateNames)),
+  };
+});
+
+jest.mock('../../parsers/luWorker', () => {
+  const luUtil = jest.requireActual('@bfc/indexers/lib/utils/luUtil');
+  return {
+    parse: luUtil.parse,
+    addIntents: luUtil.addIntents,
+    removeIntents: luUtil.removeIntents,
+  };
+});
+
+const { parse: parseLg } = jest.requireActual('@bfc/indexers/lib/utils/lgUtil');
+const { parse: parseLu } = jest.requireActual('@bfc/indexers/lib/utils/luUtil');
+
+const getTrigger = (id: string) => ({
+  $kind: 'Microsoft.OnUnknownIntent',
+  $designer: { id: `trigger${id}` },
+  actions: [
+    {
+      $kind: 'Microsoft.SendActivity',
+      $designer: { id: `action${id}` },
+      activity: `\${SendActivity_action${id}()}`,
+    },
+  ],
+});
+
+const getDialog = (id: string, triggers: any[], isRoot = false) => ({
+  id,
+  isRoot,
+  displayName: id,
+  content: {
+    $kind: 'Microsoft.AdaptiveDialog',
+    $designer: { id: `${id}Designer` },
+    id,
+    generator: `${id}.lg`,
+    recognizer: `${id}.lu.qna`,
+    triggers,
+  },
+});
+
+describe('bulk edit dispatcher', () => {
+  const useRecoilTestHook = () => {
+    const dialogs = useRecoilValue(dialogsSelectorFamily(projectId));
+    const lgFiles = useRecoilValue(lgFilesSelectorFamily(projectId));
+    const currentDispatcher = useRecoilValue(dispatcherState);
+
+    return {
+      dialogs,
+      lgFiles,
+      currentDispatcher,
+    };
+  };
+
+  let renderedComponent: HookResult<ReturnType<typeof useRecoilTestHook>>, dispatcher: Dispatcher;
+
+  const getDialogContent = (id: string): any =>
+    renderedComponent.current.dialogs.find((dialog) => dialog.id === id)?.content;
+  const getLgContent = (id: string) => renderedComponent.current.lgFiles.find((file) => file.id === id)?.content ?? '';
+
+  beforeEach(() => {
+    const lgFiles = [
+      parseLg('main.en-us', '', []),
+      parseLg('a.en-us', '# SendActivity_action1\n- hello\n\n# SendActivity_action2\n- bye\n', []),
+      parseLg('b.en-us', '', []),
+    ] as LgFile[];
+    const luFiles = ['main.en-us', 'a.en-us', 'b.en-us'].map((id) => parseLu(id, '', luFeatures, [])) as LuFile[];
+
+    const { result } = renderRecoilHook(useRecoilTestHook, {
+      states: [
+        {
+          recoilState: dialogsSelectorFamily(projectId),
+          initialValue: [
+            getDialog('main', [], true),
+            getDialog('a', [getTrigger('1'), getTrigger('2')]),
+            getDialog('b', []),
+          ],
+        },
+        { recoilState: lgFilesSelectorFamily(projectId), initialValue: lgFiles },
+        { recoilState: luFilesSelectorFamily(projectId), initialValue: luFiles },
+        { recoilState: qnaFilesSelectorFamily(projectId), initialValue: [] },
+        { recoilState: localeState(projectId), initialValue: 'en-us' },
+        { recoilState: schemasState(projectId), initialValue: { sdk: { content: {} } } },
+        {
+          recoilState: settingsState(projectId),
+          initialValue: { languages: ['en-us'], defaultLanguage: 'en-us', luFeatures },
+        },
+      ],
+      dispatcher: {
+        recoilState: dispatcherState,
+        initialValue: {
+          bulkEditDispatcher,
+          dialogsDispatcher,
+          lgDispatcher,
+          luDispatcher,
+          qnaDispatcher,
+        },
+      },
+    });
+    renderedComponent = result;
+    dispatcher = renderedComponent.current.currentDispatcher;
+  });
+
+  it('deletes triggers with their responses', async () => {
+    await act(async () => {
+      await dispatcher.deleteTreeItems(projectId, [{ dialogId: 'a', triggerIndex: 0 }]);
+    });
+
+    expect(getDialogContent('a').triggers).toEqual([getTrigger('2')]);
+    expect(getLgContent('a.en-us')).not.toContain('SendActivity_action1');
+    expect(getLgContent('a.en-us')).toContain('SendActivity_action2');
+  });
+
+  it('does not delete the main dialog', async () => {
+    await act(async () => {
+      await dispatcher.deleteTreeItems(projectId, [{ dialogId: 'main' }, { dialogId: 'a', triggerIndex: 0 }]);
+    });
+
+    expect(renderedComponent.current.dialogs.map(({ id }) => id)).toEqual(['main', 'a', 'b']);
+    expect(getDialogContent('a').triggers).toHaveLength(2);
+  });
+
+  it('duplicates triggers with new designer ids and responses', async () => {
+    await act(async () => {
+      await dispatcher.duplicateTreeItems(projectId, [{ dialogId: 'a', triggerIndex: 1 }]);
+    });
+
+    const triggers = getDialogContent('a').triggers;
+    expect(triggers).toHaveLength(3);
+    const copyId = triggers[2].actions[0].$designer.id;
+    expect(copyId).not.toEqual('action2');
+    expect(triggers[2].actions[0].activity).toEqual(`\${SendActivity_${copyId}()}`);
+    expect(getLgContent('a.en-us')).toContain(`SendActivity_${copyId}`);
+  });
+
+  it('moves triggers to another dialog with their responses', async () => {
+    await act(async () => {
+      await dispatcher.moveTriggersToDialog(
+        projectId,
+        [
+          { dialogId: 'a', triggerIndex: 0 },
+          { dialogId: 'a', triggerIndex: 1 },
+        ],
+        'b'
+      );
+    });
+
+    expect(getDialogContent('a').triggers).toEqual([]);
+    expect(getDialogContent('b').triggers).toEqual([getTrigger('1'), getTrigger('2')]);
+    expect(getLgContent('a.en-us')).not.toContain('SendActivity_action1');
+    expect(getLgContent('b.en-us')).toContain('SendActivity_action1');
+    expect(getLgContent('b.en-us')).toContain('SendActivity_action2');
+  });
+
+  it('does not move triggers to a dialog without the language files of their responses', async () => {
+    await act(async () => {
+      await dispatcher.removeLgFile({ id: 'b.en-us', projectId });
+    });
+    await act(async () => {
+      await dispatcher.moveTriggersToDialog(projectId, [{ dialogId: 'a', triggerIndex: 0 }], 'b');
+    });
+
+    expect(getDialogContent('a').triggers).toEqual([getTrigger('1'), getTrigger('2')]);
+    expect(getDialogContent('b').triggers).toEqual([]);
+    expect(getLgContent('a.en-us')).toContain('SendActivity_action1');
+  });
+
+  it('names the recognizer of a duplicated dialog after the copy', async () => {
+    await act(async () => {
+      await dispatcher.duplicateTreeItems(projectId, [{ dialogId: 'a' }]);
+    });
+
+    expect(getDialogContent('a').recognizer).toEqual('a.lu.qna');
+    expect(getDialogContent('a_copy').recognizer).toEqual('a_copy.lu.qna');
+    expect(getDialogContent('a_copy').generator).toEqual('a_copy.lg');
+  });
+
+  it('names the recognizer of an extracted dialog after the new dialog', async () => {
+    await act(async () => {
+      await dispatcher.extractTriggersToDialog(projectId, [{ dialogId: 'a', triggerIndex: 0 }], 'c');
+    });
+
+    expect(getDialogContent('c').recognizer).toEqual('c.lu.qna');
+    expect(getDialogContent('c').triggers).toEqual([getTrigger('1')]);
+    expect(getLgContent('c.en-us')).toContain('SendActivity_action1');
+  });
+});
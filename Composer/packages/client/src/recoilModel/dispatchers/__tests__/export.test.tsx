@@ -3,6 +3,7 @@
 
 import { useRecoilValue } from 'recoil';
 import { act, HookResult } from '@botframework-composer/test-utils/lib/hooks';
+import { LuTestSetReport } from '@bfc/shared';
 
 import httpClient from '../../../utils/httpUtil';
 import { exportDispatcher } from '../export';
@@ -85,4 +86,73 @@ describe('Export dispatcher', () => {
       dispatcher.exportToZip(projectId);
     });
   });
+
+  it('should export the diagnostics as a SARIF log', async () => {
+    const setAttributeMock = jest.fn();
+    document.body.appendChild = jest.fn();
+    window.URL.createObjectURL = jest.fn(() => '');
+    document.createElement = (() => ({ click: jest.fn(), setAttribute: setAttributeMock })) as any;
+    (httpClient.post as jest.Mock).mockResolvedValueOnce({ data: '{}' });
+
+    await act(async () => {
+      await dispatcher.exportDiagnostics(projectId, 'sarif');
+    });
+
+    expect(httpClient.post).toHaveBeenCalledWith(
+      `/projects/${projectId}/diagnostics/export`,
+      { format: 'sarif', diagnostics: expect.any(Array) },
+      { responseType: 'blob' }
+    );
+    expect(setAttributeMock).toHaveBeenCalledWith('download', 'emptybot-1_diagnostics.sarif');
+  });
+
+  it('should download the translations of a locale as an XLIFF file', async () => {
+    const setAttributeMock = jest.fn();
+    document.body.appendChild = jest.fn();
+    window.URL.createObjectURL = jest.fn(() => '');
+    document.createElement = (() => ({ click: jest.fn(), setAttribute: setAttributeMock })) as any;
+    (httpClient.get as jest.Mock).mockResolvedValueOnce({ data: '<xliff/>' });
+
+    await act(async () => {
+      await dispatcher.exportTranslations(projectId, 'fr-fr');
+    });
+
+    expect(httpClient.get).toHaveBeenCalledWith(`/projects/${projectId}/translations/fr-fr/export`, {
+      responseType: 'blob',
+    });
+    expect(setAttributeMock).toHaveBeenCalledWith('download', 'emptybot-1.fr-fr.xlf');
+  });
+
+  it('should download the LU test reports', async () => {
+    const setAttributeMock = jest.fn();
+    document.body.appendChild = jest.fn();
+    window.URL.createObjectURL = jest.fn(() => '');
+    document.createElement = (() => ({ click: jest.fn(), setAttribute: setAttributeMock })) as any;
+    (httpClient.post as jest.Mock).mockResolvedValueOnce({ data: 'testSet,dialog' });
+    const reports: LuTestSetReport[] = [
+      {
+        id: 'tests/order.en-us.lutest',
+        dialog: 'order',
+        locale: 'en-us',
+        utteranceCount: 0,
+        passed: 0,
+        failed: 0,
+        accuracy: 0,
+        results: [],
+        intents: [],
+        confusionMatrix: { intents: [], counts: [] },
+      },
+    ];
+
+    await act(async () => {
+      await dispatcher.exportLuTestReports(projectId, 'csv', reports);
+    });
+
+    expect(httpClient.post).toHaveBeenCalledWith(
+      `/projects/${projectId}/luTests/export`,
+      { format: 'csv', reports },
+      { responseType: 'blob' }
+    );
+    expect(setAttributeMock).toHaveBeenCalledWith('download', 'emptybot-1_lutests.csv');
+  });
 });
@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { useRecoilValue } from 'recoil';
+import { act, HookResult } from '@botframework-composer/test-utils/lib/hooks';
+
+import httpClient from '../../../utils/httpUtil';
+import { gitDispatcher } from '../git';
+import { renderRecoilHook } from '../../../../__tests__/testUtils';
+import { dialogDiffState, dispatcherState, gitStatusState } from '../../atoms';
+import { dialogDiffSelectorFamily, dialogsSelectorFamily } from '../../selectors';
+import { Dispatcher } from '..';
+
+jest.mock('../../../utils/httpUtil');
+
+const projectId = '2345.32324';
+
+const committedDialog = {
+  $kind: 'Microsoft.AdaptiveDialog',
+  triggers: [
+    {
+      $kind: 'Microsoft.OnBeginDialog',
+      $designer: { id: 't1' },
+      actions: [{ $kind: 'Microsoft.SendActivity', $designer: { id: 'a1' }, activity: '${SendActivity_a1()}' }],
+    },
+  ],
+};
+
+const currentDialog = {
+  ...committedDialog,
+  triggers: [{ ...committedDialog.triggers[0], actions: [] }],
+};
+
+describe('Git dispatcher', () => {
+  const useRecoilTestHook = () => {
+    const gitStatus = useRecoilValue(gitStatusState(projectId));
+    const dialogDiff = useRecoilValue(dialogDiffState(projectId));
+    const dialogDiffItems = useRecoilValue(dialogDiffSelectorFamily({ projectId, dialogId: 'main' }));
+    const currentDispatcher = useRecoilValue(dispatcherState);
+    return {
+      gitStatus,
+      dialogDiff,
+      dialogDiffItems,
+      currentDispatcher,
+    };
+  };
+
+  let renderedComponent: HookResult<ReturnType<typeof useRecoilTestHook>>, dispatcher: Dispatcher;
+
+  beforeEach(() => {
+    const { result } = renderRecoilHook(useRecoilTestHook, {
+      states: [
+        { recoilState: dialogsSelectorFamily(projectId), initialValue: [{ id: 'main', content: currentDialog }] },
+      ],
+      dispatcher: {
+        recoilState: dispatcherState,
+        initialValue: {
+          gitDispatcher,
+        },
+      },
+    });
+    renderedComponent = result;
+    dispatcher = renderedComponent.current.currentDispatcher;
+  });
+
+  it('should fetch the status of the repository', async () => {
+    const status = { enabled: true, branch: 'main', branches: ['main'], changes: [] };
+    (httpClient.get as jest.Mock).mockResolvedValue({ data: status });
+
+    await act(async () => {
+      await dispatcher.fetchGitStatus(projectId);
+    });
+
+    expect(httpClient.get).toHaveBeenCalledWith(`/projects/${projectId}/git/status`);
+    expect(renderedComponent.current.gitStatus).toEqual(status);
+  });
+
+  it('should compare a dialog with its last commit', async () => {
+    (httpClient.get as jest.Mock).mockResolvedValue({ data: { content: JSON.stringify(committedDialog) } });
+
+    await act(async () => {
+      await dispatcher.compareDialog(projectId, { path: 'main.dialog', status: 'modified' });
+    });
+
+    expect(httpClient.get).toHaveBeenCalledWith(`/projects/${projectId}/git/file`, {
+      params: { path: 'main.dialog', revision: 'HEAD' },
+    });
+    expect(renderedComponent.current.dialogDiff).toMatchObject({ dialogId: 'main', revision: 'HEAD' });
+    expect(renderedComponent.current.dialogDiffItems).toEqual([
+      { kind: 'removed', designId: 'a1', $kind: 'Microsoft.SendActivity', path: 'triggers[0].actions[0]' },
+    ]);
+
+    await act(async () => {
+      await dispatcher.clearDialogDiff(projectId);
+    });
+
+    expect(renderedComponent.current.dialogDiff).toBeNull();
+    expect(renderedComponent.current.dialogDiffItems).toBeUndefined();
+  });
+});
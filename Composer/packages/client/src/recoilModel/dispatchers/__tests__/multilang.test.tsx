@@ -14,9 +14,29 @@ import {
   currentProjectIdState,
   dispatcherState,
 } from '../../atoms';
-import { dialogsSelectorFamily, lgFilesSelectorFamily, luFilesSelectorFamily } from '../../selectors';
+import {
+  dialogsSelectorFamily,
+  lgFilesSelectorFamily,
+  luFilesSelectorFamily,
+  qnaFilesSelectorFamily,
+} from '../../selectors';
 import { Dispatcher } from '..';
 import { multilangDispatcher } from '../multilang';
+import httpClient from '../../../utils/httpUtil';
+
+jest.mock('../../../utils/httpUtil');
+
+jest.mock('../../parsers/lgWorker', () => ({
+  parse: (projectId, id, content) => ({ id, content }),
+}));
+
+jest.mock('../../parsers/luWorker', () => ({
+  parse: (id, content) => ({ id, content }),
+}));
+
+jest.mock('../../parsers/qnaWorker', () => ({
+  parse: (id, content) => ({ id, content }),
+}));
 
 const state = {
   dialogs: [{ id: '1' }, { id: '2' }],
@@ -44,6 +64,7 @@ describe('Multilang dispatcher', () => {
     const settings = useRecoilValue(settingsState(state.projectId));
     const luFiles = useRecoilValue(luFilesSelectorFamily(state.projectId));
     const lgFiles = useRecoilValue(lgFilesSelectorFamily(state.projectId));
+    const qnaFiles = useRecoilValue(qnaFilesSelectorFamily(state.projectId));
     const onAddLanguageDialogComplete = useRecoilValue(onAddLanguageDialogCompleteState(state.projectId));
     const onDelLanguageDialogComplete = useRecoilValue(onDelLanguageDialogCompleteState(state.projectId));
 
@@ -55,6 +76,7 @@ describe('Multilang dispatcher', () => {
       settings,
       luFiles,
       lgFiles,
+      qnaFiles,
       currentDispatcher,
       actionsSeed,
       onAddLanguageDialogComplete,
@@ -120,4 +142,29 @@ describe('Multilang dispatcher', () => {
     });
     expect(renderedComponent.current.locale).toEqual('fr-fr');
   });
+
+  it('imports the translations into the locale files of the language', async () => {
+    (httpClient.post as jest.Mock).mockResolvedValue({
+      data: {
+        report: { locale: 'fr-fr', translated: 2, untranslated: [], stale: [], invalid: [] },
+        files: [
+          { name: 'a.fr-fr.lg', content: '# Greeting\n- Salut' },
+          { name: 'a.fr-fr.qna', content: '# ? hi\n```\nSalut\n```' },
+        ],
+      },
+    });
+    await act(async () => {
+      await dispatcher.importTranslations(state.projectId, '<xliff/>');
+    });
+
+    expect(httpClient.post).toHaveBeenCalledWith(`/projects/${state.projectId}/translations/import`, {
+      xliff: '<xliff/>',
+    });
+    expect(renderedComponent.current.lgFiles.map(({ id, content }) => ({ id, content }))).toEqual([
+      { id: 'a.en-us', content: 'hi' },
+      { id: 'a.fr-fr', content: '# Greeting\n- Salut' },
+    ]);
+    // the locale files missing in the bot are added
+    expect(renderedComponent.current.qnaFiles).toEqual([{ id: 'a.fr-fr', content: '# ? hi\n```\nSalut\n```' }]);
+  });
 });
@@ -0,0 +1,600 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+/* eslint-disable react-hooks/rules-of-hooks */
+import { useRecoilCallback, CallbackInterface } from 'recoil';
+import cloneDeep from 'lodash/cloneDeep';
+import formatMessage from 'format-message';
+import {
+  deepCopyActions,
+  deleteActions,
+  DialogFactory,
+  DialogInfo,
+  extractLgTemplateRefs,
+  FieldProcessorAsync,
+  getDesignerId,
+  ILUFeaturesConfig,
+  LgFile,
+  LgTemplate,
+  LuFile,
+  LuIntentSection,
+  MicrosoftIDialog,
+  QnAFile,
+  SDKKinds,
+  walkAdaptiveActionList,
+} from '@bfc/shared';
+
+import { getBaseName, getExtension } from '../../utils/fileUtil';
+import { dispatcherState } from '../atoms';
+import { localeState, schemasState, settingsState } from '../atoms/botState';
+import { dialogsSelectorFamily, luFilesSelectorFamily, qnaFilesSelectorFamily } from '../selectors';
+import { lgFilesSelectorFamily } from '../selectors/lg';
+import { BulkEditItem } from '../types';
+import { undoFunctionState } from '../undo/history';
+import LgWorker from '../parsers/lgWorker';
+import luWorker from '../parsers/luWorker';
+
+import { setError } from './shared';
+
+type TriggerContent = MicrosoftIDialog & { intent?: string; actions?: MicrosoftIDialog[] };
+
+type FileContent = { id: string; content: string };
+
+/**
+ * The dialogs and the language files of a project as they are changed by a bulk edit. Nothing is applied
+ * to the project before every change is computed, so an edit that can't be made leaves the project unchanged.
+ * The changes are then applied one file at a time and undone as one change.
+ */
+class ProjectEdit {
+  public projectId: string;
+  public lgFiles: LgFile[];
+  public luFiles: LuFile[];
+  private dialogInfos: DialogInfo[];
+  private qnaFiles: QnAFile[];
+  private languages: string[];
+  private locale: string;
+  private luFeatures: ILUFeaturesConfig;
+  private dialogs: Record<string, any> = {};
+  private changedDialogs = new Set<string>();
+  private createdDialogs: string[] = [];
+  private removedDialogs: string[] = [];
+  private changedFiles = new Set<string>();
+  private qnaContents: Record<string, string> = {};
+
+  constructor(
+    projectId: string,
+    dialogs: DialogInfo[],
+    files: { lgFiles: LgFile[]; luFiles: LuFile[]; qnaFiles: QnAFile[] },
+    settings: { languages: string[]; locale: string; luFeatures: ILUFeaturesConfig }
+  ) {
+    this.projectId = projectId;
+    this.dialogInfos = dialogs;
+    this.lgFiles = files.lgFiles;
+    this.luFiles = files.luFiles;
+    this.qnaFiles = files.qnaFiles;
+    this.languages = settings.languages;
+    this.locale = settings.locale;
+    this.luFeatures = settings.luFeatures;
+  }
+
+  public hasDialog(id: string) {
+    const dialogIds = [...this.dialogInfos.map((dialog) => dialog.id), ...this.createdDialogs];
+    return dialogIds.some((dialogId) => dialogId.toLowerCase() === id.toLowerCase());
+  }
+
+  // the content of the dialog as edited so far, copied from the project the first time
+  public getDialog(id: string) {
+    if (!this.dialogs[id]) {
+      const dialog = this.dialogInfos.find((item) => item.id === id);
+      if (!dialog || this.removedDialogs.includes(id)) {
+        throw new Error(formatMessage('Dialog {id} does not exist.', { id }));
+      }
+      this.dialogs[id] = cloneDeep(dialog.content);
+    }
+    return this.dialogs[id];
+  }
+
+  // the content of the dialog to change in place
+  public editDialog(id: string) {
+    const content = this.getDialog(id);
+    if (!this.createdDialogs.includes(id)) {
+      this.changedDialogs.add(id);
+    }
+    return content;
+  }
+
+  public removeDialog(id: string) {
+    const dialog = this.dialogInfos.find((item) => item.id === id);
+    if (!dialog) throw new Error(formatMessage('Dialog {id} does not exist.', { id }));
+    if (dialog.isRoot) throw new Error(formatMessage('The main dialog {id} cannot be deleted.', { id }));
+    this.removedDialogs.push(id);
+  }
+
+  // the language files of a new dialog are copied from the ones of another dialog, or created like new ones
+  public async createDialog(id: string, content: any, copyOf?: string) {
+    this.dialogs[id] = content;
+    this.createdDialogs.push(id);
+
+    const hasCommonLg = this.lgFiles.some((file) => file.id === `common.${this.locale}`);
+    for (const language of this.languages) {
+      const lgContent = this.getLgFile(copyOf, language)?.content ?? (hasCommonLg ? '[import](common.lg)\n' : '\n');
+      const lgFile = (await LgWorker.parse(this.projectId, `${id}.${language}`, lgContent, this.lgFiles)) as LgFile;
+      this.lgFiles = [...this.lgFiles, lgFile];
+      this.changedFiles.add(`${lgFile.id}.lg`);
+
+      const luContent = this.getLuFile(copyOf, language)?.content ?? '';
+      const luFile = (await luWorker.parse(`${id}.${language}`, luContent, this.luFeatures, this.luFiles)) as LuFile;
+      this.luFiles = [...this.luFiles, luFile];
+      this.changedFiles.add(`${luFile.id}.lu`);
+
+      const qnaFile = this.qnaFiles.find((file) => file.id === `${copyOf}.${language}`);
+      if (copyOf && qnaFile) {
+        this.qnaContents[`${id}.${language}`] = qnaFile.content;
+      }
+    }
+  }
+
+  public getLgFile(dialogId: string | undefined, language: string) {
+    return this.lgFiles.find((file) => file.id === `${dialogId}.${language}`);
+  }
+
+  public getLuFile(dialogId: string | undefined, language: string) {
+    return this.luFiles.find((file) => file.id === `${dialogId}.${language}`);
+  }
+
+  public lgFilesOf(dialogId: string) {
+    return this.lgFiles.filter((file) => getBaseName(file.id) === dialogId);
+  }
+
+  public luFilesOf(dialogId: string) {
+    return this.luFiles.filter((file) => getBaseName(file.id) === dialogId);
+  }
+
+  public async addTemplates(lgFile: LgFile, templates: LgTemplate[]) {
+    const changed = (await LgWorker.addTemplates(
+      this.projectId,
+      lgFile,
+      templates.map(({ name, parameters = [], body }) => ({ name, parameters, body })),
+      this.lgFiles
+    )) as LgFile;
+    this.setLgFile(changed);
+  }
+
+  public async removeTemplates(lgFile: LgFile, templateNames: string[]) {
+    const changed = (await LgWorker.removeTemplates(this.projectId, lgFile, templateNames, this.lgFiles)) as LgFile;
+    this.setLgFile(changed);
+  }
+
+  public async addIntents(luFile: LuFile, intents: LuIntentSection[]) {
+    const changed = (await luWorker.addIntents(
+      luFile,
+      intents.map(({ Name, Body }) => ({ Name, Body })),
+      this.luFeatures,
+      this.luFiles
+    )) as LuFile;
+    this.setLuFile(changed);
+  }
+
+  public async removeIntents(luFile: LuFile, intentNames: string[]) {
+    const changed = (await luWorker.removeIntents(luFile, intentNames, this.luFeatures, this.luFiles)) as LuFile;
+    this.setLuFile(changed);
+  }
+
+  public getChanges() {
+    const isKept = (id: string) => !this.removedDialogs.includes(getBaseName(id));
+    const changedFiles = (extension: string, files: FileContent[]): FileContent[] =>
+      files
+        .filter(({ id }) => this.changedFiles.has(`${id}.${extension}`) && isKept(id))
+        .map(({ id, content }) => ({ id, content }));
+
+    return {
+      removedDialogs: this.removedDialogs,
+      createdDialogs: this.createdDialogs.map((id) => ({ id, content: this.dialogs[id] })),
+      dialogs: Array.from(this.changedDialogs)
+        .filter(isKept)
+        .map((id) => ({ id, content: this.dialogs[id] })),
+      lgFiles: changedFiles('lg', this.lgFiles),
+      luFiles: changedFiles('lu', this.luFiles),
+      qnaFiles: Object.keys(this.qnaContents).map((id) => ({ id, content: this.qnaContents[id] })),
+    };
+  }
+
+  private setLgFile(lgFile: LgFile) {
+    this.lgFiles = this.lgFiles.map((file) => (file.id === lgFile.id ? lgFile : file));
+    this.changedFiles.add(`${lgFile.id}.lg`);
+  }
+
+  private setLuFile(luFile: LuFile) {
+    this.luFiles = this.luFiles.map((file) => (file.id === luFile.id ? luFile : file));
+    this.changedFiles.add(`${luFile.id}.lu`);
+  }
+}
+
+const isRegexRecognizer = (content: any) => content?.recognizer?.$kind === SDKKinds.RegexRecognizer;
+
+// a LUIS and QnA recognizer is named after its dialog, e.g. "a.lu.qna"
+const getRecognizerOf = (recognizer: any, dialogId: string) =>
+  typeof recognizer === 'string' && recognizer.endsWith('.lu.qna') ? `${dialogId}.lu.qna` : recognizer;
+
+const isIntentUsed = (content: any, intent: string) =>
+  (content.triggers ?? []).some(
+    (trigger: TriggerContent) => trigger.$kind === SDKKinds.OnIntent && trigger.intent === intent
+  );
+
+// Composer names the LG templates and the LU intents of an action after its designer id, e.g. SendActivity_XaK2Y1
+const getDesignerIds = (triggers: TriggerContent[]) => {
+  const ids = new Set<string>();
+  triggers.forEach((trigger) => {
+    if (trigger.$designer?.id) ids.add(trigger.$designer.id);
+    walkAdaptiveActionList(trigger.actions ?? [], (action) => {
+      if (typeof action !== 'string' && action?.$designer?.id) ids.add(action.$designer.id);
+    });
+  });
+  return ids;
+};
+
+const isOwnedTemplate = (name: string, ids: Set<string>) => name.split('_').some((part) => ids.has(part));
+
+// the templates of the triggers, and the other templates of the same file they refer to
+const getTriggerTemplates = (lgFile: LgFile, ids: Set<string>) => {
+  const owned = lgFile.templates.filter(({ name }) => isOwnedTemplate(name, ids));
+  const referred: LgTemplate[] = [];
+  const pending = [...owned];
+  while (pending.length) {
+    const template = pending.pop() as LgTemplate;
+    extractLgTemplateRefs(template.body).forEach(({ name }) => {
+      const target = lgFile.templates.find((item) => item.name === name);
+      if (target && !owned.includes(target) && !referred.includes(target)) {
+        referred.push(target);
+        pending.push(target);
+      }
+    });
+  }
+  return { owned, referred };
+};
+
+// the intents of the OnIntent triggers and of their input actions, the ones removed with the actions
+const getTriggerIntents = async (triggers: TriggerContent[]) => {
+  const intents: string[] = [];
+  for (const trigger of triggers) {
+    if (trigger.$kind === SDKKinds.OnIntent && trigger.intent) {
+      intents.push(trigger.intent);
+    }
+    await deleteActions(
+      trigger.actions ?? [],
+      async () => {},
+      async (names: string[]) => {
+        intents.push(...names);
+      }
+    );
+  }
+  return intents;
+};
+
+const groupTriggers = (items: BulkEditItem[], excludedDialogIds: string[] = []) => {
+  const triggers = new Map<string, number[]>();
+  items.forEach(({ dialogId, triggerIndex }) => {
+    if (triggerIndex === undefined || excludedDialogIds.includes(dialogId)) return;
+    triggers.set(dialogId, [...(triggers.get(dialogId) ?? []), triggerIndex]);
+  });
+  return triggers;
+};
+
+const getUniqueName = (name: string, isUsed: (name: string) => boolean) => {
+  let uniqueName = name;
+  for (let index = 1; isUsed(uniqueName); index++) {
+    uniqueName = `${name}${index}`;
+  }
+  return uniqueName;
+};
+
+const takeTriggers = (edit: ProjectEdit, dialogId: string, indexes: number[]): TriggerContent[] => {
+  const content = edit.editDialog(dialogId);
+  const triggers: TriggerContent[] = content.triggers ?? [];
+  content.triggers = triggers.filter((_, index) => !indexes.includes(index));
+  return triggers.filter((_, index) => indexes.includes(index));
+};
+
+// removes the regex patterns, LG templates and LU intents the triggers taken out of the dialog no longer need
+const removeTriggerResources = async (edit: ProjectEdit, dialogId: string, triggers: TriggerContent[]) => {
+  const content = edit.editDialog(dialogId);
+  const intents = (await getTriggerIntents(triggers)).filter((intent) => !isIntentUsed(content, intent));
+  if (isRegexRecognizer(content)) {
+    content.recognizer.intents = (content.recognizer.intents ?? []).filter(({ intent }) => !intents.includes(intent));
+  }
+
+  const ids = getDesignerIds(triggers);
+  for (const lgFile of edit.lgFilesOf(dialogId)) {
+    const names = getTriggerTemplates(lgFile, ids).owned.map(({ name }) => name);
+    if (names.length) await edit.removeTemplates(lgFile, names);
+  }
+  for (const luFile of edit.luFilesOf(dialogId)) {
+    const names = intents.filter((intent) => luFile.intents.some(({ Name }) => Name === intent));
+    if (names.length) await edit.removeIntents(luFile, names);
+  }
+};
+
+// copies the regex patterns, LG templates and LU intents of the triggers to the dialog they are moved to. The move
+// stops when that dialog has no LG or LU file of a language the templates or the intents are in.
+const copyTriggerResources = async (
+  edit: ProjectEdit,
+  fromDialogId: string,
+  toDialogId: string,
+  triggers: TriggerContent[]
+) => {
+  const from = edit.getDialog(fromDialogId);
+  const to = edit.editDialog(toDialogId);
+  const intents = await getTriggerIntents(triggers);
+  if (isRegexRecognizer(from) && isRegexRecognizer(to)) {
+    const existing = (to.recognizer.intents ?? []).map(({ intent }) => intent);
+    const patterns = (from.recognizer.intents ?? []).filter(
+      ({ intent }) => intents.includes(intent) && !existing.includes(intent)
+    );
+    to.recognizer.intents = [...(to.recognizer.intents ?? []), ...cloneDeep(patterns)];
+  }
+
+  const ids = getDesignerIds(triggers);
+  for (const lgFile of edit.lgFilesOf(fromDialogId)) {
+    const language = getExtension(lgFile.id);
+    const target = edit.getLgFile(toDialogId, language);
+    const { owned, referred } = getTriggerTemplates(lgFile, ids);
+    if (!owned.length) continue;
+    if (!target) {
+      throw new Error(
+        formatMessage('The triggers cannot be moved, dialog {id} has no bot responses in {language}.', {
+          id: toDialogId,
+          language,
+        })
+      );
+    }
+    const templates = [...owned, ...referred].filter(
+      ({ name }) => !target.templates.some((item) => item.name === name)
+    );
+    if (templates.length) await edit.addTemplates(target, templates);
+  }
+  for (const luFile of edit.luFilesOf(fromDialogId)) {
+    const language = getExtension(luFile.id);
+    const target = edit.getLuFile(toDialogId, language);
+    const sections = luFile.intents.filter(({ Name }) => intents.includes(Name));
+    if (!sections.length) continue;
+    if (!target) {
+      throw new Error(
+        formatMessage('The triggers cannot be moved, dialog {id} has no user input in {language}.', {
+          id: toDialogId,
+          language,
+        })
+      );
+    }
+    const added = sections.filter(({ Name }) => !target.intents.some((item) => item.Name === Name));
+    if (added.length) await edit.addIntents(target, added);
+  }
+};
+
+const moveTriggers = async (edit: ProjectEdit, fromDialogId: string, indexes: number[], toDialogId: string) => {
+  if (fromDialogId === toDialogId) return;
+  const triggers = takeTriggers(edit, fromDialogId, indexes);
+  await copyTriggerResources(edit, fromDialogId, toDialogId, triggers);
+  const to = edit.editDialog(toDialogId);
+  to.triggers = [...(to.triggers ?? []), ...triggers];
+  await removeTriggerResources(edit, fromDialogId, triggers);
+};
+
+// copies the trigger with new designer ids, the references to the LG templates of the actions are renamed after them
+const copyTrigger = async (trigger: TriggerContent) => {
+  const ids = new Map<string, string>();
+  const rename = (text: string) => Array.from(ids).reduce((result, [from, to]) => result.split(from).join(to), text);
+
+  const copyLgField: FieldProcessorAsync<string> = async (fromId, fromAction, toId, toAction, fieldName) => {
+    if (fromId) ids.set(fromId, toId);
+    const value = fromAction[fieldName];
+    return typeof value === 'string' ? rename(value) : value;
+  };
+  const copyLuField: FieldProcessorAsync<undefined> = async (fromId, fromAction, toId) => {
+    if (fromId) ids.set(fromId, toId);
+    return undefined;
+  };
+
+  const $designer = getDesignerId(trigger.$designer);
+  if (trigger.$designer?.id) ids.set(trigger.$designer.id, $designer.id);
+  const actions = await deepCopyActions(trigger.actions ?? [], copyLgField, copyLuField);
+  const copy: TriggerContent = { ...cloneDeep(trigger), $designer, actions };
+  return { copy, rename };
+};
+
+const duplicateTriggers = async (edit: ProjectEdit, dialogId: string, indexes: number[]) => {
+  const content = edit.editDialog(dialogId);
+  const triggers: TriggerContent[] = content.triggers ?? [];
+  const isIntentNameUsed = (name: string) =>
+    isIntentUsed(content, name) ||
+    edit.luFilesOf(dialogId).some((file) => file.intents.some(({ Name }) => Name === name));
+
+  for (const index of indexes) {
+    const trigger = triggers[index];
+    if (!trigger) continue;
+    const { copy, rename } = await copyTrigger(trigger);
+    // two triggers of the same intent would both run, the copy gets its own intent
+    if (trigger.$kind === SDKKinds.OnIntent && trigger.intent) {
+      copy.intent = getUniqueName(`${trigger.intent}_Copy`, isIntentNameUsed);
+    }
+    const renameIntent = (name: string) => (name === trigger.intent ? (copy.intent as string) : rename(name));
+
+    if (isRegexRecognizer(content) && copy.intent !== trigger.intent) {
+      const pattern = (content.recognizer.intents ?? []).find(({ intent }) => intent === trigger.intent);
+      if (pattern) content.recognizer.intents.push({ ...pattern, intent: copy.intent });
+    }
+
+    const ids = getDesignerIds([trigger]);
+    for (const lgFile of edit.lgFilesOf(dialogId)) {
+      const templates = getTriggerTemplates(lgFile, ids)
+        .owned.map((template) => ({ ...template, name: rename(template.name), body: rename(template.body) }))
+        .filter(({ name }) => !lgFile.templates.some((item) => item.name === name));
+      if (templates.length) await edit.addTemplates(lgFile, templates);
+    }
+
+    const intents = await getTriggerIntents([trigger]);
+    for (const luFile of edit.luFilesOf(dialogId)) {
+      const sections = luFile.intents
+        .filter(({ Name }) => intents.includes(Name))
+        .map((section) => ({ ...section, Name: renameIntent(section.Name) }))
+        .filter(({ Name }) => !luFile.intents.some((item) => item.Name === Name));
+      if (sections.length) await edit.addIntents(luFile, sections);
+    }
+
+    triggers.push(copy);
+  }
+  content.triggers = triggers;
+};
+
+const duplicateDialog = async (edit: ProjectEdit, dialogId: string) => {
+  const id = getUniqueName(`${dialogId}_copy`, (name) => edit.hasDialog(name));
+  const content = cloneDeep(edit.getDialog(dialogId));
+  content.$designer = { ...getDesignerId(content.$designer), name: id };
+  content.id = id;
+  content.recognizer = getRecognizerOf(content.recognizer, id);
+  if (content.generator === `${dialogId}.lg`) content.generator = `${id}.lg`;
+  await edit.createDialog(id, content, dialogId);
+};
+
+const createProjectEdit = async ({ snapshot }: CallbackInterface, projectId: string) => {
+  const dialogs = await snapshot.getPromise(dialogsSelectorFamily(projectId));
+  const lgFiles = await snapshot.getPromise(lgFilesSelectorFamily(projectId));
+  const luFiles = await snapshot.getPromise(luFilesSelectorFamily(projectId));
+  const qnaFiles = await snapshot.getPromise(qnaFilesSelectorFamily(projectId));
+  const locale = await snapshot.getPromise(localeState(projectId));
+  const { languages, luFeatures } = await snapshot.getPromise(settingsState(projectId));
+  return new ProjectEdit(projectId, dialogs, { lgFiles, luFiles, qnaFiles }, { languages, locale, luFeatures });
+};
+
+// the whole edit is undone as one change
+const applyProjectEdit = async ({ snapshot }: CallbackInterface, edit: ProjectEdit) => {
+  const { projectId } = edit;
+  const { removedDialogs, createdDialogs, dialogs, lgFiles, luFiles, qnaFiles } = edit.getChanges();
+  const {
+    removeDialog,
+    createDialog,
+    updateDialog,
+    updateLgFile,
+    updateLuFile,
+    updateQnAFile,
+  } = await snapshot.getPromise(dispatcherState);
+
+  for (const id of removedDialogs) {
+    await removeDialog(id, projectId);
+  }
+  for (const { id, content } of createdDialogs) {
+    await createDialog({ id, content, projectId });
+  }
+  for (const { id, content } of dialogs) {
+    await updateDialog({ id, content, projectId });
+  }
+  for (const { id, content } of lgFiles) {
+    await updateLgFile({ id, content, projectId });
+  }
+  for (const { id, content } of luFiles) {
+    await updateLuFile({ id, content, projectId });
+  }
+  for (const { id, content } of qnaFiles) {
+    await updateQnAFile({ id, content, projectId });
+  }
+
+  const { commitChanges } = await snapshot.getPromise(undoFunctionState(projectId));
+  commitChanges?.();
+};
+
+export const bulkEditDispatcher = () => {
+  // the triggers of the deleted dialogs are deleted with them
+  const deleteTreeItems = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, items: BulkEditItem[]) => {
+      try {
+        const edit = await createProjectEdit(callbackHelpers, projectId);
+        const dialogIds = items
+          .filter(({ triggerIndex }) => triggerIndex === undefined)
+          .map(({ dialogId }) => dialogId);
+        dialogIds.forEach((dialogId) => edit.removeDialog(dialogId));
+        for (const [dialogId, indexes] of groupTriggers(items, dialogIds)) {
+          const triggers = takeTriggers(edit, dialogId, indexes);
+          await removeTriggerResources(edit, dialogId, triggers);
+        }
+        await applyProjectEdit(callbackHelpers, edit);
+      } catch (ex) {
+        setError(callbackHelpers, ex);
+      }
+    }
+  );
+
+  // the dialogs are copied to new dialogs, the triggers of the other dialogs are added again to their dialog
+  const duplicateTreeItems = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, items: BulkEditItem[]) => {
+      try {
+        const edit = await createProjectEdit(callbackHelpers, projectId);
+        const dialogIds = items
+          .filter(({ triggerIndex }) => triggerIndex === undefined)
+          .map(({ dialogId }) => dialogId);
+        for (const dialogId of dialogIds) {
+          await duplicateDialog(edit, dialogId);
+        }
+        for (const [dialogId, indexes] of groupTriggers(items, dialogIds)) {
+          await duplicateTriggers(edit, dialogId, indexes);
+        }
+        await applyProjectEdit(callbackHelpers, edit);
+      } catch (ex) {
+        setError(callbackHelpers, ex);
+      }
+    }
+  );
+
+  const moveTriggersToDialog = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, items: BulkEditItem[], toDialogId: string) => {
+      try {
+        const edit = await createProjectEdit(callbackHelpers, projectId);
+        for (const [dialogId, indexes] of groupTriggers(items)) {
+          await moveTriggers(edit, dialogId, indexes, toDialogId);
+        }
+        await applyProjectEdit(callbackHelpers, edit);
+      } catch (ex) {
+        setError(callbackHelpers, ex);
+      }
+    }
+  );
+
+  // the recognizer of the new dialog is the one of the dialog of the first trigger
+  const extractTriggersToDialog = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, items: BulkEditItem[], newDialogId: string) => {
+      try {
+        const { snapshot } = callbackHelpers;
+        const schemas = await snapshot.getPromise(schemasState(projectId));
+        const edit = await createProjectEdit(callbackHelpers, projectId);
+        if (edit.hasDialog(newDialogId)) {
+          throw new Error(formatMessage('A dialog named {id} already exists.', { id: newDialogId }));
+        }
+
+        const triggers = groupTriggers(items);
+        const [firstDialogId] = Array.from(triggers.keys());
+        if (!firstDialogId) return;
+        const recognizer = cloneDeep(edit.getDialog(firstDialogId).recognizer);
+        const content = new DialogFactory(schemas.sdk?.content).create(SDKKinds.AdaptiveDialog, {
+          $designer: { name: newDialogId },
+          generator: `${newDialogId}.lg`,
+          recognizer: isRegexRecognizer({ recognizer })
+            ? { ...recognizer, intents: [] }
+            : getRecognizerOf(recognizer, newDialogId),
+        });
+        content.triggers = [];
+        await edit.createDialog(newDialogId, content);
+
+        for (const [dialogId, indexes] of triggers) {
+          await moveTriggers(edit, dialogId, indexes, newDialogId);
+        }
+        await applyProjectEdit(callbackHelpers, edit);
+      } catch (ex) {
+        setError(callbackHelpers, ex);
+      }
+    }
+  );
+
+  return {
+    deleteTreeItems,
+    duplicateTreeItems,
+    moveTriggersToDialog,
+    extractTriggersToDialog,
+  };
+};
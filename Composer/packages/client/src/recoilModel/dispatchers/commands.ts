@@ -0,0 +1,28 @@
+/* eslint-disable react-hooks/rules-of-hooks */
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { ShellCommand } from '@bfc/shared';
+import { CallbackInterface, useRecoilCallback } from 'recoil';
+
+import { contributedCommandsState } from '../atoms';
+
+export const commandsDispatcher = () => {
+  // a command registered again with the same id replaces the previous one
+  const registerCommands = useRecoilCallback(({ set }: CallbackInterface) => (commands: ShellCommand[]) => {
+    set(contributedCommandsState, (current) => [
+      ...current.filter(({ id }) => !commands.some((command) => command.id === id)),
+      ...commands,
+    ]);
+  });
+
+  // keeps the commands that replaced the given ones in the meantime
+  const unregisterCommands = useRecoilCallback(({ set }: CallbackInterface) => (commands: ShellCommand[]) => {
+    set(contributedCommandsState, (current) => current.filter((command) => !commands.includes(command)));
+  });
+
+  return {
+    registerCommands,
+    unregisterCommands,
+  };
+};
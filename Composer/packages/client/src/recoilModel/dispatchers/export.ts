@@ -3,30 +3,99 @@
 // Licensed under the MIT License.
 
 import { CallbackInterface, useRecoilCallback } from 'recoil';
+import { LuTestReportFormat, LuTestSetReport } from '@bfc/shared';
 
 import httpClient from '../../utils/httpUtil';
 import { botDisplayNameState } from '../atoms';
+import { diagnosticsSelectorFamily } from '../selectors';
 
 import { logMessage } from './shared';
 
+export type DiagnosticsExportFormat = 'sarif' | 'junit';
+
+const downloadFile = (data: BlobPart, fileName: string) => {
+  const url = window.URL.createObjectURL(new Blob([data]));
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+};
+
 export const exportDispatcher = () => {
   const exportToZip = useRecoilCallback((callbackHelpers: CallbackInterface) => async (projectId: string) => {
     const botName = await callbackHelpers.snapshot.getPromise(botDisplayNameState(projectId));
     try {
       const response = await httpClient.get(`/projects/${projectId}/export/`, { responseType: 'blob' });
-      const url = window.URL.createObjectURL(new Blob([response.data]));
-      const link = document.createElement('a');
-      link.href = url;
-      link.setAttribute('download', `${botName}_export.zip`);
-      document.body.appendChild(link);
-      link.click();
+      downloadFile(response.data, `${botName}_export.zip`);
     } catch (err) {
       //TODO: error
       logMessage(callbackHelpers, err);
     }
   });
 
+  const exportDiagnostics = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, format: DiagnosticsExportFormat) => {
+      const { snapshot } = callbackHelpers;
+      const botName = await snapshot.getPromise(botDisplayNameState(projectId));
+      const diagnosticItems = await snapshot.getPromise(diagnosticsSelectorFamily(projectId));
+      // the server finds the files of the diagnostics from their location
+      const diagnostics = diagnosticItems.map(({ diagnostic, location, message }) => ({
+        ...diagnostic,
+        source: location,
+        message,
+      }));
+      try {
+        const response = await httpClient.post(
+          `/projects/${projectId}/diagnostics/export`,
+          { format, diagnostics },
+          { responseType: 'blob' }
+        );
+        downloadFile(response.data, `${botName}_diagnostics.${format === 'sarif' ? 'sarif' : 'xml'}`);
+      } catch (err) {
+        logMessage(callbackHelpers, err);
+      }
+    }
+  );
+
+  const exportTranslations = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, locale: string) => {
+      const botName = await callbackHelpers.snapshot.getPromise(botDisplayNameState(projectId));
+      try {
+        const response = await httpClient.get(`/projects/${projectId}/translations/${locale}/export`, {
+          responseType: 'blob',
+        });
+        downloadFile(response.data, `${botName}.${locale}.xlf`);
+      } catch (err) {
+        logMessage(callbackHelpers, err);
+      }
+    }
+  );
+
+  const exportLuTestReports = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (
+      projectId: string,
+      format: LuTestReportFormat,
+      reports: LuTestSetReport[]
+    ) => {
+      const botName = await callbackHelpers.snapshot.getPromise(botDisplayNameState(projectId));
+      try {
+        const response = await httpClient.post(
+          `/projects/${projectId}/luTests/export`,
+          { format, reports },
+          { responseType: 'blob' }
+        );
+        downloadFile(response.data, `${botName}_lutests.${format}`);
+      } catch (err) {
+        logMessage(callbackHelpers, err);
+      }
+    }
+  );
+
   return {
     exportToZip,
+    exportDiagnostics,
+    exportTranslations,
+    exportLuTestReports,
   };
 };
@@ -0,0 +1,63 @@
+/* eslint-disable react-hooks/rules-of-hooks */
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CallbackInterface, useRecoilCallback } from 'recoil';
+
+import { getBaseName, getExtension } from '../../utils/fileUtil';
+import { dispatcherState, fileConflictState } from '../atoms';
+import { FileConflictData } from '../types';
+import { ConflictResolutions } from '../persistence/types';
+
+import { setError } from './shared';
+
+export const fileConflictDispatcher = () => {
+  const setFileConflict = useRecoilCallback(({ set }: CallbackInterface) => (conflict: FileConflictData) => {
+    set(fileConflictState(conflict.projectId), conflict);
+  });
+
+  const resolveFileConflict = useRecoilCallback(
+    ({ set, snapshot }: CallbackInterface) => async (projectId: string, resolutions: ConflictResolutions) => {
+      const conflict = await snapshot.getPromise(fileConflictState(projectId));
+      set(fileConflictState(projectId), null);
+      conflict?.onResolve(resolutions);
+    }
+  );
+
+  // shows the content saved on disk, merged or changed by another editor, in place of the one in Composer
+  const loadFileContent = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, name: string, content: string) => {
+      const { snapshot } = callbackHelpers;
+      try {
+        const { updateDialog, updateLgFile, updateLuFile, updateQnAFile, reloadProject } = await snapshot.getPromise(
+          dispatcherState
+        );
+        const id = getBaseName(name);
+        switch (getExtension(name)) {
+          case 'dialog':
+            await updateDialog({ id, content: JSON.parse(content), projectId });
+            break;
+          case 'lg':
+            await updateLgFile({ id, content, projectId });
+            break;
+          case 'lu':
+            await updateLuFile({ id, content, projectId });
+            break;
+          case 'qna':
+            await updateQnAFile({ id, content, projectId });
+            break;
+          default:
+            await reloadProject(projectId);
+        }
+      } catch (err) {
+        setError(callbackHelpers, err);
+      }
+    }
+  );
+
+  return {
+    setFileConflict,
+    resolveFileConflict,
+    loadFileContent,
+  };
+};
@@ -0,0 +1,67 @@
+/* eslint-disable react-hooks/rules-of-hooks */
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CallbackInterface, useRecoilCallback } from 'recoil';
+import isEmpty from 'lodash/isEmpty';
+import { ProjectFileChange } from '@botframework-composer/types';
+
+import { dispatcherState, filePersistenceState } from '../atoms';
+import { dialogsSelectorFamily, luFilesSelectorFamily, qnaFilesSelectorFamily } from '../selectors';
+import { lgFilesSelectorFamily } from '../selectors/lg';
+import { undoFunctionState } from '../undo/history';
+
+import { setError } from './shared';
+
+const getFileNames = async ({ snapshot }: CallbackInterface, projectId: string) => {
+  const dialogs = await snapshot.getPromise(dialogsSelectorFamily(projectId));
+  const lgFiles = await snapshot.getPromise(lgFilesSelectorFamily(projectId));
+  const luFiles = await snapshot.getPromise(luFilesSelectorFamily(projectId));
+  const qnaFiles = await snapshot.getPromise(qnaFilesSelectorFamily(projectId));
+  return [
+    ...dialogs.map(({ id }) => `${id}.dialog`),
+    ...lgFiles.map(({ id }) => `${id}.lg`),
+    ...luFiles.map(({ id }) => `${id}.lu`),
+    ...qnaFiles.map(({ id }) => `${id}.qna`),
+  ];
+};
+
+export const fileWatcherDispatcher = () => {
+  const applyFileChanges = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, changes: ProjectFileChange[]) => {
+      const { snapshot } = callbackHelpers;
+      try {
+        // the files saved by Composer are reported too, they are told apart once the pending saves are done
+        const filePersistence = await snapshot.getPromise(filePersistenceState(projectId));
+        if (isEmpty(filePersistence)) return;
+        await filePersistence.flush();
+        const externalChanges = changes.filter((change) => filePersistence.isExternalChange(change));
+        if (!externalChanges.length) return;
+
+        const { loadFileContent, reloadProject } = await snapshot.getPromise(dispatcherState);
+        const fileNames = await getFileNames(callbackHelpers, projectId);
+        // the other files of the project may depend on the added or removed ones, they are all loaded again
+        if (externalChanges.some(({ type, name }) => type === 'removed' || !fileNames.includes(name))) {
+          await reloadProject(projectId);
+          return;
+        }
+
+        filePersistence.setFileVersions(
+          externalChanges.map(({ name, content = '', eTag }) => ({ name, content, eTag }))
+        );
+        for (const { name, content = '' } of externalChanges) {
+          await loadFileContent(projectId, name, content);
+        }
+        // the changes are undone like the ones made in Composer
+        const { commitChanges } = await snapshot.getPromise(undoFunctionState(projectId));
+        commitChanges?.();
+      } catch (err) {
+        setError(callbackHelpers, err);
+      }
+    }
+  );
+
+  return {
+    applyFileChanges,
+  };
+};
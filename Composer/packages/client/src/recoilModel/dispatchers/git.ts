@@ -0,0 +1,138 @@
+/* eslint-disable react-hooks/rules-of-hooks */
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CallbackInterface, useRecoilCallback } from 'recoil';
+import { GitFileChange } from '@botframework-composer/types';
+
+import httpClient from '../../utils/httpUtil';
+import { getBaseName, getFileName } from '../../utils/fileUtil';
+import {
+  dialogDiffState,
+  dispatcherState,
+  filePersistenceState,
+  gitCommitsState,
+  gitStatusState,
+  uncommittedChangesState,
+} from '../atoms';
+import { FileChangeSummary } from '../persistence/types';
+
+import { setError } from './shared';
+
+export const gitDispatcher = () => {
+  const fetchGitStatus = useRecoilCallback((callbackHelpers: CallbackInterface) => async (projectId: string) => {
+    try {
+      const response = await httpClient.get(`/projects/${projectId}/git/status`);
+      callbackHelpers.set(gitStatusState(projectId), response.data);
+    } catch (err) {
+      setError(callbackHelpers, err);
+    }
+  });
+
+  const fetchGitCommits = useRecoilCallback((callbackHelpers: CallbackInterface) => async (projectId: string) => {
+    try {
+      const response = await httpClient.get(`/projects/${projectId}/git/log`);
+      callbackHelpers.set(gitCommitsState(projectId), response.data);
+    } catch (err) {
+      setError(callbackHelpers, err);
+    }
+  });
+
+  const initGitRepository = useRecoilCallback((callbackHelpers: CallbackInterface) => async (projectId: string) => {
+    try {
+      const response = await httpClient.post(`/projects/${projectId}/git/init`);
+      callbackHelpers.set(gitStatusState(projectId), response.data);
+    } catch (err) {
+      setError(callbackHelpers, err);
+    }
+  });
+
+  const commitGitChanges = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, message: string) => {
+      const { set, snapshot } = callbackHelpers;
+      try {
+        // make sure the pending edits are on disk before they are committed
+        const filePersistence = await snapshot.getPromise(filePersistenceState(projectId));
+        await filePersistence.flush();
+
+        const response = await httpClient.post(`/projects/${projectId}/git/commit`, { message });
+        set(gitStatusState(projectId), response.data);
+        filePersistence.clearChangedFiles();
+        set(dialogDiffState(projectId), null);
+
+        const commits = await httpClient.get(`/projects/${projectId}/git/log`);
+        set(gitCommitsState(projectId), commits.data);
+      } catch (err) {
+        setError(callbackHelpers, err);
+      }
+    }
+  );
+
+  const checkoutGitBranch = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, branch: string, create = false) => {
+      const { set, snapshot } = callbackHelpers;
+      try {
+        await httpClient.post(`/projects/${projectId}/git/checkout`, { branch, create });
+        set(dialogDiffState(projectId), null);
+        const { reloadProject } = await snapshot.getPromise(dispatcherState);
+        await reloadProject(projectId);
+
+        const [status, commits] = await Promise.all([
+          httpClient.get(`/projects/${projectId}/git/status`),
+          httpClient.get(`/projects/${projectId}/git/log`),
+        ]);
+        set(gitStatusState(projectId), status.data);
+        set(gitCommitsState(projectId), commits.data);
+      } catch (err) {
+        setError(callbackHelpers, err);
+      }
+    }
+  );
+
+  const setUncommittedChanges = useRecoilCallback(
+    ({ set }: CallbackInterface) => (projectId: string, changes: FileChangeSummary[]) => {
+      set(uncommittedChangesState(projectId), changes);
+    }
+  );
+
+  const compareDialog = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, change: GitFileChange, commit?: string) => {
+      const { set } = callbackHelpers;
+      const revision = commit ?? 'HEAD';
+      try {
+        // a dialog that was never committed is compared with an empty one
+        let previous;
+        if (change.status !== 'added' && change.status !== 'untracked') {
+          const response = await httpClient.get(`/projects/${projectId}/git/file`, {
+            params: { path: change.path, revision },
+          });
+          previous = JSON.parse(response.data.content);
+        }
+
+        set(dialogDiffState(projectId), {
+          dialogId: getBaseName(getFileName(change.path)),
+          path: change.path,
+          revision,
+          previous,
+        });
+      } catch (err) {
+        setError(callbackHelpers, err);
+      }
+    }
+  );
+
+  const clearDialogDiff = useRecoilCallback(({ set }: CallbackInterface) => (projectId: string) => {
+    set(dialogDiffState(projectId), null);
+  });
+
+  return {
+    fetchGitStatus,
+    fetchGitCommits,
+    initGitRepository,
+    commitGitChanges,
+    checkoutGitBranch,
+    setUncommittedChanges,
+    compareDialog,
+    clearDialogDiff,
+  };
+};
@@ -28,6 +28,12 @@ import { zoomDispatcher } from './zoom';
 import { recognizerDispatcher } from './recognizers';
 import { orchestratorDispatcher } from './orchestrator';
 import { webChatLogDispatcher } from './webchat';
+import { gitDispatcher } from './git';
+import { fileConflictDispatcher } from './fileConflict';
+import { fileWatcherDispatcher } from './fileWatcher';
+import { bulkEditDispatcher } from './bulkEdit';
+import { commandsDispatcher } from './commands';
+import { searchDispatcher } from './search';
 
 const createDispatchers = () => {
   return {
@@ -58,6 +64,12 @@ const createDispatchers = () => {
     ...recognizerDispatcher(),
     ...orchestratorDispatcher(),
     ...webChatLogDispatcher(),
+    ...gitDispatcher(),
+    ...fileConflictDispatcher(),
+    ...fileWatcherDispatcher(),
+    ...bulkEditDispatcher(),
+    ...commandsDispatcher(),
+    ...searchDispatcher(),
   };
 };
 
@@ -7,8 +7,11 @@ import differenceBy from 'lodash/differenceBy';
 import formatMessage from 'format-message';
 
 import { getBaseName, getExtension } from '../../utils/fileUtil';
+import { applyTemplateRenameEdits, TemplateRenameEdit } from '../../utils/lgUtil';
 import { lgFilesSelectorFamily } from '../selectors/lg';
+import { dialogsSelectorFamily } from '../selectors';
 import { dispatcherState } from '../atoms';
+import { undoFunctionState } from '../undo/history';
 
 import { setError } from './shared';
 import LgWorker from './../parsers/lgWorker';
@@ -481,6 +484,50 @@ export const lgDispatcher = () => {
     }
   );
 
+  // applies the edits of the LG language server renaming a template in the LG files and the dialogs, undone as one change
+  const renameLgTemplateInProject = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async ({
+      projectId,
+      oldName,
+      changes,
+    }: {
+      projectId: string;
+      oldName: string;
+      newName: string;
+      changes: Record<string, TemplateRenameEdit[]>;
+    }) => {
+      const { snapshot } = callbackHelpers;
+      try {
+        const lgFiles = await snapshot.getPromise(lgFilesSelectorFamily(projectId));
+        const dialogs = await snapshot.getPromise(dialogsSelectorFamily(projectId));
+        const contents: Record<string, string> = {};
+        lgFiles.forEach(({ id, content }) => (contents[`${id}.lg`] = content));
+        dialogs.forEach(({ id, content }) => (contents[`${id}.dialog`] = JSON.stringify(content, null, 2) + '\n'));
+
+        // nothing is renamed when a file changed since the edits were computed
+        const updates = Object.keys(changes).map((name) => {
+          const content =
+            contents[name] !== undefined ? applyTemplateRenameEdits(contents[name], oldName, changes[name]) : undefined;
+          if (content === undefined) {
+            throw new Error(
+              formatMessage('{name} changed while renaming the template {oldName}, try again.', { name, oldName })
+            );
+          }
+          return { name, content };
+        });
+
+        const { loadFileContent } = await snapshot.getPromise(dispatcherState);
+        for (const { name, content } of updates) {
+          await loadFileContent(projectId, name, content);
+        }
+        const { commitChanges } = await snapshot.getPromise(undoFunctionState(projectId));
+        commitChanges?.();
+      } catch (error) {
+        setError(callbackHelpers, error);
+      }
+    }
+  );
+
   return {
     updateLgFile,
     createLgFile,
@@ -493,5 +540,6 @@ export const lgDispatcher = () => {
     copyLgTemplate,
     reparseAllLgFiles,
     updateAllLgFiles,
+    renameLgTemplateInProject,
   };
 };
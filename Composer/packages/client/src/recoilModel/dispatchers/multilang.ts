@@ -3,14 +3,21 @@
 /* eslint-disable react-hooks/rules-of-hooks */
 
 import { useRecoilCallback, CallbackInterface } from 'recoil';
+import { LgFile, LuFile, QnAFile, TranslationImportResult } from '@bfc/shared';
 import cloneDeep from 'lodash/cloneDeep';
 import difference from 'lodash/difference';
 
 import languageStorage from '../../utils/languageStorage';
-import { getExtension } from '../../utils/fileUtil';
+import httpClient from '../../utils/httpUtil';
+import { getBaseName, getExtension } from '../../utils/fileUtil';
 import { localBotsDataSelector, rootBotProjectIdSelector } from '../selectors/project';
 import { lgFilesSelectorFamily } from '../selectors/lg';
 import { luFilesSelectorFamily, qnaFilesSelectorFamily } from '../selectors';
+import { pseudoLocalizationEnabledState } from '../atoms';
+import { undoFunctionState } from '../undo/history';
+import LgWorker from '../parsers/lgWorker';
+import luWorker from '../parsers/luWorker';
+import qnaWorker from '../parsers/qnaWorker';
 
 import {
   localeState,
@@ -20,7 +27,9 @@ import {
   onDelLanguageDialogCompleteState,
   showDelLanguageModalState,
   botDisplayNameState,
+  translationImportReportState,
 } from './../atoms/botState';
+import { setError } from './shared';
 
 const copyLanguageResources = (files: any[], fromLanguage: string, toLanguages: string[]): any[] => {
   const copiedFiles: any = [];
@@ -56,6 +65,42 @@ const deleteLanguageResources = (
   };
 };
 
+const replaceFile = <T extends { id: string }>(files: T[], file: T) =>
+  files.some(({ id }) => id === file.id) ? files.map((item) => (item.id === file.id ? file : item)) : [...files, file];
+
+// the imported locale files are loaded as they are, the files of the other languages already have their templates,
+// intents and QnA pairs
+const loadLocaleFiles = async (
+  { set, snapshot }: CallbackInterface,
+  projectId: string,
+  files: TranslationImportResult['files']
+) => {
+  const { luFeatures } = await snapshot.getPromise(settingsState(projectId));
+  const lgFiles = await snapshot.getPromise(lgFilesSelectorFamily(projectId));
+  const luFiles = await snapshot.getPromise(luFilesSelectorFamily(projectId));
+
+  for (const { name, content } of files) {
+    const id = getBaseName(name);
+    switch (getExtension(name)) {
+      case 'lg': {
+        const lgFile = (await LgWorker.parse(projectId, id, content, lgFiles)) as LgFile;
+        set(lgFilesSelectorFamily(projectId), (prevLgFiles) => replaceFile(prevLgFiles, lgFile));
+        break;
+      }
+      case 'lu': {
+        const luFile = (await luWorker.parse(id, content, luFeatures, luFiles)) as LuFile;
+        set(luFilesSelectorFamily(projectId), (prevLuFiles) => replaceFile(prevLuFiles, luFile));
+        break;
+      }
+      case 'qna': {
+        const qnaFile = (await qnaWorker.parse(id, content)) as QnAFile;
+        set(qnaFilesSelectorFamily(projectId), (prevQnAFiles) => replaceFile(prevQnAFiles, qnaFile));
+        break;
+      }
+    }
+  }
+};
+
 export const multilangDispatcher = () => {
   // When skill bot do not have the locale to be set in root bot, create it for skill bot.
   const setLocale = useRecoilCallback(
@@ -195,6 +240,45 @@ export const multilangDispatcher = () => {
     set(onDelLanguageDialogCompleteState(projectId), { func: undefined });
   });
 
+  // the locale files with the translations are loaded as one change, so undo reverts the whole import
+  const importTranslations = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, xliff: string) => {
+      const { set, snapshot } = callbackHelpers;
+      try {
+        const response = await httpClient.post(`/projects/${projectId}/translations/import`, { xliff });
+        const { report, files }: TranslationImportResult = response.data;
+
+        await loadLocaleFiles(callbackHelpers, projectId, files);
+        const { commitChanges } = await snapshot.getPromise(undoFunctionState(projectId));
+        commitChanges?.();
+
+        set(translationImportReportState(projectId), report);
+      } catch (err) {
+        setError(callbackHelpers, err);
+      }
+    }
+  );
+
+  const setPseudoLocalizationEnabled = useRecoilCallback(({ set }: CallbackInterface) => (enabled: boolean) => {
+    set(pseudoLocalizationEnabledState, enabled);
+  });
+
+  // the pseudo-locale files are generated from the default language every time a bot starts, or removed
+  const updatePseudoLocaleFiles = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string) => {
+      const enabled = await callbackHelpers.snapshot.getPromise(pseudoLocalizationEnabledState);
+      try {
+        await httpClient.post(`/projects/${projectId}/pseudoLocale`, { enabled });
+      } catch (err) {
+        setError(callbackHelpers, err);
+      }
+    }
+  );
+
+  const clearTranslationImportReport = useRecoilCallback(({ set }: CallbackInterface) => (projectId: string) => {
+    set(translationImportReportState(projectId), null);
+  });
+
   return {
     setLocale,
     addLanguages,
@@ -203,5 +287,9 @@ export const multilangDispatcher = () => {
     addLanguageDialogCancel,
     delLanguageDialogBegin,
     delLanguageDialogCancel,
+    importTranslations,
+    clearTranslationImportReport,
+    setPseudoLocalizationEnabled,
+    updatePseudoLocaleFiles,
   };
 };
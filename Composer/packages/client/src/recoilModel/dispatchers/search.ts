@@ -0,0 +1,79 @@
+/* eslint-disable react-hooks/rules-of-hooks */
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CallbackInterface, useRecoilCallback } from 'recoil';
+import { ProjectReplaceResult, ProjectSearchQuery } from '@bfc/shared';
+
+import httpClient from '../../utils/httpUtil';
+import { dispatcherState, filePersistenceState, projectSearchState } from '../atoms';
+import { undoFunctionState } from '../undo/history';
+
+import { setError } from './shared';
+
+export const searchDispatcher = () => {
+  const searchProject = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (
+      projectId: string,
+      query: ProjectSearchQuery,
+      replacement?: string
+    ) => {
+      const { set, snapshot } = callbackHelpers;
+      try {
+        // the server searches the files on disk, with the pending edits
+        const filePersistence = await snapshot.getPromise(filePersistenceState(projectId));
+        await filePersistence.flush();
+
+        const response = await httpClient.post(`/projects/${projectId}/search`, { ...query, replacement });
+        set(projectSearchState(projectId), { query, replacement, result: response.data });
+      } catch (err) {
+        setError(callbackHelpers, err);
+      }
+    }
+  );
+
+  // the files with the replacements are loaded as one change, so undo reverts the whole replace
+  const replaceInProject = useRecoilCallback(
+    (callbackHelpers: CallbackInterface) => async (projectId: string, matchIds: string[]) => {
+      const { set, snapshot } = callbackHelpers;
+      const search = await snapshot.getPromise(projectSearchState(projectId));
+      if (search?.replacement === undefined) return 0;
+
+      try {
+        const filePersistence = await snapshot.getPromise(filePersistenceState(projectId));
+        await filePersistence.flush();
+
+        const { query, replacement } = search;
+        const response = await httpClient.post(`/projects/${projectId}/search/replace`, {
+          ...query,
+          replacement,
+          matchIds,
+        });
+        const { replaced, files, search: result }: ProjectReplaceResult = response.data;
+
+        const { loadFileContent } = await snapshot.getPromise(dispatcherState);
+        for (const { name, content } of files) {
+          await loadFileContent(projectId, name, content);
+        }
+        const { commitChanges } = await snapshot.getPromise(undoFunctionState(projectId));
+        commitChanges?.();
+
+        set(projectSearchState(projectId), { query, replacement, result });
+        return replaced;
+      } catch (err) {
+        setError(callbackHelpers, err);
+        return 0;
+      }
+    }
+  );
+
+  const clearProjectSearch = useRecoilCallback(({ reset }: CallbackInterface) => (projectId: string) => {
+    reset(projectSearchState(projectId));
+  });
+
+  return {
+    searchProject,
+    replaceInProject,
+    clearProjectSearch,
+  };
+};
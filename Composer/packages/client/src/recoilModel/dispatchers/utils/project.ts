@@ -506,7 +506,9 @@ export const initBotState = async (callbackHelpers: CallbackInterface, data: any
   set(settingsState(projectId), mergedSettings);
   set(projectReadmeState(projectId), readme);
 
-  set(filePersistenceState(projectId), new FilePersistence(projectId));
+  const filePersistence = new FilePersistence(projectId);
+  filePersistence.setFileVersions(data.files);
+  set(filePersistenceState(projectId), filePersistence);
   set(undoHistoryState(projectId), new UndoHistory(projectId));
   set(projectIndexingState(projectId), true);
   parseAllAssets(callbackHelpers, projectId, botFiles);
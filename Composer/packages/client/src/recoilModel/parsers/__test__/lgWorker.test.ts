@@ -122,6 +122,13 @@ describe('test lg worker', () => {
     lgFiles[0] = result;
   });
 
+  it('get expected evaluate template result', async () => {
+    const result: any = await lgWorker.evaluateTemplate('test', lgFiles[0], 'Test', {}, lgFiles);
+    expect(result.variations).toEqual(['add']);
+    expect(result.activity.text).toBe('add');
+    expect(result.errors).toEqual([]);
+  });
+
   it('clean project', async () => {
     await lgWorker.removeProject('test');
     expect(lgCache.projects.has('test')).toBeFalsy();
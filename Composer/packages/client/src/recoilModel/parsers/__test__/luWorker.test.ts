@@ -111,4 +111,17 @@ hi
     const result: any = await luWorker.removeIntents(luFile, ['New1', 'New'], luFeatures, []);
     expect(result.intents.length).toBe(1);
   });
+  it('get expected utterance coverage report', async () => {
+    const luFiles = [
+      { id: 'a.en-us', intents: [getLuIntent('Greeting', '- hello\n- hi'), getLuIntent('Help', '- Hello!')] },
+    ];
+    const result: any = await luWorker.indexUtteranceCoverage(luFiles as any, {} as any);
+    expect(result.intents).toMatchObject([
+      { id: 'a.en-us', intent: 'Greeting', utterances: 2, conflicts: 1, tooFewUtterances: true },
+      { id: 'a.en-us', intent: 'Help', utterances: 1, conflicts: 1, tooFewUtterances: true },
+    ]);
+    expect(result.conflicts).toMatchObject([
+      { type: 'duplicate', utterance: { text: 'hello' }, other: { text: 'Hello!' } },
+    ]);
+  });
 });
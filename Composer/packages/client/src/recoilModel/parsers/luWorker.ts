@@ -1,6 +1,6 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
-import { LuIntentSection, LuFile, TextFile } from '@bfc/shared';
+import { LuIntentSection, LuFile, TextFile, DialogSetting } from '@bfc/shared';
 
 import Worker from './workers/luParser.worker.ts';
 import { BaseWorker } from './baseWorker';
@@ -13,6 +13,7 @@ import {
   LuRemoveIntentPayload,
   LuUpdateIntentPayload,
   LuParseAllPayload,
+  LuUtteranceCoveragePayload,
 } from './types';
 // Wrapper class
 class LuWorker extends BaseWorker<LuActionType> {
@@ -56,6 +57,11 @@ class LuWorker extends BaseWorker<LuActionType> {
     const payload = { luFile, intentNames, luFeatures, luFiles };
     return this.sendMsg<LuRemoveIntentsPayload>(LuActionType.RemoveIntents, payload);
   }
+
+  indexUtteranceCoverage(luFiles: LuFile[], setting: DialogSetting) {
+    const payload = { luFiles, setting };
+    return this.sendMsg<LuUtteranceCoveragePayload>(LuActionType.IndexUtteranceCoverage, payload);
+  }
 }
 
 export default new LuWorker(new Worker());
@@ -1,6 +1,15 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
-import { LuIntentSection, LgFile, LuFile, FileInfo, LgTemplate, ILUFeaturesConfig, TextFile } from '@bfc/shared';
+import {
+  LuIntentSection,
+  LgFile,
+  LuFile,
+  FileInfo,
+  LgTemplate,
+  ILUFeaturesConfig,
+  TextFile,
+  DialogSetting,
+} from '@bfc/shared';
 
 import { FileAsset } from '../persistence/types';
 
@@ -16,6 +25,11 @@ export type LuParseAllPayload = {
   luFeatures: ILUFeaturesConfig;
 };
 
+export type LuUtteranceCoveragePayload = {
+  luFiles: LuFile[];
+  setting: DialogSetting;
+};
+
 export type LuAddIntentPayload = {
   luFile: LuFile;
   intent: LuIntentSection;
@@ -116,6 +130,14 @@ export interface LgCopyTemplatePayload {
   lgFiles: LgFile[];
 }
 
+export interface LgEvaluateTemplatePayload {
+  projectId: string;
+  lgFile: LgFile;
+  templateName: string;
+  scope: Record<string, unknown>;
+  lgFiles: LgFile[];
+}
+
 export type IndexPayload = {
   files: FileInfo;
   botName: string;
@@ -141,6 +163,7 @@ export enum LuActionType {
   AddIntents = 'add-intents',
   RemoveIntents = 'remove-intents',
   ParseAll = 'parse-all',
+  IndexUtteranceCoverage = 'index-utterance-coverage',
 }
 
 export enum LgActionType {
@@ -154,6 +177,7 @@ export enum LgActionType {
   RemoveAllTemplates = 'remove-all-templates',
   CopyTemplate = 'copy-template',
   ParseAll = 'parse-all',
+  EvaluateTemplate = 'evaluate-template',
 }
 
 export enum IndexerActionType {
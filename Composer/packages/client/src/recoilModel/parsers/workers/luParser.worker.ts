@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { luUtil } from '@bfc/indexers';
+import { luUtil, utteranceCoverageIndexer } from '@bfc/indexers';
 import { luImportResolverGenerator } from '@bfc/shared';
 
 import {
@@ -13,6 +13,7 @@ import {
   LuAddIntentsPayload,
   LuAddIntentPayload,
   LuParseAllPayload,
+  LuUtteranceCoveragePayload,
 } from '../types';
 const ctx: Worker = self as any;
 
@@ -58,6 +59,12 @@ type ParseAllMessage = {
   payload: LuParseAllPayload;
 };
 
+type IndexUtteranceCoverageMessage = {
+  id: string;
+  type: LuActionType.IndexUtteranceCoverage;
+  payload: LuUtteranceCoveragePayload;
+};
+
 type LuMessageEvent =
   | ParseMessage
   | AddMessage
@@ -65,7 +72,8 @@ type LuMessageEvent =
   | UpdateMessage
   | RemoveMessage
   | RemoveIntentsMessage
-  | ParseAllMessage;
+  | ParseAllMessage
+  | IndexUtteranceCoverageMessage;
 
 const luFileResolver = (luFiles) => {
   return luImportResolverGenerator(luFiles, '.lu');
@@ -115,6 +123,12 @@ export const handleMessage = (msg: LuMessageEvent) => {
       result = luUtil.removeIntents(luFile, intentNames, luFeatures, luFileResolver(luFiles));
       break;
     }
+
+    case LuActionType.IndexUtteranceCoverage: {
+      const { luFiles, setting } = msg.payload;
+      result = utteranceCoverageIndexer.index({ luFiles, setting });
+      break;
+    }
   }
   return result;
 };
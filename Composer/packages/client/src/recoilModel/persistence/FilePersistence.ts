@@ -1,25 +1,43 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 import isEqual from 'lodash/isEqual';
-import { DialogSetting, BotAssets, BotProjectFile, CrosstrainConfig } from '@bfc/shared';
+import { DialogSetting, BotAssets, BotProjectFile, CrosstrainConfig, FileInfo } from '@bfc/shared';
+import { ProjectFileChange } from '@botframework-composer/types';
 import keys from 'lodash/keys';
 import formatMessage from 'format-message';
 
 import fileDiffCalculator from '../parsers/fileDiffCalculator';
 
 import * as client from './http';
-import { ChangeType, FileDifference, FileExtensions, IFileChange, FileAsset } from './types';
+import { mergeFile } from './merge';
+import {
+  ChangeType,
+  FileDifference,
+  FileExtensions,
+  IFileChange,
+  FileAsset,
+  FileChangeSummary,
+  FileConflictHandler,
+} from './types';
 
 class FilePersistence {
   private _taskQueue: { [id: string]: IFileChange[] } = {};
   private _projectId = '';
   private _handleError?: (err) => void;
+  private _handleChange?: (changedFiles: FileChangeSummary[]) => void;
+  private _handleConflict?: FileConflictHandler;
+  private _handleMerge?: (id: string, content: string) => void;
+  private _changedFiles: { [id: string]: ChangeType } = {};
+  // last content saved or loaded of each file, with its eTag
+  private _versions: { [id: string]: { eTag?: string; content: string } } = {};
+  // path of each file relative to the project folder, known once the file is on disk
+  private _paths: { [id: string]: string } = {};
   private _isFlushing = false;
 
   private _operator = {
-    [ChangeType.CREATE]: this.create,
-    [ChangeType.UPDATE]: this.update,
-    [ChangeType.DELETE]: this.delete,
+    [ChangeType.CREATE]: this.create.bind(this),
+    [ChangeType.UPDATE]: this.update.bind(this),
+    [ChangeType.DELETE]: this.delete.bind(this),
   };
 
   constructor(projectId: string) {
@@ -34,6 +52,24 @@ class FilePersistence {
     return this._taskQueue;
   }
 
+  public get changedFiles(): FileChangeSummary[] {
+    return keys(this._changedFiles).map((id) => ({ id, type: this._changedFiles[id], path: this._paths[id] }));
+  }
+
+  /** Remembers the versions of the files loaded from the server, updates made on them are merged on conflict. */
+  public setFileVersions(files: (Pick<FileInfo, 'name' | 'content' | 'eTag'> & Partial<FileInfo>)[] = []) {
+    files.forEach(({ name, content, eTag, relativePath }) => {
+      this._versions[name] = { eTag, content };
+      this.setPath(name, relativePath);
+    });
+  }
+
+  /** Whether a file changed on disk differs from the content Composer loaded or saved last. */
+  public isExternalChange({ type, name, content }: ProjectFileChange) {
+    const version = this._versions[name];
+    return type === 'removed' ? !!version : version?.content !== content;
+  }
+
   public async notify(currentAssets: BotAssets, previousAssets: BotAssets) {
     const fileChanges: IFileChange[] = await this.getAssetsChanges(currentAssets, previousAssets);
 
@@ -67,12 +103,18 @@ class FilePersistence {
       this._isFlushing = true;
       while (!this.isEmpty()) {
         const tasks: Promise<void>[] = [];
+        const fileChanges: IFileChange[] = [];
         keys(this._taskQueue).forEach((key) => {
           const fileChange = this.mergeChanges(this._taskQueue[key]);
           this._taskQueue[key] = [];
-          if (fileChange) tasks.push(this._operator[fileChange.type](fileChange));
+          if (fileChange) {
+            tasks.push(this._operator[fileChange.type](fileChange));
+            fileChanges.push(fileChange);
+          }
         });
         await Promise.all(tasks);
+        fileChanges.forEach((fileChange) => this.trackChange(fileChange));
+        this._handleChange?.(this.changedFiles);
       }
       return Promise.resolve(true);
     } catch (error) {
@@ -90,16 +132,73 @@ class FilePersistence {
   private async delete(fileChange: IFileChange) {
     const { id, projectId } = fileChange;
     await client.deleteFile(projectId, id);
+    delete this._versions[id];
   }
 
   private async update(fileChange: IFileChange) {
     const { id, change, projectId } = fileChange;
-    await client.updateFile(projectId, id, change);
+    let content = change;
+    let saved = false;
+    while (!saved) {
+      const version = this._versions[id];
+      // the file already has this content, ie. it was loaded from disk after another editor changed it
+      if (version?.content === content) break;
+      try {
+        const response = await client.updateFile(projectId, id, content, version?.eTag);
+        this._versions[id] = { eTag: response?.eTag, content };
+        saved = true;
+      } catch (error) {
+        // the file was changed since it was loaded, merge the changes and save again on top of the current version
+        if (error?.response?.status !== 409 || !version) throw error;
+        const current = error.response.data;
+        content = await this.merge(fileChange, version.content, content, current.content);
+        this._versions[id] = { eTag: current.eTag, content: current.content };
+      }
+    }
+    if (content !== change) {
+      this._handleMerge?.(id, content);
+    }
+  }
+
+  private async merge({ id, projectId }: IFileChange, base: string, mine: string, theirs: string) {
+    const { content, conflicts } = mergeFile(id, base, mine, theirs);
+    if (!conflicts.length) return content;
+    if (!this._handleConflict) {
+      throw new Error(formatMessage('{id} was changed outside of Composer.', { id }));
+    }
+
+    const resolutions = await this._handleConflict({ projectId, id, conflicts });
+    return mergeFile(id, base, mine, theirs, resolutions).content;
   }
 
   private async create(fileChange: IFileChange) {
     const { id, change, projectId } = fileChange;
-    await client.createFile(projectId, id, change);
+    const file = await client.createFile(projectId, id, change);
+    this._versions[id] = { eTag: file?.eTag, content: change };
+    this.setPath(id, file?.relativePath);
+  }
+
+  private setPath(id: string, relativePath?: string) {
+    if (relativePath) {
+      this._paths[id] = relativePath.replace(/\\/g, '/');
+    }
+  }
+
+  /** Forgets the changes once they are committed to the project history. */
+  public clearChangedFiles() {
+    this._changedFiles = {};
+    this._handleChange?.([]);
+  }
+
+  private trackChange({ id, type }: IFileChange) {
+    const previousType = this._changedFiles[id];
+    if (previousType === ChangeType.CREATE && type === ChangeType.DELETE) {
+      delete this._changedFiles[id];
+    } else if (previousType === ChangeType.DELETE && type === ChangeType.CREATE) {
+      this._changedFiles[id] = ChangeType.UPDATE;
+    } else if (previousType !== ChangeType.CREATE) {
+      this._changedFiles[id] = type;
+    }
   }
 
   private isEmpty() {
@@ -223,6 +322,30 @@ class FilePersistence {
   public isErrorHandlerEmpty() {
     return !this._handleError;
   }
+
+  public registerChangeHandler(fun: (changedFiles: FileChangeSummary[]) => void) {
+    this._handleChange = fun;
+  }
+
+  public isChangeHandlerEmpty() {
+    return !this._handleChange;
+  }
+
+  public registerConflictHandler(fun: FileConflictHandler) {
+    this._handleConflict = fun;
+  }
+
+  public isConflictHandlerEmpty() {
+    return !this._handleConflict;
+  }
+
+  public registerMergeHandler(fun: (id: string, content: string) => void) {
+    this._handleMerge = fun;
+  }
+
+  public isMergeHandlerEmpty() {
+    return !this._handleMerge;
+  }
 }
 
 export default FilePersistence;
@@ -3,6 +3,8 @@
 import { DialogInfo, DialogSchemaFile, LgFile, LuFile, BotAssets } from '@bfc/shared';
 
 import FilePersistence from '../FilePersistence';
+import * as client from '../http';
+import { ChangeType } from '../types';
 const projectId = '2123.2234as';
 
 jest.mock('axios', () => {
@@ -17,6 +19,14 @@ jest.mock('axios', () => {
   };
 });
 
+jest.mock('../http', () => {
+  return {
+    createFile: jest.fn(async () => ({})),
+    updateFile: jest.fn(async () => ({})),
+    deleteFile: jest.fn(async () => undefined),
+  };
+});
+
 jest.mock('../../parsers/fileDiffCalculator', () => {
   return {
     difference: require('../../parsers/workers/calculator.worker').getDifferenceItems,
@@ -145,4 +155,103 @@ describe('test persistence layer', () => {
     await filePersistence.flush();
     expect(filePersistence.taskQueue['b.en-us.lu'].length).toBe(0);
   });
+
+  it('should track the files changed since the last commit', async () => {
+    const onChange = jest.fn();
+    filePersistence.registerChangeHandler(onChange);
+    filePersistence.createTaskQueue([
+      { id: 'a.dialog', change: '{}', type: ChangeType.CREATE, projectId },
+      { id: 'b.dialog', change: '{}', type: ChangeType.UPDATE, projectId },
+    ]);
+    await filePersistence.flush();
+    filePersistence.createTaskQueue([{ id: 'a.dialog', change: '', type: ChangeType.DELETE, projectId }]);
+    await filePersistence.flush();
+
+    expect(filePersistence.changedFiles).toEqual([{ id: 'b.dialog', type: ChangeType.UPDATE }]);
+    expect(onChange).toHaveBeenLastCalledWith([{ id: 'b.dialog', type: ChangeType.UPDATE }]);
+
+    filePersistence.clearChangedFiles();
+    expect(filePersistence.changedFiles).toEqual([]);
+  });
+
+  it('should know the paths of the changed files once they are on disk', async () => {
+    filePersistence.setFileVersions([
+      { name: 'b.en-us.lg', content: '', eTag: '1', relativePath: 'language-generation\\en-us\\b.en-us.lg' },
+    ]);
+    filePersistence.createTaskQueue([{ id: 'b.en-us.lg', change: '# b', type: ChangeType.UPDATE, projectId }]);
+    await filePersistence.flush();
+
+    expect(filePersistence.changedFiles).toEqual([
+      { id: 'b.en-us.lg', type: ChangeType.UPDATE, path: 'language-generation/en-us/b.en-us.lg' },
+    ]);
+  });
+
+  it('should merge an update made on an outdated version of a file', async () => {
+    const onMerge = jest.fn();
+    filePersistence.registerMergeHandler(onMerge);
+    filePersistence.setFileVersions([{ name: 'a.en-us.lg', content: '# a\n- a\n# b\n- b', eTag: '1' }]);
+    (client.updateFile as jest.Mock)
+      .mockRejectedValueOnce({ response: { status: 409, data: { content: '# a\n- a\n# b\n- saved b', eTag: '2' } } })
+      .mockResolvedValueOnce({ eTag: '3' });
+
+    filePersistence.createTaskQueue([
+      { id: 'a.en-us.lg', change: '# a\n- my a\n# b\n- b', type: ChangeType.UPDATE, projectId },
+    ]);
+    await filePersistence.flush();
+
+    expect(client.updateFile).toHaveBeenCalledWith(projectId, 'a.en-us.lg', '# a\n- my a\n# b\n- b', '1');
+    expect(client.updateFile).toHaveBeenLastCalledWith(projectId, 'a.en-us.lg', '# a\n- my a\n# b\n- saved b', '2');
+    expect(onMerge).toHaveBeenCalledWith('a.en-us.lg', '# a\n- my a\n# b\n- saved b');
+  });
+
+  it('should ask which change to keep when both changed the same part of a file', async () => {
+    const onMerge = jest.fn();
+    filePersistence.registerMergeHandler(onMerge);
+    (client.updateFile as jest.Mock).mockClear();
+    const onConflict = jest.fn(async () => ({ '# a': 'theirs' as const }));
+    filePersistence.registerConflictHandler(onConflict);
+    filePersistence.setFileVersions([{ name: 'a.en-us.lg', content: '# a\n- a', eTag: '1' }]);
+    (client.updateFile as jest.Mock).mockRejectedValueOnce({
+      response: { status: 409, data: { content: '# a\n- saved a', eTag: '2' } },
+    });
+
+    filePersistence.createTaskQueue([{ id: 'a.en-us.lg', change: '# a\n- my a', type: ChangeType.UPDATE, projectId }]);
+    await filePersistence.flush();
+
+    expect(onConflict).toHaveBeenCalledWith({
+      projectId,
+      id: 'a.en-us.lg',
+      conflicts: [{ path: '# a', base: '# a\n- a', mine: '# a\n- my a', theirs: '# a\n- saved a' }],
+    });
+    // the file already has the change kept, it is not saved again
+    expect(client.updateFile).toHaveBeenCalledTimes(1);
+    expect(onMerge).toHaveBeenCalledWith('a.en-us.lg', '# a\n- saved a');
+  });
+
+  it('should tell the changes made by other editors from the ones saved by Composer', async () => {
+    filePersistence.setFileVersions([{ name: 'a.en-us.lg', content: '# a\n- a', eTag: '1' }]);
+    (client.updateFile as jest.Mock).mockResolvedValueOnce({ eTag: '2' });
+    filePersistence.createTaskQueue([{ id: 'a.en-us.lg', change: '# a\n- my a', type: ChangeType.UPDATE, projectId }]);
+    await filePersistence.flush();
+
+    expect(filePersistence.isExternalChange({ type: 'changed', name: 'a.en-us.lg', content: '# a\n- my a' })).toBe(
+      false
+    );
+    expect(filePersistence.isExternalChange({ type: 'changed', name: 'a.en-us.lg', content: '# a\n- their a' })).toBe(
+      true
+    );
+    expect(filePersistence.isExternalChange({ type: 'removed', name: 'a.en-us.lg' })).toBe(true);
+    expect(filePersistence.isExternalChange({ type: 'removed', name: 'b.en-us.lg' })).toBe(false);
+  });
+
+  it('should not save a file loaded from disk again', async () => {
+    (client.updateFile as jest.Mock).mockClear();
+    filePersistence.setFileVersions([{ name: 'a.en-us.lg', content: '# a\n- their a', eTag: '3' }]);
+    filePersistence.createTaskQueue([
+      { id: 'a.en-us.lg', change: '# a\n- their a', type: ChangeType.UPDATE, projectId },
+    ]);
+    await filePersistence.flush();
+
+    expect(client.updateFile).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,75 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+import { mergeFile } from '../merge';
+
+const stringify = (value: any) => JSON.stringify(value, null, 2) + '\n';
+
+const action = (id: string, activity: string) => ({ $kind: 'Microsoft.SendActivity', $designer: { id }, activity });
+
+const dialog = (actions: any[], recognizer = 'a.lu.qna') => ({
+  $kind: 'Microsoft.AdaptiveDialog',
+  recognizer,
+  triggers: [{ $kind: 'Microsoft.OnBeginDialog', $designer: { id: 't1' }, actions }],
+});
+
+describe('mergeFile', () => {
+  it('merges the changes made to different properties of a dialog', () => {
+    const base = stringify(dialog([action('a1', 'hi')]));
+    const mine = stringify(dialog([action('a1', 'hello')]));
+    const theirs = stringify(dialog([action('a1', 'hi')], 'b.lu.qna'));
+
+    const { content, conflicts } = mergeFile('a.dialog', base, mine, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(JSON.parse(content)).toEqual(dialog([action('a1', 'hello')], 'b.lu.qna'));
+  });
+
+  it('merges the actions added and removed on both sides by $designer.id', () => {
+    const base = stringify(dialog([action('a1', 'one'), action('a2', 'two')]));
+    const mine = stringify(dialog([action('a1', 'one'), action('a3', 'three')]));
+    const theirs = stringify(dialog([action('a0', 'zero'), action('a1', 'one'), action('a2', 'two')]));
+
+    const { content, conflicts } = mergeFile('a.dialog', base, mine, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(JSON.parse(content)).toEqual(dialog([action('a0', 'zero'), action('a1', 'one'), action('a3', 'three')]));
+  });
+
+  it('reports the properties changed on both sides', () => {
+    const base = stringify(dialog([action('a1', 'hi')]));
+    const mine = stringify(dialog([action('a1', 'hello')]));
+    const theirs = stringify(dialog([action('a1', 'hey')]));
+
+    const { content, conflicts } = mergeFile('a.dialog', base, mine, theirs);
+    expect(conflicts).toEqual([
+      { path: 'triggers[#t1].actions[#a1].activity', base: 'hi', mine: 'hello', theirs: 'hey' },
+    ]);
+    expect(JSON.parse(content)).toEqual(dialog([action('a1', 'hello')]));
+
+    const resolved = mergeFile('a.dialog', base, mine, theirs, { 'triggers[#t1].actions[#a1].activity': 'theirs' });
+    expect(JSON.parse(resolved.content)).toEqual(dialog([action('a1', 'hey')]));
+  });
+
+  it('merges LG templates one by one', () => {
+    const base = '> imports\n\n# a\n- a\n\n# b\n- b\n';
+    const mine = '> imports\n\n# a\n- my a\n\n# b\n- b\n\n# c\n- c\n';
+    const theirs = '> imports\n\n# a\n- a\n\n# b\n- saved b\n';
+
+    const { content, conflicts } = mergeFile('a.en-us.lg', base, mine, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(content).toBe('> imports\n\n# a\n- my a\n\n# b\n- saved b\n\n# c\n- c\n');
+  });
+
+  it('reports an LU intent removed on one side and changed on the other', () => {
+    const base = '# Greeting\n- hi\n# Cancel\n- stop';
+    const mine = '# Greeting\n- hi';
+    const theirs = '# Greeting\n- hi\n# Cancel\n- stop\n- quit';
+
+    const { content, conflicts } = mergeFile('a.en-us.lu', base, mine, theirs);
+
+    expect(conflicts).toEqual([{ path: '# Cancel', base: '# Cancel\n- stop', theirs: '# Cancel\n- stop\n- quit' }]);
+    expect(content).toBe('# Greeting\n- hi');
+    expect(mergeFile('a.en-us.lu', base, mine, theirs, { '# Cancel': 'theirs' }).content).toBe(theirs);
+  });
+});
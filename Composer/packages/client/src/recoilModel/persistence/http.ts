@@ -15,10 +15,11 @@ export const deleteFile = async (projectId: string, name: string) => {
   await httpClient.delete(`/projects/${projectId}/files/${name}`);
 };
 
-export const updateFile = async (projectId: string, name: string, content: string) => {
+export const updateFile = async (projectId: string, name: string, content: string, eTag?: string) => {
   const response = await httpClient.put(`/projects/${projectId}/files/${name}`, {
     name,
     content,
+    eTag,
   });
   return response.data;
 };
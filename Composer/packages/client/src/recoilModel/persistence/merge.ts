@@ -0,0 +1,152 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+import isEqual from 'lodash/isEqual';
+import isPlainObject from 'lodash/isPlainObject';
+
+import { ConflictResolutions, MergeConflict } from './types';
+
+type MergeResult = { content: string; conflicts: MergeConflict[] };
+
+class Merger {
+  public conflicts: MergeConflict[] = [];
+
+  constructor(private resolutions: ConflictResolutions) {}
+
+  // the value changed on both sides, the user picks one of them
+  public conflict(path: string, base: any, mine: any, theirs: any) {
+    this.conflicts.push({ path, base, mine, theirs });
+    return this.resolutions[path] === 'theirs' ? theirs : mine;
+  }
+
+  public merge(path: string, base: any, mine: any, theirs: any): any {
+    if (isEqual(mine, theirs) || isEqual(base, theirs)) return mine;
+    if (isEqual(base, mine)) return theirs;
+
+    if (isPlainObject(base) && isPlainObject(mine) && isPlainObject(theirs)) {
+      return this.mergeObjects(path, base, mine, theirs);
+    }
+    if ([base, mine, theirs].every(isDesignerArray)) {
+      return this.mergeDesignerArrays(path, base, mine, theirs);
+    }
+    return this.conflict(path, base, mine, theirs);
+  }
+
+  public mergeEntries(
+    base: Map<string, any>,
+    mine: Map<string, any>,
+    theirs: Map<string, any>,
+    getPath: (key: string) => string
+  ) {
+    const merged = new Map<string, any>();
+    mergeOrder(Array.from(mine.keys()), Array.from(theirs.keys())).forEach((key) => {
+      const value = this.merge(getPath(key), base.get(key), mine.get(key), theirs.get(key));
+      if (value !== undefined) {
+        merged.set(key, value);
+      }
+    });
+    return merged;
+  }
+
+  private mergeObjects(path: string, base: object, mine: object, theirs: object) {
+    const merged = this.mergeEntries(toMap(base), toMap(mine), toMap(theirs), (key) => (path ? `${path}.${key}` : key));
+    const result = {};
+    merged.forEach((value, key) => {
+      result[key] = value;
+    });
+    return result;
+  }
+
+  // triggers, actions and cases are matched on their $designer.id instead of their position
+  private mergeDesignerArrays(path: string, base: any[], mine: any[], theirs: any[]) {
+    const byDesignerId = (items: any[]) => new Map(items.map((item) => [item.$designer.id, item] as [string, any]));
+    const merged = this.mergeEntries(
+      byDesignerId(base),
+      byDesignerId(mine),
+      byDesignerId(theirs),
+      (id) => `${path}[#${id}]`
+    );
+    return Array.from(merged.values());
+  }
+}
+
+const toMap = (value: object) => new Map(Object.entries(value));
+
+const isDesignerArray = (value: any) =>
+  Array.isArray(value) && value.every((item) => typeof item?.$designer?.id === 'string');
+
+// keeps the order of mine, the keys only found in theirs are inserted after the keys preceding them in theirs
+const mergeOrder = (mine: string[], theirs: string[]) => {
+  const order = [...mine];
+  theirs.forEach((key, index) => {
+    if (order.includes(key)) return;
+    const previous = theirs
+      .slice(0, index)
+      .reverse()
+      .find((previousKey) => order.includes(previousKey));
+    order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, key);
+  });
+  return order;
+};
+
+// sections of a .lg, .lu or .qna file, each one starts with a "# template", "# intent" or "# ?question" line
+const splitSections = (content: string) => {
+  const sections = new Map<string, string[]>();
+  let current: string[] = [];
+  sections.set('', current);
+  content.split('\n').forEach((line) => {
+    if (line.startsWith('#')) {
+      let name = line.trim();
+      for (let occurrence = 2; sections.has(name); occurrence++) {
+        name = `${line.trim()} (${occurrence})`;
+      }
+      current = [];
+      sections.set(name, current);
+    }
+    current.push(line);
+  });
+  const entries = Array.from(sections.entries()).filter(([, lines]) => lines.length);
+  return new Map(entries.map(([name, lines]) => [name, lines.join('\n')] as [string, string]));
+};
+
+const isJsonFile = (name: string) => /\.(dialog|schema|json|botproj|form)$/.test(name);
+const isSectionFile = (name: string) => /\.(lg|lu|qna)$/.test(name);
+
+const parseJson = (content: string) => {
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Merges the changes made to a file in Composer (mine) with the ones saved in the meantime (theirs), both made
+ * on base. Dialogs and other JSON files are merged property by property and their triggers and actions by
+ * $designer.id, LG templates, LU intents and QnA sections one by one. Only the parts changed on both sides
+ * are reported as conflicts, they are resolved with the given resolutions or keep mine.
+ */
+export const mergeFile = (
+  name: string,
+  base: string,
+  mine: string,
+  theirs: string,
+  resolutions: ConflictResolutions = {}
+): MergeResult => {
+  const merger = new Merger(resolutions);
+
+  if (isJsonFile(name)) {
+    const [baseJson, mineJson, theirsJson] = [base, mine, theirs].map(parseJson);
+    if (baseJson !== undefined && mineJson !== undefined && theirsJson !== undefined) {
+      const merged = merger.merge('', baseJson, mineJson, theirsJson);
+      const ending = mine.endsWith('\n') ? '\n' : '';
+      return { content: JSON.stringify(merged, null, 2) + ending, conflicts: merger.conflicts };
+    }
+  }
+
+  if (isSectionFile(name)) {
+    const merged = merger.mergeEntries(splitSections(base), splitSections(mine), splitSections(theirs), (key) => key);
+    return { content: Array.from(merged.values()).join('\n'), conflicts: merger.conflicts };
+  }
+
+  return { content: merger.merge('', base, mine, theirs), conflicts: merger.conflicts };
+};
@@ -42,6 +42,14 @@ export interface IFileChange {
   type: ChangeType;
 }
 
+/** A file written by Composer since the last commit of the project history. */
+export type FileChangeSummary = {
+  id: string;
+  type: ChangeType;
+  /** Path relative to the project folder, the files created in this session have none until they are saved. */
+  path?: string;
+};
+
 export type FileAsset =
   | DialogInfo
   | DialogSchemaFile
@@ -57,3 +65,22 @@ export type FileDifference = {
   added: FileAsset[];
   deleted: FileAsset[];
 };
+
+/** A part of a file changed both in Composer and outside of it since the file was loaded. */
+export type MergeConflict = {
+  // path of the JSON property, or the header of the LG template, LU intent or QnA section
+  path: string;
+  base?: any;
+  mine?: any;
+  theirs?: any;
+};
+
+export type ConflictResolutions = { [path: string]: 'mine' | 'theirs' };
+
+export type FileConflict = {
+  projectId: string;
+  id: string;
+  conflicts: MergeConflict[];
+};
+
+export type FileConflictHandler = (conflict: FileConflict) => Promise<ConflictResolutions>;
@@ -0,0 +1,153 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { selector } from 'recoil';
+import formatMessage from 'format-message';
+
+import { botDisplayNameState, localeState, projectMetaDataState } from '../atoms';
+import { convertPathToUrl, createBotSettingUrl } from '../../utils/navigation';
+
+import { localBotsWithoutErrorsSelector, rootBotProjectIdSelector } from './project';
+import { dialogsSelectorFamily } from './dialogs';
+import { lgFilesSelectorFamily } from './lg';
+import { luFilesSelectorFamily } from './lu';
+import { qnaFilesSelectorFamily } from './qna';
+
+export type NavigationTarget = {
+  key: string;
+  title: string;
+  category: string;
+  // where the target is, e.g. the bot and dialog of a trigger
+  description: string;
+  url: string;
+};
+
+const getFileDialogId = (fileId: string, locale: string) =>
+  fileId.endsWith(`.${locale}`) ? fileId.slice(0, -(locale.length + 1)) : undefined;
+
+/**
+ * Everything of the local bots the command palette jumps to: dialogs, triggers, LG templates, LU intents,
+ * QnA pairs in the current language and the settings.
+ */
+export const navigationTargetsSelector = selector<NavigationTarget[]>({
+  key: 'navigationTargetsSelector',
+  get: ({ get }) => {
+    const rootBotProjectId = get(rootBotProjectIdSelector);
+    if (!rootBotProjectId) return [];
+
+    const targets: NavigationTarget[] = [];
+    get(localBotsWithoutErrorsSelector).forEach((projectId) => {
+      const { isRootBot } = get(projectMetaDataState(projectId));
+      const botName = get(botDisplayNameState(projectId));
+      const locale = get(localeState(projectId));
+      const dialogs = get(dialogsSelectorFamily(projectId));
+      const skillId = isRootBot ? null : projectId;
+      const baseUrl = isRootBot ? `/bot/${rootBotProjectId}/` : `/bot/${rootBotProjectId}/skill/${projectId}/`;
+      const getDialogName = (dialogId: string) => dialogs.find(({ id }) => id === dialogId)?.displayName ?? dialogId;
+
+      dialogs.forEach((dialog) => {
+        targets.push({
+          key: `dialog:${projectId}:${dialog.id}`,
+          title: dialog.displayName,
+          category: formatMessage('Dialog'),
+          description: botName,
+          url: convertPathToUrl(rootBotProjectId, skillId, dialog.id),
+        });
+
+        dialog.triggers.forEach((trigger, index) => {
+          targets.push({
+            key: `trigger:${projectId}:${dialog.id}:${index}`,
+            title: trigger.displayName || trigger.type,
+            category: formatMessage('Trigger'),
+            description: `${botName} > ${dialog.displayName}`,
+            url: convertPathToUrl(rootBotProjectId, skillId, dialog.id, `${dialog.id}.triggers[${index}]`),
+          });
+        });
+      });
+
+      get(lgFilesSelectorFamily(projectId)).forEach(({ id, templates }) => {
+        const dialogId = getFileDialogId(id, locale);
+        if (!dialogId) return;
+
+        templates.forEach(({ name, range }) => {
+          targets.push({
+            key: `lg:${projectId}:${id}:${name}`,
+            title: name,
+            category: formatMessage('Bot response'),
+            description: `${botName} > ${getDialogName(dialogId)}`,
+            url: `${baseUrl}language-generation/${dialogId}/edit#L=${range?.start.line ?? 0}`,
+          });
+        });
+      });
+
+      get(luFilesSelectorFamily(projectId)).forEach(({ id, intents }) => {
+        const dialogId = getFileDialogId(id, locale);
+        if (!dialogId) return;
+
+        intents.forEach(({ Name, range }) => {
+          targets.push({
+            key: `lu:${projectId}:${id}:${Name}`,
+            title: Name,
+            category: formatMessage('Intent'),
+            description: `${botName} > ${getDialogName(dialogId)}`,
+            url: `${baseUrl}language-understanding/${dialogId}/edit#L=${range?.start.line ?? 0}`,
+          });
+        });
+      });
+
+      const rootDialogId = dialogs.find(({ isRoot }) => isRoot)?.id ?? 'all';
+      get(qnaFilesSelectorFamily(projectId)).forEach(({ id, qnaSections }) => {
+        const dialogId = getFileDialogId(id, locale);
+        if (!dialogId) return;
+
+        // the knowledge bases imported by the dialogs are opened as containers of the root dialog
+        const containerId = dialogId.endsWith('.source') ? dialogId.slice(0, -'.source'.length) : undefined;
+        const url = containerId
+          ? `${baseUrl}knowledge-base/${rootDialogId}/edit?C=${containerId}`
+          : `${baseUrl}knowledge-base/${dialogId}/edit`;
+
+        qnaSections.forEach(({ sectionId, Questions, range }) => {
+          if (!Questions.length) return;
+          targets.push({
+            key: `qna:${projectId}:${id}:${sectionId}`,
+            title: Questions[0].content,
+            category: formatMessage('QnA'),
+            description: `${botName} > ${containerId ?? getDialogName(dialogId)}`,
+            url: `${url}#L=${range?.start.line ?? 0}`,
+          });
+        });
+      });
+
+      const settingTabs = [
+        { hash: 'Basics', title: formatMessage('Basics') },
+        { hash: 'LuisQna', title: formatMessage('LUIS and QnA') },
+        ...(isRootBot
+          ? [
+              { hash: 'Connections', title: formatMessage('Connections') },
+              { hash: 'SkillConfig', title: formatMessage('Skill Configuration') },
+            ]
+          : []),
+        { hash: 'Language', title: formatMessage('Language') },
+      ];
+      settingTabs.forEach(({ hash, title }) => {
+        targets.push({
+          key: `setting:${projectId}:${hash}`,
+          title,
+          category: formatMessage('Bot settings'),
+          description: botName,
+          url: createBotSettingUrl(rootBotProjectId, projectId, `#${hash}`),
+        });
+      });
+    });
+
+    targets.push({
+      key: 'setting:application',
+      title: formatMessage('Application settings'),
+      category: formatMessage('Settings'),
+      description: formatMessage('Composer'),
+      url: '/settings/application',
+    });
+
+    return targets;
+  },
+});
@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { BotIndexer } from '@bfc/indexers';
+import { BotIndexer, translationIndexer, utteranceCoverageIndexer } from '@bfc/indexers';
 import { selectorFamily, selector } from 'recoil';
 import lodashGet from 'lodash/get';
 import formatMessage from 'format-message';
@@ -28,6 +28,7 @@ import {
   projectMetaDataState,
   settingsState,
   skillManifestsState,
+  utteranceCoverageState,
 } from '../atoms';
 
 import { crossTrainConfigState } from './../atoms/botState';
@@ -37,6 +38,7 @@ import { dialogDiagnosticsSelectorFamily, dialogsWithLuProviderSelectorFamily }
 import { lgFilesSelectorFamily } from './lg';
 import { luFilesSelectorFamily } from './lu';
 import { qnaFilesSelectorFamily } from './qna';
+import { translationCompletenessSelectorFamily } from './translation';
 
 export const botAssetsSelectFamily = selectorFamily({
   key: 'botAssetsSelectFamily',
@@ -247,6 +249,54 @@ export const qnaDiagnosticsSelectorFamily = selectorFamily({
   },
 });
 
+export const translationDiagnosticsSelectorFamily = selectorFamily({
+  key: 'translationDiagnosticsSelectorFamily',
+  get: (projectId: string) => ({ get }) => {
+    const botAssets = get(botAssetsSelectFamily(projectId));
+    if (botAssets === null) return [];
+
+    const { lgFiles, luFiles, dialogs } = botAssets;
+    const rootProjectId = get(rootBotProjectIdSelector) ?? projectId;
+    const diagnosticList: DiagnosticInfo[] = [];
+
+    translationIndexer.validate(get(translationCompletenessSelectorFamily(projectId))).forEach((diagnostic) => {
+      // locales without the file at all are only reported on the localization page
+      const { source } = diagnostic;
+      const lgFile = lgFiles.find(({ id }) => `${id}.lg` === source);
+      const luFile = luFiles.find(({ id }) => `${id}.lu` === source);
+      if (lgFile) {
+        diagnosticList.push(new LgDiagnostic(rootProjectId, projectId, lgFile.id, source, diagnostic, lgFile, dialogs));
+      } else if (luFile) {
+        diagnosticList.push(new LuDiagnostic(rootProjectId, projectId, luFile.id, source, diagnostic, luFile, dialogs));
+      }
+    });
+
+    return diagnosticList;
+  },
+});
+
+export const utteranceCoverageDiagnosticsSelectorFamily = selectorFamily({
+  key: 'utteranceCoverageDiagnosticsSelectorFamily',
+  get: (projectId: string) => ({ get }) => {
+    const botAssets = get(botAssetsSelectFamily(projectId));
+    const report = get(utteranceCoverageState(projectId));
+    if (botAssets === null || report === null) return [];
+
+    const { luFiles, dialogs } = botAssets;
+    const rootProjectId = get(rootBotProjectIdSelector) ?? projectId;
+
+    return utteranceCoverageIndexer.validate(botAssets, report).reduce((result: DiagnosticInfo[], diagnostic) => {
+      const luFile = luFiles.find(({ id }) => `${id}.lu` === diagnostic.source);
+      if (luFile) {
+        result.push(
+          new LuDiagnostic(rootProjectId, projectId, luFile.id, diagnostic.source, diagnostic, luFile, dialogs)
+        );
+      }
+      return result;
+    }, []);
+  },
+});
+
 export const diagnosticsSelectorFamily = selectorFamily({
   key: 'diagnosticsSelector',
   get: (projectId: string) => ({ get }) => [
@@ -257,6 +307,8 @@ export const diagnosticsSelectorFamily = selectorFamily({
     ...get(luDiagnosticsSelectorFamily(projectId)),
     ...get(lgDiagnosticsSelectorFamily(projectId)),
     ...get(qnaDiagnosticsSelectorFamily(projectId)),
+    ...get(translationDiagnosticsSelectorFamily(projectId)),
+    ...get(utteranceCoverageDiagnosticsSelectorFamily(projectId)),
   ],
 });
 
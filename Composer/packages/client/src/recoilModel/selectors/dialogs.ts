@@ -1,10 +1,11 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { DialogInfo } from '@bfc/shared';
+import { DialogDiffItem, DialogInfo } from '@bfc/shared';
+import { diffDialogs } from '@bfc/indexers';
 import { selectorFamily } from 'recoil';
 
-import { dialogIdsState, dialogState } from '../atoms';
+import { dialogDiffState, dialogIdsState, dialogState } from '../atoms';
 
 export const dialogsSelectorFamily = selectorFamily<DialogInfo[], string>({
   key: 'dialogs',
@@ -37,3 +38,21 @@ export const currentDialogState = selectorFamily<DialogInfo | undefined, { proje
     return get(dialogsSelectorFamily(projectId))?.[0];
   },
 });
+
+/**
+ * Changes of a dialog since the revision it is compared with, undefined when it is not compared.
+ */
+export const dialogDiffSelectorFamily = selectorFamily<
+  DialogDiffItem[] | undefined,
+  { projectId: string; dialogId: string }
+>({
+  key: 'dialogDiffItems',
+  get: ({ projectId, dialogId }) => ({ get }) => {
+    const diff = get(dialogDiffState(projectId));
+    if (diff?.dialogId !== dialogId || !get(dialogIdsState(projectId)).includes(dialogId)) {
+      return undefined;
+    }
+
+    return diffDialogs(diff.previous, get(dialogState({ projectId, dialogId })).content);
+  },
+});
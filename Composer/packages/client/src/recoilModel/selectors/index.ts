@@ -13,3 +13,6 @@ export * from './diagnosticsPageSelector';
 export * from './lg';
 export * from './lu';
 export * from './qna';
+export * from './translation';
+export * from './commandPalette';
+export * from './search';
@@ -121,6 +121,7 @@ const botRuntimeAction = (dispatcher: Dispatcher) => {
     },
     startBot: async (projectId: string, sensitiveSettings) => {
       dispatcher.setBotStatus(projectId, BotStatus.starting);
+      await dispatcher.updatePseudoLocaleFiles(projectId);
       await dispatcher.publishToTarget(projectId, defaultPublishConfig, { comment: '' }, sensitiveSettings);
     },
     stopBot: async (projectId: string) => {
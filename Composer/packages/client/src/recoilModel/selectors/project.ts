@@ -2,7 +2,7 @@
 // Licensed under the MIT License.
 
 import { BotIndexer } from '@bfc/indexers';
-import { BotAssets, checkForPVASchema, DialogInfo, FormDialogSchema, JsonSchemaFile } from '@bfc/shared';
+import { BotAssets, checkForPVASchema, DialogInfo, FormDialogSchema, JsonSchemaFile, PseudoLocale } from '@bfc/shared';
 import isEmpty from 'lodash/isEmpty';
 import uniqBy from 'lodash/uniqBy';
 import { selector, selectorFamily } from 'recoil';
@@ -30,6 +30,7 @@ import {
   botEndpointsState,
   localeState,
   botStatusState,
+  pseudoLocalizationEnabledState,
 } from '../atoms';
 import {
   dialogsSelectorFamily,
@@ -364,7 +365,7 @@ export const webChatEssentialsSelector = selectorFamily<WebChatEssentials, strin
     const botEndpoints = get(botEndpointsState);
     const botUrl = botEndpoints[projectId];
     const botName = get(botDisplayNameState(projectId));
-    const activeLocale = get(localeState(projectId));
+    const activeLocale = get(pseudoLocalizationEnabledState) ? PseudoLocale : get(localeState(projectId));
     const botStatus = get(botStatusState(projectId));
 
     return {
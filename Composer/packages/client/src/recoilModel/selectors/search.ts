@@ -0,0 +1,31 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { selector } from 'recoil';
+import formatMessage from 'format-message';
+
+import { INavTreeItem } from '../../components/NavTree';
+import { botDisplayNameState, botProjectIdsState, projectMetaDataState } from '../atoms';
+
+import { rootBotProjectIdSelector } from './project';
+
+export const searchNavLinksSelector = selector({
+  key: 'searchNavLinksSelector',
+  get: ({ get }) => {
+    const projectId = get(rootBotProjectIdSelector);
+    const ids = get(botProjectIdsState);
+    return ids.reduce((result: INavTreeItem[], id: string) => {
+      const projectsMetaData = get(projectMetaDataState(id));
+      if (projectsMetaData.isRemote) return result;
+      const name = get(botDisplayNameState(id));
+      const url = id === projectId ? `/bot/${projectId}/search` : `/bot/${projectId}/skill/${id}/search`;
+      result.push({
+        id,
+        name,
+        ariaLabel: formatMessage('search links'),
+        url,
+      });
+      return result;
+    }, []);
+  },
+});
@@ -0,0 +1,48 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { translationIndexer } from '@bfc/indexers';
+import { TranslationCompleteness } from '@bfc/shared';
+import { selector, selectorFamily } from 'recoil';
+import formatMessage from 'format-message';
+
+import { INavTreeItem } from '../../components/NavTree';
+import { botDisplayNameState, botProjectIdsState, projectMetaDataState, settingsState } from '../atoms';
+
+import { lgFilesSelectorFamily } from './lg';
+import { luFilesSelectorFamily } from './lu';
+import { qnaFilesSelectorFamily } from './qna';
+import { rootBotProjectIdSelector } from './project';
+
+export const translationCompletenessSelectorFamily = selectorFamily<TranslationCompleteness[], string>({
+  key: 'translationCompleteness',
+  get: (projectId: string) => ({ get }) => {
+    const lgFiles = get(lgFilesSelectorFamily(projectId));
+    const luFiles = get(luFilesSelectorFamily(projectId));
+    const qnaFiles = get(qnaFilesSelectorFamily(projectId));
+    const setting = get(settingsState(projectId));
+
+    return translationIndexer.index({ lgFiles, luFiles, qnaFiles, setting });
+  },
+});
+
+export const localizationNavLinksSelector = selector({
+  key: 'localizationNavLinksSelector',
+  get: ({ get }) => {
+    const projectId = get(rootBotProjectIdSelector);
+    const ids = get(botProjectIdsState);
+    return ids.reduce((result: INavTreeItem[], id: string) => {
+      const projectsMetaData = get(projectMetaDataState(id));
+      if (projectsMetaData.isRemote) return result;
+      const name = get(botDisplayNameState(id));
+      const url = id === projectId ? `/bot/${projectId}/localization` : `/bot/${projectId}/skill/${id}/localization`;
+      result.push({
+        id,
+        name,
+        ariaLabel: formatMessage('localization links'),
+        url,
+      });
+      return result;
+    }, []);
+  },
+});
@@ -5,7 +5,15 @@ import { selectorFamily } from 'recoil';
 import { DialogInfo, BotSchemas, LgFile, DialogSetting, RecognizerFile } from '@bfc/shared';
 import { validateDialog } from '@bfc/indexers';
 
-import { schemasState, dialogState, settingsState, localeState, lgFileState, projectMetaDataState } from '../atoms';
+import {
+  schemasState,
+  dialogState,
+  settingsState,
+  localeState,
+  lgFileState,
+  projectMetaDataState,
+  extensionLintRulesState,
+} from '../atoms';
 import { getLuProvider } from '../../utils/dialogUtil';
 
 import { recognizersSelectorFamily } from './recognizers';
@@ -38,6 +46,7 @@ export const dialogDiagnosticsSelectorFamily = selectorFamily({
     const locale = get(localeState(projectId));
     const lgFile: LgFile = get(lgFileState({ projectId, lgFileId: `${dialogId}.${locale}` }));
     const settings: DialogSetting = get(settingsState(projectId));
+    const lintRules = get(extensionLintRulesState);
     const cacheId = `${projectId}-${dialogId}`;
 
     const { diagnostics, cache } = validateDialog(
@@ -46,7 +55,8 @@ export const dialogDiagnosticsSelectorFamily = selectorFamily({
       settings,
       [lgFile],
       [],
-      dialogCache.get(cacheId)
+      dialogCache.get(cacheId),
+      lintRules
     );
     dialogCache.set(cacheId, cache);
 
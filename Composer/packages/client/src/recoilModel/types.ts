@@ -5,6 +5,9 @@ import {
   AppUpdaterSettings,
   CodeEditorSettings,
   ConversationTrafficItem,
+  MicrosoftAdaptiveDialog,
+  ProjectSearchQuery,
+  ProjectSearchResult,
   PromptTab,
   TelemetrySettings,
 } from '@bfc/shared';
@@ -12,6 +15,7 @@ import {
 import { AppUpdaterStatus } from '../constants';
 
 import { CardProps } from './../components/Notifications/NotificationCard';
+import { ConflictResolutions, FileConflict } from './persistence/types';
 
 export interface StateError {
   status?: number;
@@ -127,3 +131,39 @@ export type WebChatInspectionData = {
   item: ConversationTrafficItem;
   mode?: TrafficInspectionMode;
 };
+
+/**
+ * Committed revision of a dialog the current content is compared with.
+ */
+export type DialogDiffData = {
+  dialogId: string;
+  /** Path of the .dialog file, relative to the bot project folder. */
+  path: string;
+  revision: string;
+  /** Content of the dialog at the revision, undefined when the dialog was not committed yet. */
+  previous?: MicrosoftAdaptiveDialog;
+};
+
+/**
+ * Changes of a file that could not be merged with the ones saved outside of Composer, waiting for the user.
+ */
+export type FileConflictData = FileConflict & {
+  onResolve: (resolutions: ConflictResolutions) => void;
+};
+
+/**
+ * Last search of a bot on the search page, with the replacement it previews if any.
+ */
+export type ProjectSearchData = {
+  query: ProjectSearchQuery;
+  replacement?: string;
+  result: ProjectSearchResult;
+};
+
+/**
+ * A dialog, or a trigger of a dialog when the index is set, selected in the project tree for a bulk edit.
+ */
+export type BulkEditItem = {
+  dialogId: string;
+  triggerIndex?: number;
+};
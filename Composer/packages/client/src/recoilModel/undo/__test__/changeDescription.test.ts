@@ -0,0 +1,90 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { describeChanges } from '../changeDescription';
+import { dialogsSelectorFamily, luFilesSelectorFamily, qnaFilesSelectorFamily } from '../../selectors';
+import { lgFilesSelectorFamily } from '../../selectors/lg';
+
+import { mockDialog } from './mockDialog';
+
+const projectId = '123-asd';
+
+const orderDialog = (actions: any[]) => {
+  const dialog = mockDialog('orderdialog');
+  return {
+    ...dialog,
+    displayName: 'OrderDialog',
+    content: {
+      ...dialog.content,
+      triggers: [{ $kind: 'Microsoft.OnBeginDialog', $designer: { id: 't1' }, actions }],
+    },
+  };
+};
+
+const assets = (dialogs: any[], lgFiles: any[] = [], luFiles: any[] = [], qnaFiles: any[] = []) =>
+  new Map<any, any>()
+    .set(dialogsSelectorFamily(projectId), dialogs)
+    .set(lgFilesSelectorFamily(projectId), lgFiles)
+    .set(luFilesSelectorFamily(projectId), luFiles)
+    .set(qnaFilesSelectorFamily(projectId), qnaFiles);
+
+const sendActivity = { $kind: 'Microsoft.SendActivity', $designer: { id: 'a1' }, activity: '${SendActivity_a1()}' };
+
+describe('describeChanges', () => {
+  it('describes the actions added to and deleted from a trigger', () => {
+    const before = assets([orderDialog([])]);
+    const after = assets([orderDialog([sendActivity])]);
+
+    expect(describeChanges(before, after, projectId)).toBe(
+      'Added "Send a response" to "Dialog started" in OrderDialog'
+    );
+    expect(describeChanges(after, before, projectId)).toBe(
+      'Deleted "Send a response" from "Dialog started" in OrderDialog'
+    );
+  });
+
+  it('describes the dialogs added and deleted', () => {
+    const before = assets([orderDialog([])]);
+    const after = assets([orderDialog([]), { ...mockDialog('help'), displayName: 'Help' }]);
+
+    expect(describeChanges(before, after, projectId)).toBe('Added dialog Help');
+    expect(describeChanges(after, before, projectId)).toBe('Deleted dialog Help');
+  });
+
+  it('describes the responses and the trigger phrases only when no dialog changed', () => {
+    const dialogs = [orderDialog([])];
+    const lgFile = { id: 'orderdialog.en-us', content: '# hi\n- hi' };
+    const luFile = { id: 'orderdialog.en-us', content: '# Help\n- help' };
+
+    expect(
+      describeChanges(assets(dialogs, [lgFile]), assets(dialogs, [{ ...lgFile, content: '# hi\n- hello' }]), projectId)
+    ).toBe('Edited bot responses of orderdialog');
+    expect(
+      describeChanges(
+        assets(dialogs, [lgFile], [luFile]),
+        assets(dialogs, [{ ...lgFile, content: '' }], [{ ...luFile, content: '' }]),
+        projectId
+      )
+    ).toBe('Edited bot responses of orderdialog and 1 other change');
+    expect(
+      describeChanges(
+        assets(dialogs, [lgFile]),
+        assets([orderDialog([sendActivity])], [{ ...lgFile, content: '' }]),
+        projectId
+      )
+    ).toBe('Added "Send a response" to "Dialog started" in OrderDialog');
+  });
+
+  it('describes the QnA', () => {
+    const dialogs = [orderDialog([])];
+    const qnaFile = { id: 'orderdialog.en-us', content: '# ? hi\n```\nhello\n```' };
+
+    expect(
+      describeChanges(
+        assets(dialogs, [], [], [qnaFile]),
+        assets(dialogs, [], [], [{ ...qnaFile, content: '' }]),
+        projectId
+      )
+    ).toBe('Edited QnA of orderdialog');
+  });
+});
@@ -7,7 +7,7 @@ import { act } from 'react-test-renderer';
 import { useRecoilValue, useSetRecoilState, useRecoilState } from 'recoil';
 import { HookResult } from '@botframework-composer/test-utils/lib/hooks';
 
-import { UndoRoot, undoFunctionState, undoHistoryState } from '../history';
+import { UndoRoot, undoFunctionState, undoHistoryState, undoRecordsState } from '../history';
 import {
   projectMetaDataState,
   currentProjectIdState,
@@ -17,7 +17,12 @@ import {
   canRedoState,
   dispatcherState,
 } from '../../atoms';
-import { dialogsSelectorFamily, lgFilesSelectorFamily, luFilesSelectorFamily } from '../../selectors';
+import {
+  dialogsSelectorFamily,
+  lgFilesSelectorFamily,
+  luFilesSelectorFamily,
+  qnaFilesSelectorFamily,
+} from '../../selectors';
 import { renderRecoilHook } from '../../../../__tests__/testUtils/react-recoil-hooks-testing-library';
 import UndoHistory from '../undoHistory';
 import { undoStatusSelectorFamily } from '../../selectors/undo';
@@ -34,15 +39,22 @@ export const UndoRedoWrapper = () => {
 
 describe('<UndoRoot/>', () => {
   const useRecoilTestHook = () => {
-    const { undo, redo, commitChanges, clearUndo } = useRecoilValue(undoFunctionState(projectId));
+    const { undo, redo, commitChanges, clearUndo, jumpTo, setCheckpoint } = useRecoilValue(
+      undoFunctionState(projectId)
+    );
     const [dialogs, setDialogs] = useRecoilState(dialogsSelectorFamily(projectId));
+    const [qnaFiles, setQnaFiles] = useRecoilState(qnaFilesSelectorFamily(projectId));
     const setProjectIdState = useSetRecoilState(currentProjectIdState);
     const setDesignPageLocation = useSetRecoilState(designPageLocationState(projectId));
     const history = useRecoilValue(undoHistoryState(projectId));
     const [canUndo, canRedo] = useRecoilValue(undoStatusSelectorFamily(projectId));
+    const undoRecords = useRecoilValue(undoRecordsState(projectId));
     return {
       undo,
       redo,
+      jumpTo,
+      setCheckpoint,
+      undoRecords,
       canRedo,
       canUndo,
       commitChanges,
@@ -50,6 +62,8 @@ describe('<UndoRoot/>', () => {
       setProjectIdState,
       setDialogs,
       dialogs,
+      setQnaFiles,
+      qnaFiles,
       history,
       setDesignPageLocation,
     };
@@ -58,6 +72,7 @@ describe('<UndoRoot/>', () => {
   let renderedComponent: HookResult<ReturnType<typeof useRecoilTestHook>>;
 
   beforeEach(() => {
+    window.sessionStorage.clear();
     const { result } = renderRecoilHook(useRecoilTestHook, {
       wrapper: ({ children }) => {
         return (
@@ -72,6 +87,7 @@ describe('<UndoRoot/>', () => {
         { recoilState: dialogsSelectorFamily(projectId), initialValue: [{ id: '1', content: '' }] },
         { recoilState: lgFilesSelectorFamily(projectId), initialValue: [{ id: '1.lg' }, { id: '2' }] },
         { recoilState: luFilesSelectorFamily(projectId), initialValue: [{ id: '1.lu' }, { id: '2' }] },
+        { recoilState: qnaFilesSelectorFamily(projectId), initialValue: [{ id: '1.en-us', content: '# ? hi' }] },
         { recoilState: currentProjectIdState, initialValue: projectId },
         { recoilState: undoHistoryState(projectId), initialValue: new UndoHistory(projectId) },
         { recoilState: canUndoState(projectId), initialValue: false },
@@ -141,6 +157,21 @@ describe('<UndoRoot/>', () => {
     expect(renderedComponent.current.dialogs).toStrictEqual([mockDialog('2')]);
   });
 
+  it('should undo the QnA', () => {
+    act(() => {
+      renderedComponent.current.setQnaFiles([{ id: '1.en-us', content: '# ? hello' } as any]);
+    });
+    act(() => {
+      renderedComponent.current.commitChanges();
+    });
+    act(() => {
+      renderedComponent.current.undo();
+    });
+
+    expect(renderedComponent.current.qnaFiles).toStrictEqual([{ id: '1.en-us', content: '# ? hi' }]);
+    expect(renderedComponent.current.canRedo).toBeTruthy();
+  });
+
   it('should redo', () => {
     act(() => {
       renderedComponent.current.setDialogs([mockDialog('2')]);
@@ -175,4 +206,38 @@ describe('<UndoRoot/>', () => {
     });
     expect(renderedComponent.current.history.stack.length).toBe(1);
   });
+
+  it('should describe the changes and go to any of them', () => {
+    act(() => {
+      renderedComponent.current.setDialogs([mockDialog('2')]);
+    });
+    act(() => {
+      renderedComponent.current.commitChanges();
+    });
+    act(() => {
+      renderedComponent.current.setDialogs([mockDialog('2'), mockDialog('3')]);
+    });
+    act(() => {
+      renderedComponent.current.commitChanges();
+    });
+
+    expect(renderedComponent.current.undoRecords.records.map(({ description }) => description)).toEqual([
+      '',
+      'Added dialog 2 and 1 other change',
+      'Added dialog 3',
+    ]);
+    expect(renderedComponent.current.undoRecords.present).toBe(2);
+
+    act(() => {
+      renderedComponent.current.jumpTo(0);
+    });
+    expect(renderedComponent.current.dialogs).toStrictEqual([{ id: '1', content: '' }]);
+    expect(renderedComponent.current.undoRecords.present).toBe(0);
+    expect(renderedComponent.current.canRedo).toBeTruthy();
+
+    act(() => {
+      renderedComponent.current.setCheckpoint(0, 'initial');
+    });
+    expect(renderedComponent.current.undoRecords.records[0].checkpoint).toBe('initial');
+  });
 });
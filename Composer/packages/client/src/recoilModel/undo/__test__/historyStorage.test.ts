@@ -0,0 +1,88 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { restoreUndoHistory, saveUndoHistory } from '../historyStorage';
+import UndoHistory from '../undoHistory';
+import { designPageLocationState } from '../../atoms';
+import { dialogsSelectorFamily, luFilesSelectorFamily } from '../../selectors';
+import { lgFilesSelectorFamily } from '../../selectors/lg';
+
+const projectId = '123-asd';
+
+const assets = (dialogContent: string, lgFile: any) =>
+  new Map<any, any>()
+    .set(dialogsSelectorFamily(projectId), [{ id: 'main', content: dialogContent }])
+    .set(lgFilesSelectorFamily(projectId), [lgFile])
+    .set(luFilesSelectorFamily(projectId), [])
+    .set(designPageLocationState(projectId), { dialogId: 'main', selected: '', focused: '' });
+
+describe('undo history storage', () => {
+  const lgFile = { id: 'main.en-us', content: '# hi\n- hi', parseResult: { cached: true } };
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  it('restores the history of the same files', () => {
+    const history = new UndoHistory(projectId);
+    history.add(assets('first', lgFile));
+    history.add(assets('second', lgFile), 'Edited dialog main');
+    history.setCheckpoint(1, 'done');
+    saveUndoHistory(projectId, history);
+
+    const current = assets('second', { id: 'main.en-us', content: '# hi\n- hi' });
+    const restored = new UndoHistory(projectId);
+    expect(restoreUndoHistory(projectId, restored, current)).toBeTruthy();
+
+    expect(restored.present).toBe(1);
+    expect(restored.records).toEqual(history.records);
+    expect(restored.stack[1]).toBe(current);
+    expect(restored.stack[0].get(dialogsSelectorFamily(projectId))).toEqual([{ id: 'main', content: 'first' }]);
+    expect(restored.stack[0].get(lgFilesSelectorFamily(projectId))).toEqual([
+      { id: 'main.en-us', content: '# hi\n- hi' },
+    ]);
+  });
+
+  it('drops the history of files changed since', () => {
+    const history = new UndoHistory(projectId);
+    history.add(assets('first', lgFile));
+    saveUndoHistory(projectId, history);
+
+    expect(restoreUndoHistory(projectId, new UndoHistory(projectId), assets('changed', lgFile))).toBeFalsy();
+    expect(restoreUndoHistory(projectId, new UndoHistory(projectId), assets('first', lgFile))).toBeFalsy();
+  });
+
+  it('keeps only the checkpoints and the present item when the storage is full', () => {
+    const history = new UndoHistory(projectId);
+    history.add(assets('first', lgFile));
+    history.add(assets('second', lgFile), 'Edited dialog main');
+    history.setCheckpoint(1, 'done');
+    history.add(assets('third', lgFile), 'Edited dialog main');
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementationOnce(() => {
+      throw new Error('QuotaExceededError');
+    });
+
+    expect(saveUndoHistory(projectId, history)).toBe(true);
+    setItem.mockRestore();
+
+    const restored = new UndoHistory(projectId);
+    expect(restoreUndoHistory(projectId, restored, assets('third', lgFile))).toBeTruthy();
+    expect(restored.present).toBe(1);
+    expect(restored.records).toEqual([history.records[1], history.records[2]]);
+    expect(restored.stack[0].get(dialogsSelectorFamily(projectId))).toEqual([{ id: 'main', content: 'second' }]);
+  });
+
+  it('removes the history which cannot be saved', () => {
+    const history = new UndoHistory(projectId);
+    history.add(assets('first', lgFile));
+    saveUndoHistory(projectId, history);
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+
+    expect(saveUndoHistory(projectId, history)).toBe(false);
+    setItem.mockRestore();
+
+    expect(restoreUndoHistory(projectId, new UndoHistory(projectId), assets('first', lgFile))).toBeFalsy();
+  });
+});
@@ -59,3 +59,66 @@ describe('undoHistory class', () => {
     expect(undoHistory.stack[0].get(dialogsSelectorFamily(projectId))).toBe('10');
   });
 });
+
+describe('undoHistory records', () => {
+  const history = new undoHistoryImpl(projectId);
+  const assets = (value: string) => new Map().set(dialogsSelectorFamily(projectId), value);
+
+  beforeEach(() => {
+    history.clear();
+  });
+
+  it('should record the description of every change', () => {
+    history.add(assets('initial'));
+    history.add(assets('added'), 'Added a dialog');
+    expect(history.records.map(({ description }) => description)).toEqual(['', 'Added a dialog']);
+
+    history.undo();
+    history.add(assets('deleted'), 'Deleted a dialog');
+    expect(history.records.map(({ description }) => description)).toEqual(['', 'Deleted a dialog']);
+  });
+
+  it('should go to any item', () => {
+    for (let i = 0; i < 5; i++) {
+      history.add(assets(`${i}`));
+    }
+    expect(history.goTo(1).get(dialogsSelectorFamily(projectId))).toBe('1');
+    expect(history.canRedo()).toBeTruthy();
+    expect(() => history.goTo(5)).toThrow();
+  });
+
+  it('should keep the checkpoints when the history is full', () => {
+    for (let i = 0; i < 5; i++) {
+      history.add(assets(`${i}`));
+    }
+    history.setCheckpoint(1, ' before cleanup ');
+    expect(history.records[1].checkpoint).toBe('before cleanup');
+
+    for (let i = 5; i < 40; i++) {
+      history.add(assets(`${i}`));
+    }
+    expect(history.stack.length).toBe(30);
+    expect(history.records.length).toBe(30);
+    expect(history.stack[0].get(dialogsSelectorFamily(projectId))).toBe('1');
+    expect(history.records[0].checkpoint).toBe('before cleanup');
+    expect(history.stack[1].get(dialogsSelectorFamily(projectId))).toBe('11');
+  });
+
+  it('should never drop a checkpoint to make room', () => {
+    for (let i = 0; i < 30; i++) {
+      history.add(assets(`${i}`));
+      history.setCheckpoint(i, `checkpoint ${i}`);
+    }
+    history.add(assets('30'));
+    history.add(assets('31'));
+
+    expect(history.stack.length).toBe(32);
+    expect(history.records.filter(({ checkpoint }) => checkpoint)).toHaveLength(30);
+    expect(history.stack[0].get(dialogsSelectorFamily(projectId))).toBe('0');
+
+    // the item that is no longer the present one is dropped
+    history.add(assets('32'));
+    expect(history.stack.length).toBe(32);
+    expect(history.stack.map((item) => item.get(dialogsSelectorFamily(projectId))).slice(-2)).toEqual(['31', '32']);
+  });
+});
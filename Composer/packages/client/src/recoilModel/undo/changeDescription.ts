@@ -0,0 +1,111 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import formatMessage from 'format-message';
+import get from 'lodash/get';
+import isEqual from 'lodash/isEqual';
+import { diffDialogs } from '@bfc/indexers';
+import { DialogDiffItem, DialogInfo, getFriendlyName, LgFile, LuFile, QnAFile } from '@bfc/shared';
+
+import { dialogsSelectorFamily, luFilesSelectorFamily, qnaFilesSelectorFamily } from '../selectors';
+import { lgFilesSelectorFamily } from '../selectors/lg';
+import { getBaseName } from '../../utils/fileUtil';
+
+import { AtomAssetsMap } from './trackedAtoms';
+
+// the path of a trigger is the first part of the path of its actions, e.g. triggers[0] of triggers[0].actions[1]
+const getTrigger = (dialog: DialogInfo, path: string) => get(dialog.content, path.split('.')[0]);
+
+const describeDialogItem = (before: DialogInfo, after: DialogInfo, { kind, path }: DialogDiffItem) => {
+  // the path of a removed trigger or action is in the previous version of the dialog
+  const dialog = kind === 'removed' ? before : after;
+  const name = getFriendlyName(get(dialog.content, path));
+  const trigger = getFriendlyName(getTrigger(dialog, path));
+  const dialogName = after.displayName;
+  const isTrigger = !path.includes('.');
+
+  switch (kind) {
+    case 'added':
+      return isTrigger
+        ? formatMessage('Added trigger "{name}" to {dialog}', { name, dialog: dialogName })
+        : formatMessage('Added "{name}" to "{trigger}" in {dialog}', { name, trigger, dialog: dialogName });
+    case 'removed':
+      return isTrigger
+        ? formatMessage('Deleted trigger "{name}" from {dialog}', { name, dialog: dialogName })
+        : formatMessage('Deleted "{name}" from "{trigger}" in {dialog}', { name, trigger, dialog: dialogName });
+    case 'moved':
+      return isTrigger
+        ? formatMessage('Moved trigger "{name}" in {dialog}', { name, dialog: dialogName })
+        : formatMessage('Moved "{name}" to "{trigger}" in {dialog}', { name, trigger, dialog: dialogName });
+    default:
+      return isTrigger
+        ? formatMessage('Edited trigger "{name}" in {dialog}', { name, dialog: dialogName })
+        : formatMessage('Edited "{name}" in "{trigger}" in {dialog}', { name, trigger, dialog: dialogName });
+  }
+};
+
+const describeDialogChanges = (before: DialogInfo[] = [], after: DialogInfo[] = []) => {
+  const descriptions: string[] = [];
+  after.forEach((dialog) => {
+    const previous = before.find(({ id }) => id === dialog.id);
+    if (!previous) {
+      descriptions.push(formatMessage('Added dialog {dialog}', { dialog: dialog.displayName }));
+    } else if (!isEqual(previous.content, dialog.content)) {
+      const items = diffDialogs(previous.content, dialog.content);
+      descriptions.push(
+        ...(items.length
+          ? items.map((item) => describeDialogItem(previous, dialog, item))
+          : [formatMessage('Edited dialog {dialog}', { dialog: dialog.displayName })])
+      );
+    }
+  });
+  before
+    .filter(({ id }) => !after.some((dialog) => dialog.id === id))
+    .forEach((dialog) => descriptions.push(formatMessage('Deleted dialog {dialog}', { dialog: dialog.displayName })));
+  return descriptions;
+};
+
+type LanguageFile = LgFile | LuFile | QnAFile;
+
+const changedFiles = (before: LanguageFile[] = [], after: LanguageFile[] = []) =>
+  after.filter((file) => {
+    const previous = before.find(({ id }) => id === file.id);
+    return previous && previous.content !== file.content;
+  });
+
+/**
+ * Describes the change between two items of the undo history, e.g. Added "Send a response" to "Dialog started"
+ * in OrderDialog. The responses, the trigger phrases and the QnA edited with a dialog come from the same change,
+ * e.g. the response of a new "Send a response" action, so they are only described when no dialog changed.
+ */
+export const describeChanges = (previous: AtomAssetsMap, current: AtomAssetsMap, projectId: string) => {
+  let descriptions = describeDialogChanges(
+    previous.get(dialogsSelectorFamily(projectId)),
+    current.get(dialogsSelectorFamily(projectId))
+  );
+
+  if (!descriptions.length) {
+    descriptions = [
+      ...changedFiles(
+        previous.get(lgFilesSelectorFamily(projectId)),
+        current.get(lgFilesSelectorFamily(projectId))
+      ).map(({ id }) => formatMessage('Edited bot responses of {dialog}', { dialog: getBaseName(id) })),
+      ...changedFiles(
+        previous.get(luFilesSelectorFamily(projectId)),
+        current.get(luFilesSelectorFamily(projectId))
+      ).map(({ id }) => formatMessage('Edited trigger phrases of {dialog}', { dialog: getBaseName(id) })),
+      ...changedFiles(
+        previous.get(qnaFilesSelectorFamily(projectId)),
+        current.get(qnaFilesSelectorFamily(projectId))
+      ).map(({ id }) => formatMessage('Edited QnA of {dialog}', { dialog: getBaseName(id) })),
+    ];
+  }
+
+  if (descriptions.length > 1) {
+    return formatMessage('{change} and {count, plural, =1 {1 other change} other {# other changes}}', {
+      change: descriptions[0],
+      count: descriptions.length - 1,
+    });
+  }
+  return descriptions[0] ?? formatMessage('Edited the bot');
+};
@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import React, { useEffect, useRef, useCallback, useState } from 'react';
+import React, { useEffect, useRef, useCallback, useMemo, useState } from 'react';
 import {
   useRecoilTransactionObserver_UNSTABLE as useRecoilTransactionObserver,
   RecoilState,
@@ -10,17 +10,29 @@ import {
 import { atomFamily, Snapshot, useRecoilCallback, CallbackInterface, useSetRecoilState } from 'recoil';
 import uniqueId from 'lodash/uniqueId';
 import isEmpty from 'lodash/isEmpty';
+import debounce from 'lodash/debounce';
+import formatMessage from 'format-message';
 
 import { rootBotProjectIdSelector } from './../selectors/project';
 import { canRedoState, canUndoState, designPageLocationState, dispatcherState } from './../atoms';
+import { addNotificationInternal, createNotification } from './../dispatchers/notification';
 import { trackedAtoms, AtomAssetsMap } from './trackedAtoms';
-import UndoHistory from './undoHistory';
+import UndoHistory, { UndoRecord } from './undoHistory';
+import { describeChanges } from './changeDescription';
+import { restoreUndoHistory, saveUndoHistory } from './historyStorage';
 
 type IUndoRedo = {
   undo: () => void;
   redo: () => void;
   commitChanges: () => void;
   clearUndo: () => void;
+  jumpTo: (index: number) => void;
+  setCheckpoint: (index: number, name: string) => void;
+};
+
+export type UndoRecords = {
+  records: UndoRecord[];
+  present: number;
 };
 
 export const undoFunctionState = atomFamily<IUndoRedo, string>({
@@ -35,6 +47,11 @@ export const undoHistoryState = atomFamily<UndoHistory, string>({
   dangerouslyAllowMutability: true,
 });
 
+export const undoRecordsState = atomFamily<UndoRecords, string>({
+  key: 'undoRecords',
+  default: { records: [], present: -1 },
+});
+
 export const undoVersionState = atomFamily({
   key: 'version',
   default: '',
@@ -111,6 +128,7 @@ export const UndoRoot = React.memo((props: UndoRootProps) => {
   const setCanUndo = useSetRecoilState(canUndoState(projectId));
   const setCanRedo = useSetRecoilState(canRedoState(projectId));
   const setUndoFunction = useSetRecoilState(undoFunctionState(projectId));
+  const setUndoRecords = useSetRecoilState(undoRecordsState(projectId));
   const [, forceUpdate] = useState([]);
   const setVersion = useSetRecoilState(undoVersionState(projectId));
   const rootBotId = useRef('');
@@ -133,10 +151,14 @@ export const UndoRoot = React.memo((props: UndoRootProps) => {
 
   const setInitialProjectState = useRecoilCallback(({ snapshot }: CallbackInterface) => () => {
     if (!isEmpty(undoHistory)) {
-      undoHistory.clear();
       const assetMap = getAtomAssetsMap(snapshot, projectId);
-      undoHistory.add(assetMap);
+      //keep the history of the session when the page is reloaded
+      if (!restoreUndoHistory(projectId, undoHistory, assetMap)) {
+        undoHistory.clear();
+        undoHistory.add(assetMap);
+      }
       setInitialStateLoaded(true);
+      updateUndoResult();
     }
   });
 
@@ -164,9 +186,41 @@ export const UndoRoot = React.memo((props: UndoRootProps) => {
     navigate(next, projectId, rootBotId.current);
   };
 
+  const notifyHistoryNotKept = useRecoilCallback((callbackHelpers: CallbackInterface) => () => {
+    const notification = createNotification({
+      type: 'warning',
+      title: formatMessage('The undo history will not be kept'),
+      description: formatMessage('The browser storage is full, reloading the page will clear the undo history.'),
+    });
+    addNotificationInternal(callbackHelpers, notification);
+  });
+
+  // saving serializes the history, it is done once the changes settle and when the page is left
+  const historyKept = useRef(true);
+  const saveHistory = useMemo(
+    () =>
+      debounce(() => {
+        const kept = saveUndoHistory(projectId, history);
+        if (!kept && historyKept.current) notifyHistoryNotKept();
+        historyKept.current = kept;
+      }, 1000),
+    []
+  );
+
+  useEffect(() => {
+    const flush = () => saveHistory.flush();
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+
   const updateUndoResult = () => {
     setCanRedo(history.canRedo());
     setCanUndo(history.canUndo());
+    setUndoRecords({ records: [...history.records], present: history.present });
+    saveHistory();
   };
 
   const undo = useRecoilCallback(({ snapshot, gotoSnapshot }: CallbackInterface) => () => {
@@ -195,11 +249,26 @@ export const UndoRoot = React.memo((props: UndoRootProps) => {
     //filter some invalid changes
 
     if (previousAssets && checkAtomsChanged(currentAssets, previousAssets, trackedAtoms(projectId))) {
-      history.add(getAtomAssetsMap(snapshot, projectId));
+      history.add(currentAssets, describeChanges(previousAssets, currentAssets, projectId));
+      updateUndoResult();
+    }
+  });
+
+  const jumpTo = useRecoilCallback(({ snapshot, gotoSnapshot }: CallbackInterface) => (index: number) => {
+    if (index !== history.present && index >= 0 && index < history.stack.length) {
+      const present = history.getPresentAssets();
+      const next = history.goTo(index);
+      if (present) undoAssets(snapshot, present, next, gotoSnapshot, projectId);
+      setVersion(uniqueId());
       updateUndoResult();
     }
   });
 
+  const setCheckpoint = useCallback((index: number, name: string) => {
+    history.setCheckpoint(index, name);
+    updateUndoResult();
+  }, []);
+
   const commitChanges = useCallback(() => {
     //gurarantee the snapshot get the latset state
     forceUpdate([]);
@@ -210,10 +279,11 @@ export const UndoRoot = React.memo((props: UndoRootProps) => {
     history.clear();
     history.add(getAtomAssetsMap(snapshot, projectId));
     assetsChanged.current = false;
+    updateUndoResult();
   });
 
   useEffect(() => {
-    setUndoFunction({ undo, redo, commitChanges, clearUndo });
+    setUndoFunction({ undo, redo, commitChanges, clearUndo, jumpTo, setCheckpoint });
   }, []);
 
   return null;
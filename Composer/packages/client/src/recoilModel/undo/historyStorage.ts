@@ -0,0 +1,122 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import isEqual from 'lodash/isEqual';
+
+import { ClientStorage } from '../../utils/storage';
+import { designPageLocationState } from '../atoms';
+import { DesignPageLocation } from '../types';
+
+import { trackedAtoms, AtomAssetsMap } from './trackedAtoms';
+import UndoHistory, { UndoRecord } from './undoHistory';
+
+// the dialogs, LU, LG and QnA files of the tracked atoms
+type TrackedFile = { id: string; content: unknown; parseResult?: unknown };
+
+type StoredHistory = {
+  present: number;
+  records: UndoRecord[];
+  // per item, the files of each tracked atom as indexes in the pool and the design page location
+  items: { files: (number[] | null)[]; location: DesignPageLocation | undefined }[];
+  // every file once, the unchanged files are shared by the items
+  pool: TrackedFile[];
+};
+
+// the session storage survives the reloads of the page but not the other tabs or a new session on an older version of the files
+const storage = new ClientStorage(window.sessionStorage, 'undoHistory');
+
+// the parse result of an LG file is a cache that is recomputed when missing
+const toStoredFile = (file: TrackedFile): TrackedFile => {
+  if (file?.parseResult === undefined) return file;
+  const { parseResult, ...rest } = file;
+  return rest;
+};
+
+const sameFiles = (a: TrackedFile[] | null | undefined, b: TrackedFile[] | null | undefined) =>
+  a?.length === b?.length &&
+  (a ?? []).every((file, index) => file.id === b?.[index].id && isEqual(file.content, b?.[index].content));
+
+// the items of the history at the indexes, with their files stored once
+const toStoredHistory = (projectId: string, history: UndoHistory, indexes: number[]): StoredHistory => {
+  const atoms = trackedAtoms(projectId);
+  const pool: TrackedFile[] = [];
+  const poolIndexes = new Map<TrackedFile, number>();
+  const toIndex = (file: TrackedFile) => {
+    if (!poolIndexes.has(file)) {
+      poolIndexes.set(file, pool.length);
+      pool.push(toStoredFile(file));
+    }
+    return poolIndexes.get(file) as number;
+  };
+
+  return {
+    present: indexes.indexOf(history.present),
+    records: indexes.map((index) => history.records[index]),
+    items: indexes.map((index) => {
+      const assets = history.stack[index];
+      return {
+        files: atoms.map((atom) => {
+          const files = assets.get(atom);
+          return Array.isArray(files) ? files.map(toIndex) : null;
+        }),
+        location: assets.get(designPageLocationState(projectId)),
+      };
+    }),
+    pool,
+  };
+};
+
+/**
+ * Saves the undo history of a project, in the session storage of the browser. When the storage is full, only the
+ * checkpoints and the present item are saved. Returns false when even those can't be saved and the history will be
+ * lost on reload.
+ */
+export const saveUndoHistory = (projectId: string, history: UndoHistory): boolean => {
+  const all = history.stack.map((_, index) => index);
+  const kept = all.filter((index) => index === history.present || !!history.records[index]?.checkpoint);
+
+  for (const indexes of [all, kept]) {
+    try {
+      storage.set(projectId, toStoredHistory(projectId, history, indexes));
+      return true;
+    } catch (err) {
+      // the storage is full, try again with less
+    }
+  }
+  // a stale history must not be restored later
+  storage.remove(projectId);
+  return false;
+};
+
+/**
+ * Restores the saved undo history of a project when its present item has the same files as the current
+ * ones, otherwise the files were changed outside of this session and the history is dropped.
+ */
+export const restoreUndoHistory = (projectId: string, history: UndoHistory, current: AtomAssetsMap) => {
+  const stored = storage.get<StoredHistory>(projectId);
+  if (!stored?.items?.[stored.present]) return false;
+
+  const atoms = trackedAtoms(projectId);
+  const items: AtomAssetsMap[] = stored.items.map(({ files, location }) => {
+    const assets: AtomAssetsMap = new Map();
+    atoms.forEach((atom, index) => {
+      const indexes = files[index];
+      assets.set(atom, indexes ? indexes.map((i) => stored.pool[i]) : null);
+    });
+    assets.set(designPageLocationState(projectId), location);
+    return assets;
+  });
+
+  const present = items[stored.present];
+  if (!atoms.every((atom) => sameFiles(present.get(atom), current.get(atom)))) {
+    storage.remove(projectId);
+    return false;
+  }
+
+  // the present item is the current state, with the files as parsed in this session
+  items[stored.present] = current;
+  history.stack = items;
+  history.records = stored.records;
+  history.present = stored.present;
+  return true;
+};
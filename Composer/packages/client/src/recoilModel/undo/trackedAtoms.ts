@@ -3,11 +3,16 @@
 
 import { RecoilState } from 'recoil';
 
-import { dialogsSelectorFamily, luFilesSelectorFamily } from '../selectors';
+import { dialogsSelectorFamily, luFilesSelectorFamily, qnaFilesSelectorFamily } from '../selectors';
 import { lgFilesSelectorFamily } from '../selectors/lg';
 
 export type AtomAssetsMap = Map<RecoilState<any>, any>;
 
 export const trackedAtoms = (projectId: string): RecoilState<any>[] => {
-  return [dialogsSelectorFamily(projectId), luFilesSelectorFamily(projectId), lgFilesSelectorFamily(projectId)];
+  return [
+    dialogsSelectorFamily(projectId),
+    luFilesSelectorFamily(projectId),
+    lgFilesSelectorFamily(projectId),
+    qnaFilesSelectorFamily(projectId),
+  ];
 };
@@ -2,12 +2,22 @@
 // Licensed under the MIT License.
 import formatMessage from 'format-message';
 import { RecoilState } from 'recoil';
+import { generateUniqueId } from '@bfc/shared';
 
 import { AtomAssetsMap } from './trackedAtoms';
 
 // use number to limit the stack size first
 const MAX_STACK_LENGTH = 30;
 
+export type UndoRecord = {
+  id: string;
+  /** What the change did, e.g. "Added SendActivity to BeginDialog in OrderDialog", empty for the initial state. */
+  description: string;
+  timestamp: number;
+  /** Name given by the user to keep this point of the history. */
+  checkpoint?: string;
+};
+
 export default class {
   private _projectId = '';
   /**
@@ -18,6 +28,8 @@ export default class {
   }
 
   public stack: AtomAssetsMap[] = [];
+  // one record per stack item, at the same index
+  public records: UndoRecord[] = [];
   public present = -1;
 
   public undo() {
@@ -34,17 +46,32 @@ export default class {
     return this.stack[this.present];
   }
 
-  public add(assets: AtomAssetsMap) {
+  public goTo(index: number) {
+    if (index < 0 || index >= this.stack.length) throw new Error(formatMessage('The history has no such change'));
+
+    this.present = index;
+    return this.stack[this.present];
+  }
+
+  public add(assets: AtomAssetsMap, description = '') {
     if (this.present !== -1 && this.canRedo()) {
       this.stack.splice(this.present + 1, this.stack.length - this.present - 1);
+      this.records.splice(this.present + 1, this.records.length - this.present - 1);
     }
 
-    if (this.stack.length === MAX_STACK_LENGTH) {
-      this.stack.shift();
-      this.present--;
+    if (this.stack.length >= MAX_STACK_LENGTH) {
+      // the checkpoints and the present item are kept, the oldest other item is dropped. A history of checkpoints
+      // only grows past the limit instead.
+      const dropped = this.records.findIndex(({ checkpoint }, index) => !checkpoint && index < this.present);
+      if (dropped !== -1) {
+        this.stack.splice(dropped, 1);
+        this.records.splice(dropped, 1);
+        this.present--;
+      }
     }
 
     this.stack.push(assets);
+    this.records.push({ id: generateUniqueId(), description, timestamp: Date.now() });
 
     this.present++;
   }
@@ -52,13 +79,22 @@ export default class {
   public replace(assets: AtomAssetsMap) {
     if (this.present !== -1 && this.canRedo()) {
       this.stack.splice(this.present, this.stack.length - this.present - 1);
+      this.records.splice(this.present, this.records.length - this.present - 1);
     }
     this.stack[this.present] = assets;
   }
 
+  public setCheckpoint(index: number, name: string) {
+    const record = this.records[index];
+    if (!record) throw new Error(formatMessage('The history has no such change'));
+
+    this.records[index] = { ...record, checkpoint: name.trim() || undefined };
+  }
+
   public clear() {
     this.present = -1;
     this.stack = [];
+    this.records = [];
   }
 
   public setInitialValue(atom: RecoilState<any>, v: any) {
@@ -36,6 +36,8 @@ const LGPage = React.lazy(() => import('./pages/language-generation/LGPage'));
 const SettingPage = React.lazy(() => import('./pages/setting/SettingsPage'));
 const BotProjectSettings = React.lazy(() => import('./pages/botProject/BotProjectSettings'));
 const Diagnostics = React.lazy(() => import('./pages/diagnostics/Diagnostics'));
+const LocalizationPage = React.lazy(() => import('./pages/localization/LocalizationPage'));
+const SearchPage = React.lazy(() => import('./pages/search/SearchPage'));
 const ExtensionsPage = React.lazy(() => import('./pages/extensions/ExtensionsPage'));
 const Publish = React.lazy(() => import('./pages/publish/Publish'));
 const BotCreationFlowRouter = React.lazy(() => import('./components/CreationFlow/CreationFlow'));
@@ -75,6 +77,8 @@ const Routes = (props) => {
             <QnAPage path="knowledge-base/:dialogId/*" />
             <BotProjectSettings path="botProjectsSettings" />
             <Diagnostics path="diagnostics" />
+            <LocalizationPage path="localization" />
+            <SearchPage path="search" />
             <DesignPage path="*" />
           </ProjectRouter>
           <ProjectRouter path="/bot/:projectId">
@@ -91,6 +95,8 @@ const Routes = (props) => {
             <FormDialogPage path="forms/*" />
             <DesignPage path="*" />
             <Diagnostics path="diagnostics" />
+            <LocalizationPage path="localization" />
+            <SearchPage path="search" />
             {pluginPages.map((page) => (
               <PluginPageContainer
                 key={`${page.id}/${page.bundleId}`}
@@ -16,7 +16,7 @@ import TelemetryClient from '../telemetry/TelemetryClient';
 
 import { useLgApi } from './lgApi';
 import { useLuApi } from './luApi';
-import { deserializeLgTemplate, serializeLgTemplate } from './utils';
+import { deserializeLgTemplate, getActionsMemoryPaths, serializeLgTemplate } from './utils';
 
 export const useActionApi = (projectId: string) => {
   const { getLgTemplates, removeLgTemplates, addLgTemplate } = useLgApi(projectId);
@@ -148,5 +148,6 @@ export const useActionApi = (projectId: string) => {
     deleteAction,
     deleteActions,
     actionsContainLuIntent,
+    getActionsMemoryPaths,
   };
 };
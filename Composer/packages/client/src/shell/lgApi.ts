@@ -2,7 +2,7 @@
 // Licensed under the MIT License.
 
 import { useEffect, useState } from 'react';
-import { LgFile, LgContextApi, LgTemplateRef } from '@bfc/shared';
+import { LgFile, LgContextApi, LgTemplate, LgTemplateRef } from '@bfc/shared';
 import { useRecoilValue } from 'recoil';
 import debounce from 'lodash/debounce';
 import formatMessage from 'format-message';
@@ -64,6 +64,17 @@ function createLgApi(
     });
   };
 
+  const addLgTemplates = async (id: string, templates: LgTemplate[]) => {
+    const file = lgFileResolver(id);
+    if (!file) throw new Error(fileNotFound(id));
+
+    return await actions.createLgTemplates({
+      id: file.id,
+      templates,
+      projectId: state.projectId,
+    });
+  };
+
   const copyLgTemplate = async (id, fromTemplateName, toTemplateName) => {
     const file = lgFileResolver(id);
     if (!file) throw new Error(fileNotFound(id));
@@ -138,6 +149,7 @@ function createLgApi(
   return {
     updateLgFile,
     addLgTemplate: updateLgTemplate,
+    addLgTemplates,
     getLgTemplates,
     updateLgTemplate,
     debouncedUpdateLgTemplate: memoizedDebounce(updateLgTemplate, 250),
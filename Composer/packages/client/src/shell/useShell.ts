@@ -39,7 +39,11 @@ import {
   featureFlagsState,
 } from '../recoilModel';
 import { undoFunctionState } from '../recoilModel/undo/history';
-import { dialogsWithLuProviderSelectorFamily, skillsStateSelector } from '../recoilModel/selectors';
+import {
+  dialogDiffSelectorFamily,
+  dialogsWithLuProviderSelectorFamily,
+  skillsStateSelector,
+} from '../recoilModel/selectors';
 import { navigateTo } from '../utils/navigation';
 import TelemetryClient from '../telemetry/TelemetryClient';
 import { lgFilesSelectorFamily } from '../recoilModel/selectors/lg';
@@ -121,6 +125,8 @@ export function useShell(source: EventSource, projectId: string): Shell {
     reloadProject,
     setApplicationLevelError,
     updateRecognizer,
+    registerCommands,
+    unregisterCommands,
   } = useRecoilValue(dispatcherState);
 
   const lgApi = useLgApi(projectId);
@@ -129,6 +135,7 @@ export function useShell(source: EventSource, projectId: string): Shell {
   const triggerApi = useTriggerApi(projectId);
   const actionApi = useActionApi(projectId);
   const { dialogId, selected, focused, promptTab } = designPageLocation;
+  const dialogDiff = useRecoilValue(dialogDiffSelectorFamily({ projectId, dialogId }));
 
   const dialogsMap = useMemo(() => {
     return dialogs.reduce((result, dialog) => {
@@ -272,6 +279,10 @@ export function useShell(source: EventSource, projectId: string): Shell {
     updateUserSettings,
     confirm: OpenConfirmModal,
     telemetryClient: TelemetryClient,
+    registerCommands: (commands) => {
+      registerCommands(commands);
+      return () => unregisterCommands(commands);
+    },
     getMemoryVariables,
   };
 
@@ -311,6 +322,7 @@ export function useShell(source: EventSource, projectId: string): Shell {
     focusedSteps: focused ? [focused] : selected ? [selected] : [],
     focusedTab: promptTab,
     clipboardActions,
+    dialogDiff,
     hosted: !!isAbsHosted(),
     luFeatures: settings.luFeatures,
     skills,
@@ -1,8 +1,9 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { LgMetaData, LgTemplateRef, LgType } from '@bfc/shared';
+import { LgMetaData, LgTemplateRef, LgType, walkAdaptiveAction } from '@bfc/shared';
 import { LgTemplate, MicrosoftIDialog, ShellApi } from '@botframework-composer/types';
+import { getProperties } from '@bfc/indexers/lib/dialogUtils/extractMemoryPaths';
 
 type SerializableLg = {
   originalId: string;
@@ -110,3 +111,69 @@ export const deserializeLgTemplate = async (
   }
   return newLgTemplateRefStr;
 };
+
+// e.g. user.profile.name, the trailing dots of a sentence are trimmed
+const memoryPathPattern = /\b(?:user|conversation|dialog|this)\.[a-zA-Z_][\w.]*/g;
+// $name is short for dialog.name
+const dialogShorthandPattern = /(?:^|[^\w$])\$([a-zA-Z_]\w*)/g;
+
+// the fields holding the memory path an action sets, e.g. the property of an input
+const setterFields = ['property', 'tokenProperty', 'resultProperty'];
+
+/**
+ * The memory paths the expressions and the responses of an action read, without the ones of its nested actions.
+ * @param action Action to read.
+ * @param setPaths Memory paths the action sets, which are not read.
+ */
+const getReadMemoryPaths = (action: MicrosoftIDialog, setPaths: string[]) => {
+  const paths: string[] = [];
+  const visit = (value: unknown, key = '') => {
+    if (typeof value === 'string') {
+      if (setterFields.includes(key) && setPaths.includes(value)) return;
+      (value.match(memoryPathPattern) ?? []).forEach((path) => paths.push(path.replace(/\.+$/, '')));
+      dialogShorthandPattern.lastIndex = 0;
+      for (let match = dialogShorthandPattern.exec(value); match; match = dialogShorthandPattern.exec(value)) {
+        paths.push(`dialog.${match[1]}`);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => visit(item));
+    } else if (value && typeof value === 'object' && !('$kind' in value)) {
+      Object.entries(value as Record<string, unknown>).forEach(([name, item]) => visit(item, name));
+    }
+  };
+  Object.keys(action)
+    .filter((key) => key !== '$designer')
+    .forEach((key) => visit(action[key], key));
+  return paths;
+};
+
+/**
+ * Finds the memory paths the actions read before they set them, and the ones they set. A path set by an action
+ * nested in a branch or a loop may not be set when it runs, its value from before the actions is also read then.
+ * @param actions Actions in the order they run.
+ * @returns The memory paths read and the ones set.
+ */
+export const getActionsMemoryPaths = (actions: MicrosoftIDialog[]) => {
+  const read = new Set<string>();
+  const written = new Set<string>();
+  // the paths every run of the actions has set so far
+  const setPaths: string[] = [];
+  const isSet = (path: string) => setPaths.some((item) => path === item || path.startsWith(`${item}.`));
+
+  actions.forEach((action) => {
+    walkAdaptiveAction(action, (item) => {
+      if (typeof item === 'string') return;
+      const paths = getProperties(item);
+      getReadMemoryPaths(item, paths)
+        .filter((path) => !isSet(path))
+        .forEach((path) => read.add(path));
+      paths.forEach((path) => {
+        written.add(path);
+        if (item !== action && !isSet(path)) read.add(path);
+      });
+    });
+    if (typeof action !== 'string') setPaths.push(...getProperties(action));
+  });
+
+  return { read: Array.from(read), written: Array.from(written) };
+};
@@ -3,7 +3,7 @@
 
 import { DialogInfo, LgFile } from '@bfc/shared';
 
-import { createMissingLgTemplatesForDialogs } from '../lgUtil';
+import { applyTemplateRenameEdits, createMissingLgTemplatesForDialogs } from '../lgUtil';
 
 jest.mock('../../recoilModel/parsers/lgWorker', () => {
   return {
@@ -56,3 +56,20 @@ describe('client lgUtil tests', () => {
     expect(updatedLgFiles[1].templates.map(({ name }) => name)).toContain('SendActivity_jKvFxl');
   });
 });
+
+describe('applyTemplateRenameEdits', () => {
+  const edit = (line: number, character: number, length: number, newText: string) => ({
+    range: { start: { line, character }, end: { line, character: character + length } },
+    newText,
+  });
+
+  it('renames the template at the ranges', () => {
+    const content = '# Greeting\n- ${Greeting()} ${Greeting()}';
+    const edits = [edit(1, 4, 8, 'Welcome'), edit(0, 2, 8, 'Welcome'), edit(1, 18, 8, 'Welcome')];
+    expect(applyTemplateRenameEdits(content, 'Greeting', edits)).toBe('# Welcome\n- ${Welcome()} ${Welcome()}');
+  });
+
+  it('returns undefined when a range does not hold the template name', () => {
+    expect(applyTemplateRenameEdits('# Hello', 'Greeting', [edit(0, 2, 8, 'Welcome')])).toBeUndefined();
+  });
+});
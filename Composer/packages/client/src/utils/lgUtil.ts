@@ -43,3 +43,31 @@ export const createMissingLgTemplatesForDialogs = async (
 
   return updatedLgFiles;
 };
+
+export type TemplateRenameEdit = {
+  range: { start: { line: number; character: number }; end: { line: number; character: number } };
+  newText: string;
+};
+
+/**
+ * Replaces the name of an LG template at the ranges found by the LG language server.
+ * Returns undefined when the content changed since, and a range no longer holds the old name.
+ */
+export const applyTemplateRenameEdits = (
+  content: string,
+  oldName: string,
+  edits: TemplateRenameEdit[]
+): string | undefined => {
+  const lines = content.split('\n');
+  // edits at the end of a line go first, so the characters of the others don't move
+  const sortedEdits = [...edits].sort(
+    (a, b) => b.range.start.line - a.range.start.line || b.range.start.character - a.range.start.character
+  );
+  for (const { range, newText } of sortedEdits) {
+    const { start, end } = range;
+    const line = lines[start.line];
+    if (start.line !== end.line || line?.slice(start.character, end.character) !== oldName) return;
+    lines[start.line] = line.slice(0, start.character) + newText + line.slice(end.character);
+  }
+  return lines.join('\n');
+};
@@ -70,6 +70,20 @@ export const topLinks = (
       disabled: !botLoaded,
       match: /diagnostics/,
     },
+    {
+      to: `/bot/${rootProjectId || projectId}/localization`,
+      iconName: 'Globe',
+      labelName: formatMessage('Localization'),
+      disabled: !botLoaded,
+      match: /localization/,
+    },
+    {
+      to: `/bot/${rootProjectId || projectId}/search`,
+      iconName: 'Search',
+      labelName: formatMessage('Search'),
+      disabled: !botLoaded,
+      match: /\/search/,
+    },
     {
       to: `/bot/${rootProjectId || projectId}/publish`,
       iconName: 'CloudUpload',
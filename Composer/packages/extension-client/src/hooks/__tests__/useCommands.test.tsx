@@ -0,0 +1,46 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { ShellCommand } from '@botframework-composer/types';
+import { renderHook } from '@botframework-composer/test-utils/lib/hooks';
+
+import { useCommands } from '../useCommands';
+import { syncStore } from '../../store';
+
+describe('useCommands', () => {
+  const dispose = jest.fn();
+  const registerCommands = jest.fn<() => void, [ShellCommand[]]>(() => dispose);
+
+  beforeEach(() => {
+    dispose.mockClear();
+    registerCommands.mockClear();
+    syncStore({ api: { registerCommands } });
+  });
+
+  it('registers the commands until unmounted', () => {
+    const { unmount } = renderHook(() => useCommands([{ id: 'sample.refresh', title: 'Refresh', run: jest.fn() }]));
+
+    expect(registerCommands).toHaveBeenCalledTimes(1);
+    expect(registerCommands.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ id: 'sample.refresh', title: 'Refresh' }),
+    ]);
+
+    unmount();
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs the latest callback without registering the command again', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const { rerender } = renderHook(({ run }) => useCommands([{ id: 'sample.refresh', title: 'Refresh', run }]), {
+      initialProps: { run: first },
+    });
+
+    rerender({ run: second });
+    registerCommands.mock.calls[0][0][0].run();
+
+    expect(registerCommands).toHaveBeenCalledTimes(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalled();
+  });
+});
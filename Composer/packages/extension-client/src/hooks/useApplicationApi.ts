@@ -29,6 +29,7 @@ const APPLICATION_KEYS = [
   'api.confirm',
   'api.updateFlowZoomRate',
   'api.telemetryClient',
+  'api.registerCommands',
 ];
 
 export function useApplicationApi(): ApplicationContext & ApplicationContextApi {
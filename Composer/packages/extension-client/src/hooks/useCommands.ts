@@ -0,0 +1,33 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { useEffect, useRef } from 'react';
+import { ShellCommand } from '@botframework-composer/types';
+
+import { useStore } from './useStore';
+
+/**
+ * Adds the commands to the command palette of Composer while the extension is rendered.
+ * The commands always run the latest given callbacks, they are only registered again when their titles change.
+ */
+export function useCommands(commands: ShellCommand[]) {
+  const shell = useStore();
+  const registerCommands = shell.api?.registerCommands;
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+
+  const signature = commands
+    .map(({ id, title, category, keywords = [] }) => [id, title, category, ...keywords].join('|'))
+    .join('\n');
+
+  useEffect(() => {
+    if (!registerCommands) return;
+
+    return registerCommands(
+      commandsRef.current.map((command) => ({
+        ...command,
+        run: () => commandsRef.current.find(({ id }) => id === command.id)?.run(),
+      }))
+    );
+  }, [signature, !!registerCommands]);
+}
@@ -14,6 +14,7 @@ const LG_KEYS = [
   'api.getLgTemplates',
   'api.copyLgTemplate',
   'api.addLgTemplate',
+  'api.addLgTemplates',
   'api.updateLgFile',
   'api.updateLgTemplate',
   'api.debouncedUpdateLgTemplate',
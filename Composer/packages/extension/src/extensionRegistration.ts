@@ -15,6 +15,7 @@ import {
   IExtensionRegistration,
   ExtensionMetadata,
   ExtensionSettings,
+  LintRule,
 } from '@botframework-composer/types';
 import { PassportStatic } from 'passport';
 
@@ -161,6 +162,18 @@ export class ExtensionRegistration implements IExtensionRegistration {
     this.context.extensions.baseTemplates.push(template);
   }
 
+  /**************************************************************************************
+   * Lint rules checking the dialogs
+   *************************************************************************************/
+  public addLintRule(rule: LintRule) {
+    if (this.context.extensions.lintRules.some(({ id }) => id === rule.id)) {
+      throw new Error(`Duplicate lint rule. Cannot register lint rule with id ${rule.id}.`);
+    }
+
+    log('registering lint rule', rule.id);
+    this.context.extensions.lintRules.push(rule);
+  }
+
   /**************************************************************************************
    * Express/web related features
    *************************************************************************************/
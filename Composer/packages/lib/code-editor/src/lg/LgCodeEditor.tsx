@@ -108,6 +108,9 @@ export const LgCodeEditor = (props: LgCodeEditorProps) => {
     wordBasedSuggestions: false,
     folding: true,
     definitions: true,
+    lightbulb: {
+      enabled: true,
+    },
     ...props.options,
   };
 
@@ -121,6 +124,7 @@ export const LgCodeEditor = (props: LgCodeEditorProps) => {
     telemetryClient,
     showDirectTemplateLink,
     onNavigateToLgPage,
+    onRenameTemplate,
     popExpandOptions,
     onChange,
     ...restProps
@@ -167,28 +171,34 @@ export const LgCodeEditor = (props: LgCodeEditorProps) => {
           connection.onClose(() => disposable.dispose());
           window.monacoLGEditorInstance = languageClient;
 
-          languageClient.onReady().then(() =>
+          languageClient.onReady().then(() => {
             languageClient.onNotification('GotoDefinition', (result) => {
               if (lgOption?.projectId) {
                 onNavigateToLgPage?.(result.fileId, { templateId: result.templateId, line: result.line });
               }
-            })
-          );
+            });
+            languageClient.onNotification('ApplyProjectEdits', (edits) => {
+              onRenameTemplate?.(edits);
+            });
+          });
         },
       });
     } else {
       if (!props.options?.readOnly) {
         sendRequestWithRetry(window.monacoLGEditorInstance, 'initializeDocuments', { lgOption, uri });
       }
-      window.monacoLGEditorInstance.onReady().then(() =>
+      window.monacoLGEditorInstance.onReady().then(() => {
         window.monacoLGEditorInstance.onNotification('GotoDefinition', (result) => {
           if (lgOption?.projectId) {
             onNavigateToLgPage?.(result.fileId, { templateId: result.templateId, line: result.line });
           }
-        })
-      );
+        });
+        window.monacoLGEditorInstance.onNotification('ApplyProjectEdits', (edits) => {
+          onRenameTemplate?.(edits);
+        });
+      });
     }
-  }, [editor, onNavigateToLgPage]);
+  }, [editor, onNavigateToLgPage, onRenameTemplate]);
 
   const onInit: OnInit = (monaco) => {
     registerLGLanguage(monaco);
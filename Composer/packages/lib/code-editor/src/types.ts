@@ -25,6 +25,18 @@ export type LgResponseEditorProps = LgCommonEditorProps & {
   editorSettings?: Partial<CodeEditorSettings>;
 };
 
+/**
+ * Edits of the LG files and the dialogs of a project renaming an LG template, per file name, e.g. common.en-us.lg or main.dialog.
+ */
+export type LgTemplateRenameEdits = {
+  projectId: string;
+  oldName: string;
+  newName: string;
+  changes: Record<string, { range: { start: Position; end: Position }; newText: string }[]>;
+};
+
+type Position = { line: number; character: number };
+
 /**
  * LG code editor props.
  */
@@ -34,6 +46,7 @@ export type LgCodeEditorProps = LgCommonEditorProps &
     toolbarHidden?: boolean;
     showDirectTemplateLink?: boolean;
     onNavigateToLgPage?: (lgFileId: string, options?: { templateId?: string; line?: number }) => void;
+    onRenameTemplate?: (edits: LgTemplateRenameEdits) => void;
     languageServer?:
       | {
           host?: string;
@@ -0,0 +1,107 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Diagnostic, DiagnosticSeverity, FileInfo, Position, Range } from '@bfc/shared';
+
+import { findJsonPathOffset, locateDiagnostic, toJUnit, toSarif } from '../src/diagnosticReport';
+
+const dialogContent = JSON.stringify(
+  {
+    $kind: 'Microsoft.AdaptiveDialog',
+    triggers: [
+      {
+        $kind: 'Microsoft.OnBeginDialog',
+        actions: [{ $kind: 'Microsoft.SendActivity' }, { $kind: 'Microsoft.IfCondition', condition: 'a <' }],
+      },
+    ],
+  },
+  null,
+  2
+);
+
+const file = (relativePath: string, content = ''): FileInfo => ({
+  name: relativePath.split('/').pop() as string,
+  relativePath,
+  path: `/bots/mybot/${relativePath}`,
+  content,
+  lastModified: '',
+});
+
+const files = [
+  file('mybot.dialog', dialogContent),
+  file('language-generation/en-us/mybot.en-us.lg'),
+  file('settings/appsettings.json', '{}'),
+];
+
+const lgError = new Diagnostic('syntax error', 'mybot.en-us.lg', DiagnosticSeverity.Error);
+lgError.range = new Range(new Position(3, 0), new Position(3, 10));
+const dialogError = new Diagnostic(
+  'expression is not valid',
+  'mybot.dialog',
+  DiagnosticSeverity.Error,
+  'mybot.triggers[0].actions[1].condition'
+);
+const settingWarning = new Diagnostic('Missing LUIS key', 'appsettings.json', DiagnosticSeverity.Warning);
+
+describe('diagnostic report', () => {
+  it('finds the position of a json path', () => {
+    const offset = findJsonPathOffset(dialogContent, 'triggers[0].actions[1].condition') as number;
+    expect(dialogContent.slice(offset)).toMatch(/^"a <"/);
+    expect(findJsonPathOffset(dialogContent, 'triggers[1]')).toBeUndefined();
+    expect(findJsonPathOffset('{ "broken": [', 'broken[0]')).toBeUndefined();
+  });
+
+  it('locates the diagnostics in the files of the bot', () => {
+    expect(locateDiagnostic(lgError, files)).toEqual({
+      uri: 'language-generation/en-us/mybot.en-us.lg',
+      startLine: 3,
+      startColumn: 1,
+      endLine: 3,
+      endColumn: 11,
+    });
+    expect(locateDiagnostic(dialogError, files)).toEqual({
+      uri: 'mybot.dialog',
+      jsonPath: 'triggers[0].actions[1].condition',
+      startLine: 12,
+      startColumn: 24,
+    });
+    expect(locateDiagnostic(settingWarning, files)).toEqual({ uri: 'settings/appsettings.json' });
+  });
+
+  it('converts the diagnostics to SARIF', () => {
+    const [run] = toSarif([lgError, settingWarning], files).runs;
+
+    expect(run.tool.driver.rules).toEqual([{ id: 'composer/lg' }, { id: 'composer/json' }]);
+    expect(run.results[0]).toEqual({
+      ruleId: 'composer/lg',
+      level: 'error',
+      message: { text: 'syntax error' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'language-generation/en-us/mybot.en-us.lg' },
+            region: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 11 },
+          },
+          logicalLocations: undefined,
+        },
+      ],
+    });
+    expect(run.results[1]).toMatchObject({
+      level: 'warning',
+      locations: [{ physicalLocation: { region: undefined } }],
+    });
+  });
+
+  it('reports each validated file as a JUnit test case', () => {
+    const xml = toJUnit([dialogError, settingWarning], files, 'mybot');
+
+    expect(xml).toContain('<testsuite name="mybot" tests="3" failures="1" errors="0">');
+    expect(xml).toContain(
+      '<failure message="1 error(s)" type="error">mybot.dialog:12:24 (triggers[0].actions[1].condition) error: expression is not valid</failure>'
+    );
+    expect(xml).toContain(
+      '<testcase classname="mybot" name="language-generation/en-us/mybot.en-us.lg">\n    </testcase>'
+    );
+    expect(xml).toContain('<system-out>settings/appsettings.json warning: Missing LUIS key</system-out>');
+  });
+});
@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { diffDialogs } from '../../src/dialogUtils/diffDialogs';
+
+const action = (id: string, $kind = 'Microsoft.SendActivity', props = {}) => ({
+  $kind,
+  $designer: { id },
+  ...props,
+});
+
+const dialog = (...triggers) => ({
+  $kind: 'Microsoft.AdaptiveDialog',
+  $designer: { id: 'root' },
+  triggers,
+});
+
+const trigger = (id: string, actions: any[], props = {}) => ({
+  $kind: 'Microsoft.OnBeginDialog',
+  $designer: { id },
+  actions,
+  ...props,
+});
+
+describe('diffDialogs', () => {
+  it('reports nothing for the same dialog', () => {
+    const content = dialog(trigger('t1', [action('a1'), action('a2')]));
+    expect(diffDialogs(content, JSON.parse(JSON.stringify(content)))).toEqual([]);
+  });
+
+  it('reports added, removed and changed actions', () => {
+    const before = dialog(trigger('t1', [action('a1', undefined, { activity: 'hi' }), action('a2')]));
+    const after = dialog(trigger('t1', [action('a1', undefined, { activity: 'hello' }), action('a3')]));
+
+    expect(diffDialogs(before, after)).toEqual([
+      {
+        kind: 'changed',
+        designId: 'a1',
+        $kind: 'Microsoft.SendActivity',
+        path: 'triggers[0].actions[0]',
+        previousPath: 'triggers[0].actions[0]',
+        properties: ['activity'],
+      },
+      { kind: 'added', designId: 'a3', $kind: 'Microsoft.SendActivity', path: 'triggers[0].actions[1]' },
+      { kind: 'removed', designId: 'a2', $kind: 'Microsoft.SendActivity', path: 'triggers[0].actions[1]' },
+    ]);
+  });
+
+  it('reports the actions moved to another branch', () => {
+    const before = dialog(
+      trigger('t1', [action('if', 'Microsoft.IfCondition', { condition: 'true', actions: [action('a1')] })])
+    );
+    const after = dialog(
+      trigger('t1', [action('if', 'Microsoft.IfCondition', { condition: 'true', elseActions: [action('a1')] })])
+    );
+
+    expect(diffDialogs(before, after)).toEqual([
+      {
+        kind: 'changed',
+        designId: 'if',
+        $kind: 'Microsoft.IfCondition',
+        path: 'triggers[0].actions[0]',
+        previousPath: 'triggers[0].actions[0]',
+        properties: ['actions', 'elseActions'],
+      },
+      {
+        kind: 'moved',
+        designId: 'a1',
+        $kind: 'Microsoft.SendActivity',
+        path: 'triggers[0].actions[0].elseActions[0]',
+        previousPath: 'triggers[0].actions[0].actions[0]',
+      },
+    ]);
+  });
+
+  it('only reports the actions that changed their order', () => {
+    const before = dialog(trigger('t1', [action('a1'), action('a2'), action('a3'), action('a4')]));
+    const after = dialog(trigger('t1', [action('a4'), action('a1'), action('a2'), action('a3')]));
+
+    const diff = diffDialogs(before, after);
+    expect(diff).toHaveLength(1);
+    expect(diff[0]).toMatchObject({ kind: 'moved', designId: 'a4', previousPath: 'triggers[0].actions[3]' });
+  });
+
+  it('does not report the actions nested in an added or removed trigger', () => {
+    const before = dialog(trigger('t1', [action('a1')]));
+    const after = dialog(trigger('t2', [action('a2'), action('a3')], { $kind: 'Microsoft.OnUnknownIntent' }));
+
+    expect(diffDialogs(before, after)).toEqual([
+      { kind: 'added', designId: 't2', $kind: 'Microsoft.OnUnknownIntent', path: 'triggers[0]' },
+      { kind: 'removed', designId: 't1', $kind: 'Microsoft.OnBeginDialog', path: 'triggers[0]' },
+    ]);
+  });
+
+  it('compares a new dialog with nothing', () => {
+    expect(diffDialogs(undefined, dialog(trigger('t1', [action('a1')])))).toEqual([
+      { kind: 'added', designId: 't1', $kind: 'Microsoft.OnBeginDialog', path: 'triggers[0]' },
+    ]);
+  });
+});
@@ -10,6 +10,7 @@ import {
   removeTemplate,
   extractOptionByKey,
   parse,
+  evaluateTemplate,
 } from '../src/utils/lgUtil';
 
 describe('update lg template', () => {
@@ -184,3 +185,36 @@ describe('extract option by key', () => {
     expect(strict).toBe('false');
   });
 });
+
+describe('evaluate lg template', () => {
+  const content = `# Greeting
+- Hi \${user.name}
+- Hello \${user.name}
+
+# Card
+[Activity
+    Text = \${Greeting()}
+    Speak = <speak>Hi</speak>
+    SuggestedActions = Yes | No
+]`;
+
+  it('should evaluate all variations of the template with the memory', () => {
+    const result = evaluateTemplate(parse('a.lg', content, []), 'Greeting', { user: { name: 'Bob' } });
+    expect(result.variations).toEqual(['Hi Bob', 'Hello Bob']);
+    expect(['Hi Bob', 'Hello Bob']).toContain(result.activity?.text);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should evaluate the activity of structured responses', () => {
+    const result = evaluateTemplate(parse('a.lg', content, []), 'Card', { user: { name: 'Bob' } });
+    expect(result.variations).toHaveLength(2);
+    expect(result.activity).toMatchObject({ speak: '<speak>Hi</speak>', suggestedActions: ['Yes', 'No'] });
+  });
+
+  it('should return the evaluation errors', () => {
+    const result = evaluateTemplate(parse('a.lg', content, []), 'Missing');
+    expect(result.variations).toEqual([]);
+    expect(result.activity).toBeUndefined();
+    expect(result.errors).toHaveLength(1);
+  });
+});
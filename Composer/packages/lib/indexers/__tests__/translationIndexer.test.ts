@@ -0,0 +1,130 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { DialogSetting, DiagnosticSeverity, LgFile, LuFile, QnAFile } from '@bfc/shared';
+
+import { translationIndexer } from '../src/translationIndexer';
+import { getSourceHashes } from '../src/utils/translationUtil';
+
+const setting = { defaultLanguage: 'en-us', languages: ['en-us', 'fr-fr'] } as DialogSetting;
+
+const lgFiles = [
+  {
+    id: 'main.en-us',
+    templates: [
+      { name: 'Greeting', body: '- Hello ${user.name}\n- Hi' },
+      { name: 'Farewell', body: '- Goodbye' },
+      { name: 'Welcome', body: '- Welcome' },
+      { name: 'Help', body: '- Ask me anything' },
+      { name: 'Root', body: '- ${Greeting()}' },
+    ],
+  },
+  {
+    id: 'main.fr-fr',
+    templates: [
+      { name: 'Greeting', body: '- Bonjour ${user.name}\n- Salut' },
+      { name: 'Farewell', body: '- Goodbye' },
+      { name: 'Welcome', body: '- Bienvenue ${user.name}' },
+      { name: 'Root', body: '- ${Greeting()}' },
+    ],
+  },
+] as LgFile[];
+
+const luFiles = [
+  {
+    id: 'main.en-us',
+    intents: [
+      { Name: 'BookFlight', Body: '- book a flight to {@city=Seattle}' },
+      { Name: 'Cancel', Body: '- cancel' },
+    ],
+  },
+  {
+    id: 'main.fr-fr',
+    intents: [
+      { Name: 'BookFlight', Body: '- réserver un vol' },
+      { Name: 'Cancel', Body: '- annuler' },
+    ],
+  },
+] as LuFile[];
+
+const qnaFiles = [
+  {
+    id: 'main.en-us',
+    qnaSections: [{ Questions: [{ content: 'Who are you?', id: '1' }], Answer: 'A bot' }],
+  },
+  {
+    id: 'main.fr-fr',
+    qnaSections: [{ Questions: [{ content: 'Qui es-tu ?', id: '1' }], Answer: 'Un bot' }],
+  },
+] as QnAFile[];
+
+describe('translationIndexer', () => {
+  it('compares the files of every locale with the ones of the default language', () => {
+    const [completeness, ...rest] = translationIndexer.index({ lgFiles, luFiles, qnaFiles, setting });
+
+    expect(rest).toEqual([]);
+    expect(completeness).toMatchObject({ id: 'main', locale: 'fr-fr', total: 7, translated: 3 });
+    expect(completeness.items).toEqual([
+      { type: 'lg', name: 'Greeting', status: 'translated' },
+      { type: 'lg', name: 'Farewell', status: 'untranslated' },
+      { type: 'lg', name: 'Welcome', status: 'outdated' },
+      { type: 'lg', name: 'Help', status: 'missing' },
+      { type: 'lu', name: 'BookFlight', status: 'outdated' },
+      { type: 'lu', name: 'Cancel', status: 'translated' },
+      { type: 'qna', name: 'Who are you?', status: 'translated' },
+    ]);
+  });
+
+  it('warns about the missing templates and intents', () => {
+    const completeness = translationIndexer.index({ lgFiles, luFiles: [luFiles[0]], qnaFiles, setting });
+    const diagnostics = translationIndexer.validate(completeness);
+
+    expect(diagnostics.map(({ message, source, severity }) => ({ message, source, severity }))).toEqual([
+      {
+        message: 'Template "Help" is missing in locale fr-fr',
+        source: 'main.fr-fr.lg',
+        severity: DiagnosticSeverity.Warning,
+      },
+      {
+        message: 'Intent "BookFlight" is missing in locale fr-fr',
+        source: 'main.fr-fr.lu',
+        severity: DiagnosticSeverity.Warning,
+      },
+      {
+        message: 'Intent "Cancel" is missing in locale fr-fr',
+        source: 'main.fr-fr.lu',
+        severity: DiagnosticSeverity.Warning,
+      },
+    ]);
+  });
+
+  it('reports the translations whose source changed since their import', () => {
+    const source = '# Greeting\n- Hello ${user.name}\n- Hi\n\n# Farewell\n- Goodbye\n';
+    const hashes = getSourceHashes('main.en-us.lg', source);
+    const target = `# Greeting\n> source: ${hashes.Greeting}\n- Bonjour \${user.name}\n- Salut\n\n# Farewell\n> source: ${hashes.Farewell}\n- Au revoir\n`;
+    const changedLgFiles = [
+      {
+        id: 'main.en-us',
+        content: source.replace('- Goodbye', '- Goodbye, see you soon'),
+        templates: [
+          { name: 'Greeting', body: '- Hello ${user.name}\n- Hi' },
+          { name: 'Farewell', body: '- Goodbye, see you soon' },
+        ],
+      },
+      {
+        id: 'main.fr-fr',
+        content: target,
+        templates: [
+          { name: 'Greeting', body: `> source: ${hashes.Greeting}\n- Bonjour \${user.name}\n- Salut` },
+          { name: 'Farewell', body: `> source: ${hashes.Farewell}\n- Au revoir` },
+        ],
+      },
+    ] as LgFile[];
+
+    const [completeness] = translationIndexer.index({ lgFiles: changedLgFiles, luFiles: [], qnaFiles: [], setting });
+    expect(completeness.items).toEqual([
+      { type: 'lg', name: 'Greeting', status: 'translated' },
+      { type: 'lg', name: 'Farewell', status: 'outdated' },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import {
+  findItems,
+  getRecordedSourceHashes,
+  getSourceHashes,
+  recordSourceHashes,
+} from '../../src/utils/translationUtil';
+
+const lu = `# Greeting
+- hello
+- hi
+
+@ ml name
+
+# Help
+- help
+`;
+
+describe('findItems', () => {
+  it('finds the intents of LU files without the entities after them', () => {
+    const items = findItems('main.en-us.lu', lu);
+
+    expect(items.map(({ name }) => name)).toEqual(['Greeting', 'Help']);
+    expect(lu.substring(items[0].start, items[0].end)).toBe('# Greeting\n- hello\n- hi');
+  });
+
+  it('names the QnA pairs by their position', () => {
+    const qna = '# ? Who are you?\n```\nA bot\n```\n\n# ? How old are you?\n```\nNew\n```\n';
+
+    expect(findItems('main.en-us.qna', qna).map(({ name }) => name)).toEqual(['1', '2']);
+  });
+});
+
+describe('getSourceHashes', () => {
+  it('ignores the comments, the blank lines and the indentation', () => {
+    const hashes = getSourceHashes('main.en-us.lu', lu);
+
+    expect(hashes.Greeting).toMatch(/^[0-9a-f]{8}$/);
+    expect(hashes.Greeting).not.toBe(hashes.Help);
+    expect(getSourceHashes('main.en-us.lu', '> greetings\n# Greeting\n\n  - hello\n> hi\n- hi\n')).toEqual({
+      Greeting: hashes.Greeting,
+    });
+    expect(getSourceHashes('main.en-us.lu', '# Greeting\n- hello\n- hey\n').Greeting).not.toBe(hashes.Greeting);
+  });
+});
+
+describe('recordSourceHashes', () => {
+  it('records the hashes under the headers of the items', () => {
+    const content = recordSourceHashes('main.fr-fr.lu', lu, { Greeting: '0123abcd', Other: 'ffffffff' });
+
+    expect(content).toBe(lu.replace('# Greeting\n', '# Greeting\n> source: 0123abcd\n'));
+    expect(getRecordedSourceHashes('main.fr-fr.lu', content)).toEqual({ Greeting: '0123abcd' });
+  });
+
+  it('replaces the recorded hashes and keeps the line breaks of the file', () => {
+    const content = recordSourceHashes('main.fr-fr.lg', '# Greeting\r\n- Bonjour\r\n# Farewell', {
+      Greeting: '0123abcd',
+      Farewell: '4567cdef',
+    });
+
+    expect(content).toBe('# Greeting\r\n> source: 0123abcd\r\n- Bonjour\r\n# Farewell\r\n> source: 4567cdef');
+    expect(recordSourceHashes('main.fr-fr.lg', content, { Greeting: '89abcdef' })).toBe(
+      content.replace('0123abcd', '89abcdef')
+    );
+  });
+});
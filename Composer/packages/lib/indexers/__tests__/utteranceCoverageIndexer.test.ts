@@ -0,0 +1,85 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { DialogSetting, LuFile } from '@bfc/shared';
+
+import { utteranceCoverageIndexer } from '../src/utteranceCoverageIndexer';
+
+const setting = { defaultLanguage: 'en-us', languages: ['en-us'] } as DialogSetting;
+
+const luFiles = [
+  {
+    id: 'main.en-us',
+    intents: [
+      {
+        Name: 'BookFlight',
+        Body: [
+          '- book a flight to {@city=Seattle}',
+          '- book me a flight',
+          '- I want to fly',
+          '- get me a plane ticket',
+          '- reserve a flight',
+          '- cancel',
+        ].join('\n'),
+      },
+      { Name: 'Cancel', Body: '- Cancel!\n- stop' },
+    ],
+  },
+  {
+    id: 'travel.en-us',
+    intents: [{ Name: 'Flight', Body: '- book a flight to Seattle please' }],
+  },
+  {
+    id: 'main.fr-fr',
+    intents: [{ Name: 'Cancel', Body: '- cancel' }],
+  },
+] as LuFile[];
+
+describe('utteranceCoverageIndexer', () => {
+  it('counts the utterances of the intents', () => {
+    const { intents } = utteranceCoverageIndexer.index({ luFiles, setting });
+    expect(intents.find(({ id, intent }) => id === 'main.en-us' && intent === 'BookFlight')).toEqual({
+      id: 'main.en-us',
+      intent: 'BookFlight',
+      utterances: 6,
+      conflicts: 2,
+      tooFewUtterances: false,
+      unbalanced: false,
+    });
+    expect(intents.find(({ id, intent }) => id === 'main.en-us' && intent === 'Cancel')).toMatchObject({
+      tooFewUtterances: true,
+      unbalanced: false,
+    });
+  });
+
+  it('finds the duplicate and similar utterances of the intents of a locale', () => {
+    const { conflicts } = utteranceCoverageIndexer.index({ luFiles, setting });
+    expect(conflicts.map(({ type, utterance, other }) => [type, utterance.text, other.intent])).toEqual([
+      ['similar', 'book a flight to {@city=Seattle}', 'Flight'],
+      ['duplicate', 'cancel', 'Cancel'],
+    ]);
+  });
+
+  it('uses the thresholds of the settings', () => {
+    const { intents } = utteranceCoverageIndexer.index({
+      luFiles,
+      setting: { ...setting, utteranceCoverage: { minUtterances: 1, imbalanceRatio: 2 } },
+    });
+    expect(intents.find(({ id, intent }) => id === 'main.en-us' && intent === 'Cancel')).toMatchObject({
+      tooFewUtterances: false,
+      unbalanced: true,
+    });
+  });
+
+  it('reports the issues as warnings of the LU files', () => {
+    const diagnostics = utteranceCoverageIndexer.validate({ luFiles, setting });
+    expect(diagnostics.map(({ source }) => source)).toContain('main.en-us.lu');
+    // the report of index is reused, not computed again
+    expect(
+      utteranceCoverageIndexer.validate({ luFiles, setting }, utteranceCoverageIndexer.index({ luFiles, setting }))
+    ).toEqual(diagnostics);
+    expect(diagnostics.map(({ message }) => message)).toContain(
+      'Utterance "cancel" of intent "BookFlight" is also an utterance of intent "Cancel"'
+    );
+  });
+});
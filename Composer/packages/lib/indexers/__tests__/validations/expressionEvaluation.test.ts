@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { evaluateExpression } from '../../src/validations/expressionValidation/evaluation';
+
+const memory = { user: { orders: [{ id: 1 }] }, turn: { recognized: { score: 0.5 } } };
+
+describe('evaluate expression', () => {
+  it('should evaluate the expression and its sub-expressions', () => {
+    const result = evaluateExpression('=count(user.orders) > 0 && turn.recognized.score > 0.7', memory);
+    expect(result.value).toBe(false);
+    expect(result.error).toBeUndefined();
+    expect(result.tree?.children.map(({ expression, value }) => ({ expression, value }))).toEqual([
+      { expression: '(count(user.orders) > 0)', value: true },
+      { expression: '(turn.recognized.score > 0.7)', value: false },
+    ]);
+  });
+
+  it('should not expand the memory paths', () => {
+    const result = evaluateExpression('count(user.orders)', memory);
+    const [accessor] = result.tree?.children ?? [];
+    expect(accessor).toMatchObject({ type: 'Accessor', value: [{ id: 1 }], children: [] });
+  });
+
+  it('should list the functions and the memory paths of the expression', () => {
+    const result = evaluateExpression('=count(user.orders) > 0 && turn.recognized.score > 0.7', memory);
+    expect(result.functions).toEqual(['and', 'greater', 'count']);
+    expect(result.references).toEqual(['user.orders', 'turn.recognized.score']);
+  });
+
+  it('should return the errors', () => {
+    expect(evaluateExpression('count(', memory).error).toContain('syntax error');
+    expect(evaluateExpression('div(1, 0)', memory).error).toBeTruthy();
+  });
+});
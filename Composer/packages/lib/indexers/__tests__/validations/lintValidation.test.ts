@@ -0,0 +1,132 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+import { DiagnosticSeverity, DialogInfo, DialogSetting, LintRule, SchemaDefinitions } from '@bfc/shared';
+
+import { validateDialog } from '../../src/validations';
+import {
+  createLintValidateFuncs,
+  getLintValidateFuncs,
+  getValidateFuncsByKind,
+} from '../../src/validations/lintValidation';
+
+const dialog = ({
+  id: 'main',
+  content: {
+    $kind: 'Microsoft.AdaptiveDialog',
+    triggers: [
+      {
+        $kind: 'Microsoft.OnIntent',
+        $designer: { name: 'greeting' },
+        intent: 'Greeting',
+        actions: [
+          { $kind: 'Microsoft.SendActivity', activity: 'Hello' },
+          { $kind: 'Microsoft.SendActivity', activity: '${SendActivity_Welcome()}' },
+          { $kind: 'Microsoft.TextInput', property: 'user.name' },
+          { $kind: 'Microsoft.TextInput', property: 'user.city', maxTurnCount: 3 },
+        ],
+      },
+    ],
+  },
+} as unknown) as DialogInfo;
+
+const schema = { definitions: {} } as SchemaDefinitions;
+
+const validate = (settings: Partial<DialogSetting>, lintRules: LintRule[] = []) =>
+  validateDialog(dialog, schema, { customFunctions: [], ...settings } as DialogSetting, [], [], undefined, lintRules)
+    .diagnostics;
+
+describe('lint rules', () => {
+  it('does not check the built-in rules until they are enabled', () => {
+    expect(validate({})).toEqual([]);
+  });
+
+  it('checks the built-in rules with the severity of the settings', () => {
+    const diagnostics = validate({
+      lint: { rules: { 'input-max-turn-count': 'error', 'send-activity-lg': 'warning', 'trigger-name': 'info' } },
+    });
+
+    expect(diagnostics?.map(({ code, path, severity, source }) => ({ code, path, severity, source }))).toEqual([
+      { code: 'trigger-name', path: 'main.triggers[0]', severity: DiagnosticSeverity.Information, source: 'main' },
+      {
+        code: 'send-activity-lg',
+        path: 'main.triggers[0].actions[0]',
+        severity: DiagnosticSeverity.Warning,
+        source: 'main',
+      },
+      {
+        code: 'input-max-turn-count',
+        path: 'main.triggers[0].actions[2]',
+        severity: DiagnosticSeverity.Error,
+        source: 'main',
+      },
+    ]);
+  });
+
+  it('merges the options of the settings with the ones of the rule', () => {
+    expect(validate({ lint: { rules: { 'trigger-name': ['warning', { pattern: '^[a-z]' }] } } })).toEqual([]);
+  });
+
+  it('checks the rules added by extensions with their default severity', () => {
+    const rule: LintRule = {
+      id: 'contoso/intent-prefix',
+      kinds: ['Microsoft.OnIntent'],
+      condition: 'startsWith(node.intent, options.prefix)',
+      message: 'The intent does not start with the prefix.',
+      defaultSeverity: 'warning',
+      options: { prefix: 'Contoso' },
+    };
+
+    const diagnostics = validate({}, [rule]);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics?.[0]).toMatchObject({
+      code: 'contoso/intent-prefix',
+      message: 'The intent does not start with the prefix.',
+      severity: DiagnosticSeverity.Warning,
+    });
+    expect(validate({ lint: { rules: { 'contoso/intent-prefix': 'off' } } }, [rule])).toEqual([]);
+  });
+
+  it('reports the rules with a condition that is not valid', () => {
+    const rule: LintRule = {
+      id: 'contoso/broken',
+      kinds: ['Microsoft.AdaptiveDialog'],
+      condition: 'exists(',
+      message: 'Never shown.',
+      defaultSeverity: 'error',
+    };
+
+    const diagnostics = validate({}, [rule]);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics?.[0].severity).toBe(DiagnosticSeverity.Warning);
+    expect(diagnostics?.[0].message).toContain('contoso/broken');
+  });
+
+  it('registers the rules per $kind, with prefixes', () => {
+    const rule = (id: string, kinds: string[]): LintRule => ({
+      id,
+      kinds,
+      condition: 'true',
+      message: '',
+      defaultSeverity: 'error',
+    });
+    const validateFuncs = createLintValidateFuncs([
+      rule('a', ['Microsoft.OnIntent']),
+      rule('b', ['Microsoft.On*', 'Microsoft.TextInput']),
+      rule('c', ['Microsoft.TextInput']),
+    ]);
+
+    expect(getValidateFuncsByKind(validateFuncs, 'Microsoft.OnIntent')).toHaveLength(2);
+    expect(getValidateFuncsByKind(validateFuncs, 'Microsoft.TextInput')).toHaveLength(2);
+    expect(getValidateFuncsByKind(validateFuncs, 'Microsoft.SendActivity')).toHaveLength(0);
+  });
+
+  it('parses the rules again only when the rules or the settings change', () => {
+    const rules: LintRule[] = [];
+    const settings = { rules: { 'trigger-name': 'error' as const } };
+    const validateFuncs = getLintValidateFuncs(rules, settings);
+
+    expect(getLintValidateFuncs(rules, settings)).toBe(validateFuncs);
+    expect(getLintValidateFuncs(rules, { ...settings })).not.toBe(validateFuncs);
+    expect(getLintValidateFuncs([], settings)).not.toBe(validateFuncs);
+  });
+});
@@ -0,0 +1,259 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { DiagnosticSeverity, FileInfo, IDiagnostic } from '@bfc/shared';
+
+export type DiagnosticReportFormat = 'sarif' | 'junit';
+
+export const diagnosticReportFormats: DiagnosticReportFormat[] = ['sarif', 'junit'];
+
+type DiagnosticLocation = {
+  uri: string;
+  startLine?: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+  jsonPath?: string;
+};
+
+const severityNames = {
+  [DiagnosticSeverity.Error]: 'error',
+  [DiagnosticSeverity.Warning]: 'warning',
+  [DiagnosticSeverity.Information]: 'information',
+  [DiagnosticSeverity.Hint]: 'hint',
+};
+
+const sarifLevels = {
+  [DiagnosticSeverity.Error]: 'error',
+  [DiagnosticSeverity.Warning]: 'warning',
+  [DiagnosticSeverity.Information]: 'note',
+  [DiagnosticSeverity.Hint]: 'note',
+};
+
+// the files checked by the Composer validations, each one is a test case of the JUnit report
+const validatedExtensions = ['.dialog', '.lg', '.lu', '.qna'];
+
+const getExtension = (name: string) => name.substring(name.lastIndexOf('.'));
+
+// triggers[0].actions[1].condition => ['triggers', 0, 'actions', 1, 'condition']
+const parseJsonPath = (path: string) =>
+  (path.match(/\[\d+\]|[^.[\]]+/g) ?? []).map((segment) =>
+    segment.startsWith('[') ? parseInt(segment.slice(1, -1), 10) : segment
+  );
+
+/**
+ * Offset of the value at the json path in the JSON text, undefined when the path is not in it.
+ */
+export const findJsonPathOffset = (text: string, path: string): number | undefined => {
+  let pos = 0;
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const readString = () => {
+    const start = pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    pos++;
+    return JSON.parse(text.slice(start, pos));
+  };
+  // moves to the next member of an object or an array, returns false at its end
+  const nextMember = (close: string) => {
+    skipWhitespace();
+    if (text[pos] === ',') {
+      pos++;
+      skipWhitespace();
+    }
+    return pos < text.length && text[pos] !== close;
+  };
+  const skipValue = () => {
+    skipWhitespace();
+    const char = text[pos];
+    if (char === '"') {
+      readString();
+    } else if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      pos++;
+      while (nextMember(close)) {
+        if (char === '{') {
+          readString();
+          skipWhitespace();
+          pos++;
+        }
+        skipValue();
+      }
+      pos++;
+    } else {
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+    }
+  };
+
+  try {
+    for (const segment of parseJsonPath(path)) {
+      skipWhitespace();
+      const char = text[pos];
+      if (char !== '{' && char !== '[') return undefined;
+      const close = char === '{' ? '}' : ']';
+      pos++;
+      let index = 0;
+      let found = false;
+      while (!found && nextMember(close)) {
+        if (char === '{') {
+          const key = readString();
+          skipWhitespace();
+          pos++;
+          found = key === segment;
+        } else {
+          found = index++ === segment;
+        }
+        if (!found) skipValue();
+      }
+      if (!found) return undefined;
+    }
+    skipWhitespace();
+    return pos;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const getLineAndColumn = (text: string, offset: number) => {
+  const before = text.slice(0, offset);
+  return { line: before.split('\n').length, column: offset - before.lastIndexOf('\n') };
+};
+
+/**
+ * Finds the file of the diagnostic from its source, a file name or a path relative to the bot folder,
+ * and its 1-based position from its range or, for the dialogs, from its json path.
+ */
+export const locateDiagnostic = (diagnostic: IDiagnostic, files: FileInfo[]): DiagnosticLocation => {
+  const { source, range, path } = diagnostic;
+  const file = files.find(({ name, relativePath }) => name === source || relativePath === source);
+  const location: DiagnosticLocation = { uri: file?.relativePath ?? source };
+
+  if (range && range.start.line > 0) {
+    location.startLine = range.start.line;
+    location.startColumn = range.start.character + 1;
+    location.endLine = range.end.line;
+    location.endColumn = range.end.character + 1;
+  } else if (path) {
+    // the paths of the dialog diagnostics start with the dialog id, e.g. main.triggers[0].actions[1]
+    const dialogId = source
+      .replace(/\.dialog$/, '')
+      .split('/')
+      .pop() as string;
+    const jsonPath =
+      path.startsWith(`${dialogId}.`) || path.startsWith(`${dialogId}[`) ? path.slice(dialogId.length) : path;
+    location.jsonPath = jsonPath.replace(/^\./, '');
+    const offset = file ? findJsonPathOffset(file.content, location.jsonPath) : undefined;
+    if (file && offset !== undefined) {
+      const { line, column } = getLineAndColumn(file.content, offset);
+      location.startLine = line;
+      location.startColumn = column;
+    }
+  }
+
+  return location;
+};
+
+const getRuleId = ({ code }: IDiagnostic, { uri }: DiagnosticLocation) =>
+  code ?? `composer/${getExtension(uri).slice(1) || 'bot'}`;
+
+/**
+ * SARIF 2.1.0 log of the diagnostics, for code scanning tools.
+ */
+export const toSarif = (diagnostics: IDiagnostic[], files: FileInfo[], toolName = 'Bot Framework Composer') => {
+  const ruleIds = new Set<string>();
+  const results = diagnostics.map((diagnostic) => {
+    const location = locateDiagnostic(diagnostic, files);
+    const { uri, startLine, startColumn, endLine, endColumn, jsonPath } = location;
+    const ruleId = getRuleId(diagnostic, location);
+    ruleIds.add(ruleId);
+
+    return {
+      ruleId,
+      level: sarifLevels[diagnostic.severity],
+      message: { text: diagnostic.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri },
+            region: startLine ? { startLine, startColumn, endLine, endColumn } : undefined,
+          },
+          logicalLocations: jsonPath ? [{ fullyQualifiedName: jsonPath, kind: 'object' }] : undefined,
+        },
+      ],
+    };
+  });
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: toolName,
+            informationUri: 'https://github.com/microsoft/BotFramework-Composer',
+            rules: Array.from(ruleIds).map((id) => ({ id })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatLocation = ({ uri, startLine, startColumn, jsonPath }: DiagnosticLocation) => {
+  const position = startLine ? `:${startLine}:${startColumn}` : '';
+  return `${uri}${position}${jsonPath ? ` (${jsonPath})` : ''}`;
+};
+
+/**
+ * JUnit XML report of the diagnostics, each validated file of the bot is a test case that fails
+ * when it has errors. The other diagnostics are written to the output of their test case.
+ */
+export const toJUnit = (diagnostics: IDiagnostic[], files: FileInfo[], suiteName: string) => {
+  const testCases = new Map<string, { severity: DiagnosticSeverity; text: string }[]>();
+  files
+    .filter(({ name }) => validatedExtensions.includes(getExtension(name)))
+    .forEach(({ relativePath }) => testCases.set(relativePath, []));
+  diagnostics.forEach((diagnostic) => {
+    const location = locateDiagnostic(diagnostic, files);
+    const text = `${formatLocation(location)} ${severityNames[diagnostic.severity]}: ${diagnostic.message}`;
+    testCases.set(location.uri, [...(testCases.get(location.uri) ?? []), { severity: diagnostic.severity, text }]);
+  });
+
+  let failures = 0;
+  const cases = Array.from(testCases.entries()).map(([uri, problems]) => {
+    const errors = problems.filter(({ severity }) => severity === DiagnosticSeverity.Error);
+    const others = problems.filter(({ severity }) => severity !== DiagnosticSeverity.Error);
+    const lines = [`    <testcase classname="${escapeXml(suiteName)}" name="${escapeXml(uri)}">`];
+    if (errors.length) {
+      failures++;
+      lines.push(
+        `      <failure message="${errors.length} error(s)" type="error">${escapeXml(
+          errors.map(({ text }) => text).join('\n')
+        )}</failure>`
+      );
+    }
+    if (others.length) {
+      lines.push(`      <system-out>${escapeXml(others.map(({ text }) => text).join('\n'))}</system-out>`);
+    }
+    lines.push('    </testcase>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(suiteName)}" tests="${cases.length}" failures="${failures}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${cases.length}" failures="${failures}" errors="0">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
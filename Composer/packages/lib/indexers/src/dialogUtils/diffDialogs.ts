@@ -0,0 +1,177 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+import isEqual from 'lodash/isEqual';
+import { DialogDiffItem, FieldNames } from '@bfc/shared';
+
+import { JsonWalk, VisitorFunc } from '../utils/jsonWalk';
+
+type DialogNode = {
+  designId: string;
+  $kind: string;
+  path: string;
+  // designId of the closest trigger or action containing this one, empty for triggers
+  parentId: string;
+  // property of the parent holding this node, ie. "actions", "elseActions" or "cases[0].actions"
+  slot: string;
+  value: any;
+};
+
+const isNode = (value: any) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && typeof value.$kind === 'string';
+
+// removes the nested triggers and actions, they are compared on their own
+const withoutNestedNodes = (value: any) => {
+  if (Array.isArray(value)) {
+    return value.filter((item) => !isNode(item)).map(withoutNestedNodes);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value)
+      .filter((key) => !isNode(value[key]))
+      .reduce((result, key) => ({ ...result, [key]: withoutNestedNodes(value[key]) }), {});
+  }
+  return value;
+};
+
+const collectNodes = (dialog: any): DialogNode[] => {
+  const nodes: DialogNode[] = [];
+  const ancestors: DialogNode[] = [];
+
+  const visitor: VisitorFunc = (path: string, value: any): boolean => {
+    if (!isNode(value)) return false;
+
+    while (ancestors.length && !path.startsWith(`${ancestors[ancestors.length - 1].path}.`)) {
+      ancestors.pop();
+    }
+    const parent = ancestors[ancestors.length - 1];
+    const node: DialogNode = {
+      designId: value.$designer?.id ?? path,
+      $kind: value.$kind,
+      path,
+      parentId: parent?.designId ?? '',
+      slot: parent ? path.slice(parent.path.length + 1).replace(/\[\d+\]$/, '') : FieldNames.Events,
+      value,
+    };
+    nodes.push(node);
+    ancestors.push(node);
+    return false;
+  };
+
+  const triggers = dialog?.[FieldNames.Events];
+  if (Array.isArray(triggers)) {
+    triggers.forEach((trigger, index) => JsonWalk(`${FieldNames.Events}[${index}]`, trigger, visitor));
+  }
+  return nodes;
+};
+
+const sameLocation = (a: DialogNode, b: DialogNode) => a.parentId === b.parentId && a.slot === b.slot;
+
+// designIds of the siblings that kept their order, computed as the longest common subsequence
+const keptInOrder = (before: string[], after: string[]) => {
+  const lengths = before.map(() => after.map(() => 0));
+  const length = (i: number, j: number) => (i < before.length && j < after.length ? lengths[i][j] : 0);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j] ? length(i + 1, j + 1) + 1 : Math.max(length(i + 1, j), length(i, j + 1));
+    }
+  }
+
+  const kept = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      kept.add(before[i]);
+      i++;
+      j++;
+    } else if (length(i + 1, j) >= length(i, j + 1)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return kept;
+};
+
+const findMovedNodes = (beforeNodes: DialogNode[], afterNodes: DialogNode[], beforeById: Map<string, DialogNode>) => {
+  const moved = new Set<string>();
+  const siblings = (nodes: DialogNode[], node: DialogNode) =>
+    nodes.filter((sibling) => sameLocation(sibling, node)).map(({ designId }) => designId);
+
+  const visitedLocations = new Set<string>();
+  afterNodes.forEach((node) => {
+    const previous = beforeById.get(node.designId);
+    if (!previous) return;
+
+    if (!sameLocation(previous, node)) {
+      moved.add(node.designId);
+      return;
+    }
+
+    const location = `${node.parentId}/${node.slot}`;
+    if (visitedLocations.has(location)) return;
+    visitedLocations.add(location);
+
+    // only the siblings that exist on both sides tell whether the order changed
+    const afterSiblings = siblings(afterNodes, node);
+    const beforeSiblings = siblings(beforeNodes, previous);
+    const common = (ids: string[], others: string[]) => ids.filter((id) => others.includes(id));
+    const kept = keptInOrder(common(beforeSiblings, afterSiblings), common(afterSiblings, beforeSiblings));
+    common(afterSiblings, beforeSiblings)
+      .filter((id) => !kept.has(id))
+      .forEach((id) => moved.add(id));
+  });
+  return moved;
+};
+
+const changedProperties = (before: any, after: any) => {
+  const previous = withoutNestedNodes(before);
+  const current = withoutNestedNodes(after);
+  const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)]));
+  return keys.filter((key) => !isEqual(previous[key], current[key]));
+};
+
+/**
+ * Compares two versions of a dialog trigger by trigger and action by action. Triggers and actions are
+ * matched on their $designer.id, so an action is reported as moved rather than removed and added when
+ * it is dragged somewhere else. Triggers and actions nested in an added or removed one are not reported.
+ */
+export const diffDialogs = (before: any, after: any): DialogDiffItem[] => {
+  const beforeNodes = collectNodes(before);
+  const afterNodes = collectNodes(after);
+  const beforeById = new Map(beforeNodes.map((node) => [node.designId, node] as [string, DialogNode]));
+  const afterById = new Map(afterNodes.map((node) => [node.designId, node] as [string, DialogNode]));
+  const moved = findMovedNodes(beforeNodes, afterNodes, beforeById);
+
+  const items: DialogDiffItem[] = [];
+  afterNodes.forEach(({ designId, $kind, path, parentId, value }) => {
+    const previous = beforeById.get(designId);
+    if (!previous) {
+      if (!parentId || beforeById.has(parentId)) {
+        items.push({ kind: 'added', designId, $kind, path });
+      }
+      return;
+    }
+
+    const properties = changedProperties(previous.value, value);
+    if (moved.has(designId)) {
+      items.push({
+        kind: 'moved',
+        designId,
+        $kind,
+        path,
+        previousPath: previous.path,
+        ...(properties.length ? { properties } : {}),
+      });
+    } else if (properties.length) {
+      items.push({ kind: 'changed', designId, $kind, path, previousPath: previous.path, properties });
+    }
+  });
+
+  beforeNodes.forEach(({ designId, $kind, path, parentId }) => {
+    if (!afterById.has(designId) && (!parentId || afterById.has(parentId))) {
+      items.push({ kind: 'removed', designId, $kind, path });
+    }
+  });
+
+  return items;
+};
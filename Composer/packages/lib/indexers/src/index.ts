@@ -101,9 +101,13 @@ export * from './dialogSchemaIndexer';
 export * from './lgIndexer';
 export * from './luIndexer';
 export * from './qnaIndexer';
+export * from './translationIndexer';
+export * from './utteranceCoverageIndexer';
 export * from './utils';
 export * from './validations';
 export * from './skillIndexer';
 export * from './botProjectSpaceIndexer';
 export * from './extractSchemaProperties';
 export * from './groupTriggers';
+export * from './dialogUtils/diffDialogs';
+export * from './diagnosticReport';
@@ -0,0 +1,205 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+/**
+ * Compare the LG, LU and QnA files of every locale with the ones of the default language.
+ */
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  DialogSetting,
+  LgFile,
+  LgTemplate,
+  LuFile,
+  LuIntentSection,
+  QnAFile,
+  QnASection,
+  TranslationCompleteness,
+  TranslationItem,
+  TranslationStatus,
+} from '@bfc/shared';
+import formatMessage from 'format-message';
+
+import { getBaseName, getLocale } from './utils/help';
+import { getRecordedSourceHashes, getSourceHashes } from './utils/translationUtil';
+
+type TranslationAssets = {
+  lgFiles: LgFile[];
+  luFiles: LuFile[];
+  qnaFiles: QnAFile[];
+  setting: DialogSetting;
+};
+
+const expressionRegex = /\$\{[^}]*\}/g;
+const entityLabelRegex = /\{\s*@?\s*([\w.]+)\s*=/g;
+const letterRegex = /[a-zA-Z\u00C0-\uFFFF]/;
+
+// the comments, e.g. the hash of the source under the header of a translated item, are not compared
+const normalize = (text: string) =>
+  text
+    .split(/\r?\n/g)
+    .filter((line) => !line.trim().startsWith('>'))
+    .join('\n')
+    .trim();
+
+const countLines = (text: string, prefix: string) =>
+  text.split(/\r?\n/g).filter((line) => line.trim().startsWith(prefix)).length;
+
+const matchAll = (text: string, regex: RegExp, group = 0): string[] => {
+  const result: string[] = [];
+  let matched: RegExpExecArray | null;
+  regex.lastIndex = 0;
+  while ((matched = regex.exec(text))) {
+    result.push(matched[group]);
+  }
+  return result.sort();
+};
+
+const isSameList = (a: string[], b: string[]) => a.length === b.length && a.every((item, index) => item === b[index]);
+
+// templates made of expressions only, e.g. - ${Greeting()}, have nothing to translate
+const isTranslatableTemplate = ({ body }: LgTemplate) =>
+  body
+    .replace(expressionRegex, '')
+    .split(/\r?\n/g)
+    .some((line) => letterRegex.test(line.replace(/^\s*-?\s*((ELSE)?IF|ELSE|SWITCH|CASE|DEFAULT)\s*:/i, '')));
+
+const getTemplateStatus = (source: LgTemplate, target?: LgTemplate): TranslationStatus => {
+  if (!target) return 'missing';
+  if (normalize(source.body) === normalize(target.body)) return 'untranslated';
+  if (
+    countLines(source.body, '-') !== countLines(target.body, '-') ||
+    !isSameList(matchAll(source.body, expressionRegex), matchAll(target.body, expressionRegex))
+  ) {
+    return 'outdated';
+  }
+  return 'translated';
+};
+
+const getIntentStatus = (source: LuIntentSection, target?: LuIntentSection): TranslationStatus => {
+  if (!target) return 'missing';
+  if (normalize(source.Body) === normalize(target.Body)) return 'untranslated';
+  const sourceEntities = Array.from(new Set(matchAll(source.Body, entityLabelRegex, 1)));
+  const targetEntities = Array.from(new Set(matchAll(target.Body, entityLabelRegex, 1)));
+  if (!isSameList(sourceEntities, targetEntities)) return 'outdated';
+  return 'translated';
+};
+
+const getQnAStatus = (source: QnASection, target?: QnASection): TranslationStatus => {
+  if (!target) return 'missing';
+  const questions = ({ Questions }: QnASection) => Questions.map(({ content }) => normalize(content)).join('\n');
+  if (normalize(source.Answer) === normalize(target.Answer) && questions(source) === questions(target)) {
+    return 'untranslated';
+  }
+  if (source.Questions.length !== target.Questions.length) return 'outdated';
+  return 'translated';
+};
+
+const findFile = <T extends { id: string }>(files: T[], id: string, locale: string) =>
+  files.find((file) => file.id === `${id}.${locale}`);
+
+// a translated item is outdated when the source changed since the hash of the source was recorded, at the import
+// of the translation
+const compareSourceHashes = (
+  type: TranslationItem['type'],
+  source?: { id: string; content: string },
+  target?: { id: string; content: string }
+) => {
+  const sourceHashes = source?.content ? getSourceHashes(`${source.id}.${type}`, source.content) : {};
+  const recordedHashes = target?.content ? getRecordedSourceHashes(`${target.id}.${type}`, target.content) : {};
+  return (name: string, status: TranslationStatus): TranslationStatus =>
+    status === 'translated' && recordedHashes[name] && recordedHashes[name] !== sourceHashes[name]
+      ? 'outdated'
+      : status;
+};
+
+const compareLocale = (assets: TranslationAssets, id: string, locale: string): TranslationItem[] => {
+  const { lgFiles, luFiles, qnaFiles, setting } = assets;
+  const { defaultLanguage } = setting;
+  const items: TranslationItem[] = [];
+
+  const sourceLg = findFile(lgFiles, id, defaultLanguage);
+  const targetLg = findFile(lgFiles, id, locale);
+  const compareLg = compareSourceHashes('lg', sourceLg, targetLg);
+  sourceLg?.templates.filter(isTranslatableTemplate).forEach((template) => {
+    const target = targetLg?.templates.find(({ name }) => name === template.name);
+    items.push({
+      type: 'lg',
+      name: template.name,
+      status: compareLg(template.name, getTemplateStatus(template, target)),
+    });
+  });
+
+  const sourceLu = findFile(luFiles, id, defaultLanguage);
+  const targetLu = findFile(luFiles, id, locale);
+  const compareLu = compareSourceHashes('lu', sourceLu, targetLu);
+  sourceLu?.intents
+    .filter(({ Body }) => countLines(Body, '-') > 0)
+    .forEach((intent) => {
+      const target = targetLu?.intents.find(({ Name }) => Name === intent.Name);
+      items.push({ type: 'lu', name: intent.Name, status: compareLu(intent.Name, getIntentStatus(intent, target)) });
+    });
+
+  // QnA pairs have no name, the pairs of the locales are matched by their position
+  const sourceQnA = findFile(qnaFiles, id, defaultLanguage);
+  const targetQnA = findFile(qnaFiles, id, locale);
+  const compareQnA = compareSourceHashes('qna', sourceQnA, targetQnA);
+  sourceQnA?.qnaSections.forEach((section, index) => {
+    const name = section.Questions[0]?.content ?? `${index + 1}`;
+    const status = getQnAStatus(section, targetQnA?.qnaSections[index]);
+    items.push({ type: 'qna', name, status: compareQnA(`${index + 1}`, status) });
+  });
+
+  return items;
+};
+
+/**
+ * Completeness of the translation of every dialog to every locale other than the default language.
+ */
+const index = (assets: TranslationAssets): TranslationCompleteness[] => {
+  const { lgFiles, luFiles, qnaFiles, setting } = assets;
+  const { defaultLanguage, languages = [] } = setting;
+
+  const ids = Array.from(
+    new Set(
+      [...lgFiles, ...luFiles, ...qnaFiles]
+        .filter(({ id }) => getLocale(id) === defaultLanguage)
+        .map(({ id }) => getBaseName(id))
+    )
+  ).sort();
+
+  return languages
+    .filter((locale) => locale !== defaultLanguage)
+    .reduce((result: TranslationCompleteness[], locale) => {
+      ids.forEach((id) => {
+        const items = compareLocale(assets, id, locale);
+        if (items.length === 0) return;
+        const translated = items.filter(({ status }) => status === 'translated').length;
+        result.push({ id, locale, total: items.length, translated, items });
+      });
+      return result;
+    }, []);
+};
+
+/**
+ * Warn about the LG templates and LU intents of the default language that a locale file misses, from the result of
+ * index.
+ */
+const validate = (completeness: TranslationCompleteness[]): Diagnostic[] => {
+  return completeness.reduce((diagnostics: Diagnostic[], { id, locale, items }) => {
+    items
+      .filter(({ type, status }) => status === 'missing' && type !== 'qna')
+      .forEach(({ type, name }) => {
+        const message =
+          type === 'lg'
+            ? formatMessage('Template "{name}" is missing in locale {locale}', { name, locale })
+            : formatMessage('Intent "{name}" is missing in locale {locale}', { name, locale });
+        diagnostics.push(new Diagnostic(message, `${id}.${locale}.${type}`, DiagnosticSeverity.Warning));
+      });
+    return diagnostics;
+  }, []);
+};
+
+export const translationIndexer = {
+  index,
+  validate,
+};
@@ -7,3 +7,4 @@ export * from './dialogCheckUtil';
 export * as lgUtil from './lgUtil';
 export * as luUtil from './luUtil';
 export * as qnaUtil from './qnaUtil';
+export * as translationUtil from './translationUtil';
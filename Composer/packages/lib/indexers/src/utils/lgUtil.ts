@@ -17,6 +17,8 @@ import {
   Range,
   LgFile,
   DiagnosticSeverity,
+  LgActivityPreview,
+  LgTemplateEvaluation,
 } from '@bfc/shared';
 import formatMessage from 'format-message';
 import isEmpty from 'lodash/isEmpty';
@@ -318,3 +320,51 @@ export function parse(id: string, content: string, lgFiles: TextFile[]): LgFile
 
   return lgIndexer.parse(content, id, lgImportResolver);
 }
+
+const toArray = (value: unknown): unknown[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// botbuilder-lg lowercases the property names of structured responses, e.g. SuggestedActions => suggestedactions
+function toActivityPreview(result: unknown): LgActivityPreview | undefined {
+  if (typeof result === 'string') {
+    return { text: result, attachments: [], suggestedActions: [] };
+  }
+  if (!result || typeof result !== 'object') return;
+
+  const activity = result as Record<string, unknown>;
+  if (String(activity.lgType).toLowerCase() !== 'activity') return;
+  return {
+    text: typeof activity.text === 'string' ? activity.text : undefined,
+    speak: typeof activity.speak === 'string' ? activity.speak : undefined,
+    attachments: toArray(activity.attachments),
+    suggestedActions: toArray(activity.suggestedactions),
+  };
+}
+
+export function evaluateTemplate(
+  lgFile: LgFile,
+  templateName: string,
+  scope: Record<string, unknown> = {},
+  importResolver?: ImportResolverDelegate
+): LgTemplateEvaluation {
+  const errors: string[] = [];
+  const resource: Templates = getLgResource(lgFile, importResolver);
+
+  let variations: unknown[] = [];
+  try {
+    variations = resource.expandTemplate(templateName, scope);
+  } catch (error) {
+    errors.push(error.message);
+  }
+
+  let activity: LgActivityPreview | undefined;
+  try {
+    activity = toActivityPreview(resource.evaluate(templateName, scope));
+  } catch (error) {
+    if (!errors.includes(error.message)) errors.push(error.message);
+  }
+
+  return { variations, activity, errors };
+}
@@ -0,0 +1,141 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+/**
+ * The LG templates, LU intents and QnA pairs of the .lg, .lu and .qna files, and the hashes of the source items
+ * their translations were imported from. The hashes are recorded in comments of the locale files, e.g.
+ * # Greeting
+ * > source: 2c26b46b
+ * - Bonjour
+ */
+
+export type TranslationItemRange = {
+  /** LG template, LU intent, or position of the QnA pair from 1. */
+  name: string;
+  // offsets of the item in the file
+  start: number;
+  end: number;
+};
+
+const sourceHashRegex = /^\s*>\s*source:\s*([0-9a-f]+)\s*$/;
+
+const getExtension = (name: string) => name.substring(name.lastIndexOf('.'));
+
+// lines of the text with their offsets, without line breaks
+const splitLines = (content: string) => {
+  const lines: { text: string; offset: number }[] = [];
+  let offset = 0;
+  content.split('\n').forEach((line) => {
+    lines.push({ text: line.replace(/\r$/, ''), offset });
+    offset += line.length + 1;
+  });
+  return lines;
+};
+
+/**
+ * The LG templates, LU intents and QnA pairs of a file, with their offsets, without the comments after them.
+ */
+export const findItems = (fileName: string, content: string): TranslationItemRange[] => {
+  const extension = getExtension(fileName);
+  const items: TranslationItemRange[] = [];
+  let item: TranslationItemRange | undefined;
+  let pair = 0;
+  let inFence = false;
+
+  splitLines(content).forEach((line) => {
+    const trimmed = line.text.trim();
+    const end = line.offset + line.text.length;
+    const hasFence = (trimmed.match(/```/g) ?? []).length % 2 === 1;
+    if (inFence) {
+      // multiline variations and answers
+      inFence = !hasFence;
+      if (item) item.end = end;
+      return;
+    }
+    if (trimmed.startsWith('#')) {
+      let name: string | undefined;
+      if (extension === '.lg') {
+        name = /^#\s*([^\s(]+)/.exec(trimmed)?.[1];
+      } else if (extension === '.lu') {
+        name = trimmed.startsWith('# ?') ? undefined : trimmed.substring(1).trim();
+      } else if (trimmed.startsWith('# ?')) {
+        name = String(++pair);
+      }
+      item = name ? { name, start: line.offset, end } : undefined;
+      if (item) items.push(item);
+      return;
+    }
+    if (extension === '.lu' && /^[@$]/.test(trimmed)) {
+      item = undefined;
+      return;
+    }
+    inFence = hasFence;
+    if (item && trimmed && !trimmed.startsWith('>')) item.end = end;
+  });
+  return items;
+};
+
+// FNV-1a of the lines of the item, the blank lines, the comments and the indentation don't change it
+const hashItem = (content: string, { start, end }: TranslationItemRange) => {
+  const text = content
+    .substring(start, end)
+    .split(/\r?\n/g)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('>'))
+    .join('\n');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    // eslint-disable-next-line no-bitwise
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  // eslint-disable-next-line no-bitwise
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// offsets of the line after the header of the item, none when the header ends the file
+const findHashLine = (content: string, { start }: TranslationItemRange) => {
+  const headerEnd = content.indexOf('\n', start);
+  if (headerEnd === -1) return;
+  const lineEnd = content.indexOf('\n', headerEnd + 1);
+  const text = content.substring(headerEnd + 1, lineEnd === -1 ? content.length : lineEnd).replace(/\r$/, '');
+  return { start: headerEnd + 1, end: headerEnd + 1 + text.length, text };
+};
+
+/**
+ * Hashes of the items of a file of the default language, by item name.
+ */
+export const getSourceHashes = (fileName: string, content: string): Record<string, string> =>
+  findItems(fileName, content).reduce((result, item) => {
+    result[item.name] = hashItem(content, item);
+    return result;
+  }, {} as Record<string, string>);
+
+/**
+ * Hashes of the source items recorded in a locale file, by item name.
+ */
+export const getRecordedSourceHashes = (fileName: string, content: string): Record<string, string> =>
+  findItems(fileName, content).reduce((result, item) => {
+    const recorded = sourceHashRegex.exec(findHashLine(content, item)?.text ?? '')?.[1];
+    if (recorded) result[item.name] = recorded;
+    return result;
+  }, {} as Record<string, string>);
+
+/**
+ * Records the hashes of the source items under the headers of the items of a locale file, in place of the previous
+ * ones.
+ */
+export const recordSourceHashes = (fileName: string, content: string, hashes: Record<string, string>): string => {
+  const lineBreak = content.includes('\r\n') ? '\r\n' : '\n';
+  return findItems(fileName, content)
+    .filter(({ name }) => hashes[name])
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, item) => {
+      const line = findHashLine(result, item);
+      const comment = `> source: ${hashes[item.name]}`;
+      if (!line) return `${result}${lineBreak}${comment}`;
+      if (sourceHashRegex.test(line.text)) {
+        return result.substring(0, line.start) + comment + result.substring(line.end);
+      }
+      return result.substring(0, line.start) + comment + lineBreak + result.substring(line.start);
+    }, content);
+};
@@ -0,0 +1,233 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+/**
+ * Check that the intents of the LU files have enough utterances and that recognizers can tell them apart.
+ */
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  DialogSetting,
+  IntentCoverage,
+  LuFile,
+  LuIntentSection,
+  UtteranceConflict,
+  UtteranceCoverageReport,
+  UtteranceCoverageSettings,
+} from '@bfc/shared';
+import formatMessage from 'format-message';
+
+import { getLocale } from './utils/help';
+
+type UtteranceCoverageAssets = {
+  luFiles: LuFile[];
+  setting: DialogSetting;
+};
+
+type Utterance = {
+  id: string;
+  intent: string;
+  text: string;
+  normalized: string;
+  words: Set<string>;
+};
+
+export const defaultUtteranceCoverageSettings: Required<UtteranceCoverageSettings> = {
+  minUtterances: 5,
+  similarityThreshold: 0.8,
+  imbalanceRatio: 4,
+};
+
+// {@city=Seattle} => Seattle
+const entityLabelRegex = /\{\s*@?\s*[\w.]+\s*=\s*([^}]*)\}/g;
+const utteranceRegex = /^\s*[-*+]\s*(.*)$/;
+
+const normalize = (text: string) =>
+  text
+    .replace(entityLabelRegex, '$1')
+    .toLowerCase()
+    .replace(/[^\w\s{}@\u00C0-\uFFFF]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const getUtterances = ({ Body }: LuIntentSection): string[] =>
+  Body.split(/\r?\n/g).reduce((result: string[], line) => {
+    const matched = utteranceRegex.exec(line);
+    if (matched?.[1].trim()) result.push(matched[1].trim());
+    return result;
+  }, []);
+
+// the sections of nested intents, e.g. ## Child of # Parent, are intents too
+const flattenIntents = (intents: LuIntentSection[]): LuIntentSection[] =>
+  intents.reduce((result: LuIntentSection[], intent) => {
+    if (intent.Children?.length) {
+      result.push(...intent.Children.map((child) => ({ ...child, Name: `${intent.Name}/${child.Name}` })));
+    } else {
+      result.push(intent);
+    }
+    return result;
+  }, []);
+
+const getSimilarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const toRef = ({ id, intent, text }: Utterance) => ({ id, intent, text });
+
+const findConflicts = (utterances: Utterance[], similarityThreshold: number): UtteranceConflict[] => {
+  const conflicts: UtteranceConflict[] = [];
+  utterances.forEach((utterance, index) => {
+    for (let i = index + 1; i < utterances.length; i++) {
+      const other = utterances[i];
+      if (other.id === utterance.id && other.intent === utterance.intent) continue;
+
+      if (other.normalized === utterance.normalized) {
+        conflicts.push({ type: 'duplicate', similarity: 1, utterance: toRef(utterance), other: toRef(other) });
+        continue;
+      }
+      const similarity = getSimilarity(utterance.words, other.words);
+      if (similarity >= similarityThreshold) {
+        conflicts.push({ type: 'similar', similarity, utterance: toRef(utterance), other: toRef(other) });
+      }
+    }
+  });
+  return conflicts;
+};
+
+/**
+ * Utterance counts of the intents of every LU file, and conflicts between the utterances of the intents of a locale.
+ */
+const index = (assets: UtteranceCoverageAssets): UtteranceCoverageReport => {
+  const { luFiles, setting } = assets;
+  const { minUtterances, similarityThreshold, imbalanceRatio } = {
+    ...defaultUtteranceCoverageSettings,
+    ...setting.utteranceCoverage,
+  };
+
+  const intents: IntentCoverage[] = [];
+  const utterancesByLocale: Record<string, Utterance[]> = {};
+
+  luFiles.forEach(({ id, intents: sections }) => {
+    const locale = getLocale(id) ?? '';
+    const fileIntents = flattenIntents(sections).map((section) => {
+      const texts = getUtterances(section);
+      texts.forEach((text) => {
+        const normalized = normalize(text);
+        (utterancesByLocale[locale] = utterancesByLocale[locale] ?? []).push({
+          id,
+          intent: section.Name,
+          text,
+          normalized,
+          words: new Set(normalized.split(' ').filter(Boolean)),
+        });
+      });
+      return { id, intent: section.Name, utterances: texts.length };
+    });
+
+    const max = Math.max(0, ...fileIntents.map(({ utterances }) => utterances));
+    fileIntents.forEach((intent) => {
+      intents.push({
+        ...intent,
+        conflicts: 0,
+        tooFewUtterances: intent.utterances < minUtterances,
+        unbalanced: fileIntents.length > 1 && intent.utterances * imbalanceRatio < max,
+      });
+    });
+  });
+
+  const conflicts = Object.values(utterancesByLocale).reduce(
+    (result: UtteranceConflict[], utterances) => [...result, ...findConflicts(utterances, similarityThreshold)],
+    []
+  );
+  conflicts.forEach(({ utterance, other }) => {
+    intents.forEach((intent) => {
+      if (
+        (intent.id === utterance.id && intent.intent === utterance.intent) ||
+        (intent.id === other.id && intent.intent === other.intent)
+      ) {
+        intent.conflicts++;
+      }
+    });
+  });
+
+  return { intents, conflicts };
+};
+
+const getConflictMessage = ({ type, utterance, other }: UtteranceConflict) => {
+  const { text, intent } = utterance;
+  if (other.id === utterance.id) {
+    return type === 'duplicate'
+      ? formatMessage('Utterance "{text}" of intent "{intent}" is also an utterance of intent "{otherIntent}"', {
+          text,
+          intent,
+          otherIntent: other.intent,
+        })
+      : formatMessage('Utterance "{text}" of intent "{intent}" is similar to "{otherText}" of intent "{otherIntent}"', {
+          text,
+          intent,
+          otherText: other.text,
+          otherIntent: other.intent,
+        });
+  }
+  return type === 'duplicate'
+    ? formatMessage(
+        'Utterance "{text}" of intent "{intent}" is also an utterance of intent "{otherIntent}" of {otherId}',
+        { text, intent, otherIntent: other.intent, otherId: other.id }
+      )
+    : formatMessage(
+        'Utterance "{text}" of intent "{intent}" is similar to "{otherText}" of intent "{otherIntent}" of {otherId}',
+        { text, intent, otherText: other.text, otherIntent: other.intent, otherId: other.id }
+      );
+};
+
+/**
+ * Warn about the intents with too few or unbalanced utterances, and about the utterances that conflict with the ones of other intents.
+ * The report of index is taken when the caller has it already, the conflicts are costly to find.
+ */
+const validate = (assets: UtteranceCoverageAssets, report: UtteranceCoverageReport = index(assets)): Diagnostic[] => {
+  const { luFiles, setting } = assets;
+  const { minUtterances } = { ...defaultUtteranceCoverageSettings, ...setting.utteranceCoverage };
+
+  const createDiagnostic = (id: string, intent: string, message: string) => {
+    const diagnostic = new Diagnostic(message, `${id}.lu`, DiagnosticSeverity.Warning);
+    const [name] = intent.split('/');
+    diagnostic.range = luFiles.find((file) => file.id === id)?.intents.find(({ Name }) => Name === name)?.range;
+    return diagnostic;
+  };
+
+  const diagnostics = report.intents.reduce(
+    (result: Diagnostic[], { id, intent, utterances, tooFewUtterances, unbalanced }) => {
+      if (tooFewUtterances) {
+        const message = formatMessage(
+          'Intent "{intent}" has {utterances, plural, =1 {1 utterance} other {# utterances}}, add at least {minUtterances}',
+          { intent, utterances, minUtterances }
+        );
+        result.push(createDiagnostic(id, intent, message));
+      } else if (unbalanced) {
+        const message = formatMessage('Intent "{intent}" has much fewer utterances than the other intents of {id}', {
+          intent,
+          id,
+        });
+        result.push(createDiagnostic(id, intent, message));
+      }
+      return result;
+    },
+    []
+  );
+
+  report.conflicts.forEach((conflict) => {
+    const { utterance } = conflict;
+    diagnostics.push(createDiagnostic(utterance.id, utterance.intent, getConflictMessage(conflict)));
+  });
+
+  return diagnostics;
+};
+
+export const utteranceCoverageIndexer = {
+  index,
+  validate,
+};
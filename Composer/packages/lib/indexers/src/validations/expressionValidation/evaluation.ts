@@ -0,0 +1,89 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Expression, ExpressionType } from 'adaptive-expressions';
+
+export type ExpressionEvaluationNode = {
+  /** Text of the sub-expression, e.g. (count(user.orders) > 0). */
+  expression: string;
+  /** Function or operator of the sub-expression, e.g. count or >, Accessor for memory paths and Constant for literals. */
+  type: string;
+  value?: unknown;
+  error?: string;
+  children: ExpressionEvaluationNode[];
+};
+
+export type ExpressionEvaluation = {
+  value?: unknown;
+  error?: string;
+  tree?: ExpressionEvaluationNode;
+  /** Functions the expression calls, with the built-in function of the operators, e.g. && => and. */
+  functions: string[];
+  /** Memory paths the expression reads, e.g. user.orders. */
+  references: string[];
+};
+
+// the sub-expressions of these nodes are parts of memory paths or literals, e.g. user.orders[0]
+const leafTypes: string[] = [ExpressionType.Accessor, ExpressionType.Element, ExpressionType.Constant];
+
+const operatorFunctions: Record<string, string> = {
+  [ExpressionType.Add]: 'add',
+  [ExpressionType.Subtract]: 'sub',
+  [ExpressionType.Multiply]: 'mul',
+  [ExpressionType.Divide]: 'div',
+  [ExpressionType.Mod]: 'mod',
+  [ExpressionType.Power]: 'exp',
+  [ExpressionType.Equal]: 'equals',
+  [ExpressionType.LessThan]: 'less',
+  [ExpressionType.LessThanOrEqual]: 'lessOrEquals',
+  [ExpressionType.GreaterThan]: 'greater',
+  [ExpressionType.GreaterThanOrEqual]: 'greaterOrEquals',
+  [ExpressionType.And]: 'and',
+  [ExpressionType.Or]: 'or',
+  [ExpressionType.Not]: 'not',
+};
+
+const evaluateNode = (expression: Expression, memory: Record<string, unknown>): ExpressionEvaluationNode => {
+  const { value, error } = expression.tryEvaluate(memory);
+  const isLeaf = leafTypes.includes(expression.type);
+  return {
+    expression: expression.toString(),
+    type: expression.type,
+    value,
+    error: error || undefined,
+    children: isLeaf ? [] : expression.children.map((child) => evaluateNode(child, memory)),
+  };
+};
+
+const collectFunctions = (node: ExpressionEvaluationNode, functions: string[] = []): string[] => {
+  if (!leafTypes.includes(node.type) && node.type !== ExpressionType.Lambda) {
+    const name = operatorFunctions[node.type] ?? node.type;
+    if (!functions.includes(name)) functions.push(name);
+  }
+  node.children.forEach((child) => collectFunctions(child, functions));
+  return functions;
+};
+
+/**
+ * Evaluates the expression, e.g. count(user.orders) > 0, and each of its sub-expressions against the memory.
+ * The leading = of the expressions of the string properties is optional.
+ */
+export const evaluateExpression = (expression: string, memory: Record<string, unknown> = {}): ExpressionEvaluation => {
+  const text = expression.trim().startsWith('=') ? expression.trim().substring(1) : expression;
+
+  let parsed: Expression;
+  try {
+    parsed = Expression.parse(text);
+  } catch (error) {
+    return { error: error.message, functions: [], references: [] };
+  }
+
+  const tree = evaluateNode(parsed, memory);
+  return {
+    value: tree.value,
+    error: tree.error,
+    tree,
+    functions: collectFunctions(tree),
+    references: parsed.references(),
+  };
+};
@@ -1,29 +1,38 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
-import { Diagnostic, DialogInfo, LgFile, LuFile, DialogSetting, SchemaDefinitions } from '@bfc/shared';
+import { Diagnostic, DialogInfo, LgFile, LuFile, DialogSetting, SchemaDefinitions, LintRule } from '@bfc/shared';
 import has from 'lodash/has';
 
 import { JsonWalk, VisitorFunc } from '..';
 
 import { validateExpressions } from './expressionValidation/index';
 import { ExpressionParseResult, ValidateFunc } from './expressionValidation/types';
+import { builtinLintRules, getLintValidateFuncs, getValidateFuncsByKind } from './lintValidation';
+
+export { builtinLintRules };
+export * from './expressionValidation/evaluation';
 
 export const validateFuncs: { [type: string]: ValidateFunc[] } = {
   '.': [validateExpressions], //this will check all types
 };
 
+const noLintRules: LintRule[] = [];
+
 export function validateDialog(
   dialog: DialogInfo,
   schema: SchemaDefinitions,
   settings: DialogSetting,
   lgFiles: LgFile[],
   luFiles: LuFile[],
-  cache?: ExpressionParseResult
+  cache?: ExpressionParseResult,
+  lintRules: LintRule[] = noLintRules
 ): { diagnostics: Diagnostic[] | null; cache?: ExpressionParseResult } {
   const { id, content } = dialog;
   try {
     const diagnostics: Diagnostic[] = [];
     let newCache: ExpressionParseResult = {};
+    // the lint rules contributed by extensions are checked along with the ones of Composer
+    const lintFuncs = getLintValidateFuncs(lintRules, settings.lint);
     /**
      *
      * @param path , jsonPath string
@@ -37,6 +46,7 @@ export function validateDialog(
         if (checkerFunc) {
           allChecks.splice(0, 0, ...checkerFunc);
         }
+        allChecks.push(...(lintFuncs['.'] ?? []), ...getValidateFuncsByKind(lintFuncs, value.$kind));
 
         allChecks.forEach((func) => {
           const result = func(
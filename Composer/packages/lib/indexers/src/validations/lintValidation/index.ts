@@ -0,0 +1,108 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  LintRule,
+  LintRuleConfig,
+  LintRuleSeverity,
+  LintSettings,
+  MicrosoftIDialog,
+} from '@bfc/shared';
+import { Expression } from 'adaptive-expressions';
+import formatMessage from 'format-message';
+
+import { ValidateFunc } from '../expressionValidation/types';
+
+import { builtinLintRules } from './rules';
+
+export { builtinLintRules };
+
+const severities: { [severity in Exclude<LintRuleSeverity, 'off'>]: DiagnosticSeverity } = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+};
+
+const resolveRuleConfig = (rule: LintRule, config?: LintRuleConfig) => {
+  const [severity, options] = Array.isArray(config) ? config : [config, {}];
+  return {
+    severity: severity === 'off' || (severity && severity in severities) ? severity : rule.defaultSeverity,
+    options: { ...rule.options, ...options },
+  };
+};
+
+const createLintValidateFunc = (rule: LintRule, config?: LintRuleConfig): ValidateFunc | undefined => {
+  const { severity, options } = resolveRuleConfig(rule, config);
+  if (severity === 'off') return;
+
+  let condition: Expression;
+  let conditionError = '';
+  try {
+    condition = Expression.parse(rule.condition);
+  } catch (error) {
+    conditionError = formatMessage('The condition of the lint rule {id} is not valid: {error}', {
+      id: rule.id,
+      error: error.message,
+    });
+  }
+
+  return (path: string, value: MicrosoftIDialog) => {
+    let diagnostic: Diagnostic | undefined;
+    if (conditionError) {
+      diagnostic = new Diagnostic(conditionError, '', DiagnosticSeverity.Warning, path);
+    } else {
+      const { value: result, error } = condition.tryEvaluate({ node: value, options });
+      if (error || result !== true) {
+        diagnostic = new Diagnostic(rule.message, '', severities[severity], path);
+      }
+    }
+    if (diagnostic) diagnostic.code = rule.id;
+    return { diagnostics: diagnostic ? [diagnostic] : null, cache: {} };
+  };
+};
+
+/**
+ * Validate functions of the enabled lint rules, registered per $kind.
+ * The severity and the options of every rule come from the lint settings of the bot.
+ */
+export const createLintValidateFuncs = (rules: LintRule[], settings: LintSettings = {}) => {
+  return rules.reduce((validateFuncs: { [kind: string]: ValidateFunc[] }, rule) => {
+    const validateFunc = createLintValidateFunc(rule, settings.rules?.[rule.id]);
+    if (validateFunc) {
+      rule.kinds.forEach((kind) => {
+        validateFuncs[kind] = [...(validateFuncs[kind] ?? []), validateFunc];
+      });
+    }
+    return validateFuncs;
+  }, {});
+};
+
+let lastLintValidateFuncs:
+  | { rules: LintRule[]; settings?: LintSettings; validateFuncs: { [kind: string]: ValidateFunc[] } }
+  | undefined;
+
+/**
+ * Validate functions of the built-in rules and of the given rules. The conditions are parsed again only when the
+ * rules or the lint settings change, not for every validated dialog.
+ */
+export const getLintValidateFuncs = (rules: LintRule[], settings?: LintSettings) => {
+  if (!lastLintValidateFuncs || lastLintValidateFuncs.rules !== rules || lastLintValidateFuncs.settings !== settings) {
+    lastLintValidateFuncs = {
+      rules,
+      settings,
+      validateFuncs: createLintValidateFuncs([...builtinLintRules, ...rules], settings),
+    };
+  }
+  return lastLintValidateFuncs.validateFuncs;
+};
+
+/**
+ * Validate functions registered for the $kind, a trailing * registers them for every $kind starting with the prefix.
+ */
+export const getValidateFuncsByKind = (validateFuncs: { [kind: string]: ValidateFunc[] }, kind: string) => {
+  return Object.keys(validateFuncs).reduce((result: ValidateFunc[], key) => {
+    const matches = key.endsWith('*') ? kind.startsWith(key.slice(0, -1)) : key === kind;
+    return matches ? [...result, ...validateFuncs[key]] : result;
+  }, []);
+};
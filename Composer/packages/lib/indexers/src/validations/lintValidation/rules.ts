@@ -0,0 +1,47 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+import { LintRule } from '@bfc/shared';
+import formatMessage from 'format-message';
+
+const inputKinds = [
+  'Microsoft.AttachmentInput',
+  'Microsoft.ChoiceInput',
+  'Microsoft.ConfirmInput',
+  'Microsoft.DateTimeInput',
+  'Microsoft.NumberInput',
+  'Microsoft.OAuthInput',
+  'Microsoft.TextInput',
+];
+
+/**
+ * Rules shipped with Composer, they are off until enabled in the lint settings of the bot.
+ */
+export const builtinLintRules: LintRule[] = [
+  {
+    id: 'input-max-turn-count',
+    description: formatMessage('Inputs must set the number of times they prompt the user.'),
+    kinds: inputKinds,
+    condition: 'exists(node.maxTurnCount)',
+    message: formatMessage('Max turn count is not set.'),
+    defaultSeverity: 'off',
+  },
+  {
+    id: 'send-activity-lg',
+    description: formatMessage('Send a response actions must use a LG template instead of inline text.'),
+    kinds: ['Microsoft.SendActivity'],
+    condition: "!exists(node.activity) || startsWith(node.activity, '${')",
+    message: formatMessage('The response is inline text instead of a LG template.'),
+    defaultSeverity: 'off',
+  },
+  {
+    id: 'trigger-name',
+    description: formatMessage(
+      'Trigger names must match the pattern option, by default they start with an uppercase letter.'
+    ),
+    kinds: ['Microsoft.On*'],
+    condition: '!exists(node.$designer.name) || isMatch(node.$designer.name, options.pattern)',
+    message: formatMessage('The trigger name does not follow the naming convention.'),
+    defaultSeverity: 'off',
+    options: { pattern: '^[A-Z]' },
+  },
+];
@@ -349,6 +349,9 @@ export const QnALocales = [
   'vi-vn',
 ];
 
+// locale of the bot responses generated from the default language to preview how they hold up in translation
+export const PseudoLocale = 'qps-ploc';
+
 const adaptiveCardJsonBody =
   '-```\
 \n{\
@@ -6,6 +6,7 @@ import { ExtensionMetadata } from '@botframework-composer/types';
 
 import * as ExtensionsController from '../extensions';
 import { ExtensionManager } from '../../services/extensionManager';
+import { ExtensionContext } from '../../models/extension/extensionContext';
 
 jest.mock('../../services/extensionManager', () => ({
   ExtensionManager: {
@@ -21,6 +22,14 @@ jest.mock('../../services/extensionManager', () => ({
   },
 }));
 
+jest.mock('../../models/extension/extensionContext', () => ({
+  ExtensionContext: {
+    extensions: {
+      lintRules: [],
+    },
+  },
+}));
+
 const req: Request = {} as Request;
 let res: Response = {} as Response;
 
@@ -350,6 +359,22 @@ describe('getting a view bundle', () => {
   });
 });
 
+describe('listing the lint rules', () => {
+  it('returns the lint rules added by extensions', async () => {
+    const rule = {
+      id: 'contoso/text-input-max-turn-count',
+      kinds: ['Microsoft.TextInput'],
+      condition: 'exists(node.maxTurnCount)',
+      message: 'Max turn count is not set.',
+      defaultSeverity: 'warning' as const,
+    };
+    ExtensionContext.extensions.lintRules.push(rule);
+    await ExtensionsController.getLintRules(req, res);
+
+    expect(res.json).toHaveBeenCalledWith([rule]);
+  });
+});
+
 describe('proxying extension requests', () => {
   it.todo('proxies requests from extensions');
 });
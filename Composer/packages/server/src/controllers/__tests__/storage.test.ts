@@ -7,9 +7,34 @@ import StorageService from '../../services/storage';
 import { StorageController } from '../../controllers/storage';
 
 jest.mock('../../services/storage', () => ({
+  ...jest.requireActual('../../services/storage').default,
   getBlob: jest.fn(),
 }));
 
+jest.mock('../../store/store', () => ({
+  Store: {
+    get: () => [
+      {
+        id: 'azure',
+        name: 'Bots on Azure',
+        type: 'AzureBlobStorage',
+        path: '/',
+        connectionString: 'AccountName=bots;AccountKey=key',
+      },
+      {
+        id: 's3',
+        name: 'Bots on S3',
+        type: 'S3',
+        path: '/bots',
+        bucket: 'bots',
+        accessKeyId: 'key',
+        secretAccessKey: 'secret',
+      },
+    ],
+    set: jest.fn(),
+  },
+}));
+
 let mockReq: Request;
 let mockRes: Response;
 
@@ -55,3 +80,18 @@ describe('getBlob', () => {
     expect(mockRes.json).toHaveBeenCalledWith('some blob');
   });
 });
+
+describe('updateCurrentPath', () => {
+  it('leaves out the credentials of the storages', () => {
+    mockReq.body = { path: '/bots/echo', storageId: 's3' };
+    StorageController.updateCurrentPath(mockReq, mockRes);
+
+    expect(mockRes.status).toHaveBeenCalledWith(200);
+    const storages = (mockRes.json as jest.Mock).mock.calls[0][0];
+    expect(storages.find((s) => s.id === 's3').path).toBe('/bots/echo');
+    storages.forEach((storage) => {
+      expect(storage).not.toHaveProperty('connectionString');
+      expect(storage).not.toHaveProperty('secretAccessKey');
+    });
+  });
+});
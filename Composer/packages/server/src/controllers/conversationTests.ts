@@ -0,0 +1,163 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Request, Response } from 'express';
+import {
+  ConversationTestResult,
+  ConversationTestRunSummary,
+  ConversationTestScript,
+} from '@botframework-composer/types';
+
+import { ExtensionContext } from '../models/extension/extensionContext';
+import { BotProjectService } from '../services/project';
+import DLServerContext from '../directline/store/dlServerState';
+import { ConversationTestRunner, loadConversationTests, transcriptToTestScript } from '../directline/testRunner';
+import { Path } from '../utility/path';
+import log from '../logger';
+
+async function getConversationTests(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const user = await ExtensionContext.getUserFromRequest(req);
+
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    try {
+      const tests = await loadConversationTests(currentProject.fileStorage, currentProject.dir);
+      res
+        .status(200)
+        .json(
+          tests.map(({ id, source, description, stepCount, error }) => ({ id, source, description, stepCount, error }))
+        );
+    } catch (e) {
+      res.status(400).json({ message: e.message });
+    }
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+async function runConversationTests(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const { botUrl, msaAppId, msaPassword, locale, timeout, testIds } = req.body;
+  if (!botUrl) {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "botUrl" of the running bot',
+    });
+    return;
+  }
+
+  const user = await ExtensionContext.getUserFromRequest(req);
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject === undefined) {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+    return;
+  }
+
+  // a long suite can easily exceed Express' default 2 minute timeout
+  (req as any).setTimeout(0);
+
+  try {
+    const tests = await loadConversationTests(currentProject.fileStorage, currentProject.dir);
+    const selectedTests = Array.isArray(testIds) ? tests.filter(({ id }) => testIds.includes(id)) : tests;
+    const runner = new ConversationTestRunner(DLServerContext.getInstance().state, {
+      botUrl,
+      msaAppId,
+      msaPassword,
+      locale: locale || currentProject.settings?.defaultLanguage,
+      timeout,
+    });
+
+    const results: ConversationTestResult[] = [];
+    // tests share the bot's state, running them one at a time keeps them independent
+    for (const test of selectedTests) {
+      if (test.script) {
+        results.push(await runner.run(test.id, test.script));
+      } else {
+        results.push({ id: test.id, status: 'error', steps: [], duration: 0, error: test.error });
+      }
+    }
+
+    const summary: ConversationTestRunSummary = {
+      passed: results.filter(({ status }) => status === 'passed').length,
+      failed: results.filter(({ status }) => status === 'failed').length,
+      errored: results.filter(({ status }) => status === 'error').length,
+      results,
+    };
+    res.status(200).json(summary);
+  } catch (e) {
+    log('Failed to run conversation tests for project %s: %O', projectId, e);
+    res.status(500).json({ message: e.message });
+  }
+}
+
+async function replayTranscript(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const { botUrl, msaAppId, msaPassword, locale, timeout, path, transcript } = req.body;
+  if (!botUrl || (!path && !Array.isArray(transcript))) {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "botUrl" and either "path" or "transcript"',
+    });
+    return;
+  }
+
+  const user = await ExtensionContext.getUserFromRequest(req);
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject === undefined) {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+    return;
+  }
+
+  let activities = transcript;
+  let id = 'transcript';
+  if (path) {
+    const transcriptPath = Path.resolve(currentProject.dir, path);
+    if (Path.relative(currentProject.dir, transcriptPath).startsWith('..')) {
+      res.status(400).json({ message: `${path} is not inside the bot project` });
+      return;
+    }
+    try {
+      activities = JSON.parse(await currentProject.fileStorage.readFile(transcriptPath));
+      id = path.replace(/\\/g, '/');
+    } catch (e) {
+      res.status(400).json({ message: e.message });
+      return;
+    }
+  }
+
+  let script: ConversationTestScript;
+  try {
+    script = transcriptToTestScript(activities, Path.basename(id));
+  } catch (e) {
+    res.status(400).json({ message: e.message });
+    return;
+  }
+
+  // the recorded conversation is replayed at the bot's pace, which can exceed Express' default timeout
+  (req as any).setTimeout(0);
+
+  try {
+    const runner = new ConversationTestRunner(DLServerContext.getInstance().state, {
+      botUrl,
+      msaAppId,
+      msaPassword,
+      locale: locale || currentProject.settings?.defaultLanguage,
+      timeout,
+    });
+    res.status(200).json(await runner.run(id, script));
+  } catch (e) {
+    log('Failed to replay transcript for project %s: %O', projectId, e);
+    res.status(500).json({ message: e.message });
+  }
+}
+
+export const ConversationTestController = {
+  getConversationTests,
+  runConversationTests,
+  replayTranscript,
+};
@@ -5,6 +5,7 @@ import { Request, Response } from 'express';
 import { ExtensionMetadata } from '@botframework-composer/types';
 
 import { ExtensionManager } from '../services/extensionManager';
+import { ExtensionContext } from '../models/extension/extensionContext';
 
 interface AddExtensionRequest extends Request {
   body: {
@@ -188,6 +189,10 @@ export async function getSettings(req: ExtensionSettingsRequest, res: Response)
   res.json(ExtensionManager.getSettings(includeDefaults));
 }
 
+export async function getLintRules(req: Request, res: Response) {
+  res.json(ExtensionContext.extensions.lintRules);
+}
+
 export async function updateSettings(req: Request, res: Response) {
   ExtensionManager.updateSettings(req.body ?? {});
   res.json(ExtensionManager.getSettings(true));
@@ -0,0 +1,142 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Request, Response } from 'express';
+
+import { ExtensionContext } from '../models/extension/extensionContext';
+import { BotProject } from '../models/bot/botProject';
+import { BotProjectService } from '../services/project';
+import log from '../logger';
+
+const withProject = async (
+  req: Request,
+  res: Response,
+  handler: (project: BotProject) => Promise<void>
+): Promise<void> => {
+  const projectId = req.params.projectId;
+  const user = await ExtensionContext.getUserFromRequest(req);
+
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject === undefined) {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+    return;
+  }
+
+  try {
+    await handler(currentProject);
+  } catch (e) {
+    log('Git operation failed for project %s: %O', projectId, e);
+    // git reports the reason on stderr
+    res.status(400).json({ message: e.stderr?.trim() || e.message });
+  }
+};
+
+// the query can hold arrays and objects, the git arguments are strings
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+async function getStatus(req: Request, res: Response) {
+  await withProject(req, res, async (project) => {
+    res.status(200).json(await project.git.status());
+  });
+}
+
+async function init(req: Request, res: Response) {
+  await withProject(req, res, async (project) => {
+    if (!(await project.git.isRepository())) {
+      await project.git.init();
+    }
+    res.status(200).json(await project.git.status());
+  });
+}
+
+async function commit(req: Request, res: Response) {
+  const { message, author } = req.body;
+  if (!message) {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "message" parameter',
+    });
+    return;
+  }
+
+  await withProject(req, res, async (project) => {
+    await project.git.commit(message, author?.name && author?.email ? author : undefined);
+    res.status(200).json(await project.git.status());
+  });
+}
+
+async function getLog(req: Request, res: Response) {
+  const limit = parseInt(req.query.limit, 10) || undefined;
+  await withProject(req, res, async (project) => {
+    res.status(200).json(await project.git.log(limit));
+  });
+}
+
+async function getDiff(req: Request, res: Response) {
+  const { path, commit } = req.query;
+  if (!isOptionalString(path) || !isOptionalString(commit)) {
+    res.status(400).json({
+      message: 'Parameters "path" and "commit" must be strings',
+    });
+    return;
+  }
+
+  await withProject(req, res, async (project) => {
+    res.status(200).json({ diff: await project.git.diff(path, commit) });
+  });
+}
+
+async function getFileContent(req: Request, res: Response) {
+  const { path, revision } = req.query;
+  if (!path) {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "path" parameter',
+    });
+    return;
+  }
+  if (typeof path !== 'string' || !isOptionalString(revision)) {
+    res.status(400).json({
+      message: 'Parameters "path" and "revision" must be strings',
+    });
+    return;
+  }
+
+  await withProject(req, res, async (project) => {
+    res.status(200).json({ content: await project.git.show(path, revision) });
+  });
+}
+
+async function checkout(req: Request, res: Response) {
+  const { branch, create } = req.body;
+  if (!branch) {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "branch" parameter',
+    });
+    return;
+  }
+  if (typeof branch !== 'string') {
+    res.status(400).json({
+      message: 'Parameter "branch" must be a string',
+    });
+    return;
+  }
+
+  await withProject(req, res, async (project) => {
+    await project.checkoutBranch(branch, !!create);
+    res.status(200).json({
+      id: req.params.projectId,
+      ...project.getProject(),
+    });
+  });
+}
+
+export const GitController = {
+  getStatus,
+  init,
+  commit,
+  getLog,
+  getDiff,
+  getFileContent,
+  checkout,
+};
@@ -0,0 +1,84 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Request, Response } from 'express';
+
+import { ExtensionContext } from '../models/extension/extensionContext';
+import { BotProjectService } from '../services/project';
+import { createLuTestReport, loadLuTestSets, luTestReportFormats } from '../models/bot/luTestSet';
+import log from '../logger';
+
+async function getLuTests(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const user = await ExtensionContext.getUserFromRequest(req);
+
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    try {
+      const testSets = await loadLuTestSets(
+        currentProject.fileStorage,
+        currentProject.dir,
+        currentProject.settings?.defaultLanguage || 'en-us'
+      );
+      res.status(200).json(testSets.map(({ testSet, ...file }) => file));
+    } catch (e) {
+      res.status(400).json({ message: e.message });
+    }
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+async function runLuTests(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const { testIds } = req.body;
+
+  const user = await ExtensionContext.getUserFromRequest(req);
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject === undefined) {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+    return;
+  }
+
+  // cross-training and building the Orchestrator snapshots of a large bot can exceed Express' default timeout
+  (req as any).setTimeout(0);
+
+  try {
+    res.status(200).json(await currentProject.runLuTests(Array.isArray(testIds) ? testIds : undefined));
+  } catch (e) {
+    log('Failed to run LU tests for project %s: %O', projectId, e);
+    res.status(500).json({ message: e.message });
+  }
+}
+
+async function exportLuTestReports(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const { format, reports } = req.body;
+  if (!luTestReportFormats.includes(format) || !Array.isArray(reports)) {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "format" (json or csv) and "reports" parameters',
+    });
+    return;
+  }
+
+  const user = await ExtensionContext.getUserFromRequest(req);
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    res.attachment(`${currentProject.name}_lutests.${format}`);
+    res.type(format === 'csv' ? 'text/csv' : 'application/json').send(createLuTestReport(reports, format));
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+export const LuTestController = {
+  getLuTests,
+  runLuTests,
+  exportLuTestReports,
+};
@@ -5,6 +5,8 @@ import { Request, Response } from 'express';
 import { Archiver } from 'archiver';
 import { remove } from 'fs-extra';
 import set from 'lodash/set';
+import { PseudoLocale } from '@bfc/shared';
+import { diagnosticReportFormats, toJUnit, toSarif } from '@bfc/indexers';
 
 import { ExtensionContext } from '../models/extension/extensionContext';
 import log from '../logger';
@@ -13,11 +15,16 @@ import AssetService from '../services/asset';
 import { LocationRef } from '../models/bot/interface';
 import { getSkillManifest } from '../models/bot/skillManager';
 import { getFeedUrl } from '../models/bot/feedManager';
+import { FileConflictError, getFileETag } from '../models/bot/fileConflict';
+import { exportXliff, importXliff } from '../models/bot/xliff';
+import { replaceInFiles, searchFiles } from '../models/bot/projectSearch';
 import StorageService from '../services/storage';
 import settings from '../settings';
 import { getLocationRef, getNewProjRef } from '../utility/project';
 import { BackgroundProcessManager } from '../services/backgroundProcessManager';
 import { TelemetryService } from '../services/telemetry';
+import { FileWatcherService } from '../services/fileWatcher';
+import { WebSocketServer } from '../directline/utils/webSocketServer';
 
 import { Path } from './../utility/path';
 
@@ -307,8 +314,17 @@ async function updateFile(req: Request, res: Response) {
   const user = await ExtensionContext.getUserFromRequest(req);
   const currentProject = await BotProjectService.getProjectById(projectId, user);
   if (currentProject !== undefined) {
-    const lastModified = await currentProject.updateFile(req.body.name, req.body.content);
-    res.status(200).json({ lastModified: lastModified });
+    const { name, content, eTag } = req.body;
+    try {
+      const lastModified = await currentProject.updateFile(name, content, eTag);
+      res.status(200).json({ lastModified: lastModified, eTag: getFileETag(content) });
+    } catch (err) {
+      if (err instanceof FileConflictError) {
+        res.status(409).json({ message: err.message, name: err.fileName, content: err.content, eTag: err.eTag });
+        return;
+      }
+      throw err;
+    }
   } else {
     res.status(404).json({
       message: 'No such bot project opened',
@@ -326,7 +342,7 @@ async function createFile(req: Request, res: Response) {
 
     //dir = id
     const file = await currentProject.createFile(name, content);
-    res.status(200).json(file);
+    res.status(200).json({ ...file, eTag: getFileETag(file.content) });
   } else {
     res.status(404).json({
       message: 'No such bot project opened',
@@ -347,6 +363,25 @@ async function removeFile(req: Request, res: Response) {
   }
 }
 
+// the changes made to the bot files by other editors are sent over the web socket returned here
+async function watchFiles(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const user = await ExtensionContext.getUserFromRequest(req);
+
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    const port = WebSocketServer.port || (await WebSocketServer.init());
+    FileWatcherService.watch(projectId, currentProject.dir, currentProject.fileStorage, (changes) =>
+      WebSocketServer.sendFileChangesToSubscribers(projectId, changes)
+    );
+    res.status(200).json({ port, path: `/ws/files/${projectId}` });
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
 async function getSkill(req: Request, res: Response) {
   const projectId = req.params.projectId;
   const user = await ExtensionContext.getUserFromRequest(req);
@@ -382,6 +417,197 @@ async function exportProject(req: Request, res: Response) {
   });
 }
 
+async function exportDiagnostics(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const { format, diagnostics } = req.body;
+  if (!diagnosticReportFormats.includes(format) || !Array.isArray(diagnostics)) {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "format" (sarif or junit) and "diagnostics" parameters',
+    });
+    return;
+  }
+
+  const user = await ExtensionContext.getUserFromRequest(req);
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    const { files } = currentProject.getProject();
+    if (format === 'sarif') {
+      res.attachment(`${currentProject.name}.sarif`);
+      res.type('application/sarif+json').send(JSON.stringify(toSarif(diagnostics, files), null, 2));
+    } else {
+      res.attachment(`${currentProject.name}.xml`);
+      res.type('application/xml').send(toJUnit(diagnostics, files, currentProject.name));
+    }
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+async function exportTranslations(req: Request, res: Response) {
+  const { projectId, locale } = req.params;
+  const user = await ExtensionContext.getUserFromRequest(req);
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    const { defaultLanguage = 'en-us', languages = [] } = currentProject.settings ?? {};
+    if (locale === defaultLanguage || !languages.includes(locale)) {
+      res.status(400).json({
+        message: `${locale} is not a language of the bot to translate into`,
+      });
+      return;
+    }
+    const { files } = currentProject.getProject();
+    res.attachment(`${currentProject.name}.${locale}.xlf`);
+    res.type('application/xliff+xml').send(exportXliff(files, defaultLanguage, locale));
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+async function importTranslations(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const { xliff } = req.body;
+  if (typeof xliff !== 'string') {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "xliff" parameter',
+    });
+    return;
+  }
+
+  const user = await ExtensionContext.getUserFromRequest(req);
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    const { defaultLanguage = 'en-us', languages = [] } = currentProject.settings ?? {};
+    try {
+      const result = importXliff(xliff, currentProject.getProject().files, defaultLanguage);
+      if (!languages.includes(result.report.locale)) {
+        res.status(400).json({
+          message: `${result.report.locale} is not a language of the bot, add it before importing its translations`,
+        });
+        return;
+      }
+      res.status(200).json(result);
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : error,
+      });
+    }
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+async function updatePseudoLocale(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const user = await ExtensionContext.getUserFromRequest(req);
+
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    try {
+      const files = await currentProject.updatePseudoLocaleFiles(!!req.body.enabled);
+      res.status(200).json({ locale: PseudoLocale, files });
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : error,
+      });
+    }
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+async function recognizeUtterance(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const user = await ExtensionContext.getUserFromRequest(req);
+
+  const { utterance, locale } = req.body;
+  if (typeof utterance !== 'string' || !utterance.trim()) {
+    res.status(400).json({
+      message: 'utterance is required',
+    });
+    return;
+  }
+
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    try {
+      res.status(200).json(await currentProject.recognizeUtterance(utterance, locale));
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : error,
+      });
+    }
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+async function searchProject(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const user = await ExtensionContext.getUserFromRequest(req);
+
+  const { replacement, ...query } = req.body;
+  if (typeof query.pattern !== 'string' || !query.pattern) {
+    res.status(400).json({
+      message: 'pattern is required',
+    });
+    return;
+  }
+
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    try {
+      const preview = typeof replacement === 'string' ? replacement : undefined;
+      res.status(200).json(searchFiles(currentProject.getProject().files, query, preview));
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : error,
+      });
+    }
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
+async function replaceInProject(req: Request, res: Response) {
+  const projectId = req.params.projectId;
+  const user = await ExtensionContext.getUserFromRequest(req);
+
+  const { pattern, replacement } = req.body;
+  if (typeof pattern !== 'string' || !pattern || typeof replacement !== 'string') {
+    res.status(400).json({
+      message: 'Parameters not provided, requires "pattern" and "replacement" parameters',
+    });
+    return;
+  }
+
+  const currentProject = await BotProjectService.getProjectById(projectId, user);
+  if (currentProject !== undefined) {
+    try {
+      res.status(200).json(replaceInFiles(currentProject.getProject().files, req.body));
+    } catch (error) {
+      res.status(400).json({
+        message: error instanceof Error ? error.message : error,
+      });
+    }
+  } else {
+    res.status(404).json({
+      message: 'No such bot project opened',
+    });
+  }
+}
+
 async function setQnASettings(req: Request, res: Response) {
   const projectId = req.params.projectId;
   const user = await ExtensionContext.getUserFromRequest(req);
@@ -593,10 +819,18 @@ export const ProjectController = {
   updateFile,
   createFile,
   removeFile,
+  watchFiles,
   getSkill,
   build,
   setQnASettings,
   exportProject,
+  exportDiagnostics,
+  exportTranslations,
+  importTranslations,
+  updatePseudoLocale,
+  recognizeUtterance,
+  searchProject,
+  replaceInProject,
   saveProjectAs,
   createProject,
   createProjectV2,
@@ -199,4 +199,14 @@ describe('Conversation class', () => {
     );
     expect(matchedActivity).toBeDefined();
   });
+
+  it('should return the queued activities since a watermark', () => {
+    conversation.prepActivityToBeSentToUser('user-1', { ...mockUserActivity, text: 'first' });
+    const { watermark } = conversation.getActivitiesSince(0);
+    conversation.prepActivityToBeSentToUser('user-1', { ...mockUserActivity, text: 'second' });
+
+    const result = conversation.getActivitiesSince(watermark);
+    expect(result.activities.map((activity) => activity.text)).toEqual(['second']);
+    expect(result.watermark).toBe(2);
+  });
 });
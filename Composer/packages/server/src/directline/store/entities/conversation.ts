@@ -191,6 +191,16 @@ export class Conversation {
     return activities;
   }
 
+  /**
+   * Returns the queued activities starting at the given watermark, along with the watermark to use for the next read.
+   */
+  public getActivitiesSince(watermark: number): { activities: Activity[]; watermark: number } {
+    const activities = this.activities
+      .filter((bucket) => bucket.watermark >= watermark)
+      .map((bucket) => bucket.activity);
+    return { activities, watermark: this.nextWatermark };
+  }
+
   public updateConversationId(conversationId: string) {
     this.conversationId = conversationId;
   }
@@ -0,0 +1,136 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Activity } from 'botframework-schema';
+import { ConversationTestStepKind } from '@botframework-composer/types';
+
+import {
+  assertReply,
+  assertReplyActivity,
+  assertReplyOneOf,
+  assertTrace,
+  diffDeep,
+  diffPartial,
+  normalizeActivity,
+} from '../assertions';
+
+const reply = {
+  type: 'message',
+  text: 'Hello, what is your name?',
+  attachments: [{ contentType: 'application/vnd.microsoft.card.hero', content: { title: 'Welcome', images: [] } }],
+  suggestedActions: {
+    actions: [
+      { type: 'imBack', title: 'Help', value: 'help' },
+      { type: 'imBack', value: 'cancel' },
+    ],
+  },
+} as Activity;
+
+describe('diffPartial', () => {
+  it('should only compare the expected properties', () => {
+    expect(diffPartial({ a: 1, b: { c: 'x' } }, { a: 1, b: { c: 'x', d: true }, e: [] })).toEqual([]);
+  });
+
+  it('should report the path of mismatched values', () => {
+    expect(diffPartial({ a: [{ b: 1 }] }, { a: [{ b: 2 }] })).toEqual([{ path: 'a[0].b', expected: 1, actual: 2 }]);
+  });
+
+  it('should report arrays with a different length', () => {
+    expect(diffPartial([1, 2], [1])).toEqual([{ path: '', expected: [1, 2], actual: [1] }]);
+  });
+});
+
+describe('assertReply', () => {
+  it('should pass when text, attachments and suggested actions match', () => {
+    const result = assertReply(
+      {
+        $kind: ConversationTestStepKind.AssertReply,
+        text: 'Hello, what is your name?',
+        attachments: [{ contentType: 'application/vnd.microsoft.card.hero', content: { title: 'Welcome' } }],
+        suggestedActions: ['Help', 'cancel'],
+      },
+      reply
+    );
+    expect(result.passed).toBe(true);
+  });
+
+  it('should match partial text when exact is false', () => {
+    const result = assertReply({ $kind: ConversationTestStepKind.AssertReply, text: 'your NAME', exact: false }, reply);
+    expect(result.passed).toBe(true);
+  });
+
+  it('should report a diff for every mismatch', () => {
+    const result = assertReply(
+      {
+        $kind: ConversationTestStepKind.AssertReply,
+        text: 'Hi',
+        attachments: [{ contentType: 'application/vnd.microsoft.card.adaptive' }],
+        suggestedActions: ['Help'],
+      },
+      reply
+    );
+    expect(result.passed).toBe(false);
+    expect(result.diffs.map(({ path }) => path)).toEqual(['text', 'attachments[0].contentType', 'suggestedActions']);
+  });
+});
+
+describe('assertReplyOneOf', () => {
+  it('should pass when any of the texts matches', () => {
+    const step = {
+      $kind: ConversationTestStepKind.AssertReplyOneOf as const,
+      text: ['Hi', 'Hello, what is your name?'],
+    };
+    expect(assertReplyOneOf(step, reply).passed).toBe(true);
+    expect(assertReplyOneOf({ ...step, text: ['Hi'] }, reply).passed).toBe(false);
+  });
+});
+
+describe('assertTrace', () => {
+  it('should compare the trace name and value', () => {
+    const trace = {
+      type: 'trace',
+      name: 'LuisRecognizer',
+      value: { intents: { Greeting: { score: 0.9 } } },
+    } as Activity;
+    const step = {
+      $kind: ConversationTestStepKind.AssertTrace as const,
+      name: 'LuisRecognizer',
+      value: { intents: { Greeting: { score: 0.9 } } },
+    };
+    expect(assertTrace(step, trace).passed).toBe(true);
+    expect(assertTrace({ ...step, name: 'QnAMaker' }, trace).diffs).toEqual([
+      { path: 'name', expected: 'QnAMaker', actual: 'LuisRecognizer' },
+    ]);
+  });
+});
+
+describe('diffDeep', () => {
+  it('should report properties missing on either side', () => {
+    expect(diffDeep({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] })).toEqual([]);
+    expect(diffDeep({ a: 1 }, { a: 1, b: 2 })).toEqual([{ path: 'b', expected: undefined, actual: 2 }]);
+    expect(diffDeep({ a: [1] }, { a: [1, 2] })).toEqual([{ path: 'a', expected: [1], actual: [1, 2] }]);
+  });
+});
+
+describe('assertReplyActivity', () => {
+  it('should ignore ids, timestamps and conversation accounts', () => {
+    const recorded = {
+      ...reply,
+      id: '1',
+      timestamp: new Date('2020-12-01T00:00:00.000Z'),
+      from: { id: 'bot', name: 'Bot', role: 'bot' },
+      conversation: { id: 'a' },
+    } as Activity;
+    const actual = { ...reply, id: '2', timestamp: new Date(), conversation: { id: 'b' } } as Activity;
+    const step = {
+      $kind: ConversationTestStepKind.AssertReplyActivity as const,
+      activity: normalizeActivity(recorded),
+    };
+
+    expect(normalizeActivity(recorded)).not.toHaveProperty('conversation');
+    expect(assertReplyActivity(step, actual).passed).toBe(true);
+    expect(assertReplyActivity(step, { ...actual, text: 'Hi' }).diffs).toEqual([
+      { path: 'text', expected: reply.text, actual: 'Hi' },
+    ]);
+  });
+});
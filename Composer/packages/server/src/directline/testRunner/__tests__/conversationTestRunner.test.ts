@@ -0,0 +1,129 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Activity } from 'botframework-schema';
+import { ConversationTestScript, ConversationTestStepKind } from '@botframework-composer/types';
+
+import DLServerContext from '../../store/dlServerState';
+import { ConversationTestRunner } from '../conversationTestRunner';
+import { transcriptToTestScript } from '../transcript';
+
+const mockBotReplies: Record<string, Partial<Activity>[]> = {
+  hi: [{ type: 'typing' }, { type: 'trace', name: 'Recognizer', value: { intent: 'Greeting' } }, { text: 'Hello!' }],
+  help: [
+    {
+      text: 'I can help you.',
+      suggestedActions: { to: [], actions: [{ type: 'imBack', title: 'Order', value: 'order' }] },
+    },
+  ],
+};
+
+const mockPostResponse = jest.fn();
+
+jest.mock('axios', () => ({
+  post: (...args) => mockPostResponse(...args),
+}));
+
+describe('ConversationTestRunner', () => {
+  const state = DLServerContext.getInstance(3000).state;
+  let runner: ConversationTestRunner;
+
+  beforeEach(() => {
+    mockPostResponse.mockImplementation(async (url: string, activity: Activity) => {
+      const conversation = state.conversations.conversationById(activity.conversation.id);
+      // reply asynchronously the same way a bot posts back to the Direct Line server
+      setTimeout(() => {
+        (mockBotReplies[activity.text ?? ''] ?? []).forEach((reply) => {
+          conversation.prepActivityToBeSentToUser(conversation.user.id, {
+            type: 'message',
+            from: { id: 'bot', name: 'Bot' },
+            ...reply,
+          } as Activity);
+        });
+      }, 10);
+      return { status: 200 };
+    });
+    runner = new ConversationTestRunner(state, { botUrl: 'http://localhost:3979/api/messages', timeout: 200 });
+  });
+
+  it('should pass when the bot replies match the script', async () => {
+    const script: ConversationTestScript = {
+      script: [
+        { $kind: ConversationTestStepKind.UserSays, text: 'hi' },
+        { $kind: ConversationTestStepKind.AssertReply, text: 'Hello!' },
+        { $kind: ConversationTestStepKind.AssertTrace, name: 'Recognizer', value: { intent: 'Greeting' } },
+        { $kind: ConversationTestStepKind.UserSays, text: 'help' },
+        { $kind: ConversationTestStepKind.AssertReply, text: 'help', exact: false, suggestedActions: ['Order'] },
+        { $kind: ConversationTestStepKind.AssertNoActivity, timeout: 50 },
+      ],
+    };
+
+    const result = await runner.run('greeting.dialogtest', script);
+
+    expect(result.status).toBe('passed');
+    expect(result.steps).toHaveLength(6);
+  });
+
+  it('should stop at the first failed assertion and report the diff', async () => {
+    const script: ConversationTestScript = {
+      script: [
+        { $kind: ConversationTestStepKind.UserSays, text: 'hi' },
+        { $kind: ConversationTestStepKind.AssertReply, text: 'Goodbye!' },
+        { $kind: ConversationTestStepKind.UserSays, text: 'help' },
+      ],
+    };
+
+    const result = await runner.run('greeting.dialogtest', script);
+
+    expect(result.status).toBe('failed');
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[1].diffs).toEqual([{ path: 'text', expected: 'Goodbye!', actual: 'Hello!' }]);
+  });
+
+  it('should fail when the bot does not reply in time', async () => {
+    const result = await runner.run('silent.dialogtest', {
+      script: [
+        { $kind: ConversationTestStepKind.UserSays, text: 'anything' },
+        { $kind: ConversationTestStepKind.AssertReply, text: 'Hello!' },
+      ],
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.steps[1].message).toContain('200ms');
+  });
+
+  it('should replay a recorded transcript', async () => {
+    const transcript = [
+      { type: 'message', text: 'hi', locale: 'en-us', from: { id: 'user', role: 'user' }, recipient: { role: 'bot' } },
+      { type: 'typing', recipient: { id: 'user', role: 'user' } },
+      {
+        type: 'trace',
+        name: 'Recognizer',
+        value: { intent: 'Greeting' },
+        locale: 'en-us',
+        from: { id: 'bot', name: 'Bot' },
+        recipient: { id: 'user', role: 'user' },
+      },
+      {
+        type: 'message',
+        text: 'Hello!',
+        locale: 'en-us',
+        from: { id: 'bot', name: 'Bot' },
+        recipient: { id: 'user', role: 'user' },
+      },
+    ] as Activity[];
+
+    const passed = await runner.run('greeting.transcript', transcriptToTestScript(transcript));
+    transcript[3].text = 'Goodbye!';
+    const failed = await runner.run('greeting.transcript', transcriptToTestScript(transcript));
+
+    expect(passed.status).toBe('passed');
+    expect(failed.status).toBe('failed');
+    expect(failed.steps[2].diffs).toEqual([{ path: 'text', expected: 'Goodbye!', actual: 'Hello!' }]);
+  });
+
+  it('should remove the conversation once the test completes', async () => {
+    await runner.run('empty.dialogtest', { script: [] });
+    expect(state.conversations.getConversations()).toHaveLength(0);
+  });
+});
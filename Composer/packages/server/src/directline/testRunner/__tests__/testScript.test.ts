@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { parseConversationTest } from '../testScript';
+
+describe('parseConversationTest', () => {
+  it('should parse a valid test script', () => {
+    const script = parseConversationTest(
+      JSON.stringify({
+        $kind: 'Microsoft.Test.Script',
+        description: 'Greets the user',
+        script: [
+          { $kind: 'Microsoft.Test.UserSays', text: 'hi' },
+          { $kind: 'Microsoft.Test.AssertReply', text: 'Hello!' },
+        ],
+      })
+    );
+    expect(script.description).toBe('Greets the user');
+    expect(script.script).toHaveLength(2);
+  });
+
+  it('should reject invalid content', () => {
+    expect(() => parseConversationTest('{')).toThrow('Invalid JSON');
+    expect(() => parseConversationTest('{}')).toThrow('"script" array');
+  });
+
+  it('should reject unsupported or incomplete steps', () => {
+    expect(() => parseConversationTest(JSON.stringify({ script: [{ $kind: 'Microsoft.SendActivity' }] }))).toThrow(
+      'unsupported $kind'
+    );
+    expect(() => parseConversationTest(JSON.stringify({ script: [{ $kind: 'Microsoft.Test.UserSays' }] }))).toThrow(
+      'missing the text'
+    );
+  });
+});
@@ -0,0 +1,51 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Activity } from 'botframework-schema';
+import { ConversationTestStepKind } from '@botframework-composer/types';
+
+import { parseTranscript, transcriptToTestScript } from '../transcript';
+
+const transcript = [
+  {
+    type: 'conversationUpdate',
+    membersAdded: [{ id: '1', name: 'User' }],
+    recipient: { id: 'bot', role: 'bot' },
+  },
+  {
+    type: 'message',
+    id: 'a',
+    text: 'Welcome!',
+    locale: 'en-us',
+    from: { id: 'bot', name: 'Bot' },
+    recipient: { id: '1', role: 'user' },
+  },
+  { type: 'message', id: 'b', text: 'hi', from: { id: '1', role: 'user' }, recipient: { id: 'bot', role: 'bot' } },
+  { type: 'typing', recipient: { id: '1', role: 'user' } },
+  { type: 'message', id: 'c', text: 'Hello!', from: { id: 'bot', name: 'Bot' }, recipient: { id: '1', role: 'user' } },
+] as Activity[];
+
+describe('transcriptToTestScript', () => {
+  it('should replay user activities and assert the recorded bot replies', () => {
+    const script = transcriptToTestScript(transcript, 'greeting.transcript');
+
+    expect(script.description).toBe('greeting.transcript');
+    expect(script.locale).toBe('en-us');
+    expect(script.script).toEqual([
+      { $kind: ConversationTestStepKind.UserConversationUpdate, membersAdded: ['User'], membersRemoved: undefined },
+      {
+        $kind: ConversationTestStepKind.AssertReplyActivity,
+        activity: { type: 'message', text: 'Welcome!', locale: 'en-us' },
+      },
+      { $kind: ConversationTestStepKind.UserActivity, activity: { type: 'message', text: 'hi' } },
+      { $kind: ConversationTestStepKind.AssertReplyActivity, activity: { type: 'message', text: 'Hello!' } },
+      { $kind: ConversationTestStepKind.AssertNoActivity, timeout: 1000 },
+    ]);
+  });
+
+  it('should reject transcripts without user activities', () => {
+    expect(() => transcriptToTestScript([transcript[1]])).toThrow('does not contain any user activity');
+    expect(() => parseTranscript('{')).toThrow('Invalid JSON');
+    expect(() => parseTranscript('{}')).toThrow('must be an array');
+  });
+});
@@ -0,0 +1,181 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Activity } from 'botframework-schema';
+import formatMessage from 'format-message';
+import isEqual from 'lodash/isEqual';
+import {
+  ConversationTestAssertReply,
+  ConversationTestAssertReplyActivity,
+  ConversationTestAssertReplyOneOf,
+  ConversationTestAssertTrace,
+  ConversationTestDiff,
+} from '@botframework-composer/types';
+
+export type AssertionOutcome = {
+  passed: boolean;
+  message?: string;
+  diffs: ConversationTestDiff[];
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (base: string, key: string | number) => {
+  if (typeof key === 'number') {
+    return `${base}[${key}]`;
+  }
+  return base ? `${base}.${key}` : key;
+};
+
+/**
+ * Compares an expected value against an actual one where only the properties present in
+ * the expectation are checked. Arrays must match in length, their items are compared the same way.
+ */
+export const diffPartial = (expected: unknown, actual: unknown, path = ''): ConversationTestDiff[] => {
+  if (isObject(expected)) {
+    if (!isObject(actual)) {
+      return [{ path, expected, actual }];
+    }
+    return Object.keys(expected).reduce((diffs: ConversationTestDiff[], key) => {
+      return diffs.concat(diffPartial(expected[key], actual[key], joinPath(path, key)));
+    }, []);
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return [{ path, expected, actual }];
+    }
+    return expected.reduce((diffs: ConversationTestDiff[], item, index) => {
+      return diffs.concat(diffPartial(item, actual[index], joinPath(path, index)));
+    }, []);
+  }
+
+  return expected === actual ? [] : [{ path, expected, actual }];
+};
+
+/**
+ * Compares two values in both directions, properties missing on either side are reported.
+ */
+export const diffDeep = (expected: unknown, actual: unknown, path = ''): ConversationTestDiff[] => {
+  if (isObject(expected) && isObject(actual)) {
+    const keys = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]));
+    return keys.reduce((diffs: ConversationTestDiff[], key) => {
+      return diffs.concat(diffDeep(expected[key], actual[key], joinPath(path, key)));
+    }, []);
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual) && expected.length === actual.length) {
+    return expected.reduce((diffs: ConversationTestDiff[], item, index) => {
+      return diffs.concat(diffDeep(item, actual[index], joinPath(path, index)));
+    }, []);
+  }
+
+  return isEqual(expected, actual) ? [] : [{ path, expected, actual }];
+};
+
+// properties that change every time a conversation is replayed
+const volatileActivityProperties = [
+  'id',
+  'timestamp',
+  'localTimestamp',
+  'localTimezone',
+  'replyToId',
+  'conversation',
+  'from',
+  'recipient',
+  'serviceUrl',
+  'channelId',
+];
+
+const stripVolatileProperties = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(stripVolatileProperties);
+  }
+  if (isObject(value)) {
+    return Object.keys(value)
+      .filter((key) => !volatileActivityProperties.includes(key) && value[key] !== undefined)
+      .reduce((result, key) => {
+        result[key] = stripVolatileProperties(value[key]);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+/**
+ * Removes ids, timestamps and conversation accounts from an activity, including the activities
+ * nested in trace values, so that activities from different conversations can be compared.
+ */
+export const normalizeActivity = (activity: Partial<Activity>): Partial<Activity> => {
+  return stripVolatileProperties(activity) as Partial<Activity>;
+};
+
+const textMatches = (expected: string, actual: string | undefined, exact = true) => {
+  if (actual === undefined) {
+    return false;
+  }
+  return exact ? actual === expected : actual.toLowerCase().includes(expected.toLowerCase());
+};
+
+const outcome = (diffs: ConversationTestDiff[], message: string): AssertionOutcome => {
+  return diffs.length ? { passed: false, message, diffs } : { passed: true, diffs };
+};
+
+export const getSuggestedActionLabels = (activity: Activity): string[] | undefined => {
+  return activity.suggestedActions?.actions?.map((action) => action.title ?? String(action.value));
+};
+
+export const assertReply = (step: ConversationTestAssertReply, activity: Activity): AssertionOutcome => {
+  const diffs: ConversationTestDiff[] = [];
+
+  if (step.text !== undefined && !textMatches(step.text, activity.text, step.exact)) {
+    diffs.push({ path: 'text', expected: step.text, actual: activity.text });
+  }
+
+  if (step.attachments) {
+    const actualAttachments = activity.attachments ?? [];
+    if (actualAttachments.length !== step.attachments.length) {
+      diffs.push({
+        path: 'attachments.length',
+        expected: step.attachments.length,
+        actual: actualAttachments.length,
+      });
+    } else {
+      step.attachments.forEach((attachment, index) => {
+        diffs.push(...diffPartial(attachment, actualAttachments[index], joinPath('attachments', index)));
+      });
+    }
+  }
+
+  if (step.suggestedActions) {
+    diffs.push(...diffPartial(step.suggestedActions, getSuggestedActionLabels(activity) ?? [], 'suggestedActions'));
+  }
+
+  return outcome(diffs, formatMessage('The reply does not match the expected activity.'));
+};
+
+export const assertReplyOneOf = (step: ConversationTestAssertReplyOneOf, activity: Activity): AssertionOutcome => {
+  const matches = step.text.some((text) => textMatches(text, activity.text, step.exact));
+  const diffs = matches ? [] : [{ path: 'text', expected: step.text, actual: activity.text }];
+  return outcome(diffs, formatMessage('The reply does not match any of the expected texts.'));
+};
+
+export const assertReplyActivity = (
+  step: ConversationTestAssertReplyActivity,
+  activity: Activity
+): AssertionOutcome => {
+  const diffs = diffDeep(normalizeActivity(step.activity), normalizeActivity(activity));
+  return outcome(diffs, formatMessage('The reply does not match the recorded activity.'));
+};
+
+export const assertTrace = (step: ConversationTestAssertTrace, activity: Activity): AssertionOutcome => {
+  const { name, label, valueType, value } = step;
+  const expected = { name, label, valueType, value };
+  const diffs = Object.keys(expected)
+    .filter((key) => expected[key] !== undefined)
+    .reduce((diffs: ConversationTestDiff[], key) => {
+      return diffs.concat(diffPartial(expected[key], activity[key], key));
+    }, []);
+  return outcome(diffs, formatMessage('The trace activity does not match the expected trace.'));
+};
@@ -0,0 +1,247 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Activity, ActivityTypes } from 'botframework-schema';
+import formatMessage from 'format-message';
+import {
+  ConversationTestResult,
+  ConversationTestScript,
+  ConversationTestStep,
+  ConversationTestStepKind,
+  ConversationTestStepResult,
+} from '@botframework-composer/types';
+
+import { DLServerState } from '../store/dlServerState';
+import { BotEndpoint } from '../store/entities/botEndpoint';
+import { Conversation } from '../store/entities/conversation';
+import { generateUniqueId } from '../utils/helpers';
+import { WebSocketServer } from '../utils/webSocketServer';
+import logger from '../utils/logger';
+
+import { AssertionOutcome, assertReply, assertReplyActivity, assertReplyOneOf, assertTrace } from './assertions';
+
+const DEFAULT_TIMEOUT = 3000;
+const POLLING_INTERVAL = 50;
+
+export type ConversationTestRunnerOptions = {
+  botUrl: string;
+  msaAppId?: string;
+  msaPassword?: string;
+  locale?: string;
+  /** Milliseconds to wait for a reply when an assertion does not specify a timeout. */
+  timeout?: number;
+};
+
+type ReplyFilter = (activity: Activity) => boolean;
+
+// typing indicators and traces are never matched by the message assertions
+const isMessageReply: ReplyFilter = (activity) =>
+  activity.type !== ActivityTypes.Trace && activity.type !== ActivityTypes.Typing;
+
+const isTraceReply: ReplyFilter = (activity) => activity.type === ActivityTypes.Trace;
+
+const isAnyReply: ReplyFilter = (activity) => activity.type !== ActivityTypes.Typing;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Collects the activities the bot sends to the user so they can be consumed by assertions in order.
+ */
+class ReplySession {
+  private watermark = 0;
+  private replies: Activity[] = [];
+
+  constructor(private conversation: Conversation) {}
+
+  private pull() {
+    const { activities, watermark } = this.conversation.getActivitiesSince(this.watermark);
+    this.watermark = watermark;
+    // the queue also holds the activities sent by the user
+    this.replies.push(...activities.filter((activity) => activity.recipient?.role === 'user'));
+  }
+
+  private take(filter: ReplyFilter): Activity | undefined {
+    const index = this.replies.findIndex(filter);
+    if (index === -1) {
+      return undefined;
+    }
+    const [activity] = this.replies.splice(index, 1);
+    return activity;
+  }
+
+  public async waitForReply(filter: ReplyFilter, timeout: number): Promise<Activity | undefined> {
+    const deadline = Date.now() + timeout;
+    do {
+      this.pull();
+      const activity = this.take(filter);
+      if (activity) {
+        return activity;
+      }
+      await delay(POLLING_INTERVAL);
+    } while (Date.now() < deadline);
+    return undefined;
+  }
+}
+
+/**
+ * Drives a scripted conversation against a running bot through the Direct Line server and
+ * evaluates the bot replies against the assertions of the script.
+ */
+export class ConversationTestRunner {
+  private state: DLServerState;
+  private options: ConversationTestRunnerOptions;
+
+  constructor(state: DLServerState, options: ConversationTestRunnerOptions) {
+    this.state = state;
+    this.options = options;
+  }
+
+  public async run(id: string, testScript: ConversationTestScript): Promise<ConversationTestResult> {
+    const startTime = Date.now();
+    const steps: ConversationTestStepResult[] = [];
+    const conversation = this.startConversation(testScript.locale);
+    const session = new ReplySession(conversation);
+
+    try {
+      for (let index = 0; index < testScript.script.length; index++) {
+        const step = testScript.script[index];
+        const result = await this.runStep(conversation, session, step, index);
+        steps.push(result);
+        if (!result.passed) {
+          break;
+        }
+      }
+
+      return {
+        id,
+        description: testScript.description,
+        status: steps.every((step) => step.passed) ? 'passed' : 'failed',
+        steps,
+        duration: Date.now() - startTime,
+      };
+    } catch (err) {
+      logger('Conversation test %s errored: %O', id, err);
+      return {
+        id,
+        description: testScript.description,
+        status: 'error',
+        steps,
+        duration: Date.now() - startTime,
+        error: err?.message ?? formatMessage('An error occurred running the conversation test.'),
+      };
+    } finally {
+      this.endConversation(conversation);
+    }
+  }
+
+  private startConversation(locale?: string): Conversation {
+    const { botUrl, msaAppId, msaPassword } = this.options;
+    const { conversations, endpoints } = this.state;
+
+    let endpoint = endpoints.get(botUrl);
+    if (!endpoint) {
+      const botId = generateUniqueId();
+      endpoint = endpoints.set(botId, new BotEndpoint(botId, botId, botUrl, msaAppId, msaPassword));
+    } else {
+      endpoint.msaAppId = msaAppId;
+      endpoint.msaPassword = msaPassword;
+    }
+
+    const user = { id: generateUniqueId(), name: 'User' };
+    return conversations.newConversation(endpoint, user, 'livechat', locale ?? this.options.locale);
+  }
+
+  private endConversation(conversation: Conversation) {
+    this.state.conversations.deleteConversation(conversation.conversationId);
+    WebSocketServer.cleanUpConversation(conversation.conversationId);
+  }
+
+  private async runStep(
+    conversation: Conversation,
+    session: ReplySession,
+    step: ConversationTestStep,
+    index: number
+  ): Promise<ConversationTestStepResult> {
+    switch (step.$kind) {
+      case ConversationTestStepKind.UserSays:
+        await this.sendToBot(conversation, { type: ActivityTypes.Message, text: step.text });
+        return { index, step, passed: true, diffs: [] };
+
+      case ConversationTestStepKind.UserActivity:
+        await this.sendToBot(conversation, step.activity);
+        return { index, step, passed: true, diffs: [] };
+
+      case ConversationTestStepKind.UserConversationUpdate: {
+        const toMembers = (names: string[] = []) =>
+          names.map((name) => (name === 'User' ? conversation.user : { id: name, name }));
+        await this.sendToBot(conversation, {
+          type: ActivityTypes.ConversationUpdate,
+          membersAdded: toMembers(step.membersAdded ?? [conversation.user.name]),
+          membersRemoved: toMembers(step.membersRemoved),
+        });
+        return { index, step, passed: true, diffs: [] };
+      }
+
+      case ConversationTestStepKind.AssertReply:
+        return this.assertNextReply(session, step, index, isMessageReply, (activity) => assertReply(step, activity));
+
+      case ConversationTestStepKind.AssertReplyOneOf:
+        return this.assertNextReply(session, step, index, isMessageReply, (activity) =>
+          assertReplyOneOf(step, activity)
+        );
+
+      case ConversationTestStepKind.AssertReplyActivity:
+        return this.assertNextReply(session, step, index, isAnyReply, (activity) =>
+          assertReplyActivity(step, activity)
+        );
+
+      case ConversationTestStepKind.AssertTrace:
+        return this.assertNextReply(session, step, index, isTraceReply, (activity) => assertTrace(step, activity));
+
+      case ConversationTestStepKind.AssertNoActivity: {
+        const activity = await session.waitForReply(isMessageReply, this.getTimeout(step.timeout));
+        if (activity) {
+          return {
+            index,
+            step,
+            passed: false,
+            message: formatMessage('The bot sent an unexpected activity.'),
+            diffs: [],
+            activity,
+          };
+        }
+        return { index, step, passed: true, diffs: [] };
+      }
+    }
+  }
+
+  private async assertNextReply(
+    session: ReplySession,
+    step: ConversationTestStep & { timeout?: number },
+    index: number,
+    filter: ReplyFilter,
+    assertion: (activity: Activity) => AssertionOutcome
+  ): Promise<ConversationTestStepResult> {
+    const timeout = this.getTimeout(step.timeout);
+    const activity = await session.waitForReply(filter, timeout);
+    if (!activity) {
+      return {
+        index,
+        step,
+        passed: false,
+        message: formatMessage('No reply was received from the bot within {timeout}ms.', { timeout }),
+        diffs: [],
+      };
+    }
+
+    return { index, step, activity, ...assertion(activity) };
+  }
+
+  private async sendToBot(conversation: Conversation, activity: Partial<Activity>) {
+    await conversation.postActivityToBot(this.state, activity as Activity);
+  }
+
+  private getTimeout(timeout?: number) {
+    return timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT;
+  }
+}
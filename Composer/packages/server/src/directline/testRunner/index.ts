@@ -0,0 +1,7 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export * from './assertions';
+export * from './conversationTestRunner';
+export * from './testScript';
+export * from './transcript';
@@ -0,0 +1,106 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import formatMessage from 'format-message';
+import {
+  ConversationTestFile,
+  ConversationTestScript,
+  ConversationTestStep,
+  ConversationTestStepKind,
+} from '@botframework-composer/types';
+
+import { IFileStorage } from '../../models/storage/interface';
+import { Path } from '../../utility/path';
+
+import { parseTranscript, TranscriptFileExtension } from './transcript';
+
+export const ConversationTestFileExtension = '.dialogtest';
+
+const conversationTestPatterns = [
+  `**/*${ConversationTestFileExtension}`,
+  `**/*${TranscriptFileExtension}`,
+  '!(generated/**)',
+  '!(runtime/**)',
+  '!(bin/**)',
+  '!(obj/**)',
+  '!(**/node_modules/**)',
+];
+
+const supportedKinds = Object.values(ConversationTestStepKind) as string[];
+
+const validateStep = (step: ConversationTestStep, index: number) => {
+  if (!step || !supportedKinds.includes(step.$kind)) {
+    throw new Error(formatMessage('Step {index} has an unsupported $kind "{kind}".', { index, kind: step?.$kind }));
+  }
+
+  switch (step.$kind) {
+    case ConversationTestStepKind.UserSays:
+      if (typeof step.text !== 'string') {
+        throw new Error(formatMessage('Step {index} is missing the text to send.', { index }));
+      }
+      break;
+    case ConversationTestStepKind.UserActivity:
+      if (!step.activity?.type) {
+        throw new Error(formatMessage('Step {index} is missing the activity type.', { index }));
+      }
+      break;
+    case ConversationTestStepKind.AssertReplyActivity:
+      if (!step.activity?.type) {
+        throw new Error(formatMessage('Step {index} is missing the expected activity type.', { index }));
+      }
+      break;
+    case ConversationTestStepKind.AssertReplyOneOf:
+      if (!Array.isArray(step.text) || !step.text.length) {
+        throw new Error(formatMessage('Step {index} needs at least one expected text.', { index }));
+      }
+      break;
+  }
+};
+
+/**
+ * Parses and validates the content of a .dialogtest file.
+ */
+export const parseConversationTest = (content: string): ConversationTestScript => {
+  let script: ConversationTestScript;
+  try {
+    script = JSON.parse(content);
+  } catch (err) {
+    throw new Error(formatMessage('Invalid JSON: {message}', { message: err.message }));
+  }
+
+  if (!script || !Array.isArray(script.script)) {
+    throw new Error(formatMessage('A conversation test requires a "script" array.'));
+  }
+  script.script.forEach(validateStep);
+  return script;
+};
+
+export type LoadedConversationTest = ConversationTestFile & {
+  script?: ConversationTestScript;
+};
+
+/**
+ * Loads every .dialogtest and .transcript file in the project folder. Files that cannot be parsed
+ * are returned with an error so they can be reported instead of silently skipped.
+ */
+export const loadConversationTests = async (
+  fileStorage: IFileStorage,
+  projectDir: string
+): Promise<LoadedConversationTest[]> => {
+  const paths = await fileStorage.glob(conversationTestPatterns, projectDir);
+
+  const tests: LoadedConversationTest[] = [];
+  for (const relativePath of paths.sort()) {
+    const id = relativePath.replace(/\\/g, '/');
+    const source = Path.extname(id) === TranscriptFileExtension ? 'transcript' : 'dialogtest';
+    try {
+      const content = await fileStorage.readFile(Path.join(projectDir, relativePath));
+      const script =
+        source === 'transcript' ? parseTranscript(content, Path.basename(id)) : parseConversationTest(content);
+      tests.push({ id, source, description: script.description, stepCount: script.script.length, script });
+    } catch (err) {
+      tests.push({ id, source, stepCount: 0, error: err.message });
+    }
+  }
+  return tests;
+};
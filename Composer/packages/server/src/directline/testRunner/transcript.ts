@@ -0,0 +1,85 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Activity, ActivityTypes } from 'botframework-schema';
+import formatMessage from 'format-message';
+import { ConversationTestScript, ConversationTestStep, ConversationTestStepKind } from '@botframework-composer/types';
+
+import { normalizeActivity } from './assertions';
+
+export const TranscriptFileExtension = '.transcript';
+
+// time to wait for unexpected replies after the last recorded bot activity
+const TRAILING_ACTIVITY_TIMEOUT = 1000;
+
+// properties of a recorded user activity that are sent again when replaying it
+const replayedUserActivityProperties = ['type', 'text', 'speak', 'value', 'name', 'attachments', 'channelData'];
+
+const isUserActivity = (activity: Activity) => activity.recipient?.role === 'bot' || activity.from?.role === 'user';
+
+const isBotActivity = (activity: Activity) => activity.recipient?.role === 'user' || activity.from?.role === 'bot';
+
+const toUserStep = (activity: Activity): ConversationTestStep => {
+  if (activity.type === ActivityTypes.ConversationUpdate) {
+    // members are re-created for the replayed conversation, only their names are kept
+    return {
+      $kind: ConversationTestStepKind.UserConversationUpdate,
+      membersAdded: activity.membersAdded?.map(({ name }) => name),
+      membersRemoved: activity.membersRemoved?.map(({ name }) => name),
+    };
+  }
+
+  const replayedActivity = replayedUserActivityProperties
+    .filter((key) => activity[key] !== undefined)
+    .reduce((result, key) => ({ ...result, [key]: activity[key] }), {});
+  return { $kind: ConversationTestStepKind.UserActivity, activity: replayedActivity };
+};
+
+/**
+ * Converts a transcript saved from Web Chat into a test script. Every recorded user activity is sent
+ * again and every recorded bot activity, apart from typing indicators, becomes an assertion that the
+ * bot replies with the same activity.
+ */
+export const transcriptToTestScript = (transcript: Activity[], description?: string): ConversationTestScript => {
+  if (!Array.isArray(transcript)) {
+    throw new Error(formatMessage('A transcript must be an array of activities.'));
+  }
+
+  const script: ConversationTestStep[] = [];
+  for (const activity of transcript) {
+    if (activity.type === ActivityTypes.Typing) {
+      continue;
+    }
+
+    if (isUserActivity(activity)) {
+      script.push(toUserStep(activity));
+    } else if (isBotActivity(activity)) {
+      script.push({ $kind: ConversationTestStepKind.AssertReplyActivity, activity: normalizeActivity(activity) });
+    }
+  }
+
+  if (!script.some((step) => step.$kind !== ConversationTestStepKind.AssertReplyActivity)) {
+    throw new Error(formatMessage('The transcript does not contain any user activity to replay.'));
+  }
+
+  script.push({ $kind: ConversationTestStepKind.AssertNoActivity, timeout: TRAILING_ACTIVITY_TIMEOUT });
+
+  return {
+    description,
+    locale: transcript.find((activity) => activity.locale)?.locale,
+    script,
+  };
+};
+
+/**
+ * Parses the content of a .transcript file.
+ */
+export const parseTranscript = (content: string, description?: string): ConversationTestScript => {
+  let transcript: Activity[];
+  try {
+    transcript = JSON.parse(content);
+  } catch (err) {
+    throw new Error(formatMessage('Invalid JSON: {message}', { message: err.message }));
+  }
+  return transcriptToTestScript(transcript, description);
+};
@@ -2,6 +2,7 @@
 // Licensed under the MIT License.
 
 import { Activity } from 'botframework-schema';
+import { ProjectFileChange } from '@botframework-composer/types';
 
 import { WebSocketServer } from '../webSocketServer';
 
@@ -46,6 +47,7 @@ describe('WebSocketServer', () => {
     (WebSocketServer as any).restServer = undefined;
     (WebSocketServer as any).sockets = {};
     (WebSocketServer as any).servers = {};
+    (WebSocketServer as any).fileChangesServers = {};
   });
 
   it('should return the corresponding socket for a conversation id', () => {
@@ -203,4 +205,44 @@ describe('WebSocketServer', () => {
       })
     );
   });
+
+  it('should upgrade all the file changes connections of a project with one socket server', async () => {
+    let watchFiles;
+    mockUse.mockImplementation((path, callFn) => {
+      if (path === '/ws/files/:projectId') {
+        watchFiles = callFn;
+      }
+    });
+    mockCreateServer.mockImplementationOnce(() => {
+      return {
+        on: jest.fn(),
+        listen: jest.fn(),
+      };
+    });
+    await WebSocketServer.init();
+    mockUse.mockReset();
+
+    const req = {
+      params: { projectId: 'project1' },
+      claimUpgrade: () => ({ head: jest.fn(), socket: jest.fn() }),
+    };
+    watchFiles(req, {});
+    watchFiles(req, {});
+    expect(mockWSServer.handleUpgrade).toHaveBeenCalledTimes(2);
+    expect((WebSocketServer as any).fileChangesServers).toEqual({ project1: mockWSServer });
+  });
+
+  it('should send the file changes to all the clients of a project', () => {
+    const sockets = [{ send: jest.fn() }, { send: jest.fn() }];
+    (WebSocketServer as any).fileChangesServers = {
+      project1: { clients: new Set(sockets) },
+      project2: { clients: new Set() },
+    };
+    const changes: ProjectFileChange[] = [{ type: 'changed', name: 'a.dialog', content: '{}' }];
+
+    expect(WebSocketServer.sendFileChangesToSubscribers('project1', changes)).toBe(true);
+    sockets.forEach((socket) => expect(socket.send).toHaveBeenCalledWith(JSON.stringify(changes)));
+    expect(WebSocketServer.sendFileChangesToSubscribers('project2', changes)).toBe(false);
+    expect(WebSocketServer.sendFileChangesToSubscribers('project3', changes)).toBe(false);
+  });
 });
@@ -11,6 +11,7 @@ import {
   ConversationActivityTraffic,
   ConversationNetworkErrorItem,
   ConversationNetworkTrafficItem,
+  ProjectFileChange,
 } from '@botframework-composer/types';
 
 import log from './logger';
@@ -25,6 +26,7 @@ export class WebSocketServer {
   private static restServer: http.Server;
   private static servers: Record<string, WSServer> = {};
   private static trafficServer: WSServer | null = null;
+  private static fileChangesServers: Record<string, WSServer> = {};
   private static sockets: Record<string, WebSocket> = {};
 
   private static queuedMessages: { [conversationId: string]: Activity[] } = {};
@@ -144,6 +146,35 @@ export class WebSocketServer {
         }
       });
 
+      app.use('/ws/files/:projectId', (req: express.Request, res: express.Response) => {
+        if (!(req as any).claimUpgrade) {
+          return res.status(426).send('Connection must upgrade for web sockets.');
+        }
+        const projectId = req.params.projectId;
+        if (!projectId) return;
+        // one channel per project, the changes of its files are sent to all the clients that opened it
+        let wsServer = this.fileChangesServers[projectId];
+        if (!wsServer) {
+          wsServer = new WSServer({
+            noServer: true,
+          });
+
+          wsServer.on('connection', (socket) => {
+            socket.on('close', () => {
+              if (this.fileChangesServers[projectId]?.clients.size === 0) {
+                delete this.fileChangesServers[projectId];
+              }
+            });
+          });
+          this.fileChangesServers[projectId] = wsServer;
+        }
+
+        const { head, socket } = (req as any).claimUpgrade();
+        wsServer.handleUpgrade(req as any, socket, head, (socket) => {
+          wsServer.emit('connection', socket, req);
+        });
+      });
+
       log(`Web Socket host server listening on ${this.port}...`);
       return this.port;
     }
@@ -155,6 +186,16 @@ export class WebSocketServer {
     this.sockets[socketTrafficChannelKey]?.send(JSON.stringify(data));
   }
 
+  /**
+   * Sends the files changed on disk to the clients of a project, returns false when all of them are gone.
+   */
+  public static sendFileChangesToSubscribers(projectId: string, changes: ProjectFileChange[]): boolean {
+    const sockets: WebSocket[] = Array.from(this.fileChangesServers[projectId]?.clients ?? []);
+    const payload = JSON.stringify(changes);
+    sockets.forEach((socket) => socket.send(payload));
+    return sockets.length > 0;
+  }
+
   public static cleanUpConversation(conversationId: string): void {
     if (this.sockets[conversationId]) {
       this.sockets[conversationId]?.close();
@@ -163,6 +204,8 @@ export class WebSocketServer {
     if (this.servers[conversationId]) {
       this.servers[conversationId]?.close();
     }
+
+    delete this.queuedMessages[conversationId];
   }
 
   public static cleanUpAll(): void {
@@ -174,6 +217,8 @@ export class WebSocketServer {
       this.trafficServer.close();
     }
 
+    Object.values(this.fileChangesServers).forEach((server) => server.close());
+
     if (this.restServer) {
       this.restServer.close();
     }
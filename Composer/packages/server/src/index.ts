@@ -0,0 +1,10 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export { start } from './server';
+
+// the bot projects and the extensions, for the tools which work on bots without the UI, like composer-cli
+export { BotProject } from './models/bot/botProject';
+export { ExtensionManager } from './services/extensionManager';
+export { ExtensionContext } from './models/extension/extensionContext';
+export { authService } from './services/auth/auth';
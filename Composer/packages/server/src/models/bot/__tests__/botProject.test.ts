@@ -9,6 +9,7 @@ import endsWith from 'lodash/endsWith';
 
 import { Path } from '../../../utility/path';
 import { BotProject } from '../botProject';
+import { FileConflictError } from '../fileConflict';
 import { LocationRef } from '../interface';
 
 import { Resource } from './../interface';
@@ -64,6 +65,31 @@ describe('updateDialog', () => {
     expect(aDialog?.content).toEqual(newValue);
     await proj.updateFile('a.dialog', initValue);
   });
+
+  it('should reject an update made on an outdated version of a file', async () => {
+    const initValue = JSON.stringify({ old: 'value' });
+    await proj.updateFile('a.dialog', initValue);
+    const aDialog = proj.getProject().files.find(({ name }) => name === 'a.dialog');
+
+    fs.writeFileSync(aDialog.path, JSON.stringify({ changed: 'outside' }));
+    await expect(proj.updateFile('a.dialog', JSON.stringify({ new: 'value' }), aDialog.eTag)).rejects.toThrow(
+      FileConflictError
+    );
+    expect(proj.getFile('a.dialog')?.content).toEqual(JSON.stringify({ changed: 'outside' }));
+
+    await proj.updateFile('a.dialog', initValue);
+  });
+
+  it('should update a file when its version did not change', async () => {
+    const initValue = JSON.stringify({ old: 'value' });
+    await proj.updateFile('a.dialog', initValue);
+    const { eTag } = proj.getProject().files.find(({ name }) => name === 'a.dialog');
+
+    await proj.updateFile('a.dialog', JSON.stringify({ new: 'value' }), eTag);
+    expect(proj.getFile('a.dialog')?.content).toEqual(JSON.stringify({ new: 'value' }));
+
+    await proj.updateFile('a.dialog', initValue);
+  });
 });
 
 describe('createFromTemplate', () => {
@@ -0,0 +1,72 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import fs from 'fs';
+import os from 'os';
+
+import rimraf from 'rimraf';
+
+import { Path } from '../../../utility/path';
+import { GitRepository } from '../gitRepository';
+
+const author = { name: 'Composer', email: 'composer@example.com' };
+
+describe('GitRepository', () => {
+  let dir: string;
+  let repository: GitRepository;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(Path.join(os.tmpdir(), 'bot-git-'));
+    fs.writeFileSync(Path.join(dir, 'echo.dialog'), '{}');
+    repository = new GitRepository(dir);
+  });
+
+  afterEach(() => {
+    rimraf.sync(dir);
+  });
+
+  it('should only be enabled once initialized', async () => {
+    expect(await repository.status()).toEqual({ enabled: false, branches: [], changes: [] });
+
+    await repository.init();
+    const status = await repository.status();
+
+    expect(status.enabled).toBe(true);
+    expect(status.changes).toEqual([{ path: 'echo.dialog', status: 'untracked' }]);
+  });
+
+  it('should commit changes and list the history', async () => {
+    await repository.init();
+    await repository.commit('Create echo bot', author);
+    fs.writeFileSync(Path.join(dir, 'echo.dialog'), '{ "$kind": "Microsoft.AdaptiveDialog" }');
+
+    const [commit] = await repository.log();
+    expect(commit).toMatchObject({ author: 'Composer', email: 'composer@example.com', message: 'Create echo bot' });
+    expect((await repository.status()).changes).toEqual([{ path: 'echo.dialog', status: 'modified' }]);
+    expect(await repository.diff('echo.dialog')).toContain('+{ "$kind": "Microsoft.AdaptiveDialog" }');
+    expect(await repository.show('echo.dialog')).toBe('{}');
+  });
+
+  it('should not switch branches with uncommitted changes', async () => {
+    await repository.init();
+    await repository.commit('Create echo bot', author);
+    await repository.checkout('feature', true);
+
+    expect((await repository.status()).branch).toBe('feature');
+
+    fs.writeFileSync(Path.join(dir, 'main.dialog'), '{}');
+    await expect(repository.checkout('feature')).rejects.toThrow('Commit the changes');
+  });
+
+  it('should reject revisions and branches read as options', async () => {
+    await repository.init();
+    await repository.commit('Create echo bot', author);
+    const output = Path.join(dir, 'output.txt');
+
+    await expect(repository.diff('.', `--output=${output}`)).rejects.toThrow('Unknown revision');
+    await expect(repository.show('echo.dialog', `--output=${output}`)).rejects.toThrow('Unknown revision');
+    await expect(repository.checkout('--orphan=other')).rejects.toThrow('Unknown revision');
+    await expect(repository.checkout('-x', true)).rejects.toThrow('Invalid branch name');
+    expect(fs.existsSync(output)).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { RecognizerSandboxResult } from '@bfc/shared';
+
+import { LoadedLuTestSet, evaluateLuTestSet, parseLuTestSet, pickRecognition, toLuTestReportCsv } from '../luTestSet';
+
+const testSetFile: LoadedLuTestSet = {
+  id: 'tests/order.en-us.lutest',
+  dialog: 'order',
+  locale: 'en-us',
+  utteranceCount: 4,
+  testSet: {
+    utterances: [
+      { text: 'add a large pizza', intent: 'AddItem', entities: [{ type: 'size', text: 'Large' }] },
+      { text: 'add a coke', intent: 'AddItem' },
+      { text: 'cancel my order', intent: 'Cancel' },
+      { text: 'what is the weather', intent: 'None' },
+    ],
+  },
+};
+
+const recognition = (intent: string, entities: RecognizerSandboxResult['entities'] = []): RecognizerSandboxResult => ({
+  id: 'order.en-us',
+  recognizer: 'regex',
+  intents: [{ intent, score: 1 }],
+  entities,
+});
+
+describe('parseLuTestSet', () => {
+  it('parses the utterances of a test set', () => {
+    expect(parseLuTestSet('{ "utterances": [{ "text": "hi", "intent": "Greeting" }] }')).toEqual({
+      utterances: [{ text: 'hi', intent: 'Greeting' }],
+    });
+  });
+
+  it('rejects invalid test sets', () => {
+    expect(() => parseLuTestSet('{')).toThrow('Invalid JSON');
+    expect(() => parseLuTestSet('{}')).toThrow('"utterances"');
+    expect(() => parseLuTestSet('{ "utterances": [{ "text": "hi" }] }')).toThrow('Utterance 0');
+  });
+});
+
+describe('pickRecognition', () => {
+  it('prefers the orchestrator recognition of the dialog', () => {
+    const regex = recognition('Cancel');
+    const orchestrator: RecognizerSandboxResult = { ...regex, recognizer: 'orchestrator' };
+    const other: RecognizerSandboxResult = { ...regex, id: 'main.en-us' };
+
+    expect(pickRecognition([other, regex, orchestrator], 'order', 'en-us')).toBe(orchestrator);
+    expect(pickRecognition([regex, { ...orchestrator, error: 'no model' }], 'Order', 'en-US')).toBe(regex);
+    expect(pickRecognition([other], 'order', 'en-us')).toBeUndefined();
+  });
+});
+
+describe('evaluateLuTestSet', () => {
+  it('computes the metrics of the intents and the confusion matrix', () => {
+    const report = evaluateLuTestSet(testSetFile, [
+      recognition('AddItem', [{ type: 'size', text: 'large', value: 'large', start: 6, end: 11 }]),
+      recognition('Cancel'),
+      recognition('Cancel'),
+      recognition('None'),
+    ]);
+
+    expect(report).toMatchObject({ recognizer: 'regex', passed: 3, failed: 1, accuracy: 0.75 });
+    expect(report.results[1]).toMatchObject({ expectedIntent: 'AddItem', predictedIntent: 'Cancel', passed: false });
+    expect(report.confusionMatrix).toEqual({
+      intents: ['AddItem', 'Cancel', 'None'],
+      counts: [
+        [1, 1, 0],
+        [0, 1, 0],
+        [0, 0, 1],
+      ],
+    });
+    expect(report.intents[0]).toEqual({
+      intent: 'AddItem',
+      support: 2,
+      truePositives: 1,
+      falsePositives: 0,
+      falseNegatives: 1,
+      precision: 1,
+      recall: 0.5,
+      f1: 2 / 3,
+    });
+    expect(report.intents[1]).toMatchObject({ intent: 'Cancel', precision: 0.5, recall: 1 });
+  });
+
+  it('fails the utterances with missing entities', () => {
+    const report = evaluateLuTestSet(testSetFile, [
+      recognition('AddItem'),
+      recognition('AddItem'),
+      recognition('Cancel'),
+      recognition('None'),
+    ]);
+
+    expect(report.results[0]).toMatchObject({ passed: false, missingEntities: [{ type: 'size', text: 'Large' }] });
+    expect(report.intents[0]).toMatchObject({ precision: 1, recall: 1 });
+  });
+
+  it('reports the dialogs without LU file', () => {
+    const report = evaluateLuTestSet(testSetFile, [undefined, undefined, undefined, undefined]);
+
+    expect(report.error).toBe('The dialog has no LU file order.en-us.');
+    expect(report.results).toEqual([]);
+  });
+});
+
+describe('toLuTestReportCsv', () => {
+  it('writes the metrics of the intents then the confusion matrices', () => {
+    const report = evaluateLuTestSet(testSetFile, [
+      recognition('AddItem', [{ type: 'size', text: 'large', value: 'large', start: 6, end: 11 }]),
+      recognition('Cancel'),
+      recognition('Cancel'),
+      recognition('None'),
+    ]);
+
+    expect(toLuTestReportCsv([report]).split('\r\n')).toEqual([
+      'testSet,dialog,locale,recognizer,intent,support,truePositives,falsePositives,falseNegatives,precision,recall,f1',
+      'tests/order.en-us.lutest,order,en-us,regex,AddItem,2,1,0,1,1.0000,0.5000,0.6667',
+      'tests/order.en-us.lutest,order,en-us,regex,Cancel,1,1,1,0,0.5000,1.0000,0.6667',
+      'tests/order.en-us.lutest,order,en-us,regex,None,1,1,0,0,1.0000,1.0000,1.0000',
+      '',
+      'tests/order.en-us.lutest expected \\ predicted,AddItem,Cancel,None',
+      'AddItem,1,1,0',
+      'Cancel,0,1,0',
+      'None,0,0,1',
+      '',
+    ]);
+  });
+});
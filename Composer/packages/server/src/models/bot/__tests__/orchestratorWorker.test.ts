@@ -4,7 +4,7 @@
 import { LabelResolver, Utility, Orchestrator } from '@microsoft/bf-orchestrator';
 import { pathExists, readdir, readJson } from 'fs-extra';
 
-import { cache, handleMessage, warmUpCache } from '../process/orchestratorWorker';
+import { cache, handleMessage, orchestratorScore, warmUpCache } from '../process/orchestratorWorker';
 
 jest.mock('@microsoft/bf-orchestrator');
 jest.mock('fs-extra', () => ({
@@ -183,3 +183,44 @@ describe('Orchestrator Warmup Cache', () => {
     });
   });
 });
+
+describe('Orchestrator Score', () => {
+  beforeEach(() => {
+    cache.clear();
+    (LabelResolver.getConfigJson as jest.Mock).mockReturnValue(JSON.stringify({ Name: 'en.onnx' }));
+    (LabelResolver.score as jest.Mock).mockReturnValue([
+      { label: { name: 'AddItem' }, score: 0.41 },
+      { label: { name: '_Interruption' }, score: 0.93 },
+    ]);
+  });
+
+  it('scores the utterances with the label resolver of each file', async () => {
+    const labelResolver = {} as LabelResolver;
+    cache.set('abc', new Map([['order.en-us.lu', labelResolver]]));
+    const files = [
+      { name: 'order.en-us.lu', content: '# AddItem\n- add a pizza', path: '', relativePath: '', lastModified: '' },
+      { name: 'main.en-us.lu', content: '', path: '', relativePath: '', lastModified: '' },
+    ];
+
+    const scores = await orchestratorScore('abc', files, './model/en', ['cancel my order']);
+
+    expect(Orchestrator.buildAsync).toHaveBeenCalledWith(
+      './model/en',
+      [{ id: 'order.en-us.lu', content: '# AddItem\n- add a pizza' }],
+      cache.get('abc'),
+      false,
+      '',
+      null,
+      false
+    );
+    expect(LabelResolver.score).toHaveBeenCalledWith('cancel my order', expect.anything(), labelResolver);
+    expect(scores).toEqual({
+      'order.en-us.lu': [
+        [
+          { intent: '_Interruption', score: 0.93 },
+          { intent: 'AddItem', score: 0.41 },
+        ],
+      ],
+    });
+  });
+});
@@ -0,0 +1,232 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { replaceInFiles, searchFiles } from '../projectSearch';
+
+const dialog = {
+  $kind: 'Microsoft.AdaptiveDialog',
+  $designer: { id: 'main0', name: 'main' },
+  id: 'main',
+  generator: 'main.lg',
+  recognizer: 'main.lu.qna',
+  triggers: [
+    {
+      $kind: 'Microsoft.OnIntent',
+      $designer: { id: 'trigger0', name: 'Greet' },
+      intent: 'Greeting',
+      actions: [
+        {
+          $kind: 'Microsoft.IfCondition',
+          $designer: { id: 'if0' },
+          condition: 'user.profile.name == null',
+          actions: [
+            { $kind: 'Microsoft.SendActivity', $designer: { id: 'send0' }, activity: '${SendActivity_send0()}' },
+          ],
+        },
+        {
+          $kind: 'Microsoft.SetProperty',
+          $designer: { id: 'set0' },
+          property: 'user.profile.name',
+          value: '=turn.name',
+        },
+        { $kind: 'Microsoft.BeginDialog', $designer: { id: 'begin0' }, dialog: 'ProfileDialog' },
+      ],
+    },
+  ],
+};
+
+const lg = `> the welcome of the bot
+# SendActivity_send0
+- Hi \${user.profile.name}, welcome to Contoso!
+- Hello from Contoso
+`;
+
+const lu = `# Greeting
+- hi Contoso
+- hello
+
+@ list product =
+- Contoso:
+  - contoso bot
+`;
+
+const qna = `# ? What is Contoso?
+- Who is Contoso?
+
+\`\`\`
+Contoso is a company.
+\`\`\`
+`;
+
+const files = [
+  { name: 'main.dialog', content: JSON.stringify(dialog, null, 2) + '\n' },
+  { name: 'main.lu.dialog', content: '{ "$kind": "Microsoft.LuisRecognizer", "id": "Contoso" }' },
+  { name: 'main.en-us.lg', content: lg },
+  { name: 'main.fr-fr.lg', content: '# SendActivity_send0\r\n- Bonjour de Contoso\r\n' },
+  { name: 'main.en-us.lu', content: lu },
+  { name: 'faq.source.en-us.qna', content: qna },
+];
+
+describe('searchFiles', () => {
+  it('finds the property values of the dialogs with their trigger and action', () => {
+    const { matches, truncated } = searchFiles(files, { pattern: 'user.profile.name', fileTypes: ['dialog'] });
+
+    expect(truncated).toBe(false);
+    expect(matches).toEqual([
+      {
+        id: 'main.dialog#triggers[0].actions[0].condition#0#user.profile.name',
+        fileType: 'dialog',
+        fileName: 'main.dialog',
+        dialogId: 'main',
+        triggerIndex: 0,
+        triggerName: 'Greet',
+        actionPath: 'triggers[0].actions[0]',
+        actionName: 'Microsoft.IfCondition',
+        propertyPath: 'triggers[0].actions[0].condition',
+        text: 'user.profile.name == null',
+        start: 0,
+        end: 17,
+      },
+      expect.objectContaining({
+        actionPath: 'triggers[0].actions[1]',
+        propertyPath: 'triggers[0].actions[1].property',
+      }),
+    ]);
+  });
+
+  it('finds the LG template bodies, LU utterances and QnA pairs', () => {
+    const { matches } = searchFiles(files, { pattern: 'contoso' });
+
+    expect(matches.map(({ fileName, line, name, start }) => ({ fileName, line, name, start }))).toEqual([
+      { fileName: 'main.en-us.lg', line: 3, name: 'SendActivity_send0', start: 38 },
+      { fileName: 'main.en-us.lg', line: 4, name: 'SendActivity_send0', start: 13 },
+      { fileName: 'main.fr-fr.lg', line: 2, name: 'SendActivity_send0', start: 13 },
+      { fileName: 'main.en-us.lu', line: 2, name: 'Greeting', start: 5 },
+      { fileName: 'faq.source.en-us.qna', line: 1, name: 'What is Contoso?', start: 12 },
+      { fileName: 'faq.source.en-us.qna', line: 2, name: 'What is Contoso?', start: 9 },
+      { fileName: 'faq.source.en-us.qna', line: 5, name: 'What is Contoso?', start: 0 },
+    ]);
+    // the responses and the utterances belong to the actions and the triggers using them
+    expect(matches[0]).toMatchObject({
+      dialogId: 'main',
+      locale: 'en-us',
+      actionPath: 'triggers[0].actions[0].actions[0]',
+    });
+    expect(matches[3]).toMatchObject({ triggerIndex: 0, triggerName: 'Greet' });
+    expect(matches[4]).toMatchObject({ dialogId: 'faq.source', locale: 'en-us' });
+  });
+
+  it('filters by file type and locale, case and whole word', () => {
+    const search = (query) => searchFiles(files, { pattern: 'contoso', ...query }).matches.map(({ id }) => id);
+
+    expect(search({ fileTypes: ['lg'], locales: ['fr-fr'] })).toEqual(['main.fr-fr.lg#2#13#Contoso']);
+    expect(search({ fileTypes: ['lu'], matchCase: true })).toEqual([]);
+    expect(search({ pattern: 'hi', fileTypes: ['lg', 'lu'], wholeWord: true })).toEqual([
+      'main.en-us.lg#3#2#Hi',
+      'main.en-us.lu#2#2#hi',
+    ]);
+  });
+
+  it('searches with regular expressions and previews the replacements', () => {
+    const { matches } = searchFiles(
+      files,
+      { pattern: '(?<scope>user|turn)\\.(\\w+\\.)?name', isRegex: true, fileTypes: ['dialog'] },
+      '$<scope>.$2fullName$$'
+    );
+
+    expect(matches.map(({ text, start, end, replacement }) => [text.substring(start, end), replacement])).toEqual([
+      ['user.profile.name', 'user.profile.fullName$'],
+      ['user.profile.name', 'user.profile.fullName$'],
+      ['turn.name', 'turn.fullName$'],
+    ]);
+    expect(() => searchFiles(files, { pattern: '(', isRegex: true })).toThrow(SyntaxError);
+  });
+
+  it('rejects the regular expressions which take too long to match', () => {
+    const lgFile = { name: 'slow.en-us.lg', content: `# Slow\n- ${'a'.repeat(40)}!\n` };
+
+    expect(() => searchFiles([lgFile], { pattern: '(a+)+b', isRegex: true })).toThrow(
+      'The regular expression takes too long to match'
+    );
+  });
+});
+
+describe('replaceInFiles', () => {
+  it('replaces the matches in the dialogs and the LG, LU and QnA files', () => {
+    const { replaced, files: changedFiles } = replaceInFiles(files, { pattern: 'Contoso', replacement: 'Fabrikam' });
+
+    expect(replaced).toBe(7);
+    expect(changedFiles.map(({ name }) => name)).toEqual([
+      'main.en-us.lg',
+      'main.fr-fr.lg',
+      'main.en-us.lu',
+      'faq.source.en-us.qna',
+    ]);
+    expect(changedFiles[1].content).toBe('# SendActivity_send0\r\n- Bonjour de Fabrikam\r\n');
+    // the list entity values are not utterances
+    expect(changedFiles[2].content).toContain('- hi Fabrikam\n');
+    expect(changedFiles[2].content).toContain('- Contoso:\n  - contoso bot');
+  });
+
+  it('replaces the selected matches which still match', () => {
+    const { matches } = searchFiles(files, { pattern: 'user.profile.name', fileTypes: ['dialog'] });
+    const { replaced, files: changedFiles, search } = replaceInFiles(files, {
+      pattern: 'user.profile.name',
+      fileTypes: ['dialog'],
+      replacement: 'user.name',
+      matchIds: [matches[1].id, 'main.dialog#triggers[0].actions[0].condition#5#user.profile.name'],
+    });
+
+    expect(replaced).toBe(1);
+    expect(search.matches).toEqual([
+      expect.objectContaining({ propertyPath: 'triggers[0].actions[0].condition', replacement: 'user.name' }),
+    ]);
+    const content = JSON.parse(changedFiles[0].content);
+    expect(content.triggers[0].actions[0].condition).toBe('user.profile.name == null');
+    expect(content.triggers[0].actions[1]).toEqual({
+      $kind: 'Microsoft.SetProperty',
+      $designer: { id: 'set0' },
+      property: 'user.name',
+      value: '=turn.name',
+    });
+  });
+
+  it('does not replace the kinds nor the designer ids', () => {
+    expect(
+      replaceInFiles(files, { pattern: 'Microsoft|set0', isRegex: true, fileTypes: ['dialog'], replacement: 'X' })
+    ).toMatchObject({ replaced: 0, files: [] });
+  });
+
+  it('does not replace the references to the dialogs, the LG and LU files, the intents and the LG templates', () => {
+    const { replaced, files: changedFiles } = replaceInFiles(files, {
+      pattern: 'main|Greeting|SendActivity|ProfileDialog',
+      isRegex: true,
+      matchCase: true,
+      fileTypes: ['dialog'],
+      replacement: 'X',
+    });
+
+    // only the name of the dialog is replaced
+    expect(replaced).toBe(1);
+    expect(JSON.parse(changedFiles[0].content)).toMatchObject({
+      $designer: { name: 'X' },
+      id: 'main',
+      generator: 'main.lg',
+      recognizer: 'main.lu.qna',
+      triggers: [
+        {
+          intent: 'Greeting',
+          actions: [{ actions: [{ activity: '${SendActivity_send0()}' }] }, {}, { dialog: 'ProfileDialog' }],
+        },
+      ],
+    });
+  });
+
+  it('replaces the text around the references to the LG templates', () => {
+    const lgFile = { name: 'a.en-us.lg', content: '# Welcome\n- ${Greeting()} Greeting\n' };
+    const { replaced, files: changedFiles } = replaceInFiles([lgFile], { pattern: 'Greeting', replacement: 'Hi' });
+
+    expect(replaced).toBe(1);
+    expect(changedFiles[0].content).toBe('# Welcome\n- ${Greeting()} Hi\n');
+  });
+});
@@ -0,0 +1,71 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { createPseudoLocaleFiles, pseudoLocalizeLg, pseudoLocalizeText } from '../pseudoLocalization';
+
+describe('pseudoLocalizeText', () => {
+  it('accents, pads and brackets the text', () => {
+    expect(pseudoLocalizeText('Hello')).toBe('[Ĥéļļö ~~]');
+  });
+
+  it('keeps the expressions, the SSML tags and the escaped characters', () => {
+    expect(pseudoLocalizeText("Hi ${user.name}, ${if(x, 'a', 'b')}!\\n")).toBe(
+      "[Ĥí ${user.name}, ${if(x, 'a', 'b')}!\\n ~]"
+    );
+    expect(pseudoLocalizeText('<speak>Hi <break time="1s"/>there</speak>')).toBe(
+      '<speak>[Ĥí <break time="1s"/>ţĥéŕé ~~~]</speak>'
+    );
+  });
+
+  it('keeps the texts without letters', () => {
+    expect(pseudoLocalizeText('${Welcome()}')).toBe('${Welcome()}');
+  });
+});
+
+describe('pseudoLocalizeLg', () => {
+  it('pseudo-localizes the variations and the structured response texts only', () => {
+    const content = `[import](common.lg)
+
+# Greeting(name)
+- IF: \${name}
+  - Hi \${name}
+- ELSE:
+  - Hi
+
+# Card
+[Activity
+    Text = Hello
+    SuggestedActions = Yes | No
+    InputHint = acceptingInput
+]
+`;
+    expect(pseudoLocalizeLg(content)).toBe(`[import](common.lg)
+
+# Greeting(name)
+- IF: \${name}
+  - [Ĥí \${name} ~]
+- ELSE:
+  - [Ĥí ~]
+
+# Card
+[Activity
+    Text = [Ĥéļļö ~~]
+    SuggestedActions = [Ýéš ~~] | [Ñö ~]
+    InputHint = acceptingInput
+]
+`);
+  });
+});
+
+describe('createPseudoLocaleFiles', () => {
+  it('creates the pseudo-locale files of the LG files of the default language', () => {
+    const files = [
+      { name: 'main.en-us.lg', content: '# Hi\n- Hi\n' },
+      { name: 'main.fr-fr.lg', content: '# Hi\n- Salut\n' },
+      { name: 'main.en-us.lu', content: '# Hi\n- hi\n' },
+    ];
+    expect(createPseudoLocaleFiles(files, 'en-us')).toEqual([
+      { name: 'main.qps-ploc.lg', content: '# Hi\n- [Ĥí ~]\n' },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { LuisModel, recognizeWithRegex } from '../recognizerSandbox';
+
+const model: LuisModel = {
+  utterances: [
+    { text: 'cancel my order', intent: 'Cancel' },
+    { text: 'Stop!', intent: 'Cancel' },
+    {
+      text: 'book a flight to Seattle',
+      intent: 'BookFlight',
+      entities: [{ entity: 'city', startPos: 17, endPos: 23 }],
+    },
+    { text: 'add a pizza', intent: '_Interruption' },
+  ],
+  patterns: [{ pattern: 'fly [me] (to|into) {city}', intent: 'BookFlight' }],
+  // eslint-disable-next-line @typescript-eslint/camelcase
+  regex_entities: [{ name: 'zipcode', regexPattern: '[0-9]{5}' }],
+  closedLists: [{ name: 'size', subLists: [{ canonicalForm: 'large', list: ['big', 'huge'] }] }],
+};
+
+describe('recognizeWithRegex', () => {
+  it('scores the intents of the matching utterances', () => {
+    expect(recognizeWithRegex('main.en-us', model, '  Cancel   my order. ')).toEqual({
+      id: 'main.en-us',
+      recognizer: 'regex',
+      intents: [{ intent: 'Cancel', score: 1 }],
+      entities: [],
+    });
+    expect(recognizeWithRegex('main.en-us', model, 'stop').intents).toEqual([{ intent: 'Cancel', score: 1 }]);
+    expect(recognizeWithRegex('main.en-us', model, 'add a pizza').intents).toEqual([
+      { intent: '_Interruption', score: 1 },
+    ]);
+  });
+
+  it('recognizes None when no utterance matches', () => {
+    expect(recognizeWithRegex('main.en-us', model, 'cancel my order please').intents).toEqual([
+      { intent: 'None', score: 1 },
+    ]);
+  });
+
+  it('extracts the labeled entities of the utterances and the placeholders of the patterns', () => {
+    expect(recognizeWithRegex('main.en-us', model, 'book a flight to Paris').entities).toEqual([
+      { type: 'city', text: 'Paris', value: 'Paris', start: 17, end: 22 },
+    ]);
+
+    const result = recognizeWithRegex('main.en-us', model, 'fly into New York');
+    expect(result.intents).toEqual([{ intent: 'BookFlight', score: 1 }]);
+    expect(result.entities).toEqual([{ type: 'city', text: 'New York', value: 'New York', start: 9, end: 17 }]);
+    expect(recognizeWithRegex('main.en-us', model, 'fly me to Oslo').intents).toEqual([
+      { intent: 'BookFlight', score: 1 },
+    ]);
+  });
+
+  it('extracts the regex and list entities', () => {
+    expect(recognizeWithRegex('main.en-us', model, 'a huge pizza to 98052').entities).toEqual([
+      { type: 'size', text: 'huge', value: 'large', start: 2, end: 6 },
+      { type: 'zipcode', text: '98052', value: '98052', start: 16, end: 21 },
+    ]);
+  });
+
+  it('fails for the utterances longer than LUIS accepts', () => {
+    expect(recognizeWithRegex('main.en-us', model, `book ${'a'.repeat(500)}`)).toEqual({
+      id: 'main.en-us',
+      recognizer: 'regex',
+      intents: [],
+      entities: [],
+      error: 'The utterance is longer than 500 characters.',
+    });
+  });
+
+  it('fails when the regex entities take too long to match', () => {
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    const slowModel = { ...model, regex_entities: [{ name: 'slow', regexPattern: '(a+)+b' }] };
+
+    expect(recognizeWithRegex('main.en-us', slowModel, `${'a'.repeat(40)}!`)).toMatchObject({
+      intents: [],
+      entities: [],
+      error: 'The utterances, patterns and regex entities take too long to match the utterance.',
+    });
+  });
+});
@@ -0,0 +1,231 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { getRecordedSourceHashes, getSourceHashes } from '@bfc/indexers/lib/utils/translationUtil';
+
+import { exportXliff, extractTranslationUnits, importXliff } from '../xliff';
+
+const lg = `[import](common.lg)
+
+# Greeting
+- Hi \${user.name}!
+- Hello
+- \${Welcome()}
+
+# Card
+[Activity
+    Text = Hello \${user.name}
+    InputHint = acceptingInput
+]
+
+# Choice
+- IF: \${user.vip}
+  - Welcome back
+- ELSE:
+  - Welcome
+`;
+
+const lu = `# BookFlight
+- book a flight to {@city=Seattle}
+- fly to {@city}
+
+@ ml city
+`;
+
+const qna = `# ? What is your name?
+- Who are you?
+
+\`\`\`
+I am a bot.
+\`\`\`
+`;
+
+const files = [
+  { name: 'main.en-us.lg', content: lg },
+  { name: 'main.fr-fr.lg', content: lg.replace('- Hello', '- Bonjour') },
+  { name: 'main.en-us.lu', content: lu },
+  { name: 'main.fr-fr.lu', content: lu },
+  { name: 'main.en-us.qna', content: qna },
+  { name: 'main.fr-fr.qna', content: qna },
+  { name: 'main.dialog', content: '{}' },
+];
+
+describe('extractTranslationUnits', () => {
+  it('extracts the variations and the structured response texts of LG files', () => {
+    expect(extractTranslationUnits('main.en-us.lg', lg).map(({ name, text }) => ({ name, text }))).toEqual([
+      { name: 'Greeting/1', text: 'Hi ${user.name}!' },
+      { name: 'Greeting/2', text: 'Hello' },
+      { name: 'Greeting/3', text: '${Welcome()}' },
+      { name: 'Card/Text', text: 'Hello ${user.name}' },
+      { name: 'Choice/1', text: 'Welcome back' },
+      { name: 'Choice/2', text: 'Welcome' },
+    ]);
+  });
+
+  it('extracts the utterances of LU files and the questions and answers of QnA files', () => {
+    expect(extractTranslationUnits('main.en-us.lu', lu).map(({ name }) => name)).toEqual([
+      'BookFlight/1',
+      'BookFlight/2',
+    ]);
+    expect(extractTranslationUnits('main.en-us.qna', qna).map(({ name, text }) => ({ name, text }))).toEqual([
+      { name: '1/q1', text: 'What is your name?' },
+      { name: '1/q2', text: 'Who are you?' },
+      { name: '1/answer', text: 'I am a bot.' },
+    ]);
+  });
+
+  it('locates the units in the file', () => {
+    const [unit] = extractTranslationUnits('main.en-us.lu', lu);
+    expect(lu.substring(unit.start, unit.end)).toBe(unit.text);
+  });
+});
+
+describe('exportXliff', () => {
+  const xliff = exportXliff(files, 'en-us', 'fr-fr');
+
+  it('exports the units with text to translate, with the translations of the locale files', () => {
+    expect(xliff).toContain('srcLang="en-us" trgLang="fr-fr"');
+    expect(xliff).toContain('<file id="f1" original="main.lg">');
+    expect(xliff).not.toContain('name="Greeting/3"');
+    expect(xliff).toContain('<source xml:space="preserve">Hello</source>');
+    expect(xliff).toContain('<target xml:space="preserve">Bonjour</target>');
+    expect(xliff).not.toContain('main.dialog');
+  });
+
+  it('keeps the expressions and the entity labels as placeholders', () => {
+    expect(xliff).toContain('<data id="d1">${user.name}</data>');
+    expect(xliff).toContain('<source xml:space="preserve">Hi <ph id="2" dataRef="d1"/>!</source>');
+    expect(xliff).toContain('<data id="d1">{@city=</data>');
+    expect(xliff).toContain(
+      '<source xml:space="preserve">book a flight to <pc id="2" dataRefStart="d1" dataRefEnd="d2">Seattle</pc></source>'
+    );
+  });
+});
+
+describe('importXliff', () => {
+  const translate = (xliff: string) =>
+    xliff
+      .replace(
+        /<source xml:space="preserve">Hi (<ph id="2" dataRef="d1"\/>)!<\/source>/,
+        '$&<target>Salut $1 !</target>'
+      )
+      .replace(
+        /<source xml:space="preserve">book a flight to <pc id="2" dataRefStart="d1" dataRefEnd="d2">Seattle<\/pc><\/source>/,
+        '$&<target>réserver un vol pour <pc id="2" dataRefStart="d1" dataRefEnd="d2">Paris</pc></target>'
+      )
+      .replace(/<source xml:space="preserve">Welcome back<\/source>/, '$&<target>Bon retour</target>')
+      .replace(/<source xml:space="preserve">I am a bot.<\/source>/, '$&<target>Je suis un bot.</target>');
+
+  it('writes the translations to the locale files', () => {
+    const { files: updatedFiles, report } = importXliff(
+      translate(exportXliff(files, 'en-us', 'fr-fr')),
+      files,
+      'en-us'
+    );
+
+    expect(report.locale).toBe('fr-fr');
+    expect(report.translated).toBe(5);
+    expect(report.untranslated).toContain('main.lg#Choice/2');
+    expect(report.stale).toEqual([]);
+    expect(report.invalid).toEqual([]);
+
+    const lgFile = updatedFiles.find(({ name }) => name === 'main.fr-fr.lg');
+    expect(lgFile?.content).toContain('- Salut ${user.name} !\n- Bonjour\n');
+    expect(lgFile?.content).toContain('  - Bon retour\n');
+    expect(updatedFiles.find(({ name }) => name === 'main.fr-fr.lu')?.content).toContain(
+      '- réserver un vol pour {@city=Paris}\n'
+    );
+    expect(updatedFiles.find(({ name }) => name === 'main.fr-fr.qna')?.content).toContain('```\nJe suis un bot.\n```');
+  });
+
+  it('records the hashes of the source items under the translated items', () => {
+    const xliff = translate(exportXliff(files, 'en-us', 'fr-fr'));
+    const { files: updatedFiles } = importXliff(xliff, files, 'en-us');
+    const lgFile = updatedFiles.find(({ name }) => name === 'main.fr-fr.lg');
+    const sourceHashes = getSourceHashes('main.en-us.lg', lg);
+
+    // the card has no translation
+    expect(getRecordedSourceHashes('main.fr-fr.lg', lgFile?.content ?? '')).toEqual({
+      Greeting: sourceHashes.Greeting,
+      Choice: sourceHashes.Choice,
+    });
+    expect(lgFile?.content).toContain(`# Greeting\n> source: ${sourceHashes.Greeting}\n- Salut`);
+    const qnaFile = updatedFiles.find(({ name }) => name === 'main.fr-fr.qna');
+    expect(getRecordedSourceHashes('main.fr-fr.qna', qnaFile?.content ?? '')).toEqual(
+      getSourceHashes('main.en-us.qna', qna)
+    );
+
+    // importing again replaces the recorded hashes, which leaves the files unchanged
+    const importedFiles = files.map((file) => updatedFiles.find(({ name }) => name === file.name) ?? file);
+    expect(importXliff(xliff, importedFiles, 'en-us').files).toEqual([]);
+  });
+
+  it('reports the stale units and the translations that change the expressions', () => {
+    const xliff = translate(exportXliff(files, 'en-us', 'fr-fr')).replace(
+      '<target>Salut <ph id="2" dataRef="d1"/> !</target>',
+      '<target>Salut !</target>'
+    );
+    const changedFiles = files.map((file) =>
+      file.name === 'main.en-us.lg' ? { ...file, content: file.content.replace('Welcome back', 'Welcome again') } : file
+    );
+
+    const { report } = importXliff(xliff, changedFiles, 'en-us');
+    expect(report.invalid).toEqual(['main.lg#Greeting/1']);
+    expect(report.stale).toEqual(['main.lg#Choice/1']);
+  });
+
+  it('copies the templates, intents and QnA pairs the locale files miss before writing their translations', () => {
+    const localeFiles = files
+      .filter(({ name }) => name !== 'main.fr-fr.qna')
+      .map((file) => {
+        if (file.name === 'main.fr-fr.lg')
+          return { ...file, content: lg.replace('- Hello', '- Bonjour').split('# Choice')[0] };
+        if (file.name === 'main.fr-fr.lu') return { ...file, content: '@ ml city\n' };
+        return file;
+      });
+
+    const { files: updatedFiles, report } = importXliff(
+      translate(exportXliff(localeFiles, 'en-us', 'fr-fr')),
+      localeFiles,
+      'en-us'
+    );
+
+    expect(report.translated).toBe(5);
+    expect(report.stale).toEqual([]);
+    expect(updatedFiles.find(({ name }) => name === 'main.fr-fr.lg')?.content).toContain(
+      '- Bonjour\n- ${Welcome()}\n\n# Card'
+    );
+    expect(updatedFiles.find(({ name }) => name === 'main.fr-fr.lg')?.content).toContain(
+      `# Choice\n> source: ${
+        getSourceHashes('main.en-us.lg', lg).Choice
+      }\n- IF: \${user.vip}\n  - Bon retour\n- ELSE:\n  - Welcome\n`
+    );
+    expect(updatedFiles.find(({ name }) => name === 'main.fr-fr.lu')?.content).toBe(
+      `@ ml city\n\n# BookFlight\n> source: ${
+        getSourceHashes('main.en-us.lu', lu).BookFlight
+      }\n- réserver un vol pour {@city=Paris}\n- fly to {@city}\n`
+    );
+    expect(updatedFiles.find(({ name }) => name === 'main.fr-fr.qna')?.content).toBe(
+      `# ? What is your name?\n> source: ${
+        getSourceHashes('main.en-us.qna', qna)[1]
+      }\n- Who are you?\n\n\`\`\`\nJe suis un bot.\n\`\`\`\n`
+    );
+  });
+
+  it('keeps the translations of the units the locale files have when copying their template', () => {
+    const localeFiles = files.map((file) =>
+      file.name === 'main.fr-fr.lg' ? { ...file, content: '# Greeting\n- Salut ${user.name} !\n' } : file
+    );
+
+    const { files: updatedFiles } = importXliff(exportXliff(files, 'en-us', 'fr-fr'), localeFiles, 'en-us');
+    expect(updatedFiles.find(({ name }) => name === 'main.fr-fr.lg')?.content).toContain(
+      `# Greeting\n> source: ${
+        getSourceHashes('main.en-us.lg', lg).Greeting
+      }\n- Salut \${user.name} !\n- Bonjour\n- \${Welcome()}\n\n# Card`
+    );
+  });
+
+  it('rejects documents of another source language', () => {
+    expect(() => importXliff(exportXliff(files, 'en-us', 'fr-fr'), files, 'de-de')).toThrow();
+  });
+});
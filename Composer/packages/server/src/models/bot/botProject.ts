@@ -7,7 +7,7 @@ import fs from 'fs';
 import has from 'lodash/has';
 import axios from 'axios';
 import { autofixReferInDialog } from '@bfc/indexers';
-import { isUsingAdaptiveRuntime } from '@bfc/shared';
+import { isUsingAdaptiveRuntime, PseudoLocale } from '@bfc/shared';
 import {
   getNewDesigner,
   FileInfo,
@@ -17,6 +17,8 @@ import {
   FileExtensions,
   DialogUtils,
   checkForPVASchema,
+  RecognizerSandboxResponse,
+  LuTestSetReport,
 } from '@bfc/shared';
 import merge from 'lodash/merge';
 import { UserIdentity } from '@bfc/extension';
@@ -35,6 +37,10 @@ import AssetService from '../../services/asset';
 
 import { BotStructureFilesPatterns, isCrossTrainConfig } from './botStructure';
 import { Builder } from './builder';
+import { createPseudoLocaleFiles } from './pseudoLocalization';
+import { evaluateLuTestSet, loadLuTestSets, pickRecognition } from './luTestSet';
+import { GitRepository } from './gitRepository';
+import { FileConflictError, getFileETag } from './fileConflict';
 import { IFileStorage } from './../storage/interface';
 import { LocationRef, IBuildConfig } from './interface';
 import { defaultFilePath, serializeFiles, parseFileName, isRecognizer } from './botStructure';
@@ -59,6 +65,7 @@ export class BotProject implements IBotProject {
   public eTag?: string;
   public fileStorage: IFileStorage;
   public builder: Builder;
+  public git: GitRepository;
   public defaultSDKSchema: {
     [key: string]: string;
   };
@@ -84,6 +91,7 @@ export class BotProject implements IBotProject {
     this.settingManager = new DefaultSettingManager(this.dir);
     this.fileStorage = StorageService.getStorageClient(this.ref.storageId, user);
     this.builder = new Builder(this.dir, this.fileStorage, defaultLanguage);
+    this.git = new GitRepository(this.dir);
     this.readme = '';
   }
 
@@ -182,20 +190,28 @@ export class BotProject implements IBotProject {
   public init = async () => {
     this.diagnostics = [];
     this.settings = await this.getEnvSettings(false);
+    await this.fileStorage.preload?.(this.dir);
     this.files = await this._getFiles();
     this.readme = await this._getReadme();
   };
 
+  // switching branches changes the files on disk, they are loaded again afterwards
+  public checkoutBranch = async (branch: string, create = false) => {
+    await this.git.checkout(branch, create);
+    await this.init();
+  };
+
   public getProject = () => {
+    const files = Array.from(this.files.values()).map((file) => ({ ...file, eTag: getFileETag(file.content) }));
     return {
       botName: this.name,
-      files: Array.from(this.files.values()),
+      files,
       readme: this.readme,
       location: this.dir,
       schemas: this.getSchemas(),
       diagnostics: this.diagnostics,
       settings: this.settings,
-      filesWithoutRecognizers: Array.from(this.files.values()).filter(({ name }) => !isRecognizer(name)),
+      filesWithoutRecognizers: files.filter(({ name }) => !isRecognizer(name)),
     };
   };
 
@@ -398,7 +414,11 @@ export class BotProject implements IBotProject {
     await serializeFiles(this.fileStorage, this.dataDir, botName, preserveRoot);
   };
 
-  public updateFile = async (name: string, content: string): Promise<string> => {
+  /**
+   * Updates a file. When the eTag of the content the change was made on is given, the update is
+   * rejected with a FileConflictError if the file was changed in the meantime.
+   */
+  public updateFile = async (name: string, content: string, eTag?: string): Promise<string> => {
     if (name === this.settingManager.getFileName()) {
       await this.updateDefaultSlotEnvSettings(JSON.parse(content));
       return new Date().toDateString();
@@ -411,6 +431,9 @@ export class BotProject implements IBotProject {
 
     const relativePath = file.relativePath;
     this._validateFileContent(name, content);
+    if (eTag) {
+      await this._checkFileVersion(file, eTag);
+    }
     const lastModified = await this._updateFile(relativePath, content);
     return lastModified;
   };
@@ -525,6 +548,81 @@ export class BotProject implements IBotProject {
     }
   };
 
+  /**
+   * Recognizes an utterance with the cross-trained LU files of a locale, the default language if none, locally.
+   */
+  public recognizeUtterance = async (utterance: string, locale?: string): Promise<RecognizerSandboxResponse> => {
+    const targetLocale = locale || this.settings?.defaultLanguage || 'en-us';
+    const files = Array.from(this.files.values()) as FileInfo[];
+    const qnaFiles = files.filter(({ name }) => name.endsWith('.qna'));
+
+    this.builder.rootDir = this.dir;
+    const [results] = await this.builder.recognize(
+      [utterance],
+      targetLocale,
+      this.luFiles,
+      qnaFiles,
+      files,
+      this.settings?.orchestrator
+    );
+    return { utterance, locale: targetLocale, results };
+  };
+
+  /**
+   * Runs the .lutest test sets of the project, or the ones of the ids, against the cross-trained LU files recognized locally.
+   */
+  public runLuTests = async (testIds?: string[]): Promise<LuTestSetReport[]> => {
+    const testSets = (
+      await loadLuTestSets(this.fileStorage, this.dir, this.settings?.defaultLanguage || 'en-us')
+    ).filter(({ id }) => !testIds || testIds.includes(id));
+    const files = Array.from(this.files.values()) as FileInfo[];
+    const qnaFiles = files.filter(({ name }) => name.endsWith('.qna'));
+    this.builder.rootDir = this.dir;
+
+    const reports: LuTestSetReport[] = [];
+    // the models of a locale are cross-trained once for the utterances of all its test sets
+    for (const locale of Array.from(new Set(testSets.map((testSet) => testSet.locale)))) {
+      const localeTestSets = testSets.filter((testSet) => testSet.locale === locale);
+      const utterances = localeTestSets.reduce(
+        (result: string[], { testSet }) => [...result, ...(testSet?.utterances ?? []).map(({ text }) => text)],
+        []
+      );
+      const results = utterances.length
+        ? await this.builder.recognize(utterances, locale, this.luFiles, qnaFiles, files, this.settings?.orchestrator)
+        : [];
+
+      let offset = 0;
+      localeTestSets.forEach((testSet) => {
+        const count = testSet.testSet?.utterances.length ?? 0;
+        const recognitions = results
+          .slice(offset, offset + count)
+          .map((result) => pickRecognition(result, testSet.dialog, locale));
+        offset += count;
+        reports.push(evaluateLuTestSet(testSet, recognitions));
+      });
+    }
+    return testSets.map(({ id }) => reports.find((report) => report.id === id) as LuTestSetReport);
+  };
+
+  /**
+   * Writes the pseudo-locale LG files to the generated folder, which the local runtime loads, or removes them.
+   * They are never part of the project files, so they are regenerated from the default language every time.
+   */
+  public updatePseudoLocaleFiles = async (enabled: boolean) => {
+    const pseudoLocaleDir = Path.join(this.builder.generatedFolderPath, PseudoLocale);
+    if (await this.fileStorage.exists(pseudoLocaleDir)) {
+      await this.fileStorage.rmrfDir(pseudoLocaleDir);
+    }
+    if (!enabled || !this.settings) return [];
+
+    const files = createPseudoLocaleFiles(Array.from(this.files.values()), this.settings.defaultLanguage);
+    await this.fileStorage.mkDir(pseudoLocaleDir, { recursive: true });
+    for (const { name, content } of files) {
+      await this.fileStorage.writeFile(Path.join(pseudoLocaleDir, name), content);
+    }
+    return files.map(({ name }) => name);
+  };
+
   public cloneFiles = async (locationRef: LocationRef): Promise<LocationRef> => {
     // get destination storage client
     const dstStorage = StorageService.getStorageClient(locationRef.storageId);
@@ -757,6 +855,17 @@ export class BotProject implements IBotProject {
     return stats.lastModified;
   };
 
+  // the file is read again so that the changes made outside of Composer are detected too
+  private _checkFileVersion = async (file: FileInfo, eTag: string) => {
+    const currentContent = await this.fileStorage.readFile(file.path);
+    file.content = currentContent;
+
+    const currentETag = getFileETag(currentContent);
+    if (currentETag !== eTag) {
+      throw new FileConflictError(file.name, currentContent, currentETag);
+    }
+  };
+
   // remove file in this project this function will guarantee the memory cache
   // (this.files, all indexes) also gets updated
   private _removeFile = (relativePath: string) => {
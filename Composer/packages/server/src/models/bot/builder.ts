@@ -2,8 +2,8 @@
 // Licensed under the MIT License.
 
 /* eslint-disable @typescript-eslint/no-var-requires */
-import { pathExists, writeFile, copy, existsSync, mkdirSync } from 'fs-extra';
-import { FileInfo, IConfig, SDKKinds } from '@bfc/shared';
+import { pathExists, writeFile, copy, existsSync, mkdirSync, readdir } from 'fs-extra';
+import { FileInfo, IConfig, IOrchestratorConfig, RecognizerSandboxResult, SDKKinds } from '@bfc/shared';
 import { ComposerReservoirSampler } from '@microsoft/bf-dispatcher/lib/mathematics/sampler/ComposerReservoirSampler';
 import { luImportResolverGenerator, getLUFiles, getQnAFiles } from '@bfc/shared/lib/luBuildResolver';
 import { Orchestrator } from '@microsoft/bf-orchestrator';
@@ -21,6 +21,7 @@ import { COMPOSER_VERSION } from '../../constants';
 
 import { IOrchestratorNLRList, IOrchestratorProgress, IOrchestratorSettings } from './interface';
 import orchestratorBuilder from './process/orchestratorBuilder';
+import { recognizeWithRegex } from './recognizerSandbox';
 
 const crossTrainer = require('@microsoft/bf-lu/lib/parser/cross-train/crossTrainer.js');
 const luBuild = require('@microsoft/bf-lu/lib/parser/lubuild/builder.js');
@@ -159,6 +160,82 @@ export class Builder {
     return baseModelPath;
   };
 
+  /**
+   * Recognizes utterances with the cross-trained models of the LU files of a locale, without any cloud service:
+   * the Regex recognizer with every model, and the Orchestrator snapshots of the dialogs with an Orchestrator recognizer
+   * when the Orchestrator model of their language is already downloaded.
+   * Nothing is written to the generated folder.
+   * @returns The results of every model for each utterance, in the same order
+   */
+  public recognize = async (
+    utterances: string[],
+    locale: string,
+    luFiles: FileInfo[],
+    qnaFiles: FileInfo[],
+    allFiles: FileInfo[],
+    orchestratorConfig?: IOrchestratorConfig
+  ): Promise<RecognizerSandboxResult[][]> => {
+    const { luResult } = await this.crossTrainContents(luFiles, qnaFiles, allFiles);
+    const crossTrainedFiles: FileInfo[] = [...luResult.keys()]
+      .filter((id: string) => id.toLowerCase().endsWith(`.${locale.toLowerCase()}`))
+      .map((id: string) => ({
+        name: `${id}.lu`,
+        content: luResult.get(id).Content,
+        path: Path.join(this.interruptionFolderPath, `${id}.lu`),
+        relativePath: `${id}.lu`,
+        lastModified: '',
+      }));
+
+    const results: RecognizerSandboxResult[][] = utterances.map(() => []);
+    for (const file of crossTrainedFiles) {
+      const id = Path.basename(file.name, '.lu');
+      try {
+        const model = await LuisBuilder.fromLUAsync(file.content);
+        utterances.forEach((utterance, index) => results[index].push(recognizeWithRegex(id, model, utterance)));
+      } catch (error) {
+        const message = error.message ?? error.text;
+        results.forEach((result) =>
+          result.push({ id, recognizer: 'regex', intents: [], entities: [], error: message })
+        );
+      }
+    }
+
+    const { orchestratorBuildFiles } = this.separateLuFiles(crossTrainedFiles, allFiles);
+    const orchestratorFiles = orchestratorBuildFiles.filter(({ content }) => content.trim());
+    if (orchestratorFiles.length) {
+      const orchestratorResults = await this.recognizeWithOrchestrator(
+        utterances,
+        locale,
+        orchestratorFiles,
+        orchestratorConfig
+      );
+      orchestratorResults.forEach((result, index) => results[index].push(...result));
+    }
+    return results;
+  };
+
+  /**
+   * Orchestrator: Path of the downloaded model of a language, the one of the bot settings or else the latest one.
+   * The default models are only known by querying the Orchestrator service, so they are not looked up.
+   */
+  public getDownloadedModelPathAsync = async (lang: 'en' | 'multilang', orchestratorConfig?: IOrchestratorConfig) => {
+    const baseModelPath = await this.getModelPathAsync();
+    const modelName =
+      lang === 'en' ? orchestratorConfig?.model?.en_intent : orchestratorConfig?.model?.multilingual_intent;
+    if (modelName) {
+      const modelPath = Path.resolve(baseModelPath, modelName.replace('.onnx', ''));
+      return (await pathExists(modelPath)) ? modelPath : undefined;
+    }
+    if (!(await pathExists(baseModelPath))) return undefined;
+
+    // e.g. pretrained.20200924.microsoft.dte.00.06.en and pretrained.20210205.microsoft.dte.00.06.unicoder_multilingual
+    const models = (await readdir(baseModelPath))
+      .filter((name) => (lang === 'en' ? name.endsWith('.en') : name.includes('multilingual')))
+      .sort()
+      .reverse();
+    return models.length ? Path.resolve(baseModelPath, models[0]) : undefined;
+  };
+
   /**
    * Orchestrator: Perform the full build process
    * 1) Query the Orchestrator service for the latest default NLR model
@@ -331,7 +408,48 @@ export class Builder {
     await this.storage.mkDir(this.generatedFolderPath);
   }
 
-  private async crossTrain(luFiles: FileInfo[], qnaFiles: FileInfo[], allFiles: FileInfo[]) {
+  private recognizeWithOrchestrator = async (
+    utterances: string[],
+    locale: string,
+    luFiles: FileInfo[],
+    orchestratorConfig?: IOrchestratorConfig
+  ): Promise<RecognizerSandboxResult[][]> => {
+    const lang = locale.toLowerCase().startsWith('en') ? 'en' : 'multilang';
+    const modelPath = await this.getDownloadedModelPathAsync(lang, orchestratorConfig);
+    const toResults = (getResult: (file: FileInfo, index: number) => Partial<RecognizerSandboxResult>) =>
+      utterances.map((_, index) =>
+        luFiles.map(
+          (file): RecognizerSandboxResult => ({
+            id: Path.basename(file.name, '.lu'),
+            recognizer: 'orchestrator',
+            intents: [],
+            entities: [],
+            ...getResult(file, index),
+          })
+        )
+      );
+
+    if (!modelPath) {
+      return toResults(() => ({ error: 'The Orchestrator model is not downloaded.' }));
+    }
+
+    try {
+      // reuse the snapshots of the previous builds
+      await orchestratorBuilder.warmupCache(this.botDir, this.generatedFolderPath);
+    } catch (err) {
+      log(err);
+    }
+
+    try {
+      const scores = await orchestratorBuilder.score(this.botDir, luFiles, modelPath, utterances);
+      return toResults((file, index) => ({ intents: scores[file.name]?.[index] ?? [] }));
+    } catch (error) {
+      const message = error.message ?? String(error);
+      return toResults(() => ({ error: message }));
+    }
+  };
+
+  private async crossTrainContents(luFiles: FileInfo[], qnaFiles: FileInfo[], allFiles: FileInfo[]) {
     const crossTrainConfigPath = Path.join(this.botDir, SETTINGS, CrossTrainConfigName);
     let crossTrainConfig = {};
     if (await this.storage.exists(crossTrainConfigPath)) {
@@ -349,7 +467,11 @@ export class Builder {
     });
 
     const importResolver = luImportResolverGenerator([...getLUFiles(allFiles), ...getQnAFiles(allFiles)]);
-    const result = await crossTrainer.crossTrain(luContents, qnaContents, crossTrainConfig, { importResolver });
+    return await crossTrainer.crossTrain(luContents, qnaContents, crossTrainConfig, { importResolver });
+  }
+
+  private async crossTrain(luFiles: FileInfo[], qnaFiles: FileInfo[], allFiles: FileInfo[]) {
+    const result = await this.crossTrainContents(luFiles, qnaFiles, allFiles);
 
     await this.writeFiles(result.luResult, 'lu');
     await this.writeFiles(result.qnaResult, 'qna');
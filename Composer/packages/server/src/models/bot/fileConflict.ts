@@ -0,0 +1,18 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import crypto from 'crypto';
+
+/**
+ * Version of a file content. Clients send back the eTag of the content they edited so that the
+ * changes made to the file in the meantime are not overwritten.
+ */
+export const getFileETag = (content: string) => crypto.createHash('sha1').update(content).digest('hex');
+
+export class FileConflictError extends Error {
+  constructor(public fileName: string, public content: string, public eTag: string) {
+    super(`${fileName} was changed since it was loaded.`);
+
+    Error.captureStackTrace(this, FileConflictError);
+  }
+}
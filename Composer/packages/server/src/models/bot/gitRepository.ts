@@ -0,0 +1,193 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+import { GitCommit, GitFileChange, GitFileStatus, GitStatus } from '@botframework-composer/types';
+
+const execFileAsync = promisify(execFile);
+
+// large diffs are returned as a whole
+const MAX_BUFFER = 20 * 1024 * 1024;
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+const statusCodes: Record<string, GitFileStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  '?': 'untracked',
+};
+
+export type GitAuthor = {
+  name: string;
+  email: string;
+};
+
+/**
+ * Git commands run on the folder of a bot project, the project may be a sub folder of a larger repository.
+ */
+export class GitRepository {
+  constructor(private dir: string) {}
+
+  public async isRepository(): Promise<boolean> {
+    try {
+      return (await this.git('rev-parse', '--is-inside-work-tree')).trim() === 'true';
+    } catch (err) {
+      return false;
+    }
+  }
+
+  public async init(): Promise<void> {
+    await this.git('init');
+  }
+
+  public async status(): Promise<GitStatus> {
+    if (!(await this.isRepository())) {
+      return { enabled: false, branches: [], changes: [] };
+    }
+
+    const [branch, branches, changes] = await Promise.all([this.currentBranch(), this.branches(), this.changes()]);
+    return { enabled: true, branch, branches, changes };
+  }
+
+  public async commit(message: string, author?: GitAuthor): Promise<void> {
+    await this.git('add', '--all', '--', '.');
+    // falls back to the git configuration of the machine when no author is given
+    const env: Record<string, string> = author
+      ? {
+          GIT_AUTHOR_NAME: author.name,
+          GIT_AUTHOR_EMAIL: author.email,
+          GIT_COMMITTER_NAME: author.name,
+          GIT_COMMITTER_EMAIL: author.email,
+        }
+      : {};
+    await this.gitWithEnv(env, 'commit', '--message', message, '--', '.');
+  }
+
+  public async log(limit = 50): Promise<GitCommit[]> {
+    const format = ['%H', '%an', '%ae', '%aI', '%s'].join(FIELD_SEPARATOR) + RECORD_SEPARATOR;
+    let output: string;
+    try {
+      output = await this.git('log', `--max-count=${limit}`, `--format=${format}`, '--', '.');
+    } catch (err) {
+      // a new repository does not have any commit yet
+      return [];
+    }
+
+    return output
+      .split(RECORD_SEPARATOR)
+      .map((record) => record.trim())
+      .filter((record) => !!record)
+      .map((record) => {
+        const [hash, author, email, date, message] = record.split(FIELD_SEPARATOR);
+        return { hash, author, email, date, message };
+      });
+  }
+
+  /**
+   * Unified diff of the working tree against the last commit, or of a commit against its parent.
+   */
+  public async diff(path?: string, commit?: string): Promise<string> {
+    const paths = ['--', path || '.'];
+    if (commit) {
+      await this.verifyRevision(commit);
+      return await this.git('show', '--format=', '--end-of-options', commit, ...paths);
+    }
+    return await this.git('diff', 'HEAD', ...paths);
+  }
+
+  /**
+   * Content of a file of the project at a revision, the path is relative to the project folder.
+   */
+  public async show(path: string, revision = 'HEAD'): Promise<string> {
+    await this.verifyRevision(revision);
+    return await this.git('show', '--end-of-options', `${revision}:./${path.replace(/\\/g, '/')}`);
+  }
+
+  public async checkout(branch: string, create = false): Promise<void> {
+    if ((await this.changes()).length) {
+      throw new Error('Commit the changes of the bot before switching branches.');
+    }
+    if (create) {
+      await this.verifyBranchName(branch);
+      await this.git('switch', `--create=${branch}`);
+    } else {
+      await this.verifyRevision(`refs/heads/${branch}`, branch);
+      await this.git('switch', '--end-of-options', branch);
+    }
+  }
+
+  /**
+   * The revisions and the branches come from the requests, git reads the arguments starting with a dash as options.
+   */
+  private async verifyRevision(revision: string, name = revision): Promise<void> {
+    if (
+      name.startsWith('-') ||
+      !(await this.succeeds('rev-parse', '--verify', '--quiet', '--end-of-options', `${revision}^{commit}`))
+    ) {
+      throw new Error(`Unknown revision ${name}.`);
+    }
+  }
+
+  private async verifyBranchName(branch: string): Promise<void> {
+    if (branch.startsWith('-') || !(await this.succeeds('check-ref-format', '--branch', branch))) {
+      throw new Error(`Invalid branch name ${branch}.`);
+    }
+  }
+
+  private async currentBranch(): Promise<string | undefined> {
+    try {
+      return (await this.git('symbolic-ref', '--short', 'HEAD')).trim();
+    } catch (err) {
+      // detached HEAD
+      return undefined;
+    }
+  }
+
+  private async branches(): Promise<string[]> {
+    const output = await this.git('branch', '--format=%(refname:short)');
+    return output.split('\n').filter((branch) => !!branch);
+  }
+
+  private async changes(): Promise<GitFileChange[]> {
+    // porcelain paths are relative to the root of the repository
+    const prefix = (await this.git('rev-parse', '--show-prefix')).trim();
+    const output = await this.git('status', '--porcelain', '--untracked-files=all', '--', '.');
+    return output
+      .split('\n')
+      .filter((line) => !!line)
+      .map((line) => {
+        const code = line[0] === ' ' || line[0] === '?' ? line[1] : line[0];
+        const path = line.substring(3).split(' -> ').pop() as string;
+        return {
+          path: path.replace(/^"|"$/g, '').substring(prefix.length),
+          status: statusCodes[code] ?? 'modified',
+        };
+      });
+  }
+
+  private async succeeds(...args: string[]): Promise<boolean> {
+    try {
+      await this.git(...args);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+
+  private async git(...args: string[]): Promise<string> {
+    return await this.gitWithEnv({}, ...args);
+  }
+
+  private async gitWithEnv(env: Record<string, string>, ...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.dir,
+      env: { ...process.env, ...env },
+      maxBuffer: MAX_BUFFER,
+    });
+    return stdout;
+  }
+}
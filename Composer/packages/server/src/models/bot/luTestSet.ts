@@ -0,0 +1,270 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import formatMessage from 'format-message';
+import {
+  LuConfusionMatrix,
+  LuIntentMetrics,
+  LuTestCaseResult,
+  LuTestEntity,
+  LuTestReportFormat,
+  LuTestSet,
+  LuTestSetFile,
+  LuTestSetReport,
+  RecognizerSandboxResult,
+} from '@bfc/shared';
+
+import { IFileStorage } from '../storage/interface';
+import { Path } from '../../utility/path';
+
+export const LuTestSetFileExtension = '.lutest';
+
+export const luTestReportFormats: LuTestReportFormat[] = ['json', 'csv'];
+
+const luTestSetPatterns = [
+  `**/*${LuTestSetFileExtension}`,
+  '!(generated/**)',
+  '!(runtime/**)',
+  '!(bin/**)',
+  '!(obj/**)',
+  '!(**/node_modules/**)',
+];
+
+// the intent of the utterances that should not match any intent
+const NoneIntent = 'None';
+
+/**
+ * Parses and validates the content of a .lutest file.
+ */
+export const parseLuTestSet = (content: string): LuTestSet => {
+  let testSet: LuTestSet;
+  try {
+    testSet = JSON.parse(content);
+  } catch (err) {
+    throw new Error(formatMessage('Invalid JSON: {message}', { message: err.message }));
+  }
+
+  if (!testSet || !Array.isArray(testSet.utterances)) {
+    throw new Error(formatMessage('An LU test set requires an "utterances" array.'));
+  }
+  testSet.utterances.forEach((utterance, index) => {
+    if (typeof utterance?.text !== 'string' || typeof utterance.intent !== 'string') {
+      throw new Error(formatMessage('Utterance {index} requires a "text" and an "intent".', { index }));
+    }
+    if (utterance.entities !== undefined && !Array.isArray(utterance.entities)) {
+      throw new Error(formatMessage('The "entities" of utterance {index} must be an array.', { index }));
+    }
+  });
+  return testSet;
+};
+
+export type LoadedLuTestSet = LuTestSetFile & {
+  testSet?: LuTestSet;
+};
+
+/**
+ * Loads every .lutest file in the project folder. The dialog and the locale come from the file name,
+ * e.g. order.en-us.lutest, the default language when it has none. Files that cannot be parsed are returned with an error.
+ */
+export const loadLuTestSets = async (
+  fileStorage: IFileStorage,
+  projectDir: string,
+  defaultLocale: string
+): Promise<LoadedLuTestSet[]> => {
+  const paths = await fileStorage.glob(luTestSetPatterns, projectDir);
+
+  const testSets: LoadedLuTestSet[] = [];
+  for (const relativePath of paths.sort()) {
+    const id = relativePath.replace(/\\/g, '/');
+    const name = Path.basename(id, LuTestSetFileExtension);
+    const index = name.lastIndexOf('.');
+    const dialog = index === -1 ? name : name.substring(0, index);
+    const locale = index === -1 ? defaultLocale : name.substring(index + 1);
+    try {
+      const testSet = parseLuTestSet(await fileStorage.readFile(Path.join(projectDir, relativePath)));
+      testSets.push({
+        id,
+        dialog,
+        locale,
+        description: testSet.description,
+        utteranceCount: testSet.utterances.length,
+        testSet,
+      });
+    } catch (err) {
+      testSets.push({ id, dialog, locale, utteranceCount: 0, error: err.message });
+    }
+  }
+  return testSets;
+};
+
+/**
+ * The recognition of an utterance by the LU file of the dialog, the Orchestrator one when the dialog
+ * has an Orchestrator recognizer and its model is downloaded, the Regex one otherwise.
+ */
+export const pickRecognition = (
+  results: RecognizerSandboxResult[],
+  dialog: string,
+  locale: string
+): RecognizerSandboxResult | undefined => {
+  const id = `${dialog}.${locale}`.toLowerCase();
+  const own = results.filter((result) => result.id.toLowerCase() === id);
+  return (
+    own.find(({ recognizer, error }) => recognizer === 'orchestrator' && !error) ??
+    own.find(({ recognizer }) => recognizer === 'regex')
+  );
+};
+
+const sameEntity = (a: LuTestEntity, b: LuTestEntity) =>
+  a.type === b.type && a.text.trim().toLowerCase() === b.text.trim().toLowerCase();
+
+const getMetrics = (intent: string, results: LuTestCaseResult[]): LuIntentMetrics => {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  results.forEach(({ expectedIntent, predictedIntent }) => {
+    if (expectedIntent === intent && predictedIntent === intent) truePositives++;
+    else if (predictedIntent === intent) falsePositives++;
+    else if (expectedIntent === intent) falseNegatives++;
+  });
+  const precision = truePositives + falsePositives ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives ? truePositives / (truePositives + falseNegatives) : 0;
+  return {
+    intent,
+    support: truePositives + falseNegatives,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: precision + recall ? (2 * precision * recall) / (precision + recall) : 0,
+  };
+};
+
+const getConfusionMatrix = (results: LuTestCaseResult[]): LuConfusionMatrix => {
+  const labels = new Set<string>();
+  results.forEach(({ expectedIntent, predictedIntent }) => {
+    labels.add(expectedIntent);
+    labels.add(predictedIntent);
+  });
+  const intents = Array.from(labels).sort();
+  const counts = intents.map(() => intents.map(() => 0));
+  results.forEach(({ expectedIntent, predictedIntent }) => {
+    counts[intents.indexOf(expectedIntent)][intents.indexOf(predictedIntent)]++;
+  });
+  return { intents, counts };
+};
+
+/**
+ * Compares the recognition of each utterance of the test set, in the same order, with the expected intent and entities.
+ * The predicted intent is the one with the highest score.
+ */
+export const evaluateLuTestSet = (
+  testSetFile: LoadedLuTestSet,
+  recognitions: (RecognizerSandboxResult | undefined)[]
+): LuTestSetReport => {
+  const { testSet, ...file } = testSetFile;
+  const utterances = testSet?.utterances ?? [];
+  const error =
+    file.error ??
+    recognitions.find((recognition) => recognition?.error)?.error ??
+    (utterances.length && recognitions.some((recognition) => !recognition)
+      ? formatMessage('The dialog has no LU file {dialog}.{locale}.', { dialog: file.dialog, locale: file.locale })
+      : undefined);
+
+  const results: LuTestCaseResult[] = error
+    ? []
+    : utterances.map(({ text, intent, entities = [] }, index) => {
+        const recognition = recognitions[index] as RecognizerSandboxResult;
+        const top = recognition.intents.reduce((best, current) => (current.score > best.score ? current : best), {
+          intent: NoneIntent,
+          score: 0,
+        });
+        const missingEntities = entities.filter(
+          (expected) => !recognition.entities.some((entity) => sameEntity(expected, entity))
+        );
+        return {
+          text,
+          expectedIntent: intent,
+          predictedIntent: top.intent,
+          score: top.score,
+          expectedEntities: entities,
+          missingEntities,
+          passed: top.intent === intent && missingEntities.length === 0,
+        };
+      });
+
+  const passed = results.filter((result) => result.passed).length;
+  const confusionMatrix = getConfusionMatrix(results);
+  return {
+    ...file,
+    error,
+    recognizer: error ? undefined : recognitions[0]?.recognizer,
+    passed,
+    failed: results.length - passed,
+    accuracy: results.length ? passed / results.length : 0,
+    results,
+    intents: confusionMatrix.intents.map((intent) => getMetrics(intent, results)),
+    confusionMatrix,
+  };
+};
+
+const toCsvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values: (string | number)[]) => values.map(toCsvField).join(',');
+
+const formatRatio = (value: number) => value.toFixed(4);
+
+/**
+ * The metrics of the intents of every test set, then the confusion matrix of each one, expected intents in rows.
+ */
+export const toLuTestReportCsv = (reports: LuTestSetReport[]) => {
+  const lines = [
+    toCsvRow([
+      'testSet',
+      'dialog',
+      'locale',
+      'recognizer',
+      'intent',
+      'support',
+      'truePositives',
+      'falsePositives',
+      'falseNegatives',
+      'precision',
+      'recall',
+      'f1',
+    ]),
+  ];
+  reports.forEach(({ id, dialog, locale, recognizer = '', intents }) => {
+    intents.forEach((metrics) =>
+      lines.push(
+        toCsvRow([
+          id,
+          dialog,
+          locale,
+          recognizer,
+          metrics.intent,
+          metrics.support,
+          metrics.truePositives,
+          metrics.falsePositives,
+          metrics.falseNegatives,
+          formatRatio(metrics.precision),
+          formatRatio(metrics.recall),
+          formatRatio(metrics.f1),
+        ])
+      )
+    );
+  });
+
+  reports.forEach(({ id, confusionMatrix }) => {
+    if (!confusionMatrix.intents.length) return;
+    lines.push('', toCsvRow([`${id} expected \\ predicted`, ...confusionMatrix.intents]));
+    confusionMatrix.intents.forEach((intent, row) => lines.push(toCsvRow([intent, ...confusionMatrix.counts[row]])));
+  });
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const createLuTestReport = (reports: LuTestSetReport[], format: LuTestReportFormat) =>
+  format === 'csv' ? toLuTestReportCsv(reports) : JSON.stringify(reports, null, 2);
@@ -4,7 +4,7 @@ import fs from 'fs';
 import { fork, ChildProcess } from 'child_process';
 import path from 'path';
 
-import { FileInfo } from '@bfc/shared';
+import { FileInfo, RecognizedIntent } from '@bfc/shared';
 import uniqueId from 'lodash/uniqueId';
 
 import { ResponseMsg } from './types';
@@ -33,6 +33,21 @@ class OrchestratorBuilder {
     });
   }
 
+  public async score(
+    projectId: string,
+    files: FileInfo[],
+    modelPath: string,
+    utterances: string[]
+  ): Promise<Record<string, RecognizedIntent[][]>> {
+    const msgId = uniqueId();
+    const msg = { id: msgId, payload: { projectId, files, type: 'score', modelPath, utterances } };
+    return new Promise((resolve, reject) => {
+      this.resolves[msgId] = resolve;
+      this.rejects[msgId] = reject;
+      OrchestratorBuilder.worker.send(msg);
+    });
+  }
+
   public async warmupCache(projectId: string, generatedFolderPath: string) {
     const msgId = uniqueId();
     const msg = { id: msgId, payload: { type: 'warmup', projectId, generatedFolderPath } };
@@ -1,8 +1,9 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { FileInfo } from '@bfc/shared';
+import { FileInfo, RecognizedIntent } from '@bfc/shared';
 import { LabelResolver, Orchestrator } from '@microsoft/bf-orchestrator';
+import { LabelType } from '@microsoft/bf-dispatcher/lib/label_structure/LabelType';
 import { writeFile, readdir, readFile, pathExists, readJson } from 'fs-extra';
 import partition from 'lodash/partition';
 
@@ -175,6 +176,40 @@ export async function orchestratorBuilder(
   return result;
 }
 
+/**
+ * Orchestrator: Score utterances with the label resolvers of the .lu files, built from their snapshots or taken from the cache.
+ *
+ * @param files - Array of FileInfo
+ * @param modelPath - Path to NLR model folder
+ * @param utterances - Texts to score
+ * @returns The intents of each .lu file for each utterance, from the highest score
+ */
+export async function orchestratorScore(
+  projectId: string,
+  files: FileInfo[],
+  modelPath: string,
+  utterances: string[]
+): Promise<Record<string, RecognizedIntent[][]>> {
+  await orchestratorBuilder(projectId, files, modelPath, false);
+
+  const labelResolvers = cache.get(projectId);
+  const scores: Record<string, RecognizedIntent[][]> = {};
+  for (const { name } of files) {
+    const labelResolver = labelResolvers.get(name);
+    if (!labelResolver) continue;
+
+    scores[name] = utterances.map((utterance) => {
+      const results: { label: { name: string }; score: number }[] = LabelResolver.score(
+        utterance,
+        LabelType.Intent,
+        labelResolver
+      );
+      return results.map(({ label, score }) => ({ intent: label.name, score })).sort((a, b) => b.score - a.score);
+    });
+  }
+  return scores;
+}
+
 export async function writeSnapshot(output: IOrchestratorBuildOutput, generatedFolderPath: string) {
   // write snapshot data into /generated folder
   const snapshots: Record<string, string> = {};
@@ -198,6 +233,12 @@ export const handleMessage = async (msg: RequestMsg) => {
         process.send?.({ id: msg.id, payload: snapshots });
         break;
       }
+      case 'score': {
+        const { files, modelPath, projectId, utterances } = payload;
+        const scores = await orchestratorScore(projectId, files, modelPath, utterances);
+        process.send?.({ id: msg.id, payload: scores });
+        break;
+      }
       case 'warmup': {
         const { generatedFolderPath, projectId } = payload;
         const done = await warmUpCache(generatedFolderPath, projectId);
@@ -10,9 +10,17 @@ export type BuildPayload = {
   generatedFolderPath: string;
 };
 
+export type ScorePayload = {
+  type: 'score';
+  projectId: string;
+  files: FileInfo[];
+  modelPath: string;
+  utterances: string[];
+};
+
 export type RequestMsg = {
   id: string;
-  payload: BuildPayload;
+  payload: BuildPayload | ScorePayload;
 };
 
 export type ResponseMsg = {
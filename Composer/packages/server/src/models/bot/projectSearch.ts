@@ -0,0 +1,433 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import vm from 'vm';
+
+import {
+  ProjectReplaceRequest,
+  ProjectReplaceResult,
+  ProjectSearchFileType,
+  ProjectSearchMatch,
+  ProjectSearchQuery,
+  ProjectSearchResult,
+} from '@bfc/shared';
+
+type ProjectFile = { name: string; content: string };
+
+type MatchLocation = Omit<ProjectSearchMatch, 'id' | 'text' | 'start' | 'end' | 'replacement'>;
+
+type DialogLocation = Pick<MatchLocation, 'triggerIndex' | 'triggerName' | 'actionPath' | 'actionName'>;
+
+// the actions by the designer id, which names the LG templates of their responses, and the triggers by intent
+type DialogIndex = {
+  actions: Record<string, DialogLocation>;
+  intents: Record<string, DialogLocation>;
+};
+
+// the part of a line of a LG, LU or QnA file searched from an offset, e.g. an utterance after '- '
+type SearchedLine = { index: number; start: number; name?: string };
+
+// visits a searched text from an offset, and returns it with the replacements
+type TextVisitor = (text: string, from: number, location: MatchLocation) => string;
+
+const MAX_MATCHES = 1000;
+
+// milliseconds a search or a replace may take, a regular expression which backtracks for longer is rejected
+const SEARCH_TIMEOUT = 2000;
+
+const runScript = new vm.Script('run()');
+
+const allFileTypes: ProjectSearchFileType[] = ['dialog', 'lg', 'lu', 'qna'];
+
+const fenceRegex = /^\s*```/;
+
+// a reference to a LG template, e.g. ${SendActivity_send0()}
+const templateReferenceRegex = /\$\{\s*([a-zA-Z_][\w.-]*)\s*\(/g;
+
+const getFileType = (name: string): ProjectSearchFileType | undefined => {
+  // the recognizers are generated from the LU and QnA files
+  if (name.endsWith('.lu.dialog') || name.endsWith('.qna.dialog')) return;
+  const extension = name.substring(name.lastIndexOf('.') + 1);
+  return allFileTypes.find((type) => type === extension);
+};
+
+// main.en-us.lg => main and en-us, common.lg => common
+const parseFileName = (name: string) => {
+  const id = name.substring(0, name.lastIndexOf('.'));
+  const separator = id.lastIndexOf('.');
+  return separator > 0 ? { id: id.substring(0, separator), locale: id.substring(separator + 1) } : { id, locale: '' };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The regular expression of a search, which throws a SyntaxError for an invalid pattern.
+ */
+export const createSearchRegExp = ({ pattern, isRegex, matchCase, wholeWord }: ProjectSearchQuery): RegExp => {
+  const source = isRegex ? pattern : escapeRegExp(pattern);
+  // the pattern comes from the user, it is only matched within the time limit of runWithTimeout
+  // eslint-disable-next-line security/detect-non-literal-regexp
+  return new RegExp(wholeWord ? `\\b(?:${source})\\b` : source, matchCase ? 'g' : 'gi');
+};
+
+// runs the matching of a search in a script with a time limit, which interrupts a catastrophic backtracking
+const runWithTimeout = <T>(run: () => T): T => {
+  try {
+    return runScript.runInContext(vm.createContext({ run }), { timeout: SEARCH_TIMEOUT });
+  } catch (error) {
+    if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error('The regular expression takes too long to match, simplify it or narrow the search.');
+    }
+    throw error;
+  }
+};
+
+// the matches of the regular expression in the text from an offset, without the empty ones
+const execAll = (regex: RegExp, text: string, from: number): RegExpExecArray[] => {
+  const matches: RegExpExecArray[] = [];
+  regex.lastIndex = from;
+  let match = regex.exec(text);
+  while (match) {
+    if (match[0]) {
+      matches.push(match);
+    } else {
+      regex.lastIndex++;
+    }
+    match = regex.exec(text);
+  }
+  return matches;
+};
+
+// the matches of a query in a text, without the ones in the names of the LG templates it refers to
+const findMatches = (regex: RegExp, text: string, from: number): RegExpExecArray[] => {
+  const references = text.includes('${')
+    ? execAll(templateReferenceRegex, text, 0).map((reference) => {
+        const start = reference.index + reference[0].indexOf(reference[1]);
+        return { start, end: start + reference[1].length };
+      })
+    : [];
+  return execAll(regex, text, from).filter((match) =>
+    references.every(({ start, end }) => match.index >= end || match.index + match[0].length <= start)
+  );
+};
+
+/**
+ * The text replacing a match. The replacement of a regular expression refers to the groups like String.replace.
+ */
+export const expandReplacement = (replacement: string, match: RegExpExecArray, isRegex?: boolean): string => {
+  if (!isRegex) return replacement;
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token: string, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const group = Number(ref);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+};
+
+const getMatchId = (location: MatchLocation, match: RegExpExecArray) =>
+  `${location.fileName}#${location.propertyPath ?? location.line}#${match.index}#${match[0]}`;
+
+// -------------------- dialogs -------------------- //
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const getItemName = (item: Record<string, any>): string | undefined => item.$designer?.name || item.$kind;
+
+// the properties referring to the other dialogs, the LG and LU files and the intents, replacing them breaks the bot
+const referenceProperties = ['dialog', 'recognizer', 'generator', 'intent'];
+
+// the kinds, the ids of the dialogs and the designer ids identify the items, they are not searched
+const isSearchedProperty = (path: string, key: string) =>
+  key !== '$kind' &&
+  key !== '$schema' &&
+  !(key === 'id' && (path === '' || path.endsWith('$designer'))) &&
+  !referenceProperties.includes(key);
+
+const getItemLocation = <T extends DialogLocation>(item: Record<string, any>, path: string, location: T): T => {
+  const trigger = /^triggers\[(\d+)\]$/.exec(path);
+  if (trigger) {
+    return { ...location, triggerIndex: Number(trigger[1]), triggerName: getItemName(item) };
+  }
+  if (location.triggerIndex !== undefined && typeof item.$kind === 'string') {
+    return { ...location, actionPath: path, actionName: getItemName(item) };
+  }
+  return location;
+};
+
+const walkDialog = (value: unknown, path: string, location: MatchLocation, visit: TextVisitor): unknown => {
+  if (typeof value === 'string') {
+    return visit(value, 0, { ...location, propertyPath: path });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => walkDialog(item, `${path}[${index}]`, location, visit));
+  }
+  if (isObject(value)) {
+    const itemLocation = getItemLocation(value, path, location);
+    return Object.keys(value).reduce((result, key) => {
+      result[key] = isSearchedProperty(path, key)
+        ? walkDialog(value[key], joinPath(path, key), itemLocation, visit)
+        : value[key];
+      return result;
+    }, {});
+  }
+  return value;
+};
+
+const indexDialog = (value: unknown, path: string, location: DialogLocation, index: DialogIndex) => {
+  if (Array.isArray(value)) {
+    value.forEach((item, itemIndex) => indexDialog(item, `${path}[${itemIndex}]`, location, index));
+  } else if (isObject(value)) {
+    const itemLocation = getItemLocation(value, path, location);
+    if (itemLocation.actionPath === path && value.$designer?.id) {
+      index.actions[value.$designer.id] = itemLocation;
+    }
+    if (itemLocation.triggerIndex !== undefined && !itemLocation.actionPath && typeof value.intent === 'string') {
+      index.intents[value.intent] = itemLocation;
+    }
+    Object.keys(value).forEach((key) => indexDialog(value[key], joinPath(path, key), itemLocation, index));
+  }
+};
+
+const parseDialog = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    // the invalid dialogs are reported by the diagnostics
+    return undefined;
+  }
+};
+
+const visitDialog = (name: string, content: string, visit: TextVisitor): string => {
+  const dialog = parseDialog(content);
+  if (dialog === undefined) return content;
+
+  let changed = false;
+  const location: MatchLocation = { fileType: 'dialog', fileName: name, dialogId: parseFileName(name).id };
+  const result = walkDialog(dialog, '', location, (text, from, textLocation) => {
+    const newText = visit(text, from, textLocation);
+    changed = changed || newText !== text;
+    return newText;
+  });
+  return changed ? JSON.stringify(result, null, 2) + '\n' : content;
+};
+
+// -------------------- LG, LU and QnA files -------------------- //
+
+// the template bodies, without the comments
+const scanLgLines = (lines: string[]): SearchedLine[] => {
+  const searched: SearchedLine[] = [];
+  let template = '';
+  let inMultiline = false;
+  lines.forEach((line, index) => {
+    const text = line.trim();
+    if (!inMultiline && text.startsWith('#')) {
+      template = text.substring(1).replace(/\(.*$/, '').trim();
+      return;
+    }
+    // the fence of a multiline text is in a variation line, e.g. - ```
+    if ((line.match(/```/g) ?? []).length % 2 === 1) {
+      inMultiline = !inMultiline;
+    }
+    if (!template || !text || (text.startsWith('>') && !inMultiline)) return;
+    searched.push({ index, start: /^\s*-?\s*/.exec(line)?.[0].length ?? 0, name: template });
+  });
+  return searched;
+};
+
+// the utterances of the intents, without the entity definitions and their list values
+const scanLuLines = (lines: string[]): SearchedLine[] => {
+  const searched: SearchedLine[] = [];
+  let intent = '';
+  lines.forEach((line, index) => {
+    const text = line.trim();
+    if (text.startsWith('#')) {
+      intent = text.replace(/^#+/, '').trim();
+    } else if (/^[@$[]/.test(text)) {
+      intent = '';
+    } else if (intent && /^[-*+]\s/.test(text)) {
+      searched.push({ index, start: /^\s*[-*+]\s*/.exec(line)?.[0].length ?? 0, name: intent });
+    }
+  });
+  return searched;
+};
+
+// the questions and the answers of the pairs, without the filters and the prompts
+const scanQnALines = (lines: string[]): SearchedLine[] => {
+  const searched: SearchedLine[] = [];
+  let question = '';
+  let inQuestions = false;
+  let inAnswer = false;
+  lines.forEach((line, index) => {
+    const text = line.trim();
+    if (fenceRegex.test(line)) {
+      inAnswer = !inAnswer;
+      inQuestions = false;
+    } else if (inAnswer) {
+      if (question && text) searched.push({ index, start: 0, name: question });
+    } else if (/^#+\s*\?/.test(text)) {
+      const start = /^\s*#+\s*\?\s*/.exec(line)?.[0].length ?? 0;
+      question = line.substring(start).trim();
+      inQuestions = true;
+      searched.push({ index, start, name: question });
+    } else if (/^\*\*Filters:\*\*/i.test(text)) {
+      inQuestions = false;
+    } else if (inQuestions && /^[-*+]\s/.test(text)) {
+      searched.push({ index, start: /^\s*[-*+]\s*/.exec(line)?.[0].length ?? 0, name: question });
+    }
+  });
+  return searched;
+};
+
+const lineScanners = {
+  lg: scanLgLines,
+  lu: scanLuLines,
+  qna: scanQnALines,
+};
+
+// the action whose response is the template, e.g. SendActivity_R4nd0m is the one with the designer id R4nd0m
+const getTemplateLocation = (index: DialogIndex | undefined, template: string): DialogLocation =>
+  index?.actions[template.substring(template.lastIndexOf('_') + 1)] ?? {};
+
+const visitLines = (
+  type: 'lg' | 'lu' | 'qna',
+  name: string,
+  content: string,
+  dialogIndex: DialogIndex | undefined,
+  visit: TextVisitor
+): string => {
+  const { id, locale } = parseFileName(name);
+  const lines = content.split('\n');
+  const texts = lines.map((line) => line.replace(/\r$/, ''));
+
+  let changed = false;
+  lineScanners[type](texts).forEach(({ index, start, name: itemName }) => {
+    const dialogLocation =
+      (type === 'lg' && itemName && getTemplateLocation(dialogIndex, itemName)) ||
+      (type === 'lu' && itemName && dialogIndex?.intents[itemName]) ||
+      {};
+    const text = texts[index];
+    const newText = visit(text, start, {
+      fileType: type,
+      fileName: name,
+      dialogId: id,
+      locale,
+      ...dialogLocation,
+      name: itemName,
+      line: index + 1,
+    });
+    if (newText !== text) {
+      lines[index] = lines[index].endsWith('\r') ? `${newText}\r` : newText;
+      changed = true;
+    }
+  });
+  return changed ? lines.join('\n') : content;
+};
+
+const indexDialogs = (files: ProjectFile[]) => {
+  const indexes: Record<string, DialogIndex> = {};
+  files.forEach(({ name, content }) => {
+    if (getFileType(name) !== 'dialog') return;
+    const index: DialogIndex = { actions: {}, intents: {} };
+    indexDialog(parseDialog(content), '', {}, index);
+    indexes[parseFileName(name).id] = index;
+  });
+  return indexes;
+};
+
+// visits the searched texts of the files in the scope of the query, and returns the changed files
+const visitFiles = (files: ProjectFile[], query: ProjectSearchQuery, visit: TextVisitor): ProjectFile[] => {
+  const fileTypes = query.fileTypes?.length ? query.fileTypes : allFileTypes;
+  const locales = query.locales ?? [];
+  const dialogIndexes = indexDialogs(files);
+
+  const changedFiles: ProjectFile[] = [];
+  files.forEach(({ name, content }) => {
+    const type = getFileType(name);
+    if (!type || !fileTypes.includes(type)) return;
+
+    let newContent = content;
+    if (type === 'dialog') {
+      newContent = visitDialog(name, content, visit);
+    } else {
+      const { id, locale } = parseFileName(name);
+      if (locales.length && !locales.includes(locale)) return;
+      newContent = visitLines(type, name, content, dialogIndexes[id], visit);
+    }
+
+    if (newContent !== content) {
+      changedFiles.push({ name, content: newContent });
+    }
+  });
+  return changedFiles;
+};
+
+/**
+ * Finds the matches of a query in the property values of the dialogs, the LG template bodies, the LU utterances
+ * and the QnA pairs. With a replacement, the matches have the text replacing them to preview a replace.
+ */
+export const searchFiles = (
+  files: ProjectFile[],
+  query: ProjectSearchQuery,
+  replacement?: string
+): ProjectSearchResult => {
+  const regex = createSearchRegExp(query);
+  const matches: ProjectSearchMatch[] = [];
+  let truncated = false;
+
+  runWithTimeout(() =>
+    visitFiles(files, query, (text, from, location) => {
+      findMatches(regex, text, from).forEach((match) => {
+        if (matches.length >= MAX_MATCHES) {
+          truncated = true;
+          return;
+        }
+        const item: ProjectSearchMatch = {
+          id: getMatchId(location, match),
+          ...location,
+          text,
+          start: match.index,
+          end: match.index + match[0].length,
+        };
+        if (replacement !== undefined) {
+          item.replacement = expandReplacement(replacement, match, query.isRegex);
+        }
+        matches.push(item);
+      });
+      return text;
+    })
+  );
+
+  return { matches, truncated };
+};
+
+/**
+ * Replaces the matches of a query, or the ones with the given ids if they still match, and returns the changed files
+ * without saving them, with the matches left in them. The dialogs are rewritten as formatted JSON.
+ */
+export const replaceInFiles = (files: ProjectFile[], request: ProjectReplaceRequest): ProjectReplaceResult => {
+  const regex = createSearchRegExp(request);
+  const matchIds = request.matchIds ? new Set(request.matchIds) : undefined;
+  let replaced = 0;
+
+  const changedFiles = runWithTimeout(() =>
+    visitFiles(files, request, (text, from, location) => {
+      let result = '';
+      let offset = 0;
+      findMatches(regex, text, from).forEach((match) => {
+        if (matchIds && !matchIds.has(getMatchId(location, match))) return;
+        result += text.substring(offset, match.index) + expandReplacement(request.replacement, match, request.isRegex);
+        offset = match.index + match[0].length;
+        replaced++;
+      });
+      return offset ? result + text.substring(offset) : text;
+    })
+  );
+
+  const contents = new Map(changedFiles.map(({ name, content }) => [name, content]));
+  const newFiles = files.map(({ name, content }) => ({ name, content: contents.get(name) ?? content }));
+  return { replaced, files: changedFiles, search: searchFiles(newFiles, request, request.replacement) };
+};
@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { PseudoLocale } from '@bfc/shared';
+
+import { extractTranslationUnits, findExpressionEnd } from './xliff';
+
+type ProjectFile = { name: string; content: string };
+
+const accents: Record<string, string> = {
+  a: 'á',
+  b: 'ƀ',
+  c: 'ç',
+  d: 'đ',
+  e: 'é',
+  f: 'ƒ',
+  g: 'ĝ',
+  h: 'ĥ',
+  i: 'í',
+  j: 'ĵ',
+  k: 'ķ',
+  l: 'ļ',
+  m: 'ɱ',
+  n: 'ñ',
+  o: 'ö',
+  p: 'þ',
+  q: 'ǫ',
+  r: 'ŕ',
+  s: 'š',
+  t: 'ţ',
+  u: 'ü',
+  v: 'ṽ',
+  w: 'ŵ',
+  x: 'ẋ',
+  y: 'ý',
+  z: 'ž',
+  A: 'Å',
+  B: 'Ɓ',
+  C: 'Ç',
+  D: 'Đ',
+  E: 'É',
+  F: 'Ƒ',
+  G: 'Ĝ',
+  H: 'Ĥ',
+  I: 'Í',
+  J: 'Ĵ',
+  K: 'Ķ',
+  L: 'Ļ',
+  M: 'Ṁ',
+  N: 'Ñ',
+  O: 'Ö',
+  P: 'Þ',
+  Q: 'Ǫ',
+  R: 'Ŕ',
+  S: 'Š',
+  T: 'Ţ',
+  U: 'Ü',
+  V: 'Ṽ',
+  W: 'Ŵ',
+  X: 'Ẋ',
+  Y: 'Ý',
+  Z: 'Ž',
+};
+
+// translations are often longer than English, by about 40% for short texts
+const expansionRatio = 0.4;
+
+/**
+ * Accents the letters of the text and pads it in brackets, e.g. Hello ${user.name}! => [Ĥéļļö ${user.name}! ~~~~].
+ * ${expressions}, SSML tags, XML entities and escaped characters are kept as they are.
+ */
+export const pseudoLocalizeText = (text: string): string => {
+  let result = '';
+  let letters = 0;
+  let offset = 0;
+  while (offset < text.length) {
+    const char = text[offset];
+    let end = offset + 1;
+    if (text.startsWith('${', offset)) {
+      end = findExpressionEnd(text, offset);
+    } else if (char === '<' && /^<\/?[a-zA-Z][^<>]*>/.test(text.substring(offset))) {
+      end = text.indexOf('>', offset) + 1;
+    } else if (char === '&' && /^&#?\w+;/.test(text.substring(offset))) {
+      end = text.indexOf(';', offset) + 1;
+    } else if (char === '\\') {
+      end = Math.min(offset + 2, text.length);
+    } else if (accents[char]) {
+      result += accents[char];
+      letters++;
+      offset = end;
+      continue;
+    }
+    result += text.substring(offset, end);
+    offset = end;
+  }
+
+  if (letters === 0) return text;
+
+  const padding = `~`.repeat(Math.max(1, Math.ceil(letters * expansionRatio)));
+  // the brackets go inside the root element of SSML, e.g. <speak>, to keep it valid
+  const ssml = /^(<[a-zA-Z][^<>]*>)([\s\S]*)(<\/[a-zA-Z][^<>]*>)$/.exec(result);
+  if (ssml) {
+    return `${ssml[1]}[${ssml[2]} ${padding}]${ssml[3]}`;
+  }
+  return `[${result} ${padding}]`;
+};
+
+/**
+ * Pseudo-localizes the variations and the structured response texts of the LG file, see extractTranslationUnits.
+ */
+export const pseudoLocalizeLg = (content: string): string => {
+  const units = extractTranslationUnits('.lg', content);
+  return units.reduceRight((result, { name, start, end, text }) => {
+    // the values of structured properties are lists separated by |, e.g. SuggestedActions = Yes | No
+    const isStructured = !/\/\d+$/.test(name);
+    const localized = isStructured
+      ? text
+          .split('|')
+          .map((item) => {
+            const value = item.trim();
+            return value ? item.replace(value, () => pseudoLocalizeText(value)) : item;
+          })
+          .join('|')
+      : pseudoLocalizeText(text);
+    return result.substring(0, start) + localized + result.substring(end);
+  }, content);
+};
+
+/**
+ * Pseudo-locale LG files of the LG files of the default language, e.g. main.en-us.lg => main.qps-ploc.lg.
+ */
+export const createPseudoLocaleFiles = (files: ProjectFile[], defaultLanguage: string): ProjectFile[] => {
+  const suffix = `.${defaultLanguage}.lg`;
+  return files
+    .filter(({ name }) => name.endsWith(suffix))
+    .map(({ name, content }) => ({
+      name: `${name.substring(0, name.length - suffix.length)}.${PseudoLocale}.lg`,
+      content: pseudoLocalizeLg(content),
+    }));
+};
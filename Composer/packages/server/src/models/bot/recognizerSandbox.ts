@@ -0,0 +1,220 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import vm from 'vm';
+
+import { RecognizedEntity, RecognizedIntent, RecognizerSandboxResult } from '@bfc/shared';
+
+type LuisEntityLabel = { entity: string; startPos: number; endPos: number };
+type LuisUtterance = { text: string; intent: string; entities?: LuisEntityLabel[] };
+type LuisPattern = { pattern: string; intent: string };
+
+/**
+ * The parts of the LUIS JSON of a model, as parsed by bf-lu, the regular expressions are made of.
+ */
+export type LuisModel = {
+  utterances?: LuisUtterance[];
+  patterns?: LuisPattern[];
+  regex_entities?: { name: string; regexPattern: string }[];
+  closedLists?: { name: string; subLists: { canonicalForm: string; list: string[] }[] }[];
+};
+
+type Matcher = {
+  intent: string;
+  regex: RegExp;
+  /** Entity of each capturing group of the regex. */
+  entities: string[];
+};
+
+// the Regex recognizer returns None when no intent matches
+const NoneIntent = 'None';
+
+// the utterances of LUIS are at most 500 characters long
+const MAX_UTTERANCE_LENGTH = 500;
+
+// milliseconds the recognition of an utterance may take, the regex entities of the LU files may backtrack for longer
+const RECOGNIZE_TIMEOUT = 2000;
+
+const runScript = new vm.Script('run()');
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const trimEnd = (text: string) => text.replace(/[\s.!?]+$/, '');
+
+const toSource = (text: string, space: string) => escapeRegex(text).replace(/\s+/g, space);
+
+// the source is escaped text of the LU file with the patterns of the matchers
+// eslint-disable-next-line security/detect-non-literal-regexp
+const toRegex = (source: string) => new RegExp(`^\\s*${source}[\\s.!?]*$`, 'i');
+
+// book a flight to {@city=Seattle} => book\s+a\s+flight\s+to\s+(.+?)
+const utteranceMatcher = ({ text, intent, entities: labels = [] }: LuisUtterance): Matcher => {
+  const entities: string[] = [];
+  let source = '';
+  let last = 0;
+  [...labels]
+    .sort((a, b) => a.startPos - b.startPos)
+    .forEach(({ entity, startPos, endPos }) => {
+      // nested entities are part of the text of their parent
+      if (startPos < last) return;
+      source += `${toSource(text.slice(last, startPos), '\\s+')}(.+?)`;
+      entities.push(entity);
+      last = endPos + 1;
+    });
+  source += toSource(trimEnd(text.slice(last)), '\\s+');
+  return { intent, regex: toRegex(source), entities };
+};
+
+// book [a] flight to {city} => book\s*(?:a)?\s*flight\s*to\s*(.+?)
+const patternMatcher = ({ pattern, intent }: LuisPattern): Matcher => {
+  const entities: string[] = [];
+  const source = trimEnd(pattern.trim())
+    .split(/(\{[^}]+\}|[[\]()|])/)
+    .map((part) => {
+      const entity = /^\{@?([^}]+)\}$/.exec(part);
+      if (entity) {
+        entities.push(entity[1].trim());
+        return '(.+?)';
+      }
+      switch (part) {
+        case '[':
+        case '(':
+          return '(?:';
+        case ']':
+          return ')?';
+        case ')':
+        case '|':
+          return part;
+        default:
+          return toSource(part, '\\s*');
+      }
+    })
+    .join('');
+  return { intent, regex: toRegex(source), entities };
+};
+
+const getMatchers = (model: LuisModel): Matcher[] => [
+  ...(model.utterances ?? []).filter(({ text }) => text?.trim()).map(utteranceMatcher),
+  ...(model.patterns ?? []).filter(({ pattern }) => pattern?.trim()).map(patternMatcher),
+];
+
+const findAll = (regex: RegExp, text: string) => {
+  const matches: { text: string; start: number }[] = [];
+  let matched: RegExpExecArray | null;
+  while ((matched = regex.exec(text)) !== null) {
+    if (!matched[0]) {
+      regex.lastIndex++;
+      continue;
+    }
+    matches.push({ text: matched[0], start: matched.index });
+  }
+  return matches;
+};
+
+const getRegexEntities = (model: LuisModel, text: string): RecognizedEntity[] =>
+  (model.regex_entities ?? []).reduce((result: RecognizedEntity[], { name, regexPattern }) => {
+    let regex: RegExp;
+    try {
+      // the patterns of the regex entities of the LU files
+      // eslint-disable-next-line security/detect-non-literal-regexp
+      regex = new RegExp(regexPattern, 'gi');
+    } catch {
+      return result;
+    }
+    findAll(regex, text).forEach((matched) =>
+      result.push({
+        type: name,
+        text: matched.text,
+        value: matched.text,
+        start: matched.start,
+        end: matched.start + matched.text.length,
+      })
+    );
+    return result;
+  }, []);
+
+const getListEntities = (model: LuisModel, text: string): RecognizedEntity[] =>
+  (model.closedLists ?? []).reduce((result: RecognizedEntity[], { name, subLists = [] }) => {
+    subLists.forEach(({ canonicalForm, list = [] }) => {
+      [canonicalForm, ...list].forEach((synonym) => {
+        // eslint-disable-next-line security/detect-non-literal-regexp
+        findAll(new RegExp(`\\b${escapeRegex(synonym)}\\b`, 'gi'), text).forEach((matched) =>
+          result.push({
+            type: name,
+            text: matched.text,
+            value: canonicalForm,
+            start: matched.start,
+            end: matched.start + matched.text.length,
+          })
+        );
+      });
+    });
+    return result;
+  }, []);
+
+const recognize = (id: string, model: LuisModel, text: string): RecognizerSandboxResult => {
+  const intents: RecognizedIntent[] = [];
+  const entities: RecognizedEntity[] = [];
+
+  getMatchers(model).forEach(({ intent, regex, entities: types }) => {
+    const matched = regex.exec(text);
+    if (!matched) return;
+    if (!intents.some((item) => item.intent === intent)) {
+      intents.push({ intent, score: 1 });
+    }
+    let offset = 0;
+    types.forEach((type, index) => {
+      const value = matched[index + 1];
+      if (value === undefined) return;
+      const start = text.indexOf(value, offset);
+      offset = start + value.length;
+      entities.push({ type, text: value, value, start, end: offset });
+    });
+  });
+
+  const extracted = [...entities, ...getRegexEntities(model, text), ...getListEntities(model, text)].filter(
+    (entity, index, all) =>
+      all.findIndex(({ type, start, end }) => type === entity.type && start === entity.start && end === entity.end) ===
+      index
+  );
+
+  return {
+    id,
+    recognizer: 'regex',
+    intents: intents.length ? intents : [{ intent: NoneIntent, score: 1 }],
+    entities: extracted.sort((a, b) => a.start - b.start),
+  };
+};
+
+const failed = (id: string, error: string): RecognizerSandboxResult => ({
+  id,
+  recognizer: 'regex',
+  intents: [],
+  entities: [],
+  error,
+});
+
+/**
+ * Recognizes an utterance like the Regex recognizer would with the utterances and patterns of the model as regular expressions.
+ * Every matching intent scores 1, None when none matches. Entities are extracted from the labels and the placeholders
+ * of the matching utterances and patterns, and from the regex and list entities of the model.
+ * The recognition fails for the utterances longer than LUIS accepts, and when the expressions take too long to match.
+ */
+export const recognizeWithRegex = (id: string, model: LuisModel, utterance: string): RecognizerSandboxResult => {
+  const text = utterance.trim();
+  if (text.length > MAX_UTTERANCE_LENGTH) {
+    return failed(id, `The utterance is longer than ${MAX_UTTERANCE_LENGTH} characters.`);
+  }
+
+  // the matching runs in a script with a time limit, which interrupts a catastrophic backtracking
+  try {
+    return runScript.runInContext(vm.createContext({ run: () => recognize(id, model, text) }), {
+      timeout: RECOGNIZE_TIMEOUT,
+    });
+  } catch (error) {
+    if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      return failed(id, 'The utterances, patterns and regex entities take too long to match the utterance.');
+    }
+    throw error;
+  }
+};
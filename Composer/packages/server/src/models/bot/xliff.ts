@@ -0,0 +1,553 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { TranslationImportReport, TranslationImportResult } from '@bfc/shared';
+import { findItems, getSourceHashes, recordSourceHashes } from '@bfc/indexers/lib/utils/translationUtil';
+
+type ProjectFile = { name: string; content: string };
+
+/**
+ * A translatable piece of a LG, LU or QnA file: a template variation or a structured response text,
+ * an utterance, a question or an answer. The name of a unit is the same in every locale file.
+ */
+export type TranslationUnit = {
+  name: string;
+  // offsets of the text in the file
+  start: number;
+  end: number;
+  text: string;
+};
+
+// pieces of the text kept as they are in translations: ${expressions} are placeholders,
+// entity labels {@entity=value} surround the value, which is translated
+type InlinePart =
+  | { type: 'text'; text: string }
+  | { type: 'ph'; data: string }
+  | { type: 'pc'; start: string; end: string; text: string };
+
+// structured response properties shown to users
+const translatedProperties = ['text', 'speak', 'title', 'subtitle', 'suggestedactions', 'alttext', 'displaytext'];
+
+const conditionRegex = /^(IF|ELSEIF|ELSE|SWITCH|CASE|DEFAULT)\s*:/i;
+
+const getExtension = (name: string) => name.substring(name.lastIndexOf('.'));
+
+// lines of the text with their offsets, without line breaks
+const splitLines = (content: string) => {
+  const lines: { text: string; offset: number }[] = [];
+  let offset = 0;
+  content.split('\n').forEach((line) => {
+    lines.push({ text: line.replace(/\r$/, ''), offset });
+    offset += line.length + 1;
+  });
+  return lines;
+};
+
+// unit of the text of a line after the prefix, e.g. after '- ' of an utterance
+const createUnit = (name: string, line: { text: string; offset: number }, prefixLength: number): TranslationUnit => {
+  const text = line.text.substring(prefixLength).trim();
+  const start = line.offset + line.text.indexOf(text, prefixLength);
+  return { name, start, end: start + text.length, text };
+};
+
+const extractLgUnits = (content: string): TranslationUnit[] => {
+  const units: TranslationUnit[] = [];
+  let template = '';
+  let variation = 0;
+  let structureDepth = 0;
+  let inMultiline = false;
+  const properties: Record<string, number> = {};
+
+  splitLines(content).forEach((line) => {
+    const trimmed = line.text.trim();
+    if (inMultiline) {
+      // multiline variations are kept as they are
+      if ((trimmed.match(/```/g) ?? []).length % 2 === 1) inMultiline = false;
+      return;
+    }
+    if (trimmed.startsWith('#')) {
+      template = /^#\s*([^\s(]+)/.exec(trimmed)?.[1] ?? '';
+      variation = 0;
+      structureDepth = 0;
+      Object.keys(properties).forEach((key) => delete properties[key]);
+      return;
+    }
+    if (!template || trimmed.startsWith('>')) return;
+
+    if (trimmed.startsWith('[') && (structureDepth > 0 || variation === 0)) {
+      if (!trimmed.endsWith(']')) structureDepth++;
+      return;
+    }
+    if (structureDepth > 0) {
+      if (trimmed.startsWith(']')) {
+        structureDepth--;
+        return;
+      }
+      const property = /^(\s*)([\w.]+)(\s*=\s*)/.exec(line.text);
+      if (property && translatedProperties.includes(property[2].toLowerCase())) {
+        const key = property[2].toLowerCase();
+        properties[key] = (properties[key] ?? 0) + 1;
+        const name = `${template}/${property[2]}${properties[key] > 1 ? properties[key] : ''}`;
+        units.push(createUnit(name, line, property[0].length));
+      }
+      return;
+    }
+    if (trimmed.startsWith('-')) {
+      const body = trimmed.substring(1).trim();
+      if (body.startsWith('```')) {
+        inMultiline = (body.match(/```/g) ?? []).length % 2 === 1;
+        variation++;
+        return;
+      }
+      if (conditionRegex.test(body)) return;
+      variation++;
+      units.push(createUnit(`${template}/${variation}`, line, line.text.indexOf('-') + 1));
+    }
+  });
+  return units;
+};
+
+const extractLuUnits = (content: string): TranslationUnit[] => {
+  const units: TranslationUnit[] = [];
+  let intent = '';
+  let utterance = 0;
+
+  splitLines(content).forEach((line) => {
+    const trimmed = line.text.trim();
+    if (trimmed.startsWith('#')) {
+      // questions of QnA pairs in LU files are not utterances
+      intent = trimmed.startsWith('# ?') ? '' : trimmed.substring(1).trim();
+      utterance = 0;
+    } else if (trimmed.startsWith('@')) {
+      intent = '';
+    } else if (intent && trimmed.startsWith('-')) {
+      utterance++;
+      units.push(createUnit(`${intent}/${utterance}`, line, line.text.indexOf('-') + 1));
+    }
+  });
+  return units;
+};
+
+const extractQnAUnits = (content: string): TranslationUnit[] => {
+  const units: TranslationUnit[] = [];
+  let pair = 0;
+  let question = 0;
+  let inQuestions = false;
+  let answerStart = -1;
+
+  splitLines(content).forEach((line) => {
+    const trimmed = line.text.trim();
+    if (answerStart !== -1) {
+      if (trimmed.startsWith('```')) {
+        const end = Math.max(line.offset - 1, answerStart);
+        const text = content.substring(answerStart, end).replace(/\r$/, '');
+        if (text.trim())
+          units.push({ name: `${pair}/answer`, start: answerStart, end: answerStart + text.length, text });
+        answerStart = -1;
+      }
+      return;
+    }
+    if (trimmed.startsWith('# ?')) {
+      pair++;
+      question = 1;
+      inQuestions = true;
+      units.push(createUnit(`${pair}/q${question}`, line, line.text.indexOf('?') + 1));
+    } else if (inQuestions && trimmed.startsWith('-')) {
+      question++;
+      units.push(createUnit(`${pair}/q${question}`, line, line.text.indexOf('-') + 1));
+    } else if (pair && trimmed.startsWith('```')) {
+      inQuestions = false;
+      answerStart = line.offset + line.text.length + 1;
+    } else if (trimmed && !trimmed.startsWith('>')) {
+      inQuestions = false;
+    }
+  });
+  return units;
+};
+
+/**
+ * Translatable units of a .lg, .lu or .qna file.
+ */
+export const extractTranslationUnits = (fileName: string, content: string): TranslationUnit[] => {
+  switch (getExtension(fileName)) {
+    case '.lg':
+      return extractLgUnits(content);
+    case '.lu':
+      return extractLuUnits(content);
+    case '.qna':
+      return extractQnAUnits(content);
+    default:
+      return [];
+  }
+};
+
+// end of the ${expression} starting at the offset, with its nested braces and strings
+export const findExpressionEnd = (text: string, start: number) => {
+  let depth = 0;
+  let quote = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return text.length;
+};
+
+const toInlineParts = (fileName: string, text: string): InlinePart[] => {
+  const parts: InlinePart[] = [];
+  const pushText = (value: string) => value && parts.push({ type: 'text', text: value });
+  let offset = 0;
+
+  if (getExtension(fileName) === '.lg') {
+    let start = text.indexOf('${');
+    while (start !== -1) {
+      const end = findExpressionEnd(text, start);
+      pushText(text.substring(offset, start));
+      parts.push({ type: 'ph', data: text.substring(start, end) });
+      offset = end;
+      start = text.indexOf('${', end);
+    }
+  } else if (getExtension(fileName) === '.lu') {
+    const labelRegex = /\{([^{}]*)\}/g;
+    let matched: RegExpExecArray | null;
+    while ((matched = labelRegex.exec(text))) {
+      pushText(text.substring(offset, matched.index));
+      // {entity=value} labels the value, the other {...} are patterns or references
+      const equals = matched[1].indexOf('=');
+      if (equals > 0) {
+        parts.push({
+          type: 'pc',
+          start: `{${matched[1].substring(0, equals + 1)}`,
+          end: '}',
+          text: matched[1].substring(equals + 1),
+        });
+      } else {
+        parts.push({ type: 'ph', data: matched[0] });
+      }
+      offset = matched.index + matched[0].length;
+    }
+  }
+  pushText(text.substring(offset));
+  return parts;
+};
+
+const hasTranslatableText = (fileName: string, text: string) =>
+  toInlineParts(fileName, text).some((part) => part.type !== 'ph' && /[^\W\d_]/.test(part.text));
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// XLIFF inline content of the parts, their placeholders refer to the original data, which is extended
+const toXliffContent = (parts: InlinePart[], data: string[]) => {
+  const addData = (value: string) => {
+    if (!data.includes(value)) data.push(value);
+    return `d${data.indexOf(value) + 1}`;
+  };
+  return parts
+    .map((part, index) => {
+      const id = index + 1;
+      switch (part.type) {
+        case 'text':
+          return escapeXml(part.text);
+        case 'ph':
+          return `<ph id="${id}" dataRef="${addData(part.data)}"/>`;
+        case 'pc':
+          return `<pc id="${id}" dataRefStart="${addData(part.start)}" dataRefEnd="${addData(part.end)}">${escapeXml(
+            part.text
+          )}</pc>`;
+      }
+    })
+    .join('');
+};
+
+// text of XLIFF inline content, with the original data of its placeholders
+const fromXliffContent = (content: string, data: Record<string, string>) => {
+  const dataRefs: string[] = [];
+  const pcEnds: string[] = [];
+  let text = '';
+  let offset = 0;
+  const tagRegex = /<(\/?)([\w:]+)([^>]*?)(\/?)>/g;
+  let matched: RegExpExecArray | null;
+  while ((matched = tagRegex.exec(content))) {
+    text += unescapeXml(content.substring(offset, matched.index));
+    offset = matched.index + matched[0].length;
+    const [, closing, tag, attributes, selfClosing] = matched;
+    const attrs = parseAttributes(attributes);
+    if (tag === 'ph' && attrs.dataRef !== undefined) {
+      dataRefs.push(data[attrs.dataRef]);
+      text += data[attrs.dataRef] ?? '';
+    } else if (tag === 'pc' && !closing) {
+      const start = data[attrs.dataRefStart] ?? '';
+      const end = data[attrs.dataRefEnd] ?? '';
+      dataRefs.push(start, end);
+      text += start;
+      if (selfClosing) {
+        text += end;
+      } else {
+        pcEnds.push(end);
+      }
+    } else if (tag === 'pc' && closing) {
+      text += pcEnds.pop() ?? '';
+    }
+    // the content of other inline elements, e.g. <mrk>, is kept without them
+  }
+  text += unescapeXml(content.substring(offset));
+  return { text, dataRefs: dataRefs.sort() };
+};
+
+const parseAttributes = (attributes: string) => {
+  const attrs: Record<string, string> = {};
+  const attributeRegex = /([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let matched: RegExpExecArray | null;
+  while ((matched = attributeRegex.exec(attributes))) {
+    attrs[matched[1]] = unescapeXml(matched[2] ?? matched[3]);
+  }
+  return attrs;
+};
+
+// segments of the unit, with the content of their source and target, ignorable ones are kept as they are
+const findSegments = (unit: string) => {
+  const segmentRegex = /<(segment|ignorable)\b[^>]*>([\s\S]*?)<\/\1>/g;
+  const segments: { source: string; target?: string }[] = [];
+  let matched: RegExpExecArray | null;
+  while ((matched = segmentRegex.exec(unit))) {
+    const source = findElements(matched[2], 'source')[0]?.content ?? '';
+    const target = findElements(matched[2], 'target')[0]?.content;
+    segments.push({ source, target: matched[1] === 'ignorable' ? target ?? source : target });
+  }
+  return segments;
+};
+
+// elements with the tag in the XML, with their attributes and content
+const findElements = (xml: string, tag: string) => {
+  // eslint-disable-next-line security/detect-non-literal-regexp
+  const elementRegex = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+  const elements: { attrs: Record<string, string>; content: string }[] = [];
+  let matched: RegExpExecArray | null;
+  while ((matched = elementRegex.exec(xml))) {
+    elements.push({ attrs: parseAttributes(matched[1]), content: matched[2] ?? '' });
+  }
+  return elements;
+};
+
+// main.en-us.lg => main.lg
+const removeLocale = (fileName: string, locale: string) =>
+  fileName.replace(`.${locale}${getExtension(fileName)}`, getExtension(fileName));
+
+// main.lg => main.fr-fr.lg
+const addLocale = (fileName: string, locale: string) => {
+  const extension = getExtension(fileName);
+  return `${fileName.substring(0, fileName.length - extension.length)}.${locale}${extension}`;
+};
+
+const getLocaleFiles = (files: ProjectFile[], locale: string) =>
+  files.filter(
+    ({ name }) =>
+      ['.lg', '.lu', '.qna'].includes(getExtension(name)) && name.endsWith(`.${locale}${getExtension(name)}`)
+  );
+
+/**
+ * XLIFF 2.0 document of the translatable units of the LG, LU and QnA files in the source language.
+ * The units translated in the locale files of the target language, whose text differs from the source, have a target.
+ */
+export const exportXliff = (files: ProjectFile[], srcLang: string, trgLang: string): string => {
+  const targetFiles = getLocaleFiles(files, trgLang);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(
+      srcLang
+    )}" trgLang="${escapeXml(trgLang)}">`,
+  ];
+
+  getLocaleFiles(files, srcLang).forEach((file, fileIndex) => {
+    const original = removeLocale(file.name, srcLang);
+    const units = extractTranslationUnits(file.name, file.content).filter(({ text }) =>
+      hasTranslatableText(file.name, text)
+    );
+    if (!units.length) return;
+
+    const targetFile = targetFiles.find(({ name }) => name === addLocale(original, trgLang));
+    const targetUnits = targetFile ? extractTranslationUnits(targetFile.name, targetFile.content) : [];
+
+    lines.push(`  <file id="f${fileIndex + 1}" original="${escapeXml(original)}">`);
+    units.forEach((unit, unitIndex) => {
+      const data: string[] = [];
+      const source = toXliffContent(toInlineParts(file.name, unit.text), data);
+      const targetUnit = targetUnits.find(({ name }) => name === unit.name);
+      const target =
+        targetUnit && targetUnit.text !== unit.text
+          ? toXliffContent(toInlineParts(file.name, targetUnit.text), data)
+          : undefined;
+
+      lines.push(`    <unit id="u${unitIndex + 1}" name="${escapeXml(unit.name)}">`);
+      if (data.length) {
+        lines.push('      <originalData>');
+        data.forEach((value, index) => {
+          lines.push(`        <data id="d${index + 1}">${escapeXml(value)}</data>`);
+        });
+        lines.push('      </originalData>');
+      }
+      lines.push(`      <segment state="${target === undefined ? 'initial' : 'translated'}">`);
+      lines.push(`        <source xml:space="preserve">${source}</source>`);
+      if (target !== undefined) {
+        lines.push(`        <target xml:space="preserve">${target}</target>`);
+      }
+      lines.push('      </segment>');
+      lines.push('    </unit>');
+    });
+    lines.push('  </file>');
+  });
+
+  lines.push('</xliff>');
+  return lines.join('\n') + '\n';
+};
+
+const applyTranslations = (content: string, translations: { unit: TranslationUnit; text: string }[]) =>
+  [...translations]
+    .sort((a, b) => b.unit.start - a.unit.start)
+    .reduce((result, { unit, text }) => result.substring(0, unit.start) + text + result.substring(unit.end), content);
+
+// Greeting/2 => Greeting, 3/answer => 3
+const getItemName = (unitName: string) => unitName.substring(0, unitName.lastIndexOf('/'));
+
+/**
+ * Copies the items of the source file to the locale file, in place of the ones missing some of their units.
+ * The copies keep the texts of the units the locale file already has.
+ */
+const insertItems = (sourceFile: ProjectFile, targetName: string, targetContent: string, itemNames: string[]) => {
+  const sourceItems = findItems(sourceFile.name, sourceFile.content);
+  const sourceUnits = extractTranslationUnits(sourceFile.name, sourceFile.content);
+
+  return itemNames.reduce((content, name) => {
+    const sourceItem = sourceItems.find((item) => item.name === name);
+    if (!sourceItem) return content;
+    const targetItem = findItems(targetName, content).find((item) => item.name === name);
+    const targetUnits = extractTranslationUnits(targetName, content);
+
+    const kept = sourceUnits
+      .filter((unit) => getItemName(unit.name) === name && unit.start >= sourceItem.start && unit.end <= sourceItem.end)
+      .map((unit) => ({
+        unit: { ...unit, start: unit.start - sourceItem.start, end: unit.end - sourceItem.start },
+        text: targetUnits.find((targetUnit) => targetUnit.name === unit.name)?.text,
+      }))
+      .filter((translation): translation is { unit: TranslationUnit; text: string } => translation.text !== undefined);
+    const block = applyTranslations(sourceFile.content.substring(sourceItem.start, sourceItem.end), kept);
+
+    if (targetItem) {
+      return content.substring(0, targetItem.start) + block + content.substring(targetItem.end);
+    }
+    return content.trim() ? `${content.replace(/[\r\n]*$/, '')}\n\n${block}\n` : `${block}\n`;
+  }, targetContent);
+};
+
+/**
+ * Writes the translations of the XLIFF document to the locale files of its target language.
+ * The templates, intents and QnA pairs the locale files miss are copied from the source language first,
+ * the locale files missing altogether are created.
+ * The translations of the units whose source changed since the export, or which changed the expressions
+ * or the entity labels of the source, are not written.
+ */
+export const importXliff = (xliff: string, files: ProjectFile[], srcLang: string): TranslationImportResult => {
+  const document = xliff.replace(/<!--[\s\S]*?-->/g, '');
+  const root = findElements(document, 'xliff')[0];
+  if (!root || !root.attrs.trgLang) {
+    throw new Error('The file is not an XLIFF 2.0 document with a target language.');
+  }
+  if (root.attrs.srcLang && root.attrs.srcLang.toLowerCase() !== srcLang.toLowerCase()) {
+    throw new Error(`The source language of the XLIFF document is not ${srcLang}.`);
+  }
+
+  const locale = root.attrs.trgLang.toLowerCase();
+  const report: TranslationImportReport = { locale, translated: 0, untranslated: [], stale: [], invalid: [] };
+  const sourceFiles = getLocaleFiles(files, srcLang);
+  const targetFiles = getLocaleFiles(files, locale);
+  const updatedFiles: ProjectFile[] = [];
+
+  findElements(document, 'file').forEach((file) => {
+    const original = file.attrs.original ?? '';
+    const sourceFile = sourceFiles.find(({ name }) => name === addLocale(original, srcLang));
+    const targetName = addLocale(original, locale);
+    const targetFile = targetFiles.find(({ name }) => name === targetName);
+    const sourceUnits = sourceFile ? extractTranslationUnits(sourceFile.name, sourceFile.content) : [];
+    const translations: { unit: TranslationUnit; text: string }[] = [];
+
+    const units = findElements(file.content, 'unit').map((unit) => {
+      const data = findElements(unit.content, 'data').reduce((result, { attrs, content }) => {
+        result[attrs.id] = unescapeXml(content);
+        return result;
+      }, {} as Record<string, string>);
+      // a unit may be split into several segments by the translation tools
+      const segments = findSegments(unit.content);
+      const name = unit.attrs.name ?? '';
+      return {
+        name,
+        reportName: `${original}#${unit.attrs.name ?? unit.attrs.id}`,
+        sourceUnit: sourceUnits.find((sourceUnit) => sourceUnit.name === name),
+        source: fromXliffContent(segments.map((segment) => segment.source).join(''), data),
+        translated: segments.every(({ target }) => target !== undefined),
+        target: fromXliffContent(segments.map((segment) => segment.target ?? '').join(''), data),
+      };
+    });
+
+    const originalContent = targetFile?.content ?? '';
+    const originalUnits = extractTranslationUnits(targetName, originalContent);
+    const missingItems = units
+      .filter(
+        ({ name, source, sourceUnit }) =>
+          sourceUnit?.text === source.text && !originalUnits.some((targetUnit) => targetUnit.name === name)
+      )
+      .map(({ name }) => getItemName(name));
+    const targetContent = sourceFile
+      ? insertItems(sourceFile, targetName, originalContent, Array.from(new Set(missingItems)))
+      : originalContent;
+    const targetUnits = extractTranslationUnits(targetName, targetContent);
+
+    units.forEach(({ name, reportName, sourceUnit, source, translated, target }) => {
+      const targetUnit = targetUnits.find((unit) => unit.name === name);
+      if (!sourceUnit || sourceUnit.text !== source.text) {
+        report.stale.push(reportName);
+      } else if (!targetUnit || !translated || !target.text.trim()) {
+        report.untranslated.push(reportName);
+      } else if (
+        target.dataRefs.join('\n') !== source.dataRefs.join('\n') ||
+        // only answers span several lines
+        (target.text.includes('\n') && !sourceUnit.name.endsWith('/answer'))
+      ) {
+        report.invalid.push(reportName);
+      } else {
+        translations.push({ unit: targetUnit, text: target.text });
+      }
+    });
+
+    report.translated += translations.length;
+    // the hashes of the source items tell the translations outdated by later changes of the source
+    const sourceHashes = sourceFile ? getSourceHashes(sourceFile.name, sourceFile.content) : {};
+    const translatedItems = new Set(translations.map(({ unit }) => getItemName(unit.name)));
+    const hashes = Object.keys(sourceHashes)
+      .filter((name) => translatedItems.has(name))
+      .reduce((result, name) => ({ ...result, [name]: sourceHashes[name] }), {} as Record<string, string>);
+    const content = recordSourceHashes(targetName, applyTranslations(targetContent, translations), hashes);
+    if (content !== originalContent) {
+      updatedFiles.push({ name: targetName, content });
+    }
+  });
+
+  return { report, files: updatedFiles };
+};
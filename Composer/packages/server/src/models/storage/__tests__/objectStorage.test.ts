@@ -0,0 +1,102 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { ObjectStorage, ObjectStoreClient, StoredObject } from '../objectStorage';
+
+class MemoryClient implements ObjectStoreClient {
+  public objects = new Map<string, Buffer>();
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    return Array.from(this.objects.keys())
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => this.toStoredObject(key));
+  }
+
+  async head(key: string): Promise<StoredObject | undefined> {
+    return this.objects.has(key) ? this.toStoredObject(key) : undefined;
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const content = this.objects.get(key);
+    if (!content) {
+      throw new Error(`${key} not found`);
+    }
+    return content;
+  }
+
+  async put(key: string, content: Buffer | string): Promise<void> {
+    this.objects.set(key, Buffer.from(content));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  private toStoredObject(key: string) {
+    return { key, size: this.objects.get(key)?.length ?? 0, lastModified: new Date(0) };
+  }
+}
+
+describe('ObjectStorage', () => {
+  let client: MemoryClient;
+  let storage: ObjectStorage;
+
+  beforeEach(() => {
+    client = new MemoryClient();
+    client.objects.set('bots/echo/echo.dialog', Buffer.from('\uFEFF{}'));
+    client.objects.set('bots/echo/language-generation/en-us/echo.en-us.lg', Buffer.from('# greeting'));
+    client.objects.set('bots/echo/generated/echo.lu', Buffer.from(''));
+    client.objects.set('bots/empty/', Buffer.from(''));
+    storage = new ObjectStorage(client);
+  });
+
+  it('should treat key prefixes as folders', async () => {
+    expect(await storage.readDir('/bots')).toEqual(['echo', 'empty']);
+    expect((await storage.stat('/bots/echo')).isDir).toBe(true);
+    expect((await storage.stat('/bots/echo/echo.dialog')).size).toBe('5');
+    expect(await storage.readFile('/bots/echo/echo.dialog')).toBe('{}');
+    expect(await storage.exists('/bots/other')).toBe(false);
+    await expect(storage.readFile('/bots/other.dialog')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should glob with the same negative patterns as the local disk', async () => {
+    expect(await storage.glob(['**/*.dialog', '**/*.lg', '**/*.lu', '!(generated/**)'], '/bots/echo')).toEqual([
+      'echo.dialog',
+      'language-generation/en-us/echo.en-us.lg',
+    ]);
+  });
+
+  it('should only remove empty folders unless removing recursively', async () => {
+    await expect(storage.rmDir('/bots/echo')).rejects.toMatchObject({ code: 'ENOTEMPTY' });
+    await storage.rmDir('/bots/empty');
+    await storage.rmrfDir('/bots/echo');
+    expect(client.objects.size).toBe(0);
+  });
+
+  it('should rename every object of a folder', async () => {
+    await storage.rename('/bots/echo', '/bots/echo2');
+    expect(Array.from(client.objects.keys())).toEqual([
+      'bots/empty/',
+      'bots/echo2/echo.dialog',
+      'bots/echo2/language-generation/en-us/echo.en-us.lg',
+      'bots/echo2/generated/echo.lu',
+    ]);
+  });
+
+  it('should read preloaded folders synchronously and save synchronous changes in order', async () => {
+    expect(storage.existsSync('/bots/echo/echo.dialog')).toBe(false);
+
+    await storage.preload('/bots/echo');
+    expect(storage.readFileSync('/bots/echo/echo.dialog')).toBe('{}');
+    expect(storage.readDirSync('/bots/echo')).toEqual(['echo.dialog', 'language-generation', 'generated']);
+    expect(storage.globSync('**/*.lg', '/bots/echo')).toEqual(['language-generation/en-us/echo.en-us.lg']);
+
+    storage.writeFileSync('/bots/echo/README.md', '# echo');
+    storage.removeFileSync('/bots/echo/generated/echo.lu');
+    expect(storage.existsSync('/bots/echo/README.md')).toBe(true);
+
+    // asynchronous methods wait for the pending changes
+    expect(await storage.readFile('/bots/echo/README.md')).toBe('# echo');
+    expect(client.objects.has('bots/echo/generated/echo.lu')).toBe(false);
+  });
+});
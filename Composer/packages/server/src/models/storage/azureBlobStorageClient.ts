@@ -0,0 +1,102 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Writable } from 'stream';
+
+import { BlobService, common, createBlobService, ErrorOrResult } from 'azure-storage';
+
+import { ObjectStoreClient, StoredObject } from './objectStorage';
+
+const call = <T>(operation: (callback: ErrorOrResult<T>) => void) => {
+  return new Promise<T>((resolve, reject) => {
+    operation((error, result) => (error ? reject(error) : resolve(result)));
+  });
+};
+
+const toStoredObject = (blob: BlobService.BlobResult): StoredObject => ({
+  key: blob.name,
+  size: parseInt(blob.contentLength, 10) || 0,
+  lastModified: new Date(blob.lastModified),
+});
+
+/**
+ * Azure Blob Storage container, use "UseDevelopmentStorage=true" as connection string for Azurite.
+ */
+export class AzureBlobStorageClient implements ObjectStoreClient {
+  private blobService: BlobService;
+  private containerCreated: Promise<unknown> | undefined;
+
+  constructor(private container: string, connectionString: string) {
+    this.blobService = createBlobService(connectionString);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    await this.ensureContainer();
+    const objects: StoredObject[] = [];
+    let token: common.ContinuationToken | undefined;
+    do {
+      const result = await call<BlobService.ListBlobsResult>((callback) =>
+        this.blobService.listBlobsSegmentedWithPrefix(
+          this.container,
+          prefix,
+          token as common.ContinuationToken,
+          callback
+        )
+      );
+      objects.push(...result.entries.map(toStoredObject));
+      token = result.continuationToken;
+    } while (token);
+    return objects;
+  }
+
+  async head(key: string): Promise<StoredObject | undefined> {
+    await this.ensureContainer();
+    try {
+      const blob = await call<BlobService.BlobResult>((callback) =>
+        this.blobService.getBlobProperties(this.container, key, callback)
+      );
+      return toStoredObject(blob);
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    await this.ensureContainer();
+    const chunks: Buffer[] = [];
+    const stream = new Writable({
+      write(chunk, _encoding, next) {
+        chunks.push(chunk);
+        next();
+      },
+    });
+    await call<BlobService.BlobResult>((callback) =>
+      this.blobService.getBlobToStream(this.container, key, stream, callback)
+    );
+    return Buffer.concat(chunks);
+  }
+
+  async put(key: string, content: Buffer | string): Promise<void> {
+    await this.ensureContainer();
+    await call<BlobService.BlobResult>((callback) =>
+      this.blobService.createBlockBlobFromText(this.container, key, content, callback)
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ensureContainer();
+    await call<boolean>((callback) => this.blobService.deleteBlobIfExists(this.container, key, callback));
+  }
+
+  private ensureContainer() {
+    if (!this.containerCreated) {
+      this.containerCreated = call<BlobService.ContainerResult>((callback) =>
+        this.blobService.createContainerIfNotExists(this.container, callback)
+      );
+    }
+    return this.containerCreated;
+  }
+}
@@ -3,7 +3,7 @@
 
 export interface StorageConnection {
   id: string;
-  type: 'LocalDisk' | 'AzureBlobStorage';
+  type: 'LocalDisk' | 'AzureBlobStorage' | 'S3';
   path: string;
   [key: string]: string;
 }
@@ -44,4 +44,6 @@ export interface IFileStorage {
   copyFile(src: string, dest: string): Promise<void>;
   rename(oldPath: string, newPath: string): Promise<void>;
   zip(source: string, exclusions: { files: string[]; directories: string[] }, cb: any): unknown;
+  // storages that are not on the local disk must load a folder before it can be read synchronously
+  preload?(path: string): Promise<void>;
 }
@@ -8,9 +8,9 @@ import path from 'path';
 import glob from 'globby';
 import archiver from 'archiver';
 import rimraf from 'rimraf';
-import { FileExtensions } from '@botframework-composer/types';
 
 import { IFileStorage, Stat, MakeDirectoryOptions } from './interface';
+import { getZipContent } from './zipContent';
 
 const stat = promisify(fs.stat);
 const statSync = fs.statSync;
@@ -161,27 +161,7 @@ export class LocalDiskStorage implements IFileStorage {
   }
 
   async zip(source: string, exclusions, cb): Promise<void> {
-    const defaultDirectories = [
-      '/dialogs/',
-      '/language-understanding/',
-      '/language-generation/',
-      '/settings/',
-      '/generated/',
-      '/knowledge-base/',
-      '/recognizers/',
-      '/form-dialogs/',
-      '/scripts/',
-    ];
-
-    const directoriesToInclude = defaultDirectories.filter((elem) => {
-      return exclusions?.directories == undefined || exclusions?.directories?.indexOf(elem) == -1;
-    });
-
-    const defaultFiles = [`*${FileExtensions.BotProject}`, `*${FileExtensions.Dialog}`, 'README.md', '.gitignore'];
-
-    const filesToInclude = defaultFiles.filter((elem) => {
-      return exclusions?.files == undefined || exclusions?.files?.indexOf(elem) == -1;
-    });
+    const { directories: directoriesToInclude, files: filesToInclude } = getZipContent(exclusions);
 
     const archive = archiver('zip');
     cb(archive);
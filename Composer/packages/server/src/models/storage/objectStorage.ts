@@ -0,0 +1,395 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import archiver from 'archiver';
+import minimatch from 'minimatch';
+
+import log from '../../logger';
+
+import { IFileStorage, Stat } from './interface';
+import { getZipContent, ZipExclusions } from './zipContent';
+
+const debug = log.extend('object-storage');
+
+export type StoredObject = {
+  key: string;
+  size: number;
+  lastModified: Date;
+};
+
+/**
+ * Operations a blob or S3-compatible object store needs to provide to be used as a file storage.
+ * Keys are file paths without the leading slash.
+ */
+export interface ObjectStoreClient {
+  /** Lists every object whose key starts with the prefix, including the ones in nested folders. */
+  list(prefix: string): Promise<StoredObject[]>;
+  /** Resolves to undefined when there is no object with the key. */
+  head(key: string): Promise<StoredObject | undefined>;
+  get(key: string): Promise<Buffer>;
+  put(key: string, content: Buffer | string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+type CachedFile = {
+  content: string;
+  size: number;
+  lastModified: Date;
+};
+
+// object stores have no folders, an empty object whose key ends with a slash keeps an empty folder
+const isFolderMarker = (key: string) => key.endsWith('/');
+
+const toKey = (path: string) => path.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+
+const toPrefix = (path: string) => {
+  const key = toKey(path);
+  return key ? `${key}/` : '';
+};
+
+const toText = (content: Buffer | string) => {
+  const text = Buffer.isBuffer(content) ? content.toString('utf-8') : String(content);
+  return text.replace(/^\uFEFF/, ''); // UTF-8 BOM: https://github.com/nodejs/node-v0.x-archive/issues/1918
+};
+
+const fsError = (code: 'ENOENT' | 'ENOTEMPTY', path: string) => {
+  const message = code === 'ENOENT' ? 'no such file or directory' : 'directory not empty';
+  const error: NodeJS.ErrnoException = new Error(`${code}: ${message}, '${path}'`);
+  error.code = code;
+  return error;
+};
+
+const fileStat = (size: number, lastModified: Date): Stat => ({
+  isDir: false,
+  isFile: true,
+  isWritable: true,
+  lastModified: lastModified.toString(),
+  size: size.toString(),
+});
+
+const dirStat: Stat = { isDir: true, isFile: false, isWritable: true, lastModified: '', size: '' };
+
+// same semantics as globby: any pattern must match and none of the "!" patterns, ie. "!(generated/**)"
+const createMatcher = (pattern: string | string[]) => {
+  const patterns = Array.isArray(pattern) ? pattern : [pattern];
+  const included = patterns.filter((p) => !p.startsWith('!'));
+  const excluded = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1).replace(/^\((.*)\)$/, '$1'));
+  return (path: string) =>
+    included.some((p) => minimatch(path, p, { dot: true })) && !excluded.some((p) => minimatch(path, p, { dot: true }));
+};
+
+const childNames = (keys: string[], prefix: string) => {
+  const names = keys
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length).split('/')[0])
+    .filter((name) => !!name);
+  return Array.from(new Set(names));
+};
+
+/**
+ * File storage on top of an object store. The asynchronous methods always go to the store, the
+ * synchronous ones work on the content loaded with preload() and send their changes to the store
+ * in the background.
+ */
+export class ObjectStorage implements IFileStorage {
+  private files = new Map<string, CachedFile>();
+  private folders = new Set<string>();
+  private pendingChanges: Promise<void> = Promise.resolve();
+
+  constructor(private client: ObjectStoreClient) {}
+
+  async preload(path: string): Promise<void> {
+    await this.pendingChanges;
+    const prefix = toPrefix(path);
+    this.forgetCached(prefix);
+
+    const objects = await this.client.list(prefix);
+    await Promise.all(
+      objects.map(async ({ key, size, lastModified }) => {
+        if (isFolderMarker(key)) {
+          this.folders.add(toKey(key));
+        } else {
+          this.files.set(key, { content: toText(await this.client.get(key)), size, lastModified });
+        }
+      })
+    );
+  }
+
+  async stat(path: string): Promise<Stat> {
+    await this.pendingChanges;
+    const key = toKey(path);
+    const file = key ? await this.client.head(key) : undefined;
+    if (file) {
+      return fileStat(file.size, file.lastModified);
+    }
+    if (!key || (await this.client.list(toPrefix(path))).length) {
+      return dirStat;
+    }
+    throw fsError('ENOENT', path);
+  }
+
+  statSync(path: string): Stat {
+    const key = toKey(path);
+    const file = this.files.get(key);
+    if (file) {
+      return fileStat(file.size, file.lastModified);
+    }
+    if (this.isCachedFolder(key)) {
+      return dirStat;
+    }
+    throw fsError('ENOENT', path);
+  }
+
+  async readFile(path: string): Promise<string> {
+    await this.pendingChanges;
+    const key = toKey(path);
+    if (!(await this.client.head(key))) {
+      throw fsError('ENOENT', path);
+    }
+    return toText(await this.client.get(key));
+  }
+
+  readFileSync(path: string): string {
+    const file = this.files.get(toKey(path));
+    if (!file) {
+      throw fsError('ENOENT', path);
+    }
+    return file.content;
+  }
+
+  async readDir(path: string): Promise<string[]> {
+    await this.pendingChanges;
+    const prefix = toPrefix(path);
+    const objects = await this.client.list(prefix);
+    if (prefix && !objects.length) {
+      throw fsError('ENOENT', path);
+    }
+    return childNames(
+      objects.map(({ key }) => key),
+      prefix
+    );
+  }
+
+  readDirSync(path: string): string[] {
+    const key = toKey(path);
+    if (!this.isCachedFolder(key)) {
+      throw fsError('ENOENT', path);
+    }
+    return childNames(this.cachedKeys(), toPrefix(path));
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      await this.stat(path);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  existsSync(path: string): boolean {
+    try {
+      this.statSync(path);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async writeFile(path: string, content: any): Promise<void> {
+    await this.pendingChanges;
+    await this.client.put(toKey(path), content);
+    this.cacheFile(toKey(path), content);
+  }
+
+  writeFileSync(path: string, content: any): void {
+    const key = toKey(path);
+    this.cacheFile(key, content);
+    this.enqueue(() => this.client.put(key, content));
+  }
+
+  async removeFile(path: string): Promise<void> {
+    await this.pendingChanges;
+    const key = toKey(path);
+    if (!(await this.client.head(key))) {
+      throw fsError('ENOENT', path);
+    }
+    await this.client.delete(key);
+    this.files.delete(key);
+  }
+
+  removeFileSync(path: string): void {
+    const key = toKey(path);
+    if (!this.files.delete(key)) {
+      throw fsError('ENOENT', path);
+    }
+    this.enqueue(() => this.client.delete(key));
+  }
+
+  async mkDir(path: string): Promise<void> {
+    // folders are virtual, parent folders never need to be created
+    await this.pendingChanges;
+    await this.client.put(toPrefix(path), '');
+    this.folders.add(toKey(path));
+  }
+
+  mkDirSync(path: string): void {
+    this.folders.add(toKey(path));
+    this.enqueue(() => this.client.put(toPrefix(path), ''));
+  }
+
+  async rmDir(path: string): Promise<void> {
+    await this.pendingChanges;
+    const prefix = toPrefix(path);
+    const objects = await this.client.list(prefix);
+    if (!objects.length) {
+      throw fsError('ENOENT', path);
+    }
+    if (objects.some(({ key }) => key !== prefix)) {
+      throw fsError('ENOTEMPTY', path);
+    }
+    await this.client.delete(prefix);
+    this.folders.delete(toKey(path));
+  }
+
+  rmDirSync(path: string): void {
+    const key = toKey(path);
+    if (!this.isCachedFolder(key)) {
+      throw fsError('ENOENT', path);
+    }
+    if (childNames(this.cachedKeys(), toPrefix(path)).length) {
+      throw fsError('ENOTEMPTY', path);
+    }
+    this.folders.delete(key);
+    this.enqueue(() => this.client.delete(toPrefix(path)));
+  }
+
+  async rmrfDir(path: string): Promise<void> {
+    await this.pendingChanges;
+    await this.removeAll(path);
+  }
+
+  rmrfDirSync(path: string): void {
+    this.forgetCached(toPrefix(path));
+    this.files.delete(toKey(path));
+    this.folders.delete(toKey(path));
+    this.enqueue(() => this.removeAll(path));
+  }
+
+  async glob(pattern: string | string[], path: string): Promise<string[]> {
+    await this.pendingChanges;
+    const prefix = toPrefix(path);
+    const objects = await this.client.list(prefix);
+    return this.match(
+      objects.map(({ key }) => key),
+      pattern,
+      prefix
+    );
+  }
+
+  globSync(pattern: string | string[], path: string): string[] {
+    return this.match(Array.from(this.files.keys()), pattern, toPrefix(path));
+  }
+
+  async copyFile(src: string, dest: string): Promise<void> {
+    await this.pendingChanges;
+    const content = await this.client.get(toKey(src));
+    await this.client.put(toKey(dest), content);
+    this.cacheFile(toKey(dest), content);
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    await this.pendingChanges;
+    const oldKey = toKey(oldPath);
+    const newKey = toKey(newPath);
+    const keys = (await this.client.head(oldKey))
+      ? [oldKey]
+      : (await this.client.list(toPrefix(oldPath))).map(({ key }) => key);
+    if (!keys.length) {
+      throw fsError('ENOENT', oldPath);
+    }
+
+    for (const key of keys) {
+      const renamedKey = newKey + key.slice(oldKey.length);
+      const content = await this.client.get(key);
+      await this.client.put(renamedKey, content);
+      await this.client.delete(key);
+      if (isFolderMarker(key)) {
+        this.folders.delete(toKey(key));
+        this.folders.add(toKey(renamedKey));
+      } else {
+        this.files.delete(key);
+        this.cacheFile(renamedKey, content);
+      }
+    }
+  }
+
+  async zip(source: string, exclusions: ZipExclusions, cb): Promise<void> {
+    await this.pendingChanges;
+    const { directories, files } = getZipContent(exclusions);
+
+    const archive = archiver('zip');
+    cb(archive);
+
+    const prefix = toPrefix(source);
+    const objects = await this.client.list(prefix);
+    for (const { key } of objects) {
+      const name = key.slice(prefix.length);
+      const isInDirectory = directories.some((directory) => `/${name}`.startsWith(directory));
+      const isRootFile = !name.includes('/') && files.some((pattern) => minimatch(name, pattern, { dot: true }));
+      if (!isFolderMarker(key) && (isInDirectory || isRootFile)) {
+        archive.append(await this.client.get(key), { name });
+      }
+    }
+
+    archive.finalize();
+  }
+
+  private match(keys: string[], pattern: string | string[], prefix: string) {
+    const isMatch = createMatcher(pattern);
+    return keys
+      .filter((key) => key.startsWith(prefix) && !isFolderMarker(key))
+      .map((key) => key.slice(prefix.length))
+      .filter(isMatch);
+  }
+
+  private async removeAll(path: string) {
+    const key = toKey(path);
+    const keys = (await this.client.list(toPrefix(path))).map((object) => object.key);
+    if (key && (await this.client.head(key))) {
+      keys.push(key);
+    }
+    await Promise.all(keys.map((key) => this.client.delete(key)));
+    this.forgetCached(toPrefix(path));
+    this.files.delete(key);
+    this.folders.delete(key);
+  }
+
+  private enqueue(change: () => Promise<void>) {
+    this.pendingChanges = this.pendingChanges.then(change).catch((error) => {
+      debug('Failed to save a change to the object store: %O', error);
+    });
+  }
+
+  private cacheFile(key: string, content: Buffer | string) {
+    const text = toText(content);
+    this.files.set(key, { content: text, size: Buffer.byteLength(text), lastModified: new Date() });
+  }
+
+  private forgetCached(prefix: string) {
+    Array.from(this.files.keys())
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => this.files.delete(key));
+    Array.from(this.folders)
+      .filter((folder) => `${folder}/`.startsWith(prefix))
+      .forEach((folder) => this.folders.delete(folder));
+  }
+
+  private cachedKeys() {
+    return [...Array.from(this.files.keys()), ...Array.from(this.folders).map((folder) => `${folder}/`)];
+  }
+
+  private isCachedFolder(key: string) {
+    return !key || this.folders.has(key) || this.cachedKeys().some((cachedKey) => cachedKey.startsWith(`${key}/`));
+  }
+}
@@ -0,0 +1,73 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import S3 from 'aws-sdk/clients/s3';
+
+import { ObjectStoreClient, StoredObject } from './objectStorage';
+
+/**
+ * S3 bucket or bucket of any S3-compatible store such as MinIO when an endpoint is given.
+ */
+export class S3StorageClient implements ObjectStoreClient {
+  private s3: S3;
+  private bucketCreated: Promise<unknown> | undefined;
+
+  constructor(private bucket: string, options: S3.ClientConfiguration) {
+    this.s3 = new S3({ s3ForcePathStyle: !!options.endpoint, ...options });
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    await this.ensureBucket();
+    const objects: StoredObject[] = [];
+    let token: string | undefined;
+    do {
+      const result = await this.s3
+        .listObjectsV2({ Bucket: this.bucket, Prefix: prefix, ContinuationToken: token })
+        .promise();
+      (result.Contents ?? []).forEach(({ Key, Size, LastModified }) => {
+        objects.push({ key: Key ?? '', size: Size ?? 0, lastModified: LastModified ?? new Date() });
+      });
+      token = result.IsTruncated ? result.NextContinuationToken : undefined;
+    } while (token);
+    return objects;
+  }
+
+  async head(key: string): Promise<StoredObject | undefined> {
+    await this.ensureBucket();
+    try {
+      const result = await this.s3.headObject({ Bucket: this.bucket, Key: key }).promise();
+      return { key, size: result.ContentLength ?? 0, lastModified: result.LastModified ?? new Date() };
+    } catch (error) {
+      if (error.code === 'NotFound') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    await this.ensureBucket();
+    const result = await this.s3.getObject({ Bucket: this.bucket, Key: key }).promise();
+    return Buffer.from(result.Body as Buffer);
+  }
+
+  async put(key: string, content: Buffer | string): Promise<void> {
+    await this.ensureBucket();
+    await this.s3.putObject({ Bucket: this.bucket, Key: key, Body: content }).promise();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ensureBucket();
+    await this.s3.deleteObject({ Bucket: this.bucket, Key: key }).promise();
+  }
+
+  private ensureBucket() {
+    if (!this.bucketCreated) {
+      this.bucketCreated = this.s3
+        .headBucket({ Bucket: this.bucket })
+        .promise()
+        .catch(() => this.s3.createBucket({ Bucket: this.bucket }).promise());
+    }
+    return this.bucketCreated;
+  }
+}
@@ -6,6 +6,9 @@ import { UserIdentity } from '@bfc/extension';
 import { ExtensionContext } from '../extension/extensionContext';
 
 import { LocalDiskStorage } from './localDiskStorage';
+import { ObjectStorage } from './objectStorage';
+import { AzureBlobStorageClient } from './azureBlobStorageClient';
+import { S3StorageClient } from './s3StorageClient';
 import { StorageConnection, IFileStorage } from './interface';
 
 export class StorageFactory {
@@ -17,6 +20,20 @@ export class StorageFactory {
       }
     }
 
+    switch (conn.type) {
+      case 'AzureBlobStorage':
+        return new ObjectStorage(new AzureBlobStorageClient(conn.container, conn.connectionString));
+      case 'S3':
+        return new ObjectStorage(
+          new S3StorageClient(conn.bucket, {
+            endpoint: conn.endpoint,
+            region: conn.region,
+            accessKeyId: conn.accessKeyId,
+            secretAccessKey: conn.secretAccessKey,
+          })
+        );
+    }
+
     // otherwise...
     return new LocalDiskStorage();
   }
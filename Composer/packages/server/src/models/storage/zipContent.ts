@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { FileExtensions } from '@botframework-composer/types';
+
+export type ZipExclusions = { files: string[]; directories: string[] };
+
+const defaultDirectories = [
+  '/dialogs/',
+  '/language-understanding/',
+  '/language-generation/',
+  '/settings/',
+  '/generated/',
+  '/knowledge-base/',
+  '/recognizers/',
+  '/form-dialogs/',
+  '/scripts/',
+];
+
+const defaultFiles = [`*${FileExtensions.BotProject}`, `*${FileExtensions.Dialog}`, 'README.md', '.gitignore'];
+
+/**
+ * Directories and root file patterns of a bot project that are added to its zip archive.
+ */
+export const getZipContent = (exclusions?: ZipExclusions) => {
+  const directories = defaultDirectories.filter((elem) => {
+    return exclusions?.directories == undefined || exclusions?.directories?.indexOf(elem) == -1;
+  });
+
+  const files = defaultFiles.filter((elem) => {
+    return exclusions?.files == undefined || exclusions?.files?.indexOf(elem) == -1;
+  });
+
+  return { directories, files };
+};
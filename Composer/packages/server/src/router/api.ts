@@ -21,6 +21,9 @@ import { StatusController } from '../controllers/status';
 import { SettingsController } from '../controllers/settings';
 import { TelemetryController } from '../controllers/telemetry';
 import OrchestratorController from '../controllers/orchestrator';
+import { ConversationTestController } from '../controllers/conversationTests';
+import { LuTestController } from '../controllers/luTests';
+import { GitController } from '../controllers/git';
 
 import { UtilitiesController } from './../controllers/utilities';
 
@@ -39,17 +42,42 @@ router.delete('/projects/:projectId', ProjectController.removeProject);
 router.put('/projects/:projectId/files/:name', ProjectController.updateFile);
 router.delete('/projects/:projectId/files/:name', ProjectController.removeFile);
 router.post('/projects/:projectId/files', ProjectController.createFile);
+router.post('/projects/:projectId/watch', ProjectController.watchFiles);
 router.get('/projects/:projectId/skill/retrieveSkillManifest', ProjectController.getSkill);
 router.post('/projects/:projectId/build', ProjectController.build);
 router.post('/projects/:projectId/qnaSettings/set', ProjectController.setQnASettings);
 router.post('/projects/:projectId/project/saveAs', ProjectController.saveProjectAs);
 router.get('/projects/:projectId/export', ProjectController.exportProject);
+router.post('/projects/:projectId/diagnostics/export', ProjectController.exportDiagnostics);
+router.get('/projects/:projectId/translations/:locale/export', ProjectController.exportTranslations);
+router.post('/projects/:projectId/translations/import', ProjectController.importTranslations);
+router.post('/projects/:projectId/pseudoLocale', ProjectController.updatePseudoLocale);
+router.post('/projects/:projectId/recognize', ProjectController.recognizeUtterance);
+router.post('/projects/:projectId/search', ProjectController.searchProject);
+router.post('/projects/:projectId/search/replace', ProjectController.replaceInProject);
 router.get('/projects/alias/:alias', ProjectController.getProjectByAlias);
 router.post('/projects/:projectId/alias/set', ProjectController.setProjectAlias);
 router.post('/projects/:projectId/backup', ProjectController.backupProject);
 router.post('/projects/:projectId/copyTemplateToExisting', ProjectController.copyTemplateToExistingProject);
 router.get('/projects/:projectId/variables', ProjectController.getVariablesByProjectId);
 
+// conversation tests
+router.get('/projects/:projectId/conversationTests', ConversationTestController.getConversationTests);
+router.post('/projects/:projectId/conversationTests/run', ConversationTestController.runConversationTests);
+router.post('/projects/:projectId/conversationTests/replay', ConversationTestController.replayTranscript);
+router.get('/projects/:projectId/luTests', LuTestController.getLuTests);
+router.post('/projects/:projectId/luTests/run', LuTestController.runLuTests);
+router.post('/projects/:projectId/luTests/export', LuTestController.exportLuTestReports);
+
+// git history
+router.get('/projects/:projectId/git/status', GitController.getStatus);
+router.post('/projects/:projectId/git/init', GitController.init);
+router.post('/projects/:projectId/git/commit', GitController.commit);
+router.get('/projects/:projectId/git/log', GitController.getLog);
+router.get('/projects/:projectId/git/diff', GitController.getDiff);
+router.get('/projects/:projectId/git/file', GitController.getFileContent);
+router.post('/projects/:projectId/git/checkout', GitController.checkout);
+
 // form dialog generation apis
 router.post('/formDialogs/expandJsonSchemaProperty', FormDialogController.expandJsonSchemaProperty);
 router.get('/formDialogs/templateSchemas', FormDialogController.getTemplateSchemas);
@@ -107,6 +135,7 @@ router.get('/extensions/search', ExtensionsController.searchExtensions);
 router.get('/extensions/settings/schema.json', ExtensionsController.getSettingsSchema);
 router.get('/extensions/settings', ExtensionsController.getSettings);
 router.patch('/extensions/settings', ExtensionsController.updateSettings);
+router.get('/extensions/lintRules', ExtensionsController.getLintRules);
 router.get('/extensions/:id/:bundleId', ExtensionsController.getBundleForView);
 // proxy route for extensions (allows extension client code to make fetch calls using the Composer server as a proxy -- avoids browser blocking request due to CORS)
 router.post('/extensions/proxy/:url', ExtensionsController.performExtensionFetch);
@@ -192,13 +192,25 @@ export async function start(electronContext?: ElectronContext): Promise<number |
     perMessageDeflate: false,
   });
 
-  const { getLgResources, luImportResolver, staticMemoryResolver, staticEntityResolver } = BotProjectService;
+  const {
+    getLgResources,
+    getDialogResources,
+    luImportResolver,
+    staticMemoryResolver,
+    staticEntityResolver,
+  } = BotProjectService;
 
   function launchLanguageServer(socket: rpc.IWebSocket) {
     const reader = new rpc.WebSocketMessageReader(socket);
     const writer = new rpc.WebSocketMessageWriter(socket);
     const connection: IConnection = createConnection(reader, writer);
-    const server = new LGServer(connection, getLgResources, staticMemoryResolver, staticEntityResolver);
+    const server = new LGServer(
+      connection,
+      getLgResources,
+      staticMemoryResolver,
+      staticEntityResolver,
+      getDialogResources
+    );
     server.start();
   }
 
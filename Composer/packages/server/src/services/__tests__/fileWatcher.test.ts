@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import fs from 'fs';
+import os from 'os';
+
+import rimraf from 'rimraf';
+
+import { Path } from '../../utility/path';
+import { LocalDiskStorage } from '../../models/storage/localDiskStorage';
+import { getFileETag } from '../../models/bot/fileConflict';
+import { FileWatcherService } from '../fileWatcher';
+
+const projectId = '1234.5678';
+let dir: string;
+
+const waitForChanges = (onChange: jest.Mock) =>
+  new Promise<void>((resolve) => {
+    const timer = setInterval(() => {
+      if (onChange.mock.calls.length) {
+        clearInterval(timer);
+        resolve();
+      }
+    }, 50);
+  });
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(Path.join(os.tmpdir(), 'bot-'));
+  fs.mkdirSync(Path.join(dir, 'dialogs'));
+  fs.mkdirSync(Path.join(dir, 'generated'));
+  fs.writeFileSync(Path.join(dir, 'dialogs', 'a.en-us.lg'), '# a\n- a');
+});
+
+afterEach(() => {
+  FileWatcherService.unwatch(projectId);
+  rimraf.sync(dir);
+});
+
+describe('FileWatcherService', () => {
+  it('sends the bot files changed in the project folders', async () => {
+    const onChange = jest.fn(() => true);
+    FileWatcherService.watch(projectId, dir, new LocalDiskStorage(), onChange);
+
+    fs.writeFileSync(Path.join(dir, 'dialogs', 'a.en-us.lg'), '# a\n- changed');
+    fs.writeFileSync(Path.join(dir, 'dialogs', 'notes.txt'), 'ignored');
+    fs.writeFileSync(Path.join(dir, 'generated', 'a.en-us.lu'), 'ignored');
+    await waitForChanges(onChange);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith([
+      { type: 'changed', name: 'a.en-us.lg', content: '# a\n- changed', eTag: getFileETag('# a\n- changed') },
+    ]);
+  });
+
+  it('sends the bot files removed from the project folders', async () => {
+    const onChange = jest.fn(() => true);
+    FileWatcherService.watch(projectId, dir, new LocalDiskStorage(), onChange);
+
+    fs.unlinkSync(Path.join(dir, 'dialogs', 'a.en-us.lg'));
+    await waitForChanges(onChange);
+
+    expect(onChange).toHaveBeenCalledWith([{ type: 'removed', name: 'a.en-us.lg' }]);
+  });
+
+  it('stops watching once nobody listens to the changes', async () => {
+    const onChange = jest.fn(() => false);
+    FileWatcherService.watch(projectId, dir, new LocalDiskStorage(), onChange);
+
+    fs.writeFileSync(Path.join(dir, 'dialogs', 'a.en-us.lg'), '# a\n- changed');
+    await waitForChanges(onChange);
+
+    expect(FileWatcherService.isWatching(projectId)).toBe(false);
+  });
+});
@@ -26,6 +26,15 @@ jest.mock('../../store/store', () => {
       path: '.',
       defaultPath: '.',
     },
+    {
+      id: 's3',
+      name: 'Bots on S3',
+      type: 'S3',
+      path: '/bots',
+      bucket: 'bots',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    },
   ];
   return {
     Store: {
@@ -44,6 +53,17 @@ describe('test StorageService', () => {
     expect(result[0].type).toBe('LocalDisk');
     expect(result[0].path).toBe(Path.resolve('.'));
   });
+  it('getStorageConnections leaves out the credentials', () => {
+    const result = StorageService.getStorageConnections();
+    expect(result[1]).toEqual({
+      id: 's3',
+      name: 'Bots on S3',
+      type: 'S3',
+      path: '/bots',
+      bucket: 'bots',
+      accessKeyId: 'key',
+    });
+  });
   it('checkBlob', async () => {
     const result = await StorageService.checkBlob('default', Path.resolve('.'));
     expect(result).toBeTruthy();
@@ -0,0 +1,110 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import fs from 'fs';
+
+import { ProjectFileChange } from '@botframework-composer/types';
+
+import logger from '../logger';
+import { Path } from '../utility/path';
+import { IFileStorage } from '../models/storage/interface';
+import { getFileETag } from '../models/bot/fileConflict';
+
+const log = logger.extend('file-watcher');
+
+// the files edited in Composer, changes of the other files are ignored
+const watchedFilePattern = /\.(dialog|lg|lu|qna)$/;
+const ignoredDirectories = ['node_modules', 'generated', 'bin', 'obj', '.git'];
+// editors often write a file several times when saving it, the changes are sent once the files stop changing
+const debounceDelay = 300;
+
+type ProjectWatcher = {
+  watchers: fs.FSWatcher[];
+  changedPaths: Set<string>;
+  timer?: NodeJS.Timeout;
+};
+
+/**
+ * Callback receiving the changed files, it returns false once nobody listens to the changes anymore.
+ */
+export type FileChangesHandler = (changes: ProjectFileChange[]) => boolean;
+
+const getDirectories = (dir: string): string[] => {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !ignoredDirectories.includes(entry.name))
+    .reduce((directories, entry) => [...directories, ...getDirectories(Path.join(dir, entry.name))], [dir]);
+};
+
+const readChange = async (fileStorage: IFileStorage, path: string): Promise<ProjectFileChange> => {
+  const name = Path.basename(path);
+  if (!(await fileStorage.exists(path))) {
+    return { type: 'removed', name };
+  }
+
+  const content = await fileStorage.readFile(path);
+  return { type: 'changed', name, content, eTag: getFileETag(content) };
+};
+
+export class FileWatcherService {
+  private static projects: Record<string, ProjectWatcher> = {};
+
+  /**
+   * Watches the bot files of a project folder, the folders created afterwards are not watched.
+   */
+  public static watch(projectId: string, dir: string, fileStorage: IFileStorage, onChange: FileChangesHandler) {
+    this.unwatch(projectId);
+
+    const project: ProjectWatcher = { watchers: [], changedPaths: new Set() };
+    getDirectories(dir).forEach((directory) => {
+      const watcher = fs.watch(directory, (event, fileName) => {
+        if (!fileName || !watchedFilePattern.test(fileName)) return;
+
+        project.changedPaths.add(Path.join(directory, fileName));
+        if (project.timer) {
+          clearTimeout(project.timer);
+        }
+        project.timer = setTimeout(() => this.sendChanges(projectId, project, fileStorage, onChange), debounceDelay);
+      });
+      watcher.on('error', (err) => log('Stopped watching %s: %O', directory, err));
+      project.watchers.push(watcher);
+    });
+    this.projects[projectId] = project;
+    log('Watching %d folders of %s', project.watchers.length, dir);
+  }
+
+  public static unwatch(projectId: string) {
+    const project = this.projects[projectId];
+    if (!project) return;
+
+    if (project.timer) {
+      clearTimeout(project.timer);
+    }
+    project.watchers.forEach((watcher) => watcher.close());
+    delete this.projects[projectId];
+  }
+
+  public static isWatching(projectId: string) {
+    return !!this.projects[projectId];
+  }
+
+  private static async sendChanges(
+    projectId: string,
+    project: ProjectWatcher,
+    fileStorage: IFileStorage,
+    onChange: FileChangesHandler
+  ) {
+    const paths = Array.from(project.changedPaths);
+    project.changedPaths.clear();
+    try {
+      const changes = await Promise.all(paths.map((path) => readChange(fileStorage, path)));
+      if (!onChange(changes) && this.projects[projectId] === project) {
+        this.unwatch(projectId);
+      }
+    } catch (err) {
+      log('Failed to read the changes of %s: %O', projectId, err);
+    }
+  }
+}
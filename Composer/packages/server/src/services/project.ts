@@ -80,6 +80,16 @@ export class BotProjectService {
     return resources;
   }
 
+  public static getDialogResources(projectId?: string): ResolverResource[] {
+    BotProjectService.initialize();
+    const project = BotProjectService.getIndexedProjectById(projectId);
+    if (!project) throw new Error('project not found');
+    // the recognizers of the dialogs have no LG template references
+    return project.dialogFiles
+      .filter(({ name }) => !name.endsWith('.lu.dialog') && !name.endsWith('.qna.dialog'))
+      .map(({ name, content }) => ({ id: Path.basename(name, '.dialog'), content }));
+  }
+
   public static luImportResolver(source: string, id: string, projectId: string): ResolverResource {
     BotProjectService.initialize();
     const project = BotProjectService.getIndexedProjectById(projectId);
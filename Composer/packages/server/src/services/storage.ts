@@ -15,6 +15,9 @@ const fileBlacklist = ['.DS_Store'];
 const isValidFile = (file: string) => {
   return fileBlacklist.filter((badFile) => badFile === file).length === 0;
 };
+const isObjectStorage = (connection: StorageConnection) => ['AzureBlobStorage', 'S3'].includes(connection.type);
+// the secrets of the object stores stay on the server
+const credentialFields = ['connectionString', 'secretAccessKey'];
 class StorageService {
   private STORE_KEY = 'storageConnections' as const;
   private storageConnections: StorageConnection[] = [];
@@ -45,6 +48,11 @@ class StorageService {
   public getStorageConnections = (): StorageConnection[] => {
     const connections = this.storageConnections.map((s) => {
       const temp = Object.assign({}, s);
+      credentialFields.forEach((field) => delete temp[field]);
+      if (isObjectStorage(s)) {
+        temp.path = s.path || s.defaultPath || '/';
+        return temp;
+      }
       // if the last accessed path exist
       if (fs.existsSync(s.path)) {
         temp.path = Path.resolve(s.path); // resolve path if path is relative, and change it to unix pattern
@@ -107,19 +115,24 @@ class StorageService {
   public updateCurrentPath = (path: string, storageId: string) => {
     //A path in windows should never start with \, but the fs.existsSync() return true
     if (path?.startsWith('\\') && settings.platform === 'win32') {
-      return this.storageConnections;
+      return this.getStorageConnections();
     }
     if (path?.endsWith(':')) {
       path = path + '/';
     }
+    const storage = this.storageConnections.find((s) => s.id === storageId);
+    if (storage && isObjectStorage(storage)) {
+      storage.path = path;
+      Store.set(this.STORE_KEY, this.storageConnections);
+      return this.getStorageConnections();
+    }
     if (Path.isAbsolute(path) && fs.existsSync(path)) {
-      const storage = this.storageConnections.find((s) => s.id === storageId);
       if (storage) {
         storage.path = path;
         Store.set(this.STORE_KEY, this.storageConnections);
       }
     }
-    return this.storageConnections;
+    return this.getStorageConnections();
   };
 
   public createFolder = (path: string) => {
@@ -144,9 +157,11 @@ class StorageService {
   };
 
   private ensureDefaultBotFoldersExist = () => {
-    this.storageConnections.forEach((s) => {
-      this.createFolderRecursively(s.defaultPath);
-    });
+    this.storageConnections
+      .filter((s) => !isObjectStorage(s))
+      .forEach((s) => {
+        this.createFolderRecursively(s.defaultPath);
+      });
   };
 
   private isBotFolder = async (storage: IFileStorage, path: string) => {
@@ -0,0 +1,23 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { parseArgs } from '../args';
+
+describe('parseArgs', () => {
+  it('splits the command, the positional arguments and the options', () => {
+    expect(parseArgs(['publish', './bot', '--target', 'prod', '--format=sarif'])).toEqual({
+      command: 'publish',
+      positionals: ['./bot'],
+      options: { target: 'prod', format: 'sarif' },
+    });
+  });
+
+  it('sets flags and options without a value to true', () => {
+    expect(parseArgs(['validate', '--skill', './bot', '--verbose'], ['skill'])).toEqual({
+      command: 'validate',
+      positionals: ['./bot'],
+      options: { skill: true, verbose: true },
+    });
+    expect(parseArgs(['-h']).options).toEqual({ help: true });
+  });
+});
@@ -0,0 +1,108 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Diagnostic, DiagnosticSeverity } from '@bfc/shared';
+
+import { ExitCode, run } from '../cli';
+import { loadBot } from '../project';
+import { validateBot } from '../commands/validate';
+import { buildBot, checkBuildResources } from '../commands/build';
+import { publishBot } from '../commands/publish';
+
+jest.mock('@bfc/server', () => ({
+  ExtensionManager: { loadAll: jest.fn() },
+  ExtensionContext: { extensions: { lintRules: [] } },
+}));
+
+jest.mock('../project', () => ({
+  loadBot: jest.fn(),
+  indexBot: jest.fn(() => ({})),
+}));
+
+jest.mock('../commands/validate', () => ({ validateBot: jest.fn() }));
+jest.mock('../commands/build', () => ({ buildBot: jest.fn(), checkBuildResources: jest.fn() }));
+jest.mock('../commands/publish', () => ({ publishBot: jest.fn() }));
+
+const lgError = new Diagnostic('syntax error', 'main.en-us.lg', DiagnosticSeverity.Error);
+const dialogWarning = new Diagnostic('expression is not valid', 'main.dialog', DiagnosticSeverity.Warning);
+
+const runCli = async (...argv: string[]) => {
+  let stdout = '';
+  let stderr = '';
+  const exitCode = await run(
+    argv,
+    (text) => (stdout += text),
+    (text) => (stderr += text)
+  );
+  return { exitCode, stdout, stderr };
+};
+
+describe('run', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (loadBot as jest.Mock).mockResolvedValue({ name: 'bot', getProject: () => ({ files: [] }) });
+    (checkBuildResources as jest.Mock).mockReturnValue([]);
+  });
+
+  it('prints the usage', async () => {
+    const { exitCode, stdout } = await runCli('--help');
+
+    expect(exitCode).toBe(ExitCode.Success);
+    expect(stdout).toContain('Usage: composer-cli <command> <botDir> [options]');
+  });
+
+  it('exits with 2 when the command line is not valid', async () => {
+    expect(await runCli()).toMatchObject({
+      exitCode: ExitCode.Usage,
+      stderr: expect.stringContaining('Missing command.'),
+    });
+    expect((await runCli('deploy', 'bot')).stderr).toContain('Unknown command deploy.');
+    expect((await runCli('validate')).stderr).toContain('Missing bot folder.');
+    expect((await runCli('validate', 'bot', '--format', 'xml')).stderr).toContain('Unknown format xml.');
+    expect((await runCli('publish', 'bot')).stderr).toContain('Missing publishing profile, set it with --target.');
+    expect(loadBot).not.toHaveBeenCalled();
+  });
+
+  it('exits with 1 when the bot has errors only', async () => {
+    (validateBot as jest.Mock).mockReturnValue([dialogWarning]);
+    expect((await runCli('validate', 'bot')).exitCode).toBe(ExitCode.Success);
+
+    (validateBot as jest.Mock).mockReturnValue([dialogWarning, lgError]);
+    const { exitCode, stdout } = await runCli('validate', 'bot');
+    expect(exitCode).toBe(ExitCode.Failure);
+    expect(stdout).toContain('validate failed, 1 error(s), 1 other problem(s)');
+  });
+
+  it('exits with 1 when the command fails', async () => {
+    (loadBot as jest.Mock).mockRejectedValue(new Error('/bot is not a bot folder.'));
+    const { exitCode, stdout } = await runCli('validate', 'bot', '--format', 'json');
+
+    expect(exitCode).toBe(ExitCode.Failure);
+    expect(JSON.parse(stdout)).toEqual({
+      command: 'validate',
+      success: false,
+      diagnostics: [],
+      message: '/bot is not a bot folder.',
+    });
+  });
+
+  it('does not build the bot when its LU files have errors', async () => {
+    (checkBuildResources as jest.Mock).mockReturnValue([lgError]);
+    const { exitCode, stdout } = await runCli('build', 'bot');
+
+    expect(exitCode).toBe(ExitCode.Failure);
+    expect(stdout).toContain('The LU and QnA files have errors, the bot was not built.');
+    expect(buildBot).not.toHaveBeenCalled();
+  });
+
+  it('exits with the status of the publish', async () => {
+    (publishBot as jest.Mock).mockResolvedValue({ status: 200, message: 'Published' });
+    expect((await runCli('publish', 'bot', '--target', 'prod')).exitCode).toBe(ExitCode.Success);
+    expect(publishBot).toHaveBeenCalledWith({}, 'prod', { target: 'prod' });
+
+    (publishBot as jest.Mock).mockResolvedValue({ status: 500, message: 'The deployment failed' });
+    const { exitCode, stdout } = await runCli('publish', 'bot', '--target', 'prod');
+    expect(exitCode).toBe(ExitCode.Failure);
+    expect(stdout).toContain('The deployment failed');
+  });
+});
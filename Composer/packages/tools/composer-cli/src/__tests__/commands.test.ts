@@ -0,0 +1,182 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Diagnostic, DiagnosticSeverity, LintRule, SDKKinds } from '@bfc/shared';
+import { ExtensionContext } from '@bfc/server';
+
+import { IndexedBot } from '../project';
+import { validateBot } from '../commands/validate';
+import { buildBot, checkBuildResources } from '../commands/build';
+import { publishBot } from '../commands/publish';
+
+jest.mock('@bfc/server', () => ({
+  ExtensionManager: { loadAll: jest.fn() },
+  ExtensionContext: { extensions: { publish: {} } },
+  authService: { getAccessToken: jest.fn() },
+}));
+
+const lgError = new Diagnostic('syntax error', 'main.en-us.lg', DiagnosticSeverity.Error);
+const luError = new Diagnostic('invalid utterance', 'main.en-us.lu', DiagnosticSeverity.Error);
+
+const createBot = (): IndexedBot =>
+  (({
+    project: { buildFiles: jest.fn() },
+    files: [
+      { name: 'main.dialog', relativePath: 'main.dialog' },
+      { name: 'main.en-us.lg', relativePath: 'language-generation/en-us/main.en-us.lg' },
+      { name: 'main.en-us.lu', relativePath: 'language-understanding/en-us/main.en-us.lu' },
+      { name: 'main.en-us.qna', relativePath: 'knowledge-base/en-us/main.en-us.qna' },
+      { name: 'appsettings.json', relativePath: 'settings/appsettings.json' },
+    ],
+    settings: {
+      languages: ['en-us'],
+      customFunctions: [],
+      luis: { authoringKey: 'authoringKey', endpointKey: 'endpointKey' },
+      qna: { subscriptionKey: 'subscriptionKey' },
+      publishTargets: [{ name: 'prod', type: 'azurePublish', configuration: '{"hostname":"contoso"}' }],
+    },
+    schema: { definitions: {} },
+    dialogs: [
+      {
+        id: 'main',
+        luFile: 'main',
+        qnaFile: 'main',
+        luProvider: SDKKinds.LuisRecognizer,
+        skills: [],
+        content: {
+          $kind: SDKKinds.AdaptiveDialog,
+          triggers: [{ $kind: SDKKinds.OnIntent, intent: 'Greeting' }],
+        },
+      },
+    ],
+    lgFiles: [{ id: 'main.en-us', diagnostics: [lgError] }],
+    luFiles: [
+      { id: 'main.en-us', diagnostics: [], empty: false },
+      { id: 'main.xx-xx', diagnostics: [luError], empty: false },
+    ],
+    qnaFiles: [{ id: 'main.en-us', diagnostics: [], empty: false, qnaSections: [] }],
+    recognizers: [],
+    skillManifests: [],
+    botProjectFile: { content: {} },
+  } as unknown) as IndexedBot);
+
+describe('validateBot', () => {
+  it('reports the problems of the settings and the files in the files of the bot folder', () => {
+    const diagnostics = validateBot(createBot());
+
+    expect(diagnostics.map(({ message, source }) => ({ message, source }))).toEqual([
+      { message: 'Missing LUIS region', source: 'settings/appsettings.json' },
+      { message: 'syntax error', source: 'language-generation/en-us/main.en-us.lg' },
+      { message: 'invalid utterance', source: 'main.xx-xx.lu' },
+    ]);
+  });
+
+  it('checks the skill manifest of skills and the lint rules', () => {
+    const rule: LintRule = {
+      id: 'contoso/intent-prefix',
+      kinds: [SDKKinds.OnIntent],
+      condition: 'startsWith(node.intent, "Contoso")',
+      message: 'The intent does not start with Contoso.',
+      defaultSeverity: 'warning',
+    };
+    const diagnostics = validateBot(createBot(), true, [rule]);
+
+    expect(diagnostics.map(({ message, source }) => ({ message, source }))).toEqual([
+      { message: 'Missing skill manifest', source: 'manifest.json' },
+      { message: 'Missing LUIS region', source: 'settings/appsettings.json' },
+      { message: 'The intent does not start with Contoso.', source: 'main.dialog' },
+      { message: 'syntax error', source: 'language-generation/en-us/main.en-us.lg' },
+      { message: 'invalid utterance', source: 'main.xx-xx.lu' },
+    ]);
+  });
+});
+
+describe('build', () => {
+  it('checks the LU and QnA files in the languages of LUIS and QnA Maker', () => {
+    const bot = createBot();
+    expect(checkBuildResources(bot)).toEqual([]);
+
+    bot.luFiles[0].diagnostics = [luError];
+    bot.qnaFiles[0].qnaSections = [{ Answer: '', Questions: [{ content: 'Who are you?' }] }] as any;
+    expect(checkBuildResources(bot).map(({ message, source }) => ({ message, source }))).toEqual([
+      { message: 'invalid utterance', source: 'language-understanding/en-us/main.en-us.lu' },
+      {
+        message: 'main.en-us.qna file contains empty answer or questions',
+        source: 'knowledge-base/en-us/main.en-us.qna',
+      },
+    ]);
+  });
+
+  it('builds with the keys of the options instead of the ones of the settings', async () => {
+    const bot = createBot();
+    const result = await buildBot(bot, { 'luis-authoring-key': 'ciKey', 'qna-subscription-key': 'ciSubscriptionKey' });
+
+    expect(result).toEqual({
+      luResources: [{ id: 'main.en-us', isEmpty: false }],
+      qnaResources: [{ id: 'main.en-us', isEmpty: false }],
+    });
+    expect(bot.project.buildFiles).toHaveBeenCalledWith(
+      expect.objectContaining({
+        luisConfig: { authoringKey: 'ciKey', endpointKey: 'endpointKey' },
+        qnaConfig: { subscriptionKey: 'ciSubscriptionKey' },
+        luResource: result.luResources,
+        qnaResource: result.qnaResources,
+      })
+    );
+  });
+});
+
+describe('publishBot', () => {
+  const publish = jest.fn();
+  const getStatus = jest.fn();
+
+  beforeEach(() => {
+    publish.mockReset();
+    getStatus.mockReset();
+    ExtensionContext.extensions.publish = { azurePublish: { methods: { publish, getStatus } } } as any;
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => callback()) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('publishes with the extension of the profile and waits for it to complete', async () => {
+    publish.mockResolvedValue({ status: 202, result: { id: 'job1' } });
+    getStatus
+      .mockResolvedValueOnce({ status: 202, result: { id: 'job1' } })
+      .mockResolvedValueOnce({ status: 200, result: { id: 'job1', message: 'Success' } });
+    const bot = createBot();
+
+    expect(await publishBot(bot, 'prod', { 'access-token': 'token', comment: 'release' })).toEqual({
+      status: 200,
+      id: 'job1',
+      message: 'Success',
+    });
+    expect(publish).toHaveBeenCalledWith(
+      expect.objectContaining({ profileName: 'prod', hostname: 'contoso', accessToken: 'token' }),
+      bot.project,
+      expect.objectContaining({ comment: 'release', luResources: [{ id: 'main.en-us', isEmpty: false }] }),
+      undefined,
+      expect.any(Function)
+    );
+    expect(getStatus).toHaveBeenCalledTimes(2);
+    expect(getStatus).toHaveBeenCalledWith(
+      { profileName: 'prod', jobId: 'job1', hostname: 'contoso' },
+      bot.project,
+      undefined,
+      expect.any(Function)
+    );
+  });
+
+  it('fails for unknown profiles and profiles without extension', async () => {
+    await expect(publishBot(createBot(), 'test', {})).rejects.toThrow(
+      'There is no publishing profile named test in the bot settings.'
+    );
+
+    ExtensionContext.extensions.publish = {};
+    await expect(publishBot(createBot(), 'prod', {})).rejects.toThrow(
+      'azurePublish is not a valid publishing target type. There may be a missing plugin.'
+    );
+  });
+});
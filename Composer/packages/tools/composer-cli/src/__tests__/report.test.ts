@@ -0,0 +1,64 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Diagnostic, DiagnosticSeverity, Position, Range } from '@bfc/shared';
+
+import { CommandResult, formatReport, hasErrors } from '../report';
+
+const lgError = new Diagnostic('syntax error', 'language-generation/en-us/main.en-us.lg', DiagnosticSeverity.Error);
+lgError.range = new Range(new Position(3, 0), new Position(3, 10));
+const dialogWarning = new Diagnostic(
+  'expression is not valid',
+  'main.dialog',
+  DiagnosticSeverity.Warning,
+  'triggers[0].actions[1]'
+);
+
+const result: CommandResult = { command: 'validate', success: false, diagnostics: [lgError, dialogWarning] };
+
+describe('report', () => {
+  it('fails on errors only', () => {
+    expect(hasErrors([dialogWarning])).toBe(false);
+    expect(hasErrors([dialogWarning, lgError])).toBe(true);
+  });
+
+  it('converts the diagnostics to SARIF results', () => {
+    const [run] = JSON.parse(formatReport(result, 'sarif')).runs;
+
+    expect(run.tool.driver.name).toBe('composer-cli');
+    expect(run.results).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        message: { text: 'syntax error' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'language-generation/en-us/main.en-us.lg' },
+              region: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 11 },
+            },
+          },
+        ],
+      }),
+      expect.objectContaining({
+        level: 'warning',
+        locations: [
+          {
+            physicalLocation: { artifactLocation: { uri: 'main.dialog' } },
+            logicalLocations: [{ fullyQualifiedName: 'triggers[0].actions[1]', kind: 'object' }],
+          },
+        ],
+      }),
+    ]);
+  });
+
+  it('lists the diagnostics with their location in the text report', () => {
+    expect(formatReport(result, 'text')).toBe(
+      [
+        'language-generation/en-us/main.en-us.lg:3:1 error: syntax error',
+        'main.dialog#triggers[0].actions[1] warning: expression is not valid',
+        'validate failed, 1 error(s), 1 other problem(s)',
+        '',
+      ].join('\n')
+    );
+  });
+});
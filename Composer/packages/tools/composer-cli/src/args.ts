@@ -0,0 +1,48 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export type CliOptions = Record<string, string | boolean>;
+
+export type ParsedArgs = {
+  command?: string;
+  positionals: string[];
+  options: CliOptions;
+};
+
+/**
+ * Splits the command line into the command, its positional arguments and its options.
+ * "--name value" and "--name=value" set an option to a value, the given flags and an
+ * option followed by another option or by nothing are set to true.
+ */
+export const parseArgs = (argv: string[], flags: string[] = []): ParsedArgs => {
+  const positionals: string[] = [];
+  const options: CliOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h') {
+      options.help = true;
+    } else if (arg.startsWith('--')) {
+      const [name, ...value] = arg.slice(2).split('=');
+      if (value.length) {
+        options[name] = value.join('=');
+      } else if (flags.includes(name)) {
+        options[name] = true;
+      } else if (i + 1 < argv.length && !argv[i + 1].startsWith('-')) {
+        options[name] = argv[++i];
+      } else {
+        options[name] = true;
+      }
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, options };
+};
+
+export const getStringOption = (options: CliOptions, name: string): string | undefined => {
+  const value = options[name];
+  return typeof value === 'string' ? value : undefined;
+};
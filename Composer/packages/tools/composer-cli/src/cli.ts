@@ -0,0 +1,144 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import fs from 'fs';
+
+import { BotProject, ExtensionContext, ExtensionManager } from '@bfc/server';
+
+import { CliOptions, getStringOption, parseArgs } from './args';
+import { indexBot, loadBot } from './project';
+import { CommandResult, formatReport, hasErrors, ReportFormat, reportFormats } from './report';
+import { validateBot } from './commands/validate';
+import { buildBot, checkBuildResources } from './commands/build';
+import { exportBot } from './commands/export';
+import { publishBot } from './commands/publish';
+
+export enum ExitCode {
+  Success = 0,
+  Failure = 1,
+  Usage = 2,
+}
+
+export const usage = `Usage: composer-cli <command> <botDir> [options]
+
+Commands:
+  validate                 check the dialogs, LG, LU and QnA files and the settings of the bot
+  build                    build the LUIS, QnA Maker and Orchestrator models of the bot
+  export                   zip the bot, --out sets the zip file (<botName>.zip by default)
+  publish --target <name>  publish the bot with one of the publishing profiles in its settings
+
+Options:
+  --format text|json|sarif|junit
+                            format of the report (text by default)
+  --output <file>           write the report to a file instead of the standard output
+  --skill                   also check the skill manifest when validating
+  --luis-authoring-key, --luis-endpoint-key, --qna-subscription-key
+                            keys used to build instead of the ones in the bot settings
+  --access-token <token>    access token passed to the publish extension
+  --comment <text>          comment of the publish
+
+The exit code is 1 when the command fails or the bot has errors, 2 when the command line is not valid.
+`;
+
+const flags = ['help', 'skill'];
+
+type Command = (project: BotProject, options: CliOptions) => Promise<Omit<CommandResult, 'command'>>;
+
+const commands: Record<string, Command> = {
+  validate: async (project, options) => {
+    const bot = indexBot(project);
+    // the lint rules added by extensions are checked too
+    await ExtensionManager.loadAll();
+    const diagnostics = validateBot(bot, !!options.skill, ExtensionContext.extensions.lintRules);
+    return { success: !hasErrors(diagnostics), diagnostics };
+  },
+
+  build: async (project, options) => {
+    const bot = indexBot(project);
+    const diagnostics = checkBuildResources(bot);
+    if (hasErrors(diagnostics)) {
+      return { success: false, diagnostics, message: 'The LU and QnA files have errors, the bot was not built.' };
+    }
+    const result = await buildBot(bot, options);
+    return { success: true, diagnostics, result };
+  },
+
+  export: async (project, options) => {
+    const zipPath = await exportBot(project, getStringOption(options, 'out') ?? `${project.name}.zip`);
+    return { success: true, diagnostics: [], result: { path: zipPath } };
+  },
+
+  publish: async (project, options) => {
+    const target = getStringOption(options, 'target') as string;
+    const bot = indexBot(project);
+    const diagnostics = checkBuildResources(bot);
+    if (hasErrors(diagnostics)) {
+      return { success: false, diagnostics, message: 'The LU and QnA files have errors, the bot was not published.' };
+    }
+    const result = await publishBot(bot, target, options);
+    return { success: result.status === 200, diagnostics, message: result.message, result };
+  },
+};
+
+const getUsageError = (
+  command: string | undefined,
+  botDir: string | undefined,
+  format: string,
+  options: CliOptions
+) => {
+  if (!command) return 'Missing command.';
+  if (!commands[command]) return `Unknown command ${command}.`;
+  if (!botDir) return 'Missing bot folder.';
+  if (!reportFormats.includes(format as ReportFormat)) return `Unknown format ${format}.`;
+  if (command === 'publish' && !getStringOption(options, 'target')) {
+    return 'Missing publishing profile, set it with --target.';
+  }
+};
+
+/**
+ * Runs the command line and returns the exit code of the process.
+ */
+export const run = async (
+  argv: string[],
+  stdout: (text: string) => void = (text) => process.stdout.write(text),
+  stderr: (text: string) => void = (text) => process.stderr.write(text)
+): Promise<ExitCode> => {
+  const { command, positionals, options } = parseArgs(argv, flags);
+  if (options.help) {
+    stdout(usage);
+    return ExitCode.Success;
+  }
+
+  const format = (getStringOption(options, 'format') ?? 'text') as ReportFormat;
+  const [botDir] = positionals;
+  const usageError = getUsageError(command, botDir, format, options);
+  if (usageError) {
+    stderr(`${usageError}\n\n${usage}`);
+    return ExitCode.Usage;
+  }
+
+  const name = command as string;
+  let project: BotProject | undefined;
+  let result: CommandResult;
+  try {
+    project = await loadBot(botDir as string);
+    result = { command: name, ...(await commands[name](project, options)) };
+  } catch (error) {
+    result = {
+      command: name,
+      success: false,
+      diagnostics: [],
+      message: error instanceof Error ? error.message : error,
+    };
+  }
+
+  const report = formatReport(result, format, project?.getProject().files, project?.name);
+  const output = getStringOption(options, 'output');
+  if (output) {
+    fs.writeFileSync(output, report);
+  } else {
+    stdout(report);
+  }
+
+  return result.success ? ExitCode.Success : ExitCode.Failure;
+};
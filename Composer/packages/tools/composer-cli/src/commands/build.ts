@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Diagnostic, DiagnosticSeverity } from '@bfc/shared';
+import { BotIndexer } from '@bfc/indexers';
+import { getBaseName } from '@bfc/indexers/lib/utils/help';
+
+import { CliOptions, getStringOption } from '../args';
+import { IndexedBot, locateDiagnostics } from '../project';
+
+/**
+ * The LU and QnA files used by the recognizers of the dialogs, in the languages LUIS and QnA Maker support.
+ */
+export const getBuildResources = (bot: IndexedBot) => {
+  const { dialogs, luFiles, qnaFiles } = bot;
+  const isReferred = (id: string, key: 'luFile' | 'qnaFile') =>
+    dialogs.some((dialog) => dialog[key] === getBaseName(id));
+
+  const referredLuFiles = BotIndexer.filterLUISFilesToPublish(
+    luFiles.filter(({ id }) => isReferred(id, 'luFile')),
+    dialogs
+  );
+  const referredQnaFiles = BotIndexer.filterQnAFilesToPublish(qnaFiles.filter(({ id }) => isReferred(id, 'qnaFile')));
+
+  return {
+    luResources: referredLuFiles.map((file) => ({ id: file.id, isEmpty: file.empty })),
+    qnaResources: referredQnaFiles.map((file) => ({ id: file.id, isEmpty: file.empty })),
+  };
+};
+
+/**
+ * The errors that keep the LU and QnA files from being built, the build is not started when there are any.
+ */
+export const checkBuildResources = (bot: IndexedBot): Diagnostic[] => {
+  const { luResources, qnaResources } = getBuildResources(bot);
+  const diagnostics: Diagnostic[] = [];
+
+  bot.luFiles
+    .filter(({ id }) => luResources.some((resource) => resource.id === id))
+    .forEach(({ id, diagnostics: luDiagnostics }) => {
+      const errors = luDiagnostics.filter(({ severity }) => severity === DiagnosticSeverity.Error);
+      diagnostics.push(...locateDiagnostics(bot, errors, `${id}.lu`));
+    });
+  bot.qnaFiles
+    .filter(({ id }) => qnaResources.some((resource) => resource.id === id))
+    .forEach(({ id, qnaSections }) => {
+      if (qnaSections.some((section) => !section.Answer || section.Questions.some((q) => !q.content))) {
+        const error = new Diagnostic(`${id}.qna file contains empty answer or questions`, id);
+        diagnostics.push(...locateDiagnostics(bot, [error], `${id}.qna`));
+      }
+    });
+
+  return diagnostics;
+};
+
+/**
+ * Builds the LUIS, QnA Maker and Orchestrator models of the bot and cross trains them into the generated folder.
+ * The keys saved in the bot settings can be overridden, to keep them out of the settings in CI pipelines.
+ */
+export const buildBot = async (bot: IndexedBot, options: CliOptions) => {
+  const { project, settings } = bot;
+  const { luResources, qnaResources } = getBuildResources(bot);
+
+  await project.buildFiles({
+    luisConfig: {
+      ...settings.luis,
+      authoringKey: getStringOption(options, 'luis-authoring-key') ?? settings.luis.authoringKey,
+      endpointKey: getStringOption(options, 'luis-endpoint-key') ?? settings.luis.endpointKey,
+    },
+    qnaConfig: {
+      ...settings.qna,
+      subscriptionKey: getStringOption(options, 'qna-subscription-key') ?? settings.qna.subscriptionKey,
+    },
+    orchestratorConfig: settings.orchestrator,
+    luResource: luResources,
+    qnaResource: qnaResources,
+  });
+
+  return { luResources, qnaResources };
+};
@@ -0,0 +1,22 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import fs from 'fs';
+import Path from 'path';
+
+import { BotProject } from '@bfc/server';
+
+/**
+ * Zips the bot the same way the Export menu of Composer does.
+ */
+export const exportBot = (project: BotProject, zipPath: string) =>
+  new Promise<string>((resolve, reject) => {
+    const path = Path.resolve(zipPath);
+    project.exportToZip(null, (archive) => {
+      const output = fs.createWriteStream(path);
+      output.on('close', () => resolve(path));
+      output.on('error', reject);
+      archive.on('error', reject);
+      archive.pipe(output);
+    });
+  });
@@ -0,0 +1,63 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { defaultPublishConfig } from '@bfc/shared';
+import { authService, ExtensionContext, ExtensionManager } from '@bfc/server';
+
+import { CliOptions, getStringOption } from '../args';
+import { IndexedBot } from '../project';
+
+import { getBuildResources } from './build';
+
+const STATUS_POLL_INTERVAL = 5000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Publishes the bot to one of the publishing profiles in its settings with the publish extension of
+ * the profile, and waits for the publishing to complete when the extension reports its status.
+ */
+export const publishBot = async (bot: IndexedBot, target: string, options: CliOptions) => {
+  const { project, settings } = bot;
+  const profile = [defaultPublishConfig, ...(settings.publishTargets ?? [])].find(({ name }) => name === target);
+  if (!profile) {
+    throw new Error(`There is no publishing profile named ${target} in the bot settings.`);
+  }
+
+  await ExtensionManager.loadAll();
+  const methods = ExtensionContext.extensions.publish[profile.type]?.methods;
+  if (!methods?.publish) {
+    throw new Error(`${profile.type} is not a valid publishing target type. There may be a missing plugin.`);
+  }
+
+  const profileConfiguration = JSON.parse(profile.configuration || '{}');
+  const configuration = {
+    profileName: profile.name,
+    fullSettings: settings,
+    ...profileConfiguration,
+    accessToken: getStringOption(options, 'access-token') ?? '',
+  };
+  const metadata = { comment: getStringOption(options, 'comment') ?? '', ...getBuildResources(bot) };
+  const getAccessToken = authService.getAccessToken.bind(authService);
+
+  let { status, result } = await methods.publish.call(
+    null,
+    configuration,
+    project,
+    metadata,
+    undefined,
+    getAccessToken
+  );
+  while (status === 202 && methods.getStatus) {
+    await wait(STATUS_POLL_INTERVAL);
+    ({ status, result } = await methods.getStatus.call(
+      null,
+      { profileName: profile.name, jobId: result?.id, ...profileConfiguration },
+      project,
+      undefined,
+      getAccessToken
+    ));
+  }
+
+  return { status, ...result };
+};
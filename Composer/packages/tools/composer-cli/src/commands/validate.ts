@@ -0,0 +1,39 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Diagnostic, LintRule } from '@bfc/shared';
+import { BotIndexer, validateDialog } from '@bfc/indexers';
+
+import { IndexedBot, locateDiagnostics } from '../project';
+
+/**
+ * Runs the checks behind the Composer diagnostics page: bot settings and skills,
+ * the expressions and the lint rules of the dialogs and the syntax of the LG, LU and QnA files.
+ */
+export const validateBot = (bot: IndexedBot, isSkill = false, lintRules: LintRule[] = []): Diagnostic[] => {
+  const { dialogs, lgFiles, luFiles, qnaFiles, settings, schema } = bot;
+  const diagnostics: Diagnostic[] = [];
+
+  BotIndexer.validate({ ...bot, setting: settings, isRootBot: !isSkill }).forEach((diagnostic) => {
+    const isDialog = dialogs.some(({ id }) => id === diagnostic.source);
+    diagnostics.push(
+      ...locateDiagnostics(bot, [diagnostic], isDialog ? `${diagnostic.source}.dialog` : diagnostic.source)
+    );
+  });
+
+  dialogs.forEach((dialog) => {
+    const result = validateDialog(dialog, schema, settings, lgFiles, luFiles, undefined, lintRules);
+    diagnostics.push(...locateDiagnostics(bot, result.diagnostics ?? [], `${dialog.id}.dialog`));
+  });
+  lgFiles.forEach(({ id, diagnostics: lgDiagnostics }) => {
+    diagnostics.push(...locateDiagnostics(bot, lgDiagnostics, `${id}.lg`));
+  });
+  luFiles.forEach(({ id, diagnostics: luDiagnostics }) => {
+    diagnostics.push(...locateDiagnostics(bot, luDiagnostics, `${id}.lu`));
+  });
+  qnaFiles.forEach(({ id, diagnostics: qnaDiagnostics }) => {
+    diagnostics.push(...locateDiagnostics(bot, qnaDiagnostics, `${id}.qna`));
+  });
+
+  return diagnostics;
+};
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { run } from './cli';
+
+run(process.argv.slice(2)).then((exitCode) => {
+  process.exit(exitCode);
+});
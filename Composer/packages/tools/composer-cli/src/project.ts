@@ -0,0 +1,101 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import fs from 'fs';
+import Path from 'path';
+
+import {
+  Diagnostic,
+  DialogInfo,
+  DialogSetting,
+  FileInfo,
+  LgFile,
+  LuFile,
+  LuProviderType,
+  QnAFile,
+  RecognizerFile,
+  SDKKinds,
+  lgImportResolverGenerator,
+  luImportResolverGenerator,
+} from '@bfc/shared';
+import { indexer, lgIndexer, luIndexer, qnaIndexer } from '@bfc/indexers';
+import { BotProject } from '@bfc/server';
+
+export type IndexedBot = ReturnType<typeof indexBot>;
+
+const getLuProvider = (dialogId: string, recognizers: RecognizerFile[]) => {
+  let kind: LuProviderType | undefined = undefined;
+  for (const {
+    id,
+    content: { $kind },
+  } of recognizers) {
+    if (id.split('.')[0] === dialogId) {
+      if ($kind === SDKKinds.OrchestratorRecognizer) return $kind;
+      if ($kind === SDKKinds.LuisRecognizer) kind = $kind;
+    }
+  }
+
+  return kind;
+};
+
+const filesWithExtension = (files: FileInfo[], extension: string) =>
+  files.filter(({ name }) => name.endsWith(extension));
+
+export const loadBot = async (dir: string) => {
+  const path = Path.resolve(dir);
+  if (!fs.existsSync(path) || !fs.statSync(path).isDirectory()) {
+    throw new Error(`${path} is not a bot folder.`);
+  }
+
+  const project = new BotProject({ storageId: 'default', path });
+  await project.init();
+  return project;
+};
+
+/**
+ * Parses the files of the bot the same way the Composer client does once a project is opened.
+ */
+export const indexBot = (project: BotProject) => {
+  const { botName, files, schemas } = project.getProject();
+  const settings = project.settings as DialogSetting;
+  const assets = indexer.index(files, botName);
+  const { lgResources, luResources, recognizers } = assets;
+
+  const dialogs: DialogInfo[] = assets.dialogs.map((dialog) => ({
+    ...dialog,
+    luProvider: getLuProvider(dialog.id, recognizers),
+  }));
+  const lgFiles: LgFile[] = lgIndexer.index(
+    filesWithExtension(files, '.lg'),
+    lgImportResolverGenerator(lgResources, '.lg')
+  );
+  const luFiles: LuFile[] = luIndexer.index(
+    filesWithExtension(files, '.lu'),
+    settings.luFeatures,
+    luImportResolverGenerator(luResources, '.lu')
+  );
+  const qnaFiles: QnAFile[] = qnaIndexer.index(filesWithExtension(files, '.qna'));
+
+  return {
+    project,
+    files,
+    settings,
+    schema: schemas.sdk.content,
+    dialogs,
+    lgFiles,
+    luFiles,
+    qnaFiles,
+    recognizers,
+    skillManifests: assets.skillManifests,
+    botProjectFile: assets.botProjectSpaceFiles[0],
+  };
+};
+
+/**
+ * Points the diagnostics to the file they were found in, relative to the bot folder.
+ */
+export const locateDiagnostics = (bot: IndexedBot, diagnostics: Diagnostic[], fileName: string): Diagnostic[] => {
+  const file = bot.files.find(({ name }) => name === fileName);
+  const source = file?.relativePath ?? fileName;
+  return diagnostics.map((diagnostic) => ({ ...diagnostic, source }));
+};
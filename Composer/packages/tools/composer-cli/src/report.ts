@@ -0,0 +1,59 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Diagnostic, DiagnosticSeverity, FileInfo } from '@bfc/shared';
+import { toJUnit, toSarif } from '@bfc/indexers';
+
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const reportFormats: ReportFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+export type CommandResult = {
+  command: string;
+  success: boolean;
+  diagnostics: Diagnostic[];
+  message?: string;
+  result?: Record<string, any>;
+};
+
+const severityNames = {
+  [DiagnosticSeverity.Error]: 'error',
+  [DiagnosticSeverity.Warning]: 'warning',
+  [DiagnosticSeverity.Information]: 'information',
+  [DiagnosticSeverity.Hint]: 'hint',
+};
+
+export const hasErrors = (diagnostics: Diagnostic[]) =>
+  diagnostics.some(({ severity }) => severity === DiagnosticSeverity.Error);
+
+const formatLocation = ({ source, range, path }: Diagnostic) => {
+  if (range) return `${source}:${range.start.line}:${range.start.character + 1}`;
+  return path ? `${source}#${path}` : source;
+};
+
+const toText = ({ command, success, diagnostics, message }: CommandResult) => {
+  const lines = diagnostics.map(
+    (diagnostic) => `${formatLocation(diagnostic)} ${severityNames[diagnostic.severity]}: ${diagnostic.message}`
+  );
+  const errors = diagnostics.filter(({ severity }) => severity === DiagnosticSeverity.Error).length;
+  const others = diagnostics.length - errors;
+  lines.push(`${command} ${success ? 'succeeded' : 'failed'}, ${errors} error(s), ${others} other problem(s)`);
+  if (message) lines.push(message);
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * The SARIF and JUnit reports are the ones downloaded from the diagnostics page of Composer.
+ */
+export const formatReport = (result: CommandResult, format: ReportFormat, files: FileInfo[] = [], botName = '') => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2) + '\n';
+    case 'sarif':
+      return JSON.stringify(toSarif(result.diagnostics, files, 'composer-cli'), null, 2) + '\n';
+    case 'junit':
+      return toJUnit(result.diagnostics, files, botName);
+    default:
+      return toText(result);
+  }
+};
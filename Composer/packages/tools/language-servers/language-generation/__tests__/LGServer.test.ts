@@ -152,6 +152,25 @@ describe('LG LSP server test', () => {
     ]);
   });
 
+  it('rename, an invalid or taken template name should return error', async () => {
+    const rename = (id: number, newName: string) =>
+      `{"jsonrpc":"2.0","id":${id},"method":"textDocument/rename","params":{"textDocument":{"uri":"inmemory://model/1"},"position":{"line":0,"character":4},"newName":"${newName}"}}`;
+    await send(rename(4, 'Good morning'), [
+      (response) => {
+        expect(response.id).toEqual(4);
+        expect(response.error.code).toEqual(-32602);
+        expect(response.error.message).toEqual('Good morning is not a valid template name');
+      },
+    ]);
+    await send(rename(5, 'Greeting2'), [
+      (response) => {
+        expect(response.id).toEqual(5);
+        expect(response.error.code).toEqual(-32602);
+        expect(response.error.message).toEqual('A template named Greeting2 already exists');
+      },
+    ]);
+  });
+
   it('close documents should clean all diagnostics', async () => {
     const payload = `{"jsonrpc":"2.0","method":"textDocument/didClose","params":{"textDocument":{"uri":"inmemory://model/1"}}}`;
     await send(payload, [
@@ -16,6 +16,10 @@ import {
   generateDiagnostic,
   convertDiagnostics,
   convertSeverity,
+  findTemplateRangesInLg,
+  findTemplateRangesInDialog,
+  isValidTemplateName,
+  formatDialogText,
 } from '../lib/utils';
 import { LgParser } from '../lib/lgParser';
 
@@ -117,4 +121,42 @@ describe('LG LSP Server Function Unit Tests', () => {
     const result3 = await lgParser.updateTemplate(result2, 'Temp2', { body: 'new body' }, []);
     expect(result3.allTemplates[1].body).toEqual('new body');
   });
+
+  it('Test findTemplateRangesInLg function', () => {
+    const text = [
+      '# Greeting',
+      '- Hi ${Name()}, ${Greeting.length}',
+      '> ${Greeting()} in a comment',
+      '# Welcome(user)',
+      '- ${Greeting()} ${if(true, Greeting(), "")} ${MyGreeting()}',
+      '- ${Greeting} ${user.Greeting}',
+    ].join('\n');
+    const result = findTemplateRangesInLg(text, 'Greeting');
+    expect(result).toEqual([
+      Range.create(0, 2, 0, 10),
+      Range.create(4, 4, 4, 12),
+      Range.create(4, 27, 4, 35),
+      Range.create(5, 4, 5, 12),
+    ]);
+  });
+
+  it('Test findTemplateRangesInDialog function', () => {
+    const text = formatDialogText(
+      JSON.stringify({
+        activity: '${Greeting()}',
+        prompt: '${MyGreeting()} ${Greeting}',
+        text: 'Greeting',
+        condition: "${if(user.name, Greeting(), '')}",
+      })
+    );
+    const result = findTemplateRangesInDialog(text, 'Greeting');
+    expect(result).toEqual([Range.create(1, 17, 1, 25), Range.create(2, 31, 2, 39), Range.create(4, 32, 4, 40)]);
+  });
+
+  it('Test isValidTemplateName function', () => {
+    expect(isValidTemplateName('Greeting_2')).toBeTruthy();
+    expect(isValidTemplateName('Good morning')).toBeFalsy();
+    expect(isValidTemplateName('Greeting()')).toBeFalsy();
+    expect(isValidTemplateName('2Greeting')).toBeFalsy();
+  });
 });
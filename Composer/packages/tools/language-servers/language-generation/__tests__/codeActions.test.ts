@@ -0,0 +1,61 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Range } from 'vscode-languageserver-types';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { LgFile } from '@bfc/shared';
+
+import { getCodeActions } from '../lib/codeActions';
+
+const text = `# Greeting
+- Hi \${Name()}, welcome
+`;
+
+const document = TextDocument.create('inmemory://model/1', 'botbuilderlg', 1, text);
+const lgFile = { allTemplates: [{ name: 'Greeting' }] } as LgFile;
+const diagnostic = {
+  message:
+    "Error occurred when parsing expression 'Name()'. Name does not have an evaluator, it's not a built-in function or a custom function.",
+  range: Range.create(1, 5, 1, 14),
+};
+const importableFiles = [{ id: 'common', content: '# Name\n- Tom' }];
+
+describe('LG code actions', () => {
+  it('creates and imports the missing templates', () => {
+    const actions = getCodeActions({
+      document,
+      range: diagnostic.range,
+      diagnostics: [diagnostic],
+      lgFile,
+      isFile: true,
+      importableFiles,
+    });
+
+    expect(actions.map(({ title }) => title)).toEqual([
+      'Create template "Name"',
+      'Add import of "common.lg" for template "Name"',
+    ]);
+    expect(actions[0].edit?.changes?.[document.uri]).toEqual([
+      { range: Range.create(2, 0, 2, 0), newText: '\n# Name\n- \n' },
+    ]);
+    expect(actions[1].edit?.changes?.[document.uri]).toEqual([
+      { range: Range.create(0, 0, 0, 0), newText: '[import](common.lg)\n' },
+    ]);
+  });
+
+  it('does not fix the templates of a template body', () => {
+    const context = { document, range: diagnostic.range, diagnostics: [diagnostic], lgFile, importableFiles };
+    expect(getCodeActions({ ...context, isFile: false })).toEqual([]);
+  });
+
+  it('converts the selected text to a template', () => {
+    const range = Range.create(1, 16, 1, 23);
+    const actions = getCodeActions({ document, range, diagnostics: [], lgFile, isFile: true, importableFiles });
+
+    expect(actions.map(({ title }) => title)).toEqual(['Convert to LG template "Template_1"']);
+    expect(actions[0].edit?.changes?.[document.uri]).toEqual([
+      { range, newText: '${Template_1()}' },
+      { range: Range.create(2, 0, 2, 0), newText: '\n# Template_1\n- welcome\n' },
+    ]);
+  });
+});
@@ -3,7 +3,7 @@
 import path from 'path';
 
 import URI from 'vscode-uri';
-import { IConnection, TextDocuments } from 'vscode-languageserver';
+import { IConnection, TextDocuments, ResponseError, ErrorCodes } from 'vscode-languageserver';
 import formatMessage from 'format-message';
 import {
   Diagnostic,
@@ -14,6 +14,7 @@ import {
   Range,
   DiagnosticSeverity,
   TextEdit,
+  CodeAction,
 } from 'vscode-languageserver-types';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import {
@@ -22,6 +23,10 @@ import {
   FoldingRangeParams,
   FoldingRange,
   Location,
+  ReferenceParams,
+  RenameParams,
+  CodeActionParams,
+  WorkspaceEdit,
 } from 'vscode-languageserver-protocol';
 import get from 'lodash/get';
 import uniq from 'lodash/uniq';
@@ -32,6 +37,7 @@ import { MemoryResolver, ResolverResource, LgFile } from '@bfc/shared';
 import { buildInFunctionsMap } from '@bfc/built-in-functions';
 
 import { LgParser } from './lgParser';
+import { getCodeActions } from './codeActions';
 import {
   getRangeAtPosition,
   getEntityRangeAtPosition,
@@ -44,11 +50,20 @@ import {
   cardPropDict,
   cardPropPossibleValueType,
   createFoldingRanges,
+  findTemplateRangesInLg,
+  findTemplateRangesInDialog,
+  formatDialogText,
+  isValidTemplateName,
 } from './utils';
 
 // define init methods call from client
 const initializeDocumentsMethodName = 'initializeDocuments';
 
+// edits of the project files sent to the client, which applies them as one change
+const applyProjectEditsMethodName = 'ApplyProjectEdits';
+
+type ProjectTemplateRanges = { fileName: string; ranges: Range[] }[];
+
 const { ROOT, TEMPLATENAME, TEMPLATEBODY, EXPRESSION, COMMENTS, SINGLE, DOUBLE, STRUCTURELG } = LGCursorState;
 
 export class LGServer {
@@ -69,7 +84,8 @@ export class LGServer {
     protected readonly connection: IConnection,
     protected readonly getLgResources: (projectId?: string) => ResolverResource[],
     protected readonly memoryResolver?: MemoryResolver,
-    protected readonly entitiesResolver?: MemoryResolver
+    protected readonly entitiesResolver?: MemoryResolver,
+    protected readonly getDialogResources?: (projectId?: string) => ResolverResource[]
   ) {
     this.documents.listen(this.connection);
     this.documents.onDidChangeContent((change) => {
@@ -92,7 +108,7 @@ export class LGServer {
       return {
         capabilities: {
           textDocumentSync: this.documents.syncKind,
-          codeActionProvider: false,
+          codeActionProvider: true,
           completionProvider: {
             resolveProvider: true,
             triggerCharacters: ['.', '[', '[', '\n', '@'],
@@ -100,6 +116,10 @@ export class LGServer {
           hoverProvider: true,
           foldingRangeProvider: true,
           definitionProvider: true,
+          referencesProvider: true,
+          renameProvider: {
+            prepareProvider: true,
+          },
           documentOnTypeFormattingProvider: {
             firstTriggerCharacter: '\n',
           },
@@ -108,7 +128,13 @@ export class LGServer {
     });
     this.connection.onCompletion(async (params) => await this.completion(params));
     this.connection.onDefinition((params: TextDocumentPositionParams) => this.definitionHandler(params));
+    this.connection.onReferences(async (params: ReferenceParams) => await this.referencesHandler(params));
+    this.connection.onPrepareRename(
+      async (params: TextDocumentPositionParams) => await this.prepareRenameHandler(params)
+    );
+    this.connection.onRenameRequest(async (params: RenameParams) => await this.renameHandler(params));
     this.connection.onHover(async (params) => await this.hover(params));
+    this.connection.onCodeAction(async (params: CodeActionParams) => await this.codeActionHandler(params));
     this.connection.onDocumentOnTypeFormatting((docTypingParams) => this.docTypeFormat(docTypingParams));
     this.connection.onFoldingRanges((foldingRangeParams: FoldingRangeParams) =>
       this.foldingRangeHandler(foldingRangeParams)
@@ -181,6 +207,124 @@ export class LGServer {
     return;
   }
 
+  // the template whose name is at the position, defined in the document, in its imports or in the project
+  protected async getTemplateAtPosition(
+    params: TextDocumentPositionParams
+  ): Promise<{ document: TextDocument; name: string; range: Range } | undefined> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return;
+
+    const range = getRangeAtPosition(document, params.position);
+    if (!range) return;
+
+    const name = document.getText(range);
+    const lgFile = await this.getLGDocument(document)?.index();
+    const isTemplate =
+      lgFile?.allTemplates.some((template) => template.name === name) ||
+      findTemplateRangesInLg(document.getText(), name).length > 0 ||
+      name in this._templateDefinitions;
+    return isTemplate ? { document, name, range } : undefined;
+  }
+
+  // ranges of the template name in the LG files and the dialogs of the project
+  protected findProjectTemplateRanges(projectId: string, templateName: string): ProjectTemplateRanges {
+    const lgRanges = this.getLgResources(projectId).map(({ id, content }) => ({
+      fileName: `${id}.lg`,
+      ranges: findTemplateRangesInLg(content, templateName),
+    }));
+    const dialogRanges = (this.getDialogResources?.(projectId) ?? []).map(({ id, content }) => {
+      try {
+        return {
+          fileName: `${id}.dialog`,
+          ranges: findTemplateRangesInDialog(formatDialogText(content), templateName),
+        };
+      } catch (e) {
+        // dialogs that are not valid JSON can't be searched
+        return { fileName: `${id}.dialog`, ranges: [] };
+      }
+    });
+    return [...lgRanges, ...dialogRanges].filter(({ ranges }) => ranges.length > 0);
+  }
+
+  protected getProjectFileUri(projectId: string, fileName: string): string {
+    return URI.from({ scheme: 'composer', authority: projectId, path: `/${fileName}` }).toString();
+  }
+
+  protected async referencesHandler(params: ReferenceParams): Promise<Location[]> {
+    const template = await this.getTemplateAtPosition(params);
+    if (!template) return [];
+
+    const { document, name } = template;
+    const lgDocument = this.getLGDocument(document);
+    const projectId = lgDocument?.projectId;
+    if (!projectId) {
+      return findTemplateRangesInLg(document.getText(), name).map((range) => Location.create(document.uri, range));
+    }
+
+    return this.findProjectTemplateRanges(projectId, name).reduce((locations: Location[], { fileName, ranges }) => {
+      // the file open in the editor is located in its document
+      const uri =
+        lgDocument?.fileId && !lgDocument.templateId && fileName === `${lgDocument.fileId}.lg`
+          ? document.uri
+          : this.getProjectFileUri(projectId, fileName);
+      return [...locations, ...ranges.map((range) => Location.create(uri, range))];
+    }, []);
+  }
+
+  protected async prepareRenameHandler(
+    params: TextDocumentPositionParams
+  ): Promise<{ range: Range; placeholder: string } | null> {
+    const template = await this.getTemplateAtPosition(params);
+    return template ? { range: template.range, placeholder: template.name } : null;
+  }
+
+  protected async renameHandler(params: RenameParams): Promise<WorkspaceEdit | ResponseError<void> | null> {
+    const template = await this.getTemplateAtPosition(params);
+    if (!template) return null;
+
+    const { document, name } = template;
+    const { newName } = params;
+    if (newName === name) return { changes: {} };
+    if (!isValidTemplateName(newName)) {
+      return new ResponseError(
+        ErrorCodes.InvalidParams,
+        formatMessage('{name} is not a valid template name', { name: newName })
+      );
+    }
+
+    const projectId = this.getLGDocument(document)?.projectId;
+    if (await this.isTemplateNameTaken(document, newName, projectId)) {
+      return new ResponseError(
+        ErrorCodes.InvalidParams,
+        formatMessage('A template named {name} already exists', { name: newName })
+      );
+    }
+
+    if (!projectId) {
+      const edits = findTemplateRangesInLg(document.getText(), name).map((range) => TextEdit.replace(range, newName));
+      return { changes: { [document.uri]: edits } };
+    }
+
+    // the LG files and the dialogs of the project are updated by the client, so the rename is undone as one change
+    const changes = this.findProjectTemplateRanges(projectId, name).reduce((changes, { fileName, ranges }) => {
+      changes[fileName] = ranges.map((range) => TextEdit.replace(range, newName));
+      return changes;
+    }, {} as Record<string, TextEdit[]>);
+    this.connection.sendNotification(applyProjectEditsMethodName, { projectId, oldName: name, newName, changes });
+    return { changes: {} };
+  }
+
+  // the name is defined or referenced in the document, its imports or the project
+  protected async isTemplateNameTaken(document: TextDocument, name: string, projectId?: string): Promise<boolean> {
+    const lgFile = await this.getLGDocument(document)?.index();
+    return (
+      !!lgFile?.allTemplates.some((template) => template.name === name) ||
+      findTemplateRangesInLg(document.getText(), name).length > 0 ||
+      name in this._templateDefinitions ||
+      (!!projectId && this.findProjectTemplateRanges(projectId, name).length > 0)
+    );
+  }
+
   protected foldingRangeHandler(params: FoldingRangeParams): FoldingRange[] {
     const document = this.documents.get(params.textDocument.uri);
     if (!document) {
@@ -320,6 +464,28 @@ export class LGServer {
     }
   }
 
+  protected async codeActionHandler(params: CodeActionParams): Promise<CodeAction[]> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    const lgDocument = this.getLGDocument(document);
+    const { projectId, fileId, templateId } = lgDocument || {};
+    const lgFile = await lgDocument?.index();
+    const locale = this.getLocale(fileId);
+    const importableFiles = (projectId ? this.getLgResources(projectId) : [])
+      .filter(({ id }) => id !== fileId && this.getLocale(id) === locale)
+      .map(({ id, content }) => ({ id: locale ? this.removeLocaleInId(id) : id, content }));
+
+    return getCodeActions({
+      document,
+      range: params.range,
+      diagnostics: params.context.diagnostics,
+      lgFile,
+      isFile: !templateId,
+      importableFiles,
+    });
+  }
+
   protected getLGDocument(document: TextDocument): LGDocument | undefined {
     return this.LGDocuments.find(({ uri }) => uri === document.uri);
   }
@@ -0,0 +1,121 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CodeAction, CodeActionKind, Diagnostic, Position, Range, TextEdit } from 'vscode-languageserver-types';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { LgFile, ResolverResource } from '@bfc/shared';
+import formatMessage from 'format-message';
+
+export interface LGCodeActionContext {
+  document: TextDocument;
+  range: Range;
+  diagnostics: Diagnostic[];
+  lgFile?: LgFile;
+  // the document holds a whole LG file, not the body of one template
+  isFile: boolean;
+  // the other LG files of the project in the locale of the document, with ids without locale
+  importableFiles: ResolverResource[];
+}
+
+export type LGCodeActionProvider = (context: LGCodeActionContext) => CodeAction[];
+
+const missingTemplateRegex = /([\w.]+) does not have an evaluator, it's not a built-in function or a custom function/;
+
+const templateDefinitionRegex = /^\s*#\s*([^\s(]+)/;
+
+function getDefinedTemplates(content: string): string[] {
+  return content.split(/\r?\n/g).reduce((names: string[], line) => {
+    const matched = templateDefinitionRegex.exec(line);
+    return matched ? [...names, matched[1]] : names;
+  }, []);
+}
+
+function getMissingTemplates(context: LGCodeActionContext): { name: string; diagnostic: Diagnostic }[] {
+  const templates = context.lgFile?.allTemplates.map(({ name }) => name) ?? [];
+  return context.diagnostics.reduce((result: { name: string; diagnostic: Diagnostic }[], diagnostic) => {
+    const matched = missingTemplateRegex.exec(diagnostic.message);
+    if (matched && !templates.includes(matched[1])) {
+      result.push({ name: matched[1], diagnostic });
+    }
+    return result;
+  }, []);
+}
+
+function appendToDocument(document: TextDocument, text: string): TextEdit {
+  const content = document.getText();
+  const end = document.positionAt(content.length);
+  const separator = content.length === 0 || content.endsWith('\n') ? '' : '\n';
+  return TextEdit.insert(end, `${separator}${text}`);
+}
+
+function createWorkspaceEdit(document: TextDocument, edits: TextEdit[]) {
+  return { changes: { [document.uri]: edits } };
+}
+
+export const createMissingTemplate: LGCodeActionProvider = (context) => {
+  if (!context.isFile) return [];
+
+  const { document } = context;
+  return getMissingTemplates(context).map(({ name, diagnostic }) => {
+    const edit = appendToDocument(document, `\n# ${name}\n- \n`);
+    const action = CodeAction.create(
+      formatMessage('Create template "{name}"', { name }),
+      createWorkspaceEdit(document, [edit]),
+      CodeActionKind.QuickFix
+    );
+    return { ...action, diagnostics: [diagnostic] };
+  });
+};
+
+export const addImport: LGCodeActionProvider = (context) => {
+  if (!context.isFile) return [];
+
+  const { document, importableFiles } = context;
+  const imported = document.getText();
+  return getMissingTemplates(context).reduce((actions: CodeAction[], { name, diagnostic }) => {
+    importableFiles
+      .filter(({ id, content }) => !imported.includes(`(${id}.lg)`) && getDefinedTemplates(content).includes(name))
+      .forEach(({ id }) => {
+        const edit = TextEdit.insert(Position.create(0, 0), `[import](${id}.lg)\n`);
+        const action = CodeAction.create(
+          formatMessage('Add import of "{file}" for template "{name}"', { file: `${id}.lg`, name }),
+          createWorkspaceEdit(document, [edit]),
+          CodeActionKind.QuickFix
+        );
+        actions.push({ ...action, diagnostics: [diagnostic] });
+      });
+    return actions;
+  }, []);
+};
+
+export const convertToTemplate: LGCodeActionProvider = (context) => {
+  const { document, range, lgFile, isFile } = context;
+  if (!isFile || range.start.line !== range.end.line || range.start.character === range.end.character) return [];
+
+  const line = document.getText(Range.create(range.start.line, 0, range.start.line + 1, 0)).replace(/\r?\n$/, '');
+  const text = document.getText(range).trim();
+  if (!line.trim().startsWith('-') || !text || text.includes('${')) return [];
+
+  const templates = lgFile?.allTemplates.map(({ name }) => name) ?? getDefinedTemplates(document.getText());
+  let index = 1;
+  while (templates.includes(`Template_${index}`)) index++;
+  const name = `Template_${index}`;
+
+  const edits = [TextEdit.replace(range, `\${${name}()}`), appendToDocument(document, `\n# ${name}\n- ${text}\n`)];
+  return [
+    CodeAction.create(
+      formatMessage('Convert to LG template "{name}"', { name }),
+      createWorkspaceEdit(document, edits),
+      CodeActionKind.RefactorExtract
+    ),
+  ];
+};
+
+export const codeActionProviders: LGCodeActionProvider[] = [createMissingTemplate, addImport, convertToTemplate];
+
+/**
+ * Code actions of the providers for the range of the document, e.g. quick fixes of its diagnostics.
+ */
+export function getCodeActions(context: LGCodeActionContext, providers = codeActionProviders): CodeAction[] {
+  return providers.reduce((actions: CodeAction[], provider) => [...actions, ...provider(context)], []);
+}
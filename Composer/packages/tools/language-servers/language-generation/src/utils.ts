@@ -4,7 +4,7 @@
 import { Range, Position, DiagnosticSeverity, Diagnostic } from 'vscode-languageserver-types';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { DiagnosticSeverity as LGDiagnosticSeverity } from 'botbuilder-lg';
-import { Diagnostic as BFDiagnostic, LgFile } from '@bfc/shared';
+import { Diagnostic as BFDiagnostic, LgFile, LgTemplateRef } from '@bfc/shared';
 import { parser } from '@microsoft/bf-lu/lib/parser';
 import { offsetRange } from '@bfc/indexers';
 import { FoldingRange } from 'vscode-languageserver';
@@ -327,3 +327,125 @@ export function findAllVariables(contents: string | string[]) {
 
   return uniq(result);
 }
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// [start, end) of the ${...} expressions of the line
+function findExpressionSpans(line: string): [number, number][] {
+  const spans: [number, number][] = [];
+  let start = line.indexOf('${');
+  while (start !== -1) {
+    let depth = 0;
+    let quote = '';
+    let end = start + 1;
+    for (; end < line.length; end++) {
+      const char = line[end];
+      if (quote) {
+        if (char === quote) quote = '';
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        break;
+      }
+    }
+    spans.push([start, end]);
+    start = line.indexOf('${', end);
+  }
+  return spans;
+}
+
+const createTemplateCallRegex = (templateName: string) =>
+  // eslint-disable-next-line security/detect-non-literal-regexp
+  new RegExp(`(?<![\\w.])${escapeRegExp(templateName)}(?=\\s*\\()`, 'g');
+
+// ranges of the name of the template in the ${...} expressions of the line, in the calls nested at any depth and in
+// the ${templateName} expressions
+function findTemplateRangesInExpressions(
+  line: string,
+  lineIndex: number,
+  templateName: string,
+  callRegex: RegExp
+): Range[] {
+  const ranges: Range[] = [];
+  findExpressionSpans(line).forEach(([start, end]) => {
+    // ${templateName} and ${templateName(...)}
+    const templateRef = LgTemplateRef.parse(line.substring(start, end + 1));
+    if (templateRef) {
+      if (templateRef.name === templateName) {
+        ranges.push(Range.create(lineIndex, start + 2, lineIndex, start + 2 + templateName.length));
+      }
+      return;
+    }
+
+    const body = line.substring(start + 2, end);
+    if (body.trim() === templateName) {
+      const character = start + 2 + body.indexOf(templateName);
+      ranges.push(Range.create(lineIndex, character, lineIndex, character + templateName.length));
+      return;
+    }
+
+    let match: RegExpExecArray | null;
+    callRegex.lastIndex = 0;
+    while ((match = callRegex.exec(body))) {
+      const character = start + 2 + match.index;
+      ranges.push(Range.create(lineIndex, character, lineIndex, character + templateName.length));
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Whether the name can be referenced as ${name()} in the LG expressions.
+ */
+export function isValidTemplateName(name: string): boolean {
+  return LgTemplateRef.parse(`\${${name}()}`)?.name === name;
+}
+
+/**
+ * Ranges of the name of the template in LG text, in its definition and in the expressions referencing it.
+ */
+export function findTemplateRangesInLg(text: string, templateName: string): Range[] {
+  const ranges: Range[] = [];
+  const callRegex = createTemplateCallRegex(templateName);
+
+  text.split(/\r?\n/g).forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('>')) return;
+
+    if (trimmed.startsWith('#')) {
+      const definition = /^(\s*#\s*)([^\s(]+)/.exec(line);
+      if (definition && definition[2] === templateName) {
+        const start = definition[1].length;
+        ranges.push(Range.create(lineIndex, start, lineIndex, start + templateName.length));
+      }
+      return;
+    }
+
+    ranges.push(...findTemplateRangesInExpressions(line, lineIndex, templateName, callRegex));
+  });
+
+  return ranges;
+}
+
+/**
+ * The dialog text the template references are searched in, the client writes the dialogs the same way.
+ */
+export function formatDialogText(content: string): string {
+  return JSON.stringify(JSON.parse(content), null, 2) + '\n';
+}
+
+/**
+ * Ranges of the name of the template in the ${...} expressions of the dialog text.
+ */
+export function findTemplateRangesInDialog(text: string, templateName: string): Range[] {
+  const ranges: Range[] = [];
+  const callRegex = createTemplateCallRegex(templateName);
+
+  text.split(/\r?\n/g).forEach((line, lineIndex) => {
+    ranges.push(...findTemplateRangesInExpressions(line, lineIndex, templateName, callRegex));
+  });
+
+  return ranges;
+}
@@ -0,0 +1,69 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Range } from 'vscode-languageserver-types';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { getCodeActions } from '../../lib/codeActions';
+
+const text = `# Greeting
+- hi
+- hello {@userName=Tom}
+- Hi
+# Help
+- help {@city=Seattle}
+@ ml city
+`;
+
+const document = TextDocument.create('inmemory://model/1', 'lu', 1, text);
+
+describe('LU code actions', () => {
+  it('removes duplicate utterances', () => {
+    const actions = getCodeActions({ document, range: Range.create(3, 0, 3, 0), diagnostics: [], isFile: true });
+    expect(actions.map(({ title }) => title)).toEqual(['Remove duplicate utterance "Hi"']);
+    expect(actions[0].edit?.changes?.[document.uri]).toEqual([{ range: Range.create(3, 0, 4, 0), newText: '' }]);
+  });
+
+  it('defines the entities of labels', () => {
+    const actions = getCodeActions({ document, range: Range.create(1, 0, 5, 0), diagnostics: [], isFile: true });
+    expect(actions.map(({ title }) => title)).toEqual(['Remove duplicate utterance "Hi"', 'Define entity "userName"']);
+    expect(actions[1].edit?.changes?.[document.uri]).toEqual([
+      { range: Range.create(7, 0, 7, 0), newText: '\n@ ml userName\n' },
+    ]);
+  });
+
+  it('defines the entities of labels with roles and skips the malformed labels', () => {
+    const file = TextDocument.create(
+      'inmemory://model/4',
+      'lu',
+      1,
+      `# Book\n- fly to { @ city : destination = Paris }\n- fly {@a b=c} {${' '.repeat(10000)}@}\n`
+    );
+    const actions = getCodeActions({ document: file, range: Range.create(1, 0, 2, 0), diagnostics: [], isFile: true });
+
+    expect(actions.map(({ title }) => title)).toEqual(['Define entity "city"']);
+  });
+
+  it('does not define entities in intent bodies', () => {
+    const body = TextDocument.create('inmemory://model/2', 'lu', 1, '- hello {@userName=Tom}');
+    expect(getCodeActions({ document: body, range: Range.create(0, 0, 0, 0), diagnostics: [], isFile: false })).toEqual(
+      []
+    );
+  });
+
+  it('merges the utterances of duplicate intents', () => {
+    const file = TextDocument.create(
+      'inmemory://model/3',
+      'lu',
+      1,
+      '# Greeting\n- hi\n\n# Help\n- help\n\n# Greeting\n- hello\n- good morning\n'
+    );
+    const actions = getCodeActions({ document: file, range: Range.create(6, 0, 6, 0), diagnostics: [], isFile: true });
+
+    expect(actions.map(({ title }) => title)).toEqual(['Merge duplicate intent "Greeting"']);
+    expect(actions[0].edit?.changes?.[file.uri]).toEqual([
+      { range: Range.create(2, 0, 2, 0), newText: '- hello\n- good morning\n' },
+      { range: Range.create(6, 0, 10, 0), newText: '' },
+    ]);
+  });
+});
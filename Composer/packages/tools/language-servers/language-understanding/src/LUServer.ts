@@ -12,16 +12,19 @@ import {
   Range,
   DiagnosticSeverity,
   TextEdit,
+  CodeAction,
 } from 'vscode-languageserver-types';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import {
   TextDocumentPositionParams,
   DocumentOnTypeFormattingParams,
   FoldingRange,
+  CodeActionParams,
 } from 'vscode-languageserver-protocol';
 import { isValid, PlaceHolderSectionName } from '@bfc/indexers/lib/utils/luUtil';
 
 import { LuParser } from './luParser';
+import { getCodeActions } from './codeActions';
 import { EntityTypesObj, LineState } from './entityEnum';
 import * as util from './matchingPattern';
 import { LUOption, LUDocument, generateDiagnostic, convertDiagnostics, createFoldingRanges } from './utils';
@@ -65,7 +68,7 @@ export class LUServer {
       return {
         capabilities: {
           textDocumentSync: this.documents.syncKind,
-          codeActionProvider: false,
+          codeActionProvider: true,
           completionProvider: {
             resolveProvider: true,
             triggerCharacters: ['@', ' ', '{', ':', '[', '('],
@@ -79,6 +82,7 @@ export class LUServer {
     });
     this.connection.onCompletion((params) => this.completion(params));
     this.connection.onDocumentOnTypeFormatting((docTypingParams) => this.docTypeFormat(docTypingParams));
+    this.connection.onCodeAction((params: CodeActionParams) => this.codeActionHandler(params));
     this.connection.onFoldingRanges((foldingRangeParams: FoldingRangeParams) =>
       this.foldingRangeHandler(foldingRangeParams)
     );
@@ -112,6 +116,21 @@ export class LUServer {
     return [...createFoldingRanges(lines, '>>'), ...createFoldingRanges(lines, '#')];
   }
 
+  protected codeActionHandler(params: CodeActionParams): CodeAction[] {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+
+    const { fileId, sectionId } = this.getLUDocument(document) || {};
+    return getCodeActions({
+      document,
+      range: params.range,
+      diagnostics: params.context.diagnostics,
+      isFile: !(fileId && sectionId),
+    });
+  }
+
   protected async validateLuOption(document: TextDocument, luOption?: LUOption) {
     if (!luOption) return;
 
@@ -0,0 +1,178 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { CodeAction, CodeActionKind, Diagnostic, Position, Range, TextEdit } from 'vscode-languageserver-types';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import formatMessage from 'format-message';
+
+export interface LUCodeActionContext {
+  document: TextDocument;
+  range: Range;
+  diagnostics: Diagnostic[];
+  // the document holds a whole LU file, not the body of one intent
+  isFile: boolean;
+}
+
+export type LUCodeActionProvider = (context: LUCodeActionContext) => CodeAction[];
+
+const intentRegex = /^\s*#\s*\??\s*(.*)$/;
+const utteranceRegex = /^\s*-\s*(.*)$/;
+const entityDefinitionRegex = /^\s*@\s*[\w]+\s+(?:"([^"]+)"|([\w.]+))/;
+// labels {@entity=value} and {entity=value}, and {@entity} in patterns, where {entity} declares a pattern.any entity
+const entityReferenceRegex = /\{([^{}]*)\}/g;
+const entityNameRegex = /^[\w.]+$/;
+
+// the entity of a reference, with its role, e.g. "@ city : destination = Paris"
+function parseEntityReference(reference: string) {
+  const valueIndex = reference.indexOf('=');
+  const label = (valueIndex === -1 ? reference : reference.substring(0, valueIndex)).trim();
+  const hasPrefix = label.startsWith('@');
+  const [name, role, ...rest] = (hasPrefix ? label.substring(1) : label).split(':').map((part) => part.trim());
+  const isValid = entityNameRegex.test(name) && (role === undefined || entityNameRegex.test(role)) && rest.length === 0;
+  return isValid ? { name, hasPrefix, hasValue: valueIndex !== -1 } : undefined;
+}
+
+function getLines(document: TextDocument): string[] {
+  return document.getText().split(/\r?\n/g);
+}
+
+function getDiagnosticsOfLine(diagnostics: Diagnostic[], line: number): Diagnostic[] {
+  return diagnostics.filter(({ range }) => range.start.line <= line && line <= range.end.line);
+}
+
+function forEachLineInRange(range: Range, lines: string[], callback: (line: string, lineIndex: number) => void) {
+  for (let lineIndex = range.start.line; lineIndex <= Math.min(range.end.line, lines.length - 1); lineIndex++) {
+    callback(lines[lineIndex], lineIndex);
+  }
+}
+
+function createWorkspaceEdit(document: TextDocument, edits: TextEdit[]) {
+  return { changes: { [document.uri]: edits } };
+}
+
+export const removeDuplicateUtterance: LUCodeActionProvider = ({ document, range, diagnostics, isFile }) => {
+  const lines = getLines(document);
+  const utterances = new Set<string>();
+  const duplicates = new Set<number>();
+  let inIntent = !isFile;
+  lines.forEach((line, lineIndex) => {
+    if (intentRegex.test(line)) {
+      inIntent = true;
+    } else if (/^\s*@/.test(line)) {
+      inIntent = false;
+    } else if (inIntent && utteranceRegex.test(line)) {
+      const utterance = line.replace(utteranceRegex, '$1').trim().toLowerCase();
+      if (utterances.has(utterance)) duplicates.add(lineIndex);
+      utterances.add(utterance);
+    }
+  });
+
+  const actions: CodeAction[] = [];
+  forEachLineInRange(range, lines, (line, lineIndex) => {
+    if (!duplicates.has(lineIndex)) return;
+    const edit = TextEdit.del(Range.create(lineIndex, 0, lineIndex + 1, 0));
+    const action = CodeAction.create(
+      formatMessage('Remove duplicate utterance "{utterance}"', {
+        utterance: line.replace(utteranceRegex, '$1').trim(),
+      }),
+      createWorkspaceEdit(document, [edit]),
+      CodeActionKind.QuickFix
+    );
+    actions.push({ ...action, diagnostics: getDiagnosticsOfLine(diagnostics, lineIndex) });
+  });
+  return actions;
+};
+
+export const defineEntity: LUCodeActionProvider = ({ document, range, diagnostics, isFile }) => {
+  // the entities of an intent body are defined in the rest of its file
+  if (!isFile) return [];
+
+  const lines = getLines(document);
+  const definedEntities = lines.reduce((names: string[], line) => {
+    const matched = entityDefinitionRegex.exec(line);
+    return matched ? [...names, matched[1] || matched[2]] : names;
+  }, []);
+
+  const actions: CodeAction[] = [];
+  const undefinedEntities: string[] = [];
+  forEachLineInRange(range, lines, (line, lineIndex) => {
+    if (!utteranceRegex.test(line)) return;
+    let matched: RegExpExecArray | null;
+    entityReferenceRegex.lastIndex = 0;
+    while ((matched = entityReferenceRegex.exec(line))) {
+      const reference = parseEntityReference(matched[1]);
+      if (!reference || (!reference.hasPrefix && !reference.hasValue)) continue;
+      const { name } = reference;
+      if (definedEntities.includes(name) || undefinedEntities.includes(name)) continue;
+      undefinedEntities.push(name);
+
+      const end = document.positionAt(document.getText().length);
+      const separator = document.getText().endsWith('\n') ? '' : '\n';
+      const edit = TextEdit.insert(end, `${separator}\n@ ml ${name}\n`);
+      const action = CodeAction.create(
+        formatMessage('Define entity "{name}"', { name }),
+        createWorkspaceEdit(document, [edit]),
+        CodeActionKind.QuickFix
+      );
+      actions.push({ ...action, diagnostics: getDiagnosticsOfLine(diagnostics, lineIndex) });
+    }
+  });
+  return actions;
+};
+
+// the lines of the intent of the header, up to the next intent or entity definition
+function getIntentEnd(lines: string[], headerIndex: number): number {
+  let end = headerIndex + 1;
+  while (end < lines.length && !intentRegex.test(lines[end]) && !/^\s*@/.test(lines[end])) end++;
+  return end;
+}
+
+export const mergeDuplicateIntent: LUCodeActionProvider = ({ document, range, diagnostics, isFile }) => {
+  // an intent body has no header
+  if (!isFile) return [];
+
+  const lines = getLines(document);
+  const firstHeaders = new Map<string, number>();
+  const actions: CodeAction[] = [];
+  lines.forEach((line, lineIndex) => {
+    const matched = intentRegex.exec(line);
+    if (!matched) return;
+    const name = matched[1].trim();
+    const firstIndex = firstHeaders.get(name);
+    if (firstIndex === undefined) {
+      firstHeaders.set(name, lineIndex);
+      return;
+    }
+    if (lineIndex < range.start.line || lineIndex > range.end.line) return;
+
+    // the utterances of the duplicate move to the end of the first intent
+    const end = getIntentEnd(lines, lineIndex);
+    const utterances = lines.slice(lineIndex + 1, end).filter((item) => utteranceRegex.test(item));
+    let firstEnd = getIntentEnd(lines, firstIndex);
+    while (firstEnd > firstIndex + 1 && !lines[firstEnd - 1].trim()) firstEnd--;
+    const edits = [
+      TextEdit.insert(Position.create(firstEnd, 0), utterances.map((item) => `${item}\n`).join('')),
+      TextEdit.del(Range.create(lineIndex, 0, end, 0)),
+    ];
+    const action = CodeAction.create(
+      formatMessage('Merge duplicate intent "{name}"', { name }),
+      createWorkspaceEdit(document, edits),
+      CodeActionKind.QuickFix
+    );
+    actions.push({ ...action, diagnostics: getDiagnosticsOfLine(diagnostics, lineIndex) });
+  });
+  return actions;
+};
+
+export const codeActionProviders: LUCodeActionProvider[] = [
+  removeDuplicateUtterance,
+  defineEntity,
+  mergeDuplicateIntent,
+];
+
+/**
+ * Code actions of the providers for the range of the document, e.g. quick fixes of its diagnostics.
+ */
+export function getCodeActions(context: LUCodeActionContext, providers = codeActionProviders): CodeAction[] {
+  return providers.reduce((actions: CodeAction[], provider) => [...actions, ...provider(context)], []);
+}
@@ -0,0 +1,150 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Activity } from 'botframework-schema';
+
+export enum ConversationTestStepKind {
+  UserSays = 'Microsoft.Test.UserSays',
+  UserActivity = 'Microsoft.Test.UserActivity',
+  UserConversationUpdate = 'Microsoft.Test.UserConversationUpdate',
+  AssertReply = 'Microsoft.Test.AssertReply',
+  AssertReplyOneOf = 'Microsoft.Test.AssertReplyOneOf',
+  AssertReplyActivity = 'Microsoft.Test.AssertReplyActivity',
+  AssertTrace = 'Microsoft.Test.AssertTrace',
+  AssertNoActivity = 'Microsoft.Test.AssertNoActivity',
+}
+
+type ConversationTestStepBase = {
+  /** Optional human-readable description shown in the test report. */
+  description?: string;
+};
+
+type ConversationTestAssertionBase = ConversationTestStepBase & {
+  /** Milliseconds to wait for the bot to reply. */
+  timeout?: number;
+};
+
+export type ConversationTestUserSays = ConversationTestStepBase & {
+  $kind: ConversationTestStepKind.UserSays;
+  text: string;
+};
+
+export type ConversationTestUserActivity = ConversationTestStepBase & {
+  $kind: ConversationTestStepKind.UserActivity;
+  activity: Partial<Activity>;
+};
+
+export type ConversationTestUserConversationUpdate = ConversationTestStepBase & {
+  $kind: ConversationTestStepKind.UserConversationUpdate;
+  membersAdded?: string[];
+  membersRemoved?: string[];
+};
+
+export type ConversationTestExpectedAttachment = {
+  contentType: string;
+  /** Partial content, only the provided properties are compared. */
+  content?: unknown;
+};
+
+export type ConversationTestAssertReply = ConversationTestAssertionBase & {
+  $kind: ConversationTestStepKind.AssertReply;
+  text?: string;
+  /** When false, the reply only needs to contain the expected text. Defaults to true. */
+  exact?: boolean;
+  attachments?: ConversationTestExpectedAttachment[];
+  /** Titles (or values when there is no title) of the expected suggested actions, in order. */
+  suggestedActions?: string[];
+};
+
+export type ConversationTestAssertReplyOneOf = ConversationTestAssertionBase & {
+  $kind: ConversationTestStepKind.AssertReplyOneOf;
+  text: string[];
+  exact?: boolean;
+};
+
+export type ConversationTestAssertReplyActivity = ConversationTestAssertionBase & {
+  $kind: ConversationTestStepKind.AssertReplyActivity;
+  /** The whole expected activity, ids, timestamps and conversation accounts are ignored. */
+  activity: Partial<Activity>;
+};
+
+export type ConversationTestAssertTrace = ConversationTestAssertionBase & {
+  $kind: ConversationTestStepKind.AssertTrace;
+  name?: string;
+  label?: string;
+  valueType?: string;
+  /** Partial value, only the provided properties are compared. */
+  value?: unknown;
+};
+
+export type ConversationTestAssertNoActivity = ConversationTestAssertionBase & {
+  $kind: ConversationTestStepKind.AssertNoActivity;
+};
+
+export type ConversationTestStep =
+  | ConversationTestUserSays
+  | ConversationTestUserActivity
+  | ConversationTestUserConversationUpdate
+  | ConversationTestAssertReply
+  | ConversationTestAssertReplyOneOf
+  | ConversationTestAssertReplyActivity
+  | ConversationTestAssertTrace
+  | ConversationTestAssertNoActivity;
+
+/** Content of a .dialogtest file. */
+export type ConversationTestScript = {
+  $schema?: string;
+  $kind?: 'Microsoft.Test.Script';
+  description?: string;
+  /** Locale used for the conversation, defaults to the locale the tests are run with. */
+  locale?: string;
+  script: ConversationTestStep[];
+};
+
+export type ConversationTestSource = 'dialogtest' | 'transcript';
+
+export type ConversationTestFile = {
+  /** Path of the .dialogtest or .transcript file relative to the project folder. */
+  id: string;
+  source: ConversationTestSource;
+  description?: string;
+  stepCount: number;
+  /** Set when the file could not be parsed. */
+  error?: string;
+};
+
+export type ConversationTestDiff = {
+  /** Property path of the mismatch, ie. "text" or "attachments[0].contentType". */
+  path: string;
+  expected: unknown;
+  actual: unknown;
+};
+
+export type ConversationTestStepResult = {
+  index: number;
+  step: ConversationTestStep;
+  passed: boolean;
+  message?: string;
+  diffs: ConversationTestDiff[];
+  /** Bot activity the assertion was evaluated against. */
+  activity?: Activity;
+};
+
+export type ConversationTestStatus = 'passed' | 'failed' | 'error';
+
+export type ConversationTestResult = {
+  id: string;
+  description?: string;
+  status: ConversationTestStatus;
+  steps: ConversationTestStepResult[];
+  /** Duration of the run in milliseconds. */
+  duration: number;
+  error?: string;
+};
+
+export type ConversationTestRunSummary = {
+  passed: number;
+  failed: number;
+  errored: number;
+  results: ConversationTestResult[];
+};
@@ -25,3 +25,18 @@ export type IIntentTrigger = {
   intent: string;
   dialogs: string[];
 };
+
+export type DialogDiffKind = 'added' | 'removed' | 'moved' | 'changed';
+
+export type DialogDiffItem = {
+  kind: DialogDiffKind;
+  /** $designer.id of the trigger or action, its path when it has none. */
+  designId: string;
+  $kind: string;
+  /** Path of the trigger or action in the new dialog, or in the old one when it was removed. */
+  path: string;
+  /** Path in the old dialog of a moved or changed trigger or action. */
+  previousPath?: string;
+  /** Changed properties, the triggers and actions nested in it are compared on their own. */
+  properties?: string[];
+};
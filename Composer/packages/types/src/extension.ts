@@ -11,6 +11,7 @@ import { RuntimeTemplate, BotTemplate } from './runtime';
 import { BotProjectService } from './project';
 import { UserIdentity } from './user';
 import { IBotProject } from './server';
+import { LintRule } from './lint';
 
 export type ExtensionPublishContribution = {
   bundleId: string;
@@ -117,6 +118,7 @@ export type ExtensionCollection = {
   runtimeTemplates: RuntimeTemplate[];
   botTemplates: BotTemplate[];
   baseTemplates: BotTemplate[];
+  lintRules: LintRule[];
 };
 
 export type IExtensionContext = {
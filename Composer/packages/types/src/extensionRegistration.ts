@@ -10,6 +10,7 @@ import { PublishPlugin } from './publish';
 import { RuntimeTemplate, BotTemplate } from './runtime';
 import { UserIdentity } from './user';
 import { IBotProject } from './server';
+import { LintRule } from './lint';
 
 export type ExtensionStore<T = any> = {
   readAll(): Partial<T>;
@@ -80,6 +81,21 @@ export type IExtensionRegistration = {
    * @param template
    */
   addBaseTemplate(template: BotTemplate): void;
+  /**
+   * Add a lint rule checking the dialogs. Its diagnostics are shown in the Diagnostics page,
+   * with the severity configured in the `lint` settings of the bot.
+   * @param rule
+   * ```ts
+   * composer.addLintRule({
+   *   id: 'contoso/text-input-max-turn-count',
+   *   kinds: ['Microsoft.TextInput'],
+   *   condition: 'exists(node.maxTurnCount)',
+   *   message: 'Text inputs must set the max turn count.',
+   *   defaultSeverity: 'warning',
+   * });
+   * ```
+   */
+  addLintRule(rule: LintRule): void;
 
   addWebMiddleware(middleware: RequestHandler): void;
   addWebRoute(type: string, url: string, ...handlers: RequestHandler[]): void;
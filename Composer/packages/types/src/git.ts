@@ -0,0 +1,27 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export type GitFileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'untracked';
+
+export type GitFileChange = {
+  /** Path relative to the bot project folder. */
+  path: string;
+  status: GitFileStatus;
+};
+
+export type GitCommit = {
+  hash: string;
+  author: string;
+  email: string;
+  /** ISO 8601 date of the commit. */
+  date: string;
+  message: string;
+};
+
+export type GitStatus = {
+  /** False until a repository is initialized for the bot project. */
+  enabled: boolean;
+  branch?: string;
+  branches: string[];
+  changes: GitFileChange[];
+};
@@ -8,7 +8,10 @@ export * from './dialogUtils';
 export * from './extension';
 export * from './extensionRegistration';
 export * from './indexers';
+export * from './lint';
+export * from './luTest';
 export * from './project';
+export * from './projectSearch';
 export * from './import';
 export * from './publish';
 export * from './runtime';
@@ -18,7 +21,12 @@ export * from './server';
 export * from './settings';
 export * from './shell';
 export * from './telemetry';
+export * from './translation';
 export * from './user';
+export * from './utteranceCoverage';
 export * from './featureFlags';
 export * from './creation';
 export * from './orchestrator';
+export * from './recognizerSandbox';
+export * from './conversationTest';
+export * from './git';
@@ -28,6 +28,8 @@ export type FileInfo = {
   path: string;
   relativePath: string;
   lastModified: string;
+  /** Version of the content, used to detect concurrent edits. */
+  eTag?: string;
 };
 
 export type ITrigger = {
@@ -203,6 +205,23 @@ export type LgFile = {
   isContentUnparsed: boolean;
 };
 
+/** Activity a template renders to, of its text or of its structured response, e.g. [Activity ...]. */
+export type LgActivityPreview = {
+  text?: string;
+  speak?: string;
+  attachments: unknown[];
+  suggestedActions: unknown[];
+};
+
+/** Evaluation of an LG template against a memory scope, e.g. { user: { name: 'Bob' } }. */
+export type LgTemplateEvaluation = {
+  /** All the variations the template can render to. */
+  variations: unknown[];
+  /** Activity of one evaluation of the template, undefined when it evaluates to neither a text nor an activity. */
+  activity?: LgActivityPreview;
+  errors: string[];
+};
+
 export type Manifest = {
   name: string;
   version: string;
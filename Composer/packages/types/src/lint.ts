@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export type LintRuleSeverity = 'error' | 'warning' | 'info' | 'off';
+
+export type LintRule = {
+  /** Unique id of the rule, used to configure it in the bot settings and as the code of its diagnostics. */
+  id: string;
+  description?: string;
+  /**
+   * $kinds of the dialog nodes checked by the rule, e.g. Microsoft.TextInput.
+   * A trailing * matches every $kind starting with the prefix, and '.' matches every node.
+   */
+  kinds: string[];
+  /**
+   * Adaptive expression that must be true for every checked node. The node is `node`
+   * and the options of the rule are `options`, e.g. exists(node.maxTurnCount).
+   */
+  condition: string;
+  /** Message of the diagnostics of the nodes failing the condition. */
+  message: string;
+  /** Severity of the rule when the bot settings don't configure it. */
+  defaultSeverity: LintRuleSeverity;
+  /** Default options of the rule, merged with the options configured in the bot settings. */
+  options?: Record<string, any>;
+};
+
+/**
+ * Configuration of a rule in the bot settings, a severity or a severity and options, e.g. ['warning', { pattern: '^[A-Z]' }].
+ */
+export type LintRuleConfig = LintRuleSeverity | [LintRuleSeverity, Record<string, any>];
+
+export type LintSettings = {
+  rules?: Record<string, LintRuleConfig>;
+};
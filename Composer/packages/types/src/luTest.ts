@@ -0,0 +1,77 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export type LuTestEntity = {
+  type: string;
+  text: string;
+};
+
+export type LuTestUtterance = {
+  text: string;
+  /** Expected intent, None when the utterance should not match any intent. */
+  intent: string;
+  /** Expected entities, only the listed ones are checked. */
+  entities?: LuTestEntity[];
+};
+
+/**
+ * Content of a .lutest file, named after the LU file of the dialog it tests, e.g. order.en-us.lutest.
+ */
+export type LuTestSet = {
+  description?: string;
+  utterances: LuTestUtterance[];
+};
+
+export type LuTestSetFile = {
+  /** Path of the .lutest file relative to the project folder. */
+  id: string;
+  dialog: string;
+  locale: string;
+  description?: string;
+  utteranceCount: number;
+  /** Set when the file could not be parsed. */
+  error?: string;
+};
+
+export type LuTestCaseResult = {
+  text: string;
+  expectedIntent: string;
+  predictedIntent: string;
+  score: number;
+  expectedEntities: LuTestEntity[];
+  /** Expected entities the recognizer did not extract. */
+  missingEntities: LuTestEntity[];
+  passed: boolean;
+};
+
+export type LuIntentMetrics = {
+  intent: string;
+  /** Number of test utterances of the intent. */
+  support: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** 0 when the intent is never predicted. */
+  precision: number;
+  /** 0 when the intent has no test utterance. */
+  recall: number;
+  f1: number;
+};
+
+export type LuConfusionMatrix = {
+  /** Intents of the rows, the expected ones, and of the columns, the predicted ones. */
+  intents: string[];
+  counts: number[][];
+};
+
+export type LuTestSetReport = LuTestSetFile & {
+  recognizer?: 'regex' | 'orchestrator';
+  passed: number;
+  failed: number;
+  accuracy: number;
+  results: LuTestCaseResult[];
+  intents: LuIntentMetrics[];
+  confusionMatrix: LuConfusionMatrix;
+};
+
+export type LuTestReportFormat = 'json' | 'csv';
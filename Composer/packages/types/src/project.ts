@@ -7,3 +7,15 @@ import { IBotProject } from './server';
 export type BotProjectService = {
   getProjectById: (projectId: string, user?: UserIdentity) => Promise<IBotProject>;
 };
+
+/**
+ * A bot file changed on disk while the project is open, by Composer or by another editor.
+ */
+export type ProjectFileChange = {
+  type: 'changed' | 'removed';
+  /** Name of the file, file names are unique in a bot project. */
+  name: string;
+  /** Content of a changed file. */
+  content?: string;
+  eTag?: string;
+};
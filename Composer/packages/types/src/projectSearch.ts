@@ -0,0 +1,72 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/**
+ * dialog: the property values of the .dialog files, adaptive expressions included.
+ * lg: the template bodies. lu: the utterances. qna: the questions and answers.
+ */
+export type ProjectSearchFileType = 'dialog' | 'lg' | 'lu' | 'qna';
+
+export type ProjectSearchQuery = {
+  /** Text to find, or a regular expression. */
+  pattern: string;
+  isRegex?: boolean;
+  matchCase?: boolean;
+  wholeWord?: boolean;
+  /** Types of the files to search, all if none. */
+  fileTypes?: ProjectSearchFileType[];
+  /** Locales of the LG, LU and QnA files to search, all if none. */
+  locales?: string[];
+};
+
+export type ProjectSearchMatch = {
+  /** Identifies the match in the searched content, so a replace skips the matches changed since the search. */
+  id: string;
+  fileType: ProjectSearchFileType;
+  /** Name of the file, e.g. main.dialog or main.en-us.lg. */
+  fileName: string;
+  /** Id of the file without locale: its dialog, e.g. main, or an imported QnA file, e.g. faq.source. */
+  dialogId: string;
+  locale?: string;
+  /** Index of the trigger of the dialog with the match, or handling the intent of the utterance. */
+  triggerIndex?: number;
+  triggerName?: string;
+  /** Path of the action with the match, or using the template of the response, e.g. triggers[0].actions[1]. */
+  actionPath?: string;
+  actionName?: string;
+  /** Path of the property with the match in the dialog, e.g. triggers[0].actions[1].condition. */
+  propertyPath?: string;
+  /** LG template, LU intent, or first question of the QnA pair. */
+  name?: string;
+  /** Line of the match in the LG, LU or QnA file, from 1. */
+  line?: number;
+  /** Property value or line of the file with the match. */
+  text: string;
+  /** Offsets of the match in the text. */
+  start: number;
+  end: number;
+  /** Text replacing the match, when the search is a preview of a replace. */
+  replacement?: string;
+};
+
+export type ProjectSearchResult = {
+  matches: ProjectSearchMatch[];
+  /** Whether the search stopped at the maximum number of matches. */
+  truncated: boolean;
+};
+
+export type ProjectReplaceRequest = ProjectSearchQuery & {
+  /** Replaces the matches of a regular expression like String.replace, with $1, $<name> and $&. */
+  replacement: string;
+  /** Ids of the matches to replace, all if not given. */
+  matchIds?: string[];
+};
+
+export type ProjectReplaceResult = {
+  /** Number of the replaced matches. */
+  replaced: number;
+  /** Files with the replacements, which are not saved. */
+  files: { name: string; content: string }[];
+  /** Search of the files with the replacements, to preview the replace of the matches left. */
+  search: ProjectSearchResult;
+};
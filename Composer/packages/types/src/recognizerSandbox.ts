@@ -0,0 +1,40 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export type RecognizedIntent = {
+  intent: string;
+  score: number;
+};
+
+export type RecognizedEntity = {
+  /** Name of the entity, e.g. city. */
+  type: string;
+  /** Text of the utterance the entity was extracted from. */
+  text: string;
+  /** Normalized value of list entities, the text otherwise. */
+  value: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * Recognition of an utterance by the model of a dialog, cross-trained with the models of its parent and sibling dialogs.
+ * regex: the utterances and patterns of the model as regular expressions, like the Regex recognizer.
+ * orchestrator: the snapshot of the model built with a downloaded Orchestrator model.
+ */
+export type RecognizerSandboxResult = {
+  /** Id of the LU file, e.g. main.en-us. */
+  id: string;
+  recognizer: 'regex' | 'orchestrator';
+  /** Intents from the highest score. */
+  intents: RecognizedIntent[];
+  entities: RecognizedEntity[];
+  /** Why the model could not recognize the utterance, e.g. the Orchestrator model is not downloaded. */
+  error?: string;
+};
+
+export type RecognizerSandboxResponse = {
+  utterance: string;
+  locale: string;
+  results: RecognizerSandboxResult[];
+};
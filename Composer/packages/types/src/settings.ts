@@ -1,5 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
+import type { LintSettings } from './lint';
+import type { UtteranceCoverageSettings } from './utteranceCoverage';
 import type { PublishTarget } from './publish';
 
 export interface LibraryRef {
@@ -67,6 +69,8 @@ export type DialogSetting = {
   botId?: string;
   skillHostEndpoint?: string;
   customFunctions: string[];
+  lint?: LintSettings;
+  utteranceCoverage?: UtteranceCoverageSettings;
   [key: string]: any;
 };
 
@@ -5,6 +5,7 @@
 import { AxiosInstance } from 'axios';
 
 import { IDiagnostic } from './diagnostic';
+import type { DialogDiffItem } from './dialogUtils';
 import type {
   DialogInfo,
   LuFile,
@@ -64,6 +65,17 @@ export type DisabledMenuActions = {
   reason: string;
 };
 
+/** A command of the command palette. Extensions contribute their own commands next to the built-in ones. */
+export type ShellCommand = {
+  id: string;
+  title: string;
+  /** The group the command is listed under, e.g. the name of the extension. */
+  category?: string;
+  /** Other words the command is found by. */
+  keywords?: string[];
+  run: () => void | Promise<void>;
+};
+
 export type ApplicationContextApi = {
   navigateTo: (to: string, opts?: { state?: any; replace?: boolean }) => void;
   updateUserSettings: (settings: Partial<UserSettings>) => void;
@@ -74,6 +86,8 @@ export type ApplicationContextApi = {
   confirm: (title: string, subTitle: string, settings?: any) => Promise<boolean>;
   updateFlowZoomRate: (currentRate: number) => void;
   telemetryClient: TelemetryClient;
+  /** Adds the commands to the command palette, the returned function removes them again. */
+  registerCommands: (commands: ShellCommand[]) => () => void;
 };
 
 export type ApplicationContext = {
@@ -104,6 +118,7 @@ export type LgContextApi = {
   getLgTemplates: (id: string) => LgTemplate[];
   copyLgTemplate: (id: string, fromTemplateName: string, toTemplateName?: string) => Promise<LgFile[] | undefined>;
   addLgTemplate: (id: string, templateName: string, templateStr: string) => Promise<LgFile[] | undefined>;
+  addLgTemplates: (id: string, templates: LgTemplate[]) => Promise<void>;
   updateLgFile: (id: string, content: string) => Promise<void>;
   updateLgTemplate: (id: string, templateName: string, templateStr: string) => Promise<LgFile[] | undefined>;
   debouncedUpdateLgTemplate: (id: string, templateName: string, templateStr: string) => Promise<LgFile[] | undefined>;
@@ -170,6 +185,7 @@ export type ActionContextApi = {
   deleteAction: (dialogId: string, action: MicrosoftIDialog) => Promise<void>;
   deleteActions: (dialogId: string, actions: MicrosoftIDialog[]) => Promise<void>;
   actionsContainLuIntent: (action: MicrosoftIDialog[]) => boolean;
+  getActionsMemoryPaths: (actions: MicrosoftIDialog[]) => { read: string[]; written: string[] };
 };
 
 export type DialogEditingContextApi = {
@@ -193,6 +209,8 @@ export type DialogEditingContext = {
   focusedSteps: string[];
   focusedTab?: string;
   focusPath: string;
+  /** Triggers and actions of the current dialog that differ from the compared revision. */
+  dialogDiff?: DialogDiffItem[];
 };
 
 export type ShellData = ApplicationContext & ProjectContext & DialogEditingContext;
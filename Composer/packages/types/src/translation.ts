@@ -0,0 +1,50 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/**
+ * Result of importing an XLIFF file into the locale files of a bot.
+ * The units are named <file>#<unit>, e.g. main.lg#Greeting/1 or main.lu#BookFlight/3.
+ */
+export type TranslationImportReport = {
+  /** Target language of the XLIFF file. */
+  locale: string;
+  /** Number of the units whose translation was written to the locale files. */
+  translated: number;
+  /** Units without translation. */
+  untranslated: string[];
+  /** Units whose source changed since the export, or that the source no longer has. */
+  stale: string[];
+  /** Units whose translation dropped or changed the expressions or the entity labels of the source. */
+  invalid: string[];
+};
+
+export type TranslationImportResult = {
+  report: TranslationImportReport;
+  /** Locale files with the translations, created for the source files without one. */
+  files: { name: string; content: string }[];
+};
+
+/**
+ * missing: the locale file has no such item.
+ * untranslated: the item is identical to the one of the default language.
+ * outdated: the item no longer matches the structure of the default language, e.g. its expressions or entity labels,
+ * or the item of the default language changed since the translation was imported.
+ */
+export type TranslationStatus = 'translated' | 'missing' | 'untranslated' | 'outdated';
+
+export type TranslationItem = {
+  type: 'lg' | 'lu' | 'qna';
+  /** LG template, LU intent, or first question of the QnA pair. */
+  name: string;
+  status: TranslationStatus;
+};
+
+/** Translation of the LG, LU and QnA files of one dialog, e.g. main, to one locale. */
+export type TranslationCompleteness = {
+  /** Id of the files without locale. */
+  id: string;
+  locale: string;
+  total: number;
+  translated: number;
+  items: TranslationItem[];
+};
@@ -0,0 +1,47 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+/** Thresholds of the utterance coverage analysis, configured in the bot settings. */
+export type UtteranceCoverageSettings = {
+  /** Intents with fewer utterances are reported, 5 by default. */
+  minUtterances?: number;
+  /** Word similarity, from 0 to 1, from which utterances of different intents are near-duplicates, 0.8 by default. */
+  similarityThreshold?: number;
+  /** Intents with this many times fewer utterances than the largest intent of their LU file are unbalanced, 4 by default. */
+  imbalanceRatio?: number;
+};
+
+export type UtteranceRef = {
+  /** Id of the LU file, e.g. main.en-us. */
+  id: string;
+  intent: string;
+  text: string;
+};
+
+/**
+ * Utterances of two intents of the same locale that a recognizer can't tell apart.
+ * duplicate: the utterances are identical once normalized.
+ * similar: the utterances share most of their words.
+ */
+export type UtteranceConflict = {
+  type: 'duplicate' | 'similar';
+  similarity: number;
+  utterance: UtteranceRef;
+  other: UtteranceRef;
+};
+
+export type IntentCoverage = {
+  /** Id of the LU file, e.g. main.en-us. */
+  id: string;
+  intent: string;
+  utterances: number;
+  /** Number of the conflicts of the utterances of the intent with the ones of other intents. */
+  conflicts: number;
+  tooFewUtterances: boolean;
+  unbalanced: boolean;
+};
+
+export type UtteranceCoverageReport = {
+  intents: IntentCoverage[];
+  conflicts: UtteranceConflict[];
+};